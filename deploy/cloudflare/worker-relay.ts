@@ -5,7 +5,8 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { FULL_TOOLS_FALLBACK } from './fallback-tools.js';
+import { RelayChunkAssembler, encodeRelayFrames, isRelayChunk } from '../../src/relay-chunks.js';
+import { EXPORT_TOOLS, FULL_TOOLS_FALLBACK, PLUGIN_MESSAGE_TYPES, STRUCTURED_TOOLS } from './fallback-tools.js';
 
 export interface Env {
   RELAY_ROOM: DurableObjectNamespace;
@@ -40,31 +41,15 @@ function generateChannelCode(): string {
   return Math.random().toString(36).slice(2, 10).toUpperCase();
 }
 
-const BASE_TOOLS: Tool[] = [
-  {
-    name: 'connect_to_relay',
-    description: 'Connect to Figma via Relay Server. Prerequisite: user must open the Figma plugin first and provide a real Channel Code. NEVER guess/fabricate channelCode. If missing, ask user to provide: connect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}. Use wss:// for remote production relay endpoints.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        channelCode: { type: 'string' },
-        relayUrl: { type: 'string' },
-      },
-      required: ['channelCode'],
-    },
-  },
-  {
-    name: 'get_connection_status',
-    description: 'Check MCP<->Figma connection state before any design tool call. Use this first. If disconnected, ask user to open Figma plugin and provide channel code, then call connect_to_relay.',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-];
-
 const FALLBACK_TOOLSET: Tool[] = [ ...FULL_TOOLS_FALLBACK ];
 
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  PNG: 'image/png',
+  JPG: 'image/jpeg',
+  SVG: 'image/svg+xml',
+  PDF: 'application/pdf',
+};
+
 function json(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data, null, 2), {
     status,
@@ -143,6 +128,17 @@ async function buildTools(env: Env, channelCode: string | null): Promise<Tool[]>
   return [...FALLBACK_TOOLSET, ...normalized];
 }
 
+// Same contract as toolResult() in src/output-schemas.ts: tools that declare an outputSchema also carry the result
+// as structuredContent (non-object results wrapped as { result }); the rest return the JSON text block only.
+function toolResult(name: string, value: unknown, extraContent: any[] = []) {
+  const content = [{ type: 'text', text: JSON.stringify(value, null, 2) }, ...extraContent];
+  if (!STRUCTURED_TOOLS.has(name)) return { content };
+  const structuredContent = value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : { result: value ?? null };
+  return { content, structuredContent };
+}
+
 async function createMcpServer(env: Env, session: SessionContext): Promise<Server> {
   const workerVersion = resolveWorkerVersion(env);
   const server = new Server(
@@ -164,57 +160,51 @@ async function createMcpServer(env: Env, session: SessionContext): Promise<Serve
         ? relayUrlArg.trim()
         : (session.relayUrl || 'ws://127.0.0.1:8888');
       if (!channelCode || typeof channelCode !== 'string') {
+        const message = '❌ 需要提供 Channel Code（禁止猜测）\n\n请先在 Figma 插件中获取真实 Channel Code，然后调用：\nconnect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}';
         return {
-          content: [{
-            type: 'text',
-            text: '❌ 需要提供 Channel Code（禁止猜测）\n\n请先在 Figma 插件中获取真实 Channel Code，然后调用：\nconnect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}',
-          }],
+          content: [{ type: 'text', text: message }],
+          structuredContent: { connected: false, relayUrl: targetRelayUrl, channelCode: null, message },
         };
       }
       session.channelCode = channelCode.trim();
       session.relayUrl = targetRelayUrl;
       const status = await relayStatus(env, session.channelCode);
+      const message = status.figmaConnected
+        ? `✅ 成功连接到 Figma！\nRelay: ${targetRelayUrl}\nChannel: ${session.channelCode}\n现在可以使用所有 Figma 工具了。`
+        : `✅ 已绑定 Channel，等待 Figma 插件连接...\nRelay: ${targetRelayUrl}\nChannel: ${session.channelCode}\n请在 Figma 插件中连接 Relay Server。`;
       return {
-        content: [{
-          type: 'text',
-          text: status.figmaConnected
-            ? `✅ 成功连接到 Figma！\nRelay: ${targetRelayUrl}\nChannel: ${session.channelCode}\n现在可以使用所有 Figma 工具了。`
-            : `✅ 已绑定 Channel，等待 Figma 插件连接...\nRelay: ${targetRelayUrl}\nChannel: ${session.channelCode}\n请在 Figma 插件中连接 Relay Server。`,
-        }],
+        content: [{ type: 'text', text: message }],
+        structuredContent: { connected: status.figmaConnected, relayUrl: targetRelayUrl, channelCode: session.channelCode, message },
       };
     }
 
     if (name === 'get_connection_status') {
       if (!session.channelCode) {
-        return {
-          content: [{ type: 'text', text: JSON.stringify({
-            ready: false,
-            connectedToRelay: false,
-            figmaHandshakeComplete: false,
-            relayUrl: session.relayUrl || 'ws://127.0.0.1:8888',
-            channelCode: null,
-            figmaConnected: false,
-            nextAction: 'Not connected. Ask user to open Figma plugin, get Channel Code, then run connect_to_relay.',
-            connectTemplate: `connect_to_relay {"relayUrl":"${session.relayUrl || 'ws://127.0.0.1:8888'}","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}`,
-          }, null, 2) }],
-        };
+        return toolResult(name, {
+          ready: false,
+          connectedToRelay: false,
+          figmaHandshakeComplete: false,
+          relayUrl: session.relayUrl || 'ws://127.0.0.1:8888',
+          channelCode: null,
+          figmaConnected: false,
+          nextAction: 'Not connected. Ask user to open Figma plugin, get Channel Code, then run connect_to_relay.',
+          connectTemplate: `connect_to_relay {"relayUrl":"${session.relayUrl || 'ws://127.0.0.1:8888'}","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}`,
+        });
       }
       const status = await relayStatus(env, session.channelCode);
       const relayUrl = session.relayUrl || 'ws://127.0.0.1:8888';
-      return {
-        content: [{ type: 'text', text: JSON.stringify({
-          ready: status.figmaConnected,
-          connectedToRelay: true,
-          figmaHandshakeComplete: status.figmaConnected,
-          relayUrl,
-          channelCode: session.channelCode,
-          figmaConnected: status.figmaConnected,
-          nextAction: status.figmaConnected
-            ? 'Connected. You can run other MCP tools now.'
-            : 'Not connected. Ask user to open Figma plugin, get Channel Code, then run connect_to_relay.',
-          connectTemplate: `connect_to_relay {"relayUrl":"${relayUrl}","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}`,
-        }, null, 2) }],
-      };
+      return toolResult(name, {
+        ready: status.figmaConnected,
+        connectedToRelay: true,
+        figmaHandshakeComplete: status.figmaConnected,
+        relayUrl,
+        channelCode: session.channelCode,
+        figmaConnected: status.figmaConnected,
+        nextAction: status.figmaConnected
+          ? 'Connected. You can run other MCP tools now.'
+          : 'Not connected. Ask user to open Figma plugin, get Channel Code, then run connect_to_relay.',
+        connectTemplate: `connect_to_relay {"relayUrl":"${relayUrl}","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}`,
+      });
     }
 
     if (!session.channelCode) {
@@ -225,7 +215,7 @@ async function createMcpServer(env: Env, session: SessionContext): Promise<Serve
     }
 
     const bridgeResp = await bridgeCall(env, session.channelCode, {
-      type: name,
+      type: PLUGIN_MESSAGE_TYPES[name] ?? name,
       id: crypto.randomUUID(),
       payload: args,
     });
@@ -237,14 +227,64 @@ async function createMcpServer(env: Env, session: SessionContext): Promise<Serve
       };
     }
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(bridgeResp.result ?? {}, null, 2) }],
-    };
+    if (EXPORT_TOOLS.has(name)) {
+      try {
+        const blocks = await exportContentBlocks(env, session.channelCode, bridgeResp.result);
+        return toolResult(name, bridgeResp.result ?? {}, blocks);
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true,
+        };
+      }
+    }
+
+    return toolResult(name, bridgeResp.result ?? {});
   });
 
   return server;
 }
 
+// Pull full export bytes (inline, or chunked in the plugin cache) and return them as MCP content blocks.
+// outputDir is a local-server option; the worker has no disk to write to.
+async function exportContentBlocks(env: Env, channel: string, result: any): Promise<any[]> {
+  const items: any[] = Array.isArray(result?.results) ? result.results : [result];
+  const blocks: any[] = [];
+  for (const item of items) {
+    let base64: string | null = typeof item?.base64 === 'string' ? item.base64 : null;
+    if (base64 === null && item?.exportId) {
+      const chunks: string[] = [];
+      for (let index = 0; index < (item.chunkCount ?? 1); index++) {
+        const chunk = await bridgeCall(env, channel, {
+          type: 'read_export_chunk',
+          id: crypto.randomUUID(),
+          payload: { exportId: item.exportId, index },
+        }, 30000);
+        if (!chunk.ok) throw new Error(chunk.error || 'read_export_chunk failed');
+        chunks.push((chunk.result as any)?.data ?? '');
+      }
+      base64 = chunks.join('');
+    }
+    if (base64 === null) continue;
+    delete item.base64;
+    delete item.exportId;
+    delete item.chunkCount;
+
+    const format = String(item.format ?? 'PNG').toUpperCase();
+    const mimeType = EXPORT_MIME_TYPES[format] ?? 'application/octet-stream';
+    const uri = `figma://export/${String(item.nodeId ?? 'capture').replace(/[^a-zA-Z0-9._-]+/g, '-')}.${format.toLowerCase()}`;
+    if (format === 'PNG' || format === 'JPG') {
+      blocks.push({ type: 'image', data: base64, mimeType });
+    } else if (format === 'SVG') {
+      const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+      blocks.push({ type: 'resource', resource: { uri, mimeType, text: new TextDecoder().decode(bytes) } });
+    } else {
+      blocks.push({ type: 'resource', resource: { uri, mimeType, blob: base64 } });
+    }
+  }
+  return blocks;
+}
+
 function gcSessions() {
   const now = Date.now();
   for (const [sessionId, ctx] of sessions.entries()) {
@@ -370,6 +410,10 @@ export class RelayRoomDO {
     reject: (reason: Error) => void;
     timeout: number;
   }>();
+  // Partial chunked replies to bridge calls; a failed or expired stream rejects its pending call.
+  private chunks = new RelayChunkAssembler((error, messageId) => {
+    if (messageId) this.pending.get(messageId)?.reject(error);
+  });
 
   private isSocketOpen(ws: WebSocket | null): ws is WebSocket {
     return !!ws && ws.readyState === WS_OPEN;
@@ -411,6 +455,7 @@ export class RelayRoomDO {
       pending.reject(new Error(`Figma disconnected while waiting for ${id}`));
     }
     this.pending.clear();
+    this.chunks.clear();
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -457,7 +502,9 @@ export class RelayRoomDO {
 
     const messageId = (message as any).id;
     try {
-      this.figma!.send(JSON.stringify(message));
+      for (const frame of encodeRelayFrames(message, crypto.randomUUID())) {
+        this.figma!.send(frame);
+      }
       if (this.figmaChannel) this.resetFigmaHeartbeat(this.figmaChannel);
     } catch {
       this.markFigmaDisconnected(this.figmaChannel || 'UNKNOWN');
@@ -520,6 +567,11 @@ export class RelayRoomDO {
           return;
         }
 
+        // Chunk frames are forwarded to clients as-is; bridge calls need the reassembled reply.
+        if (isRelayChunk(parsed)) {
+          parsed = parsed.messageId && this.pending.has(parsed.messageId) ? this.chunks.accept(parsed) : null;
+        }
+
         if (parsed && typeof parsed.id === 'string') {
           const pending = this.pending.get(parsed.id);
           if (pending) {
@@ -1,37 +1,149 @@
 // Supercharged Figma Plugin - Runtime Engine
+var __rest = (this && this.__rest) || function (s, e) {
+    var t = {};
+    for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p) && e.indexOf(p) < 0)
+        t[p] = s[p];
+    if (s != null && typeof Object.getOwnPropertySymbols === "function")
+        for (var i = 0, p = Object.getOwnPropertySymbols(s); i < p.length; i++) {
+            if (e.indexOf(p[i]) < 0 && Object.prototype.propertyIsEnumerable.call(s, p[i]))
+                t[p[i]] = s[p[i]];
+        }
+    return t;
+};
 // Connection state (WebSocket is in UI thread)
 let isConnected = false;
 let activeBridgeSessionId = null;
 let pendingDisconnectTimer = null;
 const TOOL_EXECUTION_TIMEOUT_MS = 120000;
-let pluginToolCatalog = null;
+// The tools this plugin executes, with the schemas the MCP server advertises (served by get_tools).
+// <generated:tool-catalog>
+// Generated from src/tools.ts by `npm run generate:tools`; do not edit by hand.
+const PLUGIN_TOOL_CATALOG = [
+    { "name": "smart_select", "description": "AI-powered semantic node retrieval using natural language query (fuzzy, not exact-match filtering). Supports current page, whole document, or explicit pageIds/pageNames. For deterministic exact filtering, prefer scan_by_pattern.", "inputSchema": { "type": "object", "properties": { "query": { "type": "string", "description": "Natural language query, e.g., \"all buttons\", \"login form elements\", \"red cards in header\". Color words (red, orange, brown, yellow, green, cyan/teal, blue, purple, pink, black, white, gray, or 红色/蓝色/…) match by perceptual hue family; a hex such as \"#3366ff\" matches fills within ΔE2000 10" }, "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "document", "description": "Search scope when pageIds/pageNames are not provided." }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to search. Takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to search (case-insensitive). Takes precedence over scope." }, "limit": { "type": "number", "default": 100, "description": "Maximum results to return" } }, "required": ["query"] } },
+    { "name": "find_similar", "description": "Find nodes visually or structurally similar to a target node (type, size, CIEDE2000 fill color distance, corner radius, auto layout). Supports current page, whole document, or explicit pageIds/pageNames.", "inputSchema": { "type": "object", "properties": { "targetId": { "type": "string", "description": "ID of the reference node" }, "threshold": { "type": "number", "default": 0.85, "minimum": 0, "maximum": 1, "description": "Similarity threshold (0-1)" }, "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "document", "description": "Search scope when pageIds/pageNames are not provided." }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to search. Takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to search (case-insensitive). Takes precedence over scope." } }, "required": ["targetId"] } },
+    { "name": "scan_by_pattern", "description": "Scan nodes by pattern (name/type/size/color/layout). Supports current page, whole document, or explicit pageIds/pageNames. Returns paginated-like payload with `nodes` and truncation metadata.", "inputSchema": { "type": "object", "properties": { "pattern": { "type": "object", "properties": { "nameRegex": { "type": "string" }, "types": { "type": "array", "items": { "type": "string" } }, "minWidth": { "type": "number" }, "maxWidth": { "type": "number" }, "minHeight": { "type": "number" }, "maxHeight": { "type": "number" }, "fillColor": { "type": "object" }, "hasAutoLayout": { "type": "boolean" } } }, "limit": { "type": "number", "default": 200, "minimum": 1, "maximum": 5000, "description": "Maximum matched nodes to return. Use to prevent oversized responses on large documents." }, "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "document", "description": "Search scope when pageIds/pageNames are not provided." }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to scan. Takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to scan (case-insensitive). Takes precedence over scope." } }, "required": ["pattern"] } },
+    { "name": "auto_discover_components", "description": "Automatically analyze nodes and discover opportunities for component creation. Supports current page, whole document, or explicit pageIds/pageNames.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "page", "description": "Analysis scope when pageIds/pageNames are not provided." }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to analyze. Takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to analyze (case-insensitive). Takes precedence over scope." }, "minSimilarity": { "type": "number", "default": 0.9 }, "minOccurrences": { "type": "number", "default": 3 } } } },
+    { "name": "batch_create", "description": "Batch create multiple nodes efficiently. Handles 1000+ operations without timeout. `operation.type` accepts alias formats: snake_case, camelCase, kebab-case, and uppercase.", "inputSchema": { "type": "object", "properties": { "operations": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "description": "Create type alias. Supported families: rectangle/frame/text/component/ellipse/line/polygon/star/vector. Examples: `create_frame`, `createFrame`, `frame`." }, "params": { "type": "object", "description": "Node properties. Paint arrays (`fills`/`strokes`) support either hex strings (e.g. `#4A90E2`) or full Figma paint objects." } } } }, "chunkSize": { "type": "number", "default": 50 }, "continueOnError": { "type": "boolean", "default": true }, "atomic": { "type": "boolean", "default": false, "description": "Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["operations"] }, "outputSchema": { "type": "object", "anyOf": [{ "type": "object", "properties": { "success": { "type": "number", "description": "Operations that succeeded" }, "failed": { "type": "number", "description": "Operations that failed" }, "createdIds": { "type": "array", "items": { "type": "string" }, "description": "batch_create: ids of the created nodes, in operation order" }, "errors": { "type": "array", "items": { "type": "object", "properties": { "error": { "type": "string" }, "nodeId": { "type": "string" }, "operation": { "type": "object", "description": "The failed batch_create operation" } }, "required": ["error"] }, "description": "First 10 failures" }, "cancelled": { "type": "boolean", "description": "batch_create: stopped by cancel_operation" }, "skipped": { "type": "number", "description": "batch_create: operations not run because of cancellation" }, "results": { "type": "array", "items": { "type": "object" } }, "operationId": { "type": "string", "description": "Journal id for undo_operations" } }, "required": ["success", "failed", "errors"] }, { "type": "object", "properties": { "atomic": { "type": "boolean", "enum": [true] }, "committed": { "type": "boolean", "enum": [false] }, "failedOperation": { "type": "object", "properties": { "index": { "type": "number" }, "target": { "type": "string" }, "error": { "type": "string" } }, "required": ["index", "target", "error"] }, "rolledBack": { "type": "boolean" }, "rollback": { "type": "object", "properties": { "reverted": { "type": "object", "additionalProperties": { "type": "number" } }, "failed": { "type": "array", "items": { "type": "object" } } }, "required": ["reverted", "failed"] } }, "required": ["atomic", "committed", "failedOperation", "rolledBack", "rollback"] }, { "type": "object", "properties": { "dryRun": { "type": "boolean", "enum": [true] }, "planId": { "type": "string" }, "tool": { "type": "string" }, "createdAt": { "type": "number" }, "preview": { "type": "string", "enum": ["full", "partial"] }, "summary": { "type": "object", "properties": { "create": { "type": "number" }, "modify": { "type": "number" }, "delete": { "type": "number" }, "move": { "type": "number" }, "errors": { "type": "number" } }, "required": ["create", "modify", "delete", "move", "errors"] }, "changes": { "type": "object", "properties": { "create": { "type": "array", "items": { "type": "object" } }, "modify": { "type": "array", "items": { "type": "object" } }, "delete": { "type": "array", "items": { "type": "object" } }, "move": { "type": "array", "items": { "type": "object" } } }, "required": ["create", "modify", "delete", "move"] }, "errors": { "type": "array", "items": { "type": "object", "properties": { "target": { "type": "string" }, "error": { "type": "string" } }, "required": ["target", "error"] } }, "warnings": { "type": "array", "items": { "type": "string" } } }, "required": ["dryRun", "planId", "tool", "preview", "summary", "changes", "errors", "warnings"] }] } },
+    { "name": "batch_modify", "description": "Batch modify multiple nodes in one operation.", "inputSchema": { "type": "object", "properties": { "operations": { "type": "array", "items": { "type": "object", "properties": { "nodeId": { "type": "string" }, "changes": { "type": "object" } } } }, "chunkSize": { "type": "number", "default": 50 }, "atomic": { "type": "boolean", "default": false, "description": "Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["operations"] }, "outputSchema": { "type": "object", "anyOf": [{ "type": "object", "properties": { "success": { "type": "number", "description": "Operations that succeeded" }, "failed": { "type": "number", "description": "Operations that failed" }, "createdIds": { "type": "array", "items": { "type": "string" }, "description": "batch_create: ids of the created nodes, in operation order" }, "errors": { "type": "array", "items": { "type": "object", "properties": { "error": { "type": "string" }, "nodeId": { "type": "string" }, "operation": { "type": "object", "description": "The failed batch_create operation" } }, "required": ["error"] }, "description": "First 10 failures" }, "cancelled": { "type": "boolean", "description": "batch_create: stopped by cancel_operation" }, "skipped": { "type": "number", "description": "batch_create: operations not run because of cancellation" }, "results": { "type": "array", "items": { "type": "object" } }, "operationId": { "type": "string", "description": "Journal id for undo_operations" } }, "required": ["success", "failed", "errors"] }, { "type": "object", "properties": { "atomic": { "type": "boolean", "enum": [true] }, "committed": { "type": "boolean", "enum": [false] }, "failedOperation": { "type": "object", "properties": { "index": { "type": "number" }, "target": { "type": "string" }, "error": { "type": "string" } }, "required": ["index", "target", "error"] }, "rolledBack": { "type": "boolean" }, "rollback": { "type": "object", "properties": { "reverted": { "type": "object", "additionalProperties": { "type": "number" } }, "failed": { "type": "array", "items": { "type": "object" } } }, "required": ["reverted", "failed"] } }, "required": ["atomic", "committed", "failedOperation", "rolledBack", "rollback"] }, { "type": "object", "properties": { "dryRun": { "type": "boolean", "enum": [true] }, "planId": { "type": "string" }, "tool": { "type": "string" }, "createdAt": { "type": "number" }, "preview": { "type": "string", "enum": ["full", "partial"] }, "summary": { "type": "object", "properties": { "create": { "type": "number" }, "modify": { "type": "number" }, "delete": { "type": "number" }, "move": { "type": "number" }, "errors": { "type": "number" } }, "required": ["create", "modify", "delete", "move", "errors"] }, "changes": { "type": "object", "properties": { "create": { "type": "array", "items": { "type": "object" } }, "modify": { "type": "array", "items": { "type": "object" } }, "delete": { "type": "array", "items": { "type": "object" } }, "move": { "type": "array", "items": { "type": "object" } } }, "required": ["create", "modify", "delete", "move"] }, "errors": { "type": "array", "items": { "type": "object", "properties": { "target": { "type": "string" }, "error": { "type": "string" } }, "required": ["target", "error"] } }, "warnings": { "type": "array", "items": { "type": "string" } } }, "required": ["dryRun", "planId", "tool", "preview", "summary", "changes", "errors", "warnings"] }] } },
+    { "name": "batch_clone", "description": "Clone a template node multiple times with optional position offset. For large counts, IDs are optional and can be truncated to keep payloads small.", "inputSchema": { "type": "object", "properties": { "templateId": { "type": "string" }, "count": { "type": "number" }, "offsetX": { "type": "number", "default": 200 }, "offsetY": { "type": "number", "default": 0 }, "gridColumns": { "type": "number", "default": 5 }, "includeIds": { "type": "boolean", "default": false, "description": "Whether to include cloned node IDs in the response." }, "maxReturnedIds": { "type": "number", "default": 100, "minimum": 0, "maximum": 5000, "description": "Maximum number of IDs returned when includeIds=true." }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["templateId", "count"] } },
+    { "name": "batch_rename", "description": "Batch rename nodes with pattern support.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "pattern": { "type": "string", "description": "Name pattern with {index} placeholder" }, "startIndex": { "type": "number", "default": 1 }, "atomic": { "type": "boolean", "default": false, "description": "Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "pattern"] } },
+    { "name": "batch_delete", "description": "Batch delete multiple nodes safely.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "confirm": { "type": "boolean", "default": false }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "create_component_from_nodes", "description": "Convert multiple nodes into a component. Can organize similar nodes automatically.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "name": { "type": "string" }, "organize": { "type": "boolean", "default": true, "description": "Organize components on a dedicated page" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "create_variant_set", "description": "Create a component set with variants from multiple components.", "inputSchema": { "type": "object", "properties": { "componentIds": { "type": "array", "items": { "type": "string" } }, "propertyName": { "type": "string" }, "propertyValues": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentIds", "propertyName", "propertyValues"] } },
+    { "name": "auto_create_variants", "description": "Intelligently analyze a component and auto-generate variants based on property differences.", "inputSchema": { "type": "object", "properties": { "componentId": { "type": "string" }, "detectProperties": { "type": "array", "items": { "type": "string" }, "default": ["fills", "text", "visibility"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentId"] } },
+    { "name": "merge_to_component", "description": "Intelligently merge similar nodes into a component, creating instances to replace originals.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "smartMatch": { "type": "boolean", "default": true, "description": "Auto-group similar nodes" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "detach_instance", "description": "Detach component instances and optionally delete the main component.", "inputSchema": { "type": "object", "properties": { "instanceIds": { "type": "array", "items": { "type": "string" } }, "deleteMainComponent": { "type": "boolean", "default": false }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["instanceIds"] } },
+    { "name": "swap_component", "description": "Swap multiple instances to a different component.", "inputSchema": { "type": "object", "properties": { "instanceIds": { "type": "array", "items": { "type": "string" } }, "newComponentKey": { "type": "string" }, "preserveOverrides": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["instanceIds", "newComponentKey"] } },
+    { "name": "create_interaction", "description": "Create a prototype interaction between two nodes (strict mode). Source must support reactions (recommended FRAME/INSTANCE). Supported trigger types: ON_CLICK, ON_HOVER, ON_PRESS, AFTER_TIMEOUT, MOUSE_UP, MOUSE_DOWN, MOUSE_ENTER, MOUSE_LEAVE, ON_MEDIA_END. ON_DRAG/keyboard triggers are currently unsupported and are rejected explicitly. Supported action types: NODE, BACK, CLOSE, URL. For NODE actions, destinationId/navigation/transition must be valid. Unsupported types are rejected with explicit errors (no silent downgrade).", "inputSchema": { "type": "object", "properties": { "fromNodeId": { "type": "string" }, "toNodeId": { "type": "string" }, "trigger": { "type": "object", "properties": { "type": { "type": "string", "enum": ["ON_CLICK", "ON_HOVER", "ON_PRESS", "AFTER_TIMEOUT", "MOUSE_UP", "MOUSE_DOWN", "MOUSE_ENTER", "MOUSE_LEAVE", "ON_MEDIA_END"] }, "delay": { "type": "number" }, "timeout": { "type": "number" } } }, "action": { "type": "object", "properties": { "type": { "type": "string", "enum": ["NODE", "BACK", "CLOSE", "URL", "OPEN_LINK"] }, "navigation": { "type": "string", "enum": ["NAVIGATE", "OVERLAY", "SWAP", "SCROLL_TO", "CHANGE_TO"] }, "destinationId": { "type": "string" }, "url": { "type": "string" }, "animation": { "type": "object", "properties": { "type": { "type": "string", "enum": ["DISSOLVE", "SMART_ANIMATE", "MOVE_IN", "MOVE_OUT", "PUSH", "SLIDE_IN", "SLIDE_OUT"] }, "direction": { "type": "string", "enum": ["LEFT", "RIGHT", "TOP", "BOTTOM"] }, "matchLayers": { "type": "boolean" }, "duration": { "type": "number" }, "easing": { "type": "string", "enum": ["EASE_IN", "EASE_OUT", "EASE_IN_AND_OUT", "LINEAR"] } } }, "transition": { "type": "object" }, "preserveScrollPosition": { "type": "boolean" }, "resetScrollPosition": { "type": "boolean" }, "resetVideoPosition": { "type": "boolean" }, "resetInteractiveComponents": { "type": "boolean" } } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["fromNodeId", "toNodeId"] } },
+    { "name": "batch_connect", "description": "Batch create prototype connections.", "inputSchema": { "type": "object", "properties": { "connections": { "type": "array", "items": { "type": "object", "properties": { "fromNodeId": { "type": "string" }, "toNodeId": { "type": "string" }, "trigger": { "type": "object" }, "action": { "type": "object" } } } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["connections"] } },
+    { "name": "copy_prototype", "description": "Copy prototype interactions from one node to others.", "inputSchema": { "type": "object", "properties": { "sourceNodeId": { "type": "string" }, "targetNodeIds": { "type": "array", "items": { "type": "string" } }, "adjustTargets": { "type": "boolean", "default": true, "description": "Auto-adjust destination based on target context" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["sourceNodeId", "targetNodeIds"] } },
+    { "name": "create_flow", "description": "Create a prototype flow with a starting frame.", "inputSchema": { "type": "object", "properties": { "startFrameId": { "type": "string" }, "name": { "type": "string" }, "description": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["startFrameId", "name"] } },
+    { "name": "create_color_style", "description": "Create a color style from a node or direct values.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "color": { "type": "object", "properties": { "r": {}, "g": {}, "b": {}, "a": {} } }, "sourceNodeId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } } } },
+    { "name": "create_text_style", "description": "Create a text style from a text node.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "sourceNodeId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["name", "sourceNodeId"] } },
+    { "name": "apply_style_to_nodes", "description": "Apply a style to multiple nodes.", "inputSchema": { "type": "object", "properties": { "styleId": { "type": "string" }, "nodeIds": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["styleId", "nodeIds"] } },
+    { "name": "sync_styles_to_library", "description": "Sync local styles to a team library.", "inputSchema": { "type": "object", "properties": { "styleIds": { "type": "array", "items": { "type": "string" } }, "libraryFileKey": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["styleIds"] } },
+    { "name": "analyze_duplicates", "description": "Analyze duplicate/similar elements and return consolidation opportunities. Scope can target current page, whole document, or explicit pageIds/pageNames. Supports output caps for large files.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "document" }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to analyze. If provided, takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope." }, "threshold": { "type": "number", "default": 0.9 }, "minOccurrences": { "type": "number", "default": 2 }, "maxGroups": { "type": "number", "default": 100, "minimum": 1, "maximum": 1000, "description": "Maximum duplicate groups returned." }, "maxNodesPerGroup": { "type": "number", "default": 50, "minimum": 1, "maximum": 200, "description": "Maximum node references returned per duplicate group." }, "maxAnalyzedNodes": { "type": "number", "default": 5000, "minimum": 100, "maximum": 50000, "description": "Hard limit for analyzed nodes to prevent timeouts on very large documents." } } }, "outputSchema": { "type": "object", "properties": { "duplicates": { "type": "array", "items": { "type": "object", "properties": { "similarity": { "type": "number" }, "count": { "type": "number" }, "nodes": { "type": "array", "items": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" } }, "required": ["id", "name"] } }, "nodesTruncated": { "type": "boolean" }, "suggestedAction": { "type": "string", "enum": ["Create Component", "Review"] } }, "required": ["similarity", "count", "nodes", "nodesTruncated", "suggestedAction"] } }, "totalAnalyzed": { "type": "number" }, "analyzedNodesTruncated": { "type": "boolean" }, "maxAnalyzedNodes": { "type": "number" }, "potentialSavings": { "type": "number", "description": "Nodes that would disappear if every group became one component" }, "returnedGroups": { "type": "number" }, "totalGroups": { "type": "number" }, "truncatedGroups": { "type": "boolean" }, "maxGroups": { "type": "number" }, "maxNodesPerGroup": { "type": "number" } }, "required": ["duplicates", "totalAnalyzed", "potentialSavings", "returnedGroups", "totalGroups"] } },
+    { "name": "suggest_component_structure", "description": "Analyze design and suggest optimal component structure. Scope can target current page, whole document, or explicit pageIds/pageNames.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "document" }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to analyze. If provided, takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope." }, "maxDepth": { "type": "number", "default": 3 } } } },
+    { "name": "generate_naming_scheme", "description": "Generate consistent naming scheme for nodes based on patterns.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "convention": { "type": "string", "enum": ["semantic", "functional", "atomic"], "default": "semantic" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "check_consistency", "description": "Check design consistency (spacing, colors, typography). Scope can target current page, whole document, or explicit pageIds/pageNames.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "document" }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to analyze. If provided, takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope." }, "checks": { "type": "array", "items": { "type": "string" }, "default": ["colors", "typography", "spacing"] } } } },
+    { "name": "extract_palette", "description": "Extract the color palette in use: visible solid fills (and strokes) are clustered in CIELAB by CIEDE2000 distance. Each palette color reports its most used hex, a name and hue family, usage count and share, the near-duplicate hexes merged into it, OKLCH and HSL values, and the node ids using it.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "page" }, "pageIds": { "type": "array", "items": { "type": "string" } }, "pageNames": { "type": "array", "items": { "type": "string" } }, "nodeIds": { "type": "array", "items": { "type": "string" }, "description": "Nodes (and their subtrees) to scan (default: scope)" }, "maxColors": { "type": "number", "default": 12, "description": "Merge the closest clusters until at most this many colors remain" }, "maxDeltaE": { "type": "number", "default": 6, "description": "Colors within this ΔE2000 of a cluster join it (1 ≈ just noticeable)" }, "includeStrokes": { "type": "boolean", "default": true }, "maxNodeIdsPerColor": { "type": "number", "default": 50 } } } },
+    { "name": "fix_consistency", "description": "Fix consistency issues instead of only reporting them: snap near-duplicate solid colors to the closest local paint style or color variable (CIEDE2000 ΔE), snap unstyled font sizes to the nearest step of the text style scale, and round auto layout spacing to the grid. Changes are journaled for undo_operations; use dryRun to preview.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" }, "description": "Nodes (and their subtrees) to fix (default: scope)" }, "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "page" }, "pageIds": { "type": "array", "items": { "type": "string" } }, "pageNames": { "type": "array", "items": { "type": "string" } }, "checks": { "type": "array", "items": { "type": "string", "enum": ["colors", "typography", "spacing"] }, "default": ["colors", "typography", "spacing"] }, "maxDeltaE": { "type": "number", "default": 5, "description": "Largest ΔE2000 at which a color snaps to a token (1 ≈ just noticeable)" }, "fontScale": { "type": "array", "items": { "type": "number" }, "description": "Font size steps (default: sizes of local text styles)" }, "maxFontSizeDelta": { "type": "number", "default": 4, "description": "Only snap font sizes within this many px of a step" }, "grid": { "type": "number", "default": 4 }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } } } },
+    { "name": "lint_design", "description": "Rule-based design linter. Rules: unstyled-fill, detached-text-style, off-grid-spacing, off-scale-radius, hidden-layer, empty-frame, default-name, instance-overrides. Each finding carries a node id and, where possible, an autofix (apply_fill_style, apply_text_style, set_properties, rename, delete, reset_overrides); fix: true applies them. Hidden layers inside components or bound to a visibility property are not reported.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "page" }, "pageIds": { "type": "array", "items": { "type": "string" } }, "pageNames": { "type": "array", "items": { "type": "string" } }, "config": { "type": "object", "description": "Lint config (object or JSON string): { rules: { \"<rule>\": false | true | { severity, ...options } } }. Options: unstyled-fill.allowedColors (hex), off-grid-spacing.grid (default 4) and allowedValues, off-scale-radius.scale (default [0,2,4,6,8,12,16,24,32]), instance-overrides.allowedFields (default characters, text, visible, name, componentProperties). Rules not listed stay enabled." }, "maxFindings": { "type": "number", "default": 500 }, "fix": { "type": "boolean", "default": false, "description": "Apply the autofixes of the findings" }, "fixRules": { "type": "array", "items": { "type": "string" }, "description": "Only apply autofixes for these rules (with fix). Default: all enabled rules except the destructive delete (hidden-layer, empty-frame) and reset_overrides (instance-overrides) fixes, which run only when their rule is listed here." }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } } } },
+    { "name": "audit_accessibility", "description": "Audit accessibility: WCAG 2.x contrast between each text fill and its effective background (ancestors and sibling layers behind it, blended), touch targets under the minimum on button-like nodes, text below a minimum size, and images without a descriptive name. Returns issues with severity, node id and a suggested fix; optionally selects the offending nodes.", "inputSchema": { "type": "object", "properties": { "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "page" }, "pageIds": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page IDs to audit. If provided, takes precedence over scope." }, "pageNames": { "type": "array", "items": { "type": "string" }, "description": "Optional explicit page names to audit (case-insensitive). If provided, takes precedence over scope." }, "checks": { "type": "array", "items": { "type": "string", "enum": ["contrast", "touch_targets", "text_size", "image_descriptions"] }, "default": ["contrast", "touch_targets", "text_size", "image_descriptions"] }, "level": { "type": "string", "enum": ["AA", "AAA"], "default": "AA", "description": "WCAG contrast level (AA: 4.5/3 for large text, AAA: 7/4.5)" }, "minTouchTarget": { "type": "number", "default": 44 }, "minFontSize": { "type": "number", "default": 12 }, "maxIssues": { "type": "number", "default": 500 }, "selectOffenders": { "type": "boolean", "default": false, "description": "Select the offending nodes on canvas (first offender page)" }, "focus": { "type": "boolean", "default": true, "description": "Zoom to the selection (with selectOffenders)" } } } },
+    { "name": "fix_contrast", "description": "Fix text that fails WCAG contrast (same measurement as audit_accessibility). For each failing text node the nearest passing color is chosen, preferring local color variables and solid paint styles over a raw hex; a chosen variable is bound to the fill and a chosen style is applied. Use dryRun to get the plan first.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" }, "description": "Text nodes or containers to fix (default: scope)" }, "scope": { "type": "string", "enum": ["page", "current_page", "currentPage", "current-page", "selected_nodes", "selected-nodes", "selectedNodes", "selection", "document"], "default": "page" }, "pageIds": { "type": "array", "items": { "type": "string" } }, "pageNames": { "type": "array", "items": { "type": "string" } }, "level": { "type": "string", "enum": ["AA", "AAA"], "default": "AA" }, "preferTokens": { "type": "boolean", "default": true, "description": "Use a passing color variable or paint style when one is close enough" }, "maxTokenDistance": { "type": "number", "default": 0.5, "description": "Max RGB distance (0-1.73) between the original color and a token; farther tokens fall back to raw hex" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } } } },
+    { "name": "select_nodes", "description": "Select nodes by IDs on canvas. Selection is applied on the active page; cross-page IDs are reported in skippedCrossPageIds. Can optionally append to current selection and focus viewport.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "append": { "type": "boolean", "default": false }, "focus": { "type": "boolean", "default": true } }, "required": ["nodeIds"] } },
+    { "name": "set_focus", "description": "Set viewport focus by node(s) or by canvas coordinates.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "nodeIds": { "type": "array", "items": { "type": "string" } }, "x": { "type": "number" }, "y": { "type": "number" }, "zoom": { "type": "number" } } } },
+    { "name": "move_nodes", "description": "Move multiple nodes by delta offsets. Operates by node ID globally (can move nodes on different pages in one call).", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "deltaX": { "type": "number", "default": 0 }, "deltaY": { "type": "number", "default": 0 }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "set_node_position", "description": "Set absolute x/y position for a single node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "x": { "type": "number" }, "y": { "type": "number" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "x", "y"] } },
+    { "name": "arrange_nodes", "description": "Auto-arrange nodes into row/column/grid with optional collision avoidance, geometric quality checks, and optional before/after visual snapshots. Returns strict diagnostics via missingIds + missingDetails (reasons: not_found/not_positionable/missing_bounds/cross_page_filtered).", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" }, "description": "Optional. If omitted, uses current selection." }, "layout": { "type": "string", "enum": ["row", "column", "grid"], "default": "row" }, "columns": { "type": "number", "description": "Used when layout=grid. Auto-calculated if omitted." }, "groupBy": { "type": "string", "enum": ["none", "type", "typeAndComponent"], "default": "none", "description": "When set to type/typeAndComponent, nodes are grouped by layer type and optionally component name before arranging." }, "spacingX": { "type": "number", "default": 120 }, "spacingY": { "type": "number", "default": 120 }, "startX": { "type": "number", "description": "Optional fixed start X. Defaults to min x of selected nodes." }, "startY": { "type": "number", "description": "Optional fixed start Y. Defaults to min y of selected nodes." }, "withinContainerId": { "type": "string", "description": "Optional container/frame to keep nodes inside and parent under." }, "placementPolicy": { "type": "string", "enum": ["preserve_lane", "min_move", "strict_no_overlap"], "default": "min_move", "description": "Collision resolution strategy; min_move keeps nodes closer to original area." }, "avoidOverlaps": { "type": "boolean", "default": true, "description": "When true, shifts candidates to avoid overlaps with non-target nodes." }, "verifyVisual": { "type": "boolean", "default": false, "description": "When true, capture before/after snapshots and include quality metrics." }, "snapshotMode": { "type": "string", "enum": ["selection", "region", "page"], "default": "selection", "description": "Capture mode used when verifyVisual=true." }, "snapshotScale": { "type": "number", "default": 1, "description": "Export scale for snapshots." }, "focus": { "type": "boolean", "default": true, "description": "Focus viewport to arranged nodes after operation." }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } } } },
+    { "name": "containerize_nodes", "description": "Reparent nodes into a target container while preserving their visual position as much as possible.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "containerId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "containerId"] } },
+    { "name": "validate_structure", "description": "Validate container membership, bounds containment, and overlap for a set of nodes. Useful after layout operations.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" }, "description": "Optional. If omitted, uses current selection." }, "containerId": { "type": "string", "description": "Optional container to validate parent/inside status." } } } },
+    { "name": "capture_view", "description": "Capture a visual snapshot as PNG for selected nodes, a region, or current page. Returns metadata plus the full PNG as an image content block.", "inputSchema": { "type": "object", "properties": { "mode": { "type": "string", "enum": ["selection", "region", "page"], "default": "selection" }, "nodeIds": { "type": "array", "items": { "type": "string" }, "description": "Optional for mode=selection. Defaults to current selection." }, "x": { "type": "number", "description": "Required for mode=region." }, "y": { "type": "number", "description": "Required for mode=region." }, "width": { "type": "number", "description": "Required for mode=region." }, "height": { "type": "number", "description": "Required for mode=region." }, "scale": { "type": "number", "default": 1 }, "includeBase64": { "type": "boolean", "default": true, "description": "Return the captured PNG as an image content block; false returns metadata only." }, "outputDir": { "type": "string", "description": "Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it" } } } },
+    { "name": "get_document_info", "description": "Get document/page structure with configurable output caps to avoid oversized payloads on large files.", "inputSchema": { "type": "object", "properties": { "includeChildren": { "type": "boolean", "default": true }, "maxDepth": { "type": "number", "default": 10 }, "maxPages": { "type": "number", "default": 100, "minimum": 1, "maximum": 500, "description": "Maximum pages returned." }, "maxNodesPerPage": { "type": "number", "default": 1200, "minimum": 100, "maximum": 10000, "description": "Maximum descendant nodes returned per page when includeChildren=true." }, "maxChildrenPerNode": { "type": "number", "default": 200, "minimum": 20, "maximum": 1000, "description": "Maximum direct children returned for each node in tree output." } } } },
+    { "name": "get_node_info", "description": "Get detailed info about a node including children.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "includeChildren": { "type": "boolean", "default": true } }, "required": ["nodeId"] }, "outputSchema": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" }, "type": { "type": "string", "description": "Figma node type, e.g. FRAME, TEXT, INSTANCE" }, "visible": { "type": "boolean" }, "locked": { "type": "boolean" }, "opacity": { "type": "number" }, "blendMode": { "type": "string" }, "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "rotation": { "type": "number" }, "fills": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "description": "SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN" }, "color": { "type": "object", "properties": { "r": { "type": "number" }, "g": { "type": "number" }, "b": { "type": "number" } }, "required": ["r", "g", "b"] }, "opacity": { "type": "number" }, "visible": { "type": "boolean" }, "blendMode": { "type": "string" } }, "required": ["type"] } }, "strokes": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "description": "SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN" }, "color": { "type": "object", "properties": { "r": { "type": "number" }, "g": { "type": "number" }, "b": { "type": "number" } }, "required": ["r", "g", "b"] }, "opacity": { "type": "number" }, "visible": { "type": "boolean" }, "blendMode": { "type": "string" } }, "required": ["type"] } }, "strokeWeight": { "type": "number" }, "strokeAlign": { "type": "string", "enum": ["INSIDE", "OUTSIDE", "CENTER"] }, "cornerRadius": { "type": ["number", "array"], "items": { "type": "number" }, "description": "Uniform radius, or [topLeft, topRight, bottomRight, bottomLeft]" }, "layoutMode": { "type": "string", "enum": ["NONE", "HORIZONTAL", "VERTICAL", "GRID"] }, "primaryAxisAlignItems": { "type": "string" }, "counterAxisAlignItems": { "type": "string" }, "paddingTop": { "type": "number" }, "paddingRight": { "type": "number" }, "paddingBottom": { "type": "number" }, "paddingLeft": { "type": "number" }, "itemSpacing": { "type": "number" }, "children": { "type": "array", "items": { "type": "string" }, "description": "Direct child ids (only when children were requested)" }, "parent": { "type": "string", "description": "Parent node id" }, "mainComponent": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" }, "type": { "type": "string", "enum": ["COMPONENT", "COMPONENT_SET"] } }, "required": ["id", "name", "type"] }, "variantProperties": { "type": "object", "additionalProperties": { "type": "string" } }, "reactions": { "type": "array", "items": { "type": "object" } } }, "required": ["id", "name", "type"] } },
+    { "name": "get_selection", "description": "Get the current selection on the active page, including node metadata for each selected node", "inputSchema": { "type": "object", "properties": { "includeChildren": { "type": "boolean", "default": false } } }, "outputSchema": { "type": "object", "properties": { "pageId": { "type": "string" }, "pageName": { "type": "string" }, "selectedCount": { "type": "number" }, "nodeIds": { "type": "array", "items": { "type": "string" } }, "nodes": { "type": "array", "items": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" }, "type": { "type": "string", "description": "Figma node type, e.g. FRAME, TEXT, INSTANCE" }, "visible": { "type": "boolean" }, "locked": { "type": "boolean" }, "opacity": { "type": "number" }, "blendMode": { "type": "string" }, "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "rotation": { "type": "number" }, "fills": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "description": "SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN" }, "color": { "type": "object", "properties": { "r": { "type": "number" }, "g": { "type": "number" }, "b": { "type": "number" } }, "required": ["r", "g", "b"] }, "opacity": { "type": "number" }, "visible": { "type": "boolean" }, "blendMode": { "type": "string" } }, "required": ["type"] } }, "strokes": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "description": "SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN" }, "color": { "type": "object", "properties": { "r": { "type": "number" }, "g": { "type": "number" }, "b": { "type": "number" } }, "required": ["r", "g", "b"] }, "opacity": { "type": "number" }, "visible": { "type": "boolean" }, "blendMode": { "type": "string" } }, "required": ["type"] } }, "strokeWeight": { "type": "number" }, "strokeAlign": { "type": "string", "enum": ["INSIDE", "OUTSIDE", "CENTER"] }, "cornerRadius": { "type": ["number", "array"], "items": { "type": "number" }, "description": "Uniform radius, or [topLeft, topRight, bottomRight, bottomLeft]" }, "layoutMode": { "type": "string", "enum": ["NONE", "HORIZONTAL", "VERTICAL", "GRID"] }, "primaryAxisAlignItems": { "type": "string" }, "counterAxisAlignItems": { "type": "string" }, "paddingTop": { "type": "number" }, "paddingRight": { "type": "number" }, "paddingBottom": { "type": "number" }, "paddingLeft": { "type": "number" }, "itemSpacing": { "type": "number" }, "children": { "type": "array", "items": { "type": "string" }, "description": "Direct child ids (only when children were requested)" }, "parent": { "type": "string", "description": "Parent node id" }, "mainComponent": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" }, "type": { "type": "string", "enum": ["COMPONENT", "COMPONENT_SET"] } }, "required": ["id", "name", "type"] }, "variantProperties": { "type": "object", "additionalProperties": { "type": "string" } }, "reactions": { "type": "array", "items": { "type": "object" } } }, "required": ["id", "name", "type"] } } }, "required": ["pageId", "pageName", "selectedCount", "nodeIds", "nodes"] } },
+    { "name": "set_multiple_text_contents", "description": "Update multiple text nodes at once.", "inputSchema": { "type": "object", "properties": { "updates": { "type": "array", "items": { "type": "object", "properties": { "nodeId": { "type": "string" }, "text": { "type": "string" } } } }, "atomic": { "type": "boolean", "default": false, "description": "Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["updates"] } },
+    { "name": "undo_operations", "description": "Revert operations recorded in the plugin operation journal. Every mutating tool result carries an operationId; pass it to revert exactly that operation, or omit it to revert the most recent `steps` operations. Reports anything that could not be restored.", "inputSchema": { "type": "object", "properties": { "operationId": { "type": "string", "description": "operationId returned by a mutating tool" }, "steps": { "type": "number", "default": 1, "description": "Number of recent operations to revert when operationId is omitted (max 20)" }, "force": { "type": "boolean", "default": false, "description": "Revert even if the affected nodes changed after the operation" } } } },
+    { "name": "redo_operations", "description": "Re-apply operations previously reverted with undo_operations, using the same operation journal.", "inputSchema": { "type": "object", "properties": { "operationId": { "type": "string", "description": "operationId of an undone operation" }, "steps": { "type": "number", "default": 1, "description": "Number of most recently undone operations to re-apply when operationId is omitted (max 20)" }, "force": { "type": "boolean", "default": false, "description": "Re-apply even if the affected nodes changed after the undo" } } } },
+    { "name": "list_operation_journal", "description": "List recent journaled operations (newest first) with their operationId, tool, status and change counts.", "inputSchema": { "type": "object", "properties": { "limit": { "type": "number", "default": 20, "description": "Maximum entries to return (max 50)" }, "includeDetails": { "type": "boolean", "default": false, "description": "Include affected node ids per entry" } } } },
+    { "name": "apply_plan", "description": "Execute a change plan returned by a dryRun call exactly as planned. Fails without changing anything if any planned target changed since the dry run, or if the tool would now make different changes than planned (new or edited nodes in its scope). Plans with a partial preview also fail if anything on the affected pages changed.", "inputSchema": { "type": "object", "properties": { "planId": { "type": "string", "description": "planId from a dryRun result" } }, "required": ["planId"] } },
+    { "name": "apply_style_preset", "description": "Apply designer-oriented visual presets (gradient button, glass panel, glow, shadow, blur) to multiple nodes with parameter overrides.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "preset": { "type": "string", "enum": ["button_gradient_primary", "button_gradient_vivid", "card_soft_shadow", "panel_glass", "hero_glow", "backdrop_blur_soft"] }, "options": { "type": "object" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "preset"] } },
+    { "name": "frame_to_components", "description": "Intelligently split a Frame's children into components. Analyzes children, groups similar ones, and converts them to components.", "inputSchema": { "type": "object", "properties": { "frameId": { "type": "string", "description": "ID of the Frame to analyze" }, "strategy": { "type": "string", "enum": ["smart", "by_type", "by_name", "all_children"], "default": "smart", "description": "Grouping strategy" }, "groupSimilar": { "type": "boolean", "default": true }, "createVariants": { "type": "boolean", "default": false }, "organizeOnPage": { "type": "boolean", "default": true }, "minSize": { "type": "object", "properties": { "width": { "type": "number" }, "height": { "type": "number" } }, "default": { "width": 50, "height": 30 } }, "excludeTypes": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["frameId"] } },
+    { "name": "analyze_frame_structure", "description": "Analyze a Frame's structure and suggest component opportunities.", "inputSchema": { "type": "object", "properties": { "frameId": { "type": "string" }, "detectDuplicates": { "type": "boolean", "default": true }, "minSimilarity": { "type": "number", "default": 0.85 } }, "required": ["frameId"] }, "outputSchema": { "type": "object", "properties": { "frameId": { "type": "string" }, "frameName": { "type": "string" }, "totalChildren": { "type": "number" }, "childTypes": { "type": "object", "additionalProperties": { "type": "number" }, "description": "Direct child count per node type" }, "sizeDistribution": { "type": "object", "properties": { "small": { "type": "number" }, "medium": { "type": "number" }, "large": { "type": "number" } }, "required": ["small", "medium", "large"] }, "componentCandidates": { "type": "array", "items": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" }, "type": { "type": "string" }, "width": { "type": "number" }, "height": { "type": "number" } }, "required": ["id", "name", "type", "width", "height"] } }, "duplicateGroups": { "type": "array", "items": { "type": "object", "properties": { "count": { "type": "number" }, "nodes": { "type": "array", "items": { "type": "object", "properties": { "id": { "type": "string" }, "name": { "type": "string" } }, "required": ["id", "name"] } }, "suggestedName": { "type": "string" } }, "required": ["count", "nodes", "suggestedName"] } }, "recommendations": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "enum": ["merge_duplicates", "create_components"] }, "priority": { "type": "string", "enum": ["high", "medium", "low"] }, "description": { "type": "string" }, "affectedNodes": { "type": "number" } }, "required": ["type", "priority", "description"] } } }, "required": ["frameId", "frameName", "totalChildren", "childTypes", "sizeDistribution", "componentCandidates", "duplicateGroups", "recommendations"] } },
+    { "name": "cross_page_copy", "description": "Copy nodes from one page to another.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "sourcePageId": { "type": "string" }, "targetPageId": { "type": "string" }, "maintainPosition": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "sourcePageId", "targetPageId"] } },
+    { "name": "cross_page_move", "description": "Move nodes from one page to another.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "sourcePageId": { "type": "string" }, "targetPageId": { "type": "string" }, "maintainPosition": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "sourcePageId", "targetPageId"] } },
+    { "name": "batch_edit_across_pages", "description": "Apply the same edits to nodes across multiple pages.", "inputSchema": { "type": "object", "properties": { "operations": { "type": "array", "items": { "type": "object", "properties": { "pageId": { "type": "string" }, "nodeId": { "type": "string" }, "changes": { "type": "object" } } } }, "atomic": { "type": "boolean", "default": false, "description": "Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["operations"] }, "outputSchema": { "type": "object", "anyOf": [{ "type": "object", "properties": { "success": { "type": "number", "description": "Operations that succeeded" }, "failed": { "type": "number", "description": "Operations that failed" }, "createdIds": { "type": "array", "items": { "type": "string" }, "description": "batch_create: ids of the created nodes, in operation order" }, "errors": { "type": "array", "items": { "type": "object", "properties": { "error": { "type": "string" }, "nodeId": { "type": "string" }, "operation": { "type": "object", "description": "The failed batch_create operation" } }, "required": ["error"] }, "description": "First 10 failures" }, "cancelled": { "type": "boolean", "description": "batch_create: stopped by cancel_operation" }, "skipped": { "type": "number", "description": "batch_create: operations not run because of cancellation" }, "results": { "type": "array", "items": { "type": "object" } }, "operationId": { "type": "string", "description": "Journal id for undo_operations" } }, "required": ["success", "failed", "errors"] }, { "type": "object", "properties": { "atomic": { "type": "boolean", "enum": [true] }, "committed": { "type": "boolean", "enum": [false] }, "failedOperation": { "type": "object", "properties": { "index": { "type": "number" }, "target": { "type": "string" }, "error": { "type": "string" } }, "required": ["index", "target", "error"] }, "rolledBack": { "type": "boolean" }, "rollback": { "type": "object", "properties": { "reverted": { "type": "object", "additionalProperties": { "type": "number" } }, "failed": { "type": "array", "items": { "type": "object" } } }, "required": ["reverted", "failed"] } }, "required": ["atomic", "committed", "failedOperation", "rolledBack", "rollback"] }, { "type": "object", "properties": { "dryRun": { "type": "boolean", "enum": [true] }, "planId": { "type": "string" }, "tool": { "type": "string" }, "createdAt": { "type": "number" }, "preview": { "type": "string", "enum": ["full", "partial"] }, "summary": { "type": "object", "properties": { "create": { "type": "number" }, "modify": { "type": "number" }, "delete": { "type": "number" }, "move": { "type": "number" }, "errors": { "type": "number" } }, "required": ["create", "modify", "delete", "move", "errors"] }, "changes": { "type": "object", "properties": { "create": { "type": "array", "items": { "type": "object" } }, "modify": { "type": "array", "items": { "type": "object" } }, "delete": { "type": "array", "items": { "type": "object" } }, "move": { "type": "array", "items": { "type": "object" } } }, "required": ["create", "modify", "delete", "move"] }, "errors": { "type": "array", "items": { "type": "object", "properties": { "target": { "type": "string" }, "error": { "type": "string" } }, "required": ["target", "error"] } }, "warnings": { "type": "array", "items": { "type": "string" } } }, "required": ["dryRun", "planId", "tool", "preview", "summary", "changes", "errors", "warnings"] }] } },
+    { "name": "explode_component_set", "description": "Explode a component set into separate components.", "inputSchema": { "type": "object", "properties": { "componentSetId": { "type": "string" }, "convertInstancesToMain": { "type": "boolean", "default": false }, "organizeOnPage": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentSetId"] } },
+    { "name": "detach_and_organize", "description": "Detach instances and organize the detached nodes.", "inputSchema": { "type": "object", "properties": { "instanceIds": { "type": "array", "items": { "type": "string" } }, "deleteMainComponent": { "type": "boolean", "default": false }, "organizeBy": { "type": "string", "enum": ["type", "name", "size", "page_location"], "default": "type" }, "createBackup": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["instanceIds"] } },
+    { "name": "convert_instances_to_components", "description": "Convert existing instances to new independent components.", "inputSchema": { "type": "object", "properties": { "instanceIds": { "type": "array", "items": { "type": "string" } }, "namingPattern": { "type": "string", "default": "{original}_Component" }, "organizeOnPage": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["instanceIds"] } },
+    { "name": "split_component_by_variants", "description": "Split a component with variants back into separate components.", "inputSchema": { "type": "object", "properties": { "componentSetId": { "type": "string" }, "keepComponentSet": { "type": "boolean", "default": false }, "updateInstances": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentSetId"] } },
+    { "name": "merge_components_to_set", "description": "Merge multiple standalone components into a variant set.", "inputSchema": { "type": "object", "properties": { "componentIds": { "type": "array", "items": { "type": "string" } }, "variantProperty": { "type": "string", "default": "Type" }, "autoDetectValues": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentIds"] } },
+    { "name": "create_ellipse", "description": "Create an ellipse or circle.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "name": { "type": "string" }, "fills": { "type": "array", "description": "Paint array. Supports hex strings and paint objects." }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_line", "description": "Create a line.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "strokeWeight": { "type": "number" }, "strokes": { "type": "array", "description": "Paint array. Supports hex strings and paint objects." }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_polygon", "description": "Create a regular polygon.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "pointCount": { "type": "number", "default": 5 }, "fills": { "type": "array", "description": "Paint array. Supports hex strings and paint objects." }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_star", "description": "Create a star shape.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "pointCount": { "type": "number", "default": 5 }, "innerRadius": { "type": "number", "default": 0.5 }, "fills": { "type": "array", "description": "Paint array. Supports hex strings and paint objects." }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_vector", "description": "Create a vector path. Supports vector path aliases (`vectorPaths`/`vectorPath`/`path`/`svgPath`/`d`) with object or SVG-string inputs.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "vectorPaths": { "type": ["array", "object", "string"], "description": "Can be a VectorPath object, array of VectorPath objects, or SVG path string(s)." }, "vectorPath": { "type": ["object", "string"], "description": "Alias of vectorPaths." }, "path": { "type": ["object", "string"], "description": "Alias of vectorPaths." }, "svgPath": { "type": ["object", "string"], "description": "Alias of vectorPaths." }, "d": { "type": ["object", "string"], "description": "Alias of vectorPaths." }, "fills": { "type": "array", "description": "Paint array. Supports hex strings and paint objects." }, "strokes": { "type": "array", "description": "Paint array. Supports hex strings and paint objects." }, "strokeWeight": { "type": "number" }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "import_svg", "description": "Import SVG markup as editable vector layers (figma.createNodeFromSvg). The result is a frame sized to the SVG; optionally rescale it, flatten its layers into one vector, or convert it into a component.", "inputSchema": { "type": "object", "properties": { "svg": { "type": "string", "description": "Full SVG document markup" }, "name": { "type": "string" }, "parentId": { "type": "string" }, "x": { "type": "number" }, "y": { "type": "number" }, "scale": { "type": "number", "default": 1, "description": "Uniform scale factor (strokes and effects scale too)" }, "flatten": { "type": "boolean", "default": false, "description": "Merge all layers into a single vector" }, "asComponent": { "type": "boolean", "default": false, "description": "Convert the imported frame into a component" }, "description": { "type": "string", "description": "Component description (with asComponent)" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["svg"] } },
+    { "name": "import_html_layout", "description": "Recreate a web page layout from a serialized DOM snapshot, offline. Each element becomes a frame (block and flex containers get auto layout with padding, gap and alignment; other containers keep absolute positions), text elements become text nodes with their fonts loaded, and background colors and images become fills. Images are taken from the snapshot's embedded base64 data; URLs are only fetched with fetchImages.", "inputSchema": { "type": "object", "properties": { "layout": { "type": "object", "description": "Root layout node, or { root, images }. A node is { tag?, name?, box: { x, y, width, height } (page coordinates), styles?: computed CSS in camelCase (display, flexDirection, gap, padding*, justifyContent, alignItems, backgroundColor, backgroundImage, color, font*, lineHeight, borderRadius, border*, opacity, overflow, position), text?: string (leaf text run), image?: URL, children? }" }, "images": { "type": "object", "description": "Map of image URL to base64 or data: URI bytes (merged with layout.images)" }, "fetchImages": { "type": "boolean", "default": false, "description": "Fetch images missing from the snapshot over the network (needs manifest networkAccess)" }, "parentId": { "type": "string" }, "name": { "type": "string", "description": "Name of the root frame (default: root tag or name)" }, "x": { "type": "number", "default": 0 }, "y": { "type": "number", "default": 0 }, "maxNodes": { "type": "number", "default": 2000 }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["layout"] } },
+    { "name": "create_group", "description": "Group multiple nodes together.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "create_section", "description": "Create a section container.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "name": { "type": "string" }, "fills": { "type": "array" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_slice", "description": "Create a slice for export.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "name": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_connector", "description": "Create a connector line between nodes.", "inputSchema": { "type": "object", "properties": { "startNodeId": { "type": "string" }, "endNodeId": { "type": "string" }, "startMagnet": { "type": "string", "enum": ["TOP", "BOTTOM", "LEFT", "RIGHT", "AUTO"] }, "endMagnet": { "type": "string", "enum": ["TOP", "BOTTOM", "LEFT", "RIGHT", "AUTO"] }, "strokeWeight": { "type": "number" }, "strokes": { "type": "array" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["startNodeId", "endNodeId"] } },
+    { "name": "create_sticky", "description": "Create a sticky note (FigJam).", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "text": { "type": "string" }, "color": { "type": "string", "enum": ["YELLOW", "GREEN", "BLUE", "ORANGE", "PINK", "PURPLE", "GRAY"] }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y"] } },
+    { "name": "create_shape_with_text", "description": "Create a shape with text (FigJam).", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "width": { "type": "number" }, "height": { "type": "number" }, "shapeType": { "type": "string", "enum": ["SQUARE", "ELLIPSE", "ROUNDED_RECTANGLE", "DIAMOND", "TRIANGLE_UP", "TRIANGLE_DOWN", "PARALLELOGRAM_RIGHT", "PARALLELOGRAM_LEFT"] }, "text": { "type": "string" }, "fills": { "type": "array" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y", "width", "height"] } },
+    { "name": "create_table", "description": "Create a table.", "inputSchema": { "type": "object", "properties": { "x": { "type": "number" }, "y": { "type": "number" }, "rowCount": { "type": "number", "default": 3 }, "columnCount": { "type": "number", "default": 3 }, "cellWidth": { "type": "number", "default": 100 }, "cellHeight": { "type": "number", "default": 40 }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["x", "y"] } },
+    { "name": "union_nodes", "description": "Perform union boolean operation on multiple nodes.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "subtract_nodes", "description": "Perform subtract boolean operation on multiple nodes.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "intersect_nodes", "description": "Perform intersect boolean operation on multiple nodes.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "exclude_nodes", "description": "Perform exclude boolean operation on multiple nodes.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "name": { "type": "string" }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "flatten_nodes", "description": "Flatten multiple nodes into a single vector network.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "parentId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "set_constraints", "description": "Set constraints for a node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "horizontal": { "type": "string", "enum": ["MIN", "MAX", "STRETCH", "SCALE", "CENTER"] }, "vertical": { "type": "string", "enum": ["MIN", "MAX", "STRETCH", "SCALE", "CENTER"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "horizontal", "vertical"] } },
+    { "name": "set_layout_grid", "description": "Set layout grids for a frame.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "layoutGrids": { "type": "array", "items": { "type": "object", "properties": { "pattern": { "type": "string", "enum": ["COLUMNS", "ROWS", "GRID"] }, "sectionSize": { "type": "number" }, "visible": { "type": "boolean" }, "color": { "type": "object" }, "alignment": { "type": "string", "enum": ["MIN", "MAX", "STRETCH", "CENTER"] }, "gutterSize": { "type": "number" }, "offset": { "type": "number" }, "count": { "type": "number" } } } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "layoutGrids"] } },
+    { "name": "set_effects", "description": "Set effects (shadows, blurs) for a node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "effects": { "type": "array", "items": { "type": "object", "properties": { "type": { "type": "string", "enum": ["INNER_SHADOW", "DROP_SHADOW", "LAYER_BLUR", "BACKGROUND_BLUR"] }, "color": { "type": "object" }, "offset": { "type": "object" }, "radius": { "type": "number" }, "spread": { "type": "number" }, "visible": { "type": "boolean" }, "blendMode": { "type": "string" } } } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "effects"] } },
+    { "name": "set_export_settings", "description": "Set export settings for a node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "exportSettings": { "type": "array", "items": { "type": "object", "properties": { "suffix": { "type": "string" }, "format": { "type": "string", "enum": ["PNG", "SVG", "PDF", "JPG"] }, "constraint": { "type": "object" } } } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "exportSettings"] } },
+    { "name": "set_blend_mode", "description": "Set blend mode for a node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "blendMode": { "type": "string", "enum": ["PASS_THROUGH", "NORMAL", "DARKEN", "MULTIPLY", "LINEAR_BURN", "COLOR_BURN", "LIGHTEN", "SCREEN", "LINEAR_DODGE", "COLOR_DODGE", "OVERLAY", "SOFT_LIGHT", "HARD_LIGHT", "DIFFERENCE", "EXCLUSION", "HUE", "SATURATION", "COLOR", "LUMINOSITY"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "blendMode"] } },
+    { "name": "set_mask", "description": "Set or remove mask on a node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "isMask": { "type": "boolean" }, "maskType": { "type": "string", "enum": ["ALPHA", "VECTOR", "LUMINANCE"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "isMask"] } },
+    { "name": "set_auto_layout", "description": "Comprehensive auto layout configuration.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "layoutMode": { "type": "string", "enum": ["NONE", "HORIZONTAL", "VERTICAL"] }, "primaryAxisAlignItems": { "type": "string", "enum": ["MIN", "MAX", "CENTER", "SPACE_BETWEEN"] }, "counterAxisAlignItems": { "type": "string", "enum": ["MIN", "MAX", "CENTER", "BASELINE"] }, "paddingTop": { "type": "number" }, "paddingRight": { "type": "number" }, "paddingBottom": { "type": "number" }, "paddingLeft": { "type": "number" }, "itemSpacing": { "type": "number" }, "counterAxisSpacing": { "type": "number" }, "layoutWrap": { "type": "string", "enum": ["NO_WRAP", "WRAP"] }, "width": { "type": "string", "enum": ["FIXED", "HUG", "FILL"] }, "height": { "type": "string", "enum": ["FIXED", "HUG", "FILL"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "layoutMode"] } },
+    { "name": "remove_auto_layout", "description": "Remove auto layout from a frame.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "keepPosition": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId"] } },
+    { "name": "align_nodes", "description": "Align multiple nodes.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "alignment": { "type": "string", "enum": ["TOP_LEFT", "TOP_CENTER", "TOP_RIGHT", "MIDDLE_LEFT", "MIDDLE_CENTER", "MIDDLE_RIGHT", "BOTTOM_LEFT", "BOTTOM_CENTER", "BOTTOM_RIGHT"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "alignment"] } },
+    { "name": "distribute_nodes", "description": "Evenly distribute nodes horizontally or vertically.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "direction": { "type": "string", "enum": ["HORIZONTAL", "VERTICAL"] }, "spacing": { "type": "number" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "direction"] } },
+    { "name": "create_effect_style", "description": "Create an effect style.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "effects": { "type": "array" }, "sourceNodeId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["name"] } },
+    { "name": "create_grid_style", "description": "Create a layout grid style.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "layoutGrids": { "type": "array" }, "sourceNodeId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["name"] } },
+    { "name": "update_paint_style", "description": "Update an existing paint style.", "inputSchema": { "type": "object", "properties": { "styleId": { "type": "string" }, "name": { "type": "string" }, "paints": { "type": "array" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["styleId"] } },
+    { "name": "update_text_style", "description": "Update an existing text style.", "inputSchema": { "type": "object", "properties": { "styleId": { "type": "string" }, "name": { "type": "string" }, "fontName": { "type": "object" }, "fontSize": { "type": "number" }, "lineHeight": { "type": "object" }, "letterSpacing": { "type": "object" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["styleId"] } },
+    { "name": "delete_style", "description": "Delete a style.", "inputSchema": { "type": "object", "properties": { "styleId": { "type": "string" }, "detachNodes": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["styleId"] } },
+    { "name": "get_all_styles", "description": "Get all styles in the document.", "inputSchema": { "type": "object", "properties": { "type": { "type": "string", "enum": ["PAINT", "TEXT", "EFFECT", "GRID"] } } } },
+    { "name": "create_variable", "description": "Create a variable.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "type": { "type": "string", "enum": ["COLOR", "FLOAT", "STRING", "BOOLEAN"] }, "value": {}, "collectionId": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["name", "type", "collectionId"] } },
+    { "name": "create_variable_collection", "description": "Create a variable collection.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "modes": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["name"] } },
+    { "name": "set_variable_value", "description": "Set a variable value for a specific mode.", "inputSchema": { "type": "object", "properties": { "variableId": { "type": "string" }, "modeId": { "type": "string" }, "value": {}, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["variableId", "modeId", "value"] } },
+    { "name": "bind_variable_to_node", "description": "Bind a variable to a node property.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "variableId": { "type": "string" }, "property": { "type": "string", "enum": ["FILLS", "STROKES", "EFFECTS", "OPACITY", "WIDTH", "HEIGHT", "VISIBLE", "TEXT"] }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "variableId", "property"] } },
+    { "name": "unbind_variable", "description": "Unbind a variable from a node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "property": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeId", "property"] } },
+    { "name": "get_all_variables", "description": "Get all variables and collections.", "inputSchema": { "type": "object" } },
+    { "name": "export_design_tokens", "description": "Export variable collections (all modes, with aliases) and paint/text/effect/grid styles as design tokens. Returns generated files: W3C DTCG JSON (default, lossless: per-mode values and Figma ids under $extensions[\"com.figma\"]), Style Dictionary JSON, CSS custom properties, SCSS, or a Tailwind theme extension plus its CSS variables.", "inputSchema": { "type": "object", "properties": { "format": { "type": "string", "enum": ["dtcg", "style-dictionary", "css", "scss", "tailwind"], "default": "dtcg" }, "collections": { "type": "array", "items": { "type": "string" }, "description": "Variable collection names or ids to export (default: all local collections)" }, "includeVariables": { "type": "boolean", "default": true }, "includeStyles": { "type": "boolean", "default": true } } } },
+    { "name": "import_design_tokens", "description": "Import DTCG or Style Dictionary tokens into variables and styles. Matches collections, variables and styles by name, creates missing ones, updates changed values per mode, resolves {aliases} into variable aliases and returns a change summary with before/after values. Use dryRun to preview the diff.", "inputSchema": { "type": "object", "properties": { "tokens": { "type": ["object", "string"], "description": "Token tree as an object or JSON string (e.g. the tokens.json written by export_design_tokens)" }, "format": { "type": "string", "enum": ["auto", "dtcg", "style-dictionary"], "default": "auto", "description": "auto treats trees with $value as DTCG, otherwise Style Dictionary" }, "collection": { "type": "string", "description": "Put every variable token in this collection (default: first path segment or $extensions[\"com.figma\"].collection)" }, "mode": { "type": "string", "description": "Mode that receives plain token values (default: the collection default mode; created if missing)" }, "deleteMissing": { "type": "boolean", "default": false, "description": "Delete variables and styles absent from the tokens, limited to the collections and style types being imported" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["tokens"] } },
+    { "name": "delete_variable", "description": "Delete a variable.", "inputSchema": { "type": "object", "properties": { "variableId": { "type": "string" }, "unbindNodes": { "type": "boolean", "default": true }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["variableId"] } },
+    { "name": "create_page", "description": "Create a new page.", "inputSchema": { "type": "object", "properties": { "name": { "type": "string" }, "index": { "type": "number" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["name"] } },
+    { "name": "delete_page", "description": "Delete a page. If the target is current page, the plugin switches to another page first. Cannot delete the last remaining page.", "inputSchema": { "type": "object", "properties": { "pageId": { "type": "string" }, "confirm": { "type": "boolean", "default": false }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["pageId"] } },
+    { "name": "rename_page", "description": "Rename a page.", "inputSchema": { "type": "object", "properties": { "pageId": { "type": "string" }, "newName": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["pageId", "newName"] } },
+    { "name": "reorder_pages", "description": "Reorder pages.", "inputSchema": { "type": "object", "properties": { "pageIds": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["pageIds"] } },
+    { "name": "duplicate_page", "description": "Duplicate a page with all its content.", "inputSchema": { "type": "object", "properties": { "pageId": { "type": "string" }, "newName": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["pageId"] } },
+    { "name": "create_image_fill", "description": "Create an image fill from URL or bytes.", "inputSchema": { "type": "object", "properties": { "url": { "type": "string" }, "hash": { "type": "string" }, "nodeId": { "type": "string", "description": "Node to apply image fill to" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } } } },
+    { "name": "export_node", "description": "Export a node as image/SVG/PDF. PNG/JPG are returned as image content blocks, SVG/PDF as embedded resources.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string" }, "format": { "type": "string", "enum": ["PNG", "SVG", "PDF", "JPG"] }, "scale": { "type": "number", "default": 1 }, "suffix": { "type": "string" }, "outputDir": { "type": "string", "description": "Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it" } }, "required": ["nodeId", "format"] } },
+    { "name": "export_nodes_batch", "description": "Export multiple nodes at once. Each export is returned as an image content block (PNG/JPG) or embedded resource (SVG/PDF).", "inputSchema": { "type": "object", "properties": { "exports": { "type": "array", "items": { "type": "object", "properties": { "nodeId": { "type": "string" }, "format": { "type": "string" }, "scale": { "type": "number" }, "suffix": { "type": "string" } } } }, "outputDir": { "type": "string", "description": "Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it" } }, "required": ["exports"] } },
+    { "name": "generate_code", "description": "Generate code from a frame or other node. html-css walks the node tree and maps auto layout to flexbox, constraints to absolute positioning, fills/strokes/effects to CSS, text styles to typography and bound variables to var(--token, fallback) custom properties (names match export_design_tokens CSS). Returns a self-contained snippet plus the assets (vectors, image fills) to export with export_node.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string", "description": "Node to generate (default: first selected node)" }, "target": { "type": "string", "enum": ["html-css"], "default": "html-css" }, "assetDir": { "type": "string", "default": "assets", "description": "Path prefix for asset URLs in the generated code" }, "classPrefix": { "type": "string", "description": "Prefix for generated class names" }, "maxDepth": { "type": "number", "default": 20 }, "maxNodes": { "type": "number", "default": 1000 } } } },
+    { "name": "generate_react_component", "description": "Generate React/TSX for a component, component set or instance, styled with Tailwind or CSS modules. Variant properties become a typed props interface with one branch per variant; TEXT and BOOLEAN component properties become props, INSTANCE_SWAP properties become ReactNode slots, and nested instances become imports of other generated components (one file each). Uses the same layout and style mapping as generate_code.", "inputSchema": { "type": "object", "properties": { "nodeId": { "type": "string", "description": "COMPONENT, COMPONENT_SET or INSTANCE (default: first selected node)" }, "styling": { "type": "string", "enum": ["tailwind", "css-modules"], "default": "tailwind" }, "componentName": { "type": "string", "description": "Override the generated component name" }, "includeDependencies": { "type": "boolean", "default": true, "description": "Also generate files for nested component instances" }, "maxComponents": { "type": "number", "default": 20 }, "assetDir": { "type": "string", "default": "assets" }, "maxDepth": { "type": "number", "default": 20 }, "maxNodes": { "type": "number", "default": 2000 } } } },
+    { "name": "add_component_property", "description": "Add a property to a component.", "inputSchema": { "type": "object", "properties": { "componentId": { "type": "string" }, "name": { "type": "string" }, "type": { "type": "string", "enum": ["BOOLEAN", "TEXT", "INSTANCE_SWAP", "VARIANT"] }, "defaultValue": {}, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentId", "name", "type"] } },
+    { "name": "set_component_property", "description": "Set a component property value on an instance.", "inputSchema": { "type": "object", "properties": { "instanceId": { "type": "string" }, "propertyName": { "type": "string" }, "value": {}, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["instanceId", "propertyName", "value"] } },
+    { "name": "remove_component_property", "description": "Remove a property from a component.", "inputSchema": { "type": "object", "properties": { "componentId": { "type": "string" }, "propertyName": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["componentId", "propertyName"] } },
+    { "name": "scale_nodes", "description": "Scale multiple nodes.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "scaleX": { "type": "number" }, "scaleY": { "type": "number" }, "center": { "type": "object" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds", "scaleX", "scaleY"] } },
+    { "name": "flip_horizontal", "description": "Flip nodes horizontally.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "flip_vertical", "description": "Flip nodes vertically.", "inputSchema": { "type": "object", "properties": { "nodeIds": { "type": "array", "items": { "type": "string" } }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["nodeIds"] } },
+    { "name": "import_component_from_file", "description": "Import a component from another Figma file.", "inputSchema": { "type": "object", "properties": { "fileKey": { "type": "string" }, "componentKey": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["fileKey", "componentKey"] } },
+    { "name": "import_style_from_file", "description": "Import a style from another Figma file.", "inputSchema": { "type": "object", "properties": { "fileKey": { "type": "string" }, "styleKey": { "type": "string" }, "dryRun": { "type": "boolean", "default": false, "description": "Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan." } }, "required": ["fileKey", "styleKey"] } },
+];
+// </generated:tool-catalog>
 function getPluginToolCatalog() {
-    if (pluginToolCatalog)
-        return pluginToolCatalog;
-    const source = handleMessage.toString();
-    const matchPattern = /case\s+['\"]([^'\"]+)['\"]\s*:/g;
-    const names = new Set();
-    let match;
-    while ((match = matchPattern.exec(source)) !== null) {
-        const toolName = match[1];
-        if (!toolName)
-            continue;
-        names.add(toolName);
-    }
-    const excluded = new Set(['get_tools', 'progress_update', 'progress_complete', 'log']);
-    pluginToolCatalog = [...names]
-        .filter((name) => !excluded.has(name))
-        .sort()
-        .map((name) => ({
-        name,
-        description: `Figma plugin tool: ${name}`,
-        inputSchema: {
-            type: 'object',
-            properties: {},
-            additionalProperties: true,
-        },
-    }));
-    return pluginToolCatalog;
+    return PLUGIN_TOOL_CATALOG;
 }
 function bridgeLog(message, level = 'info') {
     try {
@@ -57,13 +169,59 @@ function createDropShadowEffect(params) {
         spread: (_c = params.spread) !== null && _c !== void 0 ? _c : DEFAULT_DROP_SHADOW_SPREAD,
     };
 }
-// Operation history for undo
-const operationHistory = [];
+// Server-assigned operationId per running tool, used to tag progress events.
+const activeOperationIds = new Map();
+// Cancellation is cooperative: long-running loops poll isOperationCancelled().
+const cancelledOperationIds = new Set();
+// These tools name another operation in payload.operationId, so it is not their own id.
+const OPERATION_REFERENCE_TOOLS = new Set(['cancel', 'undo_operations', 'redo_operations']);
+function isOperationCancelled(tool) {
+    const operationId = activeOperationIds.get(tool);
+    return !!operationId && cancelledOperationIds.has(operationId);
+}
+// Yield so a queued cancel message can be handled, then report whether it arrived.
+async function cancellationCheckpoint(tool) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return isOperationCancelled(tool);
+}
+function cancelOperation(operationId) {
+    if (!operationId)
+        throw new Error('operationId required');
+    const running = [...activeOperationIds.values()].includes(operationId);
+    if (running)
+        cancelledOperationIds.add(operationId);
+    return { operationId, acknowledged: true, running };
+}
 // ===== Message Handler =====
 async function handleMessage(message) {
     const { type, id, payload } = message;
+    if (payload && payload.dryRun === true && shouldJournalTool(type)) {
+        return await buildChangePlan(type, payload);
+    }
+    // Calls without a server-assigned operationId are tracked, and can be cancelled, under their message id.
+    const operationId = (payload && typeof payload.operationId === 'string' && !OPERATION_REFERENCE_TOOLS.has(type)
+        ? payload.operationId
+        : null) || id || null;
+    if (operationId)
+        activeOperationIds.set(type, operationId);
+    let journalCapture = null;
+    let journalCaptureError = null;
+    if (shouldJournalCall(type, payload)) {
+        try {
+            journalCapture = await beginJournalCapture(type, operationId || id, payload || {});
+        }
+        catch (error) {
+            journalCaptureError = error;
+            console.warn(`Journal capture failed for ${type}:`, error);
+        }
+    }
     try {
         let result;
+        // Atomic batches roll back from the journal; without a capture a failure would leave partial changes behind.
+        if (!journalCapture && payload && payload.atomic === true && ATOMIC_BATCH_TOOLS.has(type)) {
+            const reason = journalCaptureError instanceof Error ? journalCaptureError.message : String(journalCaptureError !== null && journalCaptureError !== void 0 ? journalCaptureError : 'not journaled');
+            throw new Error(`atomic: true requires the operation journal, but capturing ${type} failed (${reason}). Nothing was changed; retry without atomic to run it unprotected.`);
+        }
         switch (type) {
             // Relay/UI status messages, not executable plugin tools.
             case 'progress_update':
@@ -73,6 +231,9 @@ async function handleMessage(message) {
             case 'get_tools':
                 result = { tools: getPluginToolCatalog() };
                 break;
+            case 'cancel':
+                result = cancelOperation(payload.operationId);
+                break;
             // Smart Discovery
             case 'smart_select':
                 result = await smartSelect(payload.query, payload.scope, payload.limit, payload.pageIds, payload.pageNames);
@@ -88,16 +249,16 @@ async function handleMessage(message) {
                 break;
             // Batch Operations
             case 'batch_create':
-                result = await batchCreate(payload.operations, payload.chunkSize, payload.continueOnError);
+                result = await batchCreate(payload.operations, payload.chunkSize, payload.continueOnError, payload.atomic);
                 break;
             case 'batch_modify':
-                result = await batchModify(payload.operations, payload.chunkSize);
+                result = await batchModify(payload.operations, payload.chunkSize, payload.atomic);
                 break;
             case 'batch_clone':
                 result = await batchClone(payload.templateId, payload.count, payload.offsetX, payload.offsetY, payload.gridColumns, payload.includeIds, payload.maxReturnedIds);
                 break;
             case 'batch_rename':
-                result = await batchRename(payload.nodeIds, payload.pattern, payload.startIndex);
+                result = await batchRename(payload.nodeIds, payload.pattern, payload.startIndex, payload.atomic);
                 break;
             case 'batch_delete':
                 result = await batchDelete(payload.nodeIds, payload.confirm);
@@ -163,6 +324,21 @@ async function handleMessage(message) {
             case 'check_consistency':
                 result = await checkConsistency(payload.scope, payload.checks, payload.pageIds, payload.pageNames);
                 break;
+            case 'fix_consistency':
+                result = await fixConsistency(payload, journalCapture === null || journalCapture === void 0 ? void 0 : journalCapture.scan);
+                break;
+            case 'extract_palette':
+                result = await extractPalette(payload);
+                break;
+            case 'audit_accessibility':
+                result = await auditAccessibility(payload);
+                break;
+            case 'fix_contrast':
+                result = await fixContrast(payload, journalCapture === null || journalCapture === void 0 ? void 0 : journalCapture.scan);
+                break;
+            case 'lint_design':
+                result = await lintDesign(payload, journalCapture === null || journalCapture === void 0 ? void 0 : journalCapture.scan);
+                break;
             // Utilities
             case 'get_document_info':
                 result = await getDocumentInfo(payload.includeChildren, payload.maxDepth, payload.maxPages, payload.maxNodesPerPage, payload.maxChildrenPerNode);
@@ -173,8 +349,11 @@ async function handleMessage(message) {
             case 'get_selection':
                 result = await getSelection(payload.includeChildren);
                 break;
+            case 'get_page_info':
+                result = await getPageInfo(payload.pageId, payload.maxDepth, payload.maxNodes, payload.maxChildrenPerNode);
+                break;
             case 'set_multiple_text_contents':
-                result = await setMultipleTextContents(payload.updates);
+                result = await setMultipleTextContents(payload.updates, payload.atomic);
                 break;
             case 'select_nodes':
                 result = await selectNodes(payload.nodeIds, payload.append, payload.focus);
@@ -198,10 +377,19 @@ async function handleMessage(message) {
                 result = await validateStructure(payload.nodeIds, payload.containerId);
                 break;
             case 'capture_view':
-                result = await captureView(payload.mode, payload.nodeIds, payload.x, payload.y, payload.width, payload.height, payload.scale, payload.includeBase64, payload.maxBase64Length);
+                result = await captureView(payload.mode, payload.nodeIds, payload.x, payload.y, payload.width, payload.height, payload.scale, payload.includeBase64);
                 break;
             case 'undo_operations':
-                result = await undoOperations(payload.operationId, payload.steps);
+                result = await undoOperations(payload.operationId, payload.steps, payload.force);
+                break;
+            case 'redo_operations':
+                result = await redoOperations(payload.operationId, payload.steps, payload.force);
+                break;
+            case 'list_operation_journal':
+                result = listOperationJournal(payload.limit, payload.includeDetails);
+                break;
+            case 'apply_plan':
+                result = await applyPlan(payload.planId, id);
                 break;
             // NEW: Frame to Components
             case 'frame_to_components':
@@ -218,7 +406,7 @@ async function handleMessage(message) {
                 result = await crossPageMove(payload.nodeIds, payload.sourcePageId, payload.targetPageId, payload.maintainPosition);
                 break;
             case 'batch_edit_across_pages':
-                result = await batchEditAcrossPages(payload.operations);
+                result = await batchEditAcrossPages(payload.operations, payload.atomic);
                 break;
             // NEW: Component Set Management
             case 'explode_component_set':
@@ -252,6 +440,12 @@ async function handleMessage(message) {
             case 'create_vector':
                 result = await createVector(payload.x, payload.y, payload.width, payload.height, payload);
                 break;
+            case 'import_svg':
+                result = await importSvg(payload);
+                break;
+            case 'import_html_layout':
+                result = await importHtmlLayout(payload);
+                break;
             case 'create_group':
                 result = await createGroup(payload.nodeIds, payload.name, payload.parentId);
                 break;
@@ -359,6 +553,12 @@ async function handleMessage(message) {
             case 'get_all_variables':
                 result = await getAllVariables();
                 break;
+            case 'export_design_tokens':
+                result = await exportDesignTokens(payload);
+                break;
+            case 'import_design_tokens':
+                result = await importDesignTokens(payload);
+                break;
             case 'delete_variable':
                 result = await deleteVariable(payload.variableId, payload.unbindNodes);
                 break;
@@ -388,6 +588,15 @@ async function handleMessage(message) {
             case 'export_nodes_batch':
                 result = await exportNodesBatch(payload.exports);
                 break;
+            case 'generate_code':
+                result = await generateCode(payload);
+                break;
+            case 'generate_react_component':
+                result = await generateReactComponent(payload);
+                break;
+            case 'read_export_chunk':
+                result = readExportChunk(payload.exportId, payload.index);
+                break;
             // ===== Component Properties =====
             case 'add_component_property':
                 result = await addComponentProperty(payload.componentId, payload.name, payload.type, payload.defaultValue);
@@ -418,14 +627,293 @@ async function handleMessage(message) {
             default:
                 throw new Error(`Unknown tool: ${type}`);
         }
+        if (journalCapture) {
+            const entry = await commitJournalCapture(journalCapture, result).catch((error) => {
+                console.warn(`Journal commit failed for ${type}:`, error);
+                return null;
+            });
+            if (entry && result && typeof result === 'object' && !Array.isArray(result) && result.operationId === undefined) {
+                result.operationId = entry.operationId;
+            }
+        }
         return result;
     }
     catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error(`Error executing ${type}:`, error);
+        if (journalCapture && payload && payload.atomic === true && ATOMIC_BATCH_TOOLS.has(type)) {
+            return await rollbackAtomicBatch(journalCapture, error);
+        }
+        // Partial changes stay journaled so the caller can still revert them.
+        const entry = journalCapture ? await commitJournalCapture(journalCapture, null).catch(() => null) : null;
+        if (entry) {
+            throw new Error(`${errorMessage} (partial changes journaled as operation ${entry.operationId}; use undo_operations to revert)`);
+        }
         throw error;
     }
+    finally {
+        if (operationId && activeOperationIds.get(type) === operationId) {
+            activeOperationIds.delete(type);
+        }
+        if (operationId)
+            cancelledOperationIds.delete(operationId);
+    }
+}
+// Query words (English and Chinese) mapped to color families.
+const COLOR_FAMILY_ALIASES = {
+    red: 'red', orange: 'orange', brown: 'brown', yellow: 'yellow', green: 'green', cyan: 'cyan', teal: 'cyan',
+    blue: 'blue', purple: 'purple', violet: 'purple', pink: 'pink', magenta: 'pink', black: 'black', white: 'white',
+    gray: 'gray', grey: 'gray',
+    红色: 'red', 橙色: 'orange', 棕色: 'brown', 黄色: 'yellow', 绿色: 'green', 青色: 'cyan', 蓝色: 'blue',
+    紫色: 'purple', 粉色: 'pink', 黑色: 'black', 白色: 'white', 灰色: 'gray',
+};
+const clamp01 = (value) => Math.max(0, Math.min(1, value));
+const toLinear = (c) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const fromLinear = (c) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+const RAD = Math.PI / 180;
+function rgbToHex(color) {
+    return `#${[color.r, color.g, color.b]
+        .map((channel) => Math.round(clamp01(channel) * 255).toString(16).padStart(2, '0'))
+        .join('')}`.toUpperCase();
+}
+// Accepts #rgb, #rrggbb (alpha digits are ignored) and rgb()/rgba() strings.
+function parseColor(value) {
+    const text = value.trim();
+    const hex = text.replace(/^#/, '');
+    if (/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+        const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex;
+        const channel = (i) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+        return { r: channel(0), g: channel(1), b: channel(2) };
+    }
+    const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+    return rgb ? { r: Number(rgb[1]) / 255, g: Number(rgb[2]) / 255, b: Number(rgb[3]) / 255 } : null;
+}
+function rgbToHsl(color) {
+    const max = Math.max(color.r, color.g, color.b);
+    const min = Math.min(color.r, color.g, color.b);
+    const l = (max + min) / 2;
+    const d = max - min;
+    if (d === 0)
+        return { h: 0, s: 0, l };
+    const s = d / (1 - Math.abs(2 * l - 1));
+    let h = max === color.r ? ((color.g - color.b) / d) % 6 : max === color.g ? (color.b - color.r) / d + 2 : (color.r - color.g) / d + 4;
+    h *= 60;
+    return { h: h < 0 ? h + 360 : h, s, l };
+}
+function hslToRgb(hsl) {
+    const c = (1 - Math.abs(2 * hsl.l - 1)) * hsl.s;
+    const h = (((hsl.h % 360) + 360) % 360) / 60;
+    const x = c * (1 - Math.abs((h % 2) - 1));
+    const m = hsl.l - c / 2;
+    const [r, g, b] = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x];
+    return { r: r + m, g: g + m, b: b + m };
+}
+function rgbToLab(color) {
+    const r = toLinear(color.r);
+    const g = toLinear(color.g);
+    const b = toLinear(color.b);
+    // D65 reference white.
+    const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+    const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+    const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / 1.08883;
+    const f = (t) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+    return { l: 116 * f(y) - 16, a: 500 * (f(x) - f(y)), b: 200 * (f(y) - f(z)) };
+}
+function labToRgb(lab) {
+    const fy = (lab.l + 16) / 116;
+    const fx = fy + lab.a / 500;
+    const fz = fy - lab.b / 200;
+    const inverse = (t) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+    const x = inverse(fx) * 0.95047;
+    const y = inverse(fy);
+    const z = inverse(fz) * 1.08883;
+    return {
+        r: clamp01(fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z)),
+        g: clamp01(fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z)),
+        b: clamp01(fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)),
+    };
+}
+function rgbToOklch(color) {
+    const r = toLinear(color.r);
+    const g = toLinear(color.g);
+    const b = toLinear(color.b);
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+    const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+    const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+    const h = Math.atan2(B, A) / RAD;
+    return { l: L, c: Math.sqrt(A * A + B * B), h: h < 0 ? h + 360 : h };
+}
+// Out-of-gamut results are clipped per channel.
+function oklchToRgb(oklch) {
+    const A = oklch.c * Math.cos(oklch.h * RAD);
+    const B = oklch.c * Math.sin(oklch.h * RAD);
+    const l = Math.pow(oklch.l + 0.3963377774 * A + 0.2158037573 * B, 3);
+    const m = Math.pow(oklch.l - 0.1055613458 * A - 0.0638541728 * B, 3);
+    const s = Math.pow(oklch.l - 0.0894841775 * A - 1.291485548 * B, 3);
+    return {
+        r: clamp01(fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+        g: clamp01(fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+        b: clamp01(fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)),
+    };
+}
+// CIEDE2000 color difference; ~1 is the just-noticeable difference.
+function deltaE2000(first, second) {
+    const c1 = rgbToLab(first);
+    const c2 = rgbToLab(second);
+    const avgL = (c1.l + c2.l) / 2;
+    const avgC = (Math.sqrt(c1.a * c1.a + c1.b * c1.b) + Math.sqrt(c2.a * c2.a + c2.b * c2.b)) / 2;
+    const g = 0.5 * (1 - Math.sqrt(Math.pow(avgC, 7) / (Math.pow(avgC, 7) + Math.pow(25, 7))));
+    const a1 = c1.a * (1 + g);
+    const a2 = c2.a * (1 + g);
+    const cp1 = Math.sqrt(a1 * a1 + c1.b * c1.b);
+    const cp2 = Math.sqrt(a2 * a2 + c2.b * c2.b);
+    const hue = (bv, av) => {
+        if (bv === 0 && av === 0)
+            return 0;
+        const h = Math.atan2(bv, av) / RAD;
+        return h >= 0 ? h : h + 360;
+    };
+    const h1 = hue(c1.b, a1);
+    const h2 = hue(c2.b, a2);
+    let dh = 0;
+    if (cp1 * cp2 !== 0) {
+        dh = h2 - h1;
+        if (dh > 180)
+            dh -= 360;
+        else if (dh < -180)
+            dh += 360;
+    }
+    const dL = c2.l - c1.l;
+    const dC = cp2 - cp1;
+    const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * RAD);
+    const avgCp = (cp1 + cp2) / 2;
+    let avgH = h1 + h2;
+    if (cp1 * cp2 !== 0) {
+        avgH = Math.abs(h1 - h2) > 180 ? (h1 + h2 + (h1 + h2 < 360 ? 360 : -360)) / 2 : (h1 + h2) / 2;
+    }
+    const t = 1 - 0.17 * Math.cos((avgH - 30) * RAD) + 0.24 * Math.cos(2 * avgH * RAD)
+        + 0.32 * Math.cos((3 * avgH + 6) * RAD) - 0.2 * Math.cos((4 * avgH - 63) * RAD);
+    const sl = 1 + (0.015 * Math.pow(avgL - 50, 2)) / Math.sqrt(20 + Math.pow(avgL - 50, 2));
+    const sc = 1 + 0.045 * avgCp;
+    const sh = 1 + 0.015 * avgCp * t;
+    const rt = -2 * Math.sqrt(Math.pow(avgCp, 7) / (Math.pow(avgCp, 7) + Math.pow(25, 7)))
+        * Math.sin(60 * Math.exp(-Math.pow((avgH - 275) / 25, 2)) * RAD);
+    return Math.sqrt(Math.pow(dL / sl, 2) + Math.pow(dC / sc, 2) + Math.pow(dH / sh, 2) + rt * (dC / sc) * (dH / sh));
+}
+// Hue family from OKLCH, whose hue angle stays stable across lightness (unlike HSL).
+function colorFamily(color) {
+    const { l, c, h } = rgbToOklch(color);
+    if (c < 0.035)
+        return l < 0.3 ? 'black' : l > 0.93 ? 'white' : 'gray';
+    if (h >= 10 && h < 35)
+        return 'red';
+    if (h >= 35 && h < 85)
+        return l < 0.6 ? 'brown' : 'orange';
+    if (h >= 85 && h < 120)
+        return 'yellow';
+    if (h >= 120 && h < 170)
+        return 'green';
+    if (h >= 170 && h < 230)
+        return 'cyan';
+    if (h >= 230 && h < 290)
+        return 'blue';
+    if (h >= 290 && h < 335)
+        return 'purple';
+    return 'pink';
+}
+function nameColor(color) {
+    const family = colorFamily(color);
+    if (family === 'black' || family === 'white')
+        return family;
+    const { l } = rgbToOklch(color);
+    return l < 0.45 ? `dark ${family}` : l > 0.85 ? `light ${family}` : family;
+}
+// True when a color belongs to the family named by the query ("blue", "blues", "蓝色") or is within maxDeltaE of a hex query.
+function matchesColorName(color, query, maxDeltaE = 10) {
+    var _a, _b;
+    const key = query.trim().toLowerCase();
+    const family = (_b = (_a = COLOR_FAMILY_ALIASES[key]) !== null && _a !== void 0 ? _a : COLOR_FAMILY_ALIASES[key.replace(/s$/, '')]) !== null && _b !== void 0 ? _b : COLOR_FAMILY_ALIASES[key.replace(/es$/, '')];
+    if (family)
+        return colorFamily(color) === family;
+    const parsed = /^#|^rgb/.test(key) ? parseColor(key) : null;
+    return parsed ? deltaE2000(color, parsed) <= maxDeltaE : false;
+}
+// Greedy clustering in CIELAB: heaviest samples seed clusters, samples within maxDeltaE of a centroid join it,
+// then the closest pair of clusters is merged until at most maxColors remain.
+function clusterColors(samples, maxDeltaE = 6, maxColors) {
+    var _a;
+    const merge = (into, from) => {
+        var _a;
+        const total = into.weight + from.weight;
+        into.lab = {
+            l: (into.lab.l * into.weight + from.lab.l * from.weight) / total,
+            a: (into.lab.a * into.weight + from.lab.a * from.weight) / total,
+            b: (into.lab.b * into.weight + from.lab.b * from.weight) / total,
+        };
+        into.weight = total;
+        for (const [hex, weight] of from.members)
+            into.members.set(hex, ((_a = into.members.get(hex)) !== null && _a !== void 0 ? _a : 0) + weight);
+        into.ids.push(...from.ids);
+    };
+    const clusters = [];
+    const sorted = [...samples].sort((a, b) => { var _a, _b; return ((_a = b.weight) !== null && _a !== void 0 ? _a : 1) - ((_b = a.weight) !== null && _b !== void 0 ? _b : 1); });
+    for (const sample of sorted) {
+        const weight = (_a = sample.weight) !== null && _a !== void 0 ? _a : 1;
+        const single = {
+            lab: rgbToLab(sample.color),
+            weight,
+            members: new Map([[rgbToHex(sample.color), weight]]),
+            ids: sample.id ? [sample.id] : [],
+        };
+        let best = null;
+        for (const cluster of clusters) {
+            const deltaE = deltaE2000(labToRgb(cluster.lab), sample.color);
+            if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE))
+                best = { cluster, deltaE };
+        }
+        if (best)
+            merge(best.cluster, single);
+        else
+            clusters.push(single);
+    }
+    while (maxColors !== undefined && maxColors > 0 && clusters.length > maxColors) {
+        let pair = [0, 1];
+        let closest = Infinity;
+        for (let i = 0; i < clusters.length; i++) {
+            for (let j = i + 1; j < clusters.length; j++) {
+                const deltaE = deltaE2000(labToRgb(clusters[i].lab), labToRgb(clusters[j].lab));
+                if (deltaE < closest) {
+                    closest = deltaE;
+                    pair = [i, j];
+                }
+            }
+        }
+        merge(clusters[pair[0]], clusters[pair[1]]);
+        clusters.splice(pair[1], 1);
+    }
+    const total = clusters.reduce((sum, cluster) => sum + cluster.weight, 0) || 1;
+    return clusters
+        .sort((a, b) => b.weight - a.weight)
+        .map((cluster) => {
+        const members = [...cluster.members.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex);
+        // The palette entry is the most used real color, not the (possibly unused) centroid.
+        const color = parseColor(members[0]);
+        return {
+            hex: members[0],
+            color,
+            name: nameColor(color),
+            family: colorFamily(color),
+            weight: cluster.weight,
+            share: Math.round((cluster.weight / total) * 1000) / 1000,
+            members,
+            ids: cluster.ids,
+        };
+    });
 }
+// </generated:color>
 // ===== Smart Discovery Implementation =====
 async function smartSelect(query, scope = 'document', limit = 100, pageIds, pageNames) {
     const roots = await resolveScopeRoots(scope, pageIds, pageNames);
@@ -440,7 +928,8 @@ async function smartSelect(query, scope = 'document', limit = 100, pageIds, page
     const wantsComponents = queryLower.includes('component') || queryLower.includes('components') || queryLower.includes('组件');
     const wantsInstances = queryLower.includes('instance') || queryLower.includes('instances') || queryLower.includes('实例');
     const wantsText = queryLower.includes('text') || queryLower.includes('文本');
-    const colorMatch = queryLower.match(/(red|blue|green|yellow|black|white|红色|蓝色|绿色|黄色|黑色|白色)/);
+    const colorWords = Object.keys(COLOR_FAMILY_ALIASES).sort((a, b) => b.length - a.length).join('|');
+    const colorMatch = queryLower.match(new RegExp(`(#[0-9a-f]{6}\\b|#[0-9a-f]{3}\\b|${colorWords})`));
     const nameMatch = queryLower.match(/["'](.+?)["']/);
     for (const root of roots) {
         await traverseNodes(root, async (node) => {
@@ -472,14 +961,11 @@ async function smartSelect(query, scope = 'document', limit = 100, pageIds, page
                 score += 8;
             if (wantsText && node.type === 'TEXT')
                 score += 8;
-            // Color matching
+            // Color matching (perceptual family or ΔE to a hex query, on any visible solid fill)
             if (colorMatch && 'fills' in node) {
                 const fills = node.fills;
-                if (fills && fills.length > 0 && fills[0].type === 'SOLID') {
-                    const color = fills[0].color;
-                    if (matchesColorQuery(color, colorMatch[1])) {
-                        score += 5;
-                    }
+                if (Array.isArray(fills) && fills.some((paint) => paint.type === 'SOLID' && paint.visible !== false && matchesColorName(paint.color, colorMatch[1]))) {
+                    score += 5;
                 }
             }
             if (score > 3) {
@@ -633,28 +1119,43 @@ async function autoDiscoverComponents(minSimilarity = 0.9, minOccurrences = 3, s
     };
 }
 // ===== Batch Operations Implementation =====
-async function batchCreate(operations, chunkSize = 50, continueOnError = true) {
+const BATCH_CREATE_TYPES = [
+    'create_rectangle', 'create_frame', 'create_text', 'create_component', 'create_ellipse',
+    'create_line', 'create_polygon', 'create_star', 'create_vector',
+];
+function normalizeCreateType(rawType) {
+    const raw = String(rawType || '').trim();
+    if (!raw)
+        return '';
+    // Accept camelCase/PascalCase/snake/kebab and normalize to snake style.
+    const snake = raw
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[\s\-]+/g, '_')
+        .toLowerCase();
+    // Support both prefixed and plain forms, e.g. createEllipse / ellipse.
+    return snake.startsWith('create_') ? snake : `create_${snake}`;
+}
+async function batchCreate(operations, chunkSize = 50, continueOnError = true, atomic = false, 
+// Tool whose operationId drives progress and cancellation (import_html_layout reuses this loop).
+tool = 'batch_create') {
     const results = [];
     const errors = [];
     const createdNodes = [];
+    let processed = 0;
+    let cancelled = false;
     for (let i = 0; i < operations.length; i += chunkSize) {
         const chunk = operations.slice(i, i + chunkSize);
         // Report progress
-        sendProgress('batch_create', i, operations.length, `Creating ${i + chunk.length}/${operations.length}`);
+        sendProgress(tool, i, operations.length, `Creating ${i + chunk.length}/${operations.length}`);
         for (const op of chunk) {
+            if (isOperationCancelled(tool)) {
+                if (atomic)
+                    throw atomicBatchError(processed, String(op.type), 'Cancelled');
+                cancelled = true;
+                break;
+            }
+            processed++;
             try {
-                const normalizeCreateType = (rawType) => {
-                    const raw = String(rawType || '').trim();
-                    if (!raw)
-                        return '';
-                    // Accept camelCase/PascalCase/snake/kebab and normalize to snake style.
-                    const snake = raw
-                        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
-                        .replace(/[\s\-]+/g, '_')
-                        .toLowerCase();
-                    // Support both prefixed and plain forms, e.g. createEllipse / ellipse.
-                    return snake.startsWith('create_') ? snake : `create_${snake}`;
-                };
                 const normalizedType = normalizeCreateType(op.type);
                 const targetParentId = (op.params && typeof op.params.parentId === 'string')
                     ? op.params.parentId
@@ -703,12 +1204,16 @@ async function batchCreate(operations, chunkSize = 50, continueOnError = true) {
                 results.push({ id: node.id, type: normalizedType });
             }
             catch (error) {
+                if (atomic)
+                    throw atomicBatchError(processed - 1, String(op.type), error);
                 const msg = error instanceof Error ? error.message : String(error);
                 errors.push({ operation: op, error: msg });
                 if (!continueOnError)
                     throw error;
             }
         }
+        if (cancelled)
+            break;
         // Yield to prevent blocking
         await new Promise(resolve => setTimeout(resolve, 10));
     }
@@ -717,15 +1222,18 @@ async function batchCreate(operations, chunkSize = 50, continueOnError = true) {
         failed: errors.length,
         createdIds: createdNodes,
         errors: errors.slice(0, 10),
+        cancelled,
+        skipped: operations.length - processed,
     };
 }
-async function batchModify(operations, chunkSize = 50) {
+async function batchModify(operations, chunkSize = 50, atomic = false) {
     const results = [];
     const errors = [];
     for (let i = 0; i < operations.length; i += chunkSize) {
         const chunk = operations.slice(i, i + chunkSize);
         sendProgress('batch_modify', i, operations.length, `Modifying ${i + chunk.length}/${operations.length}`);
-        for (const op of chunk) {
+        for (let j = 0; j < chunk.length; j++) {
+            const op = chunk[j];
             try {
                 const node = await figma.getNodeByIdAsync(op.nodeId);
                 if (!node)
@@ -734,6 +1242,8 @@ async function batchModify(operations, chunkSize = 50) {
                 results.push({ id: op.nodeId, success: true });
             }
             catch (error) {
+                if (atomic)
+                    throw atomicBatchError(i + j, op.nodeId, error);
                 const msg = error instanceof Error ? error.message : String(error);
                 errors.push({ nodeId: op.nodeId, error: msg });
             }
@@ -757,7 +1267,12 @@ async function batchClone(templateId, count, offsetX = 200, offsetY = 0, gridCol
     const clones = [];
     const baseX = 'x' in template ? template.x : 0;
     const baseY = 'y' in template ? template.y : 0;
+    let cancelled = false;
     for (let i = 0; i < count; i++) {
+        if (isOperationCancelled('batch_clone')) {
+            cancelled = true;
+            break;
+        }
         // Keep clones in the same parent/page as template to avoid accidental cross-page placement.
         // For components, generate instances instead of duplicating main components.
         let clone;
@@ -792,22 +1307,25 @@ async function batchClone(templateId, count, offsetX = 200, offsetY = 0, gridCol
         }
     }
     if (!includeIds) {
-        return { cloned: clones.length, idsIncluded: false, returnedIds: 0, truncated: false };
+        return { cloned: clones.length, idsIncluded: false, returnedIds: 0, truncated: false, cancelled };
     }
     const maxIds = Math.max(0, Math.min(5000, Number.isFinite(maxReturnedIds) ? Math.floor(maxReturnedIds) : 100));
     const ids = clones.slice(0, maxIds);
     return {
         cloned: clones.length,
+        cancelled,
         idsIncluded: true,
         returnedIds: ids.length,
         truncated: clones.length > ids.length,
         ids,
     };
 }
-async function batchRename(nodeIds, pattern, startIndex = 1) {
+async function batchRename(nodeIds, pattern, startIndex = 1, atomic = false) {
     const results = [];
     for (let i = 0; i < nodeIds.length; i++) {
         const node = await figma.getNodeByIdAsync(nodeIds[i]);
+        if (!node && atomic)
+            throw atomicBatchError(i, nodeIds[i], 'Node not found');
         if (node) {
             const newName = pattern.replace('{index}', String(startIndex + i));
             node.name = newName;
@@ -2070,1463 +2588,3657 @@ async function checkConsistency(scope = 'document', checks = ['colors', 'typogra
                 .map(([size, count]) => ({ size, count })),
         });
     }
+    if (checks.includes('spacing') && spacings.size > 10) {
+        issues.push({
+            type: 'spacing',
+            severity: 'warning',
+            message: `Found ${spacings.size} unique spacing values. Consider using a spacing scale.`,
+            details: Array.from(spacings.entries())
+                .sort((a, b) => a[0] - b[0])
+                .map(([spacing, count]) => ({ spacing, count })),
+        });
+    }
     return {
         checked: checks,
         issuesFound: issues.length,
         issues,
     };
 }
-// ===== Utility Implementation =====
-async function getDocumentInfo(includeChildren = true, maxDepth = 10, maxPages = 100, maxNodesPerPage = 1200, maxChildrenPerNode = 200) {
-    if (includeChildren)
-        await ensureAllPagesLoaded();
-    const safeMaxPages = Math.max(1, Math.min(500, Number.isFinite(maxPages) ? Math.floor(maxPages) : 100));
-    const safeMaxNodesPerPage = Math.max(100, Math.min(10000, Number.isFinite(maxNodesPerPage) ? Math.floor(maxNodesPerPage) : 1200));
-    const safeMaxChildrenPerNode = Math.max(20, Math.min(1000, Number.isFinite(maxChildrenPerNode) ? Math.floor(maxChildrenPerNode) : 200));
-    const sourcePages = figma.root.children.slice(0, safeMaxPages);
-    const pages = sourcePages.map(page => {
-        if (!includeChildren) {
-            return { id: page.id, name: page.name, children: undefined };
-        }
-        const state = { remaining: safeMaxNodesPerPage, truncated: false };
-        const children = getNodeChildren(page, maxDepth, 0, state, safeMaxChildrenPerNode);
-        return {
-            id: page.id,
-            name: page.name,
-            children,
-            childrenTruncated: state.truncated,
-            maxNodesPerPage: safeMaxNodesPerPage,
-            maxChildrenPerNode: safeMaxChildrenPerNode,
-        };
-    });
-    return {
-        id: figma.root.id,
-        name: figma.root.name,
-        type: 'DOCUMENT',
-        currentPage: {
-            id: figma.currentPage.id,
-            name: figma.currentPage.name,
-        },
-        pages,
-        pagesTruncated: figma.root.children.length > sourcePages.length,
-        maxPages: safeMaxPages,
-    };
+const A11Y_CONTRAST_THRESHOLDS = {
+    AA: { normal: 4.5, large: 3 },
+    AAA: { normal: 7, large: 4.5 },
+};
+const A11Y_GENERIC_LAYER_NAME = /^(rectangle|image|frame|ellipse|vector|group|photo|img|pic)(\s*\d+)?$/i;
+function relativeLuminance(color) {
+    const channel = (c) => (c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+    return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
 }
-async function getNodeInfo(nodeId, includeChildren = true) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node)
-        throw new Error('Node not found');
-    return nodeToInfo(node, includeChildren);
+function contrastRatio(a, b) {
+    const la = relativeLuminance(a);
+    const lb = relativeLuminance(b);
+    return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
 }
-async function getSelection(includeChildren = false) {
-    const selected = figma.currentPage.selection.filter(Boolean);
-    const nodes = selected.map((node) => nodeToInfo(node, includeChildren));
+function blendOver(top, alpha, bottom) {
     return {
-        pageId: figma.currentPage.id,
-        pageName: figma.currentPage.name,
-        selectedCount: nodes.length,
-        nodeIds: nodes.map((n) => n.id),
-        nodes,
+        r: top.r * alpha + bottom.r * (1 - alpha),
+        g: top.g * alpha + bottom.g * (1 - alpha),
+        b: top.b * alpha + bottom.b * (1 - alpha),
     };
 }
-async function setMultipleTextContents(updates) {
-    const results = [];
-    const errors = [];
-    // Group by font to minimize loadFont calls
-    const fontGroups = new Map();
-    for (const update of updates) {
-        const node = await figma.getNodeByIdAsync(update.nodeId);
-        if (!node || node.type !== 'TEXT') {
-            errors.push({ nodeId: update.nodeId, error: 'Not a text node' });
+function boxContains(outer, inner) {
+    return outer.x <= inner.x + 0.5 && outer.y <= inner.y + 0.5 &&
+        outer.x + outer.width >= inner.x + inner.width - 0.5 && outer.y + outer.height >= inner.y + inner.height - 0.5;
+}
+// Visible paints of one node, topmost first. Gradients contribute their darkest/lightest stop per variant; images make the result indeterminate.
+function contrastLayersOf(node, variants) {
+    var _a;
+    const fills = 'fills' in node && Array.isArray(node.fills) ? node.fills : [];
+    const nodeOpacity = 'opacity' in node ? node.opacity : 1;
+    let opaque = false;
+    let image = false;
+    for (const paint of [...fills].reverse()) {
+        if (paint.visible === false)
             continue;
+        const paintOpacity = ((_a = paint.opacity) !== null && _a !== void 0 ? _a : 1) * nodeOpacity;
+        if (paint.type === 'SOLID') {
+            for (const layers of variants)
+                layers.push({ color: paint.color, alpha: paintOpacity });
+            if (paintOpacity >= 1)
+                opaque = true;
+        }
+        else if (paint.type.startsWith('GRADIENT_')) {
+            const stops = paint.gradientStops;
+            const byLuminance = [...stops].sort((a, b) => relativeLuminance(a.color) - relativeLuminance(b.color));
+            const extremes = [byLuminance[0], byLuminance[byLuminance.length - 1]];
+            const base = variants.splice(0, variants.length);
+            for (const layers of base) {
+                for (const stop of extremes)
+                    variants.push([...layers, { color: stop.color, alpha: stop.color.a * paintOpacity }]);
+            }
+            if (paintOpacity >= 1 && stops.every((stop) => stop.color.a >= 1))
+                opaque = true;
         }
-        const fontKey = JSON.stringify(node.fontName);
-        if (!fontGroups.has(fontKey)) {
-            fontGroups.set(fontKey, []);
+        else if (paint.type === 'IMAGE' || paint.type === 'VIDEO') {
+            image = true;
+            if (paintOpacity >= 1)
+                opaque = true;
         }
-        fontGroups.get(fontKey).push({ node, text: update.text });
+        if (opaque)
+            break;
     }
-    // Process each font group
-    for (const [fontKey, items] of fontGroups) {
-        const fontName = JSON.parse(fontKey);
-        await figma.loadFontAsync(fontName);
-        for (const item of items) {
-            try {
-                item.node.characters = item.text;
-                results.push({ nodeId: item.node.id, success: true });
-            }
-            catch (error) {
-                const msg = error instanceof Error ? error.message : String(error);
-                errors.push({ nodeId: item.node.id, error: msg });
-            }
+    return { opaque, image };
+}
+// Walks from the text node outwards: earlier siblings (and their descendants) that fully cover the text, then each ancestor's own fills.
+function effectiveBackgrounds(node) {
+    var _a;
+    const box = node.absoluteBoundingBox;
+    const variants = [[]];
+    let indeterminate = false;
+    let done = false;
+    const collect = (layer) => {
+        if (done || !layer.visible || !layer.absoluteBoundingBox || !box || !boxContains(layer.absoluteBoundingBox, box))
+            return;
+        if ('children' in layer) {
+            const children = layer.children;
+            for (let i = children.length - 1; i >= 0 && !done; i--)
+                collect(children[i]);
         }
-    }
-    return {
-        updated: results.length,
-        failed: errors.length,
-        errors: errors.slice(0, 10),
+        if (done)
+            return;
+        const result = contrastLayersOf(layer, variants);
+        if (result.image)
+            indeterminate = true;
+        if (result.opaque)
+            done = true;
     };
-}
-async function undoOperations(operationId, steps = 1) {
-    const undoSteps = Math.max(1, Math.min(20, Math.floor(Number.isFinite(steps) ? steps : 1)));
-    for (let i = 0; i < undoSteps; i++) {
-        figma.triggerUndo();
+    let current = node;
+    while (!done && current.parent && current.parent.type !== 'DOCUMENT') {
+        const parent = current.parent;
+        if (parent.type === 'PAGE') {
+            const background = parent.backgrounds.find((paint) => paint.type === 'SOLID' && paint.visible !== false);
+            if (background)
+                for (const layers of variants)
+                    layers.push({ color: background.color, alpha: (_a = background.opacity) !== null && _a !== void 0 ? _a : 1 });
+            break;
+        }
+        const siblings = parent.children;
+        for (let i = siblings.indexOf(current) - 1; i >= 0 && !done; i--)
+            collect(siblings[i]);
+        if (!done) {
+            const result = contrastLayersOf(parent, variants);
+            if (result.image)
+                indeterminate = true;
+            if (result.opaque)
+                done = true;
+        }
+        current = parent;
     }
-    return {
-        undone: undoSteps,
-        operationId: operationId || null,
-        note: 'Applied via Figma undo stack',
-    };
+    const white = { r: 1, g: 1, b: 1 };
+    const colors = variants.map((layers) => layers.reduceRight((below, layer) => blendOver(layer.color, layer.alpha, below), white));
+    return { colors, indeterminate };
 }
-async function selectNodes(nodeIds, append = false, focus = true) {
-    if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
-        throw new Error('nodeIds is required');
+function textSolidFills(node) {
+    var _a;
+    let segments;
+    try {
+        segments = node.getStyledTextSegments(['fills', 'fontSize', 'fontWeight']);
     }
-    const resolved = [];
-    const missing = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (!node || !('visible' in node)) {
-            missing.push(id);
+    catch (_b) {
+        segments = [{ fills: node.fills, fontSize: node.fontSize, fontWeight: 400 }];
+    }
+    const out = [];
+    for (const segment of segments) {
+        const fills = Array.isArray(segment.fills) ? segment.fills : [];
+        const solid = [...fills].reverse().find((paint) => paint.type === 'SOLID' && paint.visible !== false);
+        if (!solid)
+            continue;
+        out.push({
+            color: solid.color,
+            opacity: ((_a = solid.opacity) !== null && _a !== void 0 ? _a : 1) * node.opacity,
+            fontSize: typeof segment.fontSize === 'number' ? segment.fontSize : 16,
+            bold: Number(segment.fontWeight) >= 700,
+        });
+    }
+    return out;
+}
+// Worst text run against every background variant, relative to the ratio each run needs (large text needs less).
+function measureTextContrast(node, runs, thresholds) {
+    const backgrounds = effectiveBackgrounds(node);
+    let worst = null;
+    for (const run of runs) {
+        const large = run.fontSize >= 24 || (run.bold && run.fontSize >= 18.66);
+        const required = large ? thresholds.large : thresholds.normal;
+        for (const background of backgrounds.colors) {
+            const text = blendOver(run.color, run.opacity, background);
+            const ratio = contrastRatio(text, background);
+            if (!worst || ratio / required < worst.ratio / worst.required)
+                worst = { ratio, required, text, background };
+        }
+    }
+    return { backgrounds, worst };
+}
+// Mixes the text color toward black or white until the ratio is met; returns the closest passing hex.
+function suggestContrastColor(text, background, required) {
+    let best = null;
+    for (const target of [{ r: 0, g: 0, b: 0 }, { r: 1, g: 1, b: 1 }]) {
+        if (contrastRatio(target, background) < required)
             continue;
+        let low = 0;
+        let high = 1;
+        for (let i = 0; i < 20; i++) {
+            const mid = (low + high) / 2;
+            if (contrastRatio(blendOver(target, mid, text), background) >= required)
+                high = mid;
+            else
+                low = mid;
         }
-        resolved.push(node);
+        // Quantize toward the target so hex rounding cannot drop the ratio back under the threshold.
+        const mixed = blendOver(target, high, text);
+        const snap = target.r === 0 ? Math.floor : Math.ceil;
+        const color = { r: snap(mixed.r * 255) / 255, g: snap(mixed.g * 255) / 255, b: snap(mixed.b * 255) / 255 };
+        if (!best || high < best.amount)
+            best = { hex: designTokenColor(color, 1).hex, amount: high };
     }
-    if (resolved.length === 0) {
-        throw new Error(`No selectable nodes found. Missing: ${missing.join(', ')}`);
+    return best ? best.hex : null;
+}
+async function auditAccessibility(options) {
+    var _a, _b, _c, _d;
+    const checks = Array.isArray(options.checks) && options.checks.length > 0
+        ? options.checks
+        : ['contrast', 'touch_targets', 'text_size', 'image_descriptions'];
+    const level = options.level === 'AAA' ? 'AAA' : 'AA';
+    const thresholds = A11Y_CONTRAST_THRESHOLDS[level];
+    const minTouchTarget = (_a = options.minTouchTarget) !== null && _a !== void 0 ? _a : 44;
+    const minFontSize = (_b = options.minFontSize) !== null && _b !== void 0 ? _b : 12;
+    const maxIssues = (_c = options.maxIssues) !== null && _c !== void 0 ? _c : 500;
+    const roots = await resolveScopeRoots((_d = options.scope) !== null && _d !== void 0 ? _d : 'page', options.pageIds, options.pageNames);
+    const issues = [];
+    let nodesScanned = 0;
+    let truncated = false;
+    const report = (issue) => {
+        if (issues.length >= maxIssues) {
+            truncated = true;
+            return;
+        }
+        issues.push(issue);
+    };
+    for (const root of roots) {
+        await traverseNodes(root, async (node) => {
+            var _a;
+            if (!node.visible)
+                return false;
+            nodesScanned++;
+            if (node.type === 'TEXT') {
+                const runs = textSolidFills(node);
+                if (checks.includes('contrast') && runs.length > 0) {
+                    const { backgrounds, worst } = measureTextContrast(node, runs, thresholds);
+                    if (worst && worst.ratio < worst.required) {
+                        const suggestion = suggestContrastColor(worst.text, worst.background, worst.required);
+                        report({
+                            type: 'contrast',
+                            severity: backgrounds.indeterminate ? 'info' : 'error',
+                            nodeId: node.id,
+                            nodeName: node.name,
+                            message: `Contrast ${worst.ratio.toFixed(2)}:1 is below WCAG ${level} ${worst.required}:1${backgrounds.indeterminate ? ' (background includes an image; verify manually)' : ''}`,
+                            details: {
+                                ratio: Math.round(worst.ratio * 100) / 100,
+                                required: worst.required,
+                                textColor: designTokenColor(worst.text, 1).hex,
+                                backgroundColor: designTokenColor(worst.background, 1).hex,
+                            },
+                            suggestedFix: suggestion
+                                ? `Change the text color to ${suggestion} or adjust the background`
+                                : 'Change the background; no text color reaches the required ratio on it',
+                        });
+                    }
+                    else if (!worst && backgrounds.indeterminate) {
+                        report({
+                            type: 'contrast', severity: 'info', nodeId: node.id, nodeName: node.name,
+                            message: 'Background includes an image; contrast cannot be computed',
+                            suggestedFix: 'Verify contrast manually or add a solid scrim behind the text',
+                        });
+                    }
+                }
+                if (checks.includes('text_size') && runs.length > 0) {
+                    const smallest = Math.min(...runs.map((run) => run.fontSize));
+                    if (smallest < minFontSize) {
+                        report({
+                            type: 'text_size', severity: 'warning', nodeId: node.id, nodeName: node.name,
+                            message: `Font size ${smallest}px is below the minimum ${minFontSize}px`,
+                            details: { fontSize: smallest, minFontSize },
+                            suggestedFix: `Increase the font size to at least ${minFontSize}px`,
+                        });
+                    }
+                }
+                return true;
+            }
+            if (checks.includes('touch_targets') && isButtonLike(node) && 'width' in node &&
+                (node.width < minTouchTarget || node.height < minTouchTarget)) {
+                report({
+                    type: 'touch_target', severity: 'warning', nodeId: node.id, nodeName: node.name,
+                    message: `Touch target ${Math.round(node.width)}×${Math.round(node.height)} is smaller than ${minTouchTarget}×${minTouchTarget}`,
+                    details: { width: node.width, height: node.height, minTouchTarget },
+                    suggestedFix: `Resize or pad the hit area to at least ${Math.ceil(Math.max(node.width, minTouchTarget))}×${Math.ceil(Math.max(node.height, minTouchTarget))}`,
+                });
+            }
+            if (checks.includes('image_descriptions') && 'fills' in node && Array.isArray(node.fills) &&
+                node.fills.some((paint) => paint.type === 'IMAGE' && paint.visible !== false)) {
+                const description = 'description' in node ? String((_a = node.description) !== null && _a !== void 0 ? _a : '').trim() : '';
+                if (!description && A11Y_GENERIC_LAYER_NAME.test(node.name.trim())) {
+                    report({
+                        type: 'image_description', severity: 'warning', nodeId: node.id, nodeName: node.name,
+                        message: 'Image has no description (generic layer name)',
+                        suggestedFix: 'Rename the layer to describe the image content; it serves as alt text in handoff',
+                    });
+                }
+            }
+            return true;
+        });
     }
-    const targetPage = getNodePage(resolved[0]);
-    if (targetPage && figma.currentPage.id !== targetPage.id) {
-        await figma.setCurrentPageAsync(targetPage);
+    const offenderIds = [...new Set(issues.map((issue) => issue.nodeId))];
+    let selection = null;
+    if (options.selectOffenders === true && offenderIds.length > 0) {
+        selection = await selectNodes(offenderIds, false, options.focus !== false);
     }
-    const samePageNodes = resolved.filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) === figma.currentPage.id; });
-    const skippedCrossPage = resolved
-        .filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) !== figma.currentPage.id; })
-        .map((n) => n.id);
-    const selected = append
-        ? dedupeNodes([...figma.currentPage.selection, ...samePageNodes])
-        : samePageNodes;
-    figma.currentPage.selection = selected;
-    if (focus && selected.length > 0) {
-        figma.viewport.scrollAndZoomIntoView(selected);
+    return Object.assign({ checked: checks, level,
+        nodesScanned, summary: {
+            errors: issues.filter((issue) => issue.severity === 'error').length,
+            warnings: issues.filter((issue) => issue.severity === 'warning').length,
+            info: issues.filter((issue) => issue.severity === 'info').length,
+        }, issues,
+        truncated,
+        offenderIds }, (selection ? { selection } : {}));
+}
+function colorDistance(a, b) {
+    return Math.sqrt(Math.pow(a.r - b.r, 2) + Math.pow(a.g - b.g, 2) + Math.pow(a.b - b.b, 2));
+}
+// Lowest ratio/required over the node's runs and background variants for a candidate fill; >= 1 passes.
+function contrastScore(color, opacity, runs, backgrounds, thresholds) {
+    let score = Infinity;
+    for (const run of runs) {
+        const large = run.fontSize >= 24 || (run.bold && run.fontSize >= 18.66);
+        const required = large ? thresholds.large : thresholds.normal;
+        for (const background of backgrounds) {
+            score = Math.min(score, contrastRatio(blendOver(color, opacity, background), background) / required);
+        }
     }
-    return {
-        selectedCount: selected.length,
-        selectedIds: selected.map((n) => n.id),
-        missingIds: missing,
-        skippedCrossPageIds: skippedCrossPage,
-        pageId: figma.currentPage.id,
-    };
+    return score;
 }
-async function setFocus(nodeIds, nodeId, x, y, zoom) {
-    if (typeof x === 'number' && typeof y === 'number') {
-        figma.viewport.center = { x, y };
-        if (typeof zoom === 'number' && Number.isFinite(zoom) && zoom > 0) {
-            figma.viewport.zoom = zoom;
+async function collectContrastTextNodes(options) {
+    var _a;
+    const roots = [];
+    if (Array.isArray(options.nodeIds) && options.nodeIds.length > 0) {
+        for (const id of options.nodeIds) {
+            const node = await figma.getNodeByIdAsync(id);
+            if (node && node.type !== 'DOCUMENT')
+                roots.push(node);
         }
-        return { mode: 'coordinates', center: figma.viewport.center, zoom: figma.viewport.zoom };
     }
-    const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : (nodeId ? [nodeId] : []);
-    if (ids.length === 0) {
-        throw new Error('Provide nodeId/nodeIds, or x+y coordinates');
+    else {
+        roots.push(...await resolveScopeRoots((_a = options.scope) !== null && _a !== void 0 ? _a : 'page', options.pageIds, options.pageNames));
     }
-    const nodes = [];
-    const pages = [];
-    for (const id of ids) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (!node)
+    const texts = [];
+    for (const root of roots) {
+        await traverseNodes(root, async (node) => {
+            if (!node.visible)
+                return false;
+            if (node.type === 'TEXT')
+                texts.push(node);
+            return true;
+        });
+    }
+    return texts;
+}
+// Shared by fix_contrast and its dryRun planner: finds failing text and picks a token or the nearest passing hex for each.
+async function planContrastFixes(options) {
+    var _a, _b, _c, _d;
+    const level = options.level === 'AAA' ? 'AAA' : 'AA';
+    const thresholds = A11Y_CONTRAST_THRESHOLDS[level];
+    const preferTokens = options.preferTokens !== false;
+    const maxTokenDistance = (_a = options.maxTokenDistance) !== null && _a !== void 0 ? _a : 0.5;
+    const styles = [];
+    const variables = [];
+    if (preferTokens) {
+        for (const entry of (await getAllStyles('PAINT')).styles) {
+            const style = await figma.getStyleByIdAsync(entry.id);
+            const paints = style ? style.paints.filter((paint) => paint.visible !== false) : [];
+            if (paints.length === 1 && paints[0].type === 'SOLID')
+                styles.push({ style: style, paint: paints[0] });
+        }
+        for (const entry of (await getAllVariables()).variables) {
+            if (entry.type !== 'COLOR')
+                continue;
+            const variable = await figma.variables.getVariableByIdAsync(entry.id);
+            const scopes = variable ? variable.scopes : [];
+            if (variable && (scopes.length === 0 || scopes.some((scope) => scope === 'ALL_SCOPES' || scope === 'ALL_FILLS' || scope === 'TEXT_FILL'))) {
+                variables.push(variable);
+            }
+        }
+    }
+    const plan = { level, fixes: [], skipped: [], tokensConsidered: { variables: variables.length, styles: styles.length } };
+    for (const node of await collectContrastTextNodes(options)) {
+        const runs = textSolidFills(node);
+        if (runs.length === 0)
             continue;
-        if (node.type === 'PAGE') {
-            pages.push(node);
+        const { backgrounds, worst } = measureTextContrast(node, runs, thresholds);
+        if (!worst || worst.ratio >= worst.required)
+            continue;
+        const skip = (reason) => plan.skipped.push({ nodeId: node.id, nodeName: node.name, reason });
+        if (backgrounds.indeterminate) {
+            skip('Background includes an image');
             continue;
         }
-        if ('visible' in node)
-            nodes.push(node);
-    }
-    // Allow focusing by page id(s): switch to the first provided page.
-    if (nodes.length === 0 && pages.length > 0) {
-        const targetPage = pages[0];
-        if (figma.currentPage.id !== targetPage.id) {
-            await figma.setCurrentPageAsync(targetPage);
+        if (node.fills === figma.mixed) {
+            skip('Text has mixed fills');
+            continue;
         }
-        return {
-            mode: 'page',
-            pageId: figma.currentPage.id,
-            pageName: figma.currentPage.name,
-            focusedIds: [],
+        const original = runs[0].color;
+        const score = (color, opacity) => contrastScore(color, opacity * node.opacity, runs, backgrounds.colors, thresholds);
+        let best = null;
+        const consider = (color, opacity, token) => {
+            const distance = colorDistance(color, original);
+            const candidateScore = score(color, opacity);
+            if (distance > maxTokenDistance || candidateScore < 1)
+                return;
+            if (!best || distance < best.distance)
+                best = { color, distance, score: candidateScore, token };
         };
+        for (const variable of variables) {
+            const resolved = variable.resolveForConsumer(node).value;
+            if (resolved && typeof resolved === 'object' && 'r' in resolved)
+                consider(resolved, (_b = resolved.a) !== null && _b !== void 0 ? _b : 1, { type: 'variable', variable });
+        }
+        for (const { style, paint } of styles)
+            consider(paint.color, (_c = paint.opacity) !== null && _c !== void 0 ? _c : 1, { type: 'style', style });
+        if (!best) {
+            // No token close enough: walk the raw color toward black/white against each failing background in turn.
+            let color = worst.text;
+            for (const background of [worst.background, ...backgrounds.colors]) {
+                if (score(color, 1) >= 1)
+                    break;
+                const hex = suggestContrastColor(color, background, worst.required);
+                color = hex ? (_d = parseHexToRGB(hex)) !== null && _d !== void 0 ? _d : color : color;
+            }
+            const rawScore = score(color, 1);
+            if (rawScore < 1) {
+                skip('No single color passes on every background variant');
+                continue;
+            }
+            best = { color, distance: colorDistance(color, original), score: rawScore, token: null };
+        }
+        const chosen = best;
+        plan.fixes.push({
+            node,
+            required: worst.required,
+            ratioBefore: worst.ratio,
+            ratioAfter: chosen.score * worst.required,
+            colorBefore: original,
+            colorAfter: { r: chosen.color.r, g: chosen.color.g, b: chosen.color.b },
+            token: chosen.token,
+        });
     }
-    if (nodes.length === 0) {
-        throw new Error('No focusable nodes found');
-    }
-    const targetPage = getNodePage(nodes[0]);
-    if (targetPage && figma.currentPage.id !== targetPage.id) {
-        await figma.setCurrentPageAsync(targetPage);
-    }
-    const samePageNodes = nodes.filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) === figma.currentPage.id; });
-    figma.viewport.scrollAndZoomIntoView(samePageNodes);
+    return plan;
+}
+function contrastFixPaint(fix) {
+    var _a;
+    const paint = { type: 'SOLID', color: fix.colorAfter };
+    return ((_a = fix.token) === null || _a === void 0 ? void 0 : _a.type) === 'variable' ? figma.variables.setBoundVariableForPaint(paint, 'color', fix.token.variable) : paint;
+}
+function describeContrastFix(fix) {
+    var _a, _b;
     return {
-        mode: 'nodes',
-        focusedIds: samePageNodes.map((n) => n.id),
-        pageId: figma.currentPage.id,
+        nodeId: fix.node.id,
+        nodeName: fix.node.name,
+        required: fix.required,
+        ratioBefore: Math.round(fix.ratioBefore * 100) / 100,
+        ratioAfter: Math.round(fix.ratioAfter * 100) / 100,
+        colorBefore: designTokenColor(fix.colorBefore, 1).hex,
+        colorAfter: designTokenColor(fix.colorAfter, 1).hex,
+        token: ((_a = fix.token) === null || _a === void 0 ? void 0 : _a.type) === 'variable'
+            ? { type: 'variable', id: fix.token.variable.id, name: fix.token.variable.name }
+            : ((_b = fix.token) === null || _b === void 0 ? void 0 : _b.type) === 'style'
+                ? { type: 'style', id: fix.token.style.id, name: fix.token.style.name }
+                : null,
     };
 }
-async function moveNodes(nodeIds, deltaX = 0, deltaY = 0) {
-    if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
-        throw new Error('nodeIds is required');
-    }
-    if (!Number.isFinite(deltaX) || !Number.isFinite(deltaY)) {
-        throw new Error('deltaX and deltaY must be numbers');
-    }
-    const moved = [];
-    const skipped = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (!node || !('x' in node) || !('y' in node)) {
-            skipped.push(id);
-            continue;
+// scan: the plan the journal capture already computed for this call, so the page is walked once.
+async function fixContrast(options, scan) {
+    var _a, _b;
+    const plan = scan !== null && scan !== void 0 ? scan : await planContrastFixes(options);
+    for (const fix of plan.fixes) {
+        if (((_a = fix.token) === null || _a === void 0 ? void 0 : _a.type) === 'style') {
+            await fix.node.setFillStyleIdAsync(fix.token.style.id);
+        }
+        else if (((_b = fix.token) === null || _b === void 0 ? void 0 : _b.type) === 'variable') {
+            fix.node.fills = [{ type: 'SOLID', color: fix.colorAfter }];
+            await bindVariableToNode(fix.node.id, fix.token.variable.id, 'FILLS');
+        }
+        else {
+            fix.node.fills = [contrastFixPaint(fix)];
         }
-        const scene = node;
-        scene.x = scene.x + deltaX;
-        scene.y = scene.y + deltaY;
-        moved.push({ id: scene.id, x: scene.x, y: scene.y });
     }
     return {
-        movedCount: moved.length,
-        moved,
-        skippedIds: skipped,
-        deltaX,
-        deltaY,
+        level: plan.level,
+        fixed: plan.fixes.length,
+        fixes: plan.fixes.map(describeContrastFix),
+        skipped: plan.skipped,
+        tokensConsidered: plan.tokensConsidered,
     };
 }
-async function setNodePosition(nodeId, x, y) {
-    if (!nodeId)
-        throw new Error('nodeId is required');
-    if (!Number.isFinite(x) || !Number.isFinite(y)) {
-        throw new Error('x and y must be numbers');
+// dryRun planner: one fills (and fillStyleId) modification per failing text node.
+async function planFixContrast(ctx, args) {
+    var _a;
+    const plan = await planContrastFixes(args);
+    for (const fix of plan.fixes) {
+        ctx.targets.set(fix.node.id, fix.node);
+        const properties = {
+            fills: { before: JSON.parse(JSON.stringify(fix.node.fills)), after: JSON.parse(JSON.stringify([contrastFixPaint(fix)])) },
+        };
+        const styleId = ((_a = fix.token) === null || _a === void 0 ? void 0 : _a.type) === 'style' ? fix.token.style.id : '';
+        if (fix.node.fillStyleId !== styleId)
+            properties.fillStyleId = { before: fix.node.fillStyleId, after: styleId };
+        addPlannedModification(ctx, fix.node, properties);
+    }
+    for (const entry of plan.skipped)
+        ctx.warnings.push(`${entry.nodeName} (${entry.nodeId}): ${entry.reason}`);
+}
+const DESIGN_LINT_DEFAULT_RULES = {
+    'unstyled-fill': { enabled: true, severity: 'warning', allowedColors: [] },
+    'detached-text-style': { enabled: true, severity: 'warning' },
+    'off-grid-spacing': { enabled: true, severity: 'warning', grid: 4, allowedValues: [] },
+    'off-scale-radius': { enabled: true, severity: 'warning', scale: [0, 2, 4, 6, 8, 12, 16, 24, 32] },
+    'hidden-layer': { enabled: true, severity: 'info' },
+    'empty-frame': { enabled: true, severity: 'warning' },
+    'default-name': { enabled: true, severity: 'info' },
+    'instance-overrides': { enabled: true, severity: 'warning', allowedFields: ['characters', 'text', 'visible', 'name', 'componentProperties'] },
+};
+const DESIGN_LINT_DEFAULT_NAME = /^(Frame|Rectangle|Ellipse|Group|Vector|Text|Line|Polygon|Star|Component|Instance|Section|Image|Slice|Union|Subtract|Intersect|Exclude)\s\d+$/;
+const DESIGN_LINT_SPACING_FIELDS = ['itemSpacing', 'counterAxisSpacing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'];
+const DESIGN_LINT_RADIUS_FIELDS = ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'];
+// Destructive autofixes only run for rules the caller names in fixRules.
+const DESIGN_LINT_OPT_IN_ACTIONS = new Set(['delete', 'reset_overrides']);
+// Config rules: false disables, true keeps defaults, an object overrides severity/options (enabled: false also disables).
+function resolveDesignLintRules(config) {
+    var _a;
+    const parsed = typeof config === 'string' ? JSON.parse(config) : (config !== null && config !== void 0 ? config : {});
+    const overrides = (_a = parsed.rules) !== null && _a !== void 0 ? _a : {};
+    const rules = {};
+    for (const id of Object.keys(overrides)) {
+        if (!(id in DESIGN_LINT_DEFAULT_RULES))
+            throw new Error(`Unknown lint rule: ${id}. Supported: ${Object.keys(DESIGN_LINT_DEFAULT_RULES).join(', ')}`);
+    }
+    for (const id of Object.keys(DESIGN_LINT_DEFAULT_RULES)) {
+        const override = overrides[id];
+        const base = DESIGN_LINT_DEFAULT_RULES[id];
+        if (override === false)
+            rules[id] = Object.assign(Object.assign({}, base), { enabled: false });
+        else if (override && typeof override === 'object')
+            rules[id] = Object.assign(Object.assign(Object.assign({}, base), override), { enabled: override.enabled !== false });
+        else
+            rules[id] = Object.assign({}, base);
     }
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node || !('x' in node) || !('y' in node)) {
-        throw new Error('Node not found or node is not positionable');
+    return rules;
+}
+function shouldApplyDesignLintFix(finding, fixRules) {
+    if (!finding.autofix)
+        return false;
+    if (Array.isArray(fixRules))
+        return fixRules.includes(finding.rule);
+    return !DESIGN_LINT_OPT_IN_ACTIONS.has(finding.autofix.action);
+}
+// Hidden layers in components may back a BOOLEAN property or a variant state; they are intentional.
+function isIntentionallyHidden(node) {
+    var _a;
+    if ((_a = node.componentPropertyReferences) === null || _a === void 0 ? void 0 : _a.visible)
+        return true;
+    for (let current = node; current && current.type !== 'PAGE'; current = current.parent) {
+        if (current.type === 'COMPONENT' || current.type === 'COMPONENT_SET')
+            return true;
     }
-    const scene = node;
-    scene.x = x;
-    scene.y = y;
-    return { id: scene.id, x: scene.x, y: scene.y };
+    return false;
 }
-async function arrangeNodes(nodeIds, layout = 'row', columns, spacingX = 120, spacingY = 120, groupBy = 'none', startX, startY, withinContainerId, placementPolicy = 'min_move', avoidOverlaps = true, verifyVisual = false, snapshotMode = 'selection', snapshotScale = 1, focus = true) {
-    var _a, _b;
-    const ids = Array.isArray(nodeIds) && nodeIds.length > 0
-        ? Array.from(new Set(nodeIds))
-        : figma.currentPage.selection.map((n) => n.id);
-    if (ids.length === 0) {
-        throw new Error('No nodeIds provided and current selection is empty');
+function paintHex(paint) {
+    var _a;
+    return designTokenColor(paint.color, (_a = paint.opacity) !== null && _a !== void 0 ? _a : 1).hex.toUpperCase();
+}
+function nearestScaleValue(value, scale) {
+    return scale.reduce((best, step) => (Math.abs(step - value) < Math.abs(best - value) ? step : best), scale[0]);
+}
+async function lintDesignNode(node, rules, styles, report, nameIndex) {
+    if (rules['unstyled-fill'].enabled && 'fills' in node && Array.isArray(node.fills) &&
+        node.fillStyleId === '') {
+        const allowed = new Set(rules['unstyled-fill'].allowedColors.map((color) => color.toUpperCase()));
+        const solids = node.fills
+            .filter((paint) => { var _a; return paint.type === 'SOLID' && paint.visible !== false && !((_a = paint.boundVariables) === null || _a === void 0 ? void 0 : _a.color); });
+        const offending = solids.filter((paint) => !allowed.has(paintHex(paint)));
+        if (offending.length > 0) {
+            const hex = paintHex(offending[0]);
+            const style = offending.length === 1 && solids.length === node.fills.length ? styles.paint.get(hex) : undefined;
+            report('unstyled-fill', node, `Fill ${hex} is not bound to a paint style or variable`, { colors: offending.map(paintHex) }, style ? { action: 'apply_fill_style', styleId: style.id, styleName: style.name } : undefined);
+        }
+    }
+    if (rules['detached-text-style'].enabled && node.type === 'TEXT' && node.textStyleId !== figma.mixed && node.textStyleId === '') {
+        const fontName = node.fontName;
+        const fontSize = node.fontSize;
+        const style = fontName !== figma.mixed && fontSize !== figma.mixed
+            ? styles.text.find((candidate) => candidate.fontName.family === fontName.family &&
+                candidate.fontName.style === fontName.style && candidate.fontSize === fontSize)
+            : undefined;
+        report('detached-text-style', node, 'Text does not use a text style', fontName !== figma.mixed && fontSize !== figma.mixed ? { fontFamily: fontName.family, fontStyle: fontName.style, fontSize } : undefined, style ? { action: 'apply_text_style', styleId: style.id, styleName: style.name } : undefined);
+    }
+    if (rules['off-grid-spacing'].enabled && 'layoutMode' in node && node.layoutMode !== 'NONE') {
+        const grid = Number(rules['off-grid-spacing'].grid) || 4;
+        const allowed = new Set(rules['off-grid-spacing'].allowedValues);
+        const properties = {};
+        const values = {};
+        for (const field of DESIGN_LINT_SPACING_FIELDS) {
+            if (field === 'counterAxisSpacing' && node.layoutWrap !== 'WRAP')
+                continue;
+            const value = node[field];
+            if (typeof value !== 'number' || value % grid === 0 || allowed.has(value))
+                continue;
+            values[field] = value;
+            properties[field] = Math.round(value / grid) * grid;
+        }
+        if (Object.keys(properties).length > 0) {
+            report('off-grid-spacing', node, `Spacing is off the ${grid}px grid: ${Object.entries(values).map(([field, value]) => `${field}=${value}`).join(', ')}`, { grid, values }, { action: 'set_properties', properties });
+        }
     }
-    let nodes = [];
-    const missingDetails = [];
-    for (const id of ids) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (!node) {
-            missingDetails.push({ id, reason: 'not_found' });
-            continue;
+    if (rules['off-scale-radius'].enabled && 'cornerRadius' in node && 'width' in node) {
+        const scale = [...rules['off-scale-radius'].scale].sort((a, b) => a - b);
+        const pill = Math.min(node.width, node.height) / 2;
+        const fields = node.cornerRadius === figma.mixed ? DESIGN_LINT_RADIUS_FIELDS.filter((field) => field in node) : ['cornerRadius'];
+        const properties = {};
+        for (const field of fields) {
+            const value = node[field];
+            if (typeof value !== 'number' || scale.includes(value) || value >= pill - 0.5)
+                continue;
+            properties[field] = nearestScaleValue(value, scale);
         }
-        const nodeType = node.type;
-        const pageId = ((_a = getNodePage(node)) === null || _a === void 0 ? void 0 : _a.id) || null;
-        if (!('x' in node) || !('y' in node)) {
-            missingDetails.push({
-                id,
-                reason: 'not_positionable',
-                nodeType,
-                pageId,
-            });
-            continue;
+        if (Object.keys(properties).length > 0) {
+            const values = {};
+            for (const field of Object.keys(properties))
+                values[field] = node[field];
+            report('off-scale-radius', node, `Corner radius is not on the scale [${scale.join(', ')}]`, { values }, { action: 'set_properties', properties });
         }
-        if (!('width' in node) || !('height' in node)) {
-            missingDetails.push({
-                id,
-                reason: 'missing_bounds',
-                nodeType,
-                pageId,
-            });
-            continue;
+    }
+    if (rules['empty-frame'].enabled && node.type === 'FRAME' && node.children.length === 0) {
+        const painted = [node.fills, node.strokes, node.effects].some((list) => Array.isArray(list) && list.some((item) => item.visible !== false));
+        report('empty-frame', node, painted ? 'Frame has no children (used as a shape?)' : 'Frame is empty', undefined, painted ? undefined : { action: 'delete' });
+    }
+    if (rules['default-name'].enabled && DESIGN_LINT_DEFAULT_NAME.test(node.name)) {
+        const name = node.type === 'TEXT'
+            ? node.characters.replace(/\s+/g, ' ').trim().slice(0, 40)
+            : generateSemanticName(node, nameIndex.value++);
+        report('default-name', node, `Layer has a default name "${node.name}"`, undefined, name ? { action: 'rename', name } : undefined);
+    }
+    if (rules['instance-overrides'].enabled && node.type === 'INSTANCE') {
+        const main = await getInstanceMainComponentSafe(node);
+        if (!main) {
+            report('instance-overrides', node, 'Instance has no main component (deleted or unavailable)', undefined);
+            return;
+        }
+        const allowed = new Set(rules['instance-overrides'].allowedFields);
+        const breaking = node.overrides
+            .map((override) => ({ id: override.id, fields: override.overriddenFields.filter((field) => !allowed.has(field)) }))
+            .filter((override) => override.fields.length > 0);
+        if (breaking.length > 0) {
+            const fields = [...new Set(breaking.reduce((all, override) => all.concat(override.fields), []))];
+            report('instance-overrides', node, `Instance of ${main.name} overrides ${fields.join(', ')}`, { mainComponentId: main.id, overrides: breaking.slice(0, 20) }, { action: 'reset_overrides' });
         }
-        nodes.push(node);
     }
-    if (nodes.length === 0) {
-        throw new Error('No positionable nodes found');
+}
+async function applyDesignLintAutofix(node, autofix) {
+    switch (autofix.action) {
+        case 'apply_fill_style':
+        case 'apply_text_style':
+            await applyStyleToNodes(autofix.styleId, [node.id]);
+            break;
+        case 'set_properties':
+            for (const [field, value] of Object.entries(autofix.properties))
+                node[field] = value;
+            break;
+        case 'rename':
+            node.name = autofix.name;
+            break;
+        case 'delete':
+            node.remove();
+            break;
+        case 'reset_overrides':
+            node.resetOverrides();
+            break;
     }
-    const selectedNodeIds = new Set(nodes.map((n) => n.id));
-    nodes = nodes.filter((node) => {
-        let parent = node.parent;
-        while (parent) {
-            if (selectedNodeIds.has(parent.id)) {
+}
+// Shared by lint_design and its dryRun planner.
+async function runDesignLint(options) {
+    var _a, _b;
+    const rules = resolveDesignLintRules(options.config);
+    const maxFindings = (_a = options.maxFindings) !== null && _a !== void 0 ? _a : 500;
+    const roots = await resolveScopeRoots((_b = options.scope) !== null && _b !== void 0 ? _b : 'page', options.pageIds, options.pageNames);
+    const styles = { paint: new Map(), text: [] };
+    for (const entry of (await getAllStyles('ALL')).styles) {
+        const style = await figma.getStyleByIdAsync(entry.id);
+        if ((style === null || style === void 0 ? void 0 : style.type) === 'PAINT') {
+            const paints = style.paints;
+            if (paints.length === 1 && paints[0].type === 'SOLID')
+                styles.paint.set(paintHex(paints[0]), style);
+        }
+        else if ((style === null || style === void 0 ? void 0 : style.type) === 'TEXT') {
+            styles.text.push(style);
+        }
+    }
+    const findings = [];
+    const nodes = new Map();
+    const nameIndex = { value: 0 };
+    let nodesScanned = 0;
+    let truncated = false;
+    const report = (rule, node, message, details, autofix) => {
+        if (findings.length >= maxFindings) {
+            truncated = true;
+            return;
+        }
+        nodes.set(node.id, node);
+        findings.push(Object.assign(Object.assign({ rule, severity: rules[rule].severity, nodeId: node.id, nodeName: node.name, message }, (details ? { details } : {})), (autofix ? { autofix } : {})));
+    };
+    for (const root of roots) {
+        await traverseNodes(root, async (node) => {
+            nodesScanned++;
+            if (!node.visible) {
+                if (rules['hidden-layer'].enabled && !isIntentionallyHidden(node))
+                    report('hidden-layer', node, 'Layer is hidden', undefined, { action: 'delete' });
                 return false;
             }
-            parent = parent.parent;
+            await lintDesignNode(node, rules, styles, report, nameIndex);
+            // Instance internals belong to the main component; lint that instead.
+            return node.type !== 'INSTANCE';
+        });
+    }
+    return { rules, findings, nodes, nodesScanned, truncated };
+}
+async function lintDesign(options, scan) {
+    var _a;
+    const { rules, findings, nodes, nodesScanned, truncated } = scan !== null && scan !== void 0 ? scan : await runDesignLint(options);
+    let fixed = 0;
+    const fixErrors = [];
+    if (options.fix === true) {
+        for (const finding of findings) {
+            const node = nodes.get(finding.nodeId);
+            if (!shouldApplyDesignLintFix(finding, options.fixRules) || !node || node.removed)
+                continue;
+            try {
+                await applyDesignLintAutofix(node, finding.autofix);
+                fixed++;
+            }
+            catch (error) {
+                fixErrors.push({ nodeId: finding.nodeId, rule: finding.rule, error: error instanceof Error ? error.message : String(error) });
+            }
         }
-        return true;
-    });
-    nodes = collapseFullSelectionGroups(nodes);
-    if (nodes.length === 0) {
-        throw new Error('No top-level nodes found (selection contains only descendants of other selected nodes)');
     }
-    const targetPage = getNodePage(nodes[0]);
-    if (targetPage && figma.currentPage.id !== targetPage.id) {
-        await figma.setCurrentPageAsync(targetPage);
+    const byRule = {};
+    for (const finding of findings)
+        byRule[finding.rule] = ((_a = byRule[finding.rule]) !== null && _a !== void 0 ? _a : 0) + 1;
+    return Object.assign({ rules: Object.keys(rules).filter((id) => rules[id].enabled), nodesScanned, summary: {
+            errors: findings.filter((finding) => finding.severity === 'error').length,
+            warnings: findings.filter((finding) => finding.severity === 'warning').length,
+            info: findings.filter((finding) => finding.severity === 'info').length,
+            autofixable: findings.filter((finding) => finding.autofix).length,
+            byRule,
+        }, findings,
+        truncated }, (options.fix === true ? { fixed, fixErrors } : {}));
+}
+// dryRun planner: without fix the lint is read-only; with fix each autofix becomes a planned modify/delete.
+async function planLintDesign(ctx, args) {
+    if (args.fix !== true) {
+        ctx.warnings.push('lint_design only changes the document with fix: true');
+        return;
     }
-    const samePageNodes = nodes.filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) === figma.currentPage.id; });
-    for (const node of nodes) {
-        const pageId = ((_b = getNodePage(node)) === null || _b === void 0 ? void 0 : _b.id) || null;
-        if (pageId && pageId !== figma.currentPage.id) {
-            missingDetails.push({
-                id: node.id,
-                reason: 'cross_page_filtered',
-                nodeType: node.type,
-                pageId,
-                note: `target_page=${figma.currentPage.id}`,
-            });
+    const { findings, nodes } = await runDesignLint(args);
+    for (const finding of findings) {
+        const node = nodes.get(finding.nodeId);
+        const autofix = finding.autofix;
+        if (!autofix || !shouldApplyDesignLintFix(finding, args.fixRules) || !node)
+            continue;
+        ctx.targets.set(node.id, node);
+        if (autofix.action === 'delete') {
+            addPlannedDeletion(ctx, node);
+        }
+        else if (autofix.action === 'set_properties') {
+            const properties = {};
+            for (const [field, value] of Object.entries(autofix.properties))
+                properties[field] = { before: node[field], after: value };
+            addPlannedModification(ctx, node, properties);
+        }
+        else if (autofix.action === 'rename') {
+            addPlannedModification(ctx, node, { name: { before: node.name, after: autofix.name } });
+        }
+        else if (autofix.action === 'reset_overrides') {
+            addPlannedModification(ctx, node, { overrides: { before: node.overrides, after: [] } });
+        }
+        else {
+            const field = autofix.action === 'apply_fill_style' ? 'fillStyleId' : 'textStyleId';
+            addPlannedModification(ctx, node, { [field]: { before: node[field], after: autofix.styleId } });
         }
     }
-    if (samePageNodes.length === 0) {
-        throw new Error('No nodes are on the current page after page switch');
+}
+async function collectConsistencyNodes(options) {
+    var _a;
+    const roots = [];
+    if (Array.isArray(options.nodeIds) && options.nodeIds.length > 0) {
+        for (const id of options.nodeIds) {
+            const node = await figma.getNodeByIdAsync(id);
+            if (node && node.type !== 'DOCUMENT')
+                roots.push(node);
+        }
     }
-    const needsGrouping = groupBy && groupBy !== 'none';
-    const layoutForSort = layout;
-    let sorted = [...samePageNodes].sort((a, b) => {
-        if (layoutForSort === 'column')
-            return (a.y - b.y) || (a.x - b.x);
-        return (a.x - b.x) || (a.y - b.y);
-    });
-    const container = withinContainerId ? await resolveContainer(withinContainerId) : null;
-    const containerPad = 24;
-    // Optional: ensure nodes are actual children of target container.
-    let containerizedCount = 0;
-    if (container) {
-        const c = await containerizeNodes(sorted.map((n) => n.id), container.id);
-        containerizedCount = c.containerizedCount;
-        for (let i = 0; i < sorted.length; i++) {
-            const n = await figma.getNodeByIdAsync(sorted[i].id);
-            if (n && 'x' in n && 'y' in n && 'width' in n && 'height' in n) {
-                sorted[i] = n;
+    else {
+        roots.push(...await resolveScopeRoots((_a = options.scope) !== null && _a !== void 0 ? _a : 'page', options.pageIds, options.pageNames));
+    }
+    const nodes = [];
+    for (const root of roots) {
+        await traverseNodes(root, async (node) => {
+            nodes.push(node);
+            // Instance sublayers follow their main component.
+            return node.type !== 'INSTANCE';
+        });
+    }
+    return nodes;
+}
+async function planConsistencyFixes(options) {
+    var _a, _b, _c, _d;
+    const checks = Array.isArray(options.checks) && options.checks.length > 0 ? options.checks : ['colors', 'typography', 'spacing'];
+    const maxDeltaE = (_a = options.maxDeltaE) !== null && _a !== void 0 ? _a : 5;
+    const grid = (_b = options.grid) !== null && _b !== void 0 ? _b : 4;
+    const maxFontSizeDelta = (_c = options.maxFontSizeDelta) !== null && _c !== void 0 ? _c : 4;
+    const warnings = [];
+    const changes = [];
+    const paintStyles = [];
+    const variables = [];
+    let fontScale = Array.isArray(options.fontScale) ? options.fontScale.map(Number) : [];
+    for (const entry of (await getAllStyles(checks.includes('typography') && fontScale.length === 0 ? 'ALL' : 'PAINT')).styles) {
+        const style = await figma.getStyleByIdAsync(entry.id);
+        if ((style === null || style === void 0 ? void 0 : style.type) === 'PAINT') {
+            const paints = style.paints;
+            if (paints.length === 1 && paints[0].type === 'SOLID') {
+                paintStyles.push({ style: style, color: paints[0].color, opacity: (_d = paints[0].opacity) !== null && _d !== void 0 ? _d : 1 });
             }
         }
+        else if ((style === null || style === void 0 ? void 0 : style.type) === 'TEXT' && !Array.isArray(options.fontScale)) {
+            fontScale.push(style.fontSize);
+        }
     }
-    const arrangementMeta = await Promise.all(sorted.map(async (node) => {
-        const absoluteRect = sceneNodeToRect(node);
-        const parent = node.parent;
-        const localWidth = Number.isFinite(node.width) ? node.width : absoluteRect.width;
-        const localHeight = Number.isFinite(node.height) ? node.height : absoluteRect.height;
-        const localRect = {
-            x: node.x,
-            y: node.y,
-            width: localWidth,
-            height: localHeight,
-        };
-        const area = Math.max(0, localRect.width) * Math.max(0, localRect.height);
-        const groupByMode = groupBy || 'none';
-        const groupInfo = await resolveArrangeGroup(node, groupByMode);
-        return Object.assign({ node, rect: absoluteRect, localRect,
-            area, parentId: parent ? parent.id : 'page' }, groupInfo);
-    }));
-    const beforeUnion = getUnionBounds(arrangementMeta.map((m) => m.rect));
-    const gridCols = layout === 'grid'
-        ? Math.max(1, Number.isFinite(columns) ? Math.floor(columns) : Math.ceil(Math.sqrt(arrangementMeta.length)))
-        : 1;
-    const compactSpacingX = layout === 'row'
-        ? Math.max(8, needsGrouping ? Math.min(spacingX, 80) : spacingX)
-        : Math.max(8, spacingX);
-    const compactSpacingY = layout === 'row'
-        ? Math.max(8, needsGrouping ? Math.min(spacingY, 60) : spacingY)
-        : Math.max(8, spacingY);
-    const groupGap = Math.max(compactSpacingX * 1.5, 24);
-    const targetIds = new Set(sorted.map((n) => n.id));
-    const ancestorIds = new Set();
-    for (const node of sorted) {
-        let cur = node.parent;
-        while (cur) {
-            ancestorIds.add(cur.id);
-            cur = cur.parent;
-        }
-    }
-    const blockersByParent = new Map();
-    if (avoidOverlaps) {
-        await traverseNodes(figma.currentPage, async (node) => {
-            if (!targetIds.has(node.id) &&
-                !ancestorIds.has(node.id) &&
-                node.type !== 'SECTION' &&
-                'x' in node && 'y' in node && 'width' in node && 'height' in node) {
-                const parent = node.parent;
-                const parentId = parent && parent.type !== 'PAGE' ? parent.id : 'page';
-                const sceneRect = sceneNodeToRect(node);
-                const list = blockersByParent.get(parentId) || [];
-                list.push({
-                    x: node.x,
-                    y: node.y,
-                    width: node.width,
-                    height: node.height,
-                });
-                blockersByParent.set(parentId, list);
-            }
-            return true;
-        });
-    }
-    const arranged = [];
-    const allBlockers = [...blockersByParent.values()].flat();
-    const beforeQuality = evaluateArrangementQuality(arrangementMeta.map((item) => item.rect), allBlockers);
-    const parentGroups = new Map();
-    for (const item of arrangementMeta) {
-        const parentId = item.parentId || 'page';
-        if (!parentGroups.has(parentId))
-            parentGroups.set(parentId, []);
-        parentGroups.get(parentId).push(item);
-    }
-    const parentIds = [...parentGroups.keys()];
-    for (const parentId of parentIds) {
-        const parentItems = parentGroups.get(parentId);
-        if (parentItems.length === 0)
-            continue;
-        const placedRects = [];
-        const localBlockers = blockersByParent.get(parentId) || [];
-        const baseX = container
-            ? Math.max(Number.isFinite(startX) ? startX : containerPad, containerPad)
-            : (Number.isFinite(startX)
-                ? startX
-                : Math.min(...parentItems.map((item) => item.localRect.x)));
-        const baseY = container
-            ? Math.max(Number.isFinite(startY) ? startY : containerPad, containerPad)
-            : (Number.isFinite(startY)
-                ? startY
-                : Math.min(...parentItems.map((item) => item.localRect.y)));
-        const localMaxRight = container
-            ? container.width - containerPad
-            : Number.POSITIVE_INFINITY;
-        const localMaxWidth = Math.max(...parentItems.map((item) => item.localRect.width));
-        const localMaxHeight = Math.max(...parentItems.map((item) => item.localRect.height));
-        if (layout === 'row' && needsGrouping) {
-            const groups = new Map();
-            const groupLabels = new Map();
-            for (const item of parentItems) {
-                if (!groups.has(item.groupKey)) {
-                    groups.set(item.groupKey, []);
-                    groupLabels.set(item.groupKey, item.groupLabel);
-                }
-                groups.get(item.groupKey).push(item);
-            }
-            const rows = Array.from(groups.entries()).map(([key, groupItems]) => {
-                const sortedGroup = [...groupItems].sort((a, b) => (b.area - a.area) || (a.localRect.y - b.localRect.y));
-                const area = sortedGroup.reduce((sum, i) => sum + i.area, 0);
-                return {
-                    key,
-                    label: groupLabels.get(key) || key,
-                    area,
-                    items: sortedGroup,
-                };
-            }).sort((a, b) => (b.area - a.area) || a.label.localeCompare(b.label));
-            let groupCursorY = baseY;
-            for (const row of rows) {
-                let rowCursorX = baseX;
-                let rowCursorY = groupCursorY;
-                let rowMaxHeight = 0;
-                let rowMaxUsedY = baseY;
-                for (const item of row.items) {
-                    if (localMaxRight !== Number.POSITIVE_INFINITY && rowCursorX + item.localRect.width > localMaxRight && rowCursorX > baseX) {
-                        rowCursorX = baseX;
-                        rowCursorY += rowMaxHeight + compactSpacingY;
-                        rowMaxHeight = 0;
+    fontScale = [...new Set(fontScale)].sort((a, b) => a - b);
+    if (checks.includes('colors')) {
+        for (const entry of (await getAllVariables()).variables) {
+            if (entry.type !== 'COLOR')
+                continue;
+            const variable = await figma.variables.getVariableByIdAsync(entry.id);
+            if (variable)
+                variables.push(variable);
+        }
+        if (paintStyles.length === 0 && variables.length === 0)
+            warnings.push('No solid paint styles or color variables to snap colors to');
+    }
+    if (checks.includes('typography') && fontScale.length === 0)
+        warnings.push('No text styles (or fontScale) to snap font sizes to');
+    for (const node of await collectConsistencyNodes(options)) {
+        if (checks.includes('colors') && (paintStyles.length > 0 || variables.length > 0)) {
+            for (const field of ['fills', 'strokes']) {
+                const styleField = field === 'fills' ? 'fillStyleId' : 'strokeStyleId';
+                if (!(field in node) || node[styleField] !== '')
+                    continue;
+                const paints = node[field];
+                if (!Array.isArray(paints))
+                    continue;
+                paints.forEach((paint, index) => {
+                    var _a, _b;
+                    if (paint.type !== 'SOLID' || paint.visible === false || ((_a = paint.boundVariables) === null || _a === void 0 ? void 0 : _a.color))
+                        return;
+                    let best = null;
+                    // A style replaces the whole paint list, so it only fits single-paint nodes with the same opacity.
+                    if (paints.length === 1) {
+                        for (const candidate of paintStyles) {
+                            if (Math.abs(candidate.opacity - ((_b = paint.opacity) !== null && _b !== void 0 ? _b : 1)) > 0.01)
+                                continue;
+                            const deltaE = deltaE2000(paint.color, candidate.color);
+                            if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE))
+                                best = { token: Object.assign({ type: 'style' }, candidate), deltaE };
+                        }
                     }
-                    const localCandidate = {
-                        x: rowCursorX,
-                        y: rowCursorY,
-                        width: item.localRect.width,
-                        height: item.localRect.height,
-                    };
-                    let candidate = localCandidate;
-                    if (avoidOverlaps) {
-                        candidate = resolveCollisionCandidate(candidate, localBlockers, placedRects, 'row', compactSpacingX, compactSpacingY, placementPolicy, container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined, containerPad);
+                    for (const variable of variables) {
+                        const resolved = variable.resolveForConsumer(node).value;
+                        if (!resolved || typeof resolved !== 'object' || !('r' in resolved))
+                            continue;
+                        const deltaE = deltaE2000(paint.color, resolved);
+                        if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE))
+                            best = { token: { type: 'variable', variable }, deltaE };
                     }
-                    item.node.x = candidate.x;
-                    item.node.y = candidate.y;
-                    placedRects.push(candidate);
-                    rowMaxHeight = Math.max(rowMaxHeight, candidate.height);
-                    rowMaxUsedY = Math.max(rowMaxUsedY, candidate.y + candidate.height);
-                    arranged.push({
-                        id: item.node.id,
-                        x: candidate.x,
-                        y: candidate.y,
-                        groupBy: row.key,
-                        groupLabel: row.label,
-                        area: item.area,
+                    if (!best)
+                        return;
+                    const chosen = best;
+                    changes.push({
+                        node, kind: 'color', property: field, paintIndex: index, token: chosen.token,
+                        deltaE: Math.round(chosen.deltaE * 100) / 100,
+                        before: paintHex(paint),
+                        after: chosen.token.type === 'style' ? chosen.token.style.name : chosen.token.variable.name,
                     });
-                    rowCursorX = candidate.x + candidate.width + compactSpacingX;
-                }
-                groupCursorY = Math.max(groupCursorY, rowMaxUsedY) + compactSpacingY;
-                if (rowMaxHeight > 0) {
-                    groupCursorY += Math.max(groupGap - compactSpacingY, compactSpacingY);
-                }
+                });
             }
-            continue;
         }
-        const ordered = [...parentItems].sort((a, b) => {
-            if (layout === 'column')
-                return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
-            if (layout === 'grid')
-                return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
-            return (b.area - a.area) || (a.localRect.x - b.localRect.x) || (a.localRect.y - b.localRect.y);
-        });
-        let rowX = baseX;
-        let colY = baseY;
-        for (let i = 0; i < ordered.length; i++) {
-            const item = ordered[i];
-            const node = item.node;
-            let localCandidate;
-            if (layout === 'row') {
-                localCandidate = { x: rowX, y: baseY, width: item.localRect.width, height: item.localRect.height };
-                rowX += item.localRect.width + compactSpacingX;
-            }
-            else if (layout === 'column') {
-                localCandidate = { x: baseX, y: colY, width: item.localRect.width, height: item.localRect.height };
-                colY += item.localRect.height + compactSpacingY;
-            }
-            else {
-                const col = i % gridCols;
-                const row = Math.floor(i / gridCols);
-                localCandidate = {
-                    x: baseX + col * (localMaxWidth + compactSpacingX),
-                    y: baseY + row * (localMaxHeight + compactSpacingY),
-                    width: item.localRect.width,
-                    height: item.localRect.height,
-                };
+        if (checks.includes('typography') && fontScale.length > 0 && node.type === 'TEXT' &&
+            node.textStyleId === '' && typeof node.fontSize === 'number' && !fontScale.includes(node.fontSize)) {
+            const step = nearestScaleValue(node.fontSize, fontScale);
+            if (Math.abs(step - node.fontSize) <= maxFontSizeDelta) {
+                changes.push({ node, kind: 'fontSize', property: 'fontSize', before: node.fontSize, after: step });
             }
-            let candidate = localCandidate;
-            if (avoidOverlaps) {
-                candidate = resolveCollisionCandidate(candidate, localBlockers, placedRects, layout, compactSpacingX, compactSpacingY, placementPolicy, container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined, containerPad);
+        }
+        if (checks.includes('spacing') && 'layoutMode' in node && node.layoutMode !== 'NONE') {
+            for (const field of DESIGN_LINT_SPACING_FIELDS) {
+                if (field === 'counterAxisSpacing' && node.layoutWrap !== 'WRAP')
+                    continue;
+                const value = node[field];
+                if (typeof value !== 'number' || value % grid === 0)
+                    continue;
+                changes.push({ node, kind: 'spacing', property: field, before: value, after: Math.round(value / grid) * grid });
             }
-            node.x = candidate.x;
-            node.y = candidate.y;
-            placedRects.push(candidate);
-            arranged.push({
-                id: node.id,
-                x: candidate.x,
-                y: candidate.y,
-                groupBy: item.groupKey,
-                groupLabel: item.groupLabel,
-                area: item.area,
-            });
         }
     }
-    if (focus) {
-        figma.viewport.scrollAndZoomIntoView(sorted);
+    return { changes, fontScale, warnings };
+}
+async function applyConsistencyChange(change) {
+    const node = change.node;
+    if (change.kind === 'color') {
+        const token = change.token;
+        if (token.type === 'style') {
+            await node[change.property === 'fills' ? 'setFillStyleIdAsync' : 'setStrokeStyleIdAsync'](token.style.id);
+        }
+        else {
+            const paints = [...node[change.property]];
+            paints[change.paintIndex] = figma.variables.setBoundVariableForPaint(paints[change.paintIndex], 'color', token.variable);
+            node[change.property] = paints;
+        }
     }
-    const afterRects = sorted.map(sceneNodeToRect);
-    const afterUnion = getUnionBounds(afterRects);
-    const afterQuality = evaluateArrangementQuality(afterRects, allBlockers);
-    const parentMismatchCount = container
-        ? sorted.filter((n) => { var _a; return ((_a = n.parent) === null || _a === void 0 ? void 0 : _a.id) !== container.id; }).length
-        : 0;
-    const outsideContainerCount = container
-        ? afterRects.filter((r) => !rectInside(r, container)).length
-        : 0;
-    let visual = undefined;
-    if (verifyVisual) {
-        const captureMode = snapshotMode || 'selection';
-        const beforeShot = captureMode === 'selection'
-            ? await captureView('region', undefined, beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, true, 180)
-            : await captureView(captureMode, sorted.map((n) => n.id), beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, true, 180);
-        const afterShot = captureMode === 'selection'
-            ? await captureView('region', undefined, afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, true, 180)
-            : await captureView(captureMode, sorted.map((n) => n.id), afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, true, 180);
-        visual = { before: beforeShot, after: afterShot };
+    else if (change.kind === 'fontSize') {
+        const text = change.node;
+        const fonts = text.characters.length > 0 ? text.getRangeAllFontNames(0, text.characters.length) : [text.fontName];
+        for (const font of fonts)
+            await figma.loadFontAsync(font);
+        text.fontSize = change.after;
+    }
+    else {
+        node[change.property] = change.after;
+    }
+}
+function describeConsistencyChange(change) {
+    return Object.assign({ nodeId: change.node.id, nodeName: change.node.name, kind: change.kind, property: change.property, before: change.before, after: change.after }, (change.token ? {
+        token: change.token.type === 'style'
+            ? { type: 'style', id: change.token.style.id, name: change.token.style.name }
+            : { type: 'variable', id: change.token.variable.id, name: change.token.variable.name },
+        deltaE: change.deltaE,
+    } : {}));
+}
+async function fixConsistency(options, scan) {
+    const { changes, fontScale, warnings } = scan !== null && scan !== void 0 ? scan : await planConsistencyFixes(options);
+    const errors = [];
+    let applied = 0;
+    for (const change of changes) {
+        try {
+            await applyConsistencyChange(change);
+            applied++;
+        }
+        catch (error) {
+            errors.push({ nodeId: change.node.id, property: change.property, error: error instanceof Error ? error.message : String(error) });
+        }
     }
     return {
-        arrangedCount: arranged.length,
-        layout,
-        columns: layout === 'grid' ? gridCols : undefined,
-        spacingX,
-        spacingY,
-        avoidOverlaps,
-        withinContainerId: container === null || container === void 0 ? void 0 : container.id,
-        placementPolicy,
-        containerizedCount,
-        quality: {
-            before: beforeQuality,
-            after: afterQuality,
-            overlapDelta: beforeQuality.overlapCount - afterQuality.overlapCount,
-            nodeOverlapDelta: beforeQuality.overlapBetweenCandidates - afterQuality.overlapBetweenCandidates,
-            parentMismatchCount,
-            outsideContainerCount,
+        applied,
+        summary: {
+            colors: changes.filter((change) => change.kind === 'color').length,
+            fontSizes: changes.filter((change) => change.kind === 'fontSize').length,
+            spacing: changes.filter((change) => change.kind === 'spacing').length,
         },
-        visual,
-        arranged,
-        missingIds: Array.from(new Set(missingDetails.map((d) => d.id))),
-        missingDetails,
-        pageId: figma.currentPage.id,
+        fontScale,
+        changes: changes.map(describeConsistencyChange),
+        errors,
+        warnings,
     };
 }
-async function resolveContainer(containerId) {
-    const node = await figma.getNodeByIdAsync(containerId);
-    if (!node || !('children' in node) || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
-        throw new Error(`Invalid containerId: ${containerId}`);
+// dryRun planner: changes are grouped per node; color snaps show the paint list with the token bound.
+async function planFixConsistency(ctx, args) {
+    var _a, _b, _c;
+    const { changes, warnings } = await planConsistencyFixes(args);
+    const byNode = new Map();
+    for (const change of changes) {
+        const entry = (_a = byNode.get(change.node.id)) !== null && _a !== void 0 ? _a : { node: change.node, properties: {} };
+        byNode.set(change.node.id, entry);
+        if (change.kind !== 'color') {
+            entry.properties[change.property] = { before: change.before, after: change.after };
+        }
+        else if (change.token.type === 'style') {
+            const styleField = change.property === 'fills' ? 'fillStyleId' : 'strokeStyleId';
+            entry.properties[styleField] = { before: change.node[styleField], after: change.token.style.id };
+        }
+        else {
+            const current = (_c = (_b = entry.properties[change.property]) === null || _b === void 0 ? void 0 : _b.after) !== null && _c !== void 0 ? _c : JSON.parse(JSON.stringify(change.node[change.property]));
+            const after = [...current];
+            after[change.paintIndex] = Object.assign(Object.assign({}, after[change.paintIndex]), { boundVariables: { color: { type: 'VARIABLE_ALIAS', id: change.token.variable.id } } });
+            entry.properties[change.property] = { before: JSON.parse(JSON.stringify(change.node[change.property])), after };
+        }
     }
-    return node;
+    for (const { node, properties } of byNode.values()) {
+        ctx.targets.set(node.id, node);
+        addPlannedModification(ctx, node, properties);
+    }
+    ctx.warnings.push(...warnings);
 }
-async function containerizeNodes(nodeIds, containerId) {
-    var _a;
-    if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
-        throw new Error('nodeIds is required');
+// Each visible solid fill/stroke counts once; instance sublayers are skipped like in fix_consistency.
+async function extractPalette(options) {
+    var _a, _b, _c;
+    const includeStrokes = options.includeStrokes !== false;
+    const samples = [];
+    const nodes = await collectConsistencyNodes(options);
+    for (const node of nodes) {
+        const fields = includeStrokes ? ['fills', 'strokes'] : ['fills'];
+        for (const field of fields) {
+            const paints = node[field];
+            if (!Array.isArray(paints))
+                continue;
+            for (const paint of paints) {
+                if (paint.type === 'SOLID' && paint.visible !== false)
+                    samples.push({ color: paint.color, id: node.id });
+            }
+        }
     }
-    const container = await resolveContainer(containerId);
-    const moved = [];
-    const skipped = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (!node || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
-            skipped.push({ id, reason: 'not_positionable' });
-            continue;
-        }
-        const scene = node;
-        if (scene.id === container.id) {
-            skipped.push({ id, reason: 'self_container' });
-            continue;
+    const round = (value, digits) => Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits);
+    const maxNodeIds = (_a = options.maxNodeIdsPerColor) !== null && _a !== void 0 ? _a : 50;
+    const palette = clusterColors(samples, (_b = options.maxDeltaE) !== null && _b !== void 0 ? _b : 6, (_c = options.maxColors) !== null && _c !== void 0 ? _c : 12).map((entry) => {
+        const oklch = rgbToOklch(entry.color);
+        const hsl = rgbToHsl(entry.color);
+        const nodeIds = Array.from(new Set(entry.ids));
+        return {
+            hex: entry.hex,
+            name: entry.name,
+            family: entry.family,
+            count: entry.weight,
+            share: entry.share,
+            members: entry.members,
+            oklch: { l: round(oklch.l, 3), c: round(oklch.c, 3), h: round(oklch.h, 1) },
+            hsl: { h: round(hsl.h, 1), s: round(hsl.s, 3), l: round(hsl.l, 3) },
+            nodeIds: nodeIds.slice(0, maxNodeIds),
+            truncatedNodeIds: nodeIds.length > maxNodeIds,
+        };
+    });
+    return {
+        scannedNodes: nodes.length,
+        paints: samples.length,
+        distinctColors: new Set(samples.map((sample) => rgbToHex(sample.color))).size,
+        palette,
+    };
+}
+// ===== Utility Implementation =====
+async function getDocumentInfo(includeChildren = true, maxDepth = 10, maxPages = 100, maxNodesPerPage = 1200, maxChildrenPerNode = 200) {
+    if (includeChildren)
+        await ensureAllPagesLoaded();
+    const safeMaxPages = Math.max(1, Math.min(500, Number.isFinite(maxPages) ? Math.floor(maxPages) : 100));
+    const safeMaxNodesPerPage = Math.max(100, Math.min(10000, Number.isFinite(maxNodesPerPage) ? Math.floor(maxNodesPerPage) : 1200));
+    const safeMaxChildrenPerNode = Math.max(20, Math.min(1000, Number.isFinite(maxChildrenPerNode) ? Math.floor(maxChildrenPerNode) : 200));
+    const sourcePages = figma.root.children.slice(0, safeMaxPages);
+    const pages = sourcePages.map(page => {
+        if (!includeChildren) {
+            return { id: page.id, name: page.name, children: undefined };
         }
-        if (((_a = scene.parent) === null || _a === void 0 ? void 0 : _a.id) === container.id) {
-            skipped.push({ id, reason: 'already_child' });
+        const state = { remaining: safeMaxNodesPerPage, truncated: false };
+        const children = getNodeChildren(page, maxDepth, 0, state, safeMaxChildrenPerNode);
+        return {
+            id: page.id,
+            name: page.name,
+            children,
+            childrenTruncated: state.truncated,
+            maxNodesPerPage: safeMaxNodesPerPage,
+            maxChildrenPerNode: safeMaxChildrenPerNode,
+        };
+    });
+    return {
+        id: figma.root.id,
+        name: figma.root.name,
+        type: 'DOCUMENT',
+        currentPage: {
+            id: figma.currentPage.id,
+            name: figma.currentPage.name,
+        },
+        pages,
+        pagesTruncated: figma.root.children.length > sourcePages.length,
+        maxPages: safeMaxPages,
+    };
+}
+async function getPageInfo(pageId, maxDepth = 10, maxNodes = 1200, maxChildrenPerNode = 200) {
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== 'PAGE')
+        throw new Error(`Page not found: ${pageId}`);
+    await page.loadAsync();
+    const safeMaxNodes = Math.max(100, Math.min(10000, Number.isFinite(maxNodes) ? Math.floor(maxNodes) : 1200));
+    const safeMaxChildrenPerNode = Math.max(20, Math.min(1000, Number.isFinite(maxChildrenPerNode) ? Math.floor(maxChildrenPerNode) : 200));
+    const state = { remaining: safeMaxNodes, truncated: false };
+    const children = getNodeChildren(page, maxDepth, 0, state, safeMaxChildrenPerNode);
+    return {
+        id: page.id,
+        name: page.name,
+        type: 'PAGE',
+        isCurrentPage: page.id === figma.currentPage.id,
+        children,
+        childrenTruncated: state.truncated,
+    };
+}
+async function getNodeInfo(nodeId, includeChildren = true) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    return nodeToInfo(node, includeChildren);
+}
+async function getSelection(includeChildren = false) {
+    const selected = figma.currentPage.selection.filter(Boolean);
+    const nodes = selected.map((node) => nodeToInfo(node, includeChildren));
+    return {
+        pageId: figma.currentPage.id,
+        pageName: figma.currentPage.name,
+        selectedCount: nodes.length,
+        nodeIds: nodes.map((n) => n.id),
+        nodes,
+    };
+}
+async function setMultipleTextContents(updates, atomic = false) {
+    const results = [];
+    const errors = [];
+    // Group by font to minimize loadFont calls
+    const fontGroups = new Map();
+    for (let index = 0; index < updates.length; index++) {
+        const update = updates[index];
+        const node = await figma.getNodeByIdAsync(update.nodeId);
+        if (!node || node.type !== 'TEXT') {
+            if (atomic)
+                throw atomicBatchError(index, update.nodeId, 'Not a text node');
+            errors.push({ nodeId: update.nodeId, error: 'Not a text node' });
             continue;
         }
-        const globalRect = sceneNodeToRect(scene);
-        try {
-            container.appendChild(scene);
-            scene.x = globalRect.x - container.x;
-            scene.y = globalRect.y - container.y;
-            moved.push(scene.id);
+        const fontKey = JSON.stringify(node.fontName);
+        if (!fontGroups.has(fontKey)) {
+            fontGroups.set(fontKey, []);
         }
-        catch (e) {
-            skipped.push({ id, reason: `append_failed:${String(e)}` });
+        fontGroups.get(fontKey).push({ node, text: update.text, index });
+    }
+    // Process each font group
+    for (const [fontKey, items] of fontGroups) {
+        const fontName = JSON.parse(fontKey);
+        await figma.loadFontAsync(fontName);
+        for (const item of items) {
+            try {
+                item.node.characters = item.text;
+                results.push({ nodeId: item.node.id, success: true });
+            }
+            catch (error) {
+                if (atomic)
+                    throw atomicBatchError(item.index, item.node.id, error);
+                const msg = error instanceof Error ? error.message : String(error);
+                errors.push({ nodeId: item.node.id, error: msg });
+            }
         }
     }
     return {
-        containerId: container.id,
-        containerizedCount: moved.length,
-        containerizedIds: moved,
-        skipped,
+        updated: results.length,
+        failed: errors.length,
+        errors: errors.slice(0, 10),
     };
 }
-async function validateStructure(nodeIds, containerId) {
-    const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
-    if (ids.length === 0)
-        throw new Error('No nodeIds provided and current selection is empty');
-    const nodes = [];
-    const missing = [];
-    for (const id of ids) {
-        const n = await figma.getNodeByIdAsync(id);
-        if (!n || !('x' in n) || !('y' in n) || !('width' in n) || !('height' in n)) {
-            missing.push(id);
-            continue;
-        }
-        nodes.push(n);
+// ===== Operation Journal =====
+// 每个修改型工具调用都记录一条可逆日志（创建/删除/移动/属性快照），按 operationId 撤销与重做。
+const JOURNAL_MAX_ENTRIES = 50;
+const JOURNAL_MAX_SNAPSHOT_NODES = 2000;
+// Read-only tools, plus apply_plan which journals through its nested tool call.
+const JOURNAL_SKIPPED_TOOLS = new Set([
+    'progress_update', 'progress_complete', 'log', 'get_tools', 'cancel',
+    'smart_select', 'find_similar', 'scan_by_pattern', 'auto_discover_components',
+    'analyze_duplicates', 'suggest_component_structure', 'check_consistency', 'extract_palette', 'audit_accessibility', 'analyze_frame_structure',
+    'get_document_info', 'get_node_info', 'get_selection', 'get_page_info', 'get_all_styles', 'get_all_variables',
+    'export_design_tokens', 'select_nodes', 'set_focus', 'validate_structure', 'capture_view', 'export_node', 'export_nodes_batch', 'read_export_chunk',
+    'generate_code', 'generate_react_component',
+    'undo_operations', 'redo_operations', 'list_operation_journal', 'apply_plan',
+]);
+// Read-only unless called with fix: true.
+const JOURNAL_FIX_ONLY_TOOLS = new Set(['lint_design']);
+// Edits outside the node tree; undo reports them instead of silently skipping.
+const JOURNAL_UNTRACKED_TOOLS = new Map([
+    ['update_paint_style', 'style definitions'],
+    ['update_text_style', 'style definitions'],
+    ['delete_style', 'style definitions'],
+    ['sync_styles_to_library', 'library styles'],
+    ['load_style_from_file', 'library styles'],
+    ['set_variable_value', 'variable values'],
+    ['delete_variable', 'variable definitions'],
+    ['import_design_tokens', 'variables and styles'],
+    ['delete_page', 'page deletion'],
+    ['rename_page', 'page names'],
+    ['reorder_pages', 'page order'],
+    ['create_flow', 'prototype flow starting points'],
+    ['add_component_property', 'component property definitions'],
+    ['remove_component_property', 'component property definitions'],
+    ['set_component_property', 'instance property values'],
+]);
+// Non-node entities created by these tools are found by id prefix in the tool result.
+const JOURNAL_ENTITY_CREATORS = new Map([
+    ['create_color_style', 'style'],
+    ['create_text_style', 'style'],
+    ['create_effect_style', 'style'],
+    ['create_grid_style', 'style'],
+    ['create_variable', 'variable'],
+    ['create_variable_collection', 'variableCollection'],
+]);
+const JOURNAL_TARGET_RESOLVERS = new Map([
+    ['fix_consistency', async (payload) => {
+            const scan = await planConsistencyFixes(payload);
+            return { nodeIds: scan.changes.map((change) => change.node.id), scan };
+        }],
+    ['fix_contrast', async (payload) => {
+            const scan = await planContrastFixes(payload);
+            return { nodeIds: scan.fixes.map((fix) => fix.node.id), scan };
+        }],
+    ['lint_design', async (payload) => {
+            const scan = await runDesignLint(payload);
+            const fixed = scan.findings.filter((finding) => shouldApplyDesignLintFix(finding, payload.fixRules));
+            return { nodeIds: fixed.map((finding) => finding.nodeId), scan };
+        }],
+]);
+const JOURNAL_ENTITY_PREFIXES = {
+    node: '',
+    style: 'S:',
+    variable: 'VariableID:',
+    variableCollection: 'VariableCollectionId:',
+};
+// Payload keys whose ids are snapshotted with their subtree, and keys that only name a destination container.
+const JOURNAL_NODE_KEYS = new Set([
+    'nodeId', 'nodeIds', 'componentId', 'componentIds', 'componentSetId', 'frameId', 'instanceId', 'instanceIds',
+    'sourceNodeId', 'targetNodeIds', 'templateId', 'fromNodeId', 'toNodeId', 'startNodeId', 'endNodeId',
+    'startFrameId', 'destinationId', 'targetId',
+]);
+const JOURNAL_CONTAINER_KEYS = new Set(['parentId', 'containerId', 'withinContainerId', 'pageId', 'targetPageId']);
+// Apply order matters: layout before size, size before position, fonts before characters.
+const JOURNAL_NODE_PROPS = [
+    'name', 'visible', 'locked', 'opacity', 'blendMode', 'isMask',
+    'layoutMode', 'layoutWrap', 'primaryAxisSizingMode', 'counterAxisSizingMode',
+    'primaryAxisAlignItems', 'counterAxisAlignItems', 'itemSpacing', 'counterAxisSpacing',
+    'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'clipsContent',
+    'layoutAlign', 'layoutGrow', 'layoutPositioning',
+    'rotation', 'width', 'height', 'x', 'y',
+    'fills', 'strokes', 'strokeWeight', 'strokeAlign', 'dashPattern',
+    'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+    'effects', 'layoutGrids', 'constraints', 'exportSettings',
+    'fontName', 'fontSize', 'characters', 'textAutoResize', 'textAlignHorizontal', 'textAlignVertical',
+    'letterSpacing', 'lineHeight',
+    'fillStyleId', 'strokeStyleId', 'effectStyleId', 'textStyleId', 'gridStyleId',
+    'vectorPaths', 'reactions',
+];
+const JOURNAL_STYLE_ID_SETTERS = {
+    fillStyleId: 'setFillStyleIdAsync',
+    strokeStyleId: 'setStrokeStyleIdAsync',
+    effectStyleId: 'setEffectStyleIdAsync',
+    textStyleId: 'setTextStyleIdAsync',
+    gridStyleId: 'setGridStyleIdAsync',
+};
+const operationJournal = [];
+function shouldJournalTool(tool) {
+    return !JOURNAL_SKIPPED_TOOLS.has(tool);
+}
+// Like shouldJournalTool, but also skips calls that are read-only because of their arguments.
+function shouldJournalCall(tool, payload) {
+    if (JOURNAL_FIX_ONLY_TOOLS.has(tool) && (!payload || payload.fix !== true))
+        return false;
+    return shouldJournalTool(tool);
+}
+function collectJournalIds(value, roots, containers, depth = 0) {
+    if (!value || typeof value !== 'object' || depth > 6)
+        return;
+    if (Array.isArray(value)) {
+        for (const item of value)
+            collectJournalIds(item, roots, containers, depth + 1);
+        return;
     }
-    const rects = nodes.map((n) => sceneNodeToRect(n));
-    let overlapPairs = 0;
-    for (let i = 0; i < rects.length; i++) {
-        for (let j = i + 1; j < rects.length; j++) {
-            if (rectsOverlap(rects[i], rects[j]))
-                overlapPairs++;
+    for (const key of Object.keys(value)) {
+        const item = value[key];
+        const target = JOURNAL_NODE_KEYS.has(key) ? roots : JOURNAL_CONTAINER_KEYS.has(key) ? containers : null;
+        if (target) {
+            for (const id of Array.isArray(item) ? item : [item]) {
+                if (typeof id === 'string' && id)
+                    target.add(id);
+            }
+        }
+        else if (item && typeof item === 'object') {
+            collectJournalIds(item, roots, containers, depth + 1);
         }
     }
-    const getPageId = (node) => {
-        let cur = node;
-        while (cur) {
-            if (cur.type === 'PAGE')
-                return cur.id;
-            cur = cur.parent;
+}
+function journalChildIndex(node) {
+    const parent = node.parent;
+    return parent ? parent.children.indexOf(node) : -1;
+}
+function captureJournalProps(node) {
+    const props = {};
+    for (const prop of JOURNAL_NODE_PROPS) {
+        if (!(prop in node))
+            continue;
+        try {
+            const value = node[prop];
+            if (value === undefined || value === figma.mixed || typeof value === 'function')
+                continue;
+            props[prop] = JSON.parse(JSON.stringify(value));
         }
-        return null;
+        catch (_a) {
+            // Getter not available for this node type / document mode.
+        }
+    }
+    return props;
+}
+function diffJournalProps(before, after) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].filter(key => key in before && key in after && JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
+function pickJournalProps(props, keys) {
+    const picked = {};
+    for (const key of keys)
+        picked[key] = props[key];
+    return picked;
+}
+async function serializeJournalNode(node, ctx) {
+    var _a;
+    ctx.budget--;
+    const props = captureJournalProps(node);
+    const data = { id: node.id, type: node.type, props };
+    if (node.type === 'INSTANCE') {
+        const main = await getInstanceMainComponentSafe(node);
+        if (main)
+            data.mainComponentId = main.id;
+    }
+    if (node.type === 'BOOLEAN_OPERATION')
+        data.booleanOperation = node.booleanOperation;
+    if (ctx.states && ctx.serialized) {
+        ctx.states.set(node.id, { parentId: node.parent ? node.parent.id : null, index: journalChildIndex(node), props });
+        ctx.serialized.set(node.id, data);
+    }
+    // Instance sublayers are derived from the main component.
+    if ('children' in node && node.type !== 'INSTANCE') {
+        if (node.type === 'PAGE')
+            await node.loadAsync();
+        data.children = [];
+        for (const child of node.children) {
+            if (ctx.budget <= 0) {
+                data.childrenTruncated = true;
+                ctx.truncated = true;
+                (_a = ctx.partial) === null || _a === void 0 ? void 0 : _a.add(node.id);
+                break;
+            }
+            data.children.push(await serializeJournalNode(child, ctx));
+        }
+    }
+    return data;
+}
+async function beginJournalCapture(tool, operationId, payload) {
+    const rootIds = new Set();
+    const containerIds = new Set([figma.root.id, figma.currentPage.id]);
+    collectJournalIds(payload, rootIds, containerIds);
+    const resolveTargets = JOURNAL_TARGET_RESOLVERS.get(tool);
+    const resolved = resolveTargets ? await resolveTargets(payload) : null;
+    if (resolved) {
+        for (const id of resolved.nodeIds)
+            rootIds.add(id);
+    }
+    if (rootIds.size === 0) {
+        for (const node of figma.currentPage.selection)
+            rootIds.add(node.id);
+    }
+    const componentsPage = figma.root.children.find(page => page.name === 'Components');
+    if (componentsPage)
+        containerIds.add(componentsPage.id);
+    const capture = {
+        operationId,
+        tool,
+        roots: [],
+        containers: new Map(),
+        states: new Map(),
+        serialized: new Map(),
+        partial: new Set(),
+        budget: JOURNAL_MAX_SNAPSHOT_NODES,
+        truncated: false,
+        scan: resolved === null || resolved === void 0 ? void 0 : resolved.scan,
     };
-    let container = null;
-    let containerPageId = null;
-    let containerIsPage = false;
-    if (containerId) {
-        const rawContainer = await figma.getNodeByIdAsync(containerId);
-        if (!rawContainer) {
-            throw new Error(`Invalid containerId: ${containerId} (not found)`);
+    for (const id of rootIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!isSceneNode(node))
+            continue;
+        capture.roots.push(node.id);
+        if (node.parent)
+            containerIds.add(node.parent.id);
+        // Roots are always recorded; only their descendants are subject to the budget.
+        if (!capture.states.has(node.id))
+            await serializeJournalNode(node, capture);
+    }
+    for (const id of containerIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || !('children' in node))
+            continue;
+        if (node.type === 'PAGE')
+            await node.loadAsync();
+        capture.containers.set(id, node.children.map(child => child.id));
+    }
+    return capture;
+}
+function collectEntityIds(value, prefix, found, depth = 0) {
+    if (typeof value === 'string') {
+        if (value.startsWith(prefix))
+            found.add(value);
+        return;
+    }
+    if (!value || typeof value !== 'object' || depth > 6)
+        return;
+    for (const item of Array.isArray(value) ? value : Object.values(value)) {
+        collectEntityIds(item, prefix, found, depth + 1);
+    }
+}
+// Diff the post-operation document against the capture; returns null when nothing changed.
+async function commitJournalCapture(capture, result) {
+    const entry = {
+        operationId: capture.operationId,
+        tool: capture.tool,
+        status: 'applied',
+        timestamp: Date.now(),
+        updatedAt: Date.now(),
+        created: [],
+        deleted: [],
+        moved: [],
+        modified: [],
+        remap: {},
+        truncated: capture.truncated,
+        untracked: JOURNAL_UNTRACKED_TOOLS.get(capture.tool),
+    };
+    const rootIds = new Set(capture.roots);
+    const removedIds = new Set();
+    for (const [id, before] of capture.states) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || node.removed) {
+            removedIds.add(id);
+            continue;
         }
-        if (rawContainer.type === 'PAGE') {
-            containerIsPage = true;
-            containerPageId = rawContainer.id;
+        const to = { parentId: node.parent ? node.parent.id : null, index: journalChildIndex(node) };
+        if (to.parentId !== before.parentId || (rootIds.has(id) && to.index !== before.index)) {
+            entry.moved.push({ id, from: { parentId: before.parentId, index: before.index }, to });
         }
-        else {
-            container = await resolveContainer(containerId);
-            containerPageId = getPageId(container);
+        const after = captureJournalProps(node);
+        const changed = diffJournalProps(before.props, after);
+        if (changed.length > 0) {
+            entry.modified.push({ id, before: pickJournalProps(before.props, changed), after: pickJournalProps(after, changed) });
         }
     }
-    const parentMismatch = container
-        ? nodes.filter((n) => { var _a; return ((_a = n.parent) === null || _a === void 0 ? void 0 : _a.id) !== container.id; }).map((n) => n.id)
-        : containerIsPage
-            ? nodes.filter((n) => getPageId(n) !== containerPageId).map((n) => n.id)
-            : [];
-    const outsideContainer = container
-        ? nodes.filter((n) => !rectInside(sceneNodeToRect(n), container)).map((n) => n.id)
-        : [];
-    return {
-        nodeCount: nodes.length,
-        missingIds: missing,
-        overlapPairs,
-        containerId: containerIsPage ? containerId : container === null || container === void 0 ? void 0 : container.id,
-        parentMismatchCount: parentMismatch.length,
-        parentMismatchIds: parentMismatch,
-        outsideContainerCount: outsideContainer.length,
-        outsideContainerIds: outsideContainer,
-        recommendations: [
-            ...(parentMismatch.length ? ['Use containerize_nodes to reparent nodes into container'] : []),
-            ...(outsideContainer.length ? ['Use arrange_nodes with withinContainerId to pull nodes inside container'] : []),
-            ...(overlapPairs ? ['Use arrange_nodes with avoidOverlaps=true'] : []),
-        ],
+    // Only the top-most removed node is recorded; its serialization restores the subtree.
+    for (const id of removedIds) {
+        const before = capture.states.get(id);
+        if (before.parentId && removedIds.has(before.parentId))
+            continue;
+        entry.deleted.push({ id, parentId: before.parentId, index: before.index, data: capture.serialized.get(id) });
+    }
+    entry.deleted.sort((a, b) => a.index - b.index);
+    const createdIds = new Set();
+    const recordCreated = (node) => {
+        if (capture.states.has(node.id) || createdIds.has(node.id))
+            return;
+        createdIds.add(node.id);
+        entry.created.push({ id: node.id, kind: 'node', parentId: node.parent ? node.parent.id : null, index: journalChildIndex(node) });
     };
-}
-async function captureView(mode = 'selection', nodeIds, x, y, width, height, scale = 1, includeBase64 = true, maxBase64Length = 400) {
-    const requestedBounds = await resolveCaptureBounds(mode, nodeIds, x, y, width, height);
-    const { bounds, clipped } = clampCaptureBounds(requestedBounds);
-    if (bounds.width <= 0 || bounds.height <= 0) {
-        throw new Error('Capture bounds are empty');
+    for (const [id, childIds] of capture.containers) {
+        const container = await figma.getNodeByIdAsync(id);
+        if (!container || !('children' in container))
+            continue;
+        const previous = new Set(childIds);
+        for (const child of container.children) {
+            if (!previous.has(child.id))
+                recordCreated(child);
+        }
     }
-    const slice = figma.createSlice();
-    slice.name = `MCP Capture ${mode}`;
-    slice.x = bounds.x;
-    slice.y = bounds.y;
-    slice.resize(bounds.width, bounds.height);
-    figma.currentPage.appendChild(slice);
-    try {
-        const bytes = await slice.exportAsync({
-            format: 'PNG',
-            constraint: { type: 'SCALE', value: Number.isFinite(scale) && scale > 0 ? scale : 1 },
-        });
-        const base64 = figma.base64Encode(bytes);
-        return {
-            mode,
-            clipped,
-            requestedBounds,
-            bounds,
-            bytesLength: bytes.length,
-            imageHash: figma.createImage(bytes).hash,
-            base64: includeBase64 ? `${base64.slice(0, Math.max(40, maxBase64Length))}...` : undefined,
-        };
+    for (const id of capture.states.keys()) {
+        if (removedIds.has(id) || capture.partial.has(id))
+            continue;
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || !('children' in node) || node.type === 'INSTANCE')
+            continue;
+        for (const child of node.children)
+            recordCreated(child);
+    }
+    const entityKind = JOURNAL_ENTITY_CREATORS.get(capture.tool);
+    if (entityKind && result) {
+        const found = new Set();
+        collectEntityIds(result, JOURNAL_ENTITY_PREFIXES[entityKind], found);
+        for (const id of found)
+            entry.created.push({ id, kind: entityKind, parentId: null, index: -1 });
+    }
+    const changed = entry.created.length + entry.deleted.length + entry.moved.length + entry.modified.length;
+    if (changed === 0 && !entry.untracked)
+        return null;
+    const existing = operationJournal.findIndex(item => item.operationId === entry.operationId);
+    if (existing !== -1)
+        operationJournal.splice(existing, 1);
+    operationJournal.push(entry);
+    if (operationJournal.length > JOURNAL_MAX_ENTRIES)
+        operationJournal.shift();
+    return entry;
+}
+function resolveJournalId(entry, id) {
+    let current = id;
+    for (let hops = 0; hops < 50 && entry.remap[current]; hops++)
+        current = entry.remap[current];
+    return current;
+}
+async function resolveJournalNode(entry, id) {
+    if (!id)
+        return null;
+    const node = await figma.getNodeByIdAsync(resolveJournalId(entry, id));
+    return node && !node.removed ? node : null;
+}
+async function loadJournalFonts(node, target) {
+    const fonts = [];
+    if (node.characters.length > 0) {
+        fonts.push(...node.getRangeAllFontNames(0, node.characters.length));
     }
-    finally {
-        slice.remove();
+    else if (node.fontName !== figma.mixed) {
+        fonts.push(node.fontName);
     }
+    if (target)
+        fonts.push(target);
+    for (const font of fonts)
+        await figma.loadFontAsync(font);
 }
-function clampCaptureBounds(bounds, maxWidth = 4096, maxHeight = 4096) {
-    let { x, y, width, height } = bounds;
-    let clipped = false;
-    if (width > maxWidth) {
-        x = x + (width - maxWidth) / 2;
-        width = maxWidth;
-        clipped = true;
-    }
-    if (height > maxHeight) {
-        y = y + (height - maxHeight) / 2;
-        height = maxHeight;
-        clipped = true;
-    }
-    return { bounds: { x, y, width, height }, clipped };
-}
-async function resolveCaptureBounds(mode, nodeIds, x, y, width, height) {
-    if (mode === 'region') {
-        if (![x, y, width, height].every((v) => Number.isFinite(v))) {
-            throw new Error('mode=region requires x, y, width, height');
+// Returns the props that could not be applied.
+async function applyJournalProps(node, props) {
+    var _a, _b;
+    const failed = [];
+    const current = captureJournalProps(node);
+    const pending = JOURNAL_NODE_PROPS.filter(prop => prop in props && JSON.stringify(current[prop]) !== JSON.stringify(props[prop]));
+    const isGroupLike = node.type === 'GROUP' || node.type === 'BOOLEAN_OPERATION';
+    if (node.type === 'TEXT' && pending.some(prop => prop === 'fontName' || prop === 'fontSize' || prop === 'characters')) {
+        try {
+            await loadJournalFonts(node, props.fontName);
+        }
+        catch (_c) {
+            failed.push(...pending.filter(prop => prop === 'fontName' || prop === 'fontSize' || prop === 'characters'));
         }
-        return { x: x, y: y, width: width, height: height };
     }
-    if (mode === 'selection') {
-        const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
-        if (ids.length === 0)
-            throw new Error('mode=selection requires nodeIds or current selection');
-        const nodes = [];
-        for (const id of ids) {
-            const node = await figma.getNodeByIdAsync(id);
-            if (node && 'x' in node && 'y' in node && 'width' in node && 'height' in node) {
-                nodes.push(node);
+    for (const prop of pending) {
+        if (failed.includes(prop))
+            continue;
+        try {
+            if (prop === 'width' || prop === 'height') {
+                // Group bounds follow their children.
+                if (isGroupLike || prop === 'height' && pending.includes('width'))
+                    continue;
+                const width = (_a = props.width) !== null && _a !== void 0 ? _a : node.width;
+                const height = (_b = props.height) !== null && _b !== void 0 ? _b : node.height;
+                node.resize(Math.max(width, 0.01), node.type === 'LINE' ? height : Math.max(height, 0.01));
+            }
+            else if (JOURNAL_STYLE_ID_SETTERS[prop]) {
+                await node[JOURNAL_STYLE_ID_SETTERS[prop]](props[prop]);
+            }
+            else if (prop === 'reactions') {
+                await node.setReactionsAsync(props[prop]);
+            }
+            else {
+                node[prop] = props[prop];
             }
         }
-        if (nodes.length === 0)
-            throw new Error('No captureable nodes for selection mode');
-        return getUnionBounds(nodes.map(sceneNodeToRect));
-    }
-    // mode === 'page'
-    const pageRects = [];
-    for (const child of figma.currentPage.children) {
-        if ('x' in child && 'y' in child && 'width' in child && 'height' in child) {
-            pageRects.push(sceneNodeToRect(child));
+        catch (_d) {
+            failed.push(prop);
         }
     }
-    if (pageRects.length === 0) {
-        const center = figma.viewport.center;
-        return {
-            x: center.x - 500,
-            y: center.y - 500,
-            width: 1000,
-            height: 1000,
-        };
-    }
-    return getUnionBounds(pageRects);
+    return failed;
 }
-// ===== Helper Functions =====
-function sceneNodeToRect(node) {
-    const r = node.absoluteRenderBounds;
-    if (r && Number.isFinite(r.width) && Number.isFinite(r.height) && r.width > 0 && r.height > 0) {
-        return { x: r.x, y: r.y, width: r.width, height: r.height };
+function createJournalNode(type) {
+    switch (type) {
+        case 'PAGE': return figma.createPage();
+        case 'FRAME': return figma.createFrame();
+        case 'COMPONENT': return figma.createComponent();
+        case 'RECTANGLE': return figma.createRectangle();
+        case 'ELLIPSE': return figma.createEllipse();
+        case 'LINE': return figma.createLine();
+        case 'POLYGON': return figma.createPolygon();
+        case 'STAR': return figma.createStar();
+        case 'VECTOR': return figma.createVector();
+        case 'TEXT': return figma.createText();
+        case 'SECTION': return figma.createSection();
+        default: return null;
     }
-    return { x: node.x, y: node.y, width: node.width, height: node.height };
 }
-function getUnionBounds(rects) {
-    if (rects.length === 0)
-        return { x: 0, y: 0, width: 0, height: 0 };
-    const minX = Math.min(...rects.map((r) => r.x));
-    const minY = Math.min(...rects.map((r) => r.y));
-    const maxX = Math.max(...rects.map((r) => r.x + r.width));
-    const maxY = Math.max(...rects.map((r) => r.y + r.height));
-    return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+function isGroupLikeType(type) {
+    return type === 'GROUP' || type === 'BOOLEAN_OPERATION' || type === 'COMPONENT_SET';
 }
-function countOverlaps(candidates, blockers) {
-    let count = 0;
-    for (const c of candidates) {
-        if (isDegenerateRect(c))
-            continue;
-        for (const b of blockers) {
-            if (isDegenerateRect(b))
+// Rebuild a serialized node under parent; children that are still alive elsewhere are moved back by the move records instead.
+async function recreateJournalNode(entry, data, parent, index, failed, adopt = []) {
+    const recreateChildren = async (target, offset) => {
+        var _a;
+        const children = [];
+        for (const child of (_a = data.children) !== null && _a !== void 0 ? _a : []) {
+            if (await resolveJournalNode(entry, child.id))
                 continue;
-            if (rectsOverlap(c, b)) {
-                count += 1;
+            const created = await recreateJournalNode(entry, child, target, offset + children.length, failed);
+            if (isSceneNode(created))
+                children.push(created);
+        }
+        return children;
+    };
+    let node = null;
+    if (isGroupLikeType(data.type)) {
+        const children = [...adopt, ...await recreateChildren(parent, parent.children.length)];
+        if (children.length > 0) {
+            const at = Math.min(index, parent.children.length);
+            if (data.type === 'GROUP') {
+                node = figma.group(children, parent, at);
+            }
+            else if (data.type === 'COMPONENT_SET') {
+                node = figma.combineAsVariants(children.filter(child => child.type === 'COMPONENT'), parent, at);
+            }
+            else {
+                switch (data.booleanOperation) {
+                    case 'SUBTRACT':
+                        node = figma.subtract(children, parent, at);
+                        break;
+                    case 'INTERSECT':
+                        node = figma.intersect(children, parent, at);
+                        break;
+                    case 'EXCLUDE':
+                        node = figma.exclude(children, parent, at);
+                        break;
+                    default: node = figma.union(children, parent, at);
+                }
             }
         }
     }
-    return count;
+    else if (data.type === 'INSTANCE') {
+        const main = data.mainComponentId ? await figma.getNodeByIdAsync(data.mainComponentId) : null;
+        if (main && main.type === 'COMPONENT')
+            node = main.createInstance();
+    }
+    else {
+        node = createJournalNode(data.type);
+    }
+    if (!node) {
+        failed.push({ id: data.id, action: 'recreate', reason: `Cannot recreate ${data.type} node` });
+        return null;
+    }
+    entry.remap[resolveJournalId(entry, data.id)] = node.id;
+    if (node.type === 'PAGE') {
+        figma.root.insertChild(Math.min(index, figma.root.children.length - 1), node);
+    }
+    else if (!isGroupLikeType(data.type)) {
+        parent.insertChild(Math.min(index, parent.children.length), node);
+    }
+    if ('children' in node && !isGroupLikeType(data.type) && node.type !== 'INSTANCE') {
+        await recreateChildren(node, 0);
+    }
+    const propFailures = await applyJournalProps(node, data.props);
+    if (propFailures.length > 0) {
+        failed.push({ id: data.id, action: 'recreate', reason: `Properties not restored: ${propFailures.join(', ')}` });
+    }
+    if (data.childrenTruncated) {
+        failed.push({ id: data.id, action: 'recreate', reason: 'Snapshot was truncated; some descendants were not restored' });
+    }
+    return node;
 }
-function rectInside(rect, container, padding = 0) {
-    return (rect.x >= container.x + padding &&
-        rect.y >= container.y + padding &&
-        rect.x + rect.width <= container.x + container.width - padding &&
-        rect.y + rect.height <= container.y + container.height - padding);
+async function removeJournalEntity(kind, id) {
+    if (kind === 'style') {
+        const style = await figma.getStyleByIdAsync(id);
+        if (style)
+            style.remove();
+        return !!style;
+    }
+    if (kind === 'variable') {
+        const variable = await figma.variables.getVariableByIdAsync(id);
+        if (variable)
+            variable.remove();
+        return !!variable;
+    }
+    const collection = await figma.variables.getVariableCollectionByIdAsync(id);
+    if (collection)
+        collection.remove();
+    return !!collection;
+}
+function isJournalAncestor(ancestor, node) {
+    for (let current = node.parent; current; current = current.parent) {
+        if (current.id === ancestor.id)
+            return true;
+    }
+    return false;
 }
-function clampRectIntoContainer(rect, container, padding = 0) {
-    const minX = container.x + padding;
-    const minY = container.y + padding;
-    const maxX = container.x + container.width - padding - rect.width;
-    const maxY = container.y + container.height - padding - rect.height;
-    return Object.assign(Object.assign({}, rect), { x: Math.max(minX, Math.min(maxX, rect.x)), y: Math.max(minY, Math.min(maxY, rect.y)) });
+async function moveJournalNode(entry, item, direction, force, failed) {
+    const source = direction === 'undo' ? item.to : item.from;
+    const target = direction === 'undo' ? item.from : item.to;
+    const node = await resolveJournalNode(entry, item.id);
+    if (!isSceneNode(node)) {
+        failed.push({ id: item.id, action: 'move', reason: 'Node no longer exists' });
+        return false;
+    }
+    const currentParentId = node.parent ? node.parent.id : null;
+    if (!force && currentParentId !== (source.parentId && resolveJournalId(entry, source.parentId))) {
+        failed.push({ id: item.id, action: 'move', reason: 'Node was moved again after this operation' });
+        return false;
+    }
+    const parent = await resolveJournalNode(entry, target.parentId);
+    if (!parent || !('children' in parent)) {
+        failed.push({ id: item.id, action: 'move', reason: 'Original parent no longer exists' });
+        return false;
+    }
+    const container = parent;
+    container.insertChild(Math.min(Math.max(target.index, 0), container.children.length), node);
+    return true;
 }
-function evaluateArrangementQuality(candidates, blockers) {
-    const overlapCount = countOverlaps(candidates, blockers);
-    const overlapBetweenCandidates = countCandidateOverlaps(candidates);
-    let minGap = Number.POSITIVE_INFINITY;
-    for (let i = 0; i < candidates.length; i++) {
-        for (let j = i + 1; j < candidates.length; j++) {
-            const a = candidates[i];
-            const b = candidates[j];
-            const gapX = Math.max(0, Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width));
-            const gapY = Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height));
-            minGap = Math.min(minGap, Math.max(gapX, gapY));
+async function restoreJournalProps(entry, item, direction, force, failed) {
+    const expected = direction === 'undo' ? item.after : item.before;
+    const target = direction === 'undo' ? item.before : item.after;
+    const node = await resolveJournalNode(entry, item.id);
+    if (!node) {
+        failed.push({ id: item.id, action: 'properties', reason: 'Node no longer exists' });
+        return false;
+    }
+    if (!force) {
+        const conflicts = diffJournalProps(pickJournalProps(captureJournalProps(node), Object.keys(expected)), expected);
+        if (conflicts.length > 0) {
+            failed.push({ id: item.id, action: 'properties', reason: `Changed after this operation: ${conflicts.join(', ')}` });
+            return false;
         }
     }
-    if (!Number.isFinite(minGap))
-        minGap = 0;
-    return { overlapCount, overlapBetweenCandidates, minGap };
+    const propFailures = await applyJournalProps(node, target);
+    if (propFailures.length > 0) {
+        failed.push({ id: item.id, action: 'properties', reason: `Could not set: ${propFailures.join(', ')}` });
+    }
+    return propFailures.length < Object.keys(target).length;
 }
-function countCandidateOverlaps(candidates) {
-    let count = 0;
-    for (let i = 0; i < candidates.length; i++) {
-        if (isDegenerateRect(candidates[i]))
+async function undoJournalEntry(entry, force) {
+    const failed = [];
+    const reverted = { created: 0, deleted: 0, moved: 0, modified: 0 };
+    for (const item of entry.deleted) {
+        const parent = await resolveJournalNode(entry, item.parentId);
+        if (!parent || !('children' in parent)) {
+            failed.push({ id: item.id, action: 'restore', reason: 'Original parent no longer exists' });
             continue;
-        for (let j = i + 1; j < candidates.length; j++) {
-            if (isDegenerateRect(candidates[j]))
+        }
+        const node = await recreateJournalNode(entry, item.data, parent, item.index, failed);
+        if (node)
+            reverted.deleted++;
+    }
+    for (const item of [...entry.moved].reverse()) {
+        if (await moveJournalNode(entry, item, 'undo', force, failed))
+            reverted.moved++;
+    }
+    for (const item of [...entry.modified].reverse()) {
+        if (await restoreJournalProps(entry, item, 'undo', force, failed))
+            reverted.modified++;
+    }
+    const movedNodes = [];
+    for (const item of entry.moved) {
+        const node = await resolveJournalNode(entry, item.id);
+        if (node)
+            movedNodes.push(node);
+    }
+    for (const item of [...entry.created].reverse()) {
+        if (item.kind !== 'node') {
+            if (await removeJournalEntity(item.kind, item.id))
+                reverted.created++;
+            continue;
+        }
+        const node = await resolveJournalNode(entry, item.id);
+        if (!node)
+            continue;
+        if (movedNodes.some(moved => isJournalAncestor(node, moved))) {
+            failed.push({ id: item.id, action: 'remove', reason: 'Contains layers that could not be moved back' });
+            continue;
+        }
+        item.parentId = node.parent ? node.parent.id : null;
+        item.index = journalChildIndex(node);
+        item.data = await serializeJournalNode(node, { budget: JOURNAL_MAX_SNAPSHOT_NODES, truncated: false });
+        if (node.type === 'PAGE') {
+            const fallback = figma.root.children.find(page => page.id !== node.id);
+            if (!fallback) {
+                failed.push({ id: item.id, action: 'remove', reason: 'Cannot remove the only page' });
                 continue;
-            if (rectsOverlap(candidates[i], candidates[j])) {
-                count += 1;
             }
+            if (figma.currentPage.id === node.id)
+                await figma.setCurrentPageAsync(fallback);
         }
+        node.remove();
+        reverted.created++;
     }
-    return count;
+    if (entry.untracked) {
+        failed.push({ id: entry.operationId, action: 'untracked', reason: `${entry.tool} changes ${entry.untracked}, which the journal does not capture` });
+    }
+    entry.status = 'undone';
+    entry.updatedAt = Date.now();
+    return { operationId: entry.operationId, tool: entry.tool, reverted, failed };
 }
-function rectsOverlap(a, b) {
-    if (isDegenerateRect(a) || isDegenerateRect(b))
-        return false;
-    return !(a.x + a.width <= b.x ||
-        b.x + b.width <= a.x ||
-        a.y + a.height <= b.y ||
-        b.y + b.height <= a.y);
+async function redoJournalEntry(entry, force) {
+    const failed = [];
+    const reapplied = { created: 0, deleted: 0, moved: 0, modified: 0 };
+    for (const item of [...entry.deleted].reverse()) {
+        const node = await resolveJournalNode(entry, item.id);
+        if (!node)
+            continue;
+        item.data = await serializeJournalNode(node, { budget: JOURNAL_MAX_SNAPSHOT_NODES, truncated: false });
+        node.remove();
+        reapplied.deleted++;
+    }
+    for (const item of entry.created) {
+        if (item.kind !== 'node') {
+            failed.push({ id: item.id, action: 'recreate', reason: `Removed ${item.kind} cannot be recreated` });
+            continue;
+        }
+        if (await resolveJournalNode(entry, item.id))
+            continue;
+        const parent = item.data && item.data.type === 'PAGE' ? figma.root : await resolveJournalNode(entry, item.parentId);
+        if (!item.data || !parent || !('children' in parent)) {
+            failed.push({ id: item.id, action: 'recreate', reason: 'Original parent no longer exists' });
+            continue;
+        }
+        // Groups created around existing layers are rebuilt from the layers the operation moved into them.
+        const adopt = [];
+        if (isGroupLikeType(item.data.type)) {
+            for (const moved of entry.moved) {
+                if (moved.to.parentId !== item.id)
+                    continue;
+                const node = await resolveJournalNode(entry, moved.id);
+                if (isSceneNode(node))
+                    adopt.push(node);
+            }
+        }
+        const node = await recreateJournalNode(entry, item.data, parent, item.index, failed, adopt);
+        if (node)
+            reapplied.created++;
+    }
+    for (const item of entry.moved) {
+        if (await moveJournalNode(entry, item, 'redo', force, failed))
+            reapplied.moved++;
+    }
+    for (const item of entry.modified) {
+        if (await restoreJournalProps(entry, item, 'redo', force, failed))
+            reapplied.modified++;
+    }
+    if (entry.untracked) {
+        failed.push({ id: entry.operationId, action: 'untracked', reason: `${entry.tool} changes ${entry.untracked}, which the journal does not capture` });
+    }
+    entry.status = 'applied';
+    entry.updatedAt = Date.now();
+    return { operationId: entry.operationId, tool: entry.tool, reapplied, failed };
 }
-function isDegenerateRect(rect, eps = 0.5) {
-    return (!Number.isFinite(rect.width) ||
-        !Number.isFinite(rect.height) ||
-        rect.width <= eps ||
-        rect.height <= eps);
+function clampJournalSteps(steps) {
+    return Math.max(1, Math.min(20, Math.floor(Number.isFinite(steps) ? steps : 1)));
 }
-function resolveCollisionCandidate(rect, blockers, placed, layout, spacingX, spacingY, policy = 'preserve_lane', container, containerPadding = 0) {
-    const normalizedSpacingX = Number.isFinite(spacingX) ? Math.max(0, spacingX) : 0;
-    const normalizedSpacingY = Number.isFinite(spacingY) ? Math.max(0, spacingY) : 0;
-    const collisionPad = Math.max(normalizedSpacingX, normalizedSpacingY);
-    const stepX = policy === 'min_move'
-        ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingX) / 3)))
-        : Math.max(16, Math.round(Math.max(20, normalizedSpacingX) / 2));
-    const stepY = policy === 'min_move'
-        ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingY) / 3)))
-        : Math.max(16, Math.round(Math.max(20, normalizedSpacingY) / 2));
-    const maxTries = policy === 'strict_no_overlap' ? 3600 : 500;
-    const maxCrossShift = policy === 'strict_no_overlap'
-        ? Number.POSITIVE_INFINITY
-        : (policy === 'min_move' ? Math.max(stepY * 2, 80) : stepY * 2);
-    const maxPrimaryShift = policy === 'strict_no_overlap'
-        ? Number.POSITIVE_INFINITY
-        : (policy === 'min_move' ? Math.max(stepX * 10, 480) : Math.max(stepX * 18, 900));
-    const candidateSet = new Set();
-    const obstacleRects = [...blockers, ...placed];
-    const clampInContainer = (r) => {
-        if (!container)
-            return r;
-        return clampRectIntoContainer(r, container, containerPadding);
-    };
-    const inflate = (r, pad) => {
-        if (!pad)
-            return r;
-        return {
-            x: r.x - pad,
-            y: r.y - pad,
-            width: r.width + pad * 2,
-            height: r.height + pad * 2,
-        };
+function findJournalEntry(operationId) {
+    const entry = operationJournal.find(item => item.operationId === operationId);
+    if (!entry)
+        throw new Error(`No journal entry for operation ${operationId}`);
+    return entry;
+}
+async function undoOperations(operationId, steps = 1, force = false) {
+    let entries;
+    if (operationId) {
+        const entry = findJournalEntry(operationId);
+        if (entry.status === 'undone')
+            throw new Error(`Operation ${operationId} is already undone`);
+        entries = [entry];
+    }
+    else {
+        entries = operationJournal.filter(item => item.status === 'applied').slice(-clampJournalSteps(steps)).reverse();
+    }
+    const operations = [];
+    for (const entry of entries)
+        operations.push(await undoJournalEntry(entry, force));
+    return {
+        undone: operations.length,
+        operations,
+        failed: operations.reduce((sum, op) => sum + op.failed.length, 0),
     };
-    const normalize = (r) => {
-        const normalized = clampInContainer(r);
-        return isDegenerateRect(normalized) ? null : normalized;
+}
+async function redoOperations(operationId, steps = 1, force = false) {
+    let entries;
+    if (operationId) {
+        const entry = findJournalEntry(operationId);
+        if (entry.status === 'applied')
+            throw new Error(`Operation ${operationId} is not undone`);
+        entries = [entry];
+    }
+    else {
+        entries = operationJournal
+            .filter(item => item.status === 'undone')
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .slice(0, clampJournalSteps(steps));
+    }
+    const operations = [];
+    for (const entry of entries)
+        operations.push(await redoJournalEntry(entry, force));
+    return {
+        redone: operations.length,
+        operations,
+        failed: operations.reduce((sum, op) => sum + op.failed.length, 0),
     };
-    const collides = (r) => {
-        const normalized = normalize(r);
-        if (!normalized)
-            return false;
-        const expandedCandidate = inflate(normalized, collisionPad);
-        for (const b of blockers) {
-            if (isDegenerateRect(b))
-                continue;
-            if (rectsOverlap(expandedCandidate, inflate(b, collisionPad)))
-                return true;
-        }
-        for (const p of placed) {
-            if (isDegenerateRect(p))
-                continue;
-            if (rectsOverlap(expandedCandidate, inflate(p, collisionPad)))
-                return true;
+}
+function listOperationJournal(limit = 20, includeDetails = false) {
+    const count = Math.max(1, Math.min(JOURNAL_MAX_ENTRIES, Math.floor(Number.isFinite(limit) ? limit : 20)));
+    const entries = operationJournal.slice(-count).reverse().map(entry => {
+        const summary = {
+            operationId: entry.operationId,
+            tool: entry.tool,
+            status: entry.status,
+            timestamp: entry.timestamp,
+            created: entry.created.length,
+            deleted: entry.deleted.length,
+            moved: entry.moved.length,
+            modified: entry.modified.length,
+            truncated: entry.truncated,
+        };
+        if (entry.untracked)
+            summary.untracked = entry.untracked;
+        if (includeDetails) {
+            summary.details = {
+                created: entry.created.map(item => ({ id: resolveJournalId(entry, item.id), kind: item.kind })),
+                deleted: entry.deleted.map(item => ({ id: resolveJournalId(entry, item.id), type: item.data.type, name: item.data.props.name })),
+                moved: entry.moved.map(item => ({ id: resolveJournalId(entry, item.id), from: item.from.parentId, to: item.to.parentId })),
+                modified: entry.modified.map(item => ({ id: resolveJournalId(entry, item.id), properties: Object.keys(item.after) })),
+            };
         }
-        return false;
+        return summary;
+    });
+    return { total: operationJournal.length, entries };
+}
+// atomic: true 时第一个失败即中止，并用本次调用的日志回滚全部已执行的修改。
+const ATOMIC_BATCH_TOOLS = new Set([
+    'batch_create', 'batch_modify', 'batch_rename', 'set_multiple_text_contents', 'batch_edit_across_pages',
+]);
+function atomicBatchError(index, target, cause) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    const error = new Error(`Operation ${index} (${target}) failed: ${message}`);
+    error.atomicFailure = { index, target, error: message };
+    return error;
+}
+async function rollbackAtomicBatch(capture, error) {
+    var _a;
+    const failure = (_a = error === null || error === void 0 ? void 0 : error.atomicFailure) !== null && _a !== void 0 ? _a : {
+        index: -1,
+        target: capture.tool,
+        error: error instanceof Error ? error.message : String(error),
     };
-    const addCandidate = (pool, x, y) => {
-        const normalized = normalize(Object.assign(Object.assign({}, rect), { x, y, width: rect.width, height: rect.height }));
-        if (!normalized)
-            return;
-        const key = `${normalized.x},${normalized.y}`;
-        if (candidateSet.has(key))
-            return;
-        candidateSet.add(key);
-        pool.push(normalized);
+    const entry = await commitJournalCapture(capture, null);
+    let rollback = {
+        reverted: { created: 0, deleted: 0, moved: 0, modified: 0 },
+        failed: [],
     };
-    const rankByDistance = (a, b) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
-    let candidate = clampInContainer(Object.assign({}, rect));
-    if (!collides(candidate))
-        return candidate;
-    const fallbackCandidates = [];
-    if (layout === 'row') {
-        for (let i = 1; i < maxTries; i++) {
-            if (i * stepX > maxPrimaryShift)
-                break;
-            const px = rect.x + i * stepX;
-            const py = rect.y;
-            const primary = Object.assign(Object.assign({}, rect), { x: px, y: py });
-            if (!collides(primary))
-                return clampInContainer(primary);
-            if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
-                for (const dy of [stepY, -stepY, stepY * 2, -stepY * 2]) {
-                    if (Math.abs(dy) > maxCrossShift)
-                        continue;
-                    const alt = Object.assign(Object.assign({}, rect), { x: px, y: py + dy });
-                    if (!collides(alt))
-                        return clampInContainer(alt);
-                }
-            }
-            if (maxCrossShift === Number.POSITIVE_INFINITY) {
-                const alt = Object.assign(Object.assign({}, rect), { x: px, y: rect.y + i * stepY });
-                if (!collides(alt))
-                    return clampInContainer(alt);
-            }
-        }
+    if (entry) {
+        rollback = await undoJournalEntry(entry, true);
+        operationJournal.splice(operationJournal.indexOf(entry), 1);
     }
-    else if (layout === 'column') {
-        for (let i = 1; i < maxTries; i++) {
-            if (i * stepY > maxPrimaryShift)
-                break;
-            const py = rect.y + i * stepY;
-            const px = rect.x;
-            const primary = Object.assign(Object.assign({}, rect), { x: px, y: py });
-            if (!collides(primary))
-                return clampInContainer(primary);
-            if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
-                for (const dx of [stepX, -stepX, stepX * 2, -stepX * 2]) {
-                    if (Math.abs(dx) > maxCrossShift)
-                        continue;
-                    const alt = Object.assign(Object.assign({}, rect), { x: px + dx, y: py });
-                    if (!collides(alt))
-                        return clampInContainer(alt);
-                }
-            }
-            if (maxCrossShift === Number.POSITIVE_INFINITY) {
-                const alt = Object.assign(Object.assign({}, rect), { x: rect.x + i * stepX, y: py });
-                if (!collides(alt))
-                    return clampInContainer(alt);
-            }
-        }
+    return {
+        atomic: true,
+        committed: false,
+        failedOperation: failure,
+        rolledBack: rollback.failed.length === 0,
+        rollback,
+    };
+}
+// ===== Dry Run Plans =====
+// dryRun: true 时只解析目标、校验参数并返回变更计划；apply_plan 在目标未变化时按原参数执行。
+const PLAN_MAX_STORED = 20;
+const PLAN_FINGERPRINT_NODES = 500;
+// Properties batch_modify / batch_edit_across_pages can change (see applyNodeProperties).
+const PLAN_MODIFY_PROPS = ['x', 'y', 'width', 'height', 'rotation', 'opacity', 'name', 'visible', 'fills', 'strokes', 'layoutMode'];
+const changePlans = new Map();
+let changePlanCounter = 0;
+function hashPlanString(value) {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(16);
+}
+async function fingerprintPlanNode(node) {
+    const data = await serializeJournalNode(node, { budget: PLAN_FINGERPRINT_NODES, truncated: false });
+    return hashPlanString(`${node.parent ? node.parent.id : ''}#${journalChildIndex(node)}#${JSON.stringify(data)}`);
+}
+async function fingerprintPlanScope(page) {
+    await page.loadAsync();
+    let hash = '';
+    // findAll is depth-first in child order, so the chain also covers reordering.
+    for (const node of page.findAll()) {
+        hash = hashPlanString(`${hash}|${node.id}<${node.parent ? node.parent.id : ''}#${JSON.stringify(captureJournalProps(node))}`);
+    }
+    return hash;
+}
+async function resolvePlanTarget(ctx, id) {
+    const node = typeof id === 'string' && id ? await figma.getNodeByIdAsync(id) : null;
+    if (!node) {
+        ctx.errors.push({ target: String(id), error: 'Node not found' });
+        return null;
     }
-    else {
-        for (let i = 0; i < maxTries; i++) {
-            const alt = Object.assign(Object.assign({}, rect), { x: rect.x + i * stepX, y: rect.y + i * stepY });
-            if (policy !== 'strict_no_overlap' && (i * stepX > maxPrimaryShift || i * stepY > maxPrimaryShift))
-                break;
-            if (!collides(alt))
-                return clampInContainer(alt);
+    ctx.targets.set(node.id, node);
+    return node;
+}
+function planPropertyChanges(node, values, keys) {
+    const current = captureJournalProps(node);
+    const properties = {};
+    for (const key of keys) {
+        if (!values || values[key] === undefined || !(key in node))
+            continue;
+        const raw = key === 'fills' || key === 'strokes' ? normalizePaintArray(values[key]) : values[key];
+        const after = JSON.parse(JSON.stringify(raw));
+        if (JSON.stringify(current[key]) === JSON.stringify(after))
+            continue;
+        properties[key] = { before: current[key], after };
+    }
+    return properties;
+}
+function addPlannedModification(ctx, node, properties, keepEmpty = false) {
+    if (!keepEmpty && Object.keys(properties).length === 0)
+        return;
+    ctx.changes.modify.push({ nodeId: node.id, name: node.name, properties });
+}
+function addPlannedDeletion(ctx, node) {
+    const descendants = 'findAll' in node ? node.findAll().length : 0;
+    ctx.changes.delete.push({ nodeId: node.id, name: node.name, type: node.type, descendants });
+}
+async function planBatchCreate(ctx, args) {
+    const operations = Array.isArray(args.operations) ? args.operations : [];
+    for (let i = 0; i < operations.length; i++) {
+        const op = operations[i] || {};
+        const type = normalizeCreateType(op.type);
+        if (!BATCH_CREATE_TYPES.includes(type)) {
+            ctx.errors.push({ target: `operations[${i}]`, error: `Unknown create type: ${op.type}` });
+            continue;
         }
+        const parentId = op.params && typeof op.params.parentId === 'string' ? op.params.parentId : undefined;
+        const parent = await resolveParentForAppend(parentId);
+        if (parentId && !parent) {
+            ctx.warnings.push(`operations[${i}]: parent ${parentId} not found; the node would be created on the current page`);
+        }
+        ctx.changes.create.push({
+            type: type.replace('create_', '').toUpperCase(),
+            name: op.params && typeof op.params.name === 'string' ? op.params.name : undefined,
+            parentId: parent ? parent.id : figma.currentPage.id,
+        });
     }
-    if (policy === 'strict_no_overlap') {
-        const xs = new Set([rect.x, rect.x - stepX, rect.x + stepX]);
-        const ys = new Set([rect.y, rect.y - stepY, rect.y + stepY]);
-        for (const obs of obstacleRects) {
-            if (isDegenerateRect(obs))
+}
+async function planBatchModify(ctx, args, acrossPages) {
+    for (const op of Array.isArray(args.operations) ? args.operations : []) {
+        if (acrossPages) {
+            const page = await figma.getNodeByIdAsync(op.pageId);
+            if (!page || page.type !== 'PAGE') {
+                ctx.errors.push({ target: String(op.pageId), error: 'Page not found' });
                 continue;
-            xs.add(obs.x - rect.width - normalizedSpacingX);
-            xs.add(obs.x + obs.width + normalizedSpacingX);
-            xs.add(obs.x);
-            xs.add(obs.x + obs.width - rect.width);
-            ys.add(obs.y - rect.height - normalizedSpacingY);
-            ys.add(obs.y + obs.height + normalizedSpacingY);
-            ys.add(obs.y);
-            ys.add(obs.y + obs.height - rect.height);
-        }
-        const orderedX = Array.from(xs).sort((a, b) => Math.abs(a - rect.x) - Math.abs(b - rect.x) || a - b);
-        const orderedY = Array.from(ys).sort((a, b) => Math.abs(a - rect.y) - Math.abs(b - rect.y) || a - b);
-        for (const y of orderedY) {
-            for (const x of orderedX) {
-                addCandidate(fallbackCandidates, x, y);
             }
         }
-        const ringLimit = Math.max(120, Math.ceil(3600 / Math.max(stepX, 1)));
-        for (let ring = 1; ring <= ringLimit; ring++) {
-            const dx = ring * stepX;
-            const dy = ring * stepY;
-            addCandidate(fallbackCandidates, rect.x + dx, rect.y);
-            addCandidate(fallbackCandidates, rect.x - dx, rect.y);
-            addCandidate(fallbackCandidates, rect.x, rect.y + dy);
-            addCandidate(fallbackCandidates, rect.x, rect.y - dy);
-            addCandidate(fallbackCandidates, rect.x + dx, rect.y + dy);
-            addCandidate(fallbackCandidates, rect.x - dx, rect.y + dy);
-            addCandidate(fallbackCandidates, rect.x + dx, rect.y - dy);
-            addCandidate(fallbackCandidates, rect.x - dx, rect.y - dy);
-            if (ring > maxTries)
-                break;
-        }
-        fallbackCandidates.sort((a, b) => rankByDistance(a, rect) - rankByDistance(b, rect));
-        for (const fallback of fallbackCandidates) {
-            if (!collides(fallback))
-                return fallback;
-        }
+        const node = await resolvePlanTarget(ctx, op.nodeId);
+        if (node)
+            addPlannedModification(ctx, node, planPropertyChanges(node, op.changes, PLAN_MODIFY_PROPS));
     }
-    return candidate;
-}
-function isPositionableNode(node) {
-    return (!!node &&
-        node.type !== 'DOCUMENT' &&
-        node.type !== 'PAGE' &&
-        'x' in node &&
-        'y' in node &&
-        'width' in node &&
-        'height' in node);
 }
-function collapseFullSelectionGroups(nodes) {
+async function planBatchRename(ctx, args) {
     var _a;
-    const selectedIds = new Set(nodes.map((node) => node.id));
-    const parentToChildren = new Map();
-    const promotableParentTypes = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
-    for (const node of nodes) {
-        const parent = node.parent;
-        if (!parent || parent.type === 'PAGE' || parent.type === 'DOCUMENT')
-            continue;
-        if (!promotableParentTypes.includes(parent.type) || selectedIds.has(parent.id))
+    const nodeIds = Array.isArray(args.nodeIds) ? args.nodeIds : [];
+    const startIndex = (_a = args.startIndex) !== null && _a !== void 0 ? _a : 1;
+    for (let i = 0; i < nodeIds.length; i++) {
+        const node = await resolvePlanTarget(ctx, nodeIds[i]);
+        if (!node)
             continue;
-        const entry = parentToChildren.get(parent.id);
-        if (entry) {
-            entry.selectedChildren.add(node.id);
-        }
-        else {
-            parentToChildren.set(parent.id, { parent, selectedChildren: new Set([node.id]) });
-        }
+        const name = String(args.pattern).replace('{index}', String(startIndex + i));
+        addPlannedModification(ctx, node, planPropertyChanges(node, { name }, ['name']));
     }
-    const parentToPromote = new Set();
-    for (const { parent, selectedChildren } of parentToChildren.values()) {
-        const children = parent.children.filter(isPositionableNode);
-        if (children.length < 2)
+}
+async function planTextContents(ctx, args) {
+    for (const update of Array.isArray(args.updates) ? args.updates : []) {
+        const node = await resolvePlanTarget(ctx, update.nodeId);
+        if (!node)
             continue;
-        const allChildrenSelected = children.every((child) => selectedIds.has(child.id));
-        if (!allChildrenSelected)
+        if (node.type !== 'TEXT') {
+            ctx.errors.push({ target: node.id, error: 'Not a text node' });
             continue;
-        if (children.some((child) => selectedChildren.has(child.id))) {
-            parentToPromote.add(parent.id);
         }
+        addPlannedModification(ctx, node, planPropertyChanges(node, { characters: update.text }, ['characters']));
     }
-    if (parentToPromote.size === 0)
-        return nodes;
-    const collapsed = nodes.filter((node) => {
-        const parent = node.parent;
-        return !(parent && parentToPromote.has(parent.id));
-    });
-    const promotedNodes = new Set(collapsed.map((node) => node.id));
-    for (const id of parentToPromote) {
-        const parentNode = (_a = parentToChildren.get(id)) === null || _a === void 0 ? void 0 : _a.parent;
-        if (parentNode && isPositionableNode(parentNode) && !promotedNodes.has(parentNode.id)) {
-            const parentScene = parentNode;
-            collapsed.push(parentScene);
-            promotedNodes.add(parentScene.id);
-        }
+}
+async function planMoveNodes(ctx, args) {
+    var _a, _b;
+    const deltaX = (_a = args.deltaX) !== null && _a !== void 0 ? _a : 0;
+    const deltaY = (_b = args.deltaY) !== null && _b !== void 0 ? _b : 0;
+    if (!Array.isArray(args.nodeIds) || args.nodeIds.length === 0)
+        throw new Error('nodeIds is required');
+    if (!Number.isFinite(deltaX) || !Number.isFinite(deltaY))
+        throw new Error('deltaX and deltaY must be numbers');
+    for (const id of args.nodeIds) {
+        const node = await resolvePlanTarget(ctx, id);
+        if (!node || !('x' in node))
+            continue;
+        const scene = node;
+        addPlannedModification(ctx, node, planPropertyChanges(node, { x: scene.x + deltaX, y: scene.y + deltaY }, ['x', 'y']));
     }
-    return dedupeNodes(collapsed);
 }
-function getNodePage(node) {
-    let current = node;
-    while (current) {
-        if (current.type === 'PAGE')
-            return current;
-        current = current.parent;
+async function planBatchDelete(ctx, args) {
+    const nodeIds = Array.isArray(args.nodeIds) ? args.nodeIds : [];
+    if (!args.confirm && nodeIds.length > 10) {
+        throw new Error(`Deleting ${nodeIds.length} nodes requires confirm=true`);
+    }
+    const requested = new Set(nodeIds);
+    for (const id of Array.from(requested)) {
+        const node = await resolvePlanTarget(ctx, id);
+        if (!node)
+            continue;
+        let covered = false;
+        for (let cur = node.parent; cur && cur !== figma.root; cur = cur.parent) {
+            if (requested.has(cur.id)) {
+                covered = true;
+                break;
+            }
+        }
+        // Removed together with a requested ancestor.
+        if (!covered)
+            addPlannedDeletion(ctx, node);
     }
-    return null;
 }
-function normalizeArrangeGroupLabel(raw) {
-    return raw
-        .replace(/\s+/g, ' ')
-        .replace(/\/\./g, '-')
-        .trim();
+async function planCrossPageMove(ctx, args) {
+    const sourcePage = await figma.getNodeByIdAsync(args.sourcePageId);
+    const targetPage = await figma.getNodeByIdAsync(args.targetPageId);
+    if (!sourcePage || sourcePage.type !== 'PAGE')
+        throw new Error('Source page not found');
+    if (!targetPage || targetPage.type !== 'PAGE')
+        throw new Error('Target page not found');
+    for (const id of Array.isArray(args.nodeIds) ? args.nodeIds : []) {
+        const node = await resolvePlanTarget(ctx, id);
+        if (!node)
+            continue;
+        ctx.changes.move.push({ nodeId: node.id, name: node.name, fromParentId: node.parent ? node.parent.id : null, toParentId: targetPage.id });
+    }
+    ctx.warnings.push('cross_page_move copies nodes to the target page and deletes the originals, so moved nodes get new ids');
 }
-async function resolveArrangeGroup(node, groupBy) {
-    if (groupBy === 'none') {
-        return {
-            groupKey: 'all',
-            groupLabel: 'all',
-        };
+async function planFrameToComponents(ctx, args) {
+    var _a, _b, _c;
+    const frame = await figma.getNodeByIdAsync(args.frameId);
+    if (!frame || frame.type !== 'FRAME')
+        throw new Error('Frame not found');
+    if (!frame.children || frame.children.length === 0)
+        throw new Error('Frame has no children');
+    ctx.targets.set(frame.id, frame);
+    const eligible = filterFrameComponentCandidates(frame, (_a = args.minSize) !== null && _a !== void 0 ? _a : { width: 50, height: 30 }, (_b = args.excludeTypes) !== null && _b !== void 0 ? _b : ['GROUP', 'SECTION']);
+    const groups = await groupFrameComponentCandidates(eligible, (_c = args.strategy) !== null && _c !== void 0 ? _c : 'smart');
+    const componentsPage = figma.root.children.find(page => page.name === 'Components');
+    const organize = args.organizeOnPage !== false;
+    if (organize && !componentsPage) {
+        ctx.changes.create.push({ type: 'PAGE', name: 'Components', parentId: figma.root.id });
     }
-    const category = node.type;
-    if (groupBy === 'type') {
-        return {
-            groupKey: category,
-            groupLabel: category,
-        };
+    for (const group of groups) {
+        if (group.nodes.length === 0)
+            continue;
+        ctx.changes.create.push({
+            type: 'COMPONENT',
+            name: generateComponentNameFromNodes(group.nodes),
+            parentId: organize ? (componentsPage ? componentsPage.id : null) : figma.currentPage.id,
+            sourceNodeId: group.nodes[0].id,
+        });
+        for (let i = 1; i < group.nodes.length; i++) {
+            const node = group.nodes[i];
+            ctx.changes.create.push({ type: 'INSTANCE', name: node.name, parentId: node.parent ? node.parent.id : null, sourceNodeId: node.id });
+        }
+        for (const node of group.nodes)
+            addPlannedDeletion(ctx, node);
     }
-    let componentName = '';
-    if (node.type === 'INSTANCE') {
-        const component = await getInstanceMainComponentSafe(node);
-        if (component === null || component === void 0 ? void 0 : component.name)
-            componentName = component.name;
+    if (args.createVariants) {
+        ctx.warnings.push('Variant sets are combined from the created components and are not itemised');
     }
-    else if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
-        componentName = node.name;
+}
+// Tools without a dedicated planner: resolve referenced nodes and infer property edits from matching argument names.
+async function planFromArguments(ctx, tool, args) {
+    const roots = new Set();
+    const containers = new Set();
+    collectJournalIds(args, roots, containers);
+    if (roots.size === 0) {
+        for (const node of figma.currentPage.selection)
+            roots.add(node.id);
     }
-    if (!componentName) {
-        return {
-            groupKey: category,
-            groupLabel: category,
-        };
+    for (const id of roots) {
+        const node = await resolvePlanTarget(ctx, id);
+        if (node)
+            addPlannedModification(ctx, node, planPropertyChanges(node, args, JOURNAL_NODE_PROPS), true);
     }
-    const normalized = normalizeArrangeGroupLabel(componentName);
-    return {
-        groupKey: `${category}::${normalized}`,
-        groupLabel: `${category}: ${normalized}`,
-    };
+    for (const id of containers) {
+        if (!(await figma.getNodeByIdAsync(id)))
+            ctx.errors.push({ target: id, error: 'Container not found' });
+    }
+    ctx.warnings.push(`No detailed planner for ${tool}: changes are inferred from its arguments and created nodes are not listed. apply_plan refuses to run if anything on the affected pages changes first.`);
 }
-async function getInstanceMainComponentSafe(instance) {
-    var _a;
-    try {
-        if (typeof instance.getMainComponentAsync === 'function') {
-            return await instance.getMainComponentAsync();
-        }
-    }
-    catch (_b) {
-        // Fall through to legacy sync access.
-    }
-    try {
-        return (_a = instance.mainComponent) !== null && _a !== void 0 ? _a : null;
+async function collectChangePlan(tool, args) {
+    const ctx = {
+        changes: { create: [], modify: [], delete: [], move: [] },
+        errors: [],
+        warnings: [],
+        targets: new Map(),
+    };
+    let preview = 'full';
+    switch (tool) {
+        case 'batch_create':
+            await planBatchCreate(ctx, args);
+            break;
+        case 'batch_modify':
+            await planBatchModify(ctx, args, false);
+            break;
+        case 'batch_edit_across_pages':
+            await planBatchModify(ctx, args, true);
+            break;
+        case 'batch_rename':
+            await planBatchRename(ctx, args);
+            break;
+        case 'set_multiple_text_contents':
+            await planTextContents(ctx, args);
+            break;
+        case 'move_nodes':
+            await planMoveNodes(ctx, args);
+            break;
+        case 'batch_delete':
+            await planBatchDelete(ctx, args);
+            break;
+        case 'cross_page_move':
+            await planCrossPageMove(ctx, args);
+            break;
+        case 'frame_to_components':
+            await planFrameToComponents(ctx, args);
+            break;
+        case 'import_design_tokens':
+            await planImportDesignTokens(ctx, args);
+            break;
+        case 'fix_contrast':
+            await planFixContrast(ctx, args);
+            break;
+        case 'lint_design':
+            await planLintDesign(ctx, args);
+            break;
+        case 'fix_consistency':
+            await planFixConsistency(ctx, args);
+            break;
+        default:
+            preview = 'partial';
+            await planFromArguments(ctx, tool, args);
+    }
+    return { ctx, preview };
+}
+async function buildChangePlan(tool, payload) {
+    const args = Object.assign({}, payload);
+    delete args.dryRun;
+    delete args.operationId;
+    const { ctx, preview } = await collectChangePlan(tool, args);
+    changePlanCounter++;
+    const plan = {
+        dryRun: true,
+        planId: `plan-${Date.now().toString(36)}-${changePlanCounter}`,
+        tool,
+        createdAt: Date.now(),
+        preview,
+        summary: {
+            create: ctx.changes.create.length,
+            modify: ctx.changes.modify.length,
+            delete: ctx.changes.delete.length,
+            move: ctx.changes.move.length,
+            errors: ctx.errors.length,
+        },
+        changes: ctx.changes,
+        errors: ctx.errors,
+        warnings: ctx.warnings,
+    };
+    const fingerprints = new Map();
+    for (const node of ctx.targets.values()) {
+        fingerprints.set(node.id, await fingerprintPlanNode(node));
+    }
+    const scopeFingerprints = new Map();
+    if (preview === 'partial') {
+        const pages = new Set([figma.currentPage]);
+        for (const node of ctx.targets.values()) {
+            const page = getNodePage(node);
+            if (page)
+                pages.add(page);
+        }
+        for (const page of pages)
+            scopeFingerprints.set(page.id, await fingerprintPlanScope(page));
+    }
+    changePlans.set(plan.planId, { plan, payload: args, fingerprints, scopeFingerprints });
+    if (changePlans.size > PLAN_MAX_STORED) {
+        changePlans.delete(changePlans.keys().next().value);
+    }
+    return plan;
+}
+async function applyPlan(planId, messageId) {
+    if (!planId)
+        throw new Error('planId required');
+    const stored = changePlans.get(planId);
+    if (!stored)
+        throw new Error(`Plan not found or expired: ${planId}`);
+    const stale = [];
+    for (const [nodeId, fingerprint] of stored.fingerprints) {
+        const node = await figma.getNodeByIdAsync(nodeId);
+        if (!node || node.removed || await fingerprintPlanNode(node) !== fingerprint)
+            stale.push(nodeId);
     }
-    catch (_c) {
-        return null;
+    if (stale.length > 0) {
+        throw new Error(`Plan ${planId} is stale: ${stale.length} target(s) changed since the dry run (${stale.slice(0, 10).join(', ')})`);
     }
-}
-function dedupeNodes(nodes) {
-    const seen = new Set();
-    const out = [];
-    for (const node of nodes) {
-        if (!seen.has(node.id)) {
-            seen.add(node.id);
-            out.push(node);
+    for (const [pageId, fingerprint] of stored.scopeFingerprints) {
+        const page = await figma.getNodeByIdAsync(pageId);
+        if (!page || page.type !== 'PAGE' || await fingerprintPlanScope(page) !== fingerprint) {
+            throw new Error(`Plan ${planId} is stale: page ${pageId} changed since the dry run`);
         }
     }
-    return out;
-}
-function isSceneNode(node) {
-    return Boolean(node) && node.type !== 'DOCUMENT' && node.type !== 'PAGE';
+    // The tool re-runs with the stored arguments, so it must still resolve to exactly the planned changes
+    // (scope-driven tools would otherwise also pick up nodes added or edited since the dry run).
+    const { ctx } = await collectChangePlan(stored.plan.tool, stored.payload);
+    if (JSON.stringify(ctx.changes) !== JSON.stringify(stored.plan.changes) || JSON.stringify(ctx.errors) !== JSON.stringify(stored.plan.errors)) {
+        const planned = stored.plan.summary;
+        const now = ctx.changes;
+        throw new Error(`Plan ${planId} is stale: the document no longer yields the planned changes ` +
+            `(planned create/modify/delete/move ${planned.create}/${planned.modify}/${planned.delete}/${planned.move}, ` +
+            `now ${now.create.length}/${now.modify.length}/${now.delete.length}/${now.move.length}). Run the dry run again.`);
+    }
+    changePlans.delete(planId);
+    const result = await handleMessage({ type: stored.plan.tool, id: messageId, payload: stored.payload });
+    return { planId, tool: stored.plan.tool, applied: true, result };
 }
-async function traverseNodes(node, callback) {
-    if (node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
-        const shouldContinue = await callback(node);
-        if (!shouldContinue)
-            return;
+async function selectNodes(nodeIds, append = false, focus = true) {
+    if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
+        throw new Error('nodeIds is required');
     }
-    if ('children' in node) {
-        for (const child of node.children) {
-            await traverseNodes(child, callback);
+    const resolved = [];
+    const missing = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || !('visible' in node)) {
+            missing.push(id);
+            continue;
         }
+        resolved.push(node);
     }
-}
-function nodeToInfo(node, includeChildren = false) {
-    var _a;
-    const info = {
-        id: node.id,
-        name: node.name,
-        type: node.type,
-        visible: node.visible,
-        locked: node.locked,
-    };
-    if ('opacity' in node)
-        info.opacity = node.opacity;
-    if ('blendMode' in node)
-        info.blendMode = node.blendMode;
-    if ('x' in node) {
-        info.x = node.x;
-        info.y = node.y;
-        info.width = node.width;
-        info.height = node.height;
-        if ('rotation' in node)
-            info.rotation = node.rotation;
-    }
-    if ('fills' in node)
-        info.fills = node.fills;
-    if ('strokes' in node)
-        info.strokes = node.strokes;
-    if ('strokeWeight' in node && typeof node.strokeWeight === 'number')
-        info.strokeWeight = node.strokeWeight;
-    if ('strokeAlign' in node)
-        info.strokeAlign = node.strokeAlign;
-    if ('topLeftRadius' in node) {
-        info.cornerRadius = [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius];
+    if (resolved.length === 0) {
+        throw new Error(`No selectable nodes found. Missing: ${missing.join(', ')}`);
     }
-    else if ('cornerRadius' in node && typeof node.cornerRadius === 'number') {
-        info.cornerRadius = node.cornerRadius;
+    const targetPage = getNodePage(resolved[0]);
+    if (targetPage && figma.currentPage.id !== targetPage.id) {
+        await figma.setCurrentPageAsync(targetPage);
     }
-    if ('layoutMode' in node) {
-        const frame = node;
-        info.layoutMode = frame.layoutMode;
-        info.primaryAxisAlignItems = frame.primaryAxisAlignItems;
-        info.counterAxisAlignItems = frame.counterAxisAlignItems;
-        info.paddingTop = frame.paddingTop;
-        info.paddingRight = frame.paddingRight;
-        info.paddingBottom = frame.paddingBottom;
-        info.paddingLeft = frame.paddingLeft;
-        info.itemSpacing = frame.itemSpacing;
+    const samePageNodes = resolved.filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) === figma.currentPage.id; });
+    const skippedCrossPage = resolved
+        .filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) !== figma.currentPage.id; })
+        .map((n) => n.id);
+    const selected = append
+        ? dedupeNodes([...figma.currentPage.selection, ...samePageNodes])
+        : samePageNodes;
+    figma.currentPage.selection = selected;
+    if (focus && selected.length > 0) {
+        figma.viewport.scrollAndZoomIntoView(selected);
     }
-    if (node.type === 'INSTANCE') {
-        try {
-            const mainComponent = node.mainComponent;
-            if (mainComponent) {
-                info.mainComponent = {
-                    id: mainComponent.id,
-                    name: mainComponent.name,
-                    type: mainComponent.type,
-                };
-            }
-        }
-        catch (_b) {
-            // Dynamic-page mode can throw on sync access; omit optional field.
+    return {
+        selectedCount: selected.length,
+        selectedIds: selected.map((n) => n.id),
+        missingIds: missing,
+        skippedCrossPageIds: skippedCrossPage,
+        pageId: figma.currentPage.id,
+    };
+}
+async function setFocus(nodeIds, nodeId, x, y, zoom) {
+    if (typeof x === 'number' && typeof y === 'number') {
+        figma.viewport.center = { x, y };
+        if (typeof zoom === 'number' && Number.isFinite(zoom) && zoom > 0) {
+            figma.viewport.zoom = zoom;
         }
+        return { mode: 'coordinates', center: figma.viewport.center, zoom: figma.viewport.zoom };
     }
-    if (node.type === 'COMPONENT') {
-        const component = node;
-        // Check if part of variant
-        if (((_a = component.parent) === null || _a === void 0 ? void 0 : _a.type) === 'COMPONENT_SET') {
-            try {
-                info.variantProperties = component.variantProperties || undefined;
-            }
-            catch (_c) {
-                // Some broken component sets can throw from variantProperties getter.
-                info.variantProperties = undefined;
-            }
+    const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : (nodeId ? [nodeId] : []);
+    if (ids.length === 0) {
+        throw new Error('Provide nodeId/nodeIds, or x+y coordinates');
+    }
+    const nodes = [];
+    const pages = [];
+    for (const id of ids) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node)
+            continue;
+        if (node.type === 'PAGE') {
+            pages.push(node);
+            continue;
         }
+        if ('visible' in node)
+            nodes.push(node);
     }
-    if ('reactions' in node) {
-        info.reactions = [...node.reactions];
+    // Allow focusing by page id(s): switch to the first provided page.
+    if (nodes.length === 0 && pages.length > 0) {
+        const targetPage = pages[0];
+        if (figma.currentPage.id !== targetPage.id) {
+            await figma.setCurrentPageAsync(targetPage);
+        }
+        return {
+            mode: 'page',
+            pageId: figma.currentPage.id,
+            pageName: figma.currentPage.name,
+            focusedIds: [],
+        };
     }
-    if (includeChildren && 'children' in node) {
-        info.children = node.children.map(c => c.id);
+    if (nodes.length === 0) {
+        throw new Error('No focusable nodes found');
     }
-    if (node.parent) {
-        info.parent = node.parent.id;
+    const targetPage = getNodePage(nodes[0]);
+    if (targetPage && figma.currentPage.id !== targetPage.id) {
+        await figma.setCurrentPageAsync(targetPage);
     }
-    return info;
+    const samePageNodes = nodes.filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) === figma.currentPage.id; });
+    figma.viewport.scrollAndZoomIntoView(samePageNodes);
+    return {
+        mode: 'nodes',
+        focusedIds: samePageNodes.map((n) => n.id),
+        pageId: figma.currentPage.id,
+    };
 }
-function getNodeChildren(node, maxDepth, currentDepth, state, maxChildrenPerNode = 200) {
-    if (currentDepth >= maxDepth || !('children' in node)) {
-        return [];
+async function moveNodes(nodeIds, deltaX = 0, deltaY = 0) {
+    if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
+        throw new Error('nodeIds is required');
     }
-    const children = node.children;
-    const maxChildren = Math.min(children.length, Math.max(1, maxChildrenPerNode));
-    if (children.length > maxChildren && state) {
-        state.truncated = true;
+    if (!Number.isFinite(deltaX) || !Number.isFinite(deltaY)) {
+        throw new Error('deltaX and deltaY must be numbers');
     }
-    const out = [];
-    for (let i = 0; i < maxChildren; i += 1) {
-        if (state && state.remaining <= 0) {
-            state.truncated = true;
-            break;
+    const moved = [];
+    const skipped = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || !('x' in node) || !('y' in node)) {
+            skipped.push(id);
+            continue;
         }
-        const child = children[i];
-        if (state)
-            state.remaining -= 1;
-        out.push({
-            id: child.id,
-            name: child.name,
-            type: child.type,
-            children: getNodeChildren(child, maxDepth, currentDepth + 1, state, maxChildrenPerNode),
-        });
-    }
-    if (state && state.remaining <= 0 && children.length > out.length) {
-        state.truncated = true;
+        const scene = node;
+        scene.x = scene.x + deltaX;
+        scene.y = scene.y + deltaY;
+        moved.push({ id: scene.id, x: scene.x, y: scene.y });
     }
-    return out;
+    return {
+        movedCount: moved.length,
+        moved,
+        skippedIds: skipped,
+        deltaX,
+        deltaY,
+    };
 }
-function applyNodeProperties(node, properties) {
-    if (properties.x !== undefined && 'x' in node)
-        node.x = properties.x;
-    if (properties.y !== undefined && 'y' in node)
-        node.y = properties.y;
-    if ((properties.width !== undefined || properties.height !== undefined) && 'resize' in node && typeof node.resize === 'function') {
-        const nextWidth = properties.width !== undefined ? properties.width : node.width;
-        const nextHeight = properties.height !== undefined ? properties.height : node.height;
-        node.resize(nextWidth, nextHeight);
-    }
-    if (properties.rotation !== undefined && 'rotation' in node)
-        node.rotation = properties.rotation;
-    if (properties.opacity !== undefined && 'opacity' in node)
-        node.opacity = properties.opacity;
-    if (properties.name !== undefined)
-        node.name = properties.name;
-    if (properties.visible !== undefined)
-        node.visible = properties.visible;
-    if (properties.fills !== undefined && 'fills' in node) {
-        node.fills = normalizePaintArray(properties.fills);
-    }
-    if (properties.strokes !== undefined && 'strokes' in node) {
-        node.strokes = normalizePaintArray(properties.strokes);
+async function setNodePosition(nodeId, x, y) {
+    if (!nodeId)
+        throw new Error('nodeId is required');
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+        throw new Error('x and y must be numbers');
     }
-    if (properties.layoutMode !== undefined && 'layoutMode' in node) {
-        node.layoutMode = properties.layoutMode;
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || !('x' in node) || !('y' in node)) {
+        throw new Error('Node not found or node is not positionable');
     }
+    const scene = node;
+    scene.x = x;
+    scene.y = y;
+    return { id: scene.id, x: scene.x, y: scene.y };
 }
-function extractFeatures(node) {
-    const features = {
-        type: node.type,
-        width: 'width' in node ? node.width : 0,
-        height: 'height' in node ? node.height : 0,
-    };
-    if ('fills' in node) {
-        const rawFills = node.fills;
-        const fills = Array.isArray(rawFills) ? rawFills : [];
-        const solidFill = fills.find(f => f.type === 'SOLID');
-        if (solidFill) {
-            features.fillColor = solidFill.color;
-            features.fillOpacity = solidFill.opacity;
-        }
-    }
-    if ('cornerRadius' in node) {
-        features.cornerRadius = node.cornerRadius;
+async function arrangeNodes(nodeIds, layout = 'row', columns, spacingX = 120, spacingY = 120, groupBy = 'none', startX, startY, withinContainerId, placementPolicy = 'min_move', avoidOverlaps = true, verifyVisual = false, snapshotMode = 'selection', snapshotScale = 1, focus = true) {
+    var _a, _b;
+    const ids = Array.isArray(nodeIds) && nodeIds.length > 0
+        ? Array.from(new Set(nodeIds))
+        : figma.currentPage.selection.map((n) => n.id);
+    if (ids.length === 0) {
+        throw new Error('No nodeIds provided and current selection is empty');
     }
-    if ('layoutMode' in node) {
-        features.hasAutoLayout = node.layoutMode !== 'NONE';
+    let nodes = [];
+    const missingDetails = [];
+    for (const id of ids) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node) {
+            missingDetails.push({ id, reason: 'not_found' });
+            continue;
+        }
+        const nodeType = node.type;
+        const pageId = ((_a = getNodePage(node)) === null || _a === void 0 ? void 0 : _a.id) || null;
+        if (!('x' in node) || !('y' in node)) {
+            missingDetails.push({
+                id,
+                reason: 'not_positionable',
+                nodeType,
+                pageId,
+            });
+            continue;
+        }
+        if (!('width' in node) || !('height' in node)) {
+            missingDetails.push({
+                id,
+                reason: 'missing_bounds',
+                nodeType,
+                pageId,
+            });
+            continue;
+        }
+        nodes.push(node);
     }
-    if ('children' in node) {
-        features.childCount = node.children.length;
-        features.childTypes = node.children.map(c => c.type);
+    if (nodes.length === 0) {
+        throw new Error('No positionable nodes found');
     }
-    return features;
-}
-function calculateSimilarity(a, b) {
-    let score = 0;
-    let total = 0;
-    if (a.type === b.type)
-        score += 1;
-    total += 1;
-    const sizeDiff = Math.abs(a.width - b.width) / Math.max(a.width, b.height) +
-        Math.abs(a.height - b.height) / Math.max(a.height, b.height);
-    score += Math.max(0, 1 - sizeDiff);
-    total += 1;
-    if (a.fillColor && b.fillColor) {
-        const colorDiff = Math.abs(a.fillColor.r - b.fillColor.r) +
-            Math.abs(a.fillColor.g - b.fillColor.g) +
-            Math.abs(a.fillColor.b - b.fillColor.b);
-        score += Math.max(0, 1 - colorDiff / 3);
-        total += 1;
+    const selectedNodeIds = new Set(nodes.map((n) => n.id));
+    nodes = nodes.filter((node) => {
+        let parent = node.parent;
+        while (parent) {
+            if (selectedNodeIds.has(parent.id)) {
+                return false;
+            }
+            parent = parent.parent;
+        }
+        return true;
+    });
+    nodes = collapseFullSelectionGroups(nodes);
+    if (nodes.length === 0) {
+        throw new Error('No top-level nodes found (selection contains only descendants of other selected nodes)');
     }
-    if (a.cornerRadius !== undefined && b.cornerRadius !== undefined) {
-        score += a.cornerRadius === b.cornerRadius ? 1 : 0;
-        total += 1;
+    const targetPage = getNodePage(nodes[0]);
+    if (targetPage && figma.currentPage.id !== targetPage.id) {
+        await figma.setCurrentPageAsync(targetPage);
     }
-    if (a.hasAutoLayout !== undefined && b.hasAutoLayout !== undefined) {
-        score += a.hasAutoLayout === b.hasAutoLayout ? 1 : 0;
-        total += 1;
+    const samePageNodes = nodes.filter((n) => { var _a; return ((_a = getNodePage(n)) === null || _a === void 0 ? void 0 : _a.id) === figma.currentPage.id; });
+    for (const node of nodes) {
+        const pageId = ((_b = getNodePage(node)) === null || _b === void 0 ? void 0 : _b.id) || null;
+        if (pageId && pageId !== figma.currentPage.id) {
+            missingDetails.push({
+                id: node.id,
+                reason: 'cross_page_filtered',
+                nodeType: node.type,
+                pageId,
+                note: `target_page=${figma.currentPage.id}`,
+            });
+        }
     }
-    return score / total;
-}
-async function groupSimilarNodes(nodeIds) {
-    const nodes = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (node)
-            nodes.push(node);
+    if (samePageNodes.length === 0) {
+        throw new Error('No nodes are on the current page after page switch');
     }
-    const groups = [];
-    for (const node of nodes) {
-        const features = extractFeatures(node);
-        let added = false;
-        for (const group of groups) {
-            if (calculateSimilarity(features, group.features) >= 0.85) {
-                group.nodes.push(node);
-                added = true;
-                break;
+    const needsGrouping = groupBy && groupBy !== 'none';
+    const layoutForSort = layout;
+    let sorted = [...samePageNodes].sort((a, b) => {
+        if (layoutForSort === 'column')
+            return (a.y - b.y) || (a.x - b.x);
+        return (a.x - b.x) || (a.y - b.y);
+    });
+    const container = withinContainerId ? await resolveContainer(withinContainerId) : null;
+    const containerPad = 24;
+    // Optional: ensure nodes are actual children of target container.
+    let containerizedCount = 0;
+    if (container) {
+        const c = await containerizeNodes(sorted.map((n) => n.id), container.id);
+        containerizedCount = c.containerizedCount;
+        for (let i = 0; i < sorted.length; i++) {
+            const n = await figma.getNodeByIdAsync(sorted[i].id);
+            if (n && 'x' in n && 'y' in n && 'width' in n && 'height' in n) {
+                sorted[i] = n;
             }
         }
-        if (!added) {
-            groups.push({ nodes: [node], features });
+    }
+    const arrangementMeta = await Promise.all(sorted.map(async (node) => {
+        const absoluteRect = sceneNodeToRect(node);
+        const parent = node.parent;
+        const localWidth = Number.isFinite(node.width) ? node.width : absoluteRect.width;
+        const localHeight = Number.isFinite(node.height) ? node.height : absoluteRect.height;
+        const localRect = {
+            x: node.x,
+            y: node.y,
+            width: localWidth,
+            height: localHeight,
+        };
+        const area = Math.max(0, localRect.width) * Math.max(0, localRect.height);
+        const groupByMode = groupBy || 'none';
+        const groupInfo = await resolveArrangeGroup(node, groupByMode);
+        return Object.assign({ node, rect: absoluteRect, localRect,
+            area, parentId: parent ? parent.id : 'page' }, groupInfo);
+    }));
+    const beforeUnion = getUnionBounds(arrangementMeta.map((m) => m.rect));
+    const gridCols = layout === 'grid'
+        ? Math.max(1, Number.isFinite(columns) ? Math.floor(columns) : Math.ceil(Math.sqrt(arrangementMeta.length)))
+        : 1;
+    const compactSpacingX = layout === 'row'
+        ? Math.max(8, needsGrouping ? Math.min(spacingX, 80) : spacingX)
+        : Math.max(8, spacingX);
+    const compactSpacingY = layout === 'row'
+        ? Math.max(8, needsGrouping ? Math.min(spacingY, 60) : spacingY)
+        : Math.max(8, spacingY);
+    const groupGap = Math.max(compactSpacingX * 1.5, 24);
+    const targetIds = new Set(sorted.map((n) => n.id));
+    const ancestorIds = new Set();
+    for (const node of sorted) {
+        let cur = node.parent;
+        while (cur) {
+            ancestorIds.add(cur.id);
+            cur = cur.parent;
         }
     }
-    return groups.map(g => g.nodes.map(n => n.id));
-}
-function groupBySimilarity(nodes) {
-    const groups = [];
-    for (const node of nodes) {
-        const features = extractFeatures(node);
-        let added = false;
-        for (const group of groups) {
-            if (calculateSimilarity(features, group.features) >= 0.8) {
-                group.nodes.push(node);
-                added = true;
-                break;
+    const blockersByParent = new Map();
+    if (avoidOverlaps) {
+        await traverseNodes(figma.currentPage, async (node) => {
+            if (!targetIds.has(node.id) &&
+                !ancestorIds.has(node.id) &&
+                node.type !== 'SECTION' &&
+                'x' in node && 'y' in node && 'width' in node && 'height' in node) {
+                const parent = node.parent;
+                const parentId = parent && parent.type !== 'PAGE' ? parent.id : 'page';
+                const sceneRect = sceneNodeToRect(node);
+                const list = blockersByParent.get(parentId) || [];
+                list.push({
+                    x: node.x,
+                    y: node.y,
+                    width: node.width,
+                    height: node.height,
+                });
+                blockersByParent.set(parentId, list);
             }
-        }
-        if (!added) {
-            groups.push({ nodes: [node], features });
-        }
+            return true;
+        });
     }
-    return groups.map(g => g.nodes);
-}
-function isButtonLike(node) {
-    const name = node.name.toLowerCase();
+    const arranged = [];
+    const allBlockers = [...blockersByParent.values()].flat();
+    const beforeQuality = evaluateArrangementQuality(arrangementMeta.map((item) => item.rect), allBlockers);
+    const parentGroups = new Map();
+    for (const item of arrangementMeta) {
+        const parentId = item.parentId || 'page';
+        if (!parentGroups.has(parentId))
+            parentGroups.set(parentId, []);
+        parentGroups.get(parentId).push(item);
+    }
+    const ARRANGE_CANCEL_CHECK_INTERVAL = 25;
+    let cancelled = false;
+    const shouldStopArranging = async () => {
+        if (!cancelled && arranged.length > 0 && arranged.length % ARRANGE_CANCEL_CHECK_INTERVAL === 0) {
+            cancelled = await cancellationCheckpoint('arrange_nodes');
+        }
+        return cancelled;
+    };
+    const parentIds = [...parentGroups.keys()];
+    for (const parentId of parentIds) {
+        if (cancelled)
+            break;
+        const parentItems = parentGroups.get(parentId);
+        if (parentItems.length === 0)
+            continue;
+        const placedRects = [];
+        const localBlockers = blockersByParent.get(parentId) || [];
+        const baseX = container
+            ? Math.max(Number.isFinite(startX) ? startX : containerPad, containerPad)
+            : (Number.isFinite(startX)
+                ? startX
+                : Math.min(...parentItems.map((item) => item.localRect.x)));
+        const baseY = container
+            ? Math.max(Number.isFinite(startY) ? startY : containerPad, containerPad)
+            : (Number.isFinite(startY)
+                ? startY
+                : Math.min(...parentItems.map((item) => item.localRect.y)));
+        const localMaxRight = container
+            ? container.width - containerPad
+            : Number.POSITIVE_INFINITY;
+        const localMaxWidth = Math.max(...parentItems.map((item) => item.localRect.width));
+        const localMaxHeight = Math.max(...parentItems.map((item) => item.localRect.height));
+        if (layout === 'row' && needsGrouping) {
+            const groups = new Map();
+            const groupLabels = new Map();
+            for (const item of parentItems) {
+                if (!groups.has(item.groupKey)) {
+                    groups.set(item.groupKey, []);
+                    groupLabels.set(item.groupKey, item.groupLabel);
+                }
+                groups.get(item.groupKey).push(item);
+            }
+            const rows = Array.from(groups.entries()).map(([key, groupItems]) => {
+                const sortedGroup = [...groupItems].sort((a, b) => (b.area - a.area) || (a.localRect.y - b.localRect.y));
+                const area = sortedGroup.reduce((sum, i) => sum + i.area, 0);
+                return {
+                    key,
+                    label: groupLabels.get(key) || key,
+                    area,
+                    items: sortedGroup,
+                };
+            }).sort((a, b) => (b.area - a.area) || a.label.localeCompare(b.label));
+            let groupCursorY = baseY;
+            for (const row of rows) {
+                let rowCursorX = baseX;
+                let rowCursorY = groupCursorY;
+                let rowMaxHeight = 0;
+                let rowMaxUsedY = baseY;
+                if (cancelled)
+                    break;
+                for (const item of row.items) {
+                    if (await shouldStopArranging())
+                        break;
+                    if (localMaxRight !== Number.POSITIVE_INFINITY && rowCursorX + item.localRect.width > localMaxRight && rowCursorX > baseX) {
+                        rowCursorX = baseX;
+                        rowCursorY += rowMaxHeight + compactSpacingY;
+                        rowMaxHeight = 0;
+                    }
+                    const localCandidate = {
+                        x: rowCursorX,
+                        y: rowCursorY,
+                        width: item.localRect.width,
+                        height: item.localRect.height,
+                    };
+                    let candidate = localCandidate;
+                    if (avoidOverlaps) {
+                        candidate = resolveCollisionCandidate(candidate, localBlockers, placedRects, 'row', compactSpacingX, compactSpacingY, placementPolicy, container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined, containerPad);
+                    }
+                    item.node.x = candidate.x;
+                    item.node.y = candidate.y;
+                    placedRects.push(candidate);
+                    rowMaxHeight = Math.max(rowMaxHeight, candidate.height);
+                    rowMaxUsedY = Math.max(rowMaxUsedY, candidate.y + candidate.height);
+                    arranged.push({
+                        id: item.node.id,
+                        x: candidate.x,
+                        y: candidate.y,
+                        groupBy: row.key,
+                        groupLabel: row.label,
+                        area: item.area,
+                    });
+                    rowCursorX = candidate.x + candidate.width + compactSpacingX;
+                }
+                groupCursorY = Math.max(groupCursorY, rowMaxUsedY) + compactSpacingY;
+                if (rowMaxHeight > 0) {
+                    groupCursorY += Math.max(groupGap - compactSpacingY, compactSpacingY);
+                }
+            }
+            continue;
+        }
+        const ordered = [...parentItems].sort((a, b) => {
+            if (layout === 'column')
+                return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
+            if (layout === 'grid')
+                return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
+            return (b.area - a.area) || (a.localRect.x - b.localRect.x) || (a.localRect.y - b.localRect.y);
+        });
+        let rowX = baseX;
+        let colY = baseY;
+        for (let i = 0; i < ordered.length; i++) {
+            if (await shouldStopArranging())
+                break;
+            const item = ordered[i];
+            const node = item.node;
+            let localCandidate;
+            if (layout === 'row') {
+                localCandidate = { x: rowX, y: baseY, width: item.localRect.width, height: item.localRect.height };
+                rowX += item.localRect.width + compactSpacingX;
+            }
+            else if (layout === 'column') {
+                localCandidate = { x: baseX, y: colY, width: item.localRect.width, height: item.localRect.height };
+                colY += item.localRect.height + compactSpacingY;
+            }
+            else {
+                const col = i % gridCols;
+                const row = Math.floor(i / gridCols);
+                localCandidate = {
+                    x: baseX + col * (localMaxWidth + compactSpacingX),
+                    y: baseY + row * (localMaxHeight + compactSpacingY),
+                    width: item.localRect.width,
+                    height: item.localRect.height,
+                };
+            }
+            let candidate = localCandidate;
+            if (avoidOverlaps) {
+                candidate = resolveCollisionCandidate(candidate, localBlockers, placedRects, layout, compactSpacingX, compactSpacingY, placementPolicy, container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined, containerPad);
+            }
+            node.x = candidate.x;
+            node.y = candidate.y;
+            placedRects.push(candidate);
+            arranged.push({
+                id: node.id,
+                x: candidate.x,
+                y: candidate.y,
+                groupBy: item.groupKey,
+                groupLabel: item.groupLabel,
+                area: item.area,
+            });
+        }
+    }
+    if (focus) {
+        figma.viewport.scrollAndZoomIntoView(sorted);
+    }
+    const afterRects = sorted.map(sceneNodeToRect);
+    const afterUnion = getUnionBounds(afterRects);
+    const afterQuality = evaluateArrangementQuality(afterRects, allBlockers);
+    const parentMismatchCount = container
+        ? sorted.filter((n) => { var _a; return ((_a = n.parent) === null || _a === void 0 ? void 0 : _a.id) !== container.id; }).length
+        : 0;
+    const outsideContainerCount = container
+        ? afterRects.filter((r) => !rectInside(r, container)).length
+        : 0;
+    let visual = undefined;
+    if (verifyVisual) {
+        const captureMode = snapshotMode || 'selection';
+        const beforeShot = captureMode === 'selection'
+            ? await captureView('region', undefined, beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, false)
+            : await captureView(captureMode, sorted.map((n) => n.id), beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, false);
+        const afterShot = captureMode === 'selection'
+            ? await captureView('region', undefined, afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, false)
+            : await captureView(captureMode, sorted.map((n) => n.id), afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, false);
+        visual = { before: beforeShot, after: afterShot };
+    }
+    return {
+        arrangedCount: arranged.length,
+        cancelled,
+        layout,
+        columns: layout === 'grid' ? gridCols : undefined,
+        spacingX,
+        spacingY,
+        avoidOverlaps,
+        withinContainerId: container === null || container === void 0 ? void 0 : container.id,
+        placementPolicy,
+        containerizedCount,
+        quality: {
+            before: beforeQuality,
+            after: afterQuality,
+            overlapDelta: beforeQuality.overlapCount - afterQuality.overlapCount,
+            nodeOverlapDelta: beforeQuality.overlapBetweenCandidates - afterQuality.overlapBetweenCandidates,
+            parentMismatchCount,
+            outsideContainerCount,
+        },
+        visual,
+        arranged,
+        missingIds: Array.from(new Set(missingDetails.map((d) => d.id))),
+        missingDetails,
+        pageId: figma.currentPage.id,
+    };
+}
+async function resolveContainer(containerId) {
+    const node = await figma.getNodeByIdAsync(containerId);
+    if (!node || !('children' in node) || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
+        throw new Error(`Invalid containerId: ${containerId}`);
+    }
+    return node;
+}
+async function containerizeNodes(nodeIds, containerId) {
+    var _a;
+    if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
+        throw new Error('nodeIds is required');
+    }
+    const container = await resolveContainer(containerId);
+    const moved = [];
+    const skipped = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (!node || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
+            skipped.push({ id, reason: 'not_positionable' });
+            continue;
+        }
+        const scene = node;
+        if (scene.id === container.id) {
+            skipped.push({ id, reason: 'self_container' });
+            continue;
+        }
+        if (((_a = scene.parent) === null || _a === void 0 ? void 0 : _a.id) === container.id) {
+            skipped.push({ id, reason: 'already_child' });
+            continue;
+        }
+        const globalRect = sceneNodeToRect(scene);
+        try {
+            container.appendChild(scene);
+            scene.x = globalRect.x - container.x;
+            scene.y = globalRect.y - container.y;
+            moved.push(scene.id);
+        }
+        catch (e) {
+            skipped.push({ id, reason: `append_failed:${String(e)}` });
+        }
+    }
+    return {
+        containerId: container.id,
+        containerizedCount: moved.length,
+        containerizedIds: moved,
+        skipped,
+    };
+}
+async function validateStructure(nodeIds, containerId) {
+    const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
+    if (ids.length === 0)
+        throw new Error('No nodeIds provided and current selection is empty');
+    const nodes = [];
+    const missing = [];
+    for (const id of ids) {
+        const n = await figma.getNodeByIdAsync(id);
+        if (!n || !('x' in n) || !('y' in n) || !('width' in n) || !('height' in n)) {
+            missing.push(id);
+            continue;
+        }
+        nodes.push(n);
+    }
+    const rects = nodes.map((n) => sceneNodeToRect(n));
+    let overlapPairs = 0;
+    for (let i = 0; i < rects.length; i++) {
+        for (let j = i + 1; j < rects.length; j++) {
+            if (rectsOverlap(rects[i], rects[j]))
+                overlapPairs++;
+        }
+    }
+    const getPageId = (node) => {
+        let cur = node;
+        while (cur) {
+            if (cur.type === 'PAGE')
+                return cur.id;
+            cur = cur.parent;
+        }
+        return null;
+    };
+    let container = null;
+    let containerPageId = null;
+    let containerIsPage = false;
+    if (containerId) {
+        const rawContainer = await figma.getNodeByIdAsync(containerId);
+        if (!rawContainer) {
+            throw new Error(`Invalid containerId: ${containerId} (not found)`);
+        }
+        if (rawContainer.type === 'PAGE') {
+            containerIsPage = true;
+            containerPageId = rawContainer.id;
+        }
+        else {
+            container = await resolveContainer(containerId);
+            containerPageId = getPageId(container);
+        }
+    }
+    const parentMismatch = container
+        ? nodes.filter((n) => { var _a; return ((_a = n.parent) === null || _a === void 0 ? void 0 : _a.id) !== container.id; }).map((n) => n.id)
+        : containerIsPage
+            ? nodes.filter((n) => getPageId(n) !== containerPageId).map((n) => n.id)
+            : [];
+    const outsideContainer = container
+        ? nodes.filter((n) => !rectInside(sceneNodeToRect(n), container)).map((n) => n.id)
+        : [];
+    return {
+        nodeCount: nodes.length,
+        missingIds: missing,
+        overlapPairs,
+        containerId: containerIsPage ? containerId : container === null || container === void 0 ? void 0 : container.id,
+        parentMismatchCount: parentMismatch.length,
+        parentMismatchIds: parentMismatch,
+        outsideContainerCount: outsideContainer.length,
+        outsideContainerIds: outsideContainer,
+        recommendations: [
+            ...(parentMismatch.length ? ['Use containerize_nodes to reparent nodes into container'] : []),
+            ...(outsideContainer.length ? ['Use arrange_nodes with withinContainerId to pull nodes inside container'] : []),
+            ...(overlapPairs ? ['Use arrange_nodes with avoidOverlaps=true'] : []),
+        ],
+    };
+}
+async function captureView(mode = 'selection', nodeIds, x, y, width, height, scale = 1, includeBase64 = true) {
+    const requestedBounds = await resolveCaptureBounds(mode, nodeIds, x, y, width, height);
+    const { bounds, clipped } = clampCaptureBounds(requestedBounds);
+    if (bounds.width <= 0 || bounds.height <= 0) {
+        throw new Error('Capture bounds are empty');
+    }
+    const slice = figma.createSlice();
+    slice.name = `MCP Capture ${mode}`;
+    slice.x = bounds.x;
+    slice.y = bounds.y;
+    slice.resize(bounds.width, bounds.height);
+    figma.currentPage.appendChild(slice);
+    try {
+        const bytes = await slice.exportAsync({
+            format: 'PNG',
+            constraint: { type: 'SCALE', value: Number.isFinite(scale) && scale > 0 ? scale : 1 },
+        });
+        return Object.assign({ mode, format: 'PNG', clipped,
+            requestedBounds,
+            bounds, bytesLength: bytes.length, imageHash: figma.createImage(bytes).hash }, (includeBase64 ? packExportBytes(bytes) : {}));
+    }
+    finally {
+        slice.remove();
+    }
+}
+function clampCaptureBounds(bounds, maxWidth = 4096, maxHeight = 4096) {
+    let { x, y, width, height } = bounds;
+    let clipped = false;
+    if (width > maxWidth) {
+        x = x + (width - maxWidth) / 2;
+        width = maxWidth;
+        clipped = true;
+    }
+    if (height > maxHeight) {
+        y = y + (height - maxHeight) / 2;
+        height = maxHeight;
+        clipped = true;
+    }
+    return { bounds: { x, y, width, height }, clipped };
+}
+async function resolveCaptureBounds(mode, nodeIds, x, y, width, height) {
+    if (mode === 'region') {
+        if (![x, y, width, height].every((v) => Number.isFinite(v))) {
+            throw new Error('mode=region requires x, y, width, height');
+        }
+        return { x: x, y: y, width: width, height: height };
+    }
+    if (mode === 'selection') {
+        const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
+        if (ids.length === 0)
+            throw new Error('mode=selection requires nodeIds or current selection');
+        const nodes = [];
+        for (const id of ids) {
+            const node = await figma.getNodeByIdAsync(id);
+            if (node && 'x' in node && 'y' in node && 'width' in node && 'height' in node) {
+                nodes.push(node);
+            }
+        }
+        if (nodes.length === 0)
+            throw new Error('No captureable nodes for selection mode');
+        return getUnionBounds(nodes.map(sceneNodeToRect));
+    }
+    // mode === 'page'
+    const pageRects = [];
+    for (const child of figma.currentPage.children) {
+        if ('x' in child && 'y' in child && 'width' in child && 'height' in child) {
+            pageRects.push(sceneNodeToRect(child));
+        }
+    }
+    if (pageRects.length === 0) {
+        const center = figma.viewport.center;
+        return {
+            x: center.x - 500,
+            y: center.y - 500,
+            width: 1000,
+            height: 1000,
+        };
+    }
+    return getUnionBounds(pageRects);
+}
+// ===== Helper Functions =====
+function sceneNodeToRect(node) {
+    const r = node.absoluteRenderBounds;
+    if (r && Number.isFinite(r.width) && Number.isFinite(r.height) && r.width > 0 && r.height > 0) {
+        return { x: r.x, y: r.y, width: r.width, height: r.height };
+    }
+    return { x: node.x, y: node.y, width: node.width, height: node.height };
+}
+function getUnionBounds(rects) {
+    if (rects.length === 0)
+        return { x: 0, y: 0, width: 0, height: 0 };
+    const minX = Math.min(...rects.map((r) => r.x));
+    const minY = Math.min(...rects.map((r) => r.y));
+    const maxX = Math.max(...rects.map((r) => r.x + r.width));
+    const maxY = Math.max(...rects.map((r) => r.y + r.height));
+    return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+}
+function countOverlaps(candidates, blockers) {
+    let count = 0;
+    for (const c of candidates) {
+        if (isDegenerateRect(c))
+            continue;
+        for (const b of blockers) {
+            if (isDegenerateRect(b))
+                continue;
+            if (rectsOverlap(c, b)) {
+                count += 1;
+            }
+        }
+    }
+    return count;
+}
+function rectInside(rect, container, padding = 0) {
+    return (rect.x >= container.x + padding &&
+        rect.y >= container.y + padding &&
+        rect.x + rect.width <= container.x + container.width - padding &&
+        rect.y + rect.height <= container.y + container.height - padding);
+}
+function clampRectIntoContainer(rect, container, padding = 0) {
+    const minX = container.x + padding;
+    const minY = container.y + padding;
+    const maxX = container.x + container.width - padding - rect.width;
+    const maxY = container.y + container.height - padding - rect.height;
+    return Object.assign(Object.assign({}, rect), { x: Math.max(minX, Math.min(maxX, rect.x)), y: Math.max(minY, Math.min(maxY, rect.y)) });
+}
+function evaluateArrangementQuality(candidates, blockers) {
+    const overlapCount = countOverlaps(candidates, blockers);
+    const overlapBetweenCandidates = countCandidateOverlaps(candidates);
+    let minGap = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+            const a = candidates[i];
+            const b = candidates[j];
+            const gapX = Math.max(0, Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width));
+            const gapY = Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height));
+            minGap = Math.min(minGap, Math.max(gapX, gapY));
+        }
+    }
+    if (!Number.isFinite(minGap))
+        minGap = 0;
+    return { overlapCount, overlapBetweenCandidates, minGap };
+}
+function countCandidateOverlaps(candidates) {
+    let count = 0;
+    for (let i = 0; i < candidates.length; i++) {
+        if (isDegenerateRect(candidates[i]))
+            continue;
+        for (let j = i + 1; j < candidates.length; j++) {
+            if (isDegenerateRect(candidates[j]))
+                continue;
+            if (rectsOverlap(candidates[i], candidates[j])) {
+                count += 1;
+            }
+        }
+    }
+    return count;
+}
+function rectsOverlap(a, b) {
+    if (isDegenerateRect(a) || isDegenerateRect(b))
+        return false;
+    return !(a.x + a.width <= b.x ||
+        b.x + b.width <= a.x ||
+        a.y + a.height <= b.y ||
+        b.y + b.height <= a.y);
+}
+function isDegenerateRect(rect, eps = 0.5) {
+    return (!Number.isFinite(rect.width) ||
+        !Number.isFinite(rect.height) ||
+        rect.width <= eps ||
+        rect.height <= eps);
+}
+function resolveCollisionCandidate(rect, blockers, placed, layout, spacingX, spacingY, policy = 'preserve_lane', container, containerPadding = 0) {
+    const normalizedSpacingX = Number.isFinite(spacingX) ? Math.max(0, spacingX) : 0;
+    const normalizedSpacingY = Number.isFinite(spacingY) ? Math.max(0, spacingY) : 0;
+    const collisionPad = Math.max(normalizedSpacingX, normalizedSpacingY);
+    const stepX = policy === 'min_move'
+        ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingX) / 3)))
+        : Math.max(16, Math.round(Math.max(20, normalizedSpacingX) / 2));
+    const stepY = policy === 'min_move'
+        ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingY) / 3)))
+        : Math.max(16, Math.round(Math.max(20, normalizedSpacingY) / 2));
+    const maxTries = policy === 'strict_no_overlap' ? 3600 : 500;
+    const maxCrossShift = policy === 'strict_no_overlap'
+        ? Number.POSITIVE_INFINITY
+        : (policy === 'min_move' ? Math.max(stepY * 2, 80) : stepY * 2);
+    const maxPrimaryShift = policy === 'strict_no_overlap'
+        ? Number.POSITIVE_INFINITY
+        : (policy === 'min_move' ? Math.max(stepX * 10, 480) : Math.max(stepX * 18, 900));
+    const candidateSet = new Set();
+    const obstacleRects = [...blockers, ...placed];
+    const clampInContainer = (r) => {
+        if (!container)
+            return r;
+        return clampRectIntoContainer(r, container, containerPadding);
+    };
+    const inflate = (r, pad) => {
+        if (!pad)
+            return r;
+        return {
+            x: r.x - pad,
+            y: r.y - pad,
+            width: r.width + pad * 2,
+            height: r.height + pad * 2,
+        };
+    };
+    const normalize = (r) => {
+        const normalized = clampInContainer(r);
+        return isDegenerateRect(normalized) ? null : normalized;
+    };
+    const collides = (r) => {
+        const normalized = normalize(r);
+        if (!normalized)
+            return false;
+        const expandedCandidate = inflate(normalized, collisionPad);
+        for (const b of blockers) {
+            if (isDegenerateRect(b))
+                continue;
+            if (rectsOverlap(expandedCandidate, inflate(b, collisionPad)))
+                return true;
+        }
+        for (const p of placed) {
+            if (isDegenerateRect(p))
+                continue;
+            if (rectsOverlap(expandedCandidate, inflate(p, collisionPad)))
+                return true;
+        }
+        return false;
+    };
+    const addCandidate = (pool, x, y) => {
+        const normalized = normalize(Object.assign(Object.assign({}, rect), { x, y, width: rect.width, height: rect.height }));
+        if (!normalized)
+            return;
+        const key = `${normalized.x},${normalized.y}`;
+        if (candidateSet.has(key))
+            return;
+        candidateSet.add(key);
+        pool.push(normalized);
+    };
+    const rankByDistance = (a, b) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+    let candidate = clampInContainer(Object.assign({}, rect));
+    if (!collides(candidate))
+        return candidate;
+    const fallbackCandidates = [];
+    if (layout === 'row') {
+        for (let i = 1; i < maxTries; i++) {
+            if (i * stepX > maxPrimaryShift)
+                break;
+            const px = rect.x + i * stepX;
+            const py = rect.y;
+            const primary = Object.assign(Object.assign({}, rect), { x: px, y: py });
+            if (!collides(primary))
+                return clampInContainer(primary);
+            if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
+                for (const dy of [stepY, -stepY, stepY * 2, -stepY * 2]) {
+                    if (Math.abs(dy) > maxCrossShift)
+                        continue;
+                    const alt = Object.assign(Object.assign({}, rect), { x: px, y: py + dy });
+                    if (!collides(alt))
+                        return clampInContainer(alt);
+                }
+            }
+            if (maxCrossShift === Number.POSITIVE_INFINITY) {
+                const alt = Object.assign(Object.assign({}, rect), { x: px, y: rect.y + i * stepY });
+                if (!collides(alt))
+                    return clampInContainer(alt);
+            }
+        }
+    }
+    else if (layout === 'column') {
+        for (let i = 1; i < maxTries; i++) {
+            if (i * stepY > maxPrimaryShift)
+                break;
+            const py = rect.y + i * stepY;
+            const px = rect.x;
+            const primary = Object.assign(Object.assign({}, rect), { x: px, y: py });
+            if (!collides(primary))
+                return clampInContainer(primary);
+            if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
+                for (const dx of [stepX, -stepX, stepX * 2, -stepX * 2]) {
+                    if (Math.abs(dx) > maxCrossShift)
+                        continue;
+                    const alt = Object.assign(Object.assign({}, rect), { x: px + dx, y: py });
+                    if (!collides(alt))
+                        return clampInContainer(alt);
+                }
+            }
+            if (maxCrossShift === Number.POSITIVE_INFINITY) {
+                const alt = Object.assign(Object.assign({}, rect), { x: rect.x + i * stepX, y: py });
+                if (!collides(alt))
+                    return clampInContainer(alt);
+            }
+        }
+    }
+    else {
+        for (let i = 0; i < maxTries; i++) {
+            const alt = Object.assign(Object.assign({}, rect), { x: rect.x + i * stepX, y: rect.y + i * stepY });
+            if (policy !== 'strict_no_overlap' && (i * stepX > maxPrimaryShift || i * stepY > maxPrimaryShift))
+                break;
+            if (!collides(alt))
+                return clampInContainer(alt);
+        }
+    }
+    if (policy === 'strict_no_overlap') {
+        const xs = new Set([rect.x, rect.x - stepX, rect.x + stepX]);
+        const ys = new Set([rect.y, rect.y - stepY, rect.y + stepY]);
+        for (const obs of obstacleRects) {
+            if (isDegenerateRect(obs))
+                continue;
+            xs.add(obs.x - rect.width - normalizedSpacingX);
+            xs.add(obs.x + obs.width + normalizedSpacingX);
+            xs.add(obs.x);
+            xs.add(obs.x + obs.width - rect.width);
+            ys.add(obs.y - rect.height - normalizedSpacingY);
+            ys.add(obs.y + obs.height + normalizedSpacingY);
+            ys.add(obs.y);
+            ys.add(obs.y + obs.height - rect.height);
+        }
+        const orderedX = Array.from(xs).sort((a, b) => Math.abs(a - rect.x) - Math.abs(b - rect.x) || a - b);
+        const orderedY = Array.from(ys).sort((a, b) => Math.abs(a - rect.y) - Math.abs(b - rect.y) || a - b);
+        for (const y of orderedY) {
+            for (const x of orderedX) {
+                addCandidate(fallbackCandidates, x, y);
+            }
+        }
+        const ringLimit = Math.max(120, Math.ceil(3600 / Math.max(stepX, 1)));
+        for (let ring = 1; ring <= ringLimit; ring++) {
+            const dx = ring * stepX;
+            const dy = ring * stepY;
+            addCandidate(fallbackCandidates, rect.x + dx, rect.y);
+            addCandidate(fallbackCandidates, rect.x - dx, rect.y);
+            addCandidate(fallbackCandidates, rect.x, rect.y + dy);
+            addCandidate(fallbackCandidates, rect.x, rect.y - dy);
+            addCandidate(fallbackCandidates, rect.x + dx, rect.y + dy);
+            addCandidate(fallbackCandidates, rect.x - dx, rect.y + dy);
+            addCandidate(fallbackCandidates, rect.x + dx, rect.y - dy);
+            addCandidate(fallbackCandidates, rect.x - dx, rect.y - dy);
+            if (ring > maxTries)
+                break;
+        }
+        fallbackCandidates.sort((a, b) => rankByDistance(a, rect) - rankByDistance(b, rect));
+        for (const fallback of fallbackCandidates) {
+            if (!collides(fallback))
+                return fallback;
+        }
+    }
+    return candidate;
+}
+function isPositionableNode(node) {
+    return (!!node &&
+        node.type !== 'DOCUMENT' &&
+        node.type !== 'PAGE' &&
+        'x' in node &&
+        'y' in node &&
+        'width' in node &&
+        'height' in node);
+}
+function collapseFullSelectionGroups(nodes) {
+    var _a;
+    const selectedIds = new Set(nodes.map((node) => node.id));
+    const parentToChildren = new Map();
+    const promotableParentTypes = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
+    for (const node of nodes) {
+        const parent = node.parent;
+        if (!parent || parent.type === 'PAGE' || parent.type === 'DOCUMENT')
+            continue;
+        if (!promotableParentTypes.includes(parent.type) || selectedIds.has(parent.id))
+            continue;
+        const entry = parentToChildren.get(parent.id);
+        if (entry) {
+            entry.selectedChildren.add(node.id);
+        }
+        else {
+            parentToChildren.set(parent.id, { parent, selectedChildren: new Set([node.id]) });
+        }
+    }
+    const parentToPromote = new Set();
+    for (const { parent, selectedChildren } of parentToChildren.values()) {
+        const children = parent.children.filter(isPositionableNode);
+        if (children.length < 2)
+            continue;
+        const allChildrenSelected = children.every((child) => selectedIds.has(child.id));
+        if (!allChildrenSelected)
+            continue;
+        if (children.some((child) => selectedChildren.has(child.id))) {
+            parentToPromote.add(parent.id);
+        }
+    }
+    if (parentToPromote.size === 0)
+        return nodes;
+    const collapsed = nodes.filter((node) => {
+        const parent = node.parent;
+        return !(parent && parentToPromote.has(parent.id));
+    });
+    const promotedNodes = new Set(collapsed.map((node) => node.id));
+    for (const id of parentToPromote) {
+        const parentNode = (_a = parentToChildren.get(id)) === null || _a === void 0 ? void 0 : _a.parent;
+        if (parentNode && isPositionableNode(parentNode) && !promotedNodes.has(parentNode.id)) {
+            const parentScene = parentNode;
+            collapsed.push(parentScene);
+            promotedNodes.add(parentScene.id);
+        }
+    }
+    return dedupeNodes(collapsed);
+}
+function getNodePage(node) {
+    let current = node;
+    while (current) {
+        if (current.type === 'PAGE')
+            return current;
+        current = current.parent;
+    }
+    return null;
+}
+function normalizeArrangeGroupLabel(raw) {
+    return raw
+        .replace(/\s+/g, ' ')
+        .replace(/\/\./g, '-')
+        .trim();
+}
+async function resolveArrangeGroup(node, groupBy) {
+    if (groupBy === 'none') {
+        return {
+            groupKey: 'all',
+            groupLabel: 'all',
+        };
+    }
+    const category = node.type;
+    if (groupBy === 'type') {
+        return {
+            groupKey: category,
+            groupLabel: category,
+        };
+    }
+    let componentName = '';
+    if (node.type === 'INSTANCE') {
+        const component = await getInstanceMainComponentSafe(node);
+        if (component === null || component === void 0 ? void 0 : component.name)
+            componentName = component.name;
+    }
+    else if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+        componentName = node.name;
+    }
+    if (!componentName) {
+        return {
+            groupKey: category,
+            groupLabel: category,
+        };
+    }
+    const normalized = normalizeArrangeGroupLabel(componentName);
+    return {
+        groupKey: `${category}::${normalized}`,
+        groupLabel: `${category}: ${normalized}`,
+    };
+}
+async function getInstanceMainComponentSafe(instance) {
+    var _a;
+    try {
+        if (typeof instance.getMainComponentAsync === 'function') {
+            return await instance.getMainComponentAsync();
+        }
+    }
+    catch (_b) {
+        // Fall through to legacy sync access.
+    }
+    try {
+        return (_a = instance.mainComponent) !== null && _a !== void 0 ? _a : null;
+    }
+    catch (_c) {
+        return null;
+    }
+}
+function dedupeNodes(nodes) {
+    const seen = new Set();
+    const out = [];
+    for (const node of nodes) {
+        if (!seen.has(node.id)) {
+            seen.add(node.id);
+            out.push(node);
+        }
+    }
+    return out;
+}
+function isSceneNode(node) {
+    return Boolean(node) && node.type !== 'DOCUMENT' && node.type !== 'PAGE';
+}
+async function traverseNodes(node, callback) {
+    if (node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+        const shouldContinue = await callback(node);
+        if (!shouldContinue)
+            return;
+    }
+    if ('children' in node) {
+        for (const child of node.children) {
+            await traverseNodes(child, callback);
+        }
+    }
+}
+function nodeToInfo(node, includeChildren = false) {
+    var _a;
+    const info = {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        visible: node.visible,
+        locked: node.locked,
+    };
+    if ('opacity' in node)
+        info.opacity = node.opacity;
+    if ('blendMode' in node)
+        info.blendMode = node.blendMode;
+    if ('x' in node) {
+        info.x = node.x;
+        info.y = node.y;
+        info.width = node.width;
+        info.height = node.height;
+        if ('rotation' in node)
+            info.rotation = node.rotation;
+    }
+    if ('fills' in node)
+        info.fills = node.fills;
+    if ('strokes' in node)
+        info.strokes = node.strokes;
+    if ('strokeWeight' in node && typeof node.strokeWeight === 'number')
+        info.strokeWeight = node.strokeWeight;
+    if ('strokeAlign' in node)
+        info.strokeAlign = node.strokeAlign;
+    if ('topLeftRadius' in node) {
+        info.cornerRadius = [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius];
+    }
+    else if ('cornerRadius' in node && typeof node.cornerRadius === 'number') {
+        info.cornerRadius = node.cornerRadius;
+    }
+    if ('layoutMode' in node) {
+        const frame = node;
+        info.layoutMode = frame.layoutMode;
+        info.primaryAxisAlignItems = frame.primaryAxisAlignItems;
+        info.counterAxisAlignItems = frame.counterAxisAlignItems;
+        info.paddingTop = frame.paddingTop;
+        info.paddingRight = frame.paddingRight;
+        info.paddingBottom = frame.paddingBottom;
+        info.paddingLeft = frame.paddingLeft;
+        info.itemSpacing = frame.itemSpacing;
+    }
+    if (node.type === 'INSTANCE') {
+        try {
+            const mainComponent = node.mainComponent;
+            if (mainComponent) {
+                info.mainComponent = {
+                    id: mainComponent.id,
+                    name: mainComponent.name,
+                    type: mainComponent.type,
+                };
+            }
+        }
+        catch (_b) {
+            // Dynamic-page mode can throw on sync access; omit optional field.
+        }
+    }
+    if (node.type === 'COMPONENT') {
+        const component = node;
+        // Check if part of variant
+        if (((_a = component.parent) === null || _a === void 0 ? void 0 : _a.type) === 'COMPONENT_SET') {
+            try {
+                info.variantProperties = component.variantProperties || undefined;
+            }
+            catch (_c) {
+                // Some broken component sets can throw from variantProperties getter.
+                info.variantProperties = undefined;
+            }
+        }
+    }
+    if ('reactions' in node) {
+        info.reactions = [...node.reactions];
+    }
+    if (includeChildren && 'children' in node) {
+        info.children = node.children.map(c => c.id);
+    }
+    if (node.parent) {
+        info.parent = node.parent.id;
+    }
+    return info;
+}
+function getNodeChildren(node, maxDepth, currentDepth, state, maxChildrenPerNode = 200) {
+    if (currentDepth >= maxDepth || !('children' in node)) {
+        return [];
+    }
+    const children = node.children;
+    const maxChildren = Math.min(children.length, Math.max(1, maxChildrenPerNode));
+    if (children.length > maxChildren && state) {
+        state.truncated = true;
+    }
+    const out = [];
+    for (let i = 0; i < maxChildren; i += 1) {
+        if (state && state.remaining <= 0) {
+            state.truncated = true;
+            break;
+        }
+        const child = children[i];
+        if (state)
+            state.remaining -= 1;
+        out.push({
+            id: child.id,
+            name: child.name,
+            type: child.type,
+            children: getNodeChildren(child, maxDepth, currentDepth + 1, state, maxChildrenPerNode),
+        });
+    }
+    if (state && state.remaining <= 0 && children.length > out.length) {
+        state.truncated = true;
+    }
+    return out;
+}
+function applyNodeProperties(node, properties) {
+    if (properties.x !== undefined && 'x' in node)
+        node.x = properties.x;
+    if (properties.y !== undefined && 'y' in node)
+        node.y = properties.y;
+    if ((properties.width !== undefined || properties.height !== undefined) && 'resize' in node && typeof node.resize === 'function') {
+        const nextWidth = properties.width !== undefined ? properties.width : node.width;
+        const nextHeight = properties.height !== undefined ? properties.height : node.height;
+        node.resize(nextWidth, nextHeight);
+    }
+    if (properties.rotation !== undefined && 'rotation' in node)
+        node.rotation = properties.rotation;
+    if (properties.opacity !== undefined && 'opacity' in node)
+        node.opacity = properties.opacity;
+    if (properties.name !== undefined)
+        node.name = properties.name;
+    if (properties.visible !== undefined)
+        node.visible = properties.visible;
+    if (properties.fills !== undefined && 'fills' in node) {
+        node.fills = normalizePaintArray(properties.fills);
+    }
+    if (properties.strokes !== undefined && 'strokes' in node) {
+        node.strokes = normalizePaintArray(properties.strokes);
+    }
+    if (properties.layoutMode !== undefined && 'layoutMode' in node) {
+        node.layoutMode = properties.layoutMode;
+    }
+}
+function extractFeatures(node) {
+    const features = {
+        type: node.type,
+        width: 'width' in node ? node.width : 0,
+        height: 'height' in node ? node.height : 0,
+    };
+    if ('fills' in node) {
+        const rawFills = node.fills;
+        const fills = Array.isArray(rawFills) ? rawFills : [];
+        const solidFill = fills.find(f => f.type === 'SOLID');
+        if (solidFill) {
+            features.fillColor = solidFill.color;
+            features.fillOpacity = solidFill.opacity;
+        }
+    }
+    if ('cornerRadius' in node) {
+        features.cornerRadius = node.cornerRadius;
+    }
+    if ('layoutMode' in node) {
+        features.hasAutoLayout = node.layoutMode !== 'NONE';
+    }
+    if ('children' in node) {
+        features.childCount = node.children.length;
+        features.childTypes = node.children.map(c => c.type);
+    }
+    return features;
+}
+function calculateSimilarity(a, b) {
+    let score = 0;
+    let total = 0;
+    if (a.type === b.type)
+        score += 1;
+    total += 1;
+    const sizeDiff = Math.abs(a.width - b.width) / Math.max(a.width, b.height) +
+        Math.abs(a.height - b.height) / Math.max(a.height, b.height);
+    score += Math.max(0, 1 - sizeDiff);
+    total += 1;
+    if (a.fillColor && b.fillColor) {
+        // ΔE2000 of 50 or more (e.g. blue vs orange) counts as no color similarity.
+        score += Math.max(0, 1 - deltaE2000(a.fillColor, b.fillColor) / 50);
+        total += 1;
+    }
+    if (a.cornerRadius !== undefined && b.cornerRadius !== undefined) {
+        score += a.cornerRadius === b.cornerRadius ? 1 : 0;
+        total += 1;
+    }
+    if (a.hasAutoLayout !== undefined && b.hasAutoLayout !== undefined) {
+        score += a.hasAutoLayout === b.hasAutoLayout ? 1 : 0;
+        total += 1;
+    }
+    return score / total;
+}
+async function groupSimilarNodes(nodeIds) {
+    const nodes = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node)
+            nodes.push(node);
+    }
+    const groups = [];
+    for (const node of nodes) {
+        const features = extractFeatures(node);
+        let added = false;
+        for (const group of groups) {
+            if (calculateSimilarity(features, group.features) >= 0.85) {
+                group.nodes.push(node);
+                added = true;
+                break;
+            }
+        }
+        if (!added) {
+            groups.push({ nodes: [node], features });
+        }
+    }
+    return groups.map(g => g.nodes.map(n => n.id));
+}
+function groupBySimilarity(nodes) {
+    const groups = [];
+    for (const node of nodes) {
+        const features = extractFeatures(node);
+        let added = false;
+        for (const group of groups) {
+            if (calculateSimilarity(features, group.features) >= 0.8) {
+                group.nodes.push(node);
+                added = true;
+                break;
+            }
+        }
+        if (!added) {
+            groups.push({ nodes: [node], features });
+        }
+    }
+    return groups.map(g => g.nodes);
+}
+function isButtonLike(node) {
+    const name = node.name.toLowerCase();
     return name.includes('button') || name.includes('btn') ||
         (node.type === 'FRAME' && 'width' in node && node.width >= 80 && node.width <= 300 &&
             node.height >= 32 && node.height <= 60);
@@ -3541,23 +6253,6 @@ function isInputLike(node) {
     return name.includes('input') || name.includes('field') || name.includes('textfield') ||
         (node.type === 'FRAME' && 'width' in node && node.width >= 150 && node.height >= 32 && node.height <= 56);
 }
-function matchesColorQuery(color, query) {
-    const colorMap = {
-        'red': { r: 1, g: 0, b: 0 },
-        'blue': { r: 0, g: 0.5, b: 1 },
-        'green': { r: 0, g: 1, b: 0 },
-        'yellow': { r: 1, g: 1, b: 0 },
-        'black': { r: 0, g: 0, b: 0 },
-        'white': { r: 1, g: 1, b: 1 },
-    };
-    const target = colorMap[query.toLowerCase()];
-    if (!target)
-        return false;
-    const threshold = 0.3;
-    return Math.abs(color.r - target.r) < threshold &&
-        Math.abs(color.g - target.g) < threshold &&
-        Math.abs(color.b - target.b) < threshold;
-}
 function generateComponentName(node) {
     if (isButtonLike(node))
         return 'Button';
@@ -3615,10 +6310,21 @@ async function findNodeWithSimilarName(root, baseName, targetName) {
     });
     return result;
 }
-function sendProgress(operation, current, total, message) {
-    // Find pending operation and send progress
-    // This is a simplified version
+function postPluginEvent(event, payload) {
+    if (!isConnected)
+        return;
+    // The UI forwards plugin_event messages to the relay as-is.
+    figma.ui.postMessage({
+        type: 'plugin_event',
+        payload: { type: 'plugin_event', event, payload },
+    });
+}
+function sendProgress(operation, current, total, message, stage) {
     console.log(`[${operation}] ${current}/${total}: ${message}`);
+    const operationId = activeOperationIds.get(operation);
+    if (!operationId)
+        return;
+    postPluginEvent('progress', { operationId, tool: operation, current, total, message, stage });
 }
 // ===== Plugin UI =====
 figma.showUI(__html__, { width: 320, height: 400, themeColors: true });
@@ -3632,6 +6338,72 @@ function withTimeout(promise, timeoutMs, label) {
             clearTimeout(timer);
     });
 }
+// ===== Document change reporting (MCP resource subscriptions) =====
+const DOCUMENT_CHANGE_FLUSH_MS = 400;
+const DOCUMENT_CHANGE_MAX_NODE_IDS = 500;
+let pendingDocumentChange = null;
+let documentChangeFlushTimer = null;
+let observedPage = null;
+function flushDocumentChange() {
+    documentChangeFlushTimer = null;
+    const change = pendingDocumentChange;
+    pendingDocumentChange = null;
+    if (!change)
+        return;
+    postPluginEvent('document_changed', {
+        pageId: change.pageId || undefined,
+        nodeIds: [...change.nodeIds].slice(0, DOCUMENT_CHANGE_MAX_NODE_IDS),
+        nodeIdsTruncated: change.nodeIds.size > DOCUMENT_CHANGE_MAX_NODE_IDS,
+        stylesChanged: change.stylesChanged,
+    });
+}
+function queueDocumentChange(change) {
+    if (!isConnected)
+        return;
+    if (!pendingDocumentChange) {
+        pendingDocumentChange = { pageId: null, nodeIds: new Set(), stylesChanged: false };
+    }
+    if (change.pageId)
+        pendingDocumentChange.pageId = change.pageId;
+    for (const nodeId of change.nodeIds || [])
+        pendingDocumentChange.nodeIds.add(nodeId);
+    if (change.stylesChanged)
+        pendingDocumentChange.stylesChanged = true;
+    if (!documentChangeFlushTimer) {
+        documentChangeFlushTimer = setTimeout(flushDocumentChange, DOCUMENT_CHANGE_FLUSH_MS);
+    }
+}
+function handleNodeChange(event) {
+    const nodeIds = [];
+    for (const change of event.nodeChanges) {
+        nodeIds.push(change.id);
+        // Property changes on a child alter the parent's subtree as well.
+        const parent = change.type !== 'DELETE' ? change.node.parent : null;
+        if (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT')
+            nodeIds.push(parent.id);
+    }
+    queueDocumentChange({ pageId: observedPage === null || observedPage === void 0 ? void 0 : observedPage.id, nodeIds });
+}
+function observeCurrentPage() {
+    if (observedPage) {
+        try {
+            observedPage.off('nodechange', handleNodeChange);
+        }
+        catch (_a) {
+            // Page may already be unloaded.
+        }
+    }
+    observedPage = figma.currentPage;
+    observedPage.on('nodechange', handleNodeChange);
+}
+observeCurrentPage();
+figma.on('currentpagechange', () => {
+    observeCurrentPage();
+    queueDocumentChange({ pageId: figma.currentPage.id });
+});
+figma.on('stylechange', () => {
+    queueDocumentChange({ stylesChanged: true });
+});
 // Handle messages from UI (WebSocket messages)
 figma.ui.onmessage = async (msg) => {
     var _a;
@@ -3708,16 +6480,8 @@ figma.ui.onmessage = async (msg) => {
     }
 };
 // ===== NEW FUNCTIONS: Frame to Components =====
-async function frameToComponents(frameId, strategy = 'smart', groupSimilar = true, createVariants = false, organizeOnPage = true, minSize = { width: 50, height: 30 }, excludeTypes = ['GROUP', 'SECTION']) {
-    const frame = await figma.getNodeByIdAsync(frameId);
-    if (!frame || frame.type !== 'FRAME') {
-        throw new Error('Frame not found');
-    }
-    if (!frame.children || frame.children.length === 0) {
-        throw new Error('Frame has no children');
-    }
-    // Filter eligible children
-    let eligibleChildren = frame.children.filter(child => {
+function filterFrameComponentCandidates(frame, minSize, excludeTypes) {
+    return frame.children.filter(child => {
         if (child.type === 'INSTANCE' || child.type === 'COMPONENT' || child.type === 'COMPONENT_SET') {
             return false; // Skip existing components
         }
@@ -3729,29 +6493,49 @@ async function frameToComponents(frameId, strategy = 'smart', groupSimilar = tru
         }
         return true;
     });
-    if (eligibleChildren.length === 0) {
-        return { message: 'No eligible children found' };
-    }
-    // Group children based on strategy
-    let groups = [];
+}
+async function groupFrameComponentCandidates(children, strategy) {
     switch (strategy) {
         case 'smart':
-            groups = await groupChildrenSmart(eligibleChildren);
-            break;
+            return groupChildrenSmart(children);
         case 'by_type':
-            groups = groupChildrenByType(eligibleChildren);
-            break;
+            return groupChildrenByType(children);
         case 'by_name':
-            groups = groupChildrenByName(eligibleChildren);
-            break;
+            return groupChildrenByName(children);
         case 'all_children':
-            groups = eligibleChildren.map(child => ({ nodes: [child], name: child.name }));
-            break;
+            return children.map(child => ({ nodes: [child], name: child.name }));
+        default:
+            return [];
+    }
+}
+async function frameToComponents(frameId, strategy = 'smart', groupSimilar = true, createVariants = false, organizeOnPage = true, minSize = { width: 50, height: 30 }, excludeTypes = ['GROUP', 'SECTION']) {
+    const frame = await figma.getNodeByIdAsync(frameId);
+    if (!frame || frame.type !== 'FRAME') {
+        throw new Error('Frame not found');
+    }
+    if (!frame.children || frame.children.length === 0) {
+        throw new Error('Frame has no children');
     }
+    // Stage indices match getOperationStages('frame_to_components') on the server.
+    sendProgress('frame_to_components', 0, frame.children.length, 'Analyzing frame structure', 0);
+    const eligibleChildren = filterFrameComponentCandidates(frame, minSize, excludeTypes);
+    if (eligibleChildren.length === 0) {
+        return { message: 'No eligible children found' };
+    }
+    // Group children based on strategy
+    sendProgress('frame_to_components', 0, eligibleChildren.length, `Grouping ${eligibleChildren.length} children (${strategy})`, 1);
+    const groups = await groupFrameComponentCandidates(eligibleChildren, strategy);
     // Create components for each group
     const createdComponents = [];
     const componentSetIds = [];
-    for (const group of groups) {
+    let cancelled = false;
+    for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+        if (await cancellationCheckpoint('frame_to_components')) {
+            cancelled = true;
+            break;
+        }
+        const group = groups[groupIndex];
+        sendProgress('frame_to_components', groupIndex, groups.length, `Creating component ${groupIndex + 1}/${groups.length}`, 2);
         if (group.nodes.length === 0)
             continue;
         // Create component from first node
@@ -3804,8 +6588,9 @@ async function frameToComponents(frameId, strategy = 'smart', groupSimilar = tru
         // Remove the original main node
         mainNode.remove();
     }
+    sendProgress('frame_to_components', groups.length, groups.length, 'Organizing output', 3);
     // Create variant sets if requested and groups have multiple nodes
-    if (createVariants) {
+    if (createVariants && !cancelled) {
         for (const group of groups) {
             if (group.nodes.length >= 2) {
                 // Find created components for this group
@@ -3834,7 +6619,7 @@ async function frameToComponents(frameId, strategy = 'smart', groupSimilar = tru
         }
     }
     // Organize on Components page if requested
-    if (organizeOnPage) {
+    if (organizeOnPage && !cancelled) {
         let componentsPage = figma.root.children.find(p => p.name === 'Components');
         if (!componentsPage) {
             componentsPage = figma.createPage();
@@ -3857,6 +6642,7 @@ async function frameToComponents(frameId, strategy = 'smart', groupSimilar = tru
         componentSetsCreated: componentSetIds.length,
         components: createdComponents,
         componentSetIds,
+        cancelled,
     };
 }
 async function analyzeFrameStructure(frameId, detectDuplicates = true, minSimilarity = 0.85) {
@@ -4007,43 +6793,49 @@ async function crossPageMove(nodeIds, sourcePageId, targetPageId, maintainPositi
     }
     return Object.assign(Object.assign({}, result), { moved: result.copied, deletedFromSource: deleted.length });
 }
-async function batchEditAcrossPages(operations) {
+async function batchEditAcrossPages(operations, atomic = false) {
     await ensureAllPagesLoaded();
     const results = [];
     const errors = [];
     // Group by page
     const pageGroups = new Map();
-    for (const op of operations) {
+    operations.forEach((op, index) => {
         if (!pageGroups.has(op.pageId)) {
             pageGroups.set(op.pageId, []);
         }
-        pageGroups.get(op.pageId).push({ nodeId: op.nodeId, changes: op.changes });
-    }
+        pageGroups.get(op.pageId).push({ nodeId: op.nodeId, changes: op.changes, index });
+    });
     const originalPage = figma.currentPage;
-    for (const [pageId, ops] of pageGroups) {
-        const page = await figma.getNodeByIdAsync(pageId);
-        if (!page) {
-            errors.push({ pageId, error: 'Page not found' });
-            continue;
-        }
-        await figma.setCurrentPageAsync(page);
-        for (const op of ops) {
-            try {
-                const node = await figma.getNodeByIdAsync(op.nodeId);
-                if (!node) {
-                    errors.push({ pageId, nodeId: op.nodeId, error: 'Node not found' });
-                    continue;
-                }
-                applyNodeProperties(node, op.changes);
-                results.push({ pageId, nodeId: op.nodeId, success: true });
+    try {
+        for (const [pageId, ops] of pageGroups) {
+            const page = await figma.getNodeByIdAsync(pageId);
+            if (!page) {
+                if (atomic)
+                    throw atomicBatchError(ops[0].index, pageId, 'Page not found');
+                errors.push({ pageId, error: 'Page not found' });
+                continue;
             }
-            catch (error) {
-                const msg = error instanceof Error ? error.message : String(error);
-                errors.push({ pageId, nodeId: op.nodeId, error: msg });
+            await figma.setCurrentPageAsync(page);
+            for (const op of ops) {
+                try {
+                    const node = await figma.getNodeByIdAsync(op.nodeId);
+                    if (!node)
+                        throw new Error('Node not found');
+                    applyNodeProperties(node, op.changes);
+                    results.push({ pageId, nodeId: op.nodeId, success: true });
+                }
+                catch (error) {
+                    if (atomic)
+                        throw atomicBatchError(op.index, op.nodeId, error);
+                    const msg = error instanceof Error ? error.message : String(error);
+                    errors.push({ pageId, nodeId: op.nodeId, error: msg });
+                }
             }
         }
     }
-    await figma.setCurrentPageAsync(originalPage);
+    finally {
+        await figma.setCurrentPageAsync(originalPage);
+    }
     return {
         success: results.length,
         failed: errors.length,
@@ -4577,6 +7369,45 @@ async function createVector(x, y, width, height, options) {
     await appendToTargetParent(vector, options.parentId);
     return { id: vector.id, name: vector.name, type: vector.type };
 }
+// SVG markup -> editable vector layers (a frame sized to the SVG viewBox), optionally flattened or turned into a component.
+async function importSvg(options) {
+    var _a;
+    const svg = typeof options.svg === 'string' ? options.svg.trim() : '';
+    if (!/<svg[\s/>]/i.test(svg))
+        throw new Error('svg must contain an <svg> element');
+    const scale = (_a = options.scale) !== null && _a !== void 0 ? _a : 1;
+    if (typeof scale !== 'number' || !(scale > 0))
+        throw new Error('scale must be a positive number');
+    // figma.fileKey is only exposed to private plugins; when it is, refuse to land components in the wrong file.
+    // Otherwise the import goes ahead and reports targetVerified: false so the caller can warn.
+    if (options.expectedFileKey && figma.fileKey && figma.fileKey !== options.expectedFileKey) {
+        throw new Error(`Open file is ${figma.fileKey}, expected ${options.expectedFileKey}`);
+    }
+    const targetVerified = options.expectedFileKey ? figma.fileKey === options.expectedFileKey : undefined;
+    const frame = figma.createNodeFromSvg(svg);
+    if (options.name)
+        frame.name = options.name;
+    if (scale !== 1)
+        frame.rescale(scale);
+    let flattened = false;
+    if (options.flatten === true && frame.children.length > 0) {
+        const vector = figma.flatten([...frame.children], frame);
+        vector.name = frame.name;
+        flattened = true;
+    }
+    await appendToTargetParent(frame, options.parentId);
+    if (options.x !== undefined)
+        frame.x = options.x;
+    if (options.y !== undefined)
+        frame.y = options.y;
+    let node = frame;
+    if (options.asComponent === true) {
+        node = figma.createComponentFromNode(frame);
+        if (options.description)
+            node.description = options.description;
+    }
+    return Object.assign(Object.assign({ id: node.id, name: node.name, type: node.type, x: node.x, y: node.y, width: node.width, height: node.height, childCount: node.children.length, flattened }, (node.type === 'COMPONENT' ? { componentId: node.id, componentKey: node.key } : {})), (targetVerified !== undefined ? { targetVerified } : {}));
+}
 async function createGroup(nodeIds, name, parentId) {
     const nodes = [];
     for (const id of nodeIds || []) {
@@ -4681,1202 +7512,3803 @@ async function createSticky(x, y, text, color, parentId) {
         await appendToTargetParent(note, parentId);
         return { id: note.id, type: note.type, text: text || '' };
     }
-    const sticky = figma.createSticky();
-    sticky.x = x;
-    sticky.y = y;
-    if (color)
-        sticky.color = color;
-    if (text) {
-        await figma.loadFontAsync(sticky.text.fontName);
-        sticky.text.characters = text;
+    const sticky = figma.createSticky();
+    sticky.x = x;
+    sticky.y = y;
+    if (color)
+        sticky.color = color;
+    if (text) {
+        await figma.loadFontAsync(sticky.text.fontName);
+        sticky.text.characters = text;
+    }
+    await appendToTargetParent(sticky, parentId);
+    return { id: sticky.id, type: sticky.type, text: sticky.text.characters };
+}
+async function createShapeWithText(x, y, width, height, options) {
+    if (typeof figma.createShapeWithText !== 'function') {
+        // Fallback for non-FigJam editors.
+        const frame = figma.createFrame();
+        frame.x = x;
+        frame.y = y;
+        frame.resize(width, height);
+        frame.fills = options.fills || [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
+        frame.cornerRadius = 12;
+        if (options.text) {
+            const txt = figma.createText();
+            await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+            txt.characters = options.text;
+            txt.x = 12;
+            txt.y = 12;
+            frame.appendChild(txt);
+        }
+        await appendToTargetParent(frame, options.parentId);
+        return { id: frame.id, type: frame.type, shapeType: 'FALLBACK_FRAME' };
+    }
+    const shape = figma.createShapeWithText();
+    shape.x = x;
+    shape.y = y;
+    shape.resize(width, height);
+    if (options.shapeType)
+        shape.shapeType = options.shapeType;
+    if (options.fills)
+        shape.fills = options.fills;
+    if (options.text) {
+        await figma.loadFontAsync(shape.text.fontName);
+        shape.text.characters = options.text;
+    }
+    await appendToTargetParent(shape, options.parentId);
+    return { id: shape.id, type: shape.type, shapeType: shape.shapeType };
+}
+async function createTable(x, y, rowCount = 3, columnCount = 3, options) {
+    // Figma doesn't have native table creation, so we simulate with frames
+    const tableFrame = figma.createFrame();
+    tableFrame.x = x;
+    tableFrame.y = y;
+    tableFrame.name = options.name || 'Table';
+    tableFrame.layoutMode = 'VERTICAL';
+    tableFrame.itemSpacing = 0;
+    tableFrame.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+    const cellWidth = options.cellWidth || 100;
+    const cellHeight = options.cellHeight || 40;
+    for (let r = 0; r < rowCount; r++) {
+        const rowFrame = figma.createFrame();
+        rowFrame.name = `Row ${r + 1}`;
+        rowFrame.layoutMode = 'HORIZONTAL';
+        rowFrame.itemSpacing = 0;
+        rowFrame.layoutSizingHorizontal = 'HUG';
+        rowFrame.layoutSizingVertical = 'HUG';
+        for (let c = 0; c < columnCount; c++) {
+            const cell = figma.createFrame();
+            cell.name = `Cell ${r + 1}-${c + 1}`;
+            cell.resize(cellWidth, cellHeight);
+            cell.fills = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
+            cell.strokes = [{ type: 'SOLID', color: { r: 0.8, g: 0.8, b: 0.8 } }];
+            cell.strokeWeight = 1;
+            rowFrame.appendChild(cell);
+        }
+        tableFrame.appendChild(rowFrame);
+    }
+    await appendToTargetParent(tableFrame, options.parentId);
+    return {
+        id: tableFrame.id,
+        name: tableFrame.name,
+        type: tableFrame.type,
+        rows: rowCount,
+        columns: columnCount
+    };
+}
+// ===== BOOLEAN OPERATIONS =====
+async function booleanOperation(nodeIds, operation, name, parentId) {
+    const nodes = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node)
+            nodes.push(node);
+    }
+    if (nodes.length < 2)
+        throw new Error('Need at least 2 nodes for boolean operation');
+    let resultNode;
+    switch (operation) {
+        case 'UNION':
+            resultNode = figma.union(nodes, nodes[0].parent);
+            break;
+        case 'SUBTRACT':
+            resultNode = figma.subtract(nodes, nodes[0].parent);
+            break;
+        case 'INTERSECT':
+            resultNode = figma.intersect(nodes, nodes[0].parent);
+            break;
+        case 'EXCLUDE':
+            resultNode = figma.exclude(nodes, nodes[0].parent);
+            break;
+    }
+    if (name)
+        resultNode.name = name;
+    if (parentId) {
+        const newParent = await resolveParentForAppend(parentId);
+        if (newParent)
+            newParent.appendChild(resultNode);
+    }
+    return { id: resultNode.id, name: resultNode.name, type: resultNode.type, booleanOperation: resultNode.booleanOperation };
+}
+async function flattenNodes(nodeIds, parentId) {
+    const nodes = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node)
+            nodes.push(node);
+    }
+    if (nodes.length === 0)
+        throw new Error('No valid nodes to flatten');
+    const flattened = figma.flatten(nodes, nodes[0].parent);
+    if (parentId) {
+        const newParent = await resolveParentForAppend(parentId);
+        if (newParent)
+            newParent.appendChild(flattened);
+    }
+    return { id: flattened.id, name: flattened.name, type: flattened.type };
+}
+// ===== NODE PROPERTIES =====
+async function setConstraints(nodeId, horizontal, vertical) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    if (!('constraints' in node))
+        throw new Error('Node does not support constraints');
+    const normalize = (value) => {
+        const v = String(value).toUpperCase();
+        if (v === 'MIN' || v === 'MAX' || v === 'CENTER' || v === 'STRETCH' || v === 'SCALE')
+            return v;
+        if (v === 'LEFT' || v === 'TOP')
+            return 'MIN';
+        if (v === 'RIGHT' || v === 'BOTTOM')
+            return 'MAX';
+        if (v === 'LEFT_RIGHT' || v === 'TOP_BOTTOM')
+            return 'STRETCH';
+        throw new Error(`Unsupported constraint value: ${value}`);
+    };
+    node.constraints = {
+        horizontal: normalize(horizontal),
+        vertical: normalize(vertical),
+    };
+    return { id: node.id, constraints: node.constraints };
+}
+async function setLayoutGrid(nodeId, layoutGrids) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || node.type !== 'FRAME')
+        throw new Error('Frame not found');
+    const input = (layoutGrids || []).map((g) => (Object.assign({}, g)));
+    const trySets = [];
+    const parseNum = (v, fallback) => {
+        const n = Number(v);
+        return Number.isFinite(n) ? n : fallback;
+    };
+    const normalizeAlignment = (value, fallback = 'STRETCH') => {
+        const v = String(value || fallback).toUpperCase();
+        if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH')
+            return v;
+        return fallback;
+    };
+    const normalizePattern = (value) => {
+        const v = String(value || 'COLUMNS').toUpperCase();
+        if (v === 'GRID' || v === 'ROWS')
+            return v;
+        return 'COLUMNS';
+    };
+    const normalizeColor = (raw) => {
+        const r = Number(raw === null || raw === void 0 ? void 0 : raw.r);
+        const g = Number(raw === null || raw === void 0 ? void 0 : raw.g);
+        const b = Number(raw === null || raw === void 0 ? void 0 : raw.b);
+        const a = Number(raw === null || raw === void 0 ? void 0 : raw.a);
+        const unit = (n, fallback) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
+        return {
+            r: unit(r, 1),
+            g: unit(g, 0),
+            b: unit(b, 0),
+            a: unit(a, 0.1),
+        };
+    };
+    const normalizeGrid = (g) => {
+        var _a;
+        const pattern = normalizePattern(g === null || g === void 0 ? void 0 : g.pattern);
+        const visible = (g === null || g === void 0 ? void 0 : g.visible) !== false;
+        const color = normalizeColor(g === null || g === void 0 ? void 0 : g.color);
+        if (pattern === 'GRID') {
+            return {
+                pattern: 'GRID',
+                sectionSize: parseNum((_a = g === null || g === void 0 ? void 0 : g.sectionSize) !== null && _a !== void 0 ? _a : g === null || g === void 0 ? void 0 : g.size, 8),
+                color,
+                visible,
+            };
+        }
+        const alignment = normalizeAlignment(g === null || g === void 0 ? void 0 : g.alignment, 'STRETCH');
+        const out = {
+            pattern,
+            alignment,
+            count: parseNum(g === null || g === void 0 ? void 0 : g.count, 12),
+            gutterSize: parseNum(g === null || g === void 0 ? void 0 : g.gutterSize, 20),
+            color,
+            visible,
+            offset: parseNum(g === null || g === void 0 ? void 0 : g.offset, 0),
+        };
+        if (alignment !== 'STRETCH') {
+            out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
+        }
+        return out;
+    };
+    const normalizeGridWithSectionSize = (g) => {
+        const out = normalizeGrid(g);
+        if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
+            out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
+        }
+        return out;
+    };
+    // 1) Caller-provided payload first
+    trySets.push(input);
+    // 2) Normalized schema-preserving payload
+    trySets.push(input.map((g) => normalizeGrid(g)));
+    // 3) Normalized payload with explicit sectionSize for columns/rows
+    trySets.push(input.map((g) => normalizeGridWithSectionSize(g)));
+    let applied = false;
+    for (const candidate of trySets) {
+        try {
+            node.layoutGrids = candidate;
+            applied = true;
+            break;
+        }
+        catch (_a) {
+            // Try next normalization strategy
+        }
+    }
+    if (!applied) {
+        throw new Error('Unable to apply layout grids: invalid schema for current Figma API (no silent GRID fallback applied)');
     }
-    await appendToTargetParent(sticky, parentId);
-    return { id: sticky.id, type: sticky.type, text: sticky.text.characters };
+    return { id: node.id, layoutGrids: node.layoutGrids };
 }
-async function createShapeWithText(x, y, width, height, options) {
-    if (typeof figma.createShapeWithText !== 'function') {
-        // Fallback for non-FigJam editors.
-        const frame = figma.createFrame();
-        frame.x = x;
-        frame.y = y;
-        frame.resize(width, height);
-        frame.fills = options.fills || [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
-        frame.cornerRadius = 12;
-        if (options.text) {
-            const txt = figma.createText();
-            await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-            txt.characters = options.text;
-            txt.x = 12;
-            txt.y = 12;
-            frame.appendChild(txt);
-        }
-        await appendToTargetParent(frame, options.parentId);
-        return { id: frame.id, type: frame.type, shapeType: 'FALLBACK_FRAME' };
-    }
-    const shape = figma.createShapeWithText();
-    shape.x = x;
-    shape.y = y;
-    shape.resize(width, height);
-    if (options.shapeType)
-        shape.shapeType = options.shapeType;
-    if (options.fills)
-        shape.fills = options.fills;
-    if (options.text) {
-        await figma.loadFontAsync(shape.text.fontName);
-        shape.text.characters = options.text;
+async function setEffects(nodeId, effects) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    if (!('effects' in node))
+        throw new Error('Node does not support effects');
+    let normalized = effects;
+    if (!Array.isArray(normalized)) {
+        throw new Error('effects must be an array');
     }
-    await appendToTargetParent(shape, options.parentId);
-    return { id: shape.id, type: shape.type, shapeType: shape.shapeType };
+    normalized = normalized
+        .map((e) => {
+        if (typeof e === 'string') {
+            try {
+                return JSON.parse(e);
+            }
+            catch (_a) {
+                return null;
+            }
+        }
+        return e;
+    })
+        .filter(Boolean)
+        .map((e) => normalizeEffectInput(e))
+        .filter(Boolean);
+    node.effects = normalized;
+    return { id: node.id, effects: node.effects };
 }
-async function createTable(x, y, rowCount = 3, columnCount = 3, options) {
-    // Figma doesn't have native table creation, so we simulate with frames
-    const tableFrame = figma.createFrame();
-    tableFrame.x = x;
-    tableFrame.y = y;
-    tableFrame.name = options.name || 'Table';
-    tableFrame.layoutMode = 'VERTICAL';
-    tableFrame.itemSpacing = 0;
-    tableFrame.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
-    const cellWidth = options.cellWidth || 100;
-    const cellHeight = options.cellHeight || 40;
-    for (let r = 0; r < rowCount; r++) {
-        const rowFrame = figma.createFrame();
-        rowFrame.name = `Row ${r + 1}`;
-        rowFrame.layoutMode = 'HORIZONTAL';
-        rowFrame.itemSpacing = 0;
-        rowFrame.layoutSizingHorizontal = 'HUG';
-        rowFrame.layoutSizingVertical = 'HUG';
-        for (let c = 0; c < columnCount; c++) {
-            const cell = figma.createFrame();
-            cell.name = `Cell ${r + 1}-${c + 1}`;
-            cell.resize(cellWidth, cellHeight);
-            cell.fills = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
-            cell.strokes = [{ type: 'SOLID', color: { r: 0.8, g: 0.8, b: 0.8 } }];
-            cell.strokeWeight = 1;
-            rowFrame.appendChild(cell);
+async function setExportSettings(nodeId, exportSettings) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    node.exportSettings = exportSettings;
+    return { id: node.id, exportSettings: node.exportSettings };
+}
+async function setBlendMode(nodeId, blendMode) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    if (!('blendMode' in node))
+        throw new Error('Node does not support blend mode');
+    node.blendMode = blendMode;
+    return { id: node.id, blendMode: node.blendMode };
+}
+async function setMask(nodeId, isMask, maskType) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    if (!('isMask' in node)) {
+        throw new Error('Node does not support mask');
+    }
+    if (isMask) {
+        node.isMask = true;
+        if (maskType && 'maskType' in node) {
+            node.maskType = maskType;
         }
-        tableFrame.appendChild(rowFrame);
     }
-    await appendToTargetParent(tableFrame, options.parentId);
+    else {
+        node.isMask = false;
+    }
+    return { id: node.id, isMask: node.isMask };
+}
+// ===== AUTO LAYOUT =====
+async function setAutoLayout(nodeId, options) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || node.type !== 'FRAME')
+        throw new Error('Frame not found');
+    if (options.layoutMode)
+        node.layoutMode = options.layoutMode;
+    if (options.primaryAxisAlignItems)
+        node.primaryAxisAlignItems = options.primaryAxisAlignItems;
+    if (options.counterAxisAlignItems)
+        node.counterAxisAlignItems = options.counterAxisAlignItems;
+    if (options.paddingTop !== undefined)
+        node.paddingTop = options.paddingTop;
+    if (options.paddingRight !== undefined)
+        node.paddingRight = options.paddingRight;
+    if (options.paddingBottom !== undefined)
+        node.paddingBottom = options.paddingBottom;
+    if (options.paddingLeft !== undefined)
+        node.paddingLeft = options.paddingLeft;
+    if (options.itemSpacing !== undefined)
+        node.itemSpacing = options.itemSpacing;
+    if (options.counterAxisSpacing !== undefined)
+        node.counterAxisSpacing = options.counterAxisSpacing;
+    if (options.layoutWrap)
+        node.layoutWrap = options.layoutWrap;
     return {
-        id: tableFrame.id,
-        name: tableFrame.name,
-        type: tableFrame.type,
-        rows: rowCount,
-        columns: columnCount
+        id: node.id,
+        layoutMode: node.layoutMode,
+        primaryAxisAlignItems: node.primaryAxisAlignItems,
+        counterAxisAlignItems: node.counterAxisAlignItems,
     };
 }
-// ===== BOOLEAN OPERATIONS =====
-async function booleanOperation(nodeIds, operation, name, parentId) {
+async function removeAutoLayout(nodeId, keepPosition = true) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || node.type !== 'FRAME')
+        throw new Error('Frame not found');
+    const originalPositions = keepPosition ? node.children.map(child => ({
+        id: child.id,
+        x: child.x,
+        y: child.y,
+    })) : [];
+    node.layoutMode = 'NONE';
+    if (keepPosition) {
+        for (const pos of originalPositions) {
+            const child = await figma.getNodeByIdAsync(pos.id);
+            if (child) {
+                child.x = pos.x;
+                child.y = pos.y;
+            }
+        }
+    }
+    return { id: node.id, layoutMode: node.layoutMode };
+}
+async function alignNodes(nodeIds, alignment) {
     const nodes = [];
     for (const id of nodeIds) {
         const node = await figma.getNodeByIdAsync(id);
-        if (node)
+        if (node && 'x' in node && 'y' in node)
             nodes.push(node);
     }
     if (nodes.length < 2)
-        throw new Error('Need at least 2 nodes for boolean operation');
-    let resultNode;
-    switch (operation) {
-        case 'UNION':
-            resultNode = figma.union(nodes, nodes[0].parent);
-            break;
-        case 'SUBTRACT':
-            resultNode = figma.subtract(nodes, nodes[0].parent);
-            break;
-        case 'INTERSECT':
-            resultNode = figma.intersect(nodes, nodes[0].parent);
-            break;
-        case 'EXCLUDE':
-            resultNode = figma.exclude(nodes, nodes[0].parent);
-            break;
-    }
-    if (name)
-        resultNode.name = name;
-    if (parentId) {
-        const newParent = await resolveParentForAppend(parentId);
-        if (newParent)
-            newParent.appendChild(resultNode);
+        throw new Error('Need at least 2 nodes to align');
+    // Calculate bounds
+    const xs = nodes.map(n => n.x);
+    const ys = nodes.map(n => n.y);
+    const rights = nodes.map(n => n.x + n.width);
+    const bottoms = nodes.map(n => n.y + n.height);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...rights);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...bottoms);
+    const centerX = (minX + maxX) / 2;
+    const centerY = (minY + maxY) / 2;
+    for (const node of nodes) {
+        switch (alignment) {
+            case 'TOP_LEFT':
+                node.x = minX;
+                node.y = minY;
+                break;
+            case 'TOP_CENTER':
+                node.x = centerX - node.width / 2;
+                node.y = minY;
+                break;
+            case 'TOP_RIGHT':
+                node.x = maxX - node.width;
+                node.y = minY;
+                break;
+            case 'MIDDLE_LEFT':
+                node.x = minX;
+                node.y = centerY - node.height / 2;
+                break;
+            case 'MIDDLE_CENTER':
+                node.x = centerX - node.width / 2;
+                node.y = centerY - node.height / 2;
+                break;
+            case 'MIDDLE_RIGHT':
+                node.x = maxX - node.width;
+                node.y = centerY - node.height / 2;
+                break;
+            case 'BOTTOM_LEFT':
+                node.x = minX;
+                node.y = maxY - node.height;
+                break;
+            case 'BOTTOM_CENTER':
+                node.x = centerX - node.width / 2;
+                node.y = maxY - node.height;
+                break;
+            case 'BOTTOM_RIGHT':
+                node.x = maxX - node.width;
+                node.y = maxY - node.height;
+                break;
+        }
     }
-    return { id: resultNode.id, name: resultNode.name, type: resultNode.type, booleanOperation: resultNode.booleanOperation };
+    return { aligned: nodes.length, alignment };
 }
-async function flattenNodes(nodeIds, parentId) {
+async function distributeNodes(nodeIds, direction, spacing) {
     const nodes = [];
     for (const id of nodeIds) {
         const node = await figma.getNodeByIdAsync(id);
-        if (node)
+        if (node && 'x' in node && 'y' in node)
             nodes.push(node);
     }
-    if (nodes.length === 0)
-        throw new Error('No valid nodes to flatten');
-    const flattened = figma.flatten(nodes, nodes[0].parent);
-    if (parentId) {
-        const newParent = await resolveParentForAppend(parentId);
-        if (newParent)
-            newParent.appendChild(flattened);
+    if (nodes.length < 3)
+        throw new Error('Need at least 3 nodes to distribute');
+    // Sort nodes
+    if (direction === 'HORIZONTAL') {
+        nodes.sort((a, b) => a.x - b.x);
     }
-    return { id: flattened.id, name: flattened.name, type: flattened.type };
+    else {
+        nodes.sort((a, b) => a.y - b.y);
+    }
+    const first = nodes[0];
+    const last = nodes[nodes.length - 1];
+    if (direction === 'HORIZONTAL') {
+        const totalWidth = last.x + last.width - first.x;
+        const totalItemsWidth = nodes.reduce((sum, n) => sum + n.width, 0);
+        const gap = spacing !== undefined ? spacing : (totalWidth - totalItemsWidth) / (nodes.length - 1);
+        let currentX = first.x;
+        for (const node of nodes) {
+            node.x = currentX;
+            currentX += node.width + gap;
+        }
+    }
+    else {
+        const totalHeight = last.y + last.height - first.y;
+        const totalItemsHeight = nodes.reduce((sum, n) => sum + n.height, 0);
+        const gap = spacing !== undefined ? spacing : (totalHeight - totalItemsHeight) / (nodes.length - 1);
+        let currentY = first.y;
+        for (const node of nodes) {
+            node.y = currentY;
+            currentY += node.height + gap;
+        }
+    }
+    return { distributed: nodes.length, direction };
 }
-// ===== NODE PROPERTIES =====
-async function setConstraints(nodeId, horizontal, vertical) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node)
-        throw new Error('Node not found');
-    if (!('constraints' in node))
-        throw new Error('Node does not support constraints');
-    const normalize = (value) => {
-        const v = String(value).toUpperCase();
-        if (v === 'MIN' || v === 'MAX' || v === 'CENTER' || v === 'STRETCH' || v === 'SCALE')
-            return v;
-        if (v === 'LEFT' || v === 'TOP')
-            return 'MIN';
-        if (v === 'RIGHT' || v === 'BOTTOM')
-            return 'MAX';
-        if (v === 'LEFT_RIGHT' || v === 'TOP_BOTTOM')
-            return 'STRETCH';
-        throw new Error(`Unsupported constraint value: ${value}`);
-    };
-    node.constraints = {
-        horizontal: normalize(horizontal),
-        vertical: normalize(vertical),
-    };
-    return { id: node.id, constraints: node.constraints };
+// ===== STYLES =====
+async function createEffectStyle(name, effects, sourceNodeId) {
+    let finalEffects = effects;
+    if (sourceNodeId && !effects) {
+        const node = await figma.getNodeByIdAsync(sourceNodeId);
+        if (node && 'effects' in node) {
+            finalEffects = node.effects;
+        }
+    }
+    if (Array.isArray(finalEffects)) {
+        finalEffects = finalEffects
+            .map((e) => {
+            if (typeof e === 'string') {
+                try {
+                    return JSON.parse(e);
+                }
+                catch (_a) {
+                    return null;
+                }
+            }
+            return e;
+        })
+            .filter(Boolean)
+            .map((e) => normalizeEffectInput(e))
+            .filter(Boolean);
+    }
+    const style = figma.createEffectStyle();
+    style.name = name;
+    if (finalEffects)
+        style.effects = finalEffects;
+    return { styleId: style.id, name: style.name, type: style.type };
 }
-async function setLayoutGrid(nodeId, layoutGrids) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node || node.type !== 'FRAME')
-        throw new Error('Frame not found');
-    const input = (layoutGrids || []).map((g) => (Object.assign({}, g)));
-    const trySets = [];
-    const parseNum = (v, fallback) => {
+function normalizeEffectInput(raw) {
+    var _a, _b, _c, _d, _e, _f;
+    if (!raw || typeof raw !== 'object')
+        return null;
+    const toUnit = (v, fallback = 0) => {
         const n = Number(v);
-        return Number.isFinite(n) ? n : fallback;
-    };
-    const normalizeAlignment = (value, fallback = 'STRETCH') => {
-        const v = String(value || fallback).toUpperCase();
-        if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH')
-            return v;
-        return fallback;
+        if (!Number.isFinite(n))
+            return fallback;
+        const normalized = n > 1 ? n / 255 : n;
+        return Math.max(0, Math.min(1, normalized));
     };
-    const normalizePattern = (value) => {
-        const v = String(value || 'COLUMNS').toUpperCase();
-        if (v === 'GRID' || v === 'ROWS')
-            return v;
-        return 'COLUMNS';
+    const toNum = (v, fallback = 0) => {
+        const n = Number(v);
+        return Number.isFinite(n) ? n : fallback;
     };
-    const normalizeColor = (raw) => {
-        const r = Number(raw === null || raw === void 0 ? void 0 : raw.r);
-        const g = Number(raw === null || raw === void 0 ? void 0 : raw.g);
-        const b = Number(raw === null || raw === void 0 ? void 0 : raw.b);
-        const a = Number(raw === null || raw === void 0 ? void 0 : raw.a);
-        const unit = (n, fallback) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
+    const type = String(raw.type || '').toUpperCase();
+    const visible = raw.visible !== false;
+    const blendMode = raw.blendMode || 'NORMAL';
+    if (type === 'DROP_SHADOW' || type === 'INNER_SHADOW') {
         return {
-            r: unit(r, 1),
-            g: unit(g, 0),
-            b: unit(b, 0),
-            a: unit(a, 0.1),
+            type: type,
+            visible,
+            blendMode,
+            color: {
+                r: toUnit((_a = raw.color) === null || _a === void 0 ? void 0 : _a.r, 0),
+                g: toUnit((_b = raw.color) === null || _b === void 0 ? void 0 : _b.g, 0),
+                b: toUnit((_c = raw.color) === null || _c === void 0 ? void 0 : _c.b, 0),
+                a: toUnit((_d = raw.color) === null || _d === void 0 ? void 0 : _d.a, 0.2),
+            },
+            offset: {
+                x: toNum((_e = raw.offset) === null || _e === void 0 ? void 0 : _e.x, 0),
+                y: toNum((_f = raw.offset) === null || _f === void 0 ? void 0 : _f.y, 4),
+            },
+            radius: toNum(raw.radius, 8),
+            spread: toNum(raw.spread, DEFAULT_DROP_SHADOW_SPREAD),
         };
-    };
-    const normalizeGrid = (g) => {
-        var _a;
-        const pattern = normalizePattern(g === null || g === void 0 ? void 0 : g.pattern);
-        const visible = (g === null || g === void 0 ? void 0 : g.visible) !== false;
-        const color = normalizeColor(g === null || g === void 0 ? void 0 : g.color);
-        if (pattern === 'GRID') {
+    }
+    if (type === 'LAYER_BLUR' || type === 'BACKGROUND_BLUR') {
+        return {
+            type: type,
+            visible,
+            radius: toNum(raw.radius, 4),
+        };
+    }
+    return raw;
+}
+async function createGridStyle(name, layoutGrids, sourceNodeId) {
+    let finalGrids = layoutGrids;
+    if (sourceNodeId && !layoutGrids) {
+        const node = await figma.getNodeByIdAsync(sourceNodeId);
+        if (node && node.type === 'FRAME') {
+            finalGrids = [...node.layoutGrids];
+        }
+    }
+    const style = figma.createGridStyle();
+    style.name = name;
+    if (Array.isArray(finalGrids)) {
+        const input = finalGrids
+            .map((g) => {
+            if (typeof g === 'string') {
+                try {
+                    return JSON.parse(g);
+                }
+                catch (_a) {
+                    return null;
+                }
+            }
+            return g;
+        })
+            .filter(Boolean);
+        const parseNum = (v, fallback) => {
+            const n = Number(v);
+            return Number.isFinite(n) ? n : fallback;
+        };
+        const normalizeAlignment = (value, fallback = 'STRETCH') => {
+            const v = String(value || fallback).toUpperCase();
+            if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH')
+                return v;
+            return fallback;
+        };
+        const normalizePattern = (value) => {
+            const v = String(value || 'COLUMNS').toUpperCase();
+            if (v === 'GRID' || v === 'ROWS')
+                return v;
+            return 'COLUMNS';
+        };
+        const normalizeColor = (raw) => {
+            const r = Number(raw === null || raw === void 0 ? void 0 : raw.r);
+            const g = Number(raw === null || raw === void 0 ? void 0 : raw.g);
+            const b = Number(raw === null || raw === void 0 ? void 0 : raw.b);
+            const a = Number(raw === null || raw === void 0 ? void 0 : raw.a);
+            const unit = (n, fallback) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
             return {
-                pattern: 'GRID',
-                sectionSize: parseNum((_a = g === null || g === void 0 ? void 0 : g.sectionSize) !== null && _a !== void 0 ? _a : g === null || g === void 0 ? void 0 : g.size, 8),
+                r: unit(r, 1),
+                g: unit(g, 0),
+                b: unit(b, 0),
+                a: unit(a, 0.1),
+            };
+        };
+        const normalizeGrid = (g) => {
+            var _a;
+            const pattern = normalizePattern(g === null || g === void 0 ? void 0 : g.pattern);
+            const visible = (g === null || g === void 0 ? void 0 : g.visible) !== false;
+            const color = normalizeColor(g === null || g === void 0 ? void 0 : g.color);
+            if (pattern === 'GRID') {
+                return {
+                    pattern: 'GRID',
+                    sectionSize: parseNum((_a = g === null || g === void 0 ? void 0 : g.sectionSize) !== null && _a !== void 0 ? _a : g === null || g === void 0 ? void 0 : g.size, 8),
+                    color,
+                    visible,
+                };
+            }
+            const alignment = normalizeAlignment(g === null || g === void 0 ? void 0 : g.alignment, 'STRETCH');
+            const out = {
+                pattern,
+                alignment,
+                count: parseNum(g === null || g === void 0 ? void 0 : g.count, 12),
+                gutterSize: parseNum(g === null || g === void 0 ? void 0 : g.gutterSize, 20),
                 color,
                 visible,
+                offset: parseNum(g === null || g === void 0 ? void 0 : g.offset, 0),
             };
-        }
-        const alignment = normalizeAlignment(g === null || g === void 0 ? void 0 : g.alignment, 'STRETCH');
-        const out = {
-            pattern,
-            alignment,
-            count: parseNum(g === null || g === void 0 ? void 0 : g.count, 12),
-            gutterSize: parseNum(g === null || g === void 0 ? void 0 : g.gutterSize, 20),
-            color,
-            visible,
-            offset: parseNum(g === null || g === void 0 ? void 0 : g.offset, 0),
+            if (alignment !== 'STRETCH') {
+                out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
+            }
+            return out;
         };
-        if (alignment !== 'STRETCH') {
-            out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
-        }
-        return out;
-    };
-    const normalizeGridWithSectionSize = (g) => {
-        const out = normalizeGrid(g);
-        if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
-            out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
-        }
-        return out;
-    };
-    // 1) Caller-provided payload first
-    trySets.push(input);
-    // 2) Normalized schema-preserving payload
-    trySets.push(input.map((g) => normalizeGrid(g)));
-    // 3) Normalized payload with explicit sectionSize for columns/rows
-    trySets.push(input.map((g) => normalizeGridWithSectionSize(g)));
-    let applied = false;
-    for (const candidate of trySets) {
-        try {
-            node.layoutGrids = candidate;
-            applied = true;
-            break;
+        const normalizeGridWithSectionSize = (g) => {
+            const out = normalizeGrid(g);
+            if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
+                out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
+            }
+            return out;
+        };
+        const candidates = [];
+        candidates.push(input);
+        candidates.push(input.map((g) => normalizeGrid(g)));
+        candidates.push(input.map((g) => normalizeGridWithSectionSize(g)));
+        let applied = false;
+        for (const c of candidates) {
+            try {
+                style.layoutGrids = c;
+                applied = true;
+                break;
+            }
+            catch (_a) {
+                // try next
+            }
         }
-        catch (_a) {
-            // Try next normalization strategy
+        if (!applied) {
+            throw new Error('Unable to apply layout grids to style: invalid schema (no silent GRID fallback applied)');
         }
     }
-    if (!applied) {
-        throw new Error('Unable to apply layout grids: invalid schema for current Figma API (no silent GRID fallback applied)');
-    }
-    return { id: node.id, layoutGrids: node.layoutGrids };
+    return { styleId: style.id, name: style.name, type: style.type };
 }
-async function setEffects(nodeId, effects) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node)
-        throw new Error('Node not found');
-    if (!('effects' in node))
-        throw new Error('Node does not support effects');
-    let normalized = effects;
-    if (!Array.isArray(normalized)) {
-        throw new Error('effects must be an array');
+async function updatePaintStyle(styleId, name, paints) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== 'PAINT')
+        throw new Error('Paint style not found');
+    if (name)
+        style.name = name;
+    if (paints)
+        style.paints = paints;
+    return { styleId: style.id, name: style.name };
+}
+async function updateTextStyle(styleId, options) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== 'TEXT')
+        throw new Error('Text style not found');
+    if (options.name)
+        style.name = options.name;
+    if (options.fontName)
+        style.fontName = options.fontName;
+    if (options.fontSize)
+        style.fontSize = options.fontSize;
+    if (options.lineHeight)
+        style.lineHeight = options.lineHeight;
+    if (options.letterSpacing)
+        style.letterSpacing = options.letterSpacing;
+    return { styleId: style.id, name: style.name };
+}
+async function deleteStyle(styleId, detachNodes = true) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style)
+        throw new Error('Style not found');
+    style.remove();
+    return { deleted: true, styleId };
+}
+async function getAllStyles(type) {
+    let styles = [];
+    const normalized = String(type !== null && type !== void 0 ? type : 'ALL').trim().toUpperCase();
+    const includeAll = !type || normalized === 'ALL';
+    if (includeAll || normalized === 'PAINT') {
+        styles = [...styles, ...(await figma.getLocalPaintStylesAsync())];
     }
-    normalized = normalized
-        .map((e) => {
-        if (typeof e === 'string') {
+    if (includeAll || normalized === 'TEXT') {
+        styles = [...styles, ...(await figma.getLocalTextStylesAsync())];
+    }
+    if (includeAll || normalized === 'EFFECT') {
+        styles = [...styles, ...(await figma.getLocalEffectStylesAsync())];
+    }
+    if (includeAll || normalized === 'GRID') {
+        styles = [...styles, ...(await figma.getLocalGridStylesAsync())];
+    }
+    return {
+        count: styles.length,
+        styles: styles.map(s => ({ id: s.id, name: s.name, type: s.type })),
+    };
+}
+// ===== VARIABLES =====
+async function createVariable(name, type, value, collectionId) {
+    var _a;
+    const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
+    if (!collection)
+        throw new Error('Variable collection not found');
+    // Sanitize arbitrary MCP input into a Figma-compatible variable name.
+    const safeName = String(name || 'var')
+        .replace(/[^\p{L}\p{N}_\-\s]/gu, '_')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, 120) || 'var';
+    const normalizedName = /^[\p{L}_]/u.test(safeName) ? safeName : `v_${safeName}`;
+    const variable = figma.variables.createVariable(normalizedName, collection, type);
+    // Set value for the first mode
+    if (value !== undefined && collection.modes.length > 0) {
+        let finalValue = value;
+        if (typeof value === 'string') {
             try {
-                return JSON.parse(e);
+                finalValue = JSON.parse(value);
             }
-            catch (_a) {
-                return null;
+            catch (_b) {
+                finalValue = value;
             }
         }
-        return e;
-    })
-        .filter(Boolean)
-        .map((e) => normalizeEffectInput(e))
-        .filter(Boolean);
-    node.effects = normalized;
-    return { id: node.id, effects: node.effects };
+        const resolved = String(type).toUpperCase();
+        if (resolved === 'FLOAT') {
+            const n = Number(finalValue);
+            if (Number.isFinite(n))
+                finalValue = n;
+        }
+        else if (resolved === 'BOOLEAN') {
+            if (typeof finalValue === 'string')
+                finalValue = finalValue.toLowerCase() === 'true';
+            else
+                finalValue = Boolean(finalValue);
+        }
+        else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
+            const toUnit = (v) => {
+                const n = Number(v);
+                if (!Number.isFinite(n))
+                    return 0;
+                return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
+            };
+            finalValue = {
+                r: toUnit(finalValue.r),
+                g: toUnit(finalValue.g),
+                b: toUnit(finalValue.b),
+                a: toUnit((_a = finalValue.a) !== null && _a !== void 0 ? _a : 1),
+            };
+        }
+        variable.setValueForMode(collection.modes[0].modeId, finalValue);
+    }
+    return { variableId: variable.id, name: variable.name, type: variable.resolvedType };
 }
-async function setExportSettings(nodeId, exportSettings) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node)
-        throw new Error('Node not found');
-    node.exportSettings = exportSettings;
-    return { id: node.id, exportSettings: node.exportSettings };
+async function createVariableCollection(name, modes) {
+    const collection = figma.variables.createVariableCollection(name);
+    // Rename default mode or add additional modes
+    if (modes && modes.length > 0) {
+        collection.renameMode(collection.modes[0].modeId, modes[0]);
+        for (let i = 1; i < modes.length; i++) {
+            collection.addMode(modes[i]);
+        }
+    }
+    return {
+        collectionId: collection.id,
+        name: collection.name,
+        modes: collection.modes.map(m => ({ id: m.modeId, name: m.name }))
+    };
 }
-async function setBlendMode(nodeId, blendMode) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node)
-        throw new Error('Node not found');
-    if (!('blendMode' in node))
-        throw new Error('Node does not support blend mode');
-    node.blendMode = blendMode;
-    return { id: node.id, blendMode: node.blendMode };
+async function setVariableValue(variableId, modeId, value) {
+    var _a;
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (!variable)
+        throw new Error('Variable not found');
+    let finalValue = value;
+    if (typeof value === 'string') {
+        try {
+            finalValue = JSON.parse(value);
+        }
+        catch (_b) {
+            finalValue = value;
+        }
+    }
+    const resolved = String(variable.resolvedType).toUpperCase();
+    if (resolved === 'FLOAT') {
+        const n = Number(finalValue);
+        if (!Number.isFinite(n))
+            throw new Error('FLOAT variable requires numeric value');
+        finalValue = n;
+    }
+    else if (resolved === 'BOOLEAN') {
+        if (typeof finalValue === 'string')
+            finalValue = finalValue.toLowerCase() === 'true';
+        else
+            finalValue = Boolean(finalValue);
+    }
+    else if (resolved === 'STRING') {
+        finalValue = String(finalValue);
+    }
+    else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
+        const toUnit = (v) => {
+            const n = Number(v);
+            if (!Number.isFinite(n))
+                return 0;
+            return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
+        };
+        finalValue = {
+            r: toUnit(finalValue.r),
+            g: toUnit(finalValue.g),
+            b: toUnit(finalValue.b),
+            a: toUnit((_a = finalValue.a) !== null && _a !== void 0 ? _a : 1),
+        };
+    }
+    variable.setValueForMode(modeId, finalValue);
+    return { variableId, modeId, value: finalValue };
 }
-async function setMask(nodeId, isMask, maskType) {
+async function bindVariableToNode(nodeId, variableId, property) {
     const node = await figma.getNodeByIdAsync(nodeId);
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
     if (!node)
         throw new Error('Node not found');
-    if (!('isMask' in node)) {
-        throw new Error('Node does not support mask');
-    }
-    if (isMask) {
-        node.isMask = true;
-        if (maskType && 'maskType' in node) {
-            node.maskType = maskType;
-        }
+    if (!variable)
+        throw new Error('Variable not found');
+    const key = String(property || '').toUpperCase();
+    if (key === 'FILLS') {
+        if (!('fills' in node))
+            throw new Error('Node does not support fills');
+        const fills = node.fills || [];
+        node.fills = fills.map((p) => {
+            if (p.type === 'SOLID')
+                return figma.variables.setBoundVariableForPaint(p, 'color', variable);
+            return p;
+        });
+        return { nodeId, variableId, property: key };
     }
-    else {
-        node.isMask = false;
+    if (key === 'STROKES') {
+        if (!('strokes' in node))
+            throw new Error('Node does not support strokes');
+        const strokes = node.strokes || [];
+        node.strokes = strokes.map((p) => {
+            if (p.type === 'SOLID')
+                return figma.variables.setBoundVariableForPaint(p, 'color', variable);
+            return p;
+        });
+        return { nodeId, variableId, property: key };
     }
-    return { id: node.id, isMask: node.isMask };
-}
-// ===== AUTO LAYOUT =====
-async function setAutoLayout(nodeId, options) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node || node.type !== 'FRAME')
-        throw new Error('Frame not found');
-    if (options.layoutMode)
-        node.layoutMode = options.layoutMode;
-    if (options.primaryAxisAlignItems)
-        node.primaryAxisAlignItems = options.primaryAxisAlignItems;
-    if (options.counterAxisAlignItems)
-        node.counterAxisAlignItems = options.counterAxisAlignItems;
-    if (options.paddingTop !== undefined)
-        node.paddingTop = options.paddingTop;
-    if (options.paddingRight !== undefined)
-        node.paddingRight = options.paddingRight;
-    if (options.paddingBottom !== undefined)
-        node.paddingBottom = options.paddingBottom;
-    if (options.paddingLeft !== undefined)
-        node.paddingLeft = options.paddingLeft;
-    if (options.itemSpacing !== undefined)
-        node.itemSpacing = options.itemSpacing;
-    if (options.counterAxisSpacing !== undefined)
-        node.counterAxisSpacing = options.counterAxisSpacing;
-    if (options.layoutWrap)
-        node.layoutWrap = options.layoutWrap;
-    return {
-        id: node.id,
-        layoutMode: node.layoutMode,
-        primaryAxisAlignItems: node.primaryAxisAlignItems,
-        counterAxisAlignItems: node.counterAxisAlignItems,
+    const fieldMap = {
+        OPACITY: 'opacity',
+        WIDTH: 'width',
+        HEIGHT: 'height',
+        VISIBLE: 'visible',
+        CHARACTERS: 'characters',
     };
+    const field = fieldMap[key];
+    if (!field || typeof node.setBoundVariable !== 'function') {
+        throw new Error(`Unsupported bind property: ${property}`);
+    }
+    node.setBoundVariable(field, variable);
+    return { nodeId, variableId, property: key };
 }
-async function removeAutoLayout(nodeId, keepPosition = true) {
+async function unbindVariable(nodeId, property) {
     const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node || node.type !== 'FRAME')
-        throw new Error('Frame not found');
-    const originalPositions = keepPosition ? node.children.map(child => ({
-        id: child.id,
-        x: child.x,
-        y: child.y,
-    })) : [];
-    node.layoutMode = 'NONE';
-    if (keepPosition) {
-        for (const pos of originalPositions) {
-            const child = await figma.getNodeByIdAsync(pos.id);
-            if (child) {
-                child.x = pos.x;
-                child.y = pos.y;
-            }
-        }
+    if (!node)
+        throw new Error('Node not found');
+    const key = String(property || '').toUpperCase();
+    if (key === 'FILLS' && 'fills' in node) {
+        const fills = node.fills || [];
+        node.fills = fills.map((p) => {
+            if (p.type === 'SOLID')
+                return figma.variables.setBoundVariableForPaint(p, 'color', null);
+            return p;
+        });
+        return { nodeId, property: key, unbound: true };
     }
-    return { id: node.id, layoutMode: node.layoutMode };
-}
-async function alignNodes(nodeIds, alignment) {
-    const nodes = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (node && 'x' in node && 'y' in node)
-            nodes.push(node);
+    if (key === 'STROKES' && 'strokes' in node) {
+        const strokes = node.strokes || [];
+        node.strokes = strokes.map((p) => {
+            if (p.type === 'SOLID')
+                return figma.variables.setBoundVariableForPaint(p, 'color', null);
+            return p;
+        });
+        return { nodeId, property: key, unbound: true };
     }
-    if (nodes.length < 2)
-        throw new Error('Need at least 2 nodes to align');
-    // Calculate bounds
-    const xs = nodes.map(n => n.x);
-    const ys = nodes.map(n => n.y);
-    const rights = nodes.map(n => n.x + n.width);
-    const bottoms = nodes.map(n => n.y + n.height);
-    const minX = Math.min(...xs);
-    const maxX = Math.max(...rights);
-    const minY = Math.min(...ys);
-    const maxY = Math.max(...bottoms);
-    const centerX = (minX + maxX) / 2;
-    const centerY = (minY + maxY) / 2;
-    for (const node of nodes) {
-        switch (alignment) {
-            case 'TOP_LEFT':
-                node.x = minX;
-                node.y = minY;
-                break;
-            case 'TOP_CENTER':
-                node.x = centerX - node.width / 2;
-                node.y = minY;
-                break;
-            case 'TOP_RIGHT':
-                node.x = maxX - node.width;
-                node.y = minY;
-                break;
-            case 'MIDDLE_LEFT':
-                node.x = minX;
-                node.y = centerY - node.height / 2;
-                break;
-            case 'MIDDLE_CENTER':
-                node.x = centerX - node.width / 2;
-                node.y = centerY - node.height / 2;
-                break;
-            case 'MIDDLE_RIGHT':
-                node.x = maxX - node.width;
-                node.y = centerY - node.height / 2;
-                break;
-            case 'BOTTOM_LEFT':
-                node.x = minX;
-                node.y = maxY - node.height;
-                break;
-            case 'BOTTOM_CENTER':
-                node.x = centerX - node.width / 2;
-                node.y = maxY - node.height;
-                break;
-            case 'BOTTOM_RIGHT':
-                node.x = maxX - node.width;
-                node.y = maxY - node.height;
-                break;
-        }
+    const fieldMap = {
+        OPACITY: 'opacity',
+        WIDTH: 'width',
+        HEIGHT: 'height',
+        VISIBLE: 'visible',
+        CHARACTERS: 'characters',
+    };
+    const field = fieldMap[key];
+    if (!field || typeof node.setBoundVariable !== 'function') {
+        throw new Error(`Unsupported unbind property: ${property}`);
     }
-    return { aligned: nodes.length, alignment };
+    node.setBoundVariable(field, null);
+    return { nodeId, property: key, unbound: true };
 }
-async function distributeNodes(nodeIds, direction, spacing) {
-    const nodes = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (node && 'x' in node && 'y' in node)
-            nodes.push(node);
-    }
-    if (nodes.length < 3)
-        throw new Error('Need at least 3 nodes to distribute');
-    // Sort nodes
-    if (direction === 'HORIZONTAL') {
-        nodes.sort((a, b) => a.x - b.x);
-    }
-    else {
-        nodes.sort((a, b) => a.y - b.y);
-    }
-    const first = nodes[0];
-    const last = nodes[nodes.length - 1];
-    if (direction === 'HORIZONTAL') {
-        const totalWidth = last.x + last.width - first.x;
-        const totalItemsWidth = nodes.reduce((sum, n) => sum + n.width, 0);
-        const gap = spacing !== undefined ? spacing : (totalWidth - totalItemsWidth) / (nodes.length - 1);
-        let currentX = first.x;
-        for (const node of nodes) {
-            node.x = currentX;
-            currentX += node.width + gap;
-        }
-    }
-    else {
-        const totalHeight = last.y + last.height - first.y;
-        const totalItemsHeight = nodes.reduce((sum, n) => sum + n.height, 0);
-        const gap = spacing !== undefined ? spacing : (totalHeight - totalItemsHeight) / (nodes.length - 1);
-        let currentY = first.y;
-        for (const node of nodes) {
-            node.y = currentY;
-            currentY += node.height + gap;
+async function getAllVariables() {
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    const allVariables = [];
+    for (const collection of collections) {
+        for (const variableId of collection.variableIds) {
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (variable) {
+                allVariables.push({
+                    id: variable.id,
+                    name: variable.name,
+                    type: variable.resolvedType,
+                    collectionId: collection.id,
+                    collectionName: collection.name,
+                });
+            }
         }
     }
-    return { distributed: nodes.length, direction };
+    return {
+        collections: collections.map(c => ({ id: c.id, name: c.name })),
+        variables: allVariables,
+    };
 }
-// ===== STYLES =====
-async function createEffectStyle(name, effects, sourceNodeId) {
-    let finalEffects = effects;
-    if (sourceNodeId && !effects) {
-        const node = await figma.getNodeByIdAsync(sourceNodeId);
-        if (node && 'effects' in node) {
-            finalEffects = node.effects;
-        }
+let allPagesLoaded = false;
+async function ensureAllPagesLoaded() {
+    if (allPagesLoaded)
+        return;
+    await figma.loadAllPagesAsync();
+    allPagesLoaded = true;
+}
+async function deleteVariable(variableId, unbindNodes = true) {
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (!variable)
+        throw new Error('Variable not found');
+    variable.remove();
+    return { deleted: true, variableId };
+}
+// ===== PAGE MANAGEMENT =====
+async function createPage(name, index) {
+    await ensureAllPagesLoaded();
+    const page = figma.createPage();
+    page.name = name;
+    if (index !== undefined) {
+        figma.root.insertChild(index, page);
     }
-    if (Array.isArray(finalEffects)) {
-        finalEffects = finalEffects
-            .map((e) => {
-            if (typeof e === 'string') {
-                try {
-                    return JSON.parse(e);
-                }
-                catch (_a) {
-                    return null;
-                }
-            }
-            return e;
-        })
-            .filter(Boolean)
-            .map((e) => normalizeEffectInput(e))
-            .filter(Boolean);
+    return { pageId: page.id, name: page.name, index: figma.root.children.indexOf(page) };
+}
+async function deletePage(pageId, confirm = false) {
+    await ensureAllPagesLoaded();
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== 'PAGE')
+        throw new Error('Page not found');
+    if (figma.root.children.length <= 1) {
+        throw new Error('Cannot delete the last page');
     }
-    const style = figma.createEffectStyle();
-    style.name = name;
-    if (finalEffects)
-        style.effects = finalEffects;
-    return { styleId: style.id, name: style.name, type: style.type };
+    let switchedPageId = null;
+    if (figma.currentPage.id === pageId) {
+        const fallback = figma.root.children.find((p) => p.id !== pageId);
+        if (!fallback) {
+            throw new Error('Cannot delete the active page because no fallback page exists');
+        }
+        await figma.setCurrentPageAsync(fallback);
+        switchedPageId = fallback.id;
+    }
+    page.remove();
+    return { deleted: true, pageId, switchedPageId };
 }
-function normalizeEffectInput(raw) {
-    var _a, _b, _c, _d, _e, _f;
-    if (!raw || typeof raw !== 'object')
-        return null;
-    const toUnit = (v, fallback = 0) => {
-        const n = Number(v);
-        if (!Number.isFinite(n))
-            return fallback;
-        const normalized = n > 1 ? n / 255 : n;
-        return Math.max(0, Math.min(1, normalized));
-    };
-    const toNum = (v, fallback = 0) => {
-        const n = Number(v);
-        return Number.isFinite(n) ? n : fallback;
-    };
-    const type = String(raw.type || '').toUpperCase();
-    const visible = raw.visible !== false;
-    const blendMode = raw.blendMode || 'NORMAL';
-    if (type === 'DROP_SHADOW' || type === 'INNER_SHADOW') {
-        return {
-            type: type,
-            visible,
-            blendMode,
-            color: {
-                r: toUnit((_a = raw.color) === null || _a === void 0 ? void 0 : _a.r, 0),
-                g: toUnit((_b = raw.color) === null || _b === void 0 ? void 0 : _b.g, 0),
-                b: toUnit((_c = raw.color) === null || _c === void 0 ? void 0 : _c.b, 0),
-                a: toUnit((_d = raw.color) === null || _d === void 0 ? void 0 : _d.a, 0.2),
-            },
-            offset: {
-                x: toNum((_e = raw.offset) === null || _e === void 0 ? void 0 : _e.x, 0),
-                y: toNum((_f = raw.offset) === null || _f === void 0 ? void 0 : _f.y, 4),
-            },
-            radius: toNum(raw.radius, 8),
-            spread: toNum(raw.spread, DEFAULT_DROP_SHADOW_SPREAD),
-        };
+async function renamePage(pageId, newName) {
+    await ensureAllPagesLoaded();
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== 'PAGE')
+        throw new Error('Page not found');
+    page.name = newName;
+    return { pageId, name: page.name };
+}
+async function reorderPages(pageIds) {
+    await ensureAllPagesLoaded();
+    // Remove all pages first
+    const pages = [];
+    for (const id of pageIds) {
+        const page = await figma.getNodeByIdAsync(id);
+        if (page)
+            pages.push(page);
     }
-    if (type === 'LAYER_BLUR' || type === 'BACKGROUND_BLUR') {
-        return {
-            type: type,
-            visible,
-            radius: toNum(raw.radius, 4),
-        };
+    // Re-add in new order
+    for (const page of pages) {
+        figma.root.appendChild(page);
     }
-    return raw;
+    return { reordered: pages.length };
 }
-async function createGridStyle(name, layoutGrids, sourceNodeId) {
-    let finalGrids = layoutGrids;
-    if (sourceNodeId && !layoutGrids) {
-        const node = await figma.getNodeByIdAsync(sourceNodeId);
-        if (node && node.type === 'FRAME') {
-            finalGrids = [...node.layoutGrids];
-        }
+async function duplicatePage(pageId, newName) {
+    await ensureAllPagesLoaded();
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== 'PAGE')
+        throw new Error('Page not found');
+    const newPage = figma.createPage();
+    newPage.name = newName || `${page.name} Copy`;
+    // Clone all children
+    for (const child of page.children) {
+        const clone = child.clone();
+        newPage.appendChild(clone);
     }
-    const style = figma.createGridStyle();
-    style.name = name;
-    if (Array.isArray(finalGrids)) {
-        const input = finalGrids
-            .map((g) => {
-            if (typeof g === 'string') {
-                try {
-                    return JSON.parse(g);
-                }
-                catch (_a) {
-                    return null;
-                }
-            }
-            return g;
-        })
-            .filter(Boolean);
-        const parseNum = (v, fallback) => {
-            const n = Number(v);
-            return Number.isFinite(n) ? n : fallback;
-        };
-        const normalizeAlignment = (value, fallback = 'STRETCH') => {
-            const v = String(value || fallback).toUpperCase();
-            if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH')
-                return v;
-            return fallback;
-        };
-        const normalizePattern = (value) => {
-            const v = String(value || 'COLUMNS').toUpperCase();
-            if (v === 'GRID' || v === 'ROWS')
-                return v;
-            return 'COLUMNS';
-        };
-        const normalizeColor = (raw) => {
-            const r = Number(raw === null || raw === void 0 ? void 0 : raw.r);
-            const g = Number(raw === null || raw === void 0 ? void 0 : raw.g);
-            const b = Number(raw === null || raw === void 0 ? void 0 : raw.b);
-            const a = Number(raw === null || raw === void 0 ? void 0 : raw.a);
-            const unit = (n, fallback) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
-            return {
-                r: unit(r, 1),
-                g: unit(g, 0),
-                b: unit(b, 0),
-                a: unit(a, 0.1),
-            };
-        };
-        const normalizeGrid = (g) => {
-            var _a;
-            const pattern = normalizePattern(g === null || g === void 0 ? void 0 : g.pattern);
-            const visible = (g === null || g === void 0 ? void 0 : g.visible) !== false;
-            const color = normalizeColor(g === null || g === void 0 ? void 0 : g.color);
-            if (pattern === 'GRID') {
-                return {
-                    pattern: 'GRID',
-                    sectionSize: parseNum((_a = g === null || g === void 0 ? void 0 : g.sectionSize) !== null && _a !== void 0 ? _a : g === null || g === void 0 ? void 0 : g.size, 8),
-                    color,
-                    visible,
-                };
-            }
-            const alignment = normalizeAlignment(g === null || g === void 0 ? void 0 : g.alignment, 'STRETCH');
-            const out = {
-                pattern,
-                alignment,
-                count: parseNum(g === null || g === void 0 ? void 0 : g.count, 12),
-                gutterSize: parseNum(g === null || g === void 0 ? void 0 : g.gutterSize, 20),
-                color,
-                visible,
-                offset: parseNum(g === null || g === void 0 ? void 0 : g.offset, 0),
-            };
-            if (alignment !== 'STRETCH') {
-                out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
-            }
-            return out;
-        };
-        const normalizeGridWithSectionSize = (g) => {
-            const out = normalizeGrid(g);
-            if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
-                out.sectionSize = parseNum(g === null || g === void 0 ? void 0 : g.sectionSize, 60);
-            }
-            return out;
-        };
-        const candidates = [];
-        candidates.push(input);
-        candidates.push(input.map((g) => normalizeGrid(g)));
-        candidates.push(input.map((g) => normalizeGridWithSectionSize(g)));
-        let applied = false;
-        for (const c of candidates) {
-            try {
-                style.layoutGrids = c;
-                applied = true;
-                break;
-            }
-            catch (_a) {
-                // try next
+    return { pageId: newPage.id, name: newPage.name, copiedChildren: newPage.children.length };
+}
+// ===== MEDIA & EXPORT =====
+async function createImageFill(url, hash, nodeId) {
+    let image;
+    if (hash) {
+        image = figma.getImageByHash(hash);
+        if (!image)
+            throw new Error(`Image hash not found: ${hash}`);
+    }
+    else if (url) {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
             }
+            const buffer = await response.arrayBuffer();
+            image = figma.createImage(new Uint8Array(buffer));
+            hash = image.hash;
         }
-        if (!applied) {
-            throw new Error('Unable to apply layout grids to style: invalid schema (no silent GRID fallback applied)');
+        catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to load image URL. Ensure manifest networkAccess allows this domain. ${msg}`);
         }
     }
-    return { styleId: style.id, name: style.name, type: style.type };
+    else {
+        throw new Error('Either url or hash required');
+    }
+    if (nodeId) {
+        const node = await figma.getNodeByIdAsync(nodeId);
+        if (node && 'fills' in node) {
+            const fills = node.fills;
+            const newFills = fills.map(f => {
+                if (f.type === 'SOLID') {
+                    return {
+                        type: 'IMAGE',
+                        imageHash: hash,
+                        scaleMode: 'FILL',
+                    };
+                }
+                return f;
+            });
+            node.fills = newFills;
+        }
+    }
+    return { hash: image === null || image === void 0 ? void 0 : image.hash, nodeId };
 }
-async function updatePaintStyle(styleId, name, paints) {
-    const style = await figma.getStyleByIdAsync(styleId);
-    if (!style || style.type !== 'PAINT')
-        throw new Error('Paint style not found');
-    if (name)
-        style.name = name;
-    if (paints)
-        style.paints = paints;
-    return { styleId: style.id, name: style.name };
+// Exports larger than one relay frame are cached and pulled by the server with read_export_chunk.
+const EXPORT_CHUNK_SIZE = 256 * 1024;
+const EXPORT_CACHE_TTL_MS = 5 * 60 * 1000;
+const exportCache = new Map();
+let exportCounter = 0;
+function packExportBytes(bytes) {
+    const base64 = figma.base64Encode(bytes);
+    if (base64.length <= EXPORT_CHUNK_SIZE) {
+        return { base64, chunkCount: 1 };
+    }
+    const now = Date.now();
+    for (const [id, cached] of exportCache) {
+        if (now - cached.createdAt > EXPORT_CACHE_TTL_MS)
+            exportCache.delete(id);
+    }
+    exportCounter++;
+    const exportId = `export-${now.toString(36)}-${exportCounter}`;
+    const chunkCount = Math.ceil(base64.length / EXPORT_CHUNK_SIZE);
+    exportCache.set(exportId, { base64, chunkCount, createdAt: now });
+    return { exportId, chunkCount };
+}
+function readExportChunk(exportId, index) {
+    const cached = exportCache.get(exportId);
+    if (!cached)
+        throw new Error(`Export not found or expired: ${exportId}`);
+    if (!Number.isInteger(index) || index < 0 || index >= cached.chunkCount) {
+        throw new Error(`Chunk index out of range: ${index} (chunkCount ${cached.chunkCount})`);
+    }
+    const data = cached.base64.slice(index * EXPORT_CHUNK_SIZE, (index + 1) * EXPORT_CHUNK_SIZE);
+    if (index === cached.chunkCount - 1)
+        exportCache.delete(exportId);
+    return { exportId, index, chunkCount: cached.chunkCount, data };
 }
-async function updateTextStyle(styleId, options) {
-    const style = await figma.getStyleByIdAsync(styleId);
-    if (!style || style.type !== 'TEXT')
-        throw new Error('Text style not found');
-    if (options.name)
-        style.name = options.name;
-    if (options.fontName)
-        style.fontName = options.fontName;
-    if (options.fontSize)
-        style.fontSize = options.fontSize;
-    if (options.lineHeight)
-        style.lineHeight = options.lineHeight;
-    if (options.letterSpacing)
-        style.letterSpacing = options.letterSpacing;
-    return { styleId: style.id, name: style.name };
+async function exportNode(nodeId, format, scale = 1, suffix) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node)
+        throw new Error('Node not found');
+    const bytes = await node.exportAsync({
+        format,
+        constraint: { type: 'SCALE', value: scale },
+    });
+    return Object.assign({ nodeId, name: node.name, format,
+        scale,
+        suffix, bytesLength: bytes.length }, packExportBytes(bytes));
 }
-async function deleteStyle(styleId, detachNodes = true) {
-    const style = await figma.getStyleByIdAsync(styleId);
-    if (!style)
-        throw new Error('Style not found');
-    style.remove();
-    return { deleted: true, styleId };
+async function exportNodesBatch(exports) {
+    const results = [];
+    const errors = [];
+    for (const exp of exports) {
+        try {
+            const result = await exportNode(exp.nodeId, exp.format, exp.scale || 1, exp.suffix);
+            results.push(result);
+        }
+        catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            errors.push({ nodeId: exp.nodeId, error: msg });
+        }
+    }
+    return { exported: results.length, failed: errors.length, results, errors };
 }
-async function getAllStyles(type) {
-    let styles = [];
-    const normalized = String(type !== null && type !== void 0 ? type : 'ALL').trim().toUpperCase();
-    const includeAll = !type || normalized === 'ALL';
-    if (includeAll || normalized === 'PAINT') {
-        styles = [...styles, ...(await figma.getLocalPaintStylesAsync())];
+// ===== COMPONENT PROPERTIES =====
+async function addComponentProperty(componentId, name, type, defaultValue) {
+    const component = await figma.getNodeByIdAsync(componentId);
+    if (!component || component.type !== 'COMPONENT')
+        throw new Error('Component not found');
+    // Note: Component property API may vary
+    // This is a placeholder implementation
+    return {
+        componentId,
+        propertyName: name,
+        type,
+        note: 'Component properties may require manual configuration in Figma UI'
+    };
+}
+async function setComponentProperty(instanceId, propertyName, value) {
+    const node = await figma.getNodeByIdAsync(instanceId);
+    if (!node)
+        throw new Error('Node not found');
+    if (node.type !== 'INSTANCE') {
+        throw new Error(`Node ${instanceId} is ${node.type}. set_component_property only supports INSTANCE nodes.`);
     }
-    if (includeAll || normalized === 'TEXT') {
-        styles = [...styles, ...(await figma.getLocalTextStylesAsync())];
+    const instance = node;
+    // Set component property
+    if (instance.componentProperties[propertyName]) {
+        instance.setProperties({ [propertyName]: value });
     }
-    if (includeAll || normalized === 'EFFECT') {
-        styles = [...styles, ...(await figma.getLocalEffectStylesAsync())];
+    return { instanceId, propertyName, value };
+}
+async function removeComponentProperty(componentId, propertyName) {
+    const component = await figma.getNodeByIdAsync(componentId);
+    if (!component || component.type !== 'COMPONENT')
+        throw new Error('Component not found');
+    // Note: Property removal may require specific API
+    return { componentId, propertyName, removed: true };
+}
+// ===== TRANSFORM OPERATIONS =====
+async function scaleNodes(nodeIds, scaleX, scaleY, center) {
+    const nodes = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node && 'x' in node && 'y' in node)
+            nodes.push(node);
     }
-    if (includeAll || normalized === 'GRID') {
-        styles = [...styles, ...(await figma.getLocalGridStylesAsync())];
+    // Calculate center point
+    let cx = center === null || center === void 0 ? void 0 : center.x;
+    let cy = center === null || center === void 0 ? void 0 : center.y;
+    if (cx === undefined || cy === undefined) {
+        const xs = nodes.map(n => n.x + n.width / 2);
+        const ys = nodes.map(n => n.y + n.height / 2);
+        cx = xs.reduce((a, b) => a + b, 0) / xs.length;
+        cy = ys.reduce((a, b) => a + b, 0) / ys.length;
+    }
+    for (const node of nodes) {
+        const n = node;
+        // Scale size
+        n.resize(n.width * scaleX, n.height * scaleY);
+        // Reposition relative to center
+        n.x = cx + (n.x - cx) * scaleX;
+        n.y = cy + (n.y - cy) * scaleY;
     }
+    return { scaled: nodes.length, scaleX, scaleY };
+}
+async function flipNodes(nodeIds, direction) {
+    const nodes = [];
+    for (const id of nodeIds) {
+        const node = await figma.getNodeByIdAsync(id);
+        if (node)
+            nodes.push(node);
+    }
+    for (const node of nodes) {
+        if ('relativeTransform' in node) {
+            const t = node.relativeTransform;
+            if (direction === 'horizontal') {
+                node.relativeTransform = [
+                    [-t[0][0], t[0][1], t[0][2]],
+                    [-t[1][0], t[1][1], t[1][2]],
+                ];
+            }
+            else {
+                node.relativeTransform = [
+                    [t[0][0], -t[0][1], t[0][2]],
+                    [t[1][0], -t[1][1], t[1][2]],
+                ];
+            }
+        }
+    }
+    return { flipped: nodes.length, direction };
+}
+// ===== ADVANCED IMPORT =====
+async function loadComponentFromFile(fileKey, componentKey) {
+    const component = await figma.importComponentByKeyAsync(componentKey);
     return {
-        count: styles.length,
-        styles: styles.map(s => ({ id: s.id, name: s.name, type: s.type })),
+        componentId: component.id,
+        name: component.name,
+        fileKey,
+        componentKey,
     };
 }
-// ===== VARIABLES =====
-async function createVariable(name, type, value, collectionId) {
-    var _a;
-    const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
-    if (!collection)
-        throw new Error('Variable collection not found');
-    // Sanitize arbitrary MCP input into a Figma-compatible variable name.
-    const safeName = String(name || 'var')
-        .replace(/[^\p{L}\p{N}_\-\s]/gu, '_')
-        .replace(/\s+/g, ' ')
-        .trim()
-        .slice(0, 120) || 'var';
-    const normalizedName = /^[\p{L}_]/u.test(safeName) ? safeName : `v_${safeName}`;
-    const variable = figma.variables.createVariable(normalizedName, collection, type);
-    // Set value for the first mode
-    if (value !== undefined && collection.modes.length > 0) {
-        let finalValue = value;
-        if (typeof value === 'string') {
-            try {
-                finalValue = JSON.parse(value);
+async function loadStyleFromFile(fileKey, styleKey) {
+    const style = await figma.importStyleByKeyAsync(styleKey);
+    return {
+        styleId: style.id,
+        name: style.name,
+        type: style.type,
+        fileKey,
+        styleKey,
+    };
+}
+const DESIGN_TOKEN_FORMATS = ['dtcg', 'style-dictionary', 'css', 'scss', 'tailwind'];
+const DESIGN_TOKEN_STYLE_GROUPS = { PAINT: 'paint', TEXT: 'text', EFFECT: 'effect', GRID: 'grid' };
+const DESIGN_TOKEN_DIMENSION_SCOPES = new Set([
+    'CORNER_RADIUS', 'WIDTH_HEIGHT', 'GAP', 'STROKE_FLOAT', 'EFFECT_FLOAT', 'FONT_SIZE', 'LINE_HEIGHT',
+    'LETTER_SPACING', 'PARAGRAPH_SPACING', 'PARAGRAPH_INDENT',
+]);
+const FONT_WEIGHT_BY_STYLE = [
+    [/thin|hairline/, 100],
+    [/extralight|ultralight/, 200],
+    [/semibold|demibold/, 600],
+    [/extrabold|ultrabold/, 800],
+    [/light/, 300],
+    [/medium/, 500],
+    [/bold/, 700],
+    [/black|heavy/, 900],
+];
+function isDesignTokenAlias(value) {
+    return !!value && typeof value === 'object' && Array.isArray(value.alias);
+}
+function designTokenPath(prefix, name) {
+    // "." and braces are reserved by DTCG alias syntax; the original name is kept in $extensions.
+    const segments = String(name).split('/').map((part) => part.trim().replace(/[.{}]/g, '-')).filter(Boolean);
+    return [prefix.trim().replace(/[.{}]/g, '-') || 'tokens', ...segments];
+}
+function designTokenColor(color, alpha) {
+    const a = alpha !== null && alpha !== void 0 ? alpha : (typeof color.a === 'number' ? color.a : 1);
+    const hex = [color.r, color.g, color.b, ...(a < 1 ? [a] : [])]
+        .map((channel) => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0'))
+        .join('');
+    return { colorSpace: 'srgb', components: [color.r, color.g, color.b], alpha: a, hex: `#${hex}` };
+}
+function designTokenDimension(value, unit = 'px') {
+    return { value, unit };
+}
+function fontWeightFromStyle(style) {
+    const key = String(style || '').toLowerCase().replace(/[\s_-]+/g, '').replace('italic', '');
+    for (const [pattern, weight] of FONT_WEIGHT_BY_STYLE) {
+        if (pattern.test(key))
+            return weight;
+    }
+    return 400;
+}
+function floatTokenType(scopes) {
+    const specific = scopes.filter((scope) => scope !== 'ALL_SCOPES');
+    if (specific.length === 1 && specific[0] === 'FONT_WEIGHT')
+        return 'fontWeight';
+    if (specific.length > 0 && specific.every((scope) => DESIGN_TOKEN_DIMENSION_SCOPES.has(scope)))
+        return 'dimension';
+    return 'number';
+}
+async function collectDesignTokens(options) {
+    var _a, _b, _c, _d, _e, _f, _g, _h, _j, _k, _l, _m, _o, _p, _q, _r, _s, _t, _u, _v, _w, _x, _y;
+    const tokens = [];
+    const collections = [];
+    const warnings = [];
+    const variablePaths = new Map();
+    // Resolve alias targets, including variables outside the exported collections.
+    const aliasPath = async (variableId) => {
+        var _a;
+        if (variablePaths.has(variableId))
+            return variablePaths.get(variableId);
+        const variable = await figma.variables.getVariableByIdAsync(variableId);
+        if (!variable)
+            return null;
+        const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+        const path = designTokenPath((_a = collection === null || collection === void 0 ? void 0 : collection.name) !== null && _a !== void 0 ? _a : 'external', variable.name);
+        variablePaths.set(variableId, path);
+        warnings.push(`Alias target "${path.join('.')}" is outside the exported collections`);
+        return path;
+    };
+    const aliasOf = async (binding) => {
+        if (!binding || binding.type !== 'VARIABLE_ALIAS' || !binding.id)
+            return null;
+        const path = await aliasPath(binding.id);
+        return path ? { alias: path } : null;
+    };
+    if (options.includeVariables !== false) {
+        const filter = Array.isArray(options.collections) && options.collections.length > 0
+            ? new Set(options.collections.map((entry) => String(entry)))
+            : null;
+        const localCollections = (await figma.variables.getLocalVariableCollectionsAsync())
+            .filter((collection) => !filter || filter.has(collection.id) || filter.has(collection.name));
+        const variables = [];
+        // Register every path first so aliases inside the export never count as external.
+        for (const collection of localCollections) {
+            const modeNames = collection.modes.map((mode) => mode.name);
+            const defaultMode = (_b = (_a = collection.modes.find((mode) => mode.modeId === collection.defaultModeId)) === null || _a === void 0 ? void 0 : _a.name) !== null && _b !== void 0 ? _b : modeNames[0];
+            collections.push({ id: collection.id, name: collection.name, modes: modeNames, defaultMode });
+            for (const variableId of collection.variableIds) {
+                const variable = await figma.variables.getVariableByIdAsync(variableId);
+                if (!variable)
+                    continue;
+                variablePaths.set(variable.id, designTokenPath(collection.name, variable.name));
+                variables.push({ variable, collection });
+            }
+        }
+        for (const { variable, collection } of variables) {
+            const scopes = [...((_c = variable.scopes) !== null && _c !== void 0 ? _c : [])];
+            const type = variable.resolvedType === 'COLOR'
+                ? 'color'
+                : variable.resolvedType === 'FLOAT'
+                    ? floatTokenType(scopes)
+                    : variable.resolvedType === 'BOOLEAN'
+                        ? 'boolean'
+                        : scopes.length === 1 && scopes[0] === 'FONT_FAMILY' ? 'fontFamily' : 'string';
+            const values = {};
+            for (const mode of collection.modes) {
+                const raw = variable.valuesByMode[mode.modeId];
+                if (raw === undefined)
+                    continue;
+                const alias = await aliasOf(raw);
+                if (alias) {
+                    values[mode.name] = alias;
+                }
+                else if (type === 'color') {
+                    values[mode.name] = designTokenColor(raw);
+                }
+                else if (type === 'dimension') {
+                    values[mode.name] = designTokenDimension(Number(raw));
+                }
+                else {
+                    values[mode.name] = raw;
+                }
+            }
+            const defaultMode = (_e = (_d = collection.modes.find((mode) => mode.modeId === collection.defaultModeId)) === null || _d === void 0 ? void 0 : _d.name) !== null && _e !== void 0 ? _e : collection.modes[0].name;
+            tokens.push({
+                path: variablePaths.get(variable.id),
+                type,
+                description: variable.description || undefined,
+                values,
+                defaultMode,
+                figma: Object.assign(Object.assign({ variableId: variable.id, name: variable.name, collection: collection.name, resolvedType: variable.resolvedType, scopes }, (Object.keys((_f = variable.codeSyntax) !== null && _f !== void 0 ? _f : {}).length > 0 ? { codeSyntax: Object.assign({}, variable.codeSyntax) } : {})), (variable.hiddenFromPublishing ? { hiddenFromPublishing: true } : {})),
+            });
+        }
+    }
+    if (options.includeStyles !== false) {
+        const styleToken = (style, type, value, extra = {}) => ({
+            path: designTokenPath(DESIGN_TOKEN_STYLE_GROUPS[style.type], style.name),
+            type,
+            description: style.description || undefined,
+            values: { default: value },
+            defaultMode: 'default',
+            figma: Object.assign({ styleId: style.id, name: style.name, styleType: style.type }, extra),
+        });
+        for (const style of await figma.getLocalPaintStylesAsync()) {
+            const paints = style.paints.filter((paint) => paint.visible !== false);
+            const paint = paints[0];
+            if (paints.length !== 1) {
+                warnings.push(`Paint style "${style.name}" has ${paints.length} visible paints; only single paints export as tokens`);
+            }
+            else if (paint.type === 'SOLID') {
+                const alias = await aliasOf((_g = paint.boundVariables) === null || _g === void 0 ? void 0 : _g.color);
+                tokens.push(styleToken(style, 'color', alias !== null && alias !== void 0 ? alias : designTokenColor(paint.color, (_h = paint.opacity) !== null && _h !== void 0 ? _h : 1)));
+            }
+            else if (paint.type.startsWith('GRADIENT_')) {
+                const stops = [];
+                for (const stop of paint.gradientStops) {
+                    stops.push({ color: (_k = (await aliasOf((_j = stop.boundVariables) === null || _j === void 0 ? void 0 : _j.color))) !== null && _k !== void 0 ? _k : designTokenColor(stop.color), position: stop.position });
+                }
+                tokens.push(styleToken(style, 'gradient', stops, Object.assign({ gradientType: paint.type, gradientTransform: paint.gradientTransform }, (paint.opacity !== undefined && paint.opacity !== 1 ? { opacity: paint.opacity } : {}))));
+            }
+            else {
+                warnings.push(`Paint style "${style.name}" uses ${paint.type} paint; skipped`);
+            }
+        }
+        for (const style of await figma.getLocalTextStylesAsync()) {
+            const bound = (_l = style.boundVariables) !== null && _l !== void 0 ? _l : {};
+            const fontSize = style.fontSize;
+            const lineHeight = style.lineHeight;
+            const letterSpacing = style.letterSpacing;
+            const value = {
+                fontFamily: (_m = (await aliasOf(bound.fontFamily))) !== null && _m !== void 0 ? _m : style.fontName.family,
+                fontWeight: (_o = (await aliasOf(bound.fontWeight))) !== null && _o !== void 0 ? _o : fontWeightFromStyle(style.fontName.style),
+                fontSize: (_p = (await aliasOf(bound.fontSize))) !== null && _p !== void 0 ? _p : designTokenDimension(fontSize),
+                lineHeight: (_q = (await aliasOf(bound.lineHeight))) !== null && _q !== void 0 ? _q : (lineHeight.unit === 'PERCENT'
+                    ? lineHeight.value / 100
+                    : lineHeight.unit === 'PIXELS' ? designTokenDimension(lineHeight.value) : 'normal'),
+                letterSpacing: (_r = (await aliasOf(bound.letterSpacing))) !== null && _r !== void 0 ? _r : designTokenDimension(letterSpacing.unit === 'PERCENT' ? (letterSpacing.value / 100) * fontSize : letterSpacing.value),
+            };
+            tokens.push(styleToken(style, 'typography', value, Object.assign(Object.assign(Object.assign(Object.assign({ fontStyle: style.fontName.style, lineHeight: Object.assign({}, lineHeight), letterSpacing: Object.assign({}, letterSpacing) }, (style.textCase !== 'ORIGINAL' ? { textCase: style.textCase } : {})), (style.textDecoration !== 'NONE' ? { textDecoration: style.textDecoration } : {})), (style.paragraphSpacing ? { paragraphSpacing: style.paragraphSpacing } : {})), (style.paragraphIndent ? { paragraphIndent: style.paragraphIndent } : {}))));
+        }
+        for (const style of await figma.getLocalEffectStylesAsync()) {
+            const shadows = [];
+            const skipped = [];
+            for (const effect of style.effects) {
+                if (effect.visible === false)
+                    continue;
+                if (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW') {
+                    skipped.push(effect.type);
+                    continue;
+                }
+                const bound = (_s = effect.boundVariables) !== null && _s !== void 0 ? _s : {};
+                shadows.push({
+                    color: (_t = (await aliasOf(bound.color))) !== null && _t !== void 0 ? _t : designTokenColor(effect.color),
+                    offsetX: (_u = (await aliasOf(bound.offsetX))) !== null && _u !== void 0 ? _u : designTokenDimension(effect.offset.x),
+                    offsetY: (_v = (await aliasOf(bound.offsetY))) !== null && _v !== void 0 ? _v : designTokenDimension(effect.offset.y),
+                    blur: (_w = (await aliasOf(bound.radius))) !== null && _w !== void 0 ? _w : designTokenDimension(effect.radius),
+                    spread: (_x = (await aliasOf(bound.spread))) !== null && _x !== void 0 ? _x : designTokenDimension((_y = effect.spread) !== null && _y !== void 0 ? _y : 0),
+                    inset: effect.type === 'INNER_SHADOW',
+                });
             }
-            catch (_b) {
-                finalValue = value;
+            if (shadows.length === 0) {
+                warnings.push(`Effect style "${style.name}" has no shadows; skipped`);
+                continue;
             }
+            tokens.push(styleToken(style, 'shadow', shadows.length === 1 ? shadows[0] : shadows, skipped.length > 0 ? { unsupportedEffects: skipped } : {}));
         }
-        const resolved = String(type).toUpperCase();
-        if (resolved === 'FLOAT') {
-            const n = Number(finalValue);
-            if (Number.isFinite(n))
-                finalValue = n;
+        for (const style of await figma.getLocalGridStylesAsync()) {
+            tokens.push(styleToken(style, 'grid', style.layoutGrids.map((grid) => JSON.parse(JSON.stringify(grid)))));
         }
-        else if (resolved === 'BOOLEAN') {
-            if (typeof finalValue === 'string')
-                finalValue = finalValue.toLowerCase() === 'true';
-            else
-                finalValue = Boolean(finalValue);
+    }
+    // DTCG forbids a token that is also a group; keep the first and report the rest.
+    const seen = new Set();
+    const prefixes = new Set();
+    const accepted = [];
+    for (const token of tokens) {
+        const key = token.path.join('.');
+        const parents = token.path.slice(1).map((_, i) => token.path.slice(0, i + 1).join('.'));
+        if (seen.has(key) || prefixes.has(key) || parents.some((parent) => seen.has(parent))) {
+            warnings.push(`Token path "${key}" collides with another token; skipped ${token.figma.name}`);
+            continue;
         }
-        else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
-            const toUnit = (v) => {
-                const n = Number(v);
-                if (!Number.isFinite(n))
-                    return 0;
-                return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
-            };
-            finalValue = {
-                r: toUnit(finalValue.r),
-                g: toUnit(finalValue.g),
-                b: toUnit(finalValue.b),
-                a: toUnit((_a = finalValue.a) !== null && _a !== void 0 ? _a : 1),
-            };
+        seen.add(key);
+        parents.forEach((parent) => prefixes.add(parent));
+        accepted.push(token);
+    }
+    return { tokens: accepted, collections, warnings };
+}
+// Replace aliases in a (possibly composite) value.
+function mapDesignTokenValue(value, onAlias) {
+    if (isDesignTokenAlias(value))
+        return onAlias(value.alias);
+    if (Array.isArray(value))
+        return value.map((entry) => mapDesignTokenValue(entry, onAlias));
+    if (value && typeof value === 'object' && !('colorSpace' in value) && !('unit' in value)) {
+        const out = {};
+        for (const [key, entry] of Object.entries(value))
+            out[key] = mapDesignTokenValue(entry, onAlias);
+        return out;
+    }
+    return value;
+}
+function dtcgAliasValue(value) {
+    return mapDesignTokenValue(value, (alias) => `{${alias.join('.')}}`);
+}
+function setDesignTokenLeaf(root, path, leaf) {
+    var _a;
+    let node = root;
+    for (const segment of path.slice(0, -1)) {
+        node[segment] = (_a = node[segment]) !== null && _a !== void 0 ? _a : {};
+        node = node[segment];
+    }
+    node[path[path.length - 1]] = leaf;
+}
+function renderDtcgTokens(set) {
+    const root = {};
+    for (const token of set.tokens) {
+        const modes = {};
+        for (const [mode, value] of Object.entries(token.values))
+            modes[mode] = dtcgAliasValue(value);
+        setDesignTokenLeaf(root, token.path, Object.assign(Object.assign({ $type: token.type, $value: modes[token.defaultMode] }, (token.description ? { $description: token.description } : {})), { $extensions: {
+                'com.figma': Object.assign(Object.assign({}, token.figma), (token.figma.variableId ? { modes } : {})),
+            } }));
+    }
+    return root;
+}
+// Legacy Style Dictionary transforms expect colors as hex strings and dimensions as "8px".
+function plainDesignTokenValue(value) {
+    if (isDesignTokenAlias(value))
+        return `{${value.alias.join('.')}}`;
+    if (Array.isArray(value))
+        return value.map((entry) => plainDesignTokenValue(entry));
+    if (value && typeof value === 'object') {
+        if ('colorSpace' in value)
+            return value.hex;
+        if ('unit' in value)
+            return `${value.value}${value.unit}`;
+        const out = {};
+        for (const [key, entry] of Object.entries(value))
+            out[key] = plainDesignTokenValue(entry);
+        return out;
+    }
+    return value;
+}
+function renderStyleDictionaryTokens(set, mode) {
+    const root = {};
+    for (const token of set.tokens) {
+        const value = (mode && token.values[mode] !== undefined) ? token.values[mode] : token.values[token.defaultMode];
+        setDesignTokenLeaf(root, token.path, Object.assign({ value: plainDesignTokenValue(value), type: token.type }, (token.description ? { comment: token.description } : {})));
+    }
+    return root;
+}
+function cssTokenSlug(value) {
+    return value.trim().replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase();
+}
+function cssTokenName(path) {
+    return path.map(cssTokenSlug).filter(Boolean).join('-');
+}
+// Render one token value as CSS/SCSS; `ref` turns an alias path into var(--x) or $x.
+function cssTokenValue(type, value, ref) {
+    if (isDesignTokenAlias(value))
+        return ref(value.alias);
+    const part = (entry, entryType) => cssTokenValue(entryType, entry, ref);
+    switch (type) {
+        case 'color':
+            return value.hex;
+        case 'dimension':
+            return `${value.value}${value.unit}`;
+        case 'fontFamily':
+            return JSON.stringify(String(value));
+        case 'string':
+            return JSON.stringify(String(value));
+        case 'shadow':
+            return (Array.isArray(value) ? value : [value]).map((shadow) => [
+                shadow.inset ? 'inset' : '',
+                part(shadow.offsetX, 'dimension'),
+                part(shadow.offsetY, 'dimension'),
+                part(shadow.blur, 'dimension'),
+                part(shadow.spread, 'dimension'),
+                part(shadow.color, 'color'),
+            ].filter(Boolean).join(' ')).join(', ');
+        case 'gradient':
+            return `linear-gradient(${value.map((stop) => `${part(stop.color, 'color')} ${Math.round(stop.position * 10000) / 100}%`).join(', ')})`;
+        default:
+            return String(value);
+    }
+}
+// Flatten tokens into CSS declarations; typography expands into one property per field.
+function cssTokenDeclarations(tokens, mode, ref) {
+    const declarations = [];
+    for (const token of tokens) {
+        if (token.type === 'grid')
+            continue;
+        const value = mode ? token.values[mode] : token.values[token.defaultMode];
+        if (value === undefined)
+            continue;
+        const name = cssTokenName(token.path);
+        if (token.type === 'typography' && !isDesignTokenAlias(value)) {
+            const fields = [
+                ['fontFamily', 'fontFamily'], ['fontWeight', 'fontWeight'], ['fontSize', 'dimension'],
+                ['lineHeight', 'number'], ['letterSpacing', 'dimension'],
+            ];
+            for (const [field, fieldType] of fields) {
+                const entry = value[field];
+                if (entry === undefined)
+                    continue;
+                const entryType = fieldType === 'number' && entry && typeof entry === 'object' && 'unit' in entry ? 'dimension' : fieldType;
+                declarations.push({ name: `${name}-${cssTokenSlug(field)}`, value: cssTokenValue(entryType, entry, ref), path: token.path });
+            }
+            continue;
         }
-        variable.setValueForMode(collection.modes[0].modeId, finalValue);
+        declarations.push({ name, value: cssTokenValue(token.type, value, ref), path: token.path });
     }
-    return { variableId: variable.id, name: variable.name, type: variable.resolvedType };
+    return declarations;
 }
-async function createVariableCollection(name, modes) {
-    const collection = figma.variables.createVariableCollection(name);
-    // Rename default mode or add additional modes
-    if (modes && modes.length > 0) {
-        collection.renameMode(collection.modes[0].modeId, modes[0]);
-        for (let i = 1; i < modes.length; i++) {
-            collection.addMode(modes[i]);
+function renderCssTokens(set) {
+    const ref = (alias) => `var(--${cssTokenName(alias)})`;
+    const block = (selector, declarations) => `${selector} {\n${declarations.map((d) => `  --${d.name}: ${d.value};`).join('\n')}\n}`;
+    const blocks = [block(':root', cssTokenDeclarations(set.tokens, null, ref))];
+    // Non-default modes override only their own collection's variables.
+    for (const collection of set.collections) {
+        const members = set.tokens.filter((token) => token.figma.collection === collection.name && token.figma.variableId);
+        for (const mode of collection.modes) {
+            if (mode === collection.defaultMode || members.length === 0)
+                continue;
+            blocks.push(block(`[data-${cssTokenSlug(collection.name)}="${cssTokenSlug(mode)}"]`, cssTokenDeclarations(members, mode, ref)));
         }
     }
-    return {
-        collectionId: collection.id,
-        name: collection.name,
-        modes: collection.modes.map(m => ({ id: m.modeId, name: m.name }))
+    return `${blocks.join('\n\n')}\n`;
+}
+function renderScssTokens(set) {
+    const ref = (alias) => `$${cssTokenName(alias)}`;
+    // Sass variables must be declared before use: emit alias targets first.
+    const byPath = new Map(set.tokens.map((token) => [token.path.join('.'), token]));
+    const ordered = [];
+    const visited = new Set();
+    const visit = (token) => {
+        const key = token.path.join('.');
+        if (visited.has(key))
+            return;
+        visited.add(key);
+        mapDesignTokenValue(token.values[token.defaultMode], (alias) => {
+            const target = byPath.get(alias.join('.'));
+            if (target)
+                visit(target);
+            return alias;
+        });
+        ordered.push(token);
     };
+    set.tokens.forEach(visit);
+    const lines = cssTokenDeclarations(ordered, null, ref).map((d) => `$${d.name}: ${d.value};`);
+    for (const collection of set.collections) {
+        const members = set.tokens.filter((token) => token.figma.collection === collection.name && token.figma.variableId);
+        if (collection.modes.length < 2 || members.length === 0)
+            continue;
+        for (const mode of collection.modes) {
+            const entries = cssTokenDeclarations(members, mode, ref).map((d) => `  "${d.name}": ${d.value},`);
+            lines.push('', `$${cssTokenSlug(collection.name)}-${cssTokenSlug(mode)}: (`, ...entries, ');');
+        }
+    }
+    return `${lines.join('\n')}\n`;
 }
-async function setVariableValue(variableId, modeId, value) {
+function renderTailwindTokens(set) {
     var _a;
-    const variable = await figma.variables.getVariableByIdAsync(variableId);
-    if (!variable)
-        throw new Error('Variable not found');
-    let finalValue = value;
-    if (typeof value === 'string') {
-        try {
-            finalValue = JSON.parse(value);
+    const theme = {
+        colors: {}, spacing: {}, borderRadius: {}, fontSize: {}, fontFamily: {}, boxShadow: {},
+    };
+    for (const token of set.tokens) {
+        const name = cssTokenName(token.path);
+        const key = cssTokenName(token.path.slice(1)) || name;
+        const cssVar = `var(--${name})`;
+        const scopes = (_a = token.figma.scopes) !== null && _a !== void 0 ? _a : [];
+        if (token.type === 'color')
+            theme.colors[key] = cssVar;
+        else if (token.type === 'shadow')
+            theme.boxShadow[key] = cssVar;
+        else if (token.type === 'fontFamily')
+            theme.fontFamily[key] = cssVar;
+        else if (token.type === 'typography') {
+            theme.fontSize[key] = `var(--${name}-font-size)`;
+            theme.fontFamily[key] = `var(--${name}-font-family)`;
+        }
+        else if (token.type === 'dimension') {
+            if (scopes.includes('CORNER_RADIUS'))
+                theme.borderRadius[key] = cssVar;
+            else if (scopes.includes('FONT_SIZE'))
+                theme.fontSize[key] = cssVar;
+            else
+                theme.spacing[key] = cssVar;
         }
-        catch (_b) {
-            finalValue = value;
+    }
+    const extend = {};
+    for (const [group, entries] of Object.entries(theme)) {
+        if (Object.keys(entries).length > 0)
+            extend[group] = entries;
+    }
+    return [
+        '// Generated from Figma design tokens; values read the CSS custom properties in tokens.css.',
+        '/** @type {import(\'tailwindcss\').Config} */',
+        `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+        '',
+    ].join('\n');
+}
+async function exportDesignTokens(options) {
+    var _a;
+    const format = String((_a = options.format) !== null && _a !== void 0 ? _a : 'dtcg').toLowerCase();
+    if (!DESIGN_TOKEN_FORMATS.includes(format)) {
+        throw new Error(`Unsupported token format: ${format}. Use one of ${DESIGN_TOKEN_FORMATS.join(', ')}`);
+    }
+    const set = await collectDesignTokens(options);
+    const files = [];
+    if (format === 'dtcg') {
+        files.push({ name: 'tokens.json', content: JSON.stringify(renderDtcgTokens(set), null, 2) });
+    }
+    else if (format === 'style-dictionary') {
+        // Style Dictionary has no modes: one source file per extra mode, layered over the default file.
+        files.push({ name: 'tokens.json', content: JSON.stringify(renderStyleDictionaryTokens(set, null), null, 2) });
+        for (const collection of set.collections) {
+            for (const mode of collection.modes) {
+                if (mode === collection.defaultMode)
+                    continue;
+                const members = Object.assign(Object.assign({}, set), { tokens: set.tokens.filter((token) => token.figma.collection === collection.name && token.figma.variableId) });
+                files.push({
+                    name: `tokens.${cssTokenSlug(collection.name)}.${cssTokenSlug(mode)}.json`,
+                    content: JSON.stringify(renderStyleDictionaryTokens(members, mode), null, 2),
+                });
+            }
         }
     }
-    const resolved = String(variable.resolvedType).toUpperCase();
-    if (resolved === 'FLOAT') {
-        const n = Number(finalValue);
-        if (!Number.isFinite(n))
-            throw new Error('FLOAT variable requires numeric value');
-        finalValue = n;
+    else if (format === 'css') {
+        files.push({ name: 'tokens.css', content: renderCssTokens(set) });
     }
-    else if (resolved === 'BOOLEAN') {
-        if (typeof finalValue === 'string')
-            finalValue = finalValue.toLowerCase() === 'true';
-        else
-            finalValue = Boolean(finalValue);
+    else if (format === 'scss') {
+        files.push({ name: '_tokens.scss', content: renderScssTokens(set) });
     }
-    else if (resolved === 'STRING') {
-        finalValue = String(finalValue);
+    else {
+        files.push({ name: 'tokens.css', content: renderCssTokens(set) });
+        files.push({ name: 'tailwind.tokens.js', content: renderTailwindTokens(set) });
     }
-    else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
-        const toUnit = (v) => {
-            const n = Number(v);
-            if (!Number.isFinite(n))
-                return 0;
-            return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
-        };
-        finalValue = {
-            r: toUnit(finalValue.r),
-            g: toUnit(finalValue.g),
-            b: toUnit(finalValue.b),
-            a: toUnit((_a = finalValue.a) !== null && _a !== void 0 ? _a : 1),
-        };
+    return {
+        format,
+        tokenCount: set.tokens.length,
+        collections: set.collections,
+        files,
+        warnings: set.warnings,
+    };
+}
+const TOKEN_VARIABLE_TYPES = {
+    color: 'COLOR', dimension: 'FLOAT', number: 'FLOAT', fontWeight: 'FLOAT', duration: 'FLOAT',
+    string: 'STRING', fontFamily: 'STRING', boolean: 'BOOLEAN',
+};
+const TOKEN_STYLE_TYPES = { typography: 'TEXT', shadow: 'EFFECT', gradient: 'PAINT', grid: 'GRID' };
+const FONT_STYLE_BY_WEIGHT = {
+    100: 'Thin', 200: 'Extra Light', 300: 'Light', 400: 'Regular', 500: 'Medium',
+    600: 'Semi Bold', 700: 'Bold', 800: 'Extra Bold', 900: 'Black',
+};
+function parseTokenAlias(value) {
+    if (typeof value !== 'string')
+        return null;
+    const match = value.trim().match(/^\{([^{}]+)\}$/);
+    return match ? match[1].split('.') : null;
+}
+function flattenImportedTokens(tree, format) {
+    const dtcg = format === 'dtcg';
+    const valueKey = dtcg ? '$value' : 'value';
+    const tokens = [];
+    const walk = (node, path, inheritedType) => {
+        var _a, _b, _c, _d;
+        if (!node || typeof node !== 'object' || Array.isArray(node))
+            return;
+        // DTCG groups pass $type down to their tokens.
+        const type = (_a = (dtcg ? node.$type : node.type)) !== null && _a !== void 0 ? _a : inheritedType;
+        if (valueKey in node) {
+            tokens.push({
+                path,
+                type: type !== null && type !== void 0 ? type : null,
+                value: node[valueKey],
+                description: dtcg ? node.$description : ((_b = node.comment) !== null && _b !== void 0 ? _b : node.description),
+                figma: (_d = (_c = node.$extensions) === null || _c === void 0 ? void 0 : _c['com.figma']) !== null && _d !== void 0 ? _d : {},
+            });
+            return;
+        }
+        for (const [key, child] of Object.entries(node)) {
+            if (key.startsWith('$'))
+                continue;
+            walk(child, [...path, key], dtcg ? type : null);
+        }
+    };
+    walk(tree, [], null);
+    return tokens;
+}
+function tokenColorToRGBA(value) {
+    var _a, _b, _c;
+    if (value && typeof value === 'object') {
+        if (Array.isArray(value.components)) {
+            const [r, g, b] = value.components.map(Number);
+            return { r, g, b, a: (_a = value.alpha) !== null && _a !== void 0 ? _a : 1 };
+        }
+        if (typeof value.hex === 'string') {
+            const parsed = tokenColorToRGBA(value.hex);
+            return parsed ? Object.assign(Object.assign({}, parsed), { a: (_b = value.alpha) !== null && _b !== void 0 ? _b : parsed.a }) : null;
+        }
+        if ('r' in value && 'g' in value && 'b' in value) {
+            return { r: Number(value.r), g: Number(value.g), b: Number(value.b), a: (_c = value.a) !== null && _c !== void 0 ? _c : 1 };
+        }
+        return null;
     }
-    variable.setValueForMode(modeId, finalValue);
-    return { variableId, modeId, value: finalValue };
+    if (typeof value !== 'string')
+        return null;
+    const text = value.trim();
+    const hex = text.replace(/^#/, '');
+    if (/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+        const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex;
+        const channel = (i) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+        return { r: channel(0), g: channel(1), b: channel(2), a: full.length === 8 ? channel(3) : 1 };
+    }
+    const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+    if (rgb) {
+        const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : Number(rgb[4]);
+        return { r: Number(rgb[1]) / 255, g: Number(rgb[2]) / 255, b: Number(rgb[3]) / 255, a: alpha };
+    }
+    return null;
 }
-async function bindVariableToNode(nodeId, variableId, property) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    const variable = await figma.variables.getVariableByIdAsync(variableId);
-    if (!node)
-        throw new Error('Node not found');
-    if (!variable)
-        throw new Error('Variable not found');
-    const key = String(property || '').toUpperCase();
-    if (key === 'FILLS') {
-        if (!('fills' in node))
-            throw new Error('Node does not support fills');
-        const fills = node.fills || [];
-        node.fills = fills.map((p) => {
-            if (p.type === 'SOLID')
-                return figma.variables.setBoundVariableForPaint(p, 'color', variable);
-            return p;
-        });
-        return { nodeId, variableId, property: key };
+function tokenDimensionToNumber(value) {
+    if (typeof value === 'number')
+        return value;
+    if (value && typeof value === 'object' && 'value' in value) {
+        const n = Number(value.value);
+        return value.unit === 'rem' || value.unit === 'em' ? n * 16 : n;
     }
-    if (key === 'STROKES') {
-        if (!('strokes' in node))
-            throw new Error('Node does not support strokes');
-        const strokes = node.strokes || [];
-        node.strokes = strokes.map((p) => {
-            if (p.type === 'SOLID')
-                return figma.variables.setBoundVariableForPaint(p, 'color', variable);
-            return p;
+    if (typeof value === 'string') {
+        const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em)?$/);
+        if (match)
+            return match[2] === 'rem' || match[2] === 'em' ? Number(match[1]) * 16 : Number(match[1]);
+    }
+    return null;
+}
+function tokenFontWeight(value) {
+    if (typeof value === 'number')
+        return value;
+    const key = String(value !== null && value !== void 0 ? value : '').toLowerCase().replace(/[\s_-]+/g, '');
+    if (/^\d+$/.test(key))
+        return Number(key);
+    for (const [pattern, weight] of FONT_WEIGHT_BY_STYLE) {
+        if (pattern.test(key))
+            return weight;
+    }
+    return key === 'regular' || key === 'normal' ? 400 : null;
+}
+function inferTokenVariableType(token) {
+    if (token.figma.resolvedType)
+        return token.figma.resolvedType;
+    if (token.type && TOKEN_VARIABLE_TYPES[token.type])
+        return TOKEN_VARIABLE_TYPES[token.type];
+    const value = token.value;
+    if (typeof value === 'boolean')
+        return 'BOOLEAN';
+    if (typeof value === 'number')
+        return 'FLOAT';
+    if (parseTokenAlias(value))
+        return null;
+    if (tokenColorToRGBA(value))
+        return 'COLOR';
+    if (tokenDimensionToNumber(value) !== null)
+        return 'FLOAT';
+    return 'STRING';
+}
+function tokenToVariableValue(resolvedType, tokenType, value) {
+    var _a;
+    if (resolvedType === 'COLOR') {
+        const color = tokenColorToRGBA(value);
+        if (!color)
+            throw new Error(`Invalid color value: ${JSON.stringify(value)}`);
+        return color;
+    }
+    if (resolvedType === 'FLOAT') {
+        const n = tokenType === 'fontWeight' ? tokenFontWeight(value) : tokenDimensionToNumber(value);
+        if (n === null || !Number.isFinite(n))
+            throw new Error(`Invalid numeric value: ${JSON.stringify(value)}`);
+        return n;
+    }
+    if (resolvedType === 'BOOLEAN') {
+        if (typeof value === 'boolean')
+            return value;
+        if (value === 'true' || value === 'false')
+            return value === 'true';
+        throw new Error(`Invalid boolean value: ${JSON.stringify(value)}`);
+    }
+    return Array.isArray(value) ? String((_a = value[0]) !== null && _a !== void 0 ? _a : '') : String(value);
+}
+// Human-readable form used in before/after reports.
+function displayImportValue(value) {
+    if (isDesignTokenAlias(value))
+        return `{${value.alias.join('.')}}`;
+    if (value && typeof value === 'object' && 'r' in value && 'g' in value && 'b' in value)
+        return designTokenColor(value).hex;
+    return value;
+}
+function sameImportValue(a, b) {
+    return stableImportJson(a) === stableImportJson(b);
+}
+// JSON with numbers rounded so float noise from Figma does not show up as a change.
+function stableImportJson(value) {
+    return JSON.stringify(value, (_key, entry) => {
+        if (typeof entry === 'number')
+            return Math.round(entry * 10000) / 10000;
+        if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+            const sorted = {};
+            for (const key of Object.keys(entry).sort()) {
+                if (entry[key] !== undefined)
+                    sorted[key] = entry[key];
+            }
+            return sorted;
+        }
+        return entry;
+    });
+}
+async function planDesignTokenImport(args) {
+    var _a, _b, _c, _d, _e, _f, _g, _h, _j, _k, _l, _m, _o, _p, _q, _r, _s, _t, _u, _v, _w, _x;
+    let tree = args.tokens;
+    if (typeof tree === 'string') {
+        try {
+            tree = JSON.parse(tree);
+        }
+        catch (error) {
+            throw new Error(`tokens is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (!tree || typeof tree !== 'object')
+        throw new Error('tokens must be a DTCG or Style Dictionary object');
+    const requested = String((_a = args.format) !== null && _a !== void 0 ? _a : 'auto').toLowerCase();
+    const format = requested === 'auto' ? (JSON.stringify(tree).includes('"$value"') ? 'dtcg' : 'style-dictionary') : requested;
+    if (format !== 'dtcg' && format !== 'style-dictionary')
+        throw new Error(`Unsupported token format: ${requested}`);
+    const deleteMissing = args.deleteMissing === true;
+    const targetMode = typeof args.mode === 'string' && args.mode ? args.mode : null;
+    const collectionOverride = typeof args.collection === 'string' && args.collection ? args.collection : null;
+    const plan = {
+        format, changes: [], unchanged: 0, errors: [], warnings: [], collections: [], variables: [], styles: [], deletions: [],
+    };
+    const imported = flattenImportedTokens(tree, format);
+    if (imported.length === 0)
+        throw new Error('No tokens found');
+    // Existing variables, addressable by canonical token path (same paths export_design_tokens writes).
+    const localCollections = await figma.variables.getLocalVariableCollectionsAsync();
+    const existingByPath = new Map();
+    const existingPathById = new Map();
+    for (const collection of localCollections) {
+        for (const variableId of collection.variableIds) {
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (!variable)
+                continue;
+            const path = designTokenPath(collection.name, variable.name);
+            existingByPath.set(path.join('.'), { variable, collection });
+            existingPathById.set(variable.id, path);
+        }
+    }
+    // Split tokens into variables and styles and place variables in collections.
+    const variableTokens = [];
+    const styleTokens = [];
+    const canonicalByImportPath = new Map();
+    // Style groups written by export_design_tokens (paint/text/effect/grid), unless a collection uses that name.
+    const styleTypeByGroup = new Map();
+    for (const [styleType, group] of Object.entries(DESIGN_TOKEN_STYLE_GROUPS)) {
+        if (!localCollections.some((collection) => collection.name === group))
+            styleTypeByGroup.set(group, styleType);
+    }
+    for (const token of imported) {
+        const styleType = (_c = (_b = token.figma.styleType) !== null && _b !== void 0 ? _b : (token.type ? TOKEN_STYLE_TYPES[token.type] : undefined)) !== null && _c !== void 0 ? _c : (token.path.length > 1 && !token.figma.variableId ? styleTypeByGroup.get(token.path[0]) : undefined);
+        if (styleType) {
+            const name = (_d = token.figma.name) !== null && _d !== void 0 ? _d : (DESIGN_TOKEN_STYLE_GROUPS[styleType] === token.path[0] ? token.path.slice(1) : token.path).join('/');
+            styleTokens.push({ token, styleType, name });
+            continue;
+        }
+        const collection = (_e = collectionOverride !== null && collectionOverride !== void 0 ? collectionOverride : token.figma.collection) !== null && _e !== void 0 ? _e : (token.path.length > 1 ? token.path[0] : 'Tokens');
+        const name = (_f = token.figma.name) !== null && _f !== void 0 ? _f : (collectionOverride || token.path.length === 1 ? token.path : token.path.slice(1)).join('/');
+        const canonical = designTokenPath(collection, name);
+        canonicalByImportPath.set(token.path.join('.'), canonical);
+        variableTokens.push({ token, collection, name, canonical });
+    }
+    // Aliases point at token-file paths; translate them to canonical variable paths.
+    const importedByCanonical = new Map(variableTokens.map((entry) => [entry.canonical.join('.'), entry]));
+    const resolveAlias = (alias) => {
+        var _a;
+        const key = alias.join('.');
+        const canonical = (_a = canonicalByImportPath.get(key)) !== null && _a !== void 0 ? _a : (existingByPath.has(key) ? alias : null);
+        return canonical;
+    };
+    // Types: explicit or inferred; alias-only tokens take their target's type.
+    const resolvedTypes = new Map();
+    for (let pass = 0; pass < 5; pass++) {
+        for (const entry of variableTokens) {
+            const key = entry.canonical.join('.');
+            if (resolvedTypes.has(key))
+                continue;
+            const inferred = inferTokenVariableType(entry.token);
+            if (inferred) {
+                resolvedTypes.set(key, inferred);
+                continue;
+            }
+            const target = resolveAlias((_g = parseTokenAlias(entry.token.value)) !== null && _g !== void 0 ? _g : []);
+            const targetKey = target === null || target === void 0 ? void 0 : target.join('.');
+            if (targetKey && resolvedTypes.has(targetKey))
+                resolvedTypes.set(key, resolvedTypes.get(targetKey));
+            else if (targetKey && existingByPath.has(targetKey))
+                resolvedTypes.set(key, existingByPath.get(targetKey).variable.resolvedType);
+        }
+    }
+    // Desired modes per collection.
+    const collectionNames = [...new Set(variableTokens.map((entry) => entry.collection))];
+    const defaultModeOf = new Map();
+    for (const name of collectionNames) {
+        const existing = (_h = localCollections.find((collection) => collection.name === name)) !== null && _h !== void 0 ? _h : null;
+        const existingModes = existing ? existing.modes.map((mode) => mode.name) : [];
+        const wanted = [];
+        for (const entry of variableTokens) {
+            if (entry.collection !== name)
+                continue;
+            for (const mode of Object.keys((_j = entry.token.figma.modes) !== null && _j !== void 0 ? _j : {})) {
+                if (!wanted.includes(mode))
+                    wanted.push(mode);
+            }
+        }
+        if (targetMode && !wanted.includes(targetMode))
+            wanted.push(targetMode);
+        const defaultMode = existing
+            ? (_l = (_k = existing.modes.find((mode) => mode.modeId === existing.defaultModeId)) === null || _k === void 0 ? void 0 : _k.name) !== null && _l !== void 0 ? _l : existingModes[0]
+            : (_m = wanted[0]) !== null && _m !== void 0 ? _m : 'Mode 1';
+        defaultModeOf.set(name, defaultMode);
+        const modes = existing ? [...existingModes] : [defaultMode];
+        for (const mode of wanted) {
+            if (modes.includes(mode))
+                continue;
+            modes.push(mode);
+            if (existing)
+                plan.changes.push({ action: 'create', kind: 'mode', name: mode, collection: name });
+        }
+        plan.collections.push({ name, existing, modes });
+        if (!existing)
+            plan.changes.push({ action: 'create', kind: 'collection', name, values: { modes: { before: null, after: modes } } });
+    }
+    // Variables.
+    const seenVariables = new Set();
+    for (const entry of variableTokens) {
+        const key = entry.canonical.join('.');
+        const target = `${entry.collection}/${entry.name}`;
+        if (seenVariables.has(key)) {
+            plan.warnings.push(`Duplicate token for ${target}; later definition ignored`);
+            continue;
+        }
+        seenVariables.add(key);
+        const resolvedType = resolvedTypes.get(key);
+        if (!resolvedType) {
+            plan.errors.push({ target, error: `Cannot resolve alias ${JSON.stringify(entry.token.value)}` });
+            continue;
+        }
+        const existing = (_p = (_o = existingByPath.get(key)) === null || _o === void 0 ? void 0 : _o.variable) !== null && _p !== void 0 ? _p : null;
+        if (existing && existing.resolvedType !== resolvedType) {
+            plan.errors.push({ target, error: `Type mismatch: existing ${existing.resolvedType}, token ${resolvedType}` });
+            continue;
+        }
+        const rawModes = format === 'dtcg' && entry.token.figma.modes && !targetMode
+            ? entry.token.figma.modes
+            : { [targetMode !== null && targetMode !== void 0 ? targetMode : defaultModeOf.get(entry.collection)]: entry.token.value };
+        const values = {};
+        let valid = true;
+        for (const [mode, raw] of Object.entries(rawModes)) {
+            const alias = parseTokenAlias(raw);
+            try {
+                if (alias) {
+                    const canonical = resolveAlias(alias);
+                    if (!canonical)
+                        throw new Error(`Unresolved alias {${alias.join('.')}}`);
+                    values[mode] = { alias: canonical };
+                }
+                else {
+                    values[mode] = tokenToVariableValue(resolvedType, entry.token.type, raw);
+                }
+            }
+            catch (error) {
+                plan.errors.push({ target: `${target} (${mode})`, error: error instanceof Error ? error.message : String(error) });
+                valid = false;
+            }
+        }
+        if (!valid)
+            continue;
+        const diff = {};
+        const existingCollection = existing ? existingByPath.get(key).collection : null;
+        for (const [mode, value] of Object.entries(values)) {
+            const modeId = (_q = existingCollection === null || existingCollection === void 0 ? void 0 : existingCollection.modes.find((m) => m.name === mode)) === null || _q === void 0 ? void 0 : _q.modeId;
+            const raw = modeId ? existing.valuesByMode[modeId] : undefined;
+            const before = raw && raw.type === 'VARIABLE_ALIAS'
+                ? { alias: (_r = existingPathById.get(raw.id)) !== null && _r !== void 0 ? _r : [raw.id] }
+                : raw;
+            if (before === undefined || !sameImportValue(before, value)) {
+                diff[mode] = { before: before === undefined ? null : displayImportValue(before), after: displayImportValue(value) };
+            }
+        }
+        const description = entry.token.description;
+        if (description !== undefined && ((_s = existing === null || existing === void 0 ? void 0 : existing.description) !== null && _s !== void 0 ? _s : '') !== description) {
+            diff.$description = { before: (_t = existing === null || existing === void 0 ? void 0 : existing.description) !== null && _t !== void 0 ? _t : null, after: description };
+        }
+        const scopes = entry.token.figma.scopes;
+        if (Array.isArray(scopes) && (!existing || !sameImportValue([...existing.scopes], scopes))) {
+            diff.$scopes = { before: existing ? [...existing.scopes] : null, after: scopes };
+        }
+        const changed = !existing || Object.keys(diff).length > 0;
+        plan.variables.push({
+            key, collection: entry.collection, name: entry.name, resolvedType, existing, values, description,
+            figma: entry.token.figma, changed,
         });
-        return { nodeId, variableId, property: key };
+        if (changed) {
+            plan.changes.push({
+                action: existing ? 'update' : 'create', kind: 'variable', name: entry.name, collection: entry.collection,
+                type: resolvedType, id: existing === null || existing === void 0 ? void 0 : existing.id, values: diff,
+            });
+        }
+        else {
+            plan.unchanged++;
+        }
+    }
+    // Styles: desired properties are compared with the current ones; alias fields become variable bindings.
+    const literalOf = async (value, depth = 0) => {
+        var _a, _b;
+        const alias = parseTokenAlias(value);
+        if (!alias || depth > 10)
+            return value;
+        const canonical = resolveAlias(alias);
+        const key = canonical === null || canonical === void 0 ? void 0 : canonical.join('.');
+        const importedEntry = key ? importedByCanonical.get(key) : undefined;
+        if (importedEntry) {
+            const raw = (_b = (_a = importedEntry.token.figma.modes) === null || _a === void 0 ? void 0 : _a[defaultModeOf.get(importedEntry.collection)]) !== null && _b !== void 0 ? _b : importedEntry.token.value;
+            return literalOf(raw, depth + 1);
+        }
+        const existing = key ? existingByPath.get(key) : undefined;
+        if (!existing)
+            throw new Error(`Unresolved alias {${alias.join('.')}}`);
+        let raw = existing.variable.valuesByMode[existing.collection.defaultModeId];
+        for (let hops = 0; raw && raw.type === 'VARIABLE_ALIAS' && hops < 10; hops++) {
+            const next = await figma.variables.getVariableByIdAsync(raw.id);
+            if (!next)
+                break;
+            raw = Object.values(next.valuesByMode)[0];
+        }
+        return raw;
+    };
+    const bindingOf = (value) => {
+        const alias = parseTokenAlias(value);
+        return alias ? resolveAlias(alias) : null;
+    };
+    const localStyles = [
+        ...(await figma.getLocalPaintStylesAsync()),
+        ...(await figma.getLocalTextStylesAsync()),
+        ...(await figma.getLocalEffectStylesAsync()),
+        ...(await figma.getLocalGridStylesAsync()),
+    ];
+    const seenStyles = new Set();
+    for (const { token, styleType, name } of styleTokens) {
+        const target = `${styleType}:${name}`;
+        if (seenStyles.has(target)) {
+            plan.warnings.push(`Duplicate token for style ${name}; later definition ignored`);
+            continue;
+        }
+        seenStyles.add(target);
+        let desired;
+        try {
+            desired = await desiredStyleFromToken(styleType, token, literalOf, bindingOf);
+        }
+        catch (error) {
+            plan.errors.push({ target: name, error: error instanceof Error ? error.message : String(error) });
+            continue;
+        }
+        const existing = (_u = localStyles.find((style) => style.type === styleType && style.name === name)) !== null && _u !== void 0 ? _u : null;
+        const current = existing ? currentStyleSnapshot(existing, existingPathById) : null;
+        const diff = {};
+        for (const field of Object.keys(desired)) {
+            if (!current || !sameImportValue(current[field], desired[field])) {
+                diff[field] = { before: current ? (_v = current[field]) !== null && _v !== void 0 ? _v : null : null, after: desired[field] };
+            }
+        }
+        if (token.description !== undefined && ((_w = existing === null || existing === void 0 ? void 0 : existing.description) !== null && _w !== void 0 ? _w : '') !== token.description) {
+            diff.$description = { before: (_x = existing === null || existing === void 0 ? void 0 : existing.description) !== null && _x !== void 0 ? _x : null, after: token.description };
+        }
+        const changed = !existing || Object.keys(diff).length > 0;
+        plan.styles.push({ styleType, name, existing, desired, description: token.description, changed });
+        if (changed) {
+            plan.changes.push({ action: existing ? 'update' : 'create', kind: 'style', name, type: styleType, id: existing === null || existing === void 0 ? void 0 : existing.id, values: diff });
+        }
+        else {
+            plan.unchanged++;
+        }
     }
-    const fieldMap = {
-        OPACITY: 'opacity',
-        WIDTH: 'width',
-        HEIGHT: 'height',
-        VISIBLE: 'visible',
-        CHARACTERS: 'characters',
+    if (deleteMissing) {
+        // Only inside collections and style types the token file covers.
+        for (const collection of localCollections) {
+            if (!collectionNames.includes(collection.name))
+                continue;
+            for (const variableId of collection.variableIds) {
+                const path = existingPathById.get(variableId);
+                if (!path || seenVariables.has(path.join('.')))
+                    continue;
+                const variable = existingByPath.get(path.join('.')).variable;
+                plan.deletions.push({ kind: 'variable', id: variable.id, name: `${collection.name}/${variable.name}` });
+                plan.changes.push({ action: 'delete', kind: 'variable', name: variable.name, collection: collection.name, id: variable.id });
+            }
+        }
+        const importedStyleTypes = new Set(styleTokens.map((entry) => entry.styleType));
+        for (const style of localStyles) {
+            if (!importedStyleTypes.has(style.type) || seenStyles.has(`${style.type}:${style.name}`))
+                continue;
+            plan.deletions.push({ kind: 'style', id: style.id, name: style.name });
+            plan.changes.push({ action: 'delete', kind: 'style', name: style.name, type: style.type, id: style.id });
+        }
+    }
+    return plan;
+}
+async function desiredStyleFromToken(styleType, token, literalOf, bindingOf) {
+    var _a, _b, _c, _d, _e, _f, _g, _h, _j, _k, _l, _m, _o, _p, _q, _r, _s, _t, _u, _v, _w;
+    const ext = token.figma;
+    const colorOf = async (value) => {
+        const color = tokenColorToRGBA(await literalOf(value));
+        if (!color)
+            throw new Error(`Invalid color value: ${JSON.stringify(value)}`);
+        return color;
     };
-    const field = fieldMap[key];
-    if (!field || typeof node.setBoundVariable !== 'function') {
-        throw new Error(`Unsupported bind property: ${property}`);
+    const numberOf = async (value) => {
+        const n = tokenDimensionToNumber(await literalOf(value));
+        if (n === null)
+            throw new Error(`Invalid dimension value: ${JSON.stringify(value)}`);
+        return n;
+    };
+    const bindings = (fields) => {
+        const out = {};
+        for (const [field, value] of Object.entries(fields)) {
+            const path = bindingOf(value);
+            if (path)
+                out[field] = path.join('.');
+        }
+        return Object.keys(out).length > 0 ? out : undefined;
+    };
+    if (styleType === 'PAINT') {
+        if (token.type === 'gradient' || Array.isArray(token.value)) {
+            const stops = [];
+            for (const stop of token.value) {
+                const color = await colorOf(stop.color);
+                stops.push({ position: Number(stop.position), color });
+            }
+            return {
+                paints: [Object.assign({ type: (_a = ext.gradientType) !== null && _a !== void 0 ? _a : 'GRADIENT_LINEAR', gradientTransform: (_b = ext.gradientTransform) !== null && _b !== void 0 ? _b : [[1, 0, 0], [0, 1, 0]], gradientStops: stops }, (ext.opacity !== undefined ? { opacity: ext.opacity } : {}))],
+            };
+        }
+        const color = await colorOf(token.value);
+        return {
+            paints: [{ type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a }],
+            bindings: bindings({ color: token.value }),
+        };
     }
-    node.setBoundVariable(field, variable);
-    return { nodeId, variableId, property: key };
+    if (styleType === 'TEXT') {
+        const value = (_c = token.value) !== null && _c !== void 0 ? _c : {};
+        const fontSize = await numberOf((_d = value.fontSize) !== null && _d !== void 0 ? _d : 16);
+        const weight = (_f = tokenFontWeight(await literalOf((_e = value.fontWeight) !== null && _e !== void 0 ? _e : 400))) !== null && _f !== void 0 ? _f : 400;
+        const family = await literalOf(value.fontFamily);
+        const rawLineHeight = await literalOf(value.lineHeight);
+        const rawLetterSpacing = await literalOf((_g = value.letterSpacing) !== null && _g !== void 0 ? _g : 0);
+        const lineHeight = (_h = ext.lineHeight) !== null && _h !== void 0 ? _h : (rawLineHeight === undefined || rawLineHeight === 'normal'
+            ? { unit: 'AUTO' }
+            : typeof rawLineHeight === 'number'
+                ? { unit: 'PERCENT', value: rawLineHeight * 100 }
+                : { unit: 'PIXELS', value: (_j = tokenDimensionToNumber(rawLineHeight)) !== null && _j !== void 0 ? _j : fontSize });
+        return {
+            fontName: { family: Array.isArray(family) ? String(family[0]) : String(family !== null && family !== void 0 ? family : 'Inter'), style: (_l = (_k = ext.fontStyle) !== null && _k !== void 0 ? _k : FONT_STYLE_BY_WEIGHT[weight]) !== null && _l !== void 0 ? _l : 'Regular' },
+            fontSize,
+            lineHeight,
+            letterSpacing: (_m = ext.letterSpacing) !== null && _m !== void 0 ? _m : { unit: 'PIXELS', value: (_o = tokenDimensionToNumber(rawLetterSpacing)) !== null && _o !== void 0 ? _o : 0 },
+            textCase: (_p = ext.textCase) !== null && _p !== void 0 ? _p : 'ORIGINAL',
+            textDecoration: (_q = ext.textDecoration) !== null && _q !== void 0 ? _q : 'NONE',
+            paragraphSpacing: (_r = ext.paragraphSpacing) !== null && _r !== void 0 ? _r : 0,
+            paragraphIndent: (_s = ext.paragraphIndent) !== null && _s !== void 0 ? _s : 0,
+            bindings: bindings({
+                fontFamily: value.fontFamily, fontWeight: value.fontWeight, fontSize: value.fontSize,
+                lineHeight: value.lineHeight, letterSpacing: value.letterSpacing,
+            }),
+        };
+    }
+    if (styleType === 'EFFECT') {
+        const effects = [];
+        for (const shadow of (Array.isArray(token.value) ? token.value : [token.value])) {
+            const color = await colorOf(shadow.color);
+            effects.push({
+                type: shadow.inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+                color,
+                offset: { x: await numberOf((_t = shadow.offsetX) !== null && _t !== void 0 ? _t : 0), y: await numberOf((_u = shadow.offsetY) !== null && _u !== void 0 ? _u : 0) },
+                radius: await numberOf((_v = shadow.blur) !== null && _v !== void 0 ? _v : 0),
+                spread: await numberOf((_w = shadow.spread) !== null && _w !== void 0 ? _w : 0),
+                visible: true,
+                blendMode: 'NORMAL',
+            });
+        }
+        return { effects };
+    }
+    if (!Array.isArray(token.value))
+        throw new Error('Grid tokens must be an array of layout grids');
+    return { layoutGrids: token.value };
 }
-async function unbindVariable(nodeId, property) {
-    const node = await figma.getNodeByIdAsync(nodeId);
-    if (!node)
-        throw new Error('Node not found');
-    const key = String(property || '').toUpperCase();
-    if (key === 'FILLS' && 'fills' in node) {
-        const fills = node.fills || [];
-        node.fills = fills.map((p) => {
-            if (p.type === 'SOLID')
-                return figma.variables.setBoundVariableForPaint(p, 'color', null);
-            return p;
+// Same shape as desiredStyleFromToken so the two can be diffed field by field.
+function currentStyleSnapshot(style, pathById) {
+    var _a;
+    const bound = (source) => {
+        const out = {};
+        for (const [field, alias] of Object.entries(source !== null && source !== void 0 ? source : {})) {
+            const path = alias && pathById.get(alias.id);
+            if (path)
+                out[field] = path.join('.');
+        }
+        return Object.keys(out).length > 0 ? out : undefined;
+    };
+    const plain = (value) => JSON.parse(JSON.stringify(value));
+    if (style.type === 'PAINT') {
+        const paints = style.paints.map((paint) => {
+            const _a = plain(paint), { boundVariables, visible, blendMode } = _a, rest = __rest(_a, ["boundVariables", "visible", "blendMode"]);
+            if (rest.type === 'SOLID' && rest.opacity === undefined)
+                rest.opacity = 1;
+            return rest;
         });
-        return { nodeId, property: key, unbound: true };
+        return { paints, bindings: bound(((_a = style.paints[0]) === null || _a === void 0 ? void 0 : _a.type) === 'SOLID' ? style.paints[0].boundVariables : null) };
     }
-    if (key === 'STROKES' && 'strokes' in node) {
-        const strokes = node.strokes || [];
-        node.strokes = strokes.map((p) => {
-            if (p.type === 'SOLID')
-                return figma.variables.setBoundVariableForPaint(p, 'color', null);
-            return p;
-        });
-        return { nodeId, property: key, unbound: true };
+    if (style.type === 'TEXT') {
+        const text = style;
+        return {
+            fontName: plain(text.fontName),
+            fontSize: text.fontSize,
+            lineHeight: plain(text.lineHeight),
+            letterSpacing: plain(text.letterSpacing),
+            textCase: text.textCase,
+            textDecoration: text.textDecoration,
+            paragraphSpacing: text.paragraphSpacing,
+            paragraphIndent: text.paragraphIndent,
+            bindings: bound(text.boundVariables),
+        };
     }
-    const fieldMap = {
-        OPACITY: 'opacity',
-        WIDTH: 'width',
-        HEIGHT: 'height',
-        VISIBLE: 'visible',
-        CHARACTERS: 'characters',
-    };
-    const field = fieldMap[key];
-    if (!field || typeof node.setBoundVariable !== 'function') {
-        throw new Error(`Unsupported unbind property: ${property}`);
+    if (style.type === 'EFFECT') {
+        return {
+            effects: style.effects.map((effect) => {
+                const _a = plain(effect), { boundVariables, showShadowBehindNode } = _a, rest = __rest(_a, ["boundVariables", "showShadowBehindNode"]);
+                return rest;
+            }),
+        };
     }
-    node.setBoundVariable(field, null);
-    return { nodeId, property: key, unbound: true };
+    return { layoutGrids: plain(style.layoutGrids) };
 }
-async function getAllVariables() {
-    const collections = await figma.variables.getLocalVariableCollectionsAsync();
-    const allVariables = [];
-    for (const collection of collections) {
+async function applyDesignTokenImport(plan) {
+    var _a, _b;
+    const collections = new Map();
+    for (const entry of plan.collections) {
+        try {
+            let collection = entry.existing;
+            if (!collection) {
+                collection = figma.variables.createVariableCollection(entry.name);
+                collection.renameMode(collection.modes[0].modeId, entry.modes[0]);
+            }
+            for (const mode of entry.modes) {
+                if (!collection.modes.some((m) => m.name === mode))
+                    collection.addMode(mode);
+            }
+            collections.set(entry.name, collection);
+        }
+        catch (error) {
+            plan.errors.push({ target: entry.name, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    // Create every variable before setting values so aliases can point at new ones.
+    const variablesByPath = new Map();
+    for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
         for (const variableId of collection.variableIds) {
             const variable = await figma.variables.getVariableByIdAsync(variableId);
-            if (variable) {
-                allVariables.push({
-                    id: variable.id,
-                    name: variable.name,
-                    type: variable.resolvedType,
-                    collectionId: collection.id,
-                    collectionName: collection.name,
-                });
+            if (variable)
+                variablesByPath.set(designTokenPath(collection.name, variable.name).join('.'), variable);
+        }
+    }
+    const ready = [];
+    for (const entry of plan.variables) {
+        const collection = collections.get(entry.collection);
+        if (!collection)
+            continue;
+        try {
+            const variable = (_a = entry.existing) !== null && _a !== void 0 ? _a : figma.variables.createVariable(entry.name, collection, entry.resolvedType);
+            variablesByPath.set(entry.key, variable);
+            if (entry.changed)
+                ready.push({ entry, variable, collection });
+        }
+        catch (error) {
+            plan.errors.push({ target: `${entry.collection}/${entry.name}`, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    for (const { entry, variable, collection } of ready) {
+        const target = `${entry.collection}/${entry.name}`;
+        try {
+            if (entry.description !== undefined)
+                variable.description = entry.description;
+            if (Array.isArray(entry.figma.scopes))
+                variable.scopes = entry.figma.scopes;
+            if (entry.figma.codeSyntax) {
+                for (const [platform, syntax] of Object.entries(entry.figma.codeSyntax)) {
+                    variable.setVariableCodeSyntax(platform, String(syntax));
+                }
+            }
+            if (typeof entry.figma.hiddenFromPublishing === 'boolean')
+                variable.hiddenFromPublishing = entry.figma.hiddenFromPublishing;
+        }
+        catch (error) {
+            plan.warnings.push(`${target}: metadata not applied (${error instanceof Error ? error.message : String(error)})`);
+        }
+        for (const [mode, value] of Object.entries(entry.values)) {
+            try {
+                const modeId = (_b = collection.modes.find((m) => m.name === mode)) === null || _b === void 0 ? void 0 : _b.modeId;
+                if (!modeId)
+                    throw new Error(`Mode "${mode}" not found`);
+                if (isDesignTokenAlias(value)) {
+                    const aliased = variablesByPath.get(value.alias.join('.'));
+                    if (!aliased)
+                        throw new Error(`Alias target {${value.alias.join('.')}} was not created`);
+                    variable.setValueForMode(modeId, figma.variables.createVariableAlias(aliased));
+                }
+                else {
+                    variable.setValueForMode(modeId, value);
+                }
+            }
+            catch (error) {
+                plan.errors.push({ target: `${target} (${mode})`, error: error instanceof Error ? error.message : String(error) });
             }
         }
     }
+    for (const entry of plan.styles) {
+        if (!entry.changed)
+            continue;
+        try {
+            await applyStyleToken(entry, variablesByPath);
+        }
+        catch (error) {
+            plan.errors.push({ target: entry.name, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    for (const deletion of plan.deletions) {
+        try {
+            const target = deletion.kind === 'variable'
+                ? await figma.variables.getVariableByIdAsync(deletion.id)
+                : await figma.getStyleByIdAsync(deletion.id);
+            target === null || target === void 0 ? void 0 : target.remove();
+        }
+        catch (error) {
+            plan.errors.push({ target: deletion.name, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+}
+async function applyStyleToken(entry, variablesByPath) {
+    var _a;
+    const { desired } = entry;
+    const bindingVariable = (field) => {
+        var _a, _b;
+        const path = (_a = desired.bindings) === null || _a === void 0 ? void 0 : _a[field];
+        return path ? (_b = variablesByPath.get(path)) !== null && _b !== void 0 ? _b : null : null;
+    };
+    let style = entry.existing;
+    if (!style) {
+        style = entry.styleType === 'PAINT' ? figma.createPaintStyle()
+            : entry.styleType === 'TEXT' ? figma.createTextStyle()
+                : entry.styleType === 'EFFECT' ? figma.createEffectStyle()
+                    : figma.createGridStyle();
+        style.name = entry.name;
+    }
+    if (entry.description !== undefined)
+        style.description = entry.description;
+    if (entry.styleType === 'PAINT') {
+        const colorVariable = bindingVariable('color');
+        style.paints = desired.paints.map((paint) => colorVariable && paint.type === 'SOLID'
+            ? figma.variables.setBoundVariableForPaint(paint, 'color', colorVariable)
+            : paint);
+    }
+    else if (entry.styleType === 'TEXT') {
+        const text = style;
+        await figma.loadFontAsync(desired.fontName);
+        text.fontName = desired.fontName;
+        text.fontSize = desired.fontSize;
+        text.lineHeight = desired.lineHeight;
+        text.letterSpacing = desired.letterSpacing;
+        text.textCase = desired.textCase;
+        text.textDecoration = desired.textDecoration;
+        text.paragraphSpacing = desired.paragraphSpacing;
+        text.paragraphIndent = desired.paragraphIndent;
+        for (const field of Object.keys((_a = desired.bindings) !== null && _a !== void 0 ? _a : {})) {
+            const variable = bindingVariable(field);
+            if (variable)
+                text.setBoundVariable(field, variable);
+        }
+    }
+    else if (entry.styleType === 'EFFECT') {
+        style.effects = desired.effects;
+    }
+    else {
+        style.layoutGrids = desired.layoutGrids;
+    }
+}
+function summarizeDesignTokenImport(plan) {
+    const count = (action) => plan.changes.filter((change) => change.action === action).length;
+    return { create: count('create'), update: count('update'), delete: count('delete'), unchanged: plan.unchanged, errors: plan.errors.length };
+}
+async function importDesignTokens(args) {
+    const plan = await planDesignTokenImport(args);
+    await applyDesignTokenImport(plan);
     return {
-        collections: collections.map(c => ({ id: c.id, name: c.name })),
-        variables: allVariables,
+        format: plan.format,
+        summary: summarizeDesignTokenImport(plan),
+        changes: plan.changes,
+        errors: plan.errors,
+        warnings: plan.warnings,
     };
 }
-let allPagesLoaded = false;
-async function ensureAllPagesLoaded() {
-    if (allPagesLoaded)
+// dryRun planner: token changes are reported with variable/style ids in place of node ids.
+async function planImportDesignTokens(ctx, args) {
+    var _a;
+    const plan = await planDesignTokenImport(args);
+    for (const change of plan.changes) {
+        const label = change.collection ? `${change.collection}/${change.name}` : change.name;
+        const type = change.kind === 'style' ? `${change.type}_STYLE` : change.kind.toUpperCase();
+        if (change.action === 'create') {
+            ctx.changes.create.push({ type, name: label, parentId: null });
+        }
+        else if (change.action === 'update') {
+            ctx.changes.modify.push({ nodeId: change.id, name: label, properties: (_a = change.values) !== null && _a !== void 0 ? _a : {} });
+        }
+        else {
+            ctx.changes.delete.push({ nodeId: change.id, name: label, type, descendants: 0 });
+        }
+    }
+    ctx.errors.push(...plan.errors);
+    ctx.warnings.push(...plan.warnings);
+    if (plan.unchanged > 0)
+        ctx.warnings.push(`${plan.unchanged} token(s) already match and will be left as-is`);
+}
+const CODE_GEN_TARGETS = ['html-css'];
+const CODE_GEN_VECTOR_TYPES = new Set(['VECTOR', 'STAR', 'POLYGON', 'LINE', 'BOOLEAN_OPERATION']);
+const CODE_GEN_JUSTIFY = { MIN: 'flex-start', CENTER: 'center', MAX: 'flex-end', SPACE_BETWEEN: 'space-between' };
+const CODE_GEN_ALIGN = { MIN: 'flex-start', CENTER: 'center', MAX: 'flex-end', BASELINE: 'baseline' };
+const CODE_GEN_TEXT_CASE = { UPPER: 'uppercase', LOWER: 'lowercase', TITLE: 'capitalize', SMALL_CAPS: 'small-caps' };
+function codeGenPx(value) {
+    const rounded = Math.round(value * 100) / 100;
+    return rounded === 0 ? '0' : `${rounded}px`;
+}
+function codeGenColor(color, opacity = 1) {
+    const alpha = ('a' in color ? color.a : 1) * opacity;
+    const channel = (value) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+    if (alpha >= 1)
+        return designTokenColor(color, 1).hex;
+    return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(alpha * 1000) / 1000})`;
+}
+function codeGenEscape(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+function codeGenClassName(node, ctx) {
+    const base = `${ctx.classPrefix}${cssTokenSlug(node.name) || node.type.toLowerCase()}`.replace(/^(\d)/, 'n$1');
+    let name = base;
+    for (let i = 2; ctx.classNames.has(name); i++)
+        name = `${base}-${i}`;
+    ctx.classNames.add(name);
+    return name;
+}
+function codeGenAsset(node, format, usage, ctx) {
+    const fileName = `${node.id.replace(/[^a-zA-Z0-9._-]+/g, '-')}.${format.toLowerCase()}`;
+    if (!ctx.assets.some((asset) => asset.fileName === fileName)) {
+        ctx.assets.push({ nodeId: node.id, name: node.name, format, fileName, usage });
+    }
+    return ctx.assetDir ? `${ctx.assetDir}/${fileName}` : fileName;
+}
+// Bound variables become var(--token, fallback) using the names export_design_tokens writes.
+async function codeGenValue(alias, fallback, ctx) {
+    if (!alias || !alias.id)
+        return fallback;
+    if (!ctx.variableNames.has(alias.id)) {
+        let name = null;
+        const variable = await figma.variables.getVariableByIdAsync(alias.id);
+        const collection = variable ? await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId) : null;
+        if (variable && collection) {
+            name = cssTokenName(designTokenPath(collection.name, variable.name));
+            ctx.variables.set(alias.id, { name: `--${name}`, variableId: variable.id, collection: collection.name });
+        }
+        ctx.variableNames.set(alias.id, name);
+    }
+    const name = ctx.variableNames.get(alias.id);
+    return name ? `var(--${name}, ${fallback})` : fallback;
+}
+function codeGenGradient(paint, width, height) {
+    const [[a, b, c], [d, e, f]] = paint.gradientTransform;
+    // Map gradient space back to node space to find the handle positions.
+    const det = a * e - b * d || 1;
+    const invert = (x, y) => ({
+        x: (e * (x - c) - b * (y - f)) / det,
+        y: (-d * (x - c) + a * (y - f)) / det,
+    });
+    const stops = paint.gradientStops
+        .map((stop) => { var _a; return `${codeGenColor(stop.color, (_a = paint.opacity) !== null && _a !== void 0 ? _a : 1)} ${Math.round(stop.position * 10000) / 100}%`; })
+        .join(', ');
+    if (paint.type === 'GRADIENT_LINEAR') {
+        const start = invert(0, 0.5);
+        const end = invert(1, 0.5);
+        const angle = Math.atan2((end.y - start.y) * height, (end.x - start.x) * width) * 180 / Math.PI + 90;
+        return `linear-gradient(${Math.round(angle * 100) / 100}deg, ${stops})`;
+    }
+    const center = invert(0.5, 0.5);
+    const at = `${Math.round(center.x * 10000) / 100}% ${Math.round(center.y * 10000) / 100}%`;
+    return paint.type === 'GRADIENT_ANGULAR'
+        ? `conic-gradient(from 90deg at ${at}, ${stops})`
+        : `radial-gradient(ellipse at ${at}, ${stops})`;
+}
+async function codeGenFills(node, styles, ctx, asText) {
+    var _a, _b;
+    const fills = 'fills' in node && Array.isArray(node.fills) ? node.fills.filter((paint) => paint.visible !== false) : [];
+    if (fills.length === 0)
         return;
-    await figma.loadAllPagesAsync();
-    allPagesLoaded = true;
+    const width = 'width' in node ? node.width : 0;
+    const height = 'height' in node ? node.height : 0;
+    // Figma lists paints bottom-up, CSS backgrounds top-down.
+    const layers = [];
+    const ordered = [...fills].reverse();
+    for (let i = 0; i < ordered.length; i++) {
+        const paint = ordered[i];
+        if (paint.type === 'SOLID') {
+            const color = await codeGenValue((_a = paint.boundVariables) === null || _a === void 0 ? void 0 : _a.color, codeGenColor(paint.color, (_b = paint.opacity) !== null && _b !== void 0 ? _b : 1), ctx);
+            if (asText) {
+                styles.color = color;
+                return;
+            }
+            // Only the bottom background layer may be a plain color.
+            layers.push(i === ordered.length - 1 ? color : `linear-gradient(${color}, ${color})`);
+        }
+        else if (paint.type.startsWith('GRADIENT_')) {
+            if (asText) {
+                ctx.warnings.push(`${node.name}: gradient text fill approximated with the first stop`);
+                styles.color = codeGenColor(paint.gradientStops[0].color);
+                return;
+            }
+            layers.push(codeGenGradient(paint, width, height));
+        }
+        else if (paint.type === 'IMAGE' && !asText) {
+            const src = codeGenAsset(node, 'PNG', 'background', ctx);
+            const size = paint.scaleMode === 'FIT' ? 'contain' : paint.scaleMode === 'TILE' ? 'auto' : 'cover';
+            layers.push(`url("${src}") center / ${size} ${paint.scaleMode === 'TILE' ? 'repeat' : 'no-repeat'}`);
+            if ('children' in node && node.children.length > 0) {
+                ctx.warnings.push(`${node.name}: image fill asset is exported with its children; hide them before export_node`);
+            }
+        }
+        else {
+            ctx.warnings.push(`${node.name}: ${paint.type} fill not supported`);
+        }
+    }
+    if (layers.length === 0)
+        return;
+    if (layers.length === 1 && fills.length === 1 && fills[0].type === 'SOLID')
+        styles['background-color'] = layers[0];
+    else
+        styles.background = layers.join(', ');
 }
-async function deleteVariable(variableId, unbindNodes = true) {
-    const variable = await figma.variables.getVariableByIdAsync(variableId);
-    if (!variable)
-        throw new Error('Variable not found');
-    variable.remove();
-    return { deleted: true, variableId };
+async function codeGenStrokes(node, styles, ctx) {
+    var _a, _b;
+    if (!('strokes' in node) || node.type === 'TEXT')
+        return;
+    const stroke = node.strokes.find((paint) => paint.visible !== false);
+    if (!stroke)
+        return;
+    if (stroke.type !== 'SOLID') {
+        ctx.warnings.push(`${node.name}: ${stroke.type} stroke approximated as transparent`);
+        return;
+    }
+    const color = await codeGenValue((_a = stroke.boundVariables) === null || _a === void 0 ? void 0 : _a.color, codeGenColor(stroke.color, (_b = stroke.opacity) !== null && _b !== void 0 ? _b : 1), ctx);
+    const geometry = node;
+    const dashed = Array.isArray(geometry.dashPattern) && geometry.dashPattern.length > 0 ? 'dashed' : 'solid';
+    if (typeof geometry.strokeWeight === 'number') {
+        // outline keeps Figma's "strokes do not affect layout" and follows border-radius.
+        const weight = geometry.strokeWeight;
+        styles.outline = `${codeGenPx(weight)} ${dashed} ${color}`;
+        const offset = geometry.strokeAlign === 'INSIDE' ? -weight : geometry.strokeAlign === 'CENTER' ? -weight / 2 : 0;
+        if (offset !== 0)
+            styles['outline-offset'] = codeGenPx(offset);
+        return;
+    }
+    for (const side of ['Top', 'Right', 'Bottom', 'Left']) {
+        const weight = geometry[`stroke${side}Weight`];
+        if (weight > 0)
+            styles[`border-${side.toLowerCase()}`] = `${codeGenPx(weight)} ${dashed} ${color}`;
+    }
 }
-// ===== PAGE MANAGEMENT =====
-async function createPage(name, index) {
-    await ensureAllPagesLoaded();
-    const page = figma.createPage();
-    page.name = name;
-    if (index !== undefined) {
-        figma.root.insertChild(index, page);
+function codeGenEffects(node, styles) {
+    var _a;
+    if (!('effects' in node))
+        return;
+    const shadows = [];
+    for (const effect of node.effects) {
+        if (effect.visible === false)
+            continue;
+        if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+            const parts = [
+                effect.type === 'INNER_SHADOW' ? 'inset' : '',
+                codeGenPx(effect.offset.x), codeGenPx(effect.offset.y), codeGenPx(effect.radius),
+                node.type === 'TEXT' ? '' : codeGenPx((_a = effect.spread) !== null && _a !== void 0 ? _a : 0),
+                codeGenColor(effect.color),
+            ];
+            if (node.type !== 'TEXT' || effect.type === 'DROP_SHADOW')
+                shadows.push(parts.filter(Boolean).join(' '));
+        }
+        else if (effect.type === 'LAYER_BLUR') {
+            styles.filter = `blur(${codeGenPx(effect.radius / 2)})`;
+        }
+        else if (effect.type === 'BACKGROUND_BLUR') {
+            styles['backdrop-filter'] = `blur(${codeGenPx(effect.radius / 2)})`;
+        }
     }
-    return { pageId: page.id, name: page.name, index: figma.root.children.indexOf(page) };
+    if (shadows.length > 0)
+        styles[node.type === 'TEXT' ? 'text-shadow' : 'box-shadow'] = shadows.join(', ');
 }
-async function deletePage(pageId, confirm = false) {
-    await ensureAllPagesLoaded();
-    const page = await figma.getNodeByIdAsync(pageId);
-    if (!page || page.type !== 'PAGE')
-        throw new Error('Page not found');
-    if (figma.root.children.length <= 1) {
-        throw new Error('Cannot delete the last page');
+async function codeGenBox(node, styles, ctx) {
+    var _a, _b, _c;
+    const bound = (_a = node.boundVariables) !== null && _a !== void 0 ? _a : {};
+    const frame = node;
+    if ('layoutMode' in node && frame.layoutMode !== 'NONE') {
+        styles.display = 'flex';
+        styles['flex-direction'] = frame.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
+        if (frame.layoutWrap === 'WRAP')
+            styles['flex-wrap'] = 'wrap';
+        const justify = CODE_GEN_JUSTIFY[frame.primaryAxisAlignItems];
+        if (justify && justify !== 'flex-start')
+            styles['justify-content'] = justify;
+        const align = CODE_GEN_ALIGN[frame.counterAxisAlignItems];
+        if (align && align !== 'flex-start')
+            styles['align-items'] = align;
+        if (frame.itemSpacing < 0) {
+            ctx.warnings.push(`${node.name}: negative item spacing has no flexbox equivalent and was dropped`);
+        }
+        else if (frame.primaryAxisAlignItems !== 'SPACE_BETWEEN' && frame.itemSpacing) {
+            styles.gap = await codeGenValue(bound.itemSpacing, codeGenPx(frame.itemSpacing), ctx);
+        }
+        if (frame.layoutWrap === 'WRAP' && frame.counterAxisSpacing) {
+            styles['row-gap'] = await codeGenValue(bound.counterAxisSpacing, codeGenPx(frame.counterAxisSpacing), ctx);
+        }
+        const padding = [];
+        for (const side of ['Top', 'Right', 'Bottom', 'Left']) {
+            padding.push(await codeGenValue(bound[`padding${side}`], codeGenPx((_b = frame[`padding${side}`]) !== null && _b !== void 0 ? _b : 0), ctx));
+        }
+        if (padding.some((value) => value !== '0')) {
+            styles.padding = padding.every((value) => value === padding[0]) ? padding[0]
+                : padding[0] === padding[2] && padding[1] === padding[3] ? `${padding[0]} ${padding[1]}`
+                    : padding.join(' ');
+        }
     }
-    let switchedPageId = null;
-    if (figma.currentPage.id === pageId) {
-        const fallback = figma.root.children.find((p) => p.id !== pageId);
-        if (!fallback) {
-            throw new Error('Cannot delete the active page because no fallback page exists');
+    if ('topLeftRadius' in node) {
+        const radii = [];
+        for (const corner of ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius']) {
+            radii.push(await codeGenValue(bound[corner], codeGenPx((_c = frame[corner]) !== null && _c !== void 0 ? _c : 0), ctx));
+        }
+        if (radii.some((value) => value !== '0')) {
+            styles['border-radius'] = radii.every((value) => value === radii[0]) ? radii[0] : radii.join(' ');
         }
-        await figma.setCurrentPageAsync(fallback);
-        switchedPageId = fallback.id;
     }
-    page.remove();
-    return { deleted: true, pageId, switchedPageId };
-}
-async function renamePage(pageId, newName) {
-    await ensureAllPagesLoaded();
-    const page = await figma.getNodeByIdAsync(pageId);
-    if (!page || page.type !== 'PAGE')
-        throw new Error('Page not found');
-    page.name = newName;
-    return { pageId, name: page.name };
+    else if (node.type === 'ELLIPSE') {
+        styles['border-radius'] = '50%';
+    }
+    else if (typeof frame.cornerRadius === 'number' && frame.cornerRadius > 0) {
+        styles['border-radius'] = codeGenPx(frame.cornerRadius);
+    }
+    if (frame.clipsContent)
+        styles.overflow = 'hidden';
+    if ('opacity' in node && node.opacity < 1) {
+        styles.opacity = await codeGenValue(bound.opacity, String(Math.round(node.opacity * 1000) / 1000), ctx);
+    }
+    if ('blendMode' in node && node.blendMode !== 'PASS_THROUGH' && node.blendMode !== 'NORMAL') {
+        styles['mix-blend-mode'] = node.blendMode.toLowerCase().replace(/_/g, '-');
+    }
 }
-async function reorderPages(pageIds) {
-    await ensureAllPagesLoaded();
-    // Remove all pages first
-    const pages = [];
-    for (const id of pageIds) {
-        const page = await figma.getNodeByIdAsync(id);
-        if (page)
-            pages.push(page);
+// Size and position from auto layout sizing (flow children) or constraints (absolute children).
+async function codeGenLayout(node, parent, origin, styles, ctx) {
+    var _a, _b, _c;
+    const item = node;
+    const bound = (_a = item.boundVariables) !== null && _a !== void 0 ? _a : {};
+    const parentFrame = parent;
+    const parentFlex = !!parentFrame && 'layoutMode' in parentFrame && parentFrame.layoutMode !== 'NONE';
+    const inFlow = parentFlex && item.layoutPositioning !== 'ABSOLUTE';
+    let sizingH = (_b = item.layoutSizingHorizontal) !== null && _b !== void 0 ? _b : 'FIXED';
+    let sizingV = (_c = item.layoutSizingVertical) !== null && _c !== void 0 ? _c : 'FIXED';
+    if (node.type === 'TEXT') {
+        if (item.textAutoResize === 'WIDTH_AND_HEIGHT')
+            sizingH = sizingV = 'HUG';
+        else if (item.textAutoResize === 'HEIGHT')
+            sizingV = 'HUG';
+    }
+    if (!inFlow) {
+        if (sizingH === 'FILL')
+            sizingH = 'FIXED';
+        if (sizingV === 'FILL')
+            sizingV = 'FIXED';
+    }
+    const width = await codeGenValue(bound.width, codeGenPx(item.width), ctx);
+    const height = await codeGenValue(bound.height, codeGenPx(item.height), ctx);
+    if (inFlow) {
+        const horizontal = parentFrame.layoutMode === 'HORIZONTAL';
+        const axes = [['width', sizingH, width], ['height', sizingV, height]];
+        for (const [dimension, sizing, value] of axes) {
+            const primary = (dimension === 'width') === horizontal;
+            if (sizing === 'FILL') {
+                if (primary) {
+                    styles.flex = '1 1 0';
+                    styles[`min-${dimension}`] = '0';
+                }
+                else {
+                    styles['align-self'] = 'stretch';
+                }
+            }
+            else if (sizing === 'FIXED') {
+                styles[dimension] = value;
+                if (primary)
+                    styles['flex-shrink'] = '0';
+            }
+        }
     }
-    // Re-add in new order
-    for (const page of pages) {
-        figma.root.appendChild(page);
+    else if (parent) {
+        styles.position = 'absolute';
+        const parentWidth = parentFrame.type === 'GROUP' ? 0 : parentFrame.width;
+        const parentHeight = parentFrame.type === 'GROUP' ? 0 : parentFrame.height;
+        const constraints = parentFrame.type === 'GROUP' || !item.constraints
+            ? { horizontal: 'MIN', vertical: 'MIN' }
+            : item.constraints;
+        const axes = [
+            ['left', 'right', 'width', constraints.horizontal, item.x - origin.x, item.width, parentWidth, sizingH, width],
+            ['top', 'bottom', 'height', constraints.vertical, item.y - origin.y, item.height, parentHeight, sizingV, height],
+        ];
+        const translate = [];
+        for (const [start, end, dimension, constraint, offset, size, parentSize, sizing, value] of axes) {
+            if (constraint === 'MAX') {
+                styles[end] = codeGenPx(parentSize - offset - size);
+            }
+            else if (constraint === 'STRETCH') {
+                styles[start] = codeGenPx(offset);
+                styles[end] = codeGenPx(parentSize - offset - size);
+                continue;
+            }
+            else if (constraint === 'CENTER') {
+                styles[start] = `calc(50% + ${codeGenPx(offset + size / 2 - parentSize / 2)})`;
+                translate.push(dimension === 'width' ? 'translateX(-50%)' : 'translateY(-50%)');
+            }
+            else if (constraint === 'SCALE' && parentSize > 0) {
+                styles[start] = `${Math.round(offset / parentSize * 10000) / 100}%`;
+                styles[dimension] = `${Math.round(size / parentSize * 10000) / 100}%`;
+                continue;
+            }
+            else {
+                styles[start] = codeGenPx(offset);
+            }
+            if (sizing !== 'HUG')
+                styles[dimension] = value;
+        }
+        if (translate.length > 0)
+            styles.transform = translate.join(' ');
+    }
+    else {
+        if (sizingH !== 'HUG')
+            styles.width = width;
+        if (sizingV !== 'HUG')
+            styles.height = height;
+    }
+    for (const limit of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight']) {
+        if (typeof item[limit] === 'number') {
+            styles[limit.replace(/[A-Z]/, (c) => `-${c.toLowerCase()}`)] = await codeGenValue(bound[limit], codeGenPx(item[limit]), ctx);
+        }
+    }
+    if (typeof item.rotation === 'number' && Math.abs(item.rotation) > 0.01) {
+        // Figma rotates around the top-left corner, counter-clockwise.
+        styles.transform = [styles.transform, `rotate(${Math.round(-item.rotation * 100) / 100}deg)`].filter(Boolean).join(' ');
+        styles['transform-origin'] = 'top left';
     }
-    return { reordered: pages.length };
 }
-async function duplicatePage(pageId, newName) {
-    await ensureAllPagesLoaded();
-    const page = await figma.getNodeByIdAsync(pageId);
-    if (!page || page.type !== 'PAGE')
-        throw new Error('Page not found');
-    const newPage = figma.createPage();
-    newPage.name = newName || `${page.name} Copy`;
-    // Clone all children
-    for (const child of page.children) {
-        const clone = child.clone();
-        newPage.appendChild(clone);
+async function codeGenTextStyles(source, node, ctx) {
+    var _a;
+    const styles = {};
+    const bound = (_a = source.boundVariables) !== null && _a !== void 0 ? _a : {};
+    const fontName = source.fontName;
+    if (fontName && typeof fontName === 'object') {
+        styles['font-family'] = await codeGenValue(bound.fontFamily, JSON.stringify(fontName.family), ctx);
+        styles['font-weight'] = await codeGenValue(bound.fontWeight, String(fontWeightFromStyle(fontName.style)), ctx);
+        if (/italic|oblique/i.test(fontName.style))
+            styles['font-style'] = 'italic';
+    }
+    if (typeof source.fontSize === 'number')
+        styles['font-size'] = await codeGenValue(bound.fontSize, codeGenPx(source.fontSize), ctx);
+    const lineHeight = source.lineHeight;
+    if (lineHeight && typeof lineHeight === 'object') {
+        const value = lineHeight.unit === 'AUTO' ? 'normal'
+            : lineHeight.unit === 'PERCENT' ? String(Math.round(lineHeight.value) / 100)
+                : codeGenPx(lineHeight.value);
+        styles['line-height'] = await codeGenValue(bound.lineHeight, value, ctx);
+    }
+    const letterSpacing = source.letterSpacing;
+    if (letterSpacing && typeof letterSpacing === 'object' && letterSpacing.value !== 0) {
+        const value = letterSpacing.unit === 'PERCENT' ? `${Math.round(letterSpacing.value) / 100}em` : codeGenPx(letterSpacing.value);
+        styles['letter-spacing'] = await codeGenValue(bound.letterSpacing, value, ctx);
+    }
+    if (source.textCase && CODE_GEN_TEXT_CASE[source.textCase]) {
+        styles[source.textCase === 'SMALL_CAPS' ? 'font-variant' : 'text-transform'] = CODE_GEN_TEXT_CASE[source.textCase];
+    }
+    if (source.textDecoration === 'UNDERLINE')
+        styles['text-decoration'] = 'underline';
+    else if (source.textDecoration === 'STRIKETHROUGH')
+        styles['text-decoration'] = 'line-through';
+    if (Array.isArray(source.fills)) {
+        await codeGenFills(Object.assign(Object.assign({}, node), { name: node.name, fills: source.fills }), styles, ctx, true);
+    }
+    return styles;
+}
+async function codeGenText(node, element, ctx) {
+    var _a;
+    const fields = [
+        'fontName', 'fontSize', 'fills', 'textDecoration', 'textCase', 'letterSpacing', 'lineHeight', 'boundVariables',
+    ];
+    let segments = [];
+    try {
+        segments = node.getStyledTextSegments(fields);
     }
-    return { pageId: newPage.id, name: newPage.name, copiedChildren: newPage.children.length };
+    catch (_b) {
+        segments = [{ characters: node.characters, fontName: node.fontName, fontSize: node.fontSize, fills: node.fills,
+                textDecoration: node.textDecoration, textCase: node.textCase, letterSpacing: node.letterSpacing, lineHeight: node.lineHeight }];
+    }
+    if (segments.length === 0)
+        segments = [{ characters: node.characters }];
+    // The element carries the first segment's typography; later segments only restate what differs.
+    const base = await codeGenTextStyles(segments[0], node, ctx);
+    Object.assign(element.styles, base);
+    const align = node.textAlignHorizontal;
+    if (align && align !== 'LEFT')
+        element.styles['text-align'] = align === 'JUSTIFIED' ? 'justify' : align.toLowerCase();
+    if (node.textAutoResize === 'WIDTH_AND_HEIGHT')
+        element.styles['white-space'] = 'nowrap';
+    if (node.textTruncation === 'ENDING') {
+        element.styles.overflow = 'hidden';
+        element.styles['text-overflow'] = 'ellipsis';
+    }
+    element.text = [];
+    for (const segment of segments) {
+        const styles = await codeGenTextStyles(segment, node, ctx);
+        const diff = {};
+        for (const [property, value] of Object.entries(styles)) {
+            if (base[property] !== value)
+                diff[property] = value;
+        }
+        element.text.push({ text: String((_a = segment.characters) !== null && _a !== void 0 ? _a : ''), styles: diff });
+    }
+}
+function codeGenIsAsset(node) {
+    if (CODE_GEN_VECTOR_TYPES.has(node.type))
+        return true;
+    if (node.type === 'ELLIPSE') {
+        const arc = node.arcData;
+        return !!arc && (arc.innerRadius > 0 || Math.abs(arc.endingAngle - arc.startingAngle) < Math.PI * 2 - 0.001);
+    }
+    return node.isAsset === true && node.type !== 'RECTANGLE' && node.type !== 'TEXT';
 }
-// ===== MEDIA & EXPORT =====
-async function createImageFill(url, hash, nodeId) {
-    let image;
-    if (hash) {
-        image = figma.getImageByHash(hash);
-        if (!image)
-            throw new Error(`Image hash not found: ${hash}`);
+async function buildCodeGenNode(node, parent, origin, depth, ctx) {
+    var _a;
+    const refs = ctx.componentProps ? node.componentPropertyReferences : null;
+    if (node.visible === false && !(refs === null || refs === void 0 ? void 0 : refs.visible))
+        return null;
+    if (ctx.remaining <= 0) {
+        ctx.warnings.push(`Node limit reached; ${node.name} and later siblings were skipped`);
+        return null;
     }
-    else if (url) {
+    ctx.remaining -= 1;
+    const element = {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        tag: node.type === 'TEXT' ? 'p' : 'div',
+        className: codeGenClassName(node, ctx),
+        styles: {},
+        children: [],
+    };
+    if (node.type === 'INSTANCE') {
         try {
-            const response = await fetch(url);
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}`);
-            }
-            const buffer = await response.arrayBuffer();
-            image = figma.createImage(new Uint8Array(buffer));
-            hash = image.hash;
+            element.component = (_a = node.mainComponent) === null || _a === void 0 ? void 0 : _a.name;
         }
-        catch (error) {
-            const msg = error instanceof Error ? error.message : String(error);
-            throw new Error(`Failed to load image URL. Ensure manifest networkAccess allows this domain. ${msg}`);
+        catch (_b) {
+            // Dynamic-page mode can throw on sync access; omit optional field.
+        }
+    }
+    if (refs && Object.keys(refs).length > 0)
+        element.refs = Object.assign({}, refs);
+    await codeGenLayout(node, parent, origin, element.styles, ctx);
+    if (node.type === 'INSTANCE' && ctx.instanceRef) {
+        const instance = await ctx.instanceRef(node);
+        if (instance) {
+            element.instance = instance;
+            return element;
         }
     }
+    if (codeGenIsAsset(node)) {
+        element.tag = 'img';
+        element.src = codeGenAsset(node, 'SVG', 'img', ctx);
+        return element;
+    }
+    const fills = 'fills' in node && Array.isArray(node.fills) ? node.fills.filter((paint) => paint.visible !== false) : [];
+    if (node.type === 'RECTANGLE' && fills.length === 1 && fills[0].type === 'IMAGE') {
+        element.tag = 'img';
+        element.src = codeGenAsset(node, 'PNG', 'img', ctx);
+        element.styles['object-fit'] = fills[0].scaleMode === 'FIT' ? 'contain' : 'cover';
+        await codeGenBox(node, element.styles, ctx);
+        return element;
+    }
+    if (node.type === 'TEXT') {
+        await codeGenText(node, element, ctx);
+    }
     else {
-        throw new Error('Either url or hash required');
+        await codeGenFills(node, element.styles, ctx, false);
+        await codeGenStrokes(node, element.styles, ctx);
+        await codeGenBox(node, element.styles, ctx);
     }
-    if (nodeId) {
-        const node = await figma.getNodeByIdAsync(nodeId);
-        if (node && 'fills' in node) {
-            const fills = node.fills;
-            const newFills = fills.map(f => {
-                if (f.type === 'SOLID') {
-                    return {
-                        type: 'IMAGE',
-                        imageHash: hash,
-                        scaleMode: 'FILL',
-                    };
-                }
-                return f;
-            });
-            node.fills = newFills;
+    codeGenEffects(node, element.styles);
+    if ('children' in node) {
+        if (depth >= ctx.maxDepth) {
+            ctx.warnings.push(`${node.name}: children deeper than maxDepth ${ctx.maxDepth} were skipped`);
+        }
+        else {
+            // Group children are positioned relative to the group's own parent frame.
+            const childOrigin = node.type === 'GROUP' ? { x: node.x, y: node.y } : { x: 0, y: 0 };
+            const flex = 'layoutMode' in node && node.layoutMode !== 'NONE';
+            const absoluteChildren = node.children.some((child) => !flex || child.layoutPositioning === 'ABSOLUTE');
+            if (absoluteChildren && !element.styles.position)
+                element.styles.position = 'relative';
+            for (const child of node.children) {
+                const built = await buildCodeGenNode(child, node, childOrigin, depth + 1, ctx);
+                if (built)
+                    element.children.push(built);
+            }
         }
     }
-    return { hash: image === null || image === void 0 ? void 0 : image.hash, nodeId };
+    return element;
 }
-async function exportNode(nodeId, format, scale = 1, suffix) {
-    const node = await figma.getNodeByIdAsync(nodeId);
+function renderCodeGenCss(root) {
+    const rules = [
+        `.${root.className}, .${root.className} * {\n  box-sizing: border-box;\n  margin: 0;\n}`,
+    ];
+    const visit = (element) => {
+        const declarations = Object.entries(element.styles).map(([property, value]) => `  ${property}: ${value};`);
+        if (declarations.length > 0)
+            rules.push(`.${element.className} {\n${declarations.join('\n')}\n}`);
+        element.children.forEach(visit);
+    };
+    visit(root);
+    return rules.join('\n\n');
+}
+function renderCodeGenHtml(element, indent = '') {
+    var _a;
+    const attributes = [`class="${element.className}"`];
+    if (element.component)
+        attributes.push(`data-component="${codeGenEscape(element.component)}"`);
+    if (element.tag === 'img') {
+        return `${indent}<img ${attributes.join(' ')} src="${codeGenEscape((_a = element.src) !== null && _a !== void 0 ? _a : '')}" alt="${codeGenEscape(element.name)}" />`;
+    }
+    if (element.text) {
+        const inner = element.text.map((segment) => {
+            const text = codeGenEscape(segment.text).replace(/\r\n|\n|\u2028/g, '<br />');
+            const style = Object.entries(segment.styles).map(([property, value]) => `${property}: ${value}`).join('; ');
+            return style ? `<span style="${codeGenEscape(style)}">${text}</span>` : text;
+        }).join('');
+        return `${indent}<${element.tag} ${attributes.join(' ')}>${inner}</${element.tag}>`;
+    }
+    if (element.children.length === 0)
+        return `${indent}<${element.tag} ${attributes.join(' ')}></${element.tag}>`;
+    const children = element.children.map((child) => renderCodeGenHtml(child, `${indent}  `)).join('\n');
+    return `${indent}<${element.tag} ${attributes.join(' ')}>\n${children}\n${indent}</${element.tag}>`;
+}
+async function generateCode(payload) {
+    var _a, _b, _c, _d, _e;
+    const target = (_a = payload.target) !== null && _a !== void 0 ? _a : 'html-css';
+    if (!CODE_GEN_TARGETS.includes(target)) {
+        throw new Error(`Unsupported target: ${target}. Supported: ${CODE_GEN_TARGETS.join(', ')}`);
+    }
+    const node = payload.nodeId
+        ? await figma.getNodeByIdAsync(payload.nodeId)
+        : (_b = figma.currentPage.selection[0]) !== null && _b !== void 0 ? _b : null;
     if (!node)
-        throw new Error('Node not found');
-    const bytes = await node.exportAsync({
-        format,
-        constraint: { type: 'SCALE', value: scale },
-    });
-    // Convert to base64 for transfer
-    const base64 = figma.base64Encode(bytes);
+        throw new Error(payload.nodeId ? `Node not found: ${payload.nodeId}` : 'No nodeId given and nothing is selected');
+    if (node.type === 'DOCUMENT' || node.type === 'PAGE')
+        throw new Error('generate_code needs a scene node, not a page');
+    const ctx = {
+        assetDir: typeof payload.assetDir === 'string' ? payload.assetDir.replace(/\/+$/, '') : 'assets',
+        classPrefix: typeof payload.classPrefix === 'string' ? payload.classPrefix : '',
+        maxDepth: (_c = payload.maxDepth) !== null && _c !== void 0 ? _c : 20,
+        remaining: (_d = payload.maxNodes) !== null && _d !== void 0 ? _d : 1000,
+        assets: [],
+        warnings: [],
+        classNames: new Set(),
+        variables: new Map(),
+        variableNames: new Map(),
+    };
+    const root = await buildCodeGenNode(node, null, { x: 0, y: 0 }, 0, ctx);
+    if (!root)
+        throw new Error(`Node ${node.id} is hidden`);
+    const html = renderCodeGenHtml(root);
+    const css = renderCodeGenCss(root);
     return {
-        nodeId,
-        format,
-        scale,
-        suffix,
-        bytesLength: bytes.length,
-        base64: base64.slice(0, 100) + '...', // Truncate for display
+        target,
+        nodeId: node.id,
+        name: node.name,
+        // Self-contained: var() references carry the current values as fallbacks.
+        code: `<style>\n${css}\n</style>\n${html}\n`,
+        html,
+        css,
+        assets: ctx.assets,
+        variables: [...ctx.variables.values()],
+        warnings: [...new Set(ctx.warnings)],
+        nodeCount: ((_e = payload.maxNodes) !== null && _e !== void 0 ? _e : 1000) - ctx.remaining,
     };
 }
-async function exportNodesBatch(exports) {
-    const results = [];
-    const errors = [];
-    for (const exp of exports) {
-        try {
-            const result = await exportNode(exp.nodeId, exp.format, exp.scale || 1, exp.suffix);
-            results.push(result);
+const REACT_RESERVED_PROPS = new Set(['className', 'children', 'key', 'ref', 'style']);
+const TAILWIND_KEYWORDS = {
+    'display:flex': 'flex', 'flex-direction:row': 'flex-row', 'flex-direction:column': 'flex-col', 'flex-wrap:wrap': 'flex-wrap',
+    'justify-content:flex-start': 'justify-start', 'justify-content:center': 'justify-center',
+    'justify-content:flex-end': 'justify-end', 'justify-content:space-between': 'justify-between',
+    'align-items:flex-start': 'items-start', 'align-items:center': 'items-center', 'align-items:flex-end': 'items-end',
+    'align-items:baseline': 'items-baseline', 'align-self:stretch': 'self-stretch',
+    'flex:1 1 0': 'flex-1', 'flex-shrink:0': 'shrink-0', 'min-width:0': 'min-w-0', 'min-height:0': 'min-h-0',
+    'position:absolute': 'absolute', 'position:relative': 'relative', 'overflow:hidden': 'overflow-hidden',
+    'text-align:center': 'text-center', 'text-align:right': 'text-right', 'text-align:justify': 'text-justify',
+    'white-space:nowrap': 'whitespace-nowrap', 'text-overflow:ellipsis': 'text-ellipsis', 'font-style:italic': 'italic',
+    'text-transform:uppercase': 'uppercase', 'text-transform:lowercase': 'lowercase', 'text-transform:capitalize': 'capitalize',
+    'text-decoration:underline': 'underline', 'text-decoration:line-through': 'line-through',
+    'object-fit:cover': 'object-cover', 'object-fit:contain': 'object-contain', 'transform-origin:top left': 'origin-top-left',
+    'border-radius:50%': 'rounded-full',
+};
+const TAILWIND_PREFIXES = {
+    width: 'w', height: 'h', 'min-width': 'min-w', 'max-width': 'max-w', 'min-height': 'min-h', 'max-height': 'max-h',
+    gap: 'gap', 'row-gap': 'gap-y', padding: 'p', left: 'left', right: 'right', top: 'top', bottom: 'bottom',
+    'border-radius': 'rounded', 'font-size': 'text', 'line-height': 'leading', 'letter-spacing': 'tracking',
+    opacity: 'opacity', 'background-color': 'bg', color: 'text', 'box-shadow': 'shadow',
+};
+const TAILWIND_FONT_WEIGHTS = {
+    100: 'thin', 200: 'extralight', 300: 'light', 400: 'normal', 500: 'medium',
+    600: 'semibold', 700: 'bold', 800: 'extrabold', 900: 'black',
+};
+// Tailwind cannot infer the type of var() values for these utilities.
+const TAILWIND_TYPE_HINTS = { 'font-size': 'length', color: 'color', 'background-color': 'color' };
+function tsString(value) {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+function reactComponentName(name) {
+    const words = String(name).replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+    const pascal = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+    return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`;
+}
+function reactPropName(figmaName, taken) {
+    // Figma suffixes non-variant property keys with "#<id>".
+    const words = figmaName.replace(/#[^#]*$/, '').replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+    let name = words.map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1)).join('') || 'prop';
+    if (/^\d/.test(name))
+        name = `_${name}`;
+    if (REACT_RESERVED_PROPS.has(name))
+        name = `${name}Prop`;
+    let unique = name;
+    for (let i = 2; taken.has(unique); i++)
+        unique = `${name}${i}`;
+    taken.add(unique);
+    return unique;
+}
+function tailwindClasses(styles) {
+    var _a;
+    const classes = [];
+    for (const [property, value] of Object.entries(styles)) {
+        if (property === 'box-sizing' || property === 'margin')
+            continue;
+        const keyword = (_a = TAILWIND_KEYWORDS[`${property}:${value}`]) !== null && _a !== void 0 ? _a : (property === 'font-weight' && TAILWIND_FONT_WEIGHTS[value] ? `font-${TAILWIND_FONT_WEIGHTS[value]}` : undefined);
+        if (keyword) {
+            classes.push(keyword);
+            continue;
         }
-        catch (error) {
-            const msg = error instanceof Error ? error.message : String(error);
-            errors.push({ nodeId: exp.nodeId, error: msg });
+        if (property === 'font-family' && !value.startsWith('var(')) {
+            classes.push(`font-[${value.replace(/"/g, "'").replace(/\s+/g, '_')}]`);
+            continue;
+        }
+        // Arbitrary values: spaces become underscores and double quotes would end the JSX attribute.
+        const arbitrary = value.replace(/_/g, '\\_').replace(/\s+/g, '_').replace(/"/g, "'");
+        const prefix = TAILWIND_PREFIXES[property];
+        if (prefix) {
+            const hint = value.startsWith('var(') && TAILWIND_TYPE_HINTS[property] ? `${TAILWIND_TYPE_HINTS[property]}:` : '';
+            classes.push(`${prefix}-[${hint}${arbitrary}]`);
+        }
+        else {
+            classes.push(`[${property}:${arbitrary}]`);
         }
     }
-    return { exported: results.length, failed: errors.length, results, errors };
+    return classes;
 }
-// ===== COMPONENT PROPERTIES =====
-async function addComponentProperty(componentId, name, type, defaultValue) {
-    const component = await figma.getNodeByIdAsync(componentId);
-    if (!component || component.type !== 'COMPONENT')
-        throw new Error('Component not found');
-    // Note: Component property API may vary
-    // This is a placeholder implementation
-    return {
-        componentId,
-        propertyName: name,
-        type,
-        note: 'Component properties may require manual configuration in Figma UI'
-    };
+function reactStyleObject(styles) {
+    const entries = Object.entries(styles).map(([property, value]) => {
+        const key = property.replace(/-([a-z])/g, (_match, letter) => letter.toUpperCase());
+        return `${key}: ${JSON.stringify(value)}`;
+    });
+    return `{{ ${entries.join(', ')} }}`;
 }
-async function setComponentProperty(instanceId, propertyName, value) {
-    const node = await figma.getNodeByIdAsync(instanceId);
-    if (!node)
-        throw new Error('Node not found');
-    if (node.type !== 'INSTANCE') {
-        throw new Error(`Node ${instanceId} is ${node.type}. set_component_property only supports INSTANCE nodes.`);
+function reactText(text) {
+    return text.split(/\r\n|\n|\u2028/).map((line) => /[{}<>&]/.test(line) ? `{${JSON.stringify(line)}}` : line).join('<br />');
+}
+// The component (set) a node generates as: sets win over their variants, instances use their main component.
+async function reactComponentSource(node) {
+    var _a;
+    let source = node;
+    if (node.type === 'INSTANCE')
+        source = await node.getMainComponentAsync();
+    if ((source === null || source === void 0 ? void 0 : source.type) === 'COMPONENT' && ((_a = source.parent) === null || _a === void 0 ? void 0 : _a.type) === 'COMPONENT_SET')
+        source = source.parent;
+    return source && (source.type === 'COMPONENT' || source.type === 'COMPONENT_SET') ? source : null;
+}
+function reactComponentNameFor(source, state) {
+    const known = state.names.get(source.id);
+    if (known)
+        return known;
+    const base = reactComponentName(source.name);
+    const used = new Set(state.names.values());
+    let name = base;
+    for (let i = 2; used.has(name); i++)
+        name = `${base}${i}`;
+    state.names.set(source.id, name);
+    state.queue.push(source);
+    return name;
+}
+function reactPropsFor(source) {
+    var _a;
+    let definitions = {};
+    try {
+        definitions = source.componentPropertyDefinitions;
     }
-    const instance = node;
-    // Set component property
-    if (instance.componentProperties[propertyName]) {
-        instance.setProperties({ [propertyName]: value });
+    catch (_b) {
+        // Variants with conflicting property names make the getter throw.
+    }
+    const taken = new Set();
+    const props = [];
+    for (const [figmaName, definition] of Object.entries(definitions)) {
+        const name = reactPropName(figmaName, taken);
+        if (definition.type === 'VARIANT') {
+            const options = (_a = definition.variantOptions) !== null && _a !== void 0 ? _a : [];
+            props.push({
+                name, figmaName, type: 'VARIANT',
+                tsType: options.length > 0 ? options.map(tsString).join(' | ') : 'string',
+                defaultValue: tsString(String(definition.defaultValue)),
+            });
+        }
+        else if (definition.type === 'BOOLEAN') {
+            props.push({ name, figmaName, type: 'BOOLEAN', tsType: 'boolean', defaultValue: String(definition.defaultValue === true) });
+        }
+        else if (definition.type === 'TEXT') {
+            props.push({ name, figmaName, type: 'TEXT', tsType: 'string', defaultValue: tsString(String(definition.defaultValue)) });
+        }
+        else {
+            props.push({ name, figmaName, type: 'INSTANCE_SWAP', tsType: 'React.ReactNode' });
+        }
     }
-    return { instanceId, propertyName, value };
-}
-async function removeComponentProperty(componentId, propertyName) {
-    const component = await figma.getNodeByIdAsync(componentId);
-    if (!component || component.type !== 'COMPONENT')
-        throw new Error('Component not found');
-    // Note: Property removal may require specific API
-    return { componentId, propertyName, removed: true };
+    return props;
 }
-// ===== TRANSFORM OPERATIONS =====
-async function scaleNodes(nodeIds, scaleX, scaleY, center) {
-    const nodes = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (node && 'x' in node && 'y' in node)
-            nodes.push(node);
+// JSX attributes for a nested instance; only properties that differ from the component defaults are passed.
+async function reactInstanceRef(node, state) {
+    var _a, _b;
+    const source = await reactComponentSource(node);
+    if (!source)
+        return null;
+    const componentName = reactComponentNameFor(source, state);
+    const props = reactPropsFor(source);
+    const attributes = [];
+    let values = {};
+    try {
+        values = node.componentProperties;
     }
-    // Calculate center point
-    let cx = center === null || center === void 0 ? void 0 : center.x;
-    let cy = center === null || center === void 0 ? void 0 : center.y;
-    if (cx === undefined || cy === undefined) {
-        const xs = nodes.map(n => n.x + n.width / 2);
-        const ys = nodes.map(n => n.y + n.height / 2);
-        cx = xs.reduce((a, b) => a + b, 0) / xs.length;
-        cy = ys.reduce((a, b) => a + b, 0) / ys.length;
+    catch (_c) {
+        // Broken instances can throw; render with defaults.
     }
-    for (const node of nodes) {
-        const n = node;
-        // Scale size
-        n.resize(n.width * scaleX, n.height * scaleY);
-        // Reposition relative to center
-        n.x = cx + (n.x - cx) * scaleX;
-        n.y = cy + (n.y - cy) * scaleY;
+    for (const prop of props) {
+        const value = (_a = values[prop.figmaName]) === null || _a === void 0 ? void 0 : _a.value;
+        if (value === undefined)
+            continue;
+        if (prop.type === 'INSTANCE_SWAP') {
+            const swapped = await figma.getNodeByIdAsync(String(value));
+            const swappedSource = swapped ? await reactComponentSource(swapped) : null;
+            let definitionDefault;
+            try {
+                definitionDefault = (_b = source.componentPropertyDefinitions[prop.figmaName]) === null || _b === void 0 ? void 0 : _b.defaultValue;
+            }
+            catch (_d) {
+                definitionDefault = undefined;
+            }
+            if (swappedSource && value !== definitionDefault) {
+                attributes.push([prop.name, `{<${reactComponentNameFor(swappedSource, state)} />}`]);
+            }
+            continue;
+        }
+        const literal = prop.type === 'BOOLEAN' ? String(value === true) : tsString(String(value));
+        if (literal === prop.defaultValue)
+            continue;
+        attributes.push([prop.name, prop.type === 'BOOLEAN' ? `{${literal}}` : JSON.stringify(String(value))]);
     }
-    return { scaled: nodes.length, scaleX, scaleY };
+    return { componentName, props: attributes };
 }
-async function flipNodes(nodeIds, direction) {
-    const nodes = [];
-    for (const id of nodeIds) {
-        const node = await figma.getNodeByIdAsync(id);
-        if (node)
-            nodes.push(node);
+function renderReactJsx(element, props, state, indent, isRoot) {
+    var _a, _b, _c, _d;
+    const propFor = (key) => key ? props.find((prop) => prop.figmaName === key) : undefined;
+    const tailwind = tailwindClasses(element.styles).join(' ');
+    const classes = state.styling === 'tailwind' ? tsString(tailwind) : `styles[${tsString(element.className)}]`;
+    const className = isRoot
+        ? `{[${classes}, className].filter(Boolean).join(' ')}`
+        : state.styling === 'tailwind' ? JSON.stringify(tailwind) : `{${classes}}`;
+    const visible = propFor((_a = element.refs) === null || _a === void 0 ? void 0 : _a.visible);
+    const inner = visible ? `${indent}  ` : indent;
+    let jsx;
+    if (element.instance) {
+        const attributes = [`className=${className}`, ...element.instance.props.map(([name, value]) => `${name}=${value}`)];
+        jsx = `<${element.instance.componentName} ${attributes.join(' ')} />`;
+        const slot = propFor((_b = element.refs) === null || _b === void 0 ? void 0 : _b.mainComponent);
+        // Slots are expressions; inside a visibility condition they need no extra braces.
+        if (slot)
+            jsx = visible ? `${slot.name} ?? ${jsx}` : `{${slot.name} ?? ${jsx}}`;
+        jsx = `${inner}${jsx}`;
+    }
+    else if (element.tag === 'img') {
+        jsx = `${inner}<img className=${className} src=${JSON.stringify((_c = element.src) !== null && _c !== void 0 ? _c : '')} alt=${JSON.stringify(element.name)} />`;
+    }
+    else if (element.text) {
+        const bound = propFor((_d = element.refs) === null || _d === void 0 ? void 0 : _d.characters);
+        const content = bound ? `{${bound.name}}` : element.text.map((segment) => {
+            if (Object.keys(segment.styles).length === 0)
+                return reactText(segment.text);
+            const attribute = state.styling === 'tailwind'
+                ? `className="${tailwindClasses(segment.styles).join(' ')}"`
+                : `style=${reactStyleObject(segment.styles)}`;
+            return `<span ${attribute}>${reactText(segment.text)}</span>`;
+        }).join('');
+        jsx = `${inner}<${element.tag} className=${className}>${content}</${element.tag}>`;
+    }
+    else if (element.children.length === 0) {
+        jsx = `${inner}<${element.tag} className=${className} />`;
     }
-    for (const node of nodes) {
-        if ('relativeTransform' in node) {
-            const t = node.relativeTransform;
-            if (direction === 'horizontal') {
-                node.relativeTransform = [
-                    [-t[0][0], t[0][1], t[0][2]],
-                    [-t[1][0], t[1][1], t[1][2]],
-                ];
+    else {
+        const children = element.children.map((child) => renderReactJsx(child, props, state, `${inner}  `, false)).join('\n');
+        jsx = `${inner}<${element.tag} className=${className}>\n${children}\n${inner}</${element.tag}>`;
+    }
+    if (!visible)
+        return jsx;
+    return `${indent}{${visible.name} && (\n${jsx}\n${indent})}`;
+}
+async function generateReactFile(source, state) {
+    var _a, _b;
+    const componentName = state.names.get(source.id);
+    const props = reactPropsFor(source);
+    const ctx = Object.assign(Object.assign({}, state.shared), { classPrefix: '', remaining: state.remaining, classNames: new Set(), componentProps: true, instanceRef: (node) => reactInstanceRef(node, state) });
+    // Each variant renders as its own branch; the default variant is the fallback.
+    const variants = source.type === 'COMPONENT_SET'
+        ? source.children.filter((child) => child.type === 'COMPONENT')
+        : [source];
+    const defaultVariant = source.type === 'COMPONENT_SET' ? (_a = source.defaultVariant) !== null && _a !== void 0 ? _a : variants[0] : source;
+    const ordered = [...variants.filter((variant) => variant !== defaultVariant), defaultVariant];
+    const branches = [];
+    const cssRules = [];
+    for (const variant of ordered) {
+        const root = await buildCodeGenNode(variant, null, { x: 0, y: 0 }, 0, ctx);
+        if (!root)
+            continue;
+        if (state.styling === 'css-modules')
+            cssRules.push(renderCodeGenCss(root));
+        const body = `    return (\n${renderReactJsx(root, props, state, '      ', true)}\n    );`;
+        if (variant === defaultVariant) {
+            branches.push(body.replace(/^  /gm, ''));
+            continue;
+        }
+        const conditions = [];
+        let variantProperties = {};
+        try {
+            variantProperties = (_b = variant.variantProperties) !== null && _b !== void 0 ? _b : {};
+        }
+        catch (_c) {
+            // Broken component sets can throw from the variantProperties getter.
+        }
+        for (const [figmaName, value] of Object.entries(variantProperties)) {
+            const prop = props.find((candidate) => candidate.type === 'VARIANT' && candidate.figmaName === figmaName);
+            if (prop)
+                conditions.push(`${prop.name} === ${tsString(value)}`);
+        }
+        if (conditions.length > 0)
+            branches.push(`  if (${conditions.join(' && ')}) {\n${body}\n  }`);
+    }
+    state.remaining = ctx.remaining;
+    const imports = new Set();
+    const referenced = branches.join('\n').matchAll(/<([A-Z][A-Za-z0-9]*)[\s>/]/g);
+    for (const match of referenced) {
+        if (match[1] !== componentName)
+            imports.add(match[1]);
+    }
+    const header = [
+        "import React from 'react';",
+        ...[...imports].sort().map((name) => `import { ${name} } from './${name}';`),
+        ...(state.styling === 'css-modules' ? [`import styles from './${componentName}.module.css';`] : []),
+    ];
+    const propLines = props.map((prop) => `  ${prop.name}?: ${prop.tsType};`);
+    const destructured = [
+        ...props.map((prop) => prop.defaultValue !== undefined ? `${prop.name} = ${prop.defaultValue}` : prop.name),
+        'className',
+    ];
+    const content = [
+        ...header,
+        '',
+        `export interface ${componentName}Props {`,
+        ...propLines,
+        '  className?: string;',
+        '}',
+        '',
+        `export function ${componentName}({ ${destructured.join(', ')} }: ${componentName}Props) {`,
+        ...branches,
+        '}',
+        '',
+    ].join('\n');
+    const file = `${componentName}.tsx`;
+    state.files.push({ name: file, content });
+    if (state.styling === 'css-modules')
+        state.files.push({ name: `${componentName}.module.css`, content: `${cssRules.join('\n\n')}\n` });
+    state.components.push({ componentName, nodeId: source.id, type: source.type, props, file });
+}
+async function generateReactComponent(payload) {
+    var _a, _b, _c, _d, _e;
+    const styling = (_a = payload.styling) !== null && _a !== void 0 ? _a : 'tailwind';
+    if (styling !== 'tailwind' && styling !== 'css-modules') {
+        throw new Error(`Unsupported styling: ${styling}. Supported: tailwind, css-modules`);
+    }
+    const node = payload.nodeId
+        ? await figma.getNodeByIdAsync(payload.nodeId)
+        : (_b = figma.currentPage.selection[0]) !== null && _b !== void 0 ? _b : null;
+    if (!node)
+        throw new Error(payload.nodeId ? `Node not found: ${payload.nodeId}` : 'No nodeId given and nothing is selected');
+    const source = await reactComponentSource(node);
+    if (!source)
+        throw new Error(`Node ${node.id} is ${node.type}; generate_react_component needs a COMPONENT, COMPONENT_SET or INSTANCE`);
+    const state = {
+        styling,
+        includeDependencies: payload.includeDependencies !== false,
+        maxComponents: (_c = payload.maxComponents) !== null && _c !== void 0 ? _c : 20,
+        shared: {
+            assetDir: typeof payload.assetDir === 'string' ? payload.assetDir.replace(/\/+$/, '') : 'assets',
+            maxDepth: (_d = payload.maxDepth) !== null && _d !== void 0 ? _d : 20,
+            assets: [],
+            warnings: [],
+            variables: new Map(),
+            variableNames: new Map(),
+        },
+        remaining: (_e = payload.maxNodes) !== null && _e !== void 0 ? _e : 2000,
+        names: new Map(),
+        queue: [],
+        files: [],
+        components: [],
+    };
+    state.names.set(source.id, typeof payload.componentName === 'string' && payload.componentName
+        ? reactComponentName(payload.componentName)
+        : reactComponentName(source.name));
+    await generateReactFile(source, state);
+    const dependencies = [];
+    while (state.queue.length > 0) {
+        const next = state.queue.shift();
+        const generate = state.includeDependencies && state.components.length < state.maxComponents;
+        if (generate)
+            await generateReactFile(next, state);
+        dependencies.push({ componentName: state.names.get(next.id), nodeId: next.id, generated: generate });
+    }
+    if (dependencies.some((dependency) => !dependency.generated) && state.includeDependencies) {
+        state.shared.warnings.push(`maxComponents ${state.maxComponents} reached; some imported components were not generated`);
+    }
+    const entry = state.components[0];
+    return {
+        componentName: entry.componentName,
+        nodeId: source.id,
+        styling,
+        props: entry.props.map(({ name, figmaName, type, tsType, defaultValue }) => ({ name, figmaName, type, tsType, defaultValue })),
+        files: state.files,
+        dependencies,
+        assets: state.shared.assets,
+        variables: [...state.shared.variables.values()],
+        warnings: [...new Set(state.shared.warnings)],
+    };
+}
+const HTML_ABSOLUTE_POSITIONS = new Set(['absolute', 'fixed']);
+const HTML_CLIPPING_OVERFLOW = new Set(['hidden', 'clip', 'auto', 'scroll']);
+const HTML_IMAGE_PLACEHOLDER = { type: 'SOLID', color: { r: 0.9, g: 0.9, b: 0.9 } };
+function htmlLength(value, basis = 0) {
+    if (typeof value === 'string' && value.trim().endsWith('%'))
+        return (parseFloat(value) / 100) * basis;
+    if (typeof value === 'string')
+        return tokenDimensionToNumber(value.trim().split(/\s+/)[0]);
+    return tokenDimensionToNumber(value);
+}
+function htmlPaint(value) {
+    if (value === undefined || value === null || value === 'transparent' || value === 'none')
+        return null;
+    const color = tokenColorToRGBA(value);
+    if (!color || color.a <= 0)
+        return null;
+    return Object.assign({ type: 'SOLID', color: { r: color.r, g: color.g, b: color.b } }, (color.a < 1 ? { opacity: color.a } : {}));
+}
+function htmlImageUrl(node) {
+    var _a;
+    if (typeof node.image === 'string' && node.image)
+        return node.image;
+    const background = (_a = node.styles) === null || _a === void 0 ? void 0 : _a.backgroundImage;
+    const match = typeof background === 'string' ? background.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/) : null;
+    return match ? match[1] : null;
+}
+function htmlLayoutMode(node) {
+    var _a, _b, _c, _d;
+    const styles = (_a = node.styles) !== null && _a !== void 0 ? _a : {};
+    const display = String((_b = styles.display) !== null && _b !== void 0 ? _b : 'block');
+    if (display === 'flex' || display === 'inline-flex') {
+        return String((_c = styles.flexDirection) !== null && _c !== void 0 ? _c : 'row').startsWith('column') ? 'VERTICAL' : 'HORIZONTAL';
+    }
+    if (display !== 'block' && display !== 'flow-root' && display !== 'list-item')
+        return null;
+    // Block flow only maps to a vertical stack when the in-flow children really are stacked top to bottom.
+    const flow = ((_d = node.children) !== null && _d !== void 0 ? _d : []).filter((child) => { var _a; return !HTML_ABSOLUTE_POSITIONS.has((_a = child.styles) === null || _a === void 0 ? void 0 : _a.position); });
+    for (let i = 1; i < flow.length; i++) {
+        if (flow[i].box.y < flow[i - 1].box.y + flow[i - 1].box.height - 0.5)
+            return null;
+    }
+    return 'VERTICAL';
+}
+// Spacing between consecutive in-flow children; null when the gaps differ (margins vary), so the frame keeps absolute positions.
+function htmlStackSpacing(children, mode) {
+    const flow = children.filter((child) => { var _a; return !HTML_ABSOLUTE_POSITIONS.has((_a = child.styles) === null || _a === void 0 ? void 0 : _a.position); });
+    if (flow.length < 2)
+        return 0;
+    const gaps = [];
+    for (let i = 1; i < flow.length; i++) {
+        const prev = flow[i - 1].box;
+        gaps.push(mode === 'HORIZONTAL'
+            ? flow[i].box.x - (prev.x + prev.width)
+            : flow[i].box.y - (prev.y + prev.height));
+    }
+    const first = gaps[0];
+    if (first < 0 || gaps.some((gap) => Math.abs(gap - first) > 1))
+        return null;
+    return Math.round(first * 100) / 100;
+}
+function htmlPrimaryAlign(value) {
+    switch (String(value !== null && value !== void 0 ? value : '')) {
+        case 'center': return 'CENTER';
+        case 'flex-end':
+        case 'end':
+        case 'right': return 'MAX';
+        case 'space-between': return 'SPACE_BETWEEN';
+        default: return 'MIN';
+    }
+}
+function htmlCounterAlign(value, mode) {
+    switch (String(value !== null && value !== void 0 ? value : '')) {
+        case 'center': return 'CENTER';
+        case 'flex-end':
+        case 'end': return 'MAX';
+        case 'baseline': return mode === 'HORIZONTAL' ? 'BASELINE' : 'MIN';
+        default: return 'MIN';
+    }
+}
+// Flattens the snapshot breadth-first so every level can be created with one batchCreate once its parents exist.
+function planHtmlLayoutLevels(root, maxNodes, warnings) {
+    var _a, _b, _c, _d, _e, _f, _g, _h;
+    const levels = [];
+    let current = [{ source: root, parent: null }];
+    let count = 0;
+    while (current.length > 0) {
+        const level = [];
+        const next = [];
+        for (const { source, parent } of current) {
+            if (count >= maxNodes) {
+                warnings.push(`maxNodes ${maxNodes} reached; deeper elements were not imported`);
+                return levels.concat(level.length > 0 ? [level] : []);
             }
-            else {
-                node.relativeTransform = [
-                    [t[0][0], -t[0][1], t[0][2]],
-                    [t[1][0], -t[1][1], t[1][2]],
-                ];
+            const box = source === null || source === void 0 ? void 0 : source.box;
+            if (!box || ![box.x, box.y, box.width, box.height].every((n) => typeof n === 'number' && Number.isFinite(n))) {
+                throw new Error(`Layout node ${(_b = (_a = source === null || source === void 0 ? void 0 : source.name) !== null && _a !== void 0 ? _a : source === null || source === void 0 ? void 0 : source.tag) !== null && _b !== void 0 ? _b : '(unnamed)'} is missing a numeric box {x, y, width, height}`);
+            }
+            count++;
+            const children = Array.isArray(source.children) ? source.children : [];
+            const isText = typeof source.text === 'string' && children.length === 0;
+            let autoLayout = isText ? null : htmlLayoutMode(source);
+            let itemSpacing = 0;
+            if (autoLayout) {
+                const styles = (_c = source.styles) !== null && _c !== void 0 ? _c : {};
+                const gap = htmlLength(autoLayout === 'HORIZONTAL' ? (_d = styles.columnGap) !== null && _d !== void 0 ? _d : styles.gap : (_e = styles.rowGap) !== null && _e !== void 0 ? _e : styles.gap);
+                const inferred = htmlStackSpacing(children, autoLayout);
+                if (String(styles.display).includes('flex') && gap !== null && !String((_f = styles.justifyContent) !== null && _f !== void 0 ? _f : '').startsWith('space')) {
+                    itemSpacing = gap;
+                }
+                else if (inferred !== null) {
+                    itemSpacing = inferred;
+                }
+                else {
+                    autoLayout = null;
+                }
             }
+            const entry = { source, parent, kind: isText ? 'text' : 'frame', autoLayout, itemSpacing };
+            level.push(entry);
+            const reversed = String((_h = (_g = source.styles) === null || _g === void 0 ? void 0 : _g.flexDirection) !== null && _h !== void 0 ? _h : '').endsWith('-reverse');
+            for (const child of reversed ? [...children].reverse() : children)
+                next.push({ source: child, parent: entry });
         }
+        levels.push(level);
+        current = next;
     }
-    return { flipped: nodes.length, direction };
+    return levels;
 }
-// ===== ADVANCED IMPORT =====
-async function loadComponentFromFile(fileKey, componentKey) {
-    const component = await figma.importComponentByKeyAsync(componentKey);
-    return {
-        componentId: component.id,
-        name: component.name,
-        fileKey,
-        componentKey,
+function htmlLayoutOperation(entry, origin, parentId) {
+    var _a, _b, _c, _d;
+    const { source, parent } = entry;
+    const styles = (_a = source.styles) !== null && _a !== void 0 ? _a : {};
+    const params = {
+        x: parent ? source.box.x - parent.source.box.x : origin.x,
+        y: parent ? source.box.y - parent.source.box.y : origin.y,
+        width: Math.max(source.box.width, 0.01),
+        height: Math.max(source.box.height, 0.01),
+        parentId: parent ? parent.nodeId : parentId,
     };
+    const opacity = styles.opacity !== undefined ? Number(styles.opacity) : 1;
+    if (opacity < 1)
+        params.opacity = opacity;
+    if (styles.visibility === 'hidden')
+        params.visible = false;
+    if (entry.kind === 'text') {
+        const color = htmlPaint((_b = styles.color) !== null && _b !== void 0 ? _b : '#000000');
+        params.fills = color ? [color] : [];
+    }
+    else {
+        params.name = (_d = (_c = source.name) !== null && _c !== void 0 ? _c : source.tag) !== null && _d !== void 0 ? _d : 'div';
+        const background = htmlPaint(styles.backgroundColor);
+        params.fills = htmlImageUrl(source) ? [HTML_IMAGE_PLACEHOLDER] : background ? [background] : [];
+    }
+    return { type: entry.kind, params };
+}
+// Out-of-flow elements inside an auto layout parent keep their snapshot position instead of joining the stack.
+function placeHtmlAbsolute(node, entry) {
+    node.layoutPositioning = 'ABSOLUTE';
+    node.x = entry.source.box.x - entry.parent.source.box.x;
+    node.y = entry.source.box.y - entry.parent.source.box.y;
+}
+async function applyHtmlFrameStyles(frame, entry) {
+    var _a, _b, _c, _d, _e, _f, _g, _h, _j, _k, _l, _m;
+    const { source } = entry;
+    const styles = (_a = source.styles) !== null && _a !== void 0 ? _a : {};
+    const { width, height } = source.box;
+    const radius = htmlLength(styles.borderRadius, Math.min(width, height));
+    if (radius !== null && radius > 0)
+        frame.cornerRadius = Math.min(radius, Math.min(width, height) / 2);
+    const borderWidth = styles.borderStyle === 'none' ? 0 : (_b = htmlLength(styles.borderWidth)) !== null && _b !== void 0 ? _b : 0;
+    const borderPaint = borderWidth > 0 ? htmlPaint((_c = styles.borderColor) !== null && _c !== void 0 ? _c : '#000000') : null;
+    if (borderPaint) {
+        frame.strokes = [borderPaint];
+        frame.strokeWeight = borderWidth;
+        frame.strokeAlign = 'INSIDE';
+    }
+    frame.clipsContent = HTML_CLIPPING_OVERFLOW.has(String((_d = styles.overflow) !== null && _d !== void 0 ? _d : 'visible'));
+    if (((_e = entry.parent) === null || _e === void 0 ? void 0 : _e.autoLayout) && HTML_ABSOLUTE_POSITIONS.has(styles.position))
+        placeHtmlAbsolute(frame, entry);
+    if (!entry.autoLayout)
+        return;
+    // CSS border-box: borders sit inside the box and push content in like padding, while INSIDE strokes do not.
+    const inset = borderPaint ? borderWidth : 0;
+    frame.layoutMode = entry.autoLayout;
+    frame.primaryAxisSizingMode = 'FIXED';
+    frame.counterAxisSizingMode = 'FIXED';
+    frame.paddingTop = ((_f = htmlLength(styles.paddingTop)) !== null && _f !== void 0 ? _f : 0) + inset;
+    frame.paddingRight = ((_g = htmlLength(styles.paddingRight)) !== null && _g !== void 0 ? _g : 0) + inset;
+    frame.paddingBottom = ((_h = htmlLength(styles.paddingBottom)) !== null && _h !== void 0 ? _h : 0) + inset;
+    frame.paddingLeft = ((_j = htmlLength(styles.paddingLeft)) !== null && _j !== void 0 ? _j : 0) + inset;
+    frame.itemSpacing = entry.itemSpacing;
+    frame.primaryAxisAlignItems = htmlPrimaryAlign(styles.justifyContent);
+    frame.counterAxisAlignItems = htmlCounterAlign(styles.alignItems, entry.autoLayout);
+    if (entry.autoLayout === 'HORIZONTAL' && String((_k = styles.flexWrap) !== null && _k !== void 0 ? _k : '') === 'wrap') {
+        frame.layoutWrap = 'WRAP';
+        frame.counterAxisSpacing = (_m = htmlLength((_l = styles.rowGap) !== null && _l !== void 0 ? _l : styles.gap)) !== null && _m !== void 0 ? _m : 0;
+    }
+    frame.resize(Math.max(width, 0.01), Math.max(height, 0.01));
+}
+async function loadHtmlFont(styles, state) {
+    var _a, _b, _c, _d, _e;
+    const family = String((_a = styles.fontFamily) !== null && _a !== void 0 ? _a : 'Inter').split(',')[0].trim().replace(/^['"]|['"]$/g, '') || 'Inter';
+    const weight = (_c = tokenFontWeight((_b = styles.fontWeight) !== null && _b !== void 0 ? _b : 400)) !== null && _c !== void 0 ? _c : 400;
+    const weightStyle = (_d = FONT_STYLE_BY_WEIGHT[Math.round(weight / 100) * 100]) !== null && _d !== void 0 ? _d : 'Regular';
+    const italic = /italic|oblique/.test(String((_e = styles.fontStyle) !== null && _e !== void 0 ? _e : ''));
+    const style = italic ? (weightStyle === 'Regular' ? 'Italic' : `${weightStyle} Italic`) : weightStyle;
+    const key = `${family}::${style}`;
+    const cached = state.fonts.get(key);
+    if (cached)
+        return cached;
+    const candidates = [
+        { family, style },
+        { family, style: 'Regular' },
+        { family: 'Inter', style },
+        { family: 'Inter', style: 'Regular' },
+    ];
+    for (const candidate of candidates) {
+        try {
+            await figma.loadFontAsync(candidate);
+            if (candidate.family !== family || candidate.style !== style) {
+                state.warnings.push(`Font ${family} ${style} unavailable; using ${candidate.family} ${candidate.style}`);
+            }
+            state.fonts.set(key, candidate);
+            return candidate;
+        }
+        catch (_f) {
+            // Try the next fallback.
+        }
+    }
+    throw new Error(`No usable font for ${family} ${style}`);
 }
-async function loadStyleFromFile(fileKey, styleKey) {
-    const style = await figma.importStyleByKeyAsync(styleKey);
+async function applyHtmlTextStyles(text, entry, state) {
+    var _a, _b, _c, _d, _e, _f, _g, _h, _j;
+    const { source } = entry;
+    const styles = (_a = source.styles) !== null && _a !== void 0 ? _a : {};
+    const fontName = await loadHtmlFont(styles, state);
+    const fontSize = (_b = htmlLength(styles.fontSize)) !== null && _b !== void 0 ? _b : 16;
+    text.fontName = fontName;
+    text.fontSize = fontSize;
+    const rawLineHeight = styles.lineHeight;
+    if (rawLineHeight === undefined || rawLineHeight === 'normal') {
+        text.lineHeight = { unit: 'AUTO' };
+    }
+    else if (typeof rawLineHeight === 'number' || /^\d*\.?\d+$/.test(String(rawLineHeight))) {
+        text.lineHeight = { unit: 'PERCENT', value: Number(rawLineHeight) * 100 };
+    }
+    else {
+        text.lineHeight = { unit: 'PIXELS', value: (_c = htmlLength(rawLineHeight, fontSize)) !== null && _c !== void 0 ? _c : fontSize };
+    }
+    if (styles.letterSpacing !== undefined && styles.letterSpacing !== 'normal') {
+        text.letterSpacing = { unit: 'PIXELS', value: (_d = htmlLength(styles.letterSpacing)) !== null && _d !== void 0 ? _d : 0 };
+    }
+    const align = String((_e = styles.textAlign) !== null && _e !== void 0 ? _e : 'left');
+    text.textAlignHorizontal = align === 'center' ? 'CENTER'
+        : align === 'right' || align === 'end' ? 'RIGHT'
+            : align === 'justify' ? 'JUSTIFIED' : 'LEFT';
+    const transform = String((_f = styles.textTransform) !== null && _f !== void 0 ? _f : 'none');
+    if (transform === 'uppercase')
+        text.textCase = 'UPPER';
+    else if (transform === 'lowercase')
+        text.textCase = 'LOWER';
+    else if (transform === 'capitalize')
+        text.textCase = 'TITLE';
+    const decoration = String((_h = (_g = styles.textDecoration) !== null && _g !== void 0 ? _g : styles.textDecorationLine) !== null && _h !== void 0 ? _h : '');
+    if (decoration.includes('underline'))
+        text.textDecoration = 'UNDERLINE';
+    else if (decoration.includes('line-through'))
+        text.textDecoration = 'STRIKETHROUGH';
+    text.characters = String(source.text);
+    // Keep the browser's line width; the height follows Figma's own text metrics.
+    text.resize(Math.max(source.box.width, 0.01), Math.max(source.box.height, 0.01));
+    text.textAutoResize = 'HEIGHT';
+    if (((_j = entry.parent) === null || _j === void 0 ? void 0 : _j.autoLayout) && HTML_ABSOLUTE_POSITIONS.has(styles.position))
+        placeHtmlAbsolute(text, entry);
+}
+async function applyHtmlImage(node, url, state) {
+    var _a;
+    const embedded = (_a = state.images[url]) !== null && _a !== void 0 ? _a : (url.startsWith('data:') ? url : undefined);
+    if (embedded) {
+        const base64 = embedded.replace(/^data:[^,]*;base64,/, '');
+        const image = figma.createImage(figma.base64Decode(base64));
+        await createImageFill(undefined, image.hash, node.id);
+    }
+    else if (state.fetchImages) {
+        await createImageFill(url, undefined, node.id);
+    }
+    else {
+        state.warnings.push(`Image ${url} is not embedded in the snapshot; left a placeholder on ${node.name}`);
+        return;
+    }
+    state.imageCount++;
+}
+// Recreates a serialized DOM layout (element boxes, computed styles, text runs, images) as frames and text nodes.
+async function importHtmlLayout(options) {
+    var _a, _b, _c, _d, _e, _f, _g, _h, _j;
+    const root = (_b = (_a = options.layout) === null || _a === void 0 ? void 0 : _a.root) !== null && _b !== void 0 ? _b : options.layout;
+    if (!root || typeof root !== 'object')
+        throw new Error('layout must be a layout tree object');
+    const state = {
+        images: Object.assign(Object.assign({}, ((_d = (_c = options.layout) === null || _c === void 0 ? void 0 : _c.images) !== null && _d !== void 0 ? _d : {})), ((_e = options.images) !== null && _e !== void 0 ? _e : {})),
+        fetchImages: options.fetchImages === true,
+        fonts: new Map(),
+        warnings: [],
+        imageCount: 0,
+    };
+    const levels = planHtmlLayoutLevels(root, (_f = options.maxNodes) !== null && _f !== void 0 ? _f : 2000, state.warnings);
+    const origin = { x: (_g = options.x) !== null && _g !== void 0 ? _g : 0, y: (_h = options.y) !== null && _h !== void 0 ? _h : 0 };
+    let frames = 0;
+    let texts = 0;
+    for (const level of levels) {
+        const created = await batchCreate(level.map((entry) => htmlLayoutOperation(entry, origin, options.parentId)), 50, false, false, 'import_html_layout');
+        if (created.cancelled) {
+            return { rootId: (_j = levels[0][0].nodeId) !== null && _j !== void 0 ? _j : null, frames, texts, images: state.imageCount, cancelled: true, warnings: state.warnings };
+        }
+        for (let i = 0; i < level.length; i++) {
+            const entry = level[i];
+            entry.nodeId = created.createdIds[i];
+            const node = await figma.getNodeByIdAsync(entry.nodeId);
+            if (entry.kind === 'text') {
+                await applyHtmlTextStyles(node, entry, state);
+                texts++;
+                continue;
+            }
+            await applyHtmlFrameStyles(node, entry);
+            const url = htmlImageUrl(entry.source);
+            if (url) {
+                try {
+                    await applyHtmlImage(node, url, state);
+                }
+                catch (error) {
+                    state.warnings.push(`Image ${url}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            frames++;
+        }
+    }
+    const rootNode = await figma.getNodeByIdAsync(levels[0][0].nodeId);
+    if (options.name)
+        rootNode.name = options.name;
     return {
-        styleId: style.id,
-        name: style.name,
-        type: style.type,
-        fileKey,
-        styleKey,
+        rootId: rootNode.id,
+        name: rootNode.name,
+        width: rootNode.width,
+        height: rootNode.height,
+        frames,
+        texts,
+        images: state.imageCount,
+        cancelled: false,
+        warnings: [...new Set(state.warnings)],
     };
 }
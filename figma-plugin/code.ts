@@ -11,42 +11,145 @@ type PluginToolDescriptor = {
   description: string;
   inputSchema: {
     type: 'object';
-    properties: Record<string, unknown>;
-    additionalProperties?: boolean;
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+  outputSchema?: {
+    type: 'object';
+    [key: string]: unknown;
   };
 };
 
-let pluginToolCatalog: PluginToolDescriptor[] | null = null;
+// The tools this plugin executes, with the schemas the MCP server advertises (served by get_tools).
+// <generated:tool-catalog>
+// Generated from src/tools.ts by `npm run generate:tools`; do not edit by hand.
+const PLUGIN_TOOL_CATALOG: PluginToolDescriptor[] = [
+  {"name":"smart_select","description":"AI-powered semantic node retrieval using natural language query (fuzzy, not exact-match filtering). Supports current page, whole document, or explicit pageIds/pageNames. For deterministic exact filtering, prefer scan_by_pattern.","inputSchema":{"type":"object","properties":{"query":{"type":"string","description":"Natural language query, e.g., \"all buttons\", \"login form elements\", \"red cards in header\". Color words (red, orange, brown, yellow, green, cyan/teal, blue, purple, pink, black, white, gray, or 红色/蓝色/…) match by perceptual hue family; a hex such as \"#3366ff\" matches fills within ΔE2000 10"},"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"document","description":"Search scope when pageIds/pageNames are not provided."},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to search. Takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to search (case-insensitive). Takes precedence over scope."},"limit":{"type":"number","default":100,"description":"Maximum results to return"}},"required":["query"]}},
+  {"name":"find_similar","description":"Find nodes visually or structurally similar to a target node (type, size, CIEDE2000 fill color distance, corner radius, auto layout). Supports current page, whole document, or explicit pageIds/pageNames.","inputSchema":{"type":"object","properties":{"targetId":{"type":"string","description":"ID of the reference node"},"threshold":{"type":"number","default":0.85,"minimum":0,"maximum":1,"description":"Similarity threshold (0-1)"},"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"document","description":"Search scope when pageIds/pageNames are not provided."},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to search. Takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to search (case-insensitive). Takes precedence over scope."}},"required":["targetId"]}},
+  {"name":"scan_by_pattern","description":"Scan nodes by pattern (name/type/size/color/layout). Supports current page, whole document, or explicit pageIds/pageNames. Returns paginated-like payload with `nodes` and truncation metadata.","inputSchema":{"type":"object","properties":{"pattern":{"type":"object","properties":{"nameRegex":{"type":"string"},"types":{"type":"array","items":{"type":"string"}},"minWidth":{"type":"number"},"maxWidth":{"type":"number"},"minHeight":{"type":"number"},"maxHeight":{"type":"number"},"fillColor":{"type":"object"},"hasAutoLayout":{"type":"boolean"}}},"limit":{"type":"number","default":200,"minimum":1,"maximum":5000,"description":"Maximum matched nodes to return. Use to prevent oversized responses on large documents."},"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"document","description":"Search scope when pageIds/pageNames are not provided."},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to scan. Takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to scan (case-insensitive). Takes precedence over scope."}},"required":["pattern"]}},
+  {"name":"auto_discover_components","description":"Automatically analyze nodes and discover opportunities for component creation. Supports current page, whole document, or explicit pageIds/pageNames.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"page","description":"Analysis scope when pageIds/pageNames are not provided."},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to analyze. Takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to analyze (case-insensitive). Takes precedence over scope."},"minSimilarity":{"type":"number","default":0.9},"minOccurrences":{"type":"number","default":3}}}},
+  {"name":"batch_create","description":"Batch create multiple nodes efficiently. Handles 1000+ operations without timeout. `operation.type` accepts alias formats: snake_case, camelCase, kebab-case, and uppercase.","inputSchema":{"type":"object","properties":{"operations":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","description":"Create type alias. Supported families: rectangle/frame/text/component/ellipse/line/polygon/star/vector. Examples: `create_frame`, `createFrame`, `frame`."},"params":{"type":"object","description":"Node properties. Paint arrays (`fills`/`strokes`) support either hex strings (e.g. `#4A90E2`) or full Figma paint objects."}}}},"chunkSize":{"type":"number","default":50},"continueOnError":{"type":"boolean","default":true},"atomic":{"type":"boolean","default":false,"description":"Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["operations"]},"outputSchema":{"type":"object","anyOf":[{"type":"object","properties":{"success":{"type":"number","description":"Operations that succeeded"},"failed":{"type":"number","description":"Operations that failed"},"createdIds":{"type":"array","items":{"type":"string"},"description":"batch_create: ids of the created nodes, in operation order"},"errors":{"type":"array","items":{"type":"object","properties":{"error":{"type":"string"},"nodeId":{"type":"string"},"operation":{"type":"object","description":"The failed batch_create operation"}},"required":["error"]},"description":"First 10 failures"},"cancelled":{"type":"boolean","description":"batch_create: stopped by cancel_operation"},"skipped":{"type":"number","description":"batch_create: operations not run because of cancellation"},"results":{"type":"array","items":{"type":"object"}},"operationId":{"type":"string","description":"Journal id for undo_operations"}},"required":["success","failed","errors"]},{"type":"object","properties":{"atomic":{"type":"boolean","enum":[true]},"committed":{"type":"boolean","enum":[false]},"failedOperation":{"type":"object","properties":{"index":{"type":"number"},"target":{"type":"string"},"error":{"type":"string"}},"required":["index","target","error"]},"rolledBack":{"type":"boolean"},"rollback":{"type":"object","properties":{"reverted":{"type":"object","additionalProperties":{"type":"number"}},"failed":{"type":"array","items":{"type":"object"}}},"required":["reverted","failed"]}},"required":["atomic","committed","failedOperation","rolledBack","rollback"]},{"type":"object","properties":{"dryRun":{"type":"boolean","enum":[true]},"planId":{"type":"string"},"tool":{"type":"string"},"createdAt":{"type":"number"},"preview":{"type":"string","enum":["full","partial"]},"summary":{"type":"object","properties":{"create":{"type":"number"},"modify":{"type":"number"},"delete":{"type":"number"},"move":{"type":"number"},"errors":{"type":"number"}},"required":["create","modify","delete","move","errors"]},"changes":{"type":"object","properties":{"create":{"type":"array","items":{"type":"object"}},"modify":{"type":"array","items":{"type":"object"}},"delete":{"type":"array","items":{"type":"object"}},"move":{"type":"array","items":{"type":"object"}}},"required":["create","modify","delete","move"]},"errors":{"type":"array","items":{"type":"object","properties":{"target":{"type":"string"},"error":{"type":"string"}},"required":["target","error"]}},"warnings":{"type":"array","items":{"type":"string"}}},"required":["dryRun","planId","tool","preview","summary","changes","errors","warnings"]}]}},
+  {"name":"batch_modify","description":"Batch modify multiple nodes in one operation.","inputSchema":{"type":"object","properties":{"operations":{"type":"array","items":{"type":"object","properties":{"nodeId":{"type":"string"},"changes":{"type":"object"}}}},"chunkSize":{"type":"number","default":50},"atomic":{"type":"boolean","default":false,"description":"Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["operations"]},"outputSchema":{"type":"object","anyOf":[{"type":"object","properties":{"success":{"type":"number","description":"Operations that succeeded"},"failed":{"type":"number","description":"Operations that failed"},"createdIds":{"type":"array","items":{"type":"string"},"description":"batch_create: ids of the created nodes, in operation order"},"errors":{"type":"array","items":{"type":"object","properties":{"error":{"type":"string"},"nodeId":{"type":"string"},"operation":{"type":"object","description":"The failed batch_create operation"}},"required":["error"]},"description":"First 10 failures"},"cancelled":{"type":"boolean","description":"batch_create: stopped by cancel_operation"},"skipped":{"type":"number","description":"batch_create: operations not run because of cancellation"},"results":{"type":"array","items":{"type":"object"}},"operationId":{"type":"string","description":"Journal id for undo_operations"}},"required":["success","failed","errors"]},{"type":"object","properties":{"atomic":{"type":"boolean","enum":[true]},"committed":{"type":"boolean","enum":[false]},"failedOperation":{"type":"object","properties":{"index":{"type":"number"},"target":{"type":"string"},"error":{"type":"string"}},"required":["index","target","error"]},"rolledBack":{"type":"boolean"},"rollback":{"type":"object","properties":{"reverted":{"type":"object","additionalProperties":{"type":"number"}},"failed":{"type":"array","items":{"type":"object"}}},"required":["reverted","failed"]}},"required":["atomic","committed","failedOperation","rolledBack","rollback"]},{"type":"object","properties":{"dryRun":{"type":"boolean","enum":[true]},"planId":{"type":"string"},"tool":{"type":"string"},"createdAt":{"type":"number"},"preview":{"type":"string","enum":["full","partial"]},"summary":{"type":"object","properties":{"create":{"type":"number"},"modify":{"type":"number"},"delete":{"type":"number"},"move":{"type":"number"},"errors":{"type":"number"}},"required":["create","modify","delete","move","errors"]},"changes":{"type":"object","properties":{"create":{"type":"array","items":{"type":"object"}},"modify":{"type":"array","items":{"type":"object"}},"delete":{"type":"array","items":{"type":"object"}},"move":{"type":"array","items":{"type":"object"}}},"required":["create","modify","delete","move"]},"errors":{"type":"array","items":{"type":"object","properties":{"target":{"type":"string"},"error":{"type":"string"}},"required":["target","error"]}},"warnings":{"type":"array","items":{"type":"string"}}},"required":["dryRun","planId","tool","preview","summary","changes","errors","warnings"]}]}},
+  {"name":"batch_clone","description":"Clone a template node multiple times with optional position offset. For large counts, IDs are optional and can be truncated to keep payloads small.","inputSchema":{"type":"object","properties":{"templateId":{"type":"string"},"count":{"type":"number"},"offsetX":{"type":"number","default":200},"offsetY":{"type":"number","default":0},"gridColumns":{"type":"number","default":5},"includeIds":{"type":"boolean","default":false,"description":"Whether to include cloned node IDs in the response."},"maxReturnedIds":{"type":"number","default":100,"minimum":0,"maximum":5000,"description":"Maximum number of IDs returned when includeIds=true."},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["templateId","count"]}},
+  {"name":"batch_rename","description":"Batch rename nodes with pattern support.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"pattern":{"type":"string","description":"Name pattern with {index} placeholder"},"startIndex":{"type":"number","default":1},"atomic":{"type":"boolean","default":false,"description":"Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","pattern"]}},
+  {"name":"batch_delete","description":"Batch delete multiple nodes safely.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"confirm":{"type":"boolean","default":false},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"create_component_from_nodes","description":"Convert multiple nodes into a component. Can organize similar nodes automatically.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"name":{"type":"string"},"organize":{"type":"boolean","default":true,"description":"Organize components on a dedicated page"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"create_variant_set","description":"Create a component set with variants from multiple components.","inputSchema":{"type":"object","properties":{"componentIds":{"type":"array","items":{"type":"string"}},"propertyName":{"type":"string"},"propertyValues":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentIds","propertyName","propertyValues"]}},
+  {"name":"auto_create_variants","description":"Intelligently analyze a component and auto-generate variants based on property differences.","inputSchema":{"type":"object","properties":{"componentId":{"type":"string"},"detectProperties":{"type":"array","items":{"type":"string"},"default":["fills","text","visibility"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentId"]}},
+  {"name":"merge_to_component","description":"Intelligently merge similar nodes into a component, creating instances to replace originals.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"smartMatch":{"type":"boolean","default":true,"description":"Auto-group similar nodes"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"detach_instance","description":"Detach component instances and optionally delete the main component.","inputSchema":{"type":"object","properties":{"instanceIds":{"type":"array","items":{"type":"string"}},"deleteMainComponent":{"type":"boolean","default":false},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["instanceIds"]}},
+  {"name":"swap_component","description":"Swap multiple instances to a different component.","inputSchema":{"type":"object","properties":{"instanceIds":{"type":"array","items":{"type":"string"}},"newComponentKey":{"type":"string"},"preserveOverrides":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["instanceIds","newComponentKey"]}},
+  {"name":"create_interaction","description":"Create a prototype interaction between two nodes (strict mode). Source must support reactions (recommended FRAME/INSTANCE). Supported trigger types: ON_CLICK, ON_HOVER, ON_PRESS, AFTER_TIMEOUT, MOUSE_UP, MOUSE_DOWN, MOUSE_ENTER, MOUSE_LEAVE, ON_MEDIA_END. ON_DRAG/keyboard triggers are currently unsupported and are rejected explicitly. Supported action types: NODE, BACK, CLOSE, URL. For NODE actions, destinationId/navigation/transition must be valid. Unsupported types are rejected with explicit errors (no silent downgrade).","inputSchema":{"type":"object","properties":{"fromNodeId":{"type":"string"},"toNodeId":{"type":"string"},"trigger":{"type":"object","properties":{"type":{"type":"string","enum":["ON_CLICK","ON_HOVER","ON_PRESS","AFTER_TIMEOUT","MOUSE_UP","MOUSE_DOWN","MOUSE_ENTER","MOUSE_LEAVE","ON_MEDIA_END"]},"delay":{"type":"number"},"timeout":{"type":"number"}}},"action":{"type":"object","properties":{"type":{"type":"string","enum":["NODE","BACK","CLOSE","URL","OPEN_LINK"]},"navigation":{"type":"string","enum":["NAVIGATE","OVERLAY","SWAP","SCROLL_TO","CHANGE_TO"]},"destinationId":{"type":"string"},"url":{"type":"string"},"animation":{"type":"object","properties":{"type":{"type":"string","enum":["DISSOLVE","SMART_ANIMATE","MOVE_IN","MOVE_OUT","PUSH","SLIDE_IN","SLIDE_OUT"]},"direction":{"type":"string","enum":["LEFT","RIGHT","TOP","BOTTOM"]},"matchLayers":{"type":"boolean"},"duration":{"type":"number"},"easing":{"type":"string","enum":["EASE_IN","EASE_OUT","EASE_IN_AND_OUT","LINEAR"]}}},"transition":{"type":"object"},"preserveScrollPosition":{"type":"boolean"},"resetScrollPosition":{"type":"boolean"},"resetVideoPosition":{"type":"boolean"},"resetInteractiveComponents":{"type":"boolean"}}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["fromNodeId","toNodeId"]}},
+  {"name":"batch_connect","description":"Batch create prototype connections.","inputSchema":{"type":"object","properties":{"connections":{"type":"array","items":{"type":"object","properties":{"fromNodeId":{"type":"string"},"toNodeId":{"type":"string"},"trigger":{"type":"object"},"action":{"type":"object"}}}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["connections"]}},
+  {"name":"copy_prototype","description":"Copy prototype interactions from one node to others.","inputSchema":{"type":"object","properties":{"sourceNodeId":{"type":"string"},"targetNodeIds":{"type":"array","items":{"type":"string"}},"adjustTargets":{"type":"boolean","default":true,"description":"Auto-adjust destination based on target context"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["sourceNodeId","targetNodeIds"]}},
+  {"name":"create_flow","description":"Create a prototype flow with a starting frame.","inputSchema":{"type":"object","properties":{"startFrameId":{"type":"string"},"name":{"type":"string"},"description":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["startFrameId","name"]}},
+  {"name":"create_color_style","description":"Create a color style from a node or direct values.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"color":{"type":"object","properties":{"r":{},"g":{},"b":{},"a":{}}},"sourceNodeId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}}}},
+  {"name":"create_text_style","description":"Create a text style from a text node.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"sourceNodeId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["name","sourceNodeId"]}},
+  {"name":"apply_style_to_nodes","description":"Apply a style to multiple nodes.","inputSchema":{"type":"object","properties":{"styleId":{"type":"string"},"nodeIds":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["styleId","nodeIds"]}},
+  {"name":"sync_styles_to_library","description":"Sync local styles to a team library.","inputSchema":{"type":"object","properties":{"styleIds":{"type":"array","items":{"type":"string"}},"libraryFileKey":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["styleIds"]}},
+  {"name":"analyze_duplicates","description":"Analyze duplicate/similar elements and return consolidation opportunities. Scope can target current page, whole document, or explicit pageIds/pageNames. Supports output caps for large files.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"document"},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to analyze. If provided, takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope."},"threshold":{"type":"number","default":0.9},"minOccurrences":{"type":"number","default":2},"maxGroups":{"type":"number","default":100,"minimum":1,"maximum":1000,"description":"Maximum duplicate groups returned."},"maxNodesPerGroup":{"type":"number","default":50,"minimum":1,"maximum":200,"description":"Maximum node references returned per duplicate group."},"maxAnalyzedNodes":{"type":"number","default":5000,"minimum":100,"maximum":50000,"description":"Hard limit for analyzed nodes to prevent timeouts on very large documents."}}},"outputSchema":{"type":"object","properties":{"duplicates":{"type":"array","items":{"type":"object","properties":{"similarity":{"type":"number"},"count":{"type":"number"},"nodes":{"type":"array","items":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"}},"required":["id","name"]}},"nodesTruncated":{"type":"boolean"},"suggestedAction":{"type":"string","enum":["Create Component","Review"]}},"required":["similarity","count","nodes","nodesTruncated","suggestedAction"]}},"totalAnalyzed":{"type":"number"},"analyzedNodesTruncated":{"type":"boolean"},"maxAnalyzedNodes":{"type":"number"},"potentialSavings":{"type":"number","description":"Nodes that would disappear if every group became one component"},"returnedGroups":{"type":"number"},"totalGroups":{"type":"number"},"truncatedGroups":{"type":"boolean"},"maxGroups":{"type":"number"},"maxNodesPerGroup":{"type":"number"}},"required":["duplicates","totalAnalyzed","potentialSavings","returnedGroups","totalGroups"]}},
+  {"name":"suggest_component_structure","description":"Analyze design and suggest optimal component structure. Scope can target current page, whole document, or explicit pageIds/pageNames.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"document"},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to analyze. If provided, takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope."},"maxDepth":{"type":"number","default":3}}}},
+  {"name":"generate_naming_scheme","description":"Generate consistent naming scheme for nodes based on patterns.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"convention":{"type":"string","enum":["semantic","functional","atomic"],"default":"semantic"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"check_consistency","description":"Check design consistency (spacing, colors, typography). Scope can target current page, whole document, or explicit pageIds/pageNames.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"document"},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to analyze. If provided, takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope."},"checks":{"type":"array","items":{"type":"string"},"default":["colors","typography","spacing"]}}}},
+  {"name":"extract_palette","description":"Extract the color palette in use: visible solid fills (and strokes) are clustered in CIELAB by CIEDE2000 distance. Each palette color reports its most used hex, a name and hue family, usage count and share, the near-duplicate hexes merged into it, OKLCH and HSL values, and the node ids using it.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"page"},"pageIds":{"type":"array","items":{"type":"string"}},"pageNames":{"type":"array","items":{"type":"string"}},"nodeIds":{"type":"array","items":{"type":"string"},"description":"Nodes (and their subtrees) to scan (default: scope)"},"maxColors":{"type":"number","default":12,"description":"Merge the closest clusters until at most this many colors remain"},"maxDeltaE":{"type":"number","default":6,"description":"Colors within this ΔE2000 of a cluster join it (1 ≈ just noticeable)"},"includeStrokes":{"type":"boolean","default":true},"maxNodeIdsPerColor":{"type":"number","default":50}}}},
+  {"name":"fix_consistency","description":"Fix consistency issues instead of only reporting them: snap near-duplicate solid colors to the closest local paint style or color variable (CIEDE2000 ΔE), snap unstyled font sizes to the nearest step of the text style scale, and round auto layout spacing to the grid. Changes are journaled for undo_operations; use dryRun to preview.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"},"description":"Nodes (and their subtrees) to fix (default: scope)"},"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"page"},"pageIds":{"type":"array","items":{"type":"string"}},"pageNames":{"type":"array","items":{"type":"string"}},"checks":{"type":"array","items":{"type":"string","enum":["colors","typography","spacing"]},"default":["colors","typography","spacing"]},"maxDeltaE":{"type":"number","default":5,"description":"Largest ΔE2000 at which a color snaps to a token (1 ≈ just noticeable)"},"fontScale":{"type":"array","items":{"type":"number"},"description":"Font size steps (default: sizes of local text styles)"},"maxFontSizeDelta":{"type":"number","default":4,"description":"Only snap font sizes within this many px of a step"},"grid":{"type":"number","default":4},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}}}},
+  {"name":"lint_design","description":"Rule-based design linter. Rules: unstyled-fill, detached-text-style, off-grid-spacing, off-scale-radius, hidden-layer, empty-frame, default-name, instance-overrides. Each finding carries a node id and, where possible, an autofix (apply_fill_style, apply_text_style, set_properties, rename, delete, reset_overrides); fix: true applies them. Hidden layers inside components or bound to a visibility property are not reported.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"page"},"pageIds":{"type":"array","items":{"type":"string"}},"pageNames":{"type":"array","items":{"type":"string"}},"config":{"type":"object","description":"Lint config (object or JSON string): { rules: { \"<rule>\": false | true | { severity, ...options } } }. Options: unstyled-fill.allowedColors (hex), off-grid-spacing.grid (default 4) and allowedValues, off-scale-radius.scale (default [0,2,4,6,8,12,16,24,32]), instance-overrides.allowedFields (default characters, text, visible, name, componentProperties). Rules not listed stay enabled."},"maxFindings":{"type":"number","default":500},"fix":{"type":"boolean","default":false,"description":"Apply the autofixes of the findings"},"fixRules":{"type":"array","items":{"type":"string"},"description":"Only apply autofixes for these rules (with fix). Default: all enabled rules except the destructive delete (hidden-layer, empty-frame) and reset_overrides (instance-overrides) fixes, which run only when their rule is listed here."},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}}}},
+  {"name":"audit_accessibility","description":"Audit accessibility: WCAG 2.x contrast between each text fill and its effective background (ancestors and sibling layers behind it, blended), touch targets under the minimum on button-like nodes, text below a minimum size, and images without a descriptive name. Returns issues with severity, node id and a suggested fix; optionally selects the offending nodes.","inputSchema":{"type":"object","properties":{"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"page"},"pageIds":{"type":"array","items":{"type":"string"},"description":"Optional explicit page IDs to audit. If provided, takes precedence over scope."},"pageNames":{"type":"array","items":{"type":"string"},"description":"Optional explicit page names to audit (case-insensitive). If provided, takes precedence over scope."},"checks":{"type":"array","items":{"type":"string","enum":["contrast","touch_targets","text_size","image_descriptions"]},"default":["contrast","touch_targets","text_size","image_descriptions"]},"level":{"type":"string","enum":["AA","AAA"],"default":"AA","description":"WCAG contrast level (AA: 4.5/3 for large text, AAA: 7/4.5)"},"minTouchTarget":{"type":"number","default":44},"minFontSize":{"type":"number","default":12},"maxIssues":{"type":"number","default":500},"selectOffenders":{"type":"boolean","default":false,"description":"Select the offending nodes on canvas (first offender page)"},"focus":{"type":"boolean","default":true,"description":"Zoom to the selection (with selectOffenders)"}}}},
+  {"name":"fix_contrast","description":"Fix text that fails WCAG contrast (same measurement as audit_accessibility). For each failing text node the nearest passing color is chosen, preferring local color variables and solid paint styles over a raw hex; a chosen variable is bound to the fill and a chosen style is applied. Use dryRun to get the plan first.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"},"description":"Text nodes or containers to fix (default: scope)"},"scope":{"type":"string","enum":["page","current_page","currentPage","current-page","selected_nodes","selected-nodes","selectedNodes","selection","document"],"default":"page"},"pageIds":{"type":"array","items":{"type":"string"}},"pageNames":{"type":"array","items":{"type":"string"}},"level":{"type":"string","enum":["AA","AAA"],"default":"AA"},"preferTokens":{"type":"boolean","default":true,"description":"Use a passing color variable or paint style when one is close enough"},"maxTokenDistance":{"type":"number","default":0.5,"description":"Max RGB distance (0-1.73) between the original color and a token; farther tokens fall back to raw hex"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}}}},
+  {"name":"select_nodes","description":"Select nodes by IDs on canvas. Selection is applied on the active page; cross-page IDs are reported in skippedCrossPageIds. Can optionally append to current selection and focus viewport.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"append":{"type":"boolean","default":false},"focus":{"type":"boolean","default":true}},"required":["nodeIds"]}},
+  {"name":"set_focus","description":"Set viewport focus by node(s) or by canvas coordinates.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"nodeIds":{"type":"array","items":{"type":"string"}},"x":{"type":"number"},"y":{"type":"number"},"zoom":{"type":"number"}}}},
+  {"name":"move_nodes","description":"Move multiple nodes by delta offsets. Operates by node ID globally (can move nodes on different pages in one call).","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"deltaX":{"type":"number","default":0},"deltaY":{"type":"number","default":0},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"set_node_position","description":"Set absolute x/y position for a single node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"x":{"type":"number"},"y":{"type":"number"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","x","y"]}},
+  {"name":"arrange_nodes","description":"Auto-arrange nodes into row/column/grid with optional collision avoidance, geometric quality checks, and optional before/after visual snapshots. Returns strict diagnostics via missingIds + missingDetails (reasons: not_found/not_positionable/missing_bounds/cross_page_filtered).","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"},"description":"Optional. If omitted, uses current selection."},"layout":{"type":"string","enum":["row","column","grid"],"default":"row"},"columns":{"type":"number","description":"Used when layout=grid. Auto-calculated if omitted."},"groupBy":{"type":"string","enum":["none","type","typeAndComponent"],"default":"none","description":"When set to type/typeAndComponent, nodes are grouped by layer type and optionally component name before arranging."},"spacingX":{"type":"number","default":120},"spacingY":{"type":"number","default":120},"startX":{"type":"number","description":"Optional fixed start X. Defaults to min x of selected nodes."},"startY":{"type":"number","description":"Optional fixed start Y. Defaults to min y of selected nodes."},"withinContainerId":{"type":"string","description":"Optional container/frame to keep nodes inside and parent under."},"placementPolicy":{"type":"string","enum":["preserve_lane","min_move","strict_no_overlap"],"default":"min_move","description":"Collision resolution strategy; min_move keeps nodes closer to original area."},"avoidOverlaps":{"type":"boolean","default":true,"description":"When true, shifts candidates to avoid overlaps with non-target nodes."},"verifyVisual":{"type":"boolean","default":false,"description":"When true, capture before/after snapshots and include quality metrics."},"snapshotMode":{"type":"string","enum":["selection","region","page"],"default":"selection","description":"Capture mode used when verifyVisual=true."},"snapshotScale":{"type":"number","default":1,"description":"Export scale for snapshots."},"focus":{"type":"boolean","default":true,"description":"Focus viewport to arranged nodes after operation."},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}}}},
+  {"name":"containerize_nodes","description":"Reparent nodes into a target container while preserving their visual position as much as possible.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"containerId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","containerId"]}},
+  {"name":"validate_structure","description":"Validate container membership, bounds containment, and overlap for a set of nodes. Useful after layout operations.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"},"description":"Optional. If omitted, uses current selection."},"containerId":{"type":"string","description":"Optional container to validate parent/inside status."}}}},
+  {"name":"capture_view","description":"Capture a visual snapshot as PNG for selected nodes, a region, or current page. Returns metadata plus the full PNG as an image content block.","inputSchema":{"type":"object","properties":{"mode":{"type":"string","enum":["selection","region","page"],"default":"selection"},"nodeIds":{"type":"array","items":{"type":"string"},"description":"Optional for mode=selection. Defaults to current selection."},"x":{"type":"number","description":"Required for mode=region."},"y":{"type":"number","description":"Required for mode=region."},"width":{"type":"number","description":"Required for mode=region."},"height":{"type":"number","description":"Required for mode=region."},"scale":{"type":"number","default":1},"includeBase64":{"type":"boolean","default":true,"description":"Return the captured PNG as an image content block; false returns metadata only."},"outputDir":{"type":"string","description":"Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it"}}}},
+  {"name":"get_document_info","description":"Get document/page structure with configurable output caps to avoid oversized payloads on large files.","inputSchema":{"type":"object","properties":{"includeChildren":{"type":"boolean","default":true},"maxDepth":{"type":"number","default":10},"maxPages":{"type":"number","default":100,"minimum":1,"maximum":500,"description":"Maximum pages returned."},"maxNodesPerPage":{"type":"number","default":1200,"minimum":100,"maximum":10000,"description":"Maximum descendant nodes returned per page when includeChildren=true."},"maxChildrenPerNode":{"type":"number","default":200,"minimum":20,"maximum":1000,"description":"Maximum direct children returned for each node in tree output."}}}},
+  {"name":"get_node_info","description":"Get detailed info about a node including children.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"includeChildren":{"type":"boolean","default":true}},"required":["nodeId"]},"outputSchema":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"},"type":{"type":"string","description":"Figma node type, e.g. FRAME, TEXT, INSTANCE"},"visible":{"type":"boolean"},"locked":{"type":"boolean"},"opacity":{"type":"number"},"blendMode":{"type":"string"},"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"rotation":{"type":"number"},"fills":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","description":"SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN"},"color":{"type":"object","properties":{"r":{"type":"number"},"g":{"type":"number"},"b":{"type":"number"}},"required":["r","g","b"]},"opacity":{"type":"number"},"visible":{"type":"boolean"},"blendMode":{"type":"string"}},"required":["type"]}},"strokes":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","description":"SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN"},"color":{"type":"object","properties":{"r":{"type":"number"},"g":{"type":"number"},"b":{"type":"number"}},"required":["r","g","b"]},"opacity":{"type":"number"},"visible":{"type":"boolean"},"blendMode":{"type":"string"}},"required":["type"]}},"strokeWeight":{"type":"number"},"strokeAlign":{"type":"string","enum":["INSIDE","OUTSIDE","CENTER"]},"cornerRadius":{"type":["number","array"],"items":{"type":"number"},"description":"Uniform radius, or [topLeft, topRight, bottomRight, bottomLeft]"},"layoutMode":{"type":"string","enum":["NONE","HORIZONTAL","VERTICAL","GRID"]},"primaryAxisAlignItems":{"type":"string"},"counterAxisAlignItems":{"type":"string"},"paddingTop":{"type":"number"},"paddingRight":{"type":"number"},"paddingBottom":{"type":"number"},"paddingLeft":{"type":"number"},"itemSpacing":{"type":"number"},"children":{"type":"array","items":{"type":"string"},"description":"Direct child ids (only when children were requested)"},"parent":{"type":"string","description":"Parent node id"},"mainComponent":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"},"type":{"type":"string","enum":["COMPONENT","COMPONENT_SET"]}},"required":["id","name","type"]},"variantProperties":{"type":"object","additionalProperties":{"type":"string"}},"reactions":{"type":"array","items":{"type":"object"}}},"required":["id","name","type"]}},
+  {"name":"get_selection","description":"Get the current selection on the active page, including node metadata for each selected node","inputSchema":{"type":"object","properties":{"includeChildren":{"type":"boolean","default":false}}},"outputSchema":{"type":"object","properties":{"pageId":{"type":"string"},"pageName":{"type":"string"},"selectedCount":{"type":"number"},"nodeIds":{"type":"array","items":{"type":"string"}},"nodes":{"type":"array","items":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"},"type":{"type":"string","description":"Figma node type, e.g. FRAME, TEXT, INSTANCE"},"visible":{"type":"boolean"},"locked":{"type":"boolean"},"opacity":{"type":"number"},"blendMode":{"type":"string"},"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"rotation":{"type":"number"},"fills":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","description":"SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN"},"color":{"type":"object","properties":{"r":{"type":"number"},"g":{"type":"number"},"b":{"type":"number"}},"required":["r","g","b"]},"opacity":{"type":"number"},"visible":{"type":"boolean"},"blendMode":{"type":"string"}},"required":["type"]}},"strokes":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","description":"SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN"},"color":{"type":"object","properties":{"r":{"type":"number"},"g":{"type":"number"},"b":{"type":"number"}},"required":["r","g","b"]},"opacity":{"type":"number"},"visible":{"type":"boolean"},"blendMode":{"type":"string"}},"required":["type"]}},"strokeWeight":{"type":"number"},"strokeAlign":{"type":"string","enum":["INSIDE","OUTSIDE","CENTER"]},"cornerRadius":{"type":["number","array"],"items":{"type":"number"},"description":"Uniform radius, or [topLeft, topRight, bottomRight, bottomLeft]"},"layoutMode":{"type":"string","enum":["NONE","HORIZONTAL","VERTICAL","GRID"]},"primaryAxisAlignItems":{"type":"string"},"counterAxisAlignItems":{"type":"string"},"paddingTop":{"type":"number"},"paddingRight":{"type":"number"},"paddingBottom":{"type":"number"},"paddingLeft":{"type":"number"},"itemSpacing":{"type":"number"},"children":{"type":"array","items":{"type":"string"},"description":"Direct child ids (only when children were requested)"},"parent":{"type":"string","description":"Parent node id"},"mainComponent":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"},"type":{"type":"string","enum":["COMPONENT","COMPONENT_SET"]}},"required":["id","name","type"]},"variantProperties":{"type":"object","additionalProperties":{"type":"string"}},"reactions":{"type":"array","items":{"type":"object"}}},"required":["id","name","type"]}}},"required":["pageId","pageName","selectedCount","nodeIds","nodes"]}},
+  {"name":"set_multiple_text_contents","description":"Update multiple text nodes at once.","inputSchema":{"type":"object","properties":{"updates":{"type":"array","items":{"type":"object","properties":{"nodeId":{"type":"string"},"text":{"type":"string"}}}},"atomic":{"type":"boolean","default":false,"description":"Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["updates"]}},
+  {"name":"undo_operations","description":"Revert operations recorded in the plugin operation journal. Every mutating tool result carries an operationId; pass it to revert exactly that operation, or omit it to revert the most recent `steps` operations. Reports anything that could not be restored.","inputSchema":{"type":"object","properties":{"operationId":{"type":"string","description":"operationId returned by a mutating tool"},"steps":{"type":"number","default":1,"description":"Number of recent operations to revert when operationId is omitted (max 20)"},"force":{"type":"boolean","default":false,"description":"Revert even if the affected nodes changed after the operation"}}}},
+  {"name":"redo_operations","description":"Re-apply operations previously reverted with undo_operations, using the same operation journal.","inputSchema":{"type":"object","properties":{"operationId":{"type":"string","description":"operationId of an undone operation"},"steps":{"type":"number","default":1,"description":"Number of most recently undone operations to re-apply when operationId is omitted (max 20)"},"force":{"type":"boolean","default":false,"description":"Re-apply even if the affected nodes changed after the undo"}}}},
+  {"name":"list_operation_journal","description":"List recent journaled operations (newest first) with their operationId, tool, status and change counts.","inputSchema":{"type":"object","properties":{"limit":{"type":"number","default":20,"description":"Maximum entries to return (max 50)"},"includeDetails":{"type":"boolean","default":false,"description":"Include affected node ids per entry"}}}},
+  {"name":"apply_plan","description":"Execute a change plan returned by a dryRun call exactly as planned. Fails without changing anything if any planned target changed since the dry run, or if the tool would now make different changes than planned (new or edited nodes in its scope). Plans with a partial preview also fail if anything on the affected pages changed.","inputSchema":{"type":"object","properties":{"planId":{"type":"string","description":"planId from a dryRun result"}},"required":["planId"]}},
+  {"name":"apply_style_preset","description":"Apply designer-oriented visual presets (gradient button, glass panel, glow, shadow, blur) to multiple nodes with parameter overrides.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"preset":{"type":"string","enum":["button_gradient_primary","button_gradient_vivid","card_soft_shadow","panel_glass","hero_glow","backdrop_blur_soft"]},"options":{"type":"object"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","preset"]}},
+  {"name":"frame_to_components","description":"Intelligently split a Frame's children into components. Analyzes children, groups similar ones, and converts them to components.","inputSchema":{"type":"object","properties":{"frameId":{"type":"string","description":"ID of the Frame to analyze"},"strategy":{"type":"string","enum":["smart","by_type","by_name","all_children"],"default":"smart","description":"Grouping strategy"},"groupSimilar":{"type":"boolean","default":true},"createVariants":{"type":"boolean","default":false},"organizeOnPage":{"type":"boolean","default":true},"minSize":{"type":"object","properties":{"width":{"type":"number"},"height":{"type":"number"}},"default":{"width":50,"height":30}},"excludeTypes":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["frameId"]}},
+  {"name":"analyze_frame_structure","description":"Analyze a Frame's structure and suggest component opportunities.","inputSchema":{"type":"object","properties":{"frameId":{"type":"string"},"detectDuplicates":{"type":"boolean","default":true},"minSimilarity":{"type":"number","default":0.85}},"required":["frameId"]},"outputSchema":{"type":"object","properties":{"frameId":{"type":"string"},"frameName":{"type":"string"},"totalChildren":{"type":"number"},"childTypes":{"type":"object","additionalProperties":{"type":"number"},"description":"Direct child count per node type"},"sizeDistribution":{"type":"object","properties":{"small":{"type":"number"},"medium":{"type":"number"},"large":{"type":"number"}},"required":["small","medium","large"]},"componentCandidates":{"type":"array","items":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"},"type":{"type":"string"},"width":{"type":"number"},"height":{"type":"number"}},"required":["id","name","type","width","height"]}},"duplicateGroups":{"type":"array","items":{"type":"object","properties":{"count":{"type":"number"},"nodes":{"type":"array","items":{"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"}},"required":["id","name"]}},"suggestedName":{"type":"string"}},"required":["count","nodes","suggestedName"]}},"recommendations":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","enum":["merge_duplicates","create_components"]},"priority":{"type":"string","enum":["high","medium","low"]},"description":{"type":"string"},"affectedNodes":{"type":"number"}},"required":["type","priority","description"]}}},"required":["frameId","frameName","totalChildren","childTypes","sizeDistribution","componentCandidates","duplicateGroups","recommendations"]}},
+  {"name":"cross_page_copy","description":"Copy nodes from one page to another.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"sourcePageId":{"type":"string"},"targetPageId":{"type":"string"},"maintainPosition":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","sourcePageId","targetPageId"]}},
+  {"name":"cross_page_move","description":"Move nodes from one page to another.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"sourcePageId":{"type":"string"},"targetPageId":{"type":"string"},"maintainPosition":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","sourcePageId","targetPageId"]}},
+  {"name":"batch_edit_across_pages","description":"Apply the same edits to nodes across multiple pages.","inputSchema":{"type":"object","properties":{"operations":{"type":"array","items":{"type":"object","properties":{"pageId":{"type":"string"},"nodeId":{"type":"string"},"changes":{"type":"object"}}}},"atomic":{"type":"boolean","default":false,"description":"Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["operations"]},"outputSchema":{"type":"object","anyOf":[{"type":"object","properties":{"success":{"type":"number","description":"Operations that succeeded"},"failed":{"type":"number","description":"Operations that failed"},"createdIds":{"type":"array","items":{"type":"string"},"description":"batch_create: ids of the created nodes, in operation order"},"errors":{"type":"array","items":{"type":"object","properties":{"error":{"type":"string"},"nodeId":{"type":"string"},"operation":{"type":"object","description":"The failed batch_create operation"}},"required":["error"]},"description":"First 10 failures"},"cancelled":{"type":"boolean","description":"batch_create: stopped by cancel_operation"},"skipped":{"type":"number","description":"batch_create: operations not run because of cancellation"},"results":{"type":"array","items":{"type":"object"}},"operationId":{"type":"string","description":"Journal id for undo_operations"}},"required":["success","failed","errors"]},{"type":"object","properties":{"atomic":{"type":"boolean","enum":[true]},"committed":{"type":"boolean","enum":[false]},"failedOperation":{"type":"object","properties":{"index":{"type":"number"},"target":{"type":"string"},"error":{"type":"string"}},"required":["index","target","error"]},"rolledBack":{"type":"boolean"},"rollback":{"type":"object","properties":{"reverted":{"type":"object","additionalProperties":{"type":"number"}},"failed":{"type":"array","items":{"type":"object"}}},"required":["reverted","failed"]}},"required":["atomic","committed","failedOperation","rolledBack","rollback"]},{"type":"object","properties":{"dryRun":{"type":"boolean","enum":[true]},"planId":{"type":"string"},"tool":{"type":"string"},"createdAt":{"type":"number"},"preview":{"type":"string","enum":["full","partial"]},"summary":{"type":"object","properties":{"create":{"type":"number"},"modify":{"type":"number"},"delete":{"type":"number"},"move":{"type":"number"},"errors":{"type":"number"}},"required":["create","modify","delete","move","errors"]},"changes":{"type":"object","properties":{"create":{"type":"array","items":{"type":"object"}},"modify":{"type":"array","items":{"type":"object"}},"delete":{"type":"array","items":{"type":"object"}},"move":{"type":"array","items":{"type":"object"}}},"required":["create","modify","delete","move"]},"errors":{"type":"array","items":{"type":"object","properties":{"target":{"type":"string"},"error":{"type":"string"}},"required":["target","error"]}},"warnings":{"type":"array","items":{"type":"string"}}},"required":["dryRun","planId","tool","preview","summary","changes","errors","warnings"]}]}},
+  {"name":"explode_component_set","description":"Explode a component set into separate components.","inputSchema":{"type":"object","properties":{"componentSetId":{"type":"string"},"convertInstancesToMain":{"type":"boolean","default":false},"organizeOnPage":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentSetId"]}},
+  {"name":"detach_and_organize","description":"Detach instances and organize the detached nodes.","inputSchema":{"type":"object","properties":{"instanceIds":{"type":"array","items":{"type":"string"}},"deleteMainComponent":{"type":"boolean","default":false},"organizeBy":{"type":"string","enum":["type","name","size","page_location"],"default":"type"},"createBackup":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["instanceIds"]}},
+  {"name":"convert_instances_to_components","description":"Convert existing instances to new independent components.","inputSchema":{"type":"object","properties":{"instanceIds":{"type":"array","items":{"type":"string"}},"namingPattern":{"type":"string","default":"{original}_Component"},"organizeOnPage":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["instanceIds"]}},
+  {"name":"split_component_by_variants","description":"Split a component with variants back into separate components.","inputSchema":{"type":"object","properties":{"componentSetId":{"type":"string"},"keepComponentSet":{"type":"boolean","default":false},"updateInstances":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentSetId"]}},
+  {"name":"merge_components_to_set","description":"Merge multiple standalone components into a variant set.","inputSchema":{"type":"object","properties":{"componentIds":{"type":"array","items":{"type":"string"}},"variantProperty":{"type":"string","default":"Type"},"autoDetectValues":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentIds"]}},
+  {"name":"create_ellipse","description":"Create an ellipse or circle.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"name":{"type":"string"},"fills":{"type":"array","description":"Paint array. Supports hex strings and paint objects."},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_line","description":"Create a line.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"strokeWeight":{"type":"number"},"strokes":{"type":"array","description":"Paint array. Supports hex strings and paint objects."},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_polygon","description":"Create a regular polygon.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"pointCount":{"type":"number","default":5},"fills":{"type":"array","description":"Paint array. Supports hex strings and paint objects."},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_star","description":"Create a star shape.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"pointCount":{"type":"number","default":5},"innerRadius":{"type":"number","default":0.5},"fills":{"type":"array","description":"Paint array. Supports hex strings and paint objects."},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_vector","description":"Create a vector path. Supports vector path aliases (`vectorPaths`/`vectorPath`/`path`/`svgPath`/`d`) with object or SVG-string inputs.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"vectorPaths":{"type":["array","object","string"],"description":"Can be a VectorPath object, array of VectorPath objects, or SVG path string(s)."},"vectorPath":{"type":["object","string"],"description":"Alias of vectorPaths."},"path":{"type":["object","string"],"description":"Alias of vectorPaths."},"svgPath":{"type":["object","string"],"description":"Alias of vectorPaths."},"d":{"type":["object","string"],"description":"Alias of vectorPaths."},"fills":{"type":"array","description":"Paint array. Supports hex strings and paint objects."},"strokes":{"type":"array","description":"Paint array. Supports hex strings and paint objects."},"strokeWeight":{"type":"number"},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"import_svg","description":"Import SVG markup as editable vector layers (figma.createNodeFromSvg). The result is a frame sized to the SVG; optionally rescale it, flatten its layers into one vector, or convert it into a component.","inputSchema":{"type":"object","properties":{"svg":{"type":"string","description":"Full SVG document markup"},"name":{"type":"string"},"parentId":{"type":"string"},"x":{"type":"number"},"y":{"type":"number"},"scale":{"type":"number","default":1,"description":"Uniform scale factor (strokes and effects scale too)"},"flatten":{"type":"boolean","default":false,"description":"Merge all layers into a single vector"},"asComponent":{"type":"boolean","default":false,"description":"Convert the imported frame into a component"},"description":{"type":"string","description":"Component description (with asComponent)"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["svg"]}},
+  {"name":"import_html_layout","description":"Recreate a web page layout from a serialized DOM snapshot, offline. Each element becomes a frame (block and flex containers get auto layout with padding, gap and alignment; other containers keep absolute positions), text elements become text nodes with their fonts loaded, and background colors and images become fills. Images are taken from the snapshot's embedded base64 data; URLs are only fetched with fetchImages.","inputSchema":{"type":"object","properties":{"layout":{"type":"object","description":"Root layout node, or { root, images }. A node is { tag?, name?, box: { x, y, width, height } (page coordinates), styles?: computed CSS in camelCase (display, flexDirection, gap, padding*, justifyContent, alignItems, backgroundColor, backgroundImage, color, font*, lineHeight, borderRadius, border*, opacity, overflow, position), text?: string (leaf text run), image?: URL, children? }"},"images":{"type":"object","description":"Map of image URL to base64 or data: URI bytes (merged with layout.images)"},"fetchImages":{"type":"boolean","default":false,"description":"Fetch images missing from the snapshot over the network (needs manifest networkAccess)"},"parentId":{"type":"string"},"name":{"type":"string","description":"Name of the root frame (default: root tag or name)"},"x":{"type":"number","default":0},"y":{"type":"number","default":0},"maxNodes":{"type":"number","default":2000},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["layout"]}},
+  {"name":"create_group","description":"Group multiple nodes together.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"create_section","description":"Create a section container.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"name":{"type":"string"},"fills":{"type":"array"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_slice","description":"Create a slice for export.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"name":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_connector","description":"Create a connector line between nodes.","inputSchema":{"type":"object","properties":{"startNodeId":{"type":"string"},"endNodeId":{"type":"string"},"startMagnet":{"type":"string","enum":["TOP","BOTTOM","LEFT","RIGHT","AUTO"]},"endMagnet":{"type":"string","enum":["TOP","BOTTOM","LEFT","RIGHT","AUTO"]},"strokeWeight":{"type":"number"},"strokes":{"type":"array"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["startNodeId","endNodeId"]}},
+  {"name":"create_sticky","description":"Create a sticky note (FigJam).","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"text":{"type":"string"},"color":{"type":"string","enum":["YELLOW","GREEN","BLUE","ORANGE","PINK","PURPLE","GRAY"]},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y"]}},
+  {"name":"create_shape_with_text","description":"Create a shape with text (FigJam).","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"width":{"type":"number"},"height":{"type":"number"},"shapeType":{"type":"string","enum":["SQUARE","ELLIPSE","ROUNDED_RECTANGLE","DIAMOND","TRIANGLE_UP","TRIANGLE_DOWN","PARALLELOGRAM_RIGHT","PARALLELOGRAM_LEFT"]},"text":{"type":"string"},"fills":{"type":"array"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y","width","height"]}},
+  {"name":"create_table","description":"Create a table.","inputSchema":{"type":"object","properties":{"x":{"type":"number"},"y":{"type":"number"},"rowCount":{"type":"number","default":3},"columnCount":{"type":"number","default":3},"cellWidth":{"type":"number","default":100},"cellHeight":{"type":"number","default":40},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["x","y"]}},
+  {"name":"union_nodes","description":"Perform union boolean operation on multiple nodes.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"subtract_nodes","description":"Perform subtract boolean operation on multiple nodes.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"intersect_nodes","description":"Perform intersect boolean operation on multiple nodes.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"exclude_nodes","description":"Perform exclude boolean operation on multiple nodes.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"name":{"type":"string"},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"flatten_nodes","description":"Flatten multiple nodes into a single vector network.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"parentId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"set_constraints","description":"Set constraints for a node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"horizontal":{"type":"string","enum":["MIN","MAX","STRETCH","SCALE","CENTER"]},"vertical":{"type":"string","enum":["MIN","MAX","STRETCH","SCALE","CENTER"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","horizontal","vertical"]}},
+  {"name":"set_layout_grid","description":"Set layout grids for a frame.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"layoutGrids":{"type":"array","items":{"type":"object","properties":{"pattern":{"type":"string","enum":["COLUMNS","ROWS","GRID"]},"sectionSize":{"type":"number"},"visible":{"type":"boolean"},"color":{"type":"object"},"alignment":{"type":"string","enum":["MIN","MAX","STRETCH","CENTER"]},"gutterSize":{"type":"number"},"offset":{"type":"number"},"count":{"type":"number"}}}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","layoutGrids"]}},
+  {"name":"set_effects","description":"Set effects (shadows, blurs) for a node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"effects":{"type":"array","items":{"type":"object","properties":{"type":{"type":"string","enum":["INNER_SHADOW","DROP_SHADOW","LAYER_BLUR","BACKGROUND_BLUR"]},"color":{"type":"object"},"offset":{"type":"object"},"radius":{"type":"number"},"spread":{"type":"number"},"visible":{"type":"boolean"},"blendMode":{"type":"string"}}}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","effects"]}},
+  {"name":"set_export_settings","description":"Set export settings for a node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"exportSettings":{"type":"array","items":{"type":"object","properties":{"suffix":{"type":"string"},"format":{"type":"string","enum":["PNG","SVG","PDF","JPG"]},"constraint":{"type":"object"}}}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","exportSettings"]}},
+  {"name":"set_blend_mode","description":"Set blend mode for a node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"blendMode":{"type":"string","enum":["PASS_THROUGH","NORMAL","DARKEN","MULTIPLY","LINEAR_BURN","COLOR_BURN","LIGHTEN","SCREEN","LINEAR_DODGE","COLOR_DODGE","OVERLAY","SOFT_LIGHT","HARD_LIGHT","DIFFERENCE","EXCLUSION","HUE","SATURATION","COLOR","LUMINOSITY"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","blendMode"]}},
+  {"name":"set_mask","description":"Set or remove mask on a node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"isMask":{"type":"boolean"},"maskType":{"type":"string","enum":["ALPHA","VECTOR","LUMINANCE"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","isMask"]}},
+  {"name":"set_auto_layout","description":"Comprehensive auto layout configuration.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"layoutMode":{"type":"string","enum":["NONE","HORIZONTAL","VERTICAL"]},"primaryAxisAlignItems":{"type":"string","enum":["MIN","MAX","CENTER","SPACE_BETWEEN"]},"counterAxisAlignItems":{"type":"string","enum":["MIN","MAX","CENTER","BASELINE"]},"paddingTop":{"type":"number"},"paddingRight":{"type":"number"},"paddingBottom":{"type":"number"},"paddingLeft":{"type":"number"},"itemSpacing":{"type":"number"},"counterAxisSpacing":{"type":"number"},"layoutWrap":{"type":"string","enum":["NO_WRAP","WRAP"]},"width":{"type":"string","enum":["FIXED","HUG","FILL"]},"height":{"type":"string","enum":["FIXED","HUG","FILL"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","layoutMode"]}},
+  {"name":"remove_auto_layout","description":"Remove auto layout from a frame.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"keepPosition":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId"]}},
+  {"name":"align_nodes","description":"Align multiple nodes.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"alignment":{"type":"string","enum":["TOP_LEFT","TOP_CENTER","TOP_RIGHT","MIDDLE_LEFT","MIDDLE_CENTER","MIDDLE_RIGHT","BOTTOM_LEFT","BOTTOM_CENTER","BOTTOM_RIGHT"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","alignment"]}},
+  {"name":"distribute_nodes","description":"Evenly distribute nodes horizontally or vertically.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"direction":{"type":"string","enum":["HORIZONTAL","VERTICAL"]},"spacing":{"type":"number"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","direction"]}},
+  {"name":"create_effect_style","description":"Create an effect style.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"effects":{"type":"array"},"sourceNodeId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["name"]}},
+  {"name":"create_grid_style","description":"Create a layout grid style.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"layoutGrids":{"type":"array"},"sourceNodeId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["name"]}},
+  {"name":"update_paint_style","description":"Update an existing paint style.","inputSchema":{"type":"object","properties":{"styleId":{"type":"string"},"name":{"type":"string"},"paints":{"type":"array"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["styleId"]}},
+  {"name":"update_text_style","description":"Update an existing text style.","inputSchema":{"type":"object","properties":{"styleId":{"type":"string"},"name":{"type":"string"},"fontName":{"type":"object"},"fontSize":{"type":"number"},"lineHeight":{"type":"object"},"letterSpacing":{"type":"object"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["styleId"]}},
+  {"name":"delete_style","description":"Delete a style.","inputSchema":{"type":"object","properties":{"styleId":{"type":"string"},"detachNodes":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["styleId"]}},
+  {"name":"get_all_styles","description":"Get all styles in the document.","inputSchema":{"type":"object","properties":{"type":{"type":"string","enum":["PAINT","TEXT","EFFECT","GRID"]}}}},
+  {"name":"create_variable","description":"Create a variable.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"type":{"type":"string","enum":["COLOR","FLOAT","STRING","BOOLEAN"]},"value":{},"collectionId":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["name","type","collectionId"]}},
+  {"name":"create_variable_collection","description":"Create a variable collection.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"modes":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["name"]}},
+  {"name":"set_variable_value","description":"Set a variable value for a specific mode.","inputSchema":{"type":"object","properties":{"variableId":{"type":"string"},"modeId":{"type":"string"},"value":{},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["variableId","modeId","value"]}},
+  {"name":"bind_variable_to_node","description":"Bind a variable to a node property.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"variableId":{"type":"string"},"property":{"type":"string","enum":["FILLS","STROKES","EFFECTS","OPACITY","WIDTH","HEIGHT","VISIBLE","TEXT"]},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","variableId","property"]}},
+  {"name":"unbind_variable","description":"Unbind a variable from a node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"property":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeId","property"]}},
+  {"name":"get_all_variables","description":"Get all variables and collections.","inputSchema":{"type":"object"}},
+  {"name":"export_design_tokens","description":"Export variable collections (all modes, with aliases) and paint/text/effect/grid styles as design tokens. Returns generated files: W3C DTCG JSON (default, lossless: per-mode values and Figma ids under $extensions[\"com.figma\"]), Style Dictionary JSON, CSS custom properties, SCSS, or a Tailwind theme extension plus its CSS variables.","inputSchema":{"type":"object","properties":{"format":{"type":"string","enum":["dtcg","style-dictionary","css","scss","tailwind"],"default":"dtcg"},"collections":{"type":"array","items":{"type":"string"},"description":"Variable collection names or ids to export (default: all local collections)"},"includeVariables":{"type":"boolean","default":true},"includeStyles":{"type":"boolean","default":true}}}},
+  {"name":"import_design_tokens","description":"Import DTCG or Style Dictionary tokens into variables and styles. Matches collections, variables and styles by name, creates missing ones, updates changed values per mode, resolves {aliases} into variable aliases and returns a change summary with before/after values. Use dryRun to preview the diff.","inputSchema":{"type":"object","properties":{"tokens":{"type":["object","string"],"description":"Token tree as an object or JSON string (e.g. the tokens.json written by export_design_tokens)"},"format":{"type":"string","enum":["auto","dtcg","style-dictionary"],"default":"auto","description":"auto treats trees with $value as DTCG, otherwise Style Dictionary"},"collection":{"type":"string","description":"Put every variable token in this collection (default: first path segment or $extensions[\"com.figma\"].collection)"},"mode":{"type":"string","description":"Mode that receives plain token values (default: the collection default mode; created if missing)"},"deleteMissing":{"type":"boolean","default":false,"description":"Delete variables and styles absent from the tokens, limited to the collections and style types being imported"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["tokens"]}},
+  {"name":"delete_variable","description":"Delete a variable.","inputSchema":{"type":"object","properties":{"variableId":{"type":"string"},"unbindNodes":{"type":"boolean","default":true},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["variableId"]}},
+  {"name":"create_page","description":"Create a new page.","inputSchema":{"type":"object","properties":{"name":{"type":"string"},"index":{"type":"number"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["name"]}},
+  {"name":"delete_page","description":"Delete a page. If the target is current page, the plugin switches to another page first. Cannot delete the last remaining page.","inputSchema":{"type":"object","properties":{"pageId":{"type":"string"},"confirm":{"type":"boolean","default":false},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["pageId"]}},
+  {"name":"rename_page","description":"Rename a page.","inputSchema":{"type":"object","properties":{"pageId":{"type":"string"},"newName":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["pageId","newName"]}},
+  {"name":"reorder_pages","description":"Reorder pages.","inputSchema":{"type":"object","properties":{"pageIds":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["pageIds"]}},
+  {"name":"duplicate_page","description":"Duplicate a page with all its content.","inputSchema":{"type":"object","properties":{"pageId":{"type":"string"},"newName":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["pageId"]}},
+  {"name":"create_image_fill","description":"Create an image fill from URL or bytes.","inputSchema":{"type":"object","properties":{"url":{"type":"string"},"hash":{"type":"string"},"nodeId":{"type":"string","description":"Node to apply image fill to"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}}}},
+  {"name":"export_node","description":"Export a node as image/SVG/PDF. PNG/JPG are returned as image content blocks, SVG/PDF as embedded resources.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string"},"format":{"type":"string","enum":["PNG","SVG","PDF","JPG"]},"scale":{"type":"number","default":1},"suffix":{"type":"string"},"outputDir":{"type":"string","description":"Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it"}},"required":["nodeId","format"]}},
+  {"name":"export_nodes_batch","description":"Export multiple nodes at once. Each export is returned as an image content block (PNG/JPG) or embedded resource (SVG/PDF).","inputSchema":{"type":"object","properties":{"exports":{"type":"array","items":{"type":"object","properties":{"nodeId":{"type":"string"},"format":{"type":"string"},"scale":{"type":"number"},"suffix":{"type":"string"}}}},"outputDir":{"type":"string","description":"Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it"}},"required":["exports"]}},
+  {"name":"generate_code","description":"Generate code from a frame or other node. html-css walks the node tree and maps auto layout to flexbox, constraints to absolute positioning, fills/strokes/effects to CSS, text styles to typography and bound variables to var(--token, fallback) custom properties (names match export_design_tokens CSS). Returns a self-contained snippet plus the assets (vectors, image fills) to export with export_node.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string","description":"Node to generate (default: first selected node)"},"target":{"type":"string","enum":["html-css"],"default":"html-css"},"assetDir":{"type":"string","default":"assets","description":"Path prefix for asset URLs in the generated code"},"classPrefix":{"type":"string","description":"Prefix for generated class names"},"maxDepth":{"type":"number","default":20},"maxNodes":{"type":"number","default":1000}}}},
+  {"name":"generate_react_component","description":"Generate React/TSX for a component, component set or instance, styled with Tailwind or CSS modules. Variant properties become a typed props interface with one branch per variant; TEXT and BOOLEAN component properties become props, INSTANCE_SWAP properties become ReactNode slots, and nested instances become imports of other generated components (one file each). Uses the same layout and style mapping as generate_code.","inputSchema":{"type":"object","properties":{"nodeId":{"type":"string","description":"COMPONENT, COMPONENT_SET or INSTANCE (default: first selected node)"},"styling":{"type":"string","enum":["tailwind","css-modules"],"default":"tailwind"},"componentName":{"type":"string","description":"Override the generated component name"},"includeDependencies":{"type":"boolean","default":true,"description":"Also generate files for nested component instances"},"maxComponents":{"type":"number","default":20},"assetDir":{"type":"string","default":"assets"},"maxDepth":{"type":"number","default":20},"maxNodes":{"type":"number","default":2000}}}},
+  {"name":"add_component_property","description":"Add a property to a component.","inputSchema":{"type":"object","properties":{"componentId":{"type":"string"},"name":{"type":"string"},"type":{"type":"string","enum":["BOOLEAN","TEXT","INSTANCE_SWAP","VARIANT"]},"defaultValue":{},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentId","name","type"]}},
+  {"name":"set_component_property","description":"Set a component property value on an instance.","inputSchema":{"type":"object","properties":{"instanceId":{"type":"string"},"propertyName":{"type":"string"},"value":{},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["instanceId","propertyName","value"]}},
+  {"name":"remove_component_property","description":"Remove a property from a component.","inputSchema":{"type":"object","properties":{"componentId":{"type":"string"},"propertyName":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["componentId","propertyName"]}},
+  {"name":"scale_nodes","description":"Scale multiple nodes.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"scaleX":{"type":"number"},"scaleY":{"type":"number"},"center":{"type":"object"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds","scaleX","scaleY"]}},
+  {"name":"flip_horizontal","description":"Flip nodes horizontally.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"flip_vertical","description":"Flip nodes vertically.","inputSchema":{"type":"object","properties":{"nodeIds":{"type":"array","items":{"type":"string"}},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["nodeIds"]}},
+  {"name":"import_component_from_file","description":"Import a component from another Figma file.","inputSchema":{"type":"object","properties":{"fileKey":{"type":"string"},"componentKey":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["fileKey","componentKey"]}},
+  {"name":"import_style_from_file","description":"Import a style from another Figma file.","inputSchema":{"type":"object","properties":{"fileKey":{"type":"string"},"styleKey":{"type":"string"},"dryRun":{"type":"boolean","default":false,"description":"Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan."}},"required":["fileKey","styleKey"]}},
+];
+// </generated:tool-catalog>
 
 function getPluginToolCatalog(): PluginToolDescriptor[] {
-  if (pluginToolCatalog) return pluginToolCatalog;
-
-  const source = handleMessage.toString();
-  const matchPattern = /case\s+['\"]([^'\"]+)['\"]\s*:/g;
-  const names = new Set<string>();
-
-  let match: RegExpExecArray | null;
-  while ((match = matchPattern.exec(source)) !== null) {
-    const toolName = match[1];
-    if (!toolName) continue;
-    names.add(toolName);
-  }
-
-  const excluded = new Set(['get_tools', 'progress_update', 'progress_complete', 'log']);
-  pluginToolCatalog = [...names]
-    .filter((name) => !excluded.has(name))
-    .sort()
-    .map((name) => ({
-      name,
-      description: `Figma plugin tool: ${name}`,
-      inputSchema: {
-        type: 'object',
-        properties: {},
-        additionalProperties: true,
-      },
-    }));
-
-  return pluginToolCatalog;
+  return PLUGIN_TOOL_CATALOG;
 }
 
 function bridgeLog(message: string, level: 'info' | 'success' | 'warning' | 'error' = 'info') {
@@ -271,20 +374,64 @@ interface ComponentAnalysisResult {
   }>;
 }
 
-// Operation history for undo
-const operationHistory: Array<{
-  id: string;
-  type: string;
-  undoData: any;
-}> = [];
+// Server-assigned operationId per running tool, used to tag progress events.
+const activeOperationIds: Map<string, string> = new Map();
+// Cancellation is cooperative: long-running loops poll isOperationCancelled().
+const cancelledOperationIds: Set<string> = new Set();
+// These tools name another operation in payload.operationId, so it is not their own id.
+const OPERATION_REFERENCE_TOOLS = new Set(['cancel', 'undo_operations', 'redo_operations']);
+
+function isOperationCancelled(tool: string): boolean {
+  const operationId = activeOperationIds.get(tool);
+  return !!operationId && cancelledOperationIds.has(operationId);
+}
+
+// Yield so a queued cancel message can be handled, then report whether it arrived.
+async function cancellationCheckpoint(tool: string): Promise<boolean> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  return isOperationCancelled(tool);
+}
+
+function cancelOperation(operationId: string): any {
+  if (!operationId) throw new Error('operationId required');
+  const running = [...activeOperationIds.values()].includes(operationId);
+  if (running) cancelledOperationIds.add(operationId);
+  return { operationId, acknowledged: true, running };
+}
 
 // ===== Message Handler =====
 async function handleMessage(message: PluginMessage) {
   const { type, id, payload } = message;
+  if (payload && payload.dryRun === true && shouldJournalTool(type)) {
+    return await buildChangePlan(type, payload);
+  }
+
+  // Calls without a server-assigned operationId are tracked, and can be cancelled, under their message id.
+  const operationId = (payload && typeof payload.operationId === 'string' && !OPERATION_REFERENCE_TOOLS.has(type)
+    ? payload.operationId
+    : null) || id || null;
+  if (operationId) activeOperationIds.set(type, operationId);
+
+  let journalCapture: JournalCapture | null = null;
+  let journalCaptureError: unknown = null;
+  if (shouldJournalCall(type, payload)) {
+    try {
+      journalCapture = await beginJournalCapture(type, operationId || id, payload || {});
+    } catch (error) {
+      journalCaptureError = error;
+      console.warn(`Journal capture failed for ${type}:`, error);
+    }
+  }
 
   try {
     let result: any;
 
+    // Atomic batches roll back from the journal; without a capture a failure would leave partial changes behind.
+    if (!journalCapture && payload && payload.atomic === true && ATOMIC_BATCH_TOOLS.has(type)) {
+      const reason = journalCaptureError instanceof Error ? journalCaptureError.message : String(journalCaptureError ?? 'not journaled');
+      throw new Error(`atomic: true requires the operation journal, but capturing ${type} failed (${reason}). Nothing was changed; retry without atomic to run it unprotected.`);
+    }
+
     switch (type) {
       // Relay/UI status messages, not executable plugin tools.
       case 'progress_update':
@@ -295,6 +442,9 @@ async function handleMessage(message: PluginMessage) {
       case 'get_tools':
         result = { tools: getPluginToolCatalog() };
         break;
+      case 'cancel':
+        result = cancelOperation(payload.operationId);
+        break;
 
       // Smart Discovery
       case 'smart_select':
@@ -312,10 +462,10 @@ async function handleMessage(message: PluginMessage) {
 
       // Batch Operations
       case 'batch_create':
-        result = await batchCreate(payload.operations, payload.chunkSize, payload.continueOnError);
+        result = await batchCreate(payload.operations, payload.chunkSize, payload.continueOnError, payload.atomic);
         break;
       case 'batch_modify':
-        result = await batchModify(payload.operations, payload.chunkSize);
+        result = await batchModify(payload.operations, payload.chunkSize, payload.atomic);
         break;
       case 'batch_clone':
         result = await batchClone(
@@ -329,7 +479,7 @@ async function handleMessage(message: PluginMessage) {
         );
         break;
       case 'batch_rename':
-        result = await batchRename(payload.nodeIds, payload.pattern, payload.startIndex);
+        result = await batchRename(payload.nodeIds, payload.pattern, payload.startIndex, payload.atomic);
         break;
       case 'batch_delete':
         result = await batchDelete(payload.nodeIds, payload.confirm);
@@ -408,6 +558,21 @@ async function handleMessage(message: PluginMessage) {
       case 'check_consistency':
         result = await checkConsistency(payload.scope, payload.checks, payload.pageIds, payload.pageNames);
         break;
+      case 'fix_consistency':
+        result = await fixConsistency(payload, journalCapture?.scan);
+        break;
+      case 'extract_palette':
+        result = await extractPalette(payload);
+        break;
+      case 'audit_accessibility':
+        result = await auditAccessibility(payload);
+        break;
+      case 'fix_contrast':
+        result = await fixContrast(payload, journalCapture?.scan);
+        break;
+      case 'lint_design':
+        result = await lintDesign(payload, journalCapture?.scan);
+        break;
 
       // Utilities
       case 'get_document_info':
@@ -425,8 +590,11 @@ async function handleMessage(message: PluginMessage) {
       case 'get_selection':
         result = await getSelection(payload.includeChildren);
         break;
+      case 'get_page_info':
+        result = await getPageInfo(payload.pageId, payload.maxDepth, payload.maxNodes, payload.maxChildrenPerNode);
+        break;
       case 'set_multiple_text_contents':
-        result = await setMultipleTextContents(payload.updates);
+        result = await setMultipleTextContents(payload.updates, payload.atomic);
         break;
       case 'select_nodes':
         result = await selectNodes(payload.nodeIds, payload.append, payload.focus);
@@ -474,12 +642,20 @@ async function handleMessage(message: PluginMessage) {
           payload.width,
           payload.height,
           payload.scale,
-          payload.includeBase64,
-          payload.maxBase64Length
+          payload.includeBase64
         );
         break;
       case 'undo_operations':
-        result = await undoOperations(payload.operationId, payload.steps);
+        result = await undoOperations(payload.operationId, payload.steps, payload.force);
+        break;
+      case 'redo_operations':
+        result = await redoOperations(payload.operationId, payload.steps, payload.force);
+        break;
+      case 'list_operation_journal':
+        result = listOperationJournal(payload.limit, payload.includeDetails);
+        break;
+      case 'apply_plan':
+        result = await applyPlan(payload.planId, id);
         break;
 
       // NEW: Frame to Components
@@ -506,7 +682,7 @@ async function handleMessage(message: PluginMessage) {
         result = await crossPageMove(payload.nodeIds, payload.sourcePageId, payload.targetPageId, payload.maintainPosition);
         break;
       case 'batch_edit_across_pages':
-        result = await batchEditAcrossPages(payload.operations);
+        result = await batchEditAcrossPages(payload.operations, payload.atomic);
         break;
 
       // NEW: Component Set Management
@@ -542,6 +718,12 @@ async function handleMessage(message: PluginMessage) {
       case 'create_vector':
         result = await createVector(payload.x, payload.y, payload.width, payload.height, payload);
         break;
+      case 'import_svg':
+        result = await importSvg(payload);
+        break;
+      case 'import_html_layout':
+        result = await importHtmlLayout(payload);
+        break;
       case 'create_group':
         result = await createGroup(payload.nodeIds, payload.name, payload.parentId);
         break;
@@ -654,6 +836,12 @@ async function handleMessage(message: PluginMessage) {
       case 'get_all_variables':
         result = await getAllVariables();
         break;
+      case 'export_design_tokens':
+        result = await exportDesignTokens(payload);
+        break;
+      case 'import_design_tokens':
+        result = await importDesignTokens(payload);
+        break;
       case 'delete_variable':
         result = await deleteVariable(payload.variableId, payload.unbindNodes);
         break;
@@ -685,6 +873,15 @@ async function handleMessage(message: PluginMessage) {
       case 'export_nodes_batch':
         result = await exportNodesBatch(payload.exports);
         break;
+      case 'generate_code':
+        result = await generateCode(payload);
+        break;
+      case 'generate_react_component':
+        result = await generateReactComponent(payload);
+        break;
+      case 'read_export_chunk':
+        result = readExportChunk(payload.exportId, payload.index);
+        break;
 
       // ===== Component Properties =====
       case 'add_component_property':
@@ -720,13 +917,343 @@ async function handleMessage(message: PluginMessage) {
         throw new Error(`Unknown tool: ${type}`);
     }
 
+    if (journalCapture) {
+      const entry = await commitJournalCapture(journalCapture, result).catch((error) => {
+        console.warn(`Journal commit failed for ${type}:`, error);
+        return null;
+      });
+      if (entry && result && typeof result === 'object' && !Array.isArray(result) && result.operationId === undefined) {
+        result.operationId = entry.operationId;
+      }
+    }
     return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Error executing ${type}:`, error);
+    if (journalCapture && payload && payload.atomic === true && ATOMIC_BATCH_TOOLS.has(type)) {
+      return await rollbackAtomicBatch(journalCapture, error);
+    }
+    // Partial changes stay journaled so the caller can still revert them.
+    const entry = journalCapture ? await commitJournalCapture(journalCapture, null).catch(() => null) : null;
+    if (entry) {
+      throw new Error(`${errorMessage} (partial changes journaled as operation ${entry.operationId}; use undo_operations to revert)`);
+    }
     throw error;
+  } finally {
+    if (operationId && activeOperationIds.get(type) === operationId) {
+      activeOperationIds.delete(type);
+    }
+    if (operationId) cancelledOperationIds.delete(operationId);
+  }
+}
+
+// ===== COLOR SCIENCE =====
+// <generated:color>
+// Generated from src/color.ts by `npm run generate:tools`; do not edit by hand.
+
+// Channels are 0-1 throughout; RGB is Figma's own paint color type here.
+
+// h in degrees, s and l 0-1.
+interface HSL {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// CIELAB (D65): l 0-100.
+interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// l 0-1, c roughly 0-0.4, h in degrees.
+interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+type ColorFamily =
+  | 'red' | 'orange' | 'brown' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple' | 'pink'
+  | 'black' | 'white' | 'gray';
+
+interface ColorSample {
+  color: RGB;
+  // How much the sample counts towards its cluster (usage count, area, ...).
+  weight?: number;
+  id?: string;
+}
+
+interface PaletteColor {
+  hex: string;
+  color: RGB;
+  name: string;
+  family: ColorFamily;
+  weight: number;
+  share: number;
+  // Member hexes by weight; the first is the most used.
+  members: string[];
+  ids: string[];
+}
+
+// Query words (English and Chinese) mapped to color families.
+const COLOR_FAMILY_ALIASES: Record<string, ColorFamily> = {
+  red: 'red', orange: 'orange', brown: 'brown', yellow: 'yellow', green: 'green', cyan: 'cyan', teal: 'cyan',
+  blue: 'blue', purple: 'purple', violet: 'purple', pink: 'pink', magenta: 'pink', black: 'black', white: 'white',
+  gray: 'gray', grey: 'gray',
+  红色: 'red', 橙色: 'orange', 棕色: 'brown', 黄色: 'yellow', 绿色: 'green', 青色: 'cyan', 蓝色: 'blue',
+  紫色: 'purple', 粉色: 'pink', 黑色: 'black', 白色: 'white', 灰色: 'gray',
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+const RAD = Math.PI / 180;
+
+function rgbToHex(color: RGB): string {
+  return `#${[color.r, color.g, color.b]
+    .map((channel) => Math.round(clamp01(channel) * 255).toString(16).padStart(2, '0'))
+    .join('')}`.toUpperCase();
+}
+
+// Accepts #rgb, #rrggbb (alpha digits are ignored) and rgb()/rgba() strings.
+function parseColor(value: string): RGB | null {
+  const text = value.trim();
+  const hex = text.replace(/^#/, '');
+  if (/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex;
+    const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { r: channel(0), g: channel(1), b: channel(2) };
+  }
+  const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+  return rgb ? { r: Number(rgb[1]) / 255, g: Number(rgb[2]) / 255, b: Number(rgb[3]) / 255 } : null;
+}
+
+function rgbToHsl(color: RGB): HSL {
+  const max = Math.max(color.r, color.g, color.b);
+  const min = Math.min(color.r, color.g, color.b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h = max === color.r ? ((color.g - color.b) / d) % 6 : max === color.g ? (color.b - color.r) / d + 2 : (color.r - color.g) / d + 4;
+  h *= 60;
+  return { h: h < 0 ? h + 360 : h, s, l };
+}
+
+function hslToRgb(hsl: HSL): RGB {
+  const c = (1 - Math.abs(2 * hsl.l - 1)) * hsl.s;
+  const h = (((hsl.h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = hsl.l - c / 2;
+  const [r, g, b] = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x];
+  return { r: r + m, g: g + m, b: b + m };
+}
+
+function rgbToLab(color: RGB): Lab {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+  // D65 reference white.
+  const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+  const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+  const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return { l: 116 * f(y) - 16, a: 500 * (f(x) - f(y)), b: 200 * (f(y) - f(z)) };
+}
+
+function labToRgb(lab: Lab): RGB {
+  const fy = (lab.l + 16) / 116;
+  const fx = fy + lab.a / 500;
+  const fz = fy - lab.b / 200;
+  const inverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+  const x = inverse(fx) * 0.95047;
+  const y = inverse(fy);
+  const z = inverse(fz) * 1.08883;
+  return {
+    r: clamp01(fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z)),
+    g: clamp01(fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z)),
+    b: clamp01(fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)),
+  };
+}
+
+function rgbToOklch(color: RGB): OKLCH {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const h = Math.atan2(B, A) / RAD;
+  return { l: L, c: Math.sqrt(A * A + B * B), h: h < 0 ? h + 360 : h };
+}
+
+// Out-of-gamut results are clipped per channel.
+function oklchToRgb(oklch: OKLCH): RGB {
+  const A = oklch.c * Math.cos(oklch.h * RAD);
+  const B = oklch.c * Math.sin(oklch.h * RAD);
+  const l = Math.pow(oklch.l + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(oklch.l - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(oklch.l - 0.0894841775 * A - 1.291485548 * B, 3);
+  return {
+    r: clamp01(fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+    g: clamp01(fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+    b: clamp01(fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)),
+  };
+}
+
+// CIEDE2000 color difference; ~1 is the just-noticeable difference.
+function deltaE2000(first: RGB, second: RGB): number {
+  const c1 = rgbToLab(first);
+  const c2 = rgbToLab(second);
+  const avgL = (c1.l + c2.l) / 2;
+  const avgC = (Math.sqrt(c1.a * c1.a + c1.b * c1.b) + Math.sqrt(c2.a * c2.a + c2.b * c2.b)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(avgC, 7) / (Math.pow(avgC, 7) + Math.pow(25, 7))));
+  const a1 = c1.a * (1 + g);
+  const a2 = c2.a * (1 + g);
+  const cp1 = Math.sqrt(a1 * a1 + c1.b * c1.b);
+  const cp2 = Math.sqrt(a2 * a2 + c2.b * c2.b);
+  const hue = (bv: number, av: number) => {
+    if (bv === 0 && av === 0) return 0;
+    const h = Math.atan2(bv, av) / RAD;
+    return h >= 0 ? h : h + 360;
+  };
+  const h1 = hue(c1.b, a1);
+  const h2 = hue(c2.b, a2);
+  let dh = 0;
+  if (cp1 * cp2 !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dL = c2.l - c1.l;
+  const dC = cp2 - cp1;
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * RAD);
+  const avgCp = (cp1 + cp2) / 2;
+  let avgH = h1 + h2;
+  if (cp1 * cp2 !== 0) {
+    avgH = Math.abs(h1 - h2) > 180 ? (h1 + h2 + (h1 + h2 < 360 ? 360 : -360)) / 2 : (h1 + h2) / 2;
+  }
+  const t = 1 - 0.17 * Math.cos((avgH - 30) * RAD) + 0.24 * Math.cos(2 * avgH * RAD)
+    + 0.32 * Math.cos((3 * avgH + 6) * RAD) - 0.2 * Math.cos((4 * avgH - 63) * RAD);
+  const sl = 1 + (0.015 * Math.pow(avgL - 50, 2)) / Math.sqrt(20 + Math.pow(avgL - 50, 2));
+  const sc = 1 + 0.045 * avgCp;
+  const sh = 1 + 0.015 * avgCp * t;
+  const rt = -2 * Math.sqrt(Math.pow(avgCp, 7) / (Math.pow(avgCp, 7) + Math.pow(25, 7)))
+    * Math.sin(60 * Math.exp(-Math.pow((avgH - 275) / 25, 2)) * RAD);
+  return Math.sqrt(Math.pow(dL / sl, 2) + Math.pow(dC / sc, 2) + Math.pow(dH / sh, 2) + rt * (dC / sc) * (dH / sh));
+}
+
+// Hue family from OKLCH, whose hue angle stays stable across lightness (unlike HSL).
+function colorFamily(color: RGB): ColorFamily {
+  const { l, c, h } = rgbToOklch(color);
+  if (c < 0.035) return l < 0.3 ? 'black' : l > 0.93 ? 'white' : 'gray';
+  if (h >= 10 && h < 35) return 'red';
+  if (h >= 35 && h < 85) return l < 0.6 ? 'brown' : 'orange';
+  if (h >= 85 && h < 120) return 'yellow';
+  if (h >= 120 && h < 170) return 'green';
+  if (h >= 170 && h < 230) return 'cyan';
+  if (h >= 230 && h < 290) return 'blue';
+  if (h >= 290 && h < 335) return 'purple';
+  return 'pink';
+}
+
+function nameColor(color: RGB): string {
+  const family = colorFamily(color);
+  if (family === 'black' || family === 'white') return family;
+  const { l } = rgbToOklch(color);
+  return l < 0.45 ? `dark ${family}` : l > 0.85 ? `light ${family}` : family;
+}
+
+// True when a color belongs to the family named by the query ("blue", "blues", "蓝色") or is within maxDeltaE of a hex query.
+function matchesColorName(color: RGB, query: string, maxDeltaE: number = 10): boolean {
+  const key = query.trim().toLowerCase();
+  const family = COLOR_FAMILY_ALIASES[key] ?? COLOR_FAMILY_ALIASES[key.replace(/s$/, '')] ?? COLOR_FAMILY_ALIASES[key.replace(/es$/, '')];
+  if (family) return colorFamily(color) === family;
+  const parsed = /^#|^rgb/.test(key) ? parseColor(key) : null;
+  return parsed ? deltaE2000(color, parsed) <= maxDeltaE : false;
+}
+
+// Greedy clustering in CIELAB: heaviest samples seed clusters, samples within maxDeltaE of a centroid join it,
+// then the closest pair of clusters is merged until at most maxColors remain.
+function clusterColors(samples: ColorSample[], maxDeltaE: number = 6, maxColors?: number): PaletteColor[] {
+  interface Cluster {
+    lab: Lab;
+    weight: number;
+    members: Map<string, number>;
+    ids: string[];
+  }
+  const merge = (into: Cluster, from: Cluster) => {
+    const total = into.weight + from.weight;
+    into.lab = {
+      l: (into.lab.l * into.weight + from.lab.l * from.weight) / total,
+      a: (into.lab.a * into.weight + from.lab.a * from.weight) / total,
+      b: (into.lab.b * into.weight + from.lab.b * from.weight) / total,
+    };
+    into.weight = total;
+    for (const [hex, weight] of from.members) into.members.set(hex, (into.members.get(hex) ?? 0) + weight);
+    into.ids.push(...from.ids);
+  };
+
+  const clusters: Cluster[] = [];
+  const sorted = [...samples].sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1));
+  for (const sample of sorted) {
+    const weight = sample.weight ?? 1;
+    const single: Cluster = {
+      lab: rgbToLab(sample.color),
+      weight,
+      members: new Map([[rgbToHex(sample.color), weight]]),
+      ids: sample.id ? [sample.id] : [],
+    };
+    let best: { cluster: Cluster; deltaE: number } | null = null;
+    for (const cluster of clusters) {
+      const deltaE = deltaE2000(labToRgb(cluster.lab), sample.color);
+      if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE)) best = { cluster, deltaE };
+    }
+    if (best) merge(best.cluster, single);
+    else clusters.push(single);
+  }
+
+  while (maxColors !== undefined && maxColors > 0 && clusters.length > maxColors) {
+    let pair: [number, number] = [0, 1];
+    let closest = Infinity;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const deltaE = deltaE2000(labToRgb(clusters[i].lab), labToRgb(clusters[j].lab));
+        if (deltaE < closest) {
+          closest = deltaE;
+          pair = [i, j];
+        }
+      }
+    }
+    merge(clusters[pair[0]], clusters[pair[1]]);
+    clusters.splice(pair[1], 1);
   }
+
+  const total = clusters.reduce((sum, cluster) => sum + cluster.weight, 0) || 1;
+  return clusters
+    .sort((a, b) => b.weight - a.weight)
+    .map((cluster) => {
+      const members = [...cluster.members.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex);
+      // The palette entry is the most used real color, not the (possibly unused) centroid.
+      const color = parseColor(members[0])!;
+      return {
+        hex: members[0],
+        color,
+        name: nameColor(color),
+        family: colorFamily(color),
+        weight: cluster.weight,
+        share: Math.round((cluster.weight / total) * 1000) / 1000,
+        members,
+        ids: cluster.ids,
+      };
+    });
 }
+// </generated:color>
 
 // ===== Smart Discovery Implementation =====
 
@@ -750,7 +1277,8 @@ async function smartSelect(
   const wantsComponents = queryLower.includes('component') || queryLower.includes('components') || queryLower.includes('组件');
   const wantsInstances = queryLower.includes('instance') || queryLower.includes('instances') || queryLower.includes('实例');
   const wantsText = queryLower.includes('text') || queryLower.includes('文本');
-  const colorMatch = queryLower.match(/(red|blue|green|yellow|black|white|红色|蓝色|绿色|黄色|黑色|白色)/);
+  const colorWords = Object.keys(COLOR_FAMILY_ALIASES).sort((a, b) => b.length - a.length).join('|');
+  const colorMatch = queryLower.match(new RegExp(`(#[0-9a-f]{6}\\b|#[0-9a-f]{3}\\b|${colorWords})`));
   const nameMatch = queryLower.match(/["'](.+?)["']/);
 
   for (const root of roots) {
@@ -782,14 +1310,12 @@ async function smartSelect(
     if (wantsInstances && node.type === 'INSTANCE') score += 8;
     if (wantsText && node.type === 'TEXT') score += 8;
 
-    // Color matching
+    // Color matching (perceptual family or ΔE to a hex query, on any visible solid fill)
     if (colorMatch && 'fills' in node) {
-      const fills = (node as GeometryMixin).fills as Paint[];
-      if (fills && fills.length > 0 && fills[0].type === 'SOLID') {
-        const color = fills[0].color;
-        if (matchesColorQuery(color, colorMatch[1])) {
-          score += 5;
-        }
+      const fills = (node as GeometryMixin).fills;
+      if (Array.isArray(fills) && fills.some((paint: Paint) =>
+        paint.type === 'SOLID' && paint.visible !== false && matchesColorName(paint.color, colorMatch[1]))) {
+        score += 5;
       }
     }
 
@@ -975,34 +1501,51 @@ async function autoDiscoverComponents(
 
 // ===== Batch Operations Implementation =====
 
+const BATCH_CREATE_TYPES = [
+  'create_rectangle', 'create_frame', 'create_text', 'create_component', 'create_ellipse',
+  'create_line', 'create_polygon', 'create_star', 'create_vector',
+];
+
+function normalizeCreateType(rawType: unknown): string {
+  const raw = String(rawType || '').trim();
+  if (!raw) return '';
+  // Accept camelCase/PascalCase/snake/kebab and normalize to snake style.
+  const snake = raw
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[\s\-]+/g, '_')
+    .toLowerCase();
+  // Support both prefixed and plain forms, e.g. createEllipse / ellipse.
+  return snake.startsWith('create_') ? snake : `create_${snake}`;
+}
+
 async function batchCreate(
   operations: BatchOperation[],
   chunkSize: number = 50,
-  continueOnError: boolean = true
+  continueOnError: boolean = true,
+  atomic: boolean = false,
+  // Tool whose operationId drives progress and cancellation (import_html_layout reuses this loop).
+  tool: string = 'batch_create'
 ): Promise<any> {
   const results: any[] = [];
   const errors: any[] = [];
   const createdNodes: string[] = [];
+  let processed = 0;
+  let cancelled = false;
 
   for (let i = 0; i < operations.length; i += chunkSize) {
     const chunk = operations.slice(i, i + chunkSize);
 
     // Report progress
-    sendProgress('batch_create', i, operations.length, `Creating ${i + chunk.length}/${operations.length}`);
+    sendProgress(tool, i, operations.length, `Creating ${i + chunk.length}/${operations.length}`);
 
     for (const op of chunk) {
+      if (isOperationCancelled(tool)) {
+        if (atomic) throw atomicBatchError(processed, String(op.type), 'Cancelled');
+        cancelled = true;
+        break;
+      }
+      processed++;
       try {
-        const normalizeCreateType = (rawType: unknown): string => {
-          const raw = String(rawType || '').trim();
-          if (!raw) return '';
-          // Accept camelCase/PascalCase/snake/kebab and normalize to snake style.
-          const snake = raw
-            .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
-            .replace(/[\s\-]+/g, '_')
-            .toLowerCase();
-          // Support both prefixed and plain forms, e.g. createEllipse / ellipse.
-          return snake.startsWith('create_') ? snake : `create_${snake}`;
-        };
         const normalizedType = normalizeCreateType(op.type);
         const targetParentId = (op.params && typeof op.params.parentId === 'string')
           ? op.params.parentId
@@ -1052,11 +1595,13 @@ async function batchCreate(
         createdNodes.push(node.id);
         results.push({ id: node.id, type: normalizedType });
       } catch (error) {
+        if (atomic) throw atomicBatchError(processed - 1, String(op.type), error);
         const msg = error instanceof Error ? error.message : String(error);
         errors.push({ operation: op, error: msg });
         if (!continueOnError) throw error;
       }
     }
+    if (cancelled) break;
 
     // Yield to prevent blocking
     await new Promise(resolve => setTimeout(resolve, 10));
@@ -1067,12 +1612,15 @@ async function batchCreate(
     failed: errors.length,
     createdIds: createdNodes,
     errors: errors.slice(0, 10),
+    cancelled,
+    skipped: operations.length - processed,
   };
 }
 
 async function batchModify(
   operations: Array<{ nodeId: string; changes: any }>,
-  chunkSize: number = 50
+  chunkSize: number = 50,
+  atomic: boolean = false
 ): Promise<any> {
   const results: any[] = [];
   const errors: any[] = [];
@@ -1082,7 +1630,8 @@ async function batchModify(
 
     sendProgress('batch_modify', i, operations.length, `Modifying ${i + chunk.length}/${operations.length}`);
 
-    for (const op of chunk) {
+    for (let j = 0; j < chunk.length; j++) {
+      const op = chunk[j];
       try {
         const node = await figma.getNodeByIdAsync(op.nodeId) as SceneNode;
         if (!node) throw new Error('Node not found');
@@ -1090,6 +1639,7 @@ async function batchModify(
         applyNodeProperties(node, op.changes);
         results.push({ id: op.nodeId, success: true });
       } catch (error) {
+        if (atomic) throw atomicBatchError(i + j, op.nodeId, error);
         const msg = error instanceof Error ? error.message : String(error);
         errors.push({ nodeId: op.nodeId, error: msg });
       }
@@ -1124,8 +1674,13 @@ async function batchClone(
   const clones: string[] = [];
   const baseX = 'x' in template ? template.x : 0;
   const baseY = 'y' in template ? template.y : 0;
+  let cancelled = false;
 
   for (let i = 0; i < count; i++) {
+    if (isOperationCancelled('batch_clone')) {
+      cancelled = true;
+      break;
+    }
     // Keep clones in the same parent/page as template to avoid accidental cross-page placement.
     // For components, generate instances instead of duplicating main components.
     let clone: SceneNode;
@@ -1158,13 +1713,14 @@ async function batchClone(
   }
 
   if (!includeIds) {
-    return { cloned: clones.length, idsIncluded: false, returnedIds: 0, truncated: false };
+    return { cloned: clones.length, idsIncluded: false, returnedIds: 0, truncated: false, cancelled };
   }
 
   const maxIds = Math.max(0, Math.min(5000, Number.isFinite(maxReturnedIds) ? Math.floor(maxReturnedIds) : 100));
   const ids = clones.slice(0, maxIds);
   return {
     cloned: clones.length,
+    cancelled,
     idsIncluded: true,
     returnedIds: ids.length,
     truncated: clones.length > ids.length,
@@ -1175,12 +1731,14 @@ async function batchClone(
 async function batchRename(
   nodeIds: string[],
   pattern: string,
-  startIndex: number = 1
+  startIndex: number = 1,
+  atomic: boolean = false
 ): Promise<any> {
   const results: any[] = [];
 
   for (let i = 0; i < nodeIds.length; i++) {
     const node = await figma.getNodeByIdAsync(nodeIds[i]);
+    if (!node && atomic) throw atomicBatchError(i, nodeIds[i], 'Node not found');
     if (node) {
       const newName = pattern.replace('{index}', String(startIndex + i));
       node.name = newName;
@@ -2632,6 +3190,17 @@ async function checkConsistency(
     });
   }
 
+  if (checks.includes('spacing') && spacings.size > 10) {
+    issues.push({
+      type: 'spacing',
+      severity: 'warning',
+      message: `Found ${spacings.size} unique spacing values. Consider using a spacing scale.`,
+      details: Array.from(spacings.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([spacing, count]) => ({ spacing, count })),
+    });
+  }
+
   return {
     checked: checks,
     issuesFound: issues.length,
@@ -2639,4315 +3208,9561 @@ async function checkConsistency(
   };
 }
 
-// ===== Utility Implementation =====
-
-async function getDocumentInfo(
-  includeChildren: boolean = true,
-  maxDepth: number = 10,
-  maxPages: number = 100,
-  maxNodesPerPage: number = 1200,
-  maxChildrenPerNode: number = 200
-): Promise<any> {
-  if (includeChildren) await ensureAllPagesLoaded();
+interface AccessibilityIssue {
+  type: 'contrast' | 'touch_target' | 'text_size' | 'image_description';
+  severity: 'error' | 'warning' | 'info';
+  nodeId: string;
+  nodeName: string;
+  message: string;
+  details?: any;
+  suggestedFix: string;
+}
 
-  const safeMaxPages = Math.max(1, Math.min(500, Number.isFinite(maxPages) ? Math.floor(maxPages) : 100));
-  const safeMaxNodesPerPage = Math.max(100, Math.min(10000, Number.isFinite(maxNodesPerPage) ? Math.floor(maxNodesPerPage) : 1200));
-  const safeMaxChildrenPerNode = Math.max(20, Math.min(1000, Number.isFinite(maxChildrenPerNode) ? Math.floor(maxChildrenPerNode) : 200));
+// Solid layer behind a text node, flattened to one color with its effective alpha.
+interface ContrastLayer {
+  color: RGB;
+  alpha: number;
+}
 
-  const sourcePages = figma.root.children.slice(0, safeMaxPages);
-  const pages = sourcePages.map(page => {
-    if (!includeChildren) {
-      return { id: page.id, name: page.name, children: undefined };
-    }
-    const state = { remaining: safeMaxNodesPerPage, truncated: false };
-    const children = getNodeChildren(page, maxDepth, 0, state, safeMaxChildrenPerNode);
-    return {
-      id: page.id,
-      name: page.name,
-      children,
-      childrenTruncated: state.truncated,
-      maxNodesPerPage: safeMaxNodesPerPage,
-      maxChildrenPerNode: safeMaxChildrenPerNode,
-    };
-  });
+const A11Y_CONTRAST_THRESHOLDS: Record<'AA' | 'AAA', { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+const A11Y_GENERIC_LAYER_NAME = /^(rectangle|image|frame|ellipse|vector|group|photo|img|pic)(\s*\d+)?$/i;
 
-  return {
-    id: figma.root.id,
-    name: figma.root.name,
-    type: 'DOCUMENT',
-    currentPage: {
-      id: figma.currentPage.id,
-      name: figma.currentPage.name,
-    },
-    pages,
-    pagesTruncated: figma.root.children.length > sourcePages.length,
-    maxPages: safeMaxPages,
-  };
+function relativeLuminance(color: RGB): number {
+  const channel = (c: number) => (c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
 }
 
-async function getNodeInfo(nodeId: string, includeChildren: boolean = true): Promise<NodeInfo> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
-
-  return nodeToInfo(node, includeChildren);
+function contrastRatio(a: RGB, b: RGB): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
 }
 
-async function getSelection(includeChildren: boolean = false): Promise<any> {
-  const selected = figma.currentPage.selection.filter(Boolean);
-  const nodes = selected.map((node) => nodeToInfo(node, includeChildren));
+function blendOver(top: RGB, alpha: number, bottom: RGB): RGB {
   return {
-    pageId: figma.currentPage.id,
-    pageName: figma.currentPage.name,
-    selectedCount: nodes.length,
-    nodeIds: nodes.map((n) => n.id),
-    nodes,
+    r: top.r * alpha + bottom.r * (1 - alpha),
+    g: top.g * alpha + bottom.g * (1 - alpha),
+    b: top.b * alpha + bottom.b * (1 - alpha),
   };
 }
 
-async function setMultipleTextContents(updates: Array<{ nodeId: string; text: string }>): Promise<any> {
-  const results: any[] = [];
-  const errors: any[] = [];
+function boxContains(outer: Rect, inner: Rect): boolean {
+  return outer.x <= inner.x + 0.5 && outer.y <= inner.y + 0.5 &&
+    outer.x + outer.width >= inner.x + inner.width - 0.5 && outer.y + outer.height >= inner.y + inner.height - 0.5;
+}
+
+// Visible paints of one node, topmost first. Gradients contribute their darkest/lightest stop per variant; images make the result indeterminate.
+function contrastLayersOf(node: SceneNode, variants: ContrastLayer[][]): { opaque: boolean; image: boolean } {
+  const fills = 'fills' in node && Array.isArray((node as GeometryMixin).fills) ? ((node as GeometryMixin).fills as Paint[]) : [];
+  const nodeOpacity = 'opacity' in node ? (node as BlendMixin).opacity : 1;
+  let opaque = false;
+  let image = false;
+  for (const paint of [...fills].reverse()) {
+    if (paint.visible === false) continue;
+    const paintOpacity = (paint.opacity ?? 1) * nodeOpacity;
+    if (paint.type === 'SOLID') {
+      for (const layers of variants) layers.push({ color: paint.color, alpha: paintOpacity });
+      if (paintOpacity >= 1) opaque = true;
+    } else if (paint.type.startsWith('GRADIENT_')) {
+      const stops = (paint as GradientPaint).gradientStops;
+      const byLuminance = [...stops].sort((a, b) => relativeLuminance(a.color) - relativeLuminance(b.color));
+      const extremes = [byLuminance[0], byLuminance[byLuminance.length - 1]];
+      const base = variants.splice(0, variants.length);
+      for (const layers of base) {
+        for (const stop of extremes) variants.push([...layers, { color: stop.color, alpha: stop.color.a * paintOpacity }]);
+      }
+      if (paintOpacity >= 1 && stops.every((stop) => stop.color.a >= 1)) opaque = true;
+    } else if (paint.type === 'IMAGE' || paint.type === 'VIDEO') {
+      image = true;
+      if (paintOpacity >= 1) opaque = true;
+    }
+    if (opaque) break;
+  }
+  return { opaque, image };
+}
 
-  // Group by font to minimize loadFont calls
-  const fontGroups: Map<string, Array<{ node: TextNode; text: string }>> = new Map();
+// Walks from the text node outwards: earlier siblings (and their descendants) that fully cover the text, then each ancestor's own fills.
+function effectiveBackgrounds(node: SceneNode): { colors: RGB[]; indeterminate: boolean } {
+  const box = node.absoluteBoundingBox;
+  const variants: ContrastLayer[][] = [[]];
+  let indeterminate = false;
+  let done = false;
 
-  for (const update of updates) {
-    const node = await figma.getNodeByIdAsync(update.nodeId) as TextNode;
-    if (!node || node.type !== 'TEXT') {
-      errors.push({ nodeId: update.nodeId, error: 'Not a text node' });
-      continue;
+  const collect = (layer: SceneNode): void => {
+    if (done || !layer.visible || !layer.absoluteBoundingBox || !box || !boxContains(layer.absoluteBoundingBox, box)) return;
+    if ('children' in layer) {
+      const children = (layer as ChildrenMixin).children as readonly SceneNode[];
+      for (let i = children.length - 1; i >= 0 && !done; i--) collect(children[i]);
     }
+    if (done) return;
+    const result = contrastLayersOf(layer, variants);
+    if (result.image) indeterminate = true;
+    if (result.opaque) done = true;
+  };
 
-    const fontKey = JSON.stringify(node.fontName);
-    if (!fontGroups.has(fontKey)) {
-      fontGroups.set(fontKey, []);
+  let current: BaseNode = node;
+  while (!done && current.parent && current.parent.type !== 'DOCUMENT') {
+    const parent: BaseNode & ChildrenMixin = current.parent;
+    if (parent.type === 'PAGE') {
+      const background = (parent as PageNode).backgrounds.find((paint) => paint.type === 'SOLID' && paint.visible !== false) as SolidPaint | undefined;
+      if (background) for (const layers of variants) layers.push({ color: background.color, alpha: background.opacity ?? 1 });
+      break;
     }
-    fontGroups.get(fontKey)!.push({ node, text: update.text });
+    const siblings = parent.children as readonly SceneNode[];
+    for (let i = siblings.indexOf(current as SceneNode) - 1; i >= 0 && !done; i--) collect(siblings[i]);
+    if (!done) {
+      const result = contrastLayersOf(parent as SceneNode, variants);
+      if (result.image) indeterminate = true;
+      if (result.opaque) done = true;
+    }
+    current = parent;
   }
 
-  // Process each font group
-  for (const [fontKey, items] of fontGroups) {
-    const fontName = JSON.parse(fontKey) as FontName;
-    await figma.loadFontAsync(fontName);
+  const white: RGB = { r: 1, g: 1, b: 1 };
+  const colors = variants.map((layers) => layers.reduceRight((below, layer) => blendOver(layer.color, layer.alpha, below), white));
+  return { colors, indeterminate };
+}
 
-    for (const item of items) {
-      try {
-        item.node.characters = item.text;
-        results.push({ nodeId: item.node.id, success: true });
-      } catch (error) {
-        const msg = error instanceof Error ? error.message : String(error);
-        errors.push({ nodeId: item.node.id, error: msg });
-      }
-    }
+function textSolidFills(node: TextNode): Array<{ color: RGB; opacity: number; fontSize: number; bold: boolean }> {
+  let segments: any[];
+  try {
+    segments = node.getStyledTextSegments(['fills', 'fontSize', 'fontWeight']);
+  } catch {
+    segments = [{ fills: node.fills, fontSize: node.fontSize, fontWeight: 400 }];
+  }
+  const out: Array<{ color: RGB; opacity: number; fontSize: number; bold: boolean }> = [];
+  for (const segment of segments) {
+    const fills = Array.isArray(segment.fills) ? segment.fills as Paint[] : [];
+    const solid = [...fills].reverse().find((paint) => paint.type === 'SOLID' && paint.visible !== false) as SolidPaint | undefined;
+    if (!solid) continue;
+    out.push({
+      color: solid.color,
+      opacity: (solid.opacity ?? 1) * node.opacity,
+      fontSize: typeof segment.fontSize === 'number' ? segment.fontSize : 16,
+      bold: Number(segment.fontWeight) >= 700,
+    });
   }
+  return out;
+}
 
-  return {
-    updated: results.length,
-    failed: errors.length,
-    errors: errors.slice(0, 10),
+interface TextContrastPair {
+  ratio: number;
+  required: number;
+  text: RGB;
+  background: RGB;
+}
+
+// Worst text run against every background variant, relative to the ratio each run needs (large text needs less).
+function measureTextContrast(
+  node: TextNode,
+  runs: ReturnType<typeof textSolidFills>,
+  thresholds: { normal: number; large: number }
+): { backgrounds: ReturnType<typeof effectiveBackgrounds>; worst: TextContrastPair | null } {
+  const backgrounds = effectiveBackgrounds(node);
+  let worst: TextContrastPair | null = null;
+  for (const run of runs) {
+    const large = run.fontSize >= 24 || (run.bold && run.fontSize >= 18.66);
+    const required = large ? thresholds.large : thresholds.normal;
+    for (const background of backgrounds.colors) {
+      const text = blendOver(run.color, run.opacity, background);
+      const ratio = contrastRatio(text, background);
+      if (!worst || ratio / required < worst.ratio / worst.required) worst = { ratio, required, text, background };
+    }
+  }
+  return { backgrounds, worst };
+}
+
+// Mixes the text color toward black or white until the ratio is met; returns the closest passing hex.
+function suggestContrastColor(text: RGB, background: RGB, required: number): string | null {
+  let best: { hex: string; amount: number } | null = null;
+  for (const target of [{ r: 0, g: 0, b: 0 }, { r: 1, g: 1, b: 1 }]) {
+    if (contrastRatio(target, background) < required) continue;
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (contrastRatio(blendOver(target, mid, text), background) >= required) high = mid;
+      else low = mid;
+    }
+    // Quantize toward the target so hex rounding cannot drop the ratio back under the threshold.
+    const mixed = blendOver(target, high, text);
+    const snap = target.r === 0 ? Math.floor : Math.ceil;
+    const color = { r: snap(mixed.r * 255) / 255, g: snap(mixed.g * 255) / 255, b: snap(mixed.b * 255) / 255 };
+    if (!best || high < best.amount) best = { hex: designTokenColor(color, 1).hex, amount: high };
+  }
+  return best ? best.hex : null;
+}
+
+async function auditAccessibility(options: any): Promise<any> {
+  const checks: string[] = Array.isArray(options.checks) && options.checks.length > 0
+    ? options.checks
+    : ['contrast', 'touch_targets', 'text_size', 'image_descriptions'];
+  const level: 'AA' | 'AAA' = options.level === 'AAA' ? 'AAA' : 'AA';
+  const thresholds = A11Y_CONTRAST_THRESHOLDS[level];
+  const minTouchTarget = options.minTouchTarget ?? 44;
+  const minFontSize = options.minFontSize ?? 12;
+  const maxIssues = options.maxIssues ?? 500;
+  const roots = await resolveScopeRoots(options.scope ?? 'page', options.pageIds, options.pageNames);
+
+  const issues: AccessibilityIssue[] = [];
+  let nodesScanned = 0;
+  let truncated = false;
+  const report = (issue: AccessibilityIssue) => {
+    if (issues.length >= maxIssues) {
+      truncated = true;
+      return;
+    }
+    issues.push(issue);
   };
-}
 
-async function undoOperations(operationId?: string, steps: number = 1): Promise<any> {
-  const undoSteps = Math.max(1, Math.min(20, Math.floor(Number.isFinite(steps) ? steps : 1)));
-  for (let i = 0; i < undoSteps; i++) {
-    figma.triggerUndo();
+  for (const root of roots) {
+    await traverseNodes(root, async (node) => {
+      if (!node.visible) return false;
+      nodesScanned++;
+
+      if (node.type === 'TEXT') {
+        const runs = textSolidFills(node);
+        if (checks.includes('contrast') && runs.length > 0) {
+          const { backgrounds, worst } = measureTextContrast(node, runs, thresholds);
+          if (worst && worst.ratio < worst.required) {
+            const suggestion = suggestContrastColor(worst.text, worst.background, worst.required);
+            report({
+              type: 'contrast',
+              severity: backgrounds.indeterminate ? 'info' : 'error',
+              nodeId: node.id,
+              nodeName: node.name,
+              message: `Contrast ${worst.ratio.toFixed(2)}:1 is below WCAG ${level} ${worst.required}:1${backgrounds.indeterminate ? ' (background includes an image; verify manually)' : ''}`,
+              details: {
+                ratio: Math.round(worst.ratio * 100) / 100,
+                required: worst.required,
+                textColor: designTokenColor(worst.text, 1).hex,
+                backgroundColor: designTokenColor(worst.background, 1).hex,
+              },
+              suggestedFix: suggestion
+                ? `Change the text color to ${suggestion} or adjust the background`
+                : 'Change the background; no text color reaches the required ratio on it',
+            });
+          } else if (!worst && backgrounds.indeterminate) {
+            report({
+              type: 'contrast', severity: 'info', nodeId: node.id, nodeName: node.name,
+              message: 'Background includes an image; contrast cannot be computed',
+              suggestedFix: 'Verify contrast manually or add a solid scrim behind the text',
+            });
+          }
+        }
+        if (checks.includes('text_size') && runs.length > 0) {
+          const smallest = Math.min(...runs.map((run) => run.fontSize));
+          if (smallest < minFontSize) {
+            report({
+              type: 'text_size', severity: 'warning', nodeId: node.id, nodeName: node.name,
+              message: `Font size ${smallest}px is below the minimum ${minFontSize}px`,
+              details: { fontSize: smallest, minFontSize },
+              suggestedFix: `Increase the font size to at least ${minFontSize}px`,
+            });
+          }
+        }
+        return true;
+      }
+
+      if (checks.includes('touch_targets') && isButtonLike(node) && 'width' in node &&
+          (node.width < minTouchTarget || node.height < minTouchTarget)) {
+        report({
+          type: 'touch_target', severity: 'warning', nodeId: node.id, nodeName: node.name,
+          message: `Touch target ${Math.round(node.width)}×${Math.round(node.height)} is smaller than ${minTouchTarget}×${minTouchTarget}`,
+          details: { width: node.width, height: node.height, minTouchTarget },
+          suggestedFix: `Resize or pad the hit area to at least ${Math.ceil(Math.max(node.width, minTouchTarget))}×${Math.ceil(Math.max(node.height, minTouchTarget))}`,
+        });
+      }
+
+      if (checks.includes('image_descriptions') && 'fills' in node && Array.isArray((node as GeometryMixin).fills) &&
+          ((node as GeometryMixin).fills as Paint[]).some((paint) => paint.type === 'IMAGE' && paint.visible !== false)) {
+        const description = 'description' in node ? String((node as ComponentNode).description ?? '').trim() : '';
+        if (!description && A11Y_GENERIC_LAYER_NAME.test(node.name.trim())) {
+          report({
+            type: 'image_description', severity: 'warning', nodeId: node.id, nodeName: node.name,
+            message: 'Image has no description (generic layer name)',
+            suggestedFix: 'Rename the layer to describe the image content; it serves as alt text in handoff',
+          });
+        }
+      }
+      return true;
+    });
+  }
+
+  const offenderIds = [...new Set(issues.map((issue) => issue.nodeId))];
+  let selection: any = null;
+  if (options.selectOffenders === true && offenderIds.length > 0) {
+    selection = await selectNodes(offenderIds, false, options.focus !== false);
   }
+
   return {
-    undone: undoSteps,
-    operationId: operationId || null,
-    note: 'Applied via Figma undo stack',
+    checked: checks,
+    level,
+    nodesScanned,
+    summary: {
+      errors: issues.filter((issue) => issue.severity === 'error').length,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+      info: issues.filter((issue) => issue.severity === 'info').length,
+    },
+    issues,
+    truncated,
+    offenderIds,
+    ...(selection ? { selection } : {}),
   };
 }
 
-async function selectNodes(nodeIds: string[], append: boolean = false, focus: boolean = true): Promise<any> {
-  if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
-    throw new Error('nodeIds is required');
-  }
+interface ContrastFix {
+  node: TextNode;
+  required: number;
+  ratioBefore: number;
+  ratioAfter: number;
+  colorBefore: RGB;
+  colorAfter: RGB;
+  token: { type: 'variable'; variable: Variable } | { type: 'style'; style: PaintStyle } | null;
+}
 
-  const resolved: SceneNode[] = [];
-  const missing: string[] = [];
+interface ContrastFixPlan {
+  level: 'AA' | 'AAA';
+  fixes: ContrastFix[];
+  skipped: Array<{ nodeId: string; nodeName: string; reason: string }>;
+  tokensConsidered: { variables: number; styles: number };
+}
 
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id);
-    if (!node || !('visible' in node)) {
-      missing.push(id);
-      continue;
-    }
-    resolved.push(node as SceneNode);
-  }
+function colorDistance(a: RGB, b: RGB): number {
+  return Math.sqrt(Math.pow(a.r - b.r, 2) + Math.pow(a.g - b.g, 2) + Math.pow(a.b - b.b, 2));
+}
 
-  if (resolved.length === 0) {
-    throw new Error(`No selectable nodes found. Missing: ${missing.join(', ')}`);
+// Lowest ratio/required over the node's runs and background variants for a candidate fill; >= 1 passes.
+function contrastScore(color: RGB, opacity: number, runs: ReturnType<typeof textSolidFills>, backgrounds: RGB[], thresholds: { normal: number; large: number }): number {
+  let score = Infinity;
+  for (const run of runs) {
+    const large = run.fontSize >= 24 || (run.bold && run.fontSize >= 18.66);
+    const required = large ? thresholds.large : thresholds.normal;
+    for (const background of backgrounds) {
+      score = Math.min(score, contrastRatio(blendOver(color, opacity, background), background) / required);
+    }
   }
+  return score;
+}
 
-  const targetPage = getNodePage(resolved[0]);
-  if (targetPage && figma.currentPage.id !== targetPage.id) {
-    await figma.setCurrentPageAsync(targetPage);
+async function collectContrastTextNodes(options: any): Promise<TextNode[]> {
+  const roots: Array<DocumentNode | PageNode | SceneNode> = [];
+  if (Array.isArray(options.nodeIds) && options.nodeIds.length > 0) {
+    for (const id of options.nodeIds) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (node && node.type !== 'DOCUMENT') roots.push(node as PageNode | SceneNode);
+    }
+  } else {
+    roots.push(...await resolveScopeRoots(options.scope ?? 'page', options.pageIds, options.pageNames));
+  }
+  const texts: TextNode[] = [];
+  for (const root of roots) {
+    await traverseNodes(root, async (node) => {
+      if (!node.visible) return false;
+      if (node.type === 'TEXT') texts.push(node);
+      return true;
+    });
+  }
+  return texts;
+}
+
+// Shared by fix_contrast and its dryRun planner: finds failing text and picks a token or the nearest passing hex for each.
+async function planContrastFixes(options: any): Promise<ContrastFixPlan> {
+  const level: 'AA' | 'AAA' = options.level === 'AAA' ? 'AAA' : 'AA';
+  const thresholds = A11Y_CONTRAST_THRESHOLDS[level];
+  const preferTokens = options.preferTokens !== false;
+  const maxTokenDistance = options.maxTokenDistance ?? 0.5;
+
+  const styles: Array<{ style: PaintStyle; paint: SolidPaint }> = [];
+  const variables: Variable[] = [];
+  if (preferTokens) {
+    for (const entry of (await getAllStyles('PAINT')).styles) {
+      const style = await figma.getStyleByIdAsync(entry.id) as PaintStyle | null;
+      const paints = style ? style.paints.filter((paint) => paint.visible !== false) : [];
+      if (paints.length === 1 && paints[0].type === 'SOLID') styles.push({ style: style!, paint: paints[0] as SolidPaint });
+    }
+    for (const entry of (await getAllVariables()).variables) {
+      if (entry.type !== 'COLOR') continue;
+      const variable = await figma.variables.getVariableByIdAsync(entry.id);
+      const scopes = variable ? variable.scopes : [];
+      if (variable && (scopes.length === 0 || scopes.some((scope) => scope === 'ALL_SCOPES' || scope === 'ALL_FILLS' || scope === 'TEXT_FILL'))) {
+        variables.push(variable);
+      }
+    }
   }
 
-  const samePageNodes = resolved.filter((n) => getNodePage(n)?.id === figma.currentPage.id);
-  const skippedCrossPage = resolved
-    .filter((n) => getNodePage(n)?.id !== figma.currentPage.id)
-    .map((n) => n.id);
-
-  const selected = append
-    ? dedupeNodes([...figma.currentPage.selection, ...samePageNodes])
-    : samePageNodes;
+  const plan: ContrastFixPlan = { level, fixes: [], skipped: [], tokensConsidered: { variables: variables.length, styles: styles.length } };
+  for (const node of await collectContrastTextNodes(options)) {
+    const runs = textSolidFills(node);
+    if (runs.length === 0) continue;
+    const { backgrounds, worst } = measureTextContrast(node, runs, thresholds);
+    if (!worst || worst.ratio >= worst.required) continue;
+    const skip = (reason: string) => plan.skipped.push({ nodeId: node.id, nodeName: node.name, reason });
+    if (backgrounds.indeterminate) {
+      skip('Background includes an image');
+      continue;
+    }
+    if (node.fills === figma.mixed) {
+      skip('Text has mixed fills');
+      continue;
+    }
 
-  figma.currentPage.selection = selected;
-  if (focus && selected.length > 0) {
-    figma.viewport.scrollAndZoomIntoView(selected);
+    const original = runs[0].color;
+    const score = (color: RGB, opacity: number) => contrastScore(color, opacity * node.opacity, runs, backgrounds.colors, thresholds);
+    let best: { color: RGB; distance: number; score: number; token: ContrastFix['token'] } | null = null;
+    const consider = (color: RGB, opacity: number, token: ContrastFix['token']) => {
+      const distance = colorDistance(color, original);
+      const candidateScore = score(color, opacity);
+      if (distance > maxTokenDistance || candidateScore < 1) return;
+      if (!best || distance < best.distance) best = { color, distance, score: candidateScore, token };
+    };
+    for (const variable of variables) {
+      const resolved = variable.resolveForConsumer(node).value as RGBA;
+      if (resolved && typeof resolved === 'object' && 'r' in resolved) consider(resolved, resolved.a ?? 1, { type: 'variable', variable });
+    }
+    for (const { style, paint } of styles) consider(paint.color, paint.opacity ?? 1, { type: 'style', style });
+
+    if (!best) {
+      // No token close enough: walk the raw color toward black/white against each failing background in turn.
+      let color: RGB = worst.text;
+      for (const background of [worst.background, ...backgrounds.colors]) {
+        if (score(color, 1) >= 1) break;
+        const hex = suggestContrastColor(color, background, worst.required);
+        color = hex ? parseHexToRGB(hex) ?? color : color;
+      }
+      const rawScore = score(color, 1);
+      if (rawScore < 1) {
+        skip('No single color passes on every background variant');
+        continue;
+      }
+      best = { color, distance: colorDistance(color, original), score: rawScore, token: null };
+    }
+
+    const chosen = best as { color: RGB; distance: number; score: number; token: ContrastFix['token'] };
+    plan.fixes.push({
+      node,
+      required: worst.required,
+      ratioBefore: worst.ratio,
+      ratioAfter: chosen.score * worst.required,
+      colorBefore: original,
+      colorAfter: { r: chosen.color.r, g: chosen.color.g, b: chosen.color.b },
+      token: chosen.token,
+    });
   }
+  return plan;
+}
+
+function contrastFixPaint(fix: ContrastFix): SolidPaint {
+  const paint: SolidPaint = { type: 'SOLID', color: fix.colorAfter };
+  return fix.token?.type === 'variable' ? figma.variables.setBoundVariableForPaint(paint, 'color', fix.token.variable) : paint;
+}
 
+function describeContrastFix(fix: ContrastFix): any {
   return {
-    selectedCount: selected.length,
-    selectedIds: selected.map((n) => n.id),
-    missingIds: missing,
-    skippedCrossPageIds: skippedCrossPage,
-    pageId: figma.currentPage.id,
+    nodeId: fix.node.id,
+    nodeName: fix.node.name,
+    required: fix.required,
+    ratioBefore: Math.round(fix.ratioBefore * 100) / 100,
+    ratioAfter: Math.round(fix.ratioAfter * 100) / 100,
+    colorBefore: designTokenColor(fix.colorBefore, 1).hex,
+    colorAfter: designTokenColor(fix.colorAfter, 1).hex,
+    token: fix.token?.type === 'variable'
+      ? { type: 'variable', id: fix.token.variable.id, name: fix.token.variable.name }
+      : fix.token?.type === 'style'
+        ? { type: 'style', id: fix.token.style.id, name: fix.token.style.name }
+        : null,
   };
 }
 
-async function setFocus(nodeIds?: string[], nodeId?: string, x?: number, y?: number, zoom?: number): Promise<any> {
-  if (typeof x === 'number' && typeof y === 'number') {
-    figma.viewport.center = { x, y };
-    if (typeof zoom === 'number' && Number.isFinite(zoom) && zoom > 0) {
-      figma.viewport.zoom = zoom;
+// scan: the plan the journal capture already computed for this call, so the page is walked once.
+async function fixContrast(options: any, scan?: ContrastFixPlan): Promise<any> {
+  const plan = scan ?? await planContrastFixes(options);
+  for (const fix of plan.fixes) {
+    if (fix.token?.type === 'style') {
+      await fix.node.setFillStyleIdAsync(fix.token.style.id);
+    } else if (fix.token?.type === 'variable') {
+      fix.node.fills = [{ type: 'SOLID', color: fix.colorAfter }];
+      await bindVariableToNode(fix.node.id, fix.token.variable.id, 'FILLS');
+    } else {
+      fix.node.fills = [contrastFixPaint(fix)];
     }
-    return { mode: 'coordinates', center: figma.viewport.center, zoom: figma.viewport.zoom };
   }
+  return {
+    level: plan.level,
+    fixed: plan.fixes.length,
+    fixes: plan.fixes.map(describeContrastFix),
+    skipped: plan.skipped,
+    tokensConsidered: plan.tokensConsidered,
+  };
+}
 
-  const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : (nodeId ? [nodeId] : []);
-  if (ids.length === 0) {
-    throw new Error('Provide nodeId/nodeIds, or x+y coordinates');
+// dryRun planner: one fills (and fillStyleId) modification per failing text node.
+async function planFixContrast(ctx: PlanContext, args: any): Promise<void> {
+  const plan = await planContrastFixes(args);
+  for (const fix of plan.fixes) {
+    ctx.targets.set(fix.node.id, fix.node);
+    const properties: Record<string, { before: any; after: any }> = {
+      fills: { before: JSON.parse(JSON.stringify(fix.node.fills)), after: JSON.parse(JSON.stringify([contrastFixPaint(fix)])) },
+    };
+    const styleId = fix.token?.type === 'style' ? fix.token.style.id : '';
+    if (fix.node.fillStyleId !== styleId) properties.fillStyleId = { before: fix.node.fillStyleId, after: styleId };
+    addPlannedModification(ctx, fix.node, properties);
   }
+  for (const entry of plan.skipped) ctx.warnings.push(`${entry.nodeName} (${entry.nodeId}): ${entry.reason}`);
+}
 
-  const nodes: SceneNode[] = [];
-  const pages: PageNode[] = [];
-  for (const id of ids) {
-    const node = await figma.getNodeByIdAsync(id);
-    if (!node) continue;
-    if (node.type === 'PAGE') {
-      pages.push(node as PageNode);
-      continue;
-    }
-    if ('visible' in node) nodes.push(node as SceneNode);
-  }
+type DesignLintRuleId =
+  | 'unstyled-fill' | 'detached-text-style' | 'off-grid-spacing' | 'off-scale-radius'
+  | 'hidden-layer' | 'empty-frame' | 'default-name' | 'instance-overrides';
 
-  // Allow focusing by page id(s): switch to the first provided page.
-  if (nodes.length === 0 && pages.length > 0) {
-    const targetPage = pages[0];
-    if (figma.currentPage.id !== targetPage.id) {
-      await figma.setCurrentPageAsync(targetPage);
-    }
-    return {
-      mode: 'page',
-      pageId: figma.currentPage.id,
-      pageName: figma.currentPage.name,
-      focusedIds: [],
-    };
-  }
+interface DesignLintRule {
+  enabled: boolean;
+  severity: 'error' | 'warning' | 'info';
+  [option: string]: any;
+}
 
-  if (nodes.length === 0) {
-    throw new Error('No focusable nodes found');
+type DesignLintAutofix =
+  | { action: 'apply_fill_style' | 'apply_text_style'; styleId: string; styleName: string }
+  | { action: 'set_properties'; properties: Record<string, number> }
+  | { action: 'rename'; name: string }
+  | { action: 'delete' }
+  | { action: 'reset_overrides' };
+
+interface DesignLintFinding {
+  rule: DesignLintRuleId;
+  severity: 'error' | 'warning' | 'info';
+  nodeId: string;
+  nodeName: string;
+  message: string;
+  details?: any;
+  autofix?: DesignLintAutofix;
+}
+
+const DESIGN_LINT_DEFAULT_RULES: Record<DesignLintRuleId, DesignLintRule> = {
+  'unstyled-fill': { enabled: true, severity: 'warning', allowedColors: [] },
+  'detached-text-style': { enabled: true, severity: 'warning' },
+  'off-grid-spacing': { enabled: true, severity: 'warning', grid: 4, allowedValues: [] },
+  'off-scale-radius': { enabled: true, severity: 'warning', scale: [0, 2, 4, 6, 8, 12, 16, 24, 32] },
+  'hidden-layer': { enabled: true, severity: 'info' },
+  'empty-frame': { enabled: true, severity: 'warning' },
+  'default-name': { enabled: true, severity: 'info' },
+  'instance-overrides': { enabled: true, severity: 'warning', allowedFields: ['characters', 'text', 'visible', 'name', 'componentProperties'] },
+};
+const DESIGN_LINT_DEFAULT_NAME = /^(Frame|Rectangle|Ellipse|Group|Vector|Text|Line|Polygon|Star|Component|Instance|Section|Image|Slice|Union|Subtract|Intersect|Exclude)\s\d+$/;
+const DESIGN_LINT_SPACING_FIELDS = ['itemSpacing', 'counterAxisSpacing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'];
+const DESIGN_LINT_RADIUS_FIELDS = ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'];
+// Destructive autofixes only run for rules the caller names in fixRules.
+const DESIGN_LINT_OPT_IN_ACTIONS = new Set<DesignLintAutofix['action']>(['delete', 'reset_overrides']);
+
+// Config rules: false disables, true keeps defaults, an object overrides severity/options (enabled: false also disables).
+function resolveDesignLintRules(config: any): Record<DesignLintRuleId, DesignLintRule> {
+  const parsed = typeof config === 'string' ? JSON.parse(config) : (config ?? {});
+  const overrides = parsed.rules ?? {};
+  const rules = {} as Record<DesignLintRuleId, DesignLintRule>;
+  for (const id of Object.keys(overrides)) {
+    if (!(id in DESIGN_LINT_DEFAULT_RULES)) throw new Error(`Unknown lint rule: ${id}. Supported: ${Object.keys(DESIGN_LINT_DEFAULT_RULES).join(', ')}`);
   }
+  for (const id of Object.keys(DESIGN_LINT_DEFAULT_RULES) as DesignLintRuleId[]) {
+    const override = overrides[id];
+    const base = DESIGN_LINT_DEFAULT_RULES[id];
+    if (override === false) rules[id] = { ...base, enabled: false };
+    else if (override && typeof override === 'object') rules[id] = { ...base, ...override, enabled: override.enabled !== false };
+    else rules[id] = { ...base };
+  }
+  return rules;
+}
 
-  const targetPage = getNodePage(nodes[0]);
-  if (targetPage && figma.currentPage.id !== targetPage.id) {
-    await figma.setCurrentPageAsync(targetPage);
+function shouldApplyDesignLintFix(finding: DesignLintFinding, fixRules: string[] | undefined): boolean {
+  if (!finding.autofix) return false;
+  if (Array.isArray(fixRules)) return fixRules.includes(finding.rule);
+  return !DESIGN_LINT_OPT_IN_ACTIONS.has(finding.autofix.action);
+}
+
+// Hidden layers in components may back a BOOLEAN property or a variant state; they are intentional.
+function isIntentionallyHidden(node: SceneNode): boolean {
+  if ((node as any).componentPropertyReferences?.visible) return true;
+  for (let current: BaseNode | null = node; current && current.type !== 'PAGE'; current = current.parent) {
+    if (current.type === 'COMPONENT' || current.type === 'COMPONENT_SET') return true;
   }
+  return false;
+}
 
-  const samePageNodes = nodes.filter((n) => getNodePage(n)?.id === figma.currentPage.id);
-  figma.viewport.scrollAndZoomIntoView(samePageNodes);
+function paintHex(paint: SolidPaint): string {
+  return designTokenColor(paint.color, paint.opacity ?? 1).hex.toUpperCase();
+}
 
-  return {
-    mode: 'nodes',
-    focusedIds: samePageNodes.map((n) => n.id),
-    pageId: figma.currentPage.id,
-  };
+function nearestScaleValue(value: number, scale: number[]): number {
+  return scale.reduce((best, step) => (Math.abs(step - value) < Math.abs(best - value) ? step : best), scale[0]);
 }
 
-async function moveNodes(nodeIds: string[], deltaX: number = 0, deltaY: number = 0): Promise<any> {
-  if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
-    throw new Error('nodeIds is required');
-  }
-  if (!Number.isFinite(deltaX) || !Number.isFinite(deltaY)) {
-    throw new Error('deltaX and deltaY must be numbers');
+async function lintDesignNode(
+  node: SceneNode,
+  rules: Record<DesignLintRuleId, DesignLintRule>,
+  styles: { paint: Map<string, PaintStyle>; text: TextStyle[] },
+  report: (rule: DesignLintRuleId, node: SceneNode, message: string, details?: any, autofix?: DesignLintAutofix) => void,
+  nameIndex: { value: number }
+): Promise<void> {
+  if (rules['unstyled-fill'].enabled && 'fills' in node && Array.isArray((node as GeometryMixin).fills) &&
+      (node as any).fillStyleId === '') {
+    const allowed = new Set((rules['unstyled-fill'].allowedColors as string[]).map((color) => color.toUpperCase()));
+    const solids = ((node as GeometryMixin).fills as Paint[])
+      .filter((paint) => paint.type === 'SOLID' && paint.visible !== false && !paint.boundVariables?.color) as SolidPaint[];
+    const offending = solids.filter((paint) => !allowed.has(paintHex(paint)));
+    if (offending.length > 0) {
+      const hex = paintHex(offending[0]);
+      const style = offending.length === 1 && solids.length === ((node as GeometryMixin).fills as Paint[]).length ? styles.paint.get(hex) : undefined;
+      report('unstyled-fill', node, `Fill ${hex} is not bound to a paint style or variable`, { colors: offending.map(paintHex) },
+        style ? { action: 'apply_fill_style', styleId: style.id, styleName: style.name } : undefined);
+    }
+  }
+
+  if (rules['detached-text-style'].enabled && node.type === 'TEXT' && node.textStyleId !== figma.mixed && node.textStyleId === '') {
+    const fontName = node.fontName;
+    const fontSize = node.fontSize;
+    const style = fontName !== figma.mixed && fontSize !== figma.mixed
+      ? styles.text.find((candidate) => candidate.fontName.family === fontName.family &&
+          candidate.fontName.style === fontName.style && candidate.fontSize === fontSize)
+      : undefined;
+    report('detached-text-style', node, 'Text does not use a text style',
+      fontName !== figma.mixed && fontSize !== figma.mixed ? { fontFamily: fontName.family, fontStyle: fontName.style, fontSize } : undefined,
+      style ? { action: 'apply_text_style', styleId: style.id, styleName: style.name } : undefined);
+  }
+
+  if (rules['off-grid-spacing'].enabled && 'layoutMode' in node && (node as FrameNode).layoutMode !== 'NONE') {
+    const grid = Number(rules['off-grid-spacing'].grid) || 4;
+    const allowed = new Set<number>(rules['off-grid-spacing'].allowedValues);
+    const properties: Record<string, number> = {};
+    const values: Record<string, number> = {};
+    for (const field of DESIGN_LINT_SPACING_FIELDS) {
+      if (field === 'counterAxisSpacing' && (node as FrameNode).layoutWrap !== 'WRAP') continue;
+      const value = (node as any)[field];
+      if (typeof value !== 'number' || value % grid === 0 || allowed.has(value)) continue;
+      values[field] = value;
+      properties[field] = Math.round(value / grid) * grid;
+    }
+    if (Object.keys(properties).length > 0) {
+      report('off-grid-spacing', node, `Spacing is off the ${grid}px grid: ${Object.entries(values).map(([field, value]) => `${field}=${value}`).join(', ')}`,
+        { grid, values }, { action: 'set_properties', properties });
+    }
+  }
+
+  if (rules['off-scale-radius'].enabled && 'cornerRadius' in node && 'width' in node) {
+    const scale = [...(rules['off-scale-radius'].scale as number[])].sort((a, b) => a - b);
+    const pill = Math.min(node.width, node.height) / 2;
+    const fields = (node as any).cornerRadius === figma.mixed ? DESIGN_LINT_RADIUS_FIELDS.filter((field) => field in node) : ['cornerRadius'];
+    const properties: Record<string, number> = {};
+    for (const field of fields) {
+      const value = (node as any)[field];
+      if (typeof value !== 'number' || scale.includes(value) || value >= pill - 0.5) continue;
+      properties[field] = nearestScaleValue(value, scale);
+    }
+    if (Object.keys(properties).length > 0) {
+      const values: Record<string, number> = {};
+      for (const field of Object.keys(properties)) values[field] = (node as any)[field];
+      report('off-scale-radius', node, `Corner radius is not on the scale [${scale.join(', ')}]`, { values }, { action: 'set_properties', properties });
+    }
+  }
+
+  if (rules['empty-frame'].enabled && node.type === 'FRAME' && node.children.length === 0) {
+    const painted = [node.fills, node.strokes, node.effects].some((list) => Array.isArray(list) && (list as any[]).some((item) => item.visible !== false));
+    report('empty-frame', node, painted ? 'Frame has no children (used as a shape?)' : 'Frame is empty', undefined,
+      painted ? undefined : { action: 'delete' });
+  }
+
+  if (rules['default-name'].enabled && DESIGN_LINT_DEFAULT_NAME.test(node.name)) {
+    const name = node.type === 'TEXT'
+      ? node.characters.replace(/\s+/g, ' ').trim().slice(0, 40)
+      : generateSemanticName(node, nameIndex.value++);
+    report('default-name', node, `Layer has a default name "${node.name}"`, undefined, name ? { action: 'rename', name } : undefined);
+  }
+
+  if (rules['instance-overrides'].enabled && node.type === 'INSTANCE') {
+    const main = await getInstanceMainComponentSafe(node);
+    if (!main) {
+      report('instance-overrides', node, 'Instance has no main component (deleted or unavailable)', undefined);
+      return;
+    }
+    const allowed = new Set<string>(rules['instance-overrides'].allowedFields);
+    const breaking = node.overrides
+      .map((override) => ({ id: override.id, fields: override.overriddenFields.filter((field) => !allowed.has(field)) }))
+      .filter((override) => override.fields.length > 0);
+    if (breaking.length > 0) {
+      const fields = [...new Set(breaking.reduce((all: string[], override) => all.concat(override.fields), []))];
+      report('instance-overrides', node, `Instance of ${main.name} overrides ${fields.join(', ')}`,
+        { mainComponentId: main.id, overrides: breaking.slice(0, 20) }, { action: 'reset_overrides' });
+    }
+  }
+}
+
+async function applyDesignLintAutofix(node: SceneNode, autofix: DesignLintAutofix): Promise<void> {
+  switch (autofix.action) {
+    case 'apply_fill_style':
+    case 'apply_text_style':
+      await applyStyleToNodes(autofix.styleId, [node.id]);
+      break;
+    case 'set_properties':
+      for (const [field, value] of Object.entries(autofix.properties)) (node as any)[field] = value;
+      break;
+    case 'rename':
+      node.name = autofix.name;
+      break;
+    case 'delete':
+      node.remove();
+      break;
+    case 'reset_overrides':
+      (node as InstanceNode).resetOverrides();
+      break;
   }
+}
 
-  const moved: Array<{ id: string; x: number; y: number }> = [];
-  const skipped: string[] = [];
+interface DesignLintScan {
+  rules: Record<DesignLintRuleId, DesignLintRule>;
+  findings: DesignLintFinding[];
+  nodes: Map<string, SceneNode>;
+  nodesScanned: number;
+  truncated: boolean;
+}
 
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id);
-    if (!node || !('x' in node) || !('y' in node)) {
-      skipped.push(id);
-      continue;
+// Shared by lint_design and its dryRun planner.
+async function runDesignLint(options: any): Promise<DesignLintScan> {
+  const rules = resolveDesignLintRules(options.config);
+  const maxFindings = options.maxFindings ?? 500;
+  const roots = await resolveScopeRoots(options.scope ?? 'page', options.pageIds, options.pageNames);
+  const styles = { paint: new Map<string, PaintStyle>(), text: [] as TextStyle[] };
+  for (const entry of (await getAllStyles('ALL')).styles) {
+    const style = await figma.getStyleByIdAsync(entry.id);
+    if (style?.type === 'PAINT') {
+      const paints = (style as PaintStyle).paints;
+      if (paints.length === 1 && paints[0].type === 'SOLID') styles.paint.set(paintHex(paints[0] as SolidPaint), style as PaintStyle);
+    } else if (style?.type === 'TEXT') {
+      styles.text.push(style as TextStyle);
     }
-    const scene = node as SceneNode;
-    (scene as any).x = (scene as any).x + deltaX;
-    (scene as any).y = (scene as any).y + deltaY;
-    moved.push({ id: scene.id, x: (scene as any).x, y: (scene as any).y });
   }
 
-  return {
-    movedCount: moved.length,
-    moved,
-    skippedIds: skipped,
-    deltaX,
-    deltaY,
+  const findings: DesignLintFinding[] = [];
+  const nodes = new Map<string, SceneNode>();
+  const nameIndex = { value: 0 };
+  let nodesScanned = 0;
+  let truncated = false;
+  const report = (rule: DesignLintRuleId, node: SceneNode, message: string, details?: any, autofix?: DesignLintAutofix) => {
+    if (findings.length >= maxFindings) {
+      truncated = true;
+      return;
+    }
+    nodes.set(node.id, node);
+    findings.push({ rule, severity: rules[rule].severity, nodeId: node.id, nodeName: node.name, message, ...(details ? { details } : {}), ...(autofix ? { autofix } : {}) });
   };
-}
 
-async function setNodePosition(nodeId: string, x: number, y: number): Promise<any> {
-  if (!nodeId) throw new Error('nodeId is required');
-  if (!Number.isFinite(x) || !Number.isFinite(y)) {
-    throw new Error('x and y must be numbers');
+  for (const root of roots) {
+    await traverseNodes(root, async (node) => {
+      nodesScanned++;
+      if (!node.visible) {
+        if (rules['hidden-layer'].enabled && !isIntentionallyHidden(node)) report('hidden-layer', node, 'Layer is hidden', undefined, { action: 'delete' });
+        return false;
+      }
+      await lintDesignNode(node, rules, styles, report, nameIndex);
+      // Instance internals belong to the main component; lint that instead.
+      return node.type !== 'INSTANCE';
+    });
   }
+  return { rules, findings, nodes, nodesScanned, truncated };
+}
 
-  const node = await figma.getNodeByIdAsync(nodeId);
-  if (!node || !('x' in node) || !('y' in node)) {
-    throw new Error('Node not found or node is not positionable');
+async function lintDesign(options: any, scan?: DesignLintScan): Promise<any> {
+  const { rules, findings, nodes, nodesScanned, truncated } = scan ?? await runDesignLint(options);
+  let fixed = 0;
+  const fixErrors: Array<{ nodeId: string; rule: string; error: string }> = [];
+  if (options.fix === true) {
+    for (const finding of findings) {
+      const node = nodes.get(finding.nodeId);
+      if (!shouldApplyDesignLintFix(finding, options.fixRules) || !node || node.removed) continue;
+      try {
+        await applyDesignLintAutofix(node, finding.autofix);
+        fixed++;
+      } catch (error) {
+        fixErrors.push({ nodeId: finding.nodeId, rule: finding.rule, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
   }
 
-  const scene = node as SceneNode;
-  (scene as any).x = x;
-  (scene as any).y = y;
-  return { id: scene.id, x: (scene as any).x, y: (scene as any).y };
+  const byRule: Record<string, number> = {};
+  for (const finding of findings) byRule[finding.rule] = (byRule[finding.rule] ?? 0) + 1;
+  return {
+    rules: Object.keys(rules).filter((id) => rules[id as DesignLintRuleId].enabled),
+    nodesScanned,
+    summary: {
+      errors: findings.filter((finding) => finding.severity === 'error').length,
+      warnings: findings.filter((finding) => finding.severity === 'warning').length,
+      info: findings.filter((finding) => finding.severity === 'info').length,
+      autofixable: findings.filter((finding) => finding.autofix).length,
+      byRule,
+    },
+    findings,
+    truncated,
+    ...(options.fix === true ? { fixed, fixErrors } : {}),
+  };
 }
 
-type ArrangeLayout = 'row' | 'column' | 'grid';
-type ArrangeGroupBy = 'none' | 'type' | 'typeAndComponent';
-type MissingNodeReason =
-  | 'not_found'
-  | 'not_positionable'
-  | 'missing_bounds'
-  | 'cross_page_filtered';
+// dryRun planner: without fix the lint is read-only; with fix each autofix becomes a planned modify/delete.
+async function planLintDesign(ctx: PlanContext, args: any): Promise<void> {
+  if (args.fix !== true) {
+    ctx.warnings.push('lint_design only changes the document with fix: true');
+    return;
+  }
+  const { findings, nodes } = await runDesignLint(args);
+  for (const finding of findings) {
+    const node = nodes.get(finding.nodeId);
+    const autofix = finding.autofix;
+    if (!autofix || !shouldApplyDesignLintFix(finding, args.fixRules) || !node) continue;
+    ctx.targets.set(node.id, node);
+    if (autofix.action === 'delete') {
+      addPlannedDeletion(ctx, node);
+    } else if (autofix.action === 'set_properties') {
+      const properties: Record<string, { before: any; after: any }> = {};
+      for (const [field, value] of Object.entries(autofix.properties)) properties[field] = { before: (node as any)[field], after: value };
+      addPlannedModification(ctx, node, properties);
+    } else if (autofix.action === 'rename') {
+      addPlannedModification(ctx, node, { name: { before: node.name, after: autofix.name } });
+    } else if (autofix.action === 'reset_overrides') {
+      addPlannedModification(ctx, node, { overrides: { before: (node as InstanceNode).overrides, after: [] } });
+    } else {
+      const field = autofix.action === 'apply_fill_style' ? 'fillStyleId' : 'textStyleId';
+      addPlannedModification(ctx, node, { [field]: { before: (node as any)[field], after: autofix.styleId } });
+    }
+  }
+}
 
-type MissingNodeDetail = {
-  id: string;
-  reason: MissingNodeReason;
-  nodeType?: string;
-  pageId?: string | null;
-  note?: string;
-};
+type ConsistencyToken =
+  | { type: 'style'; style: PaintStyle; color: RGB; opacity: number }
+  | { type: 'variable'; variable: Variable };
 
-async function arrangeNodes(
-  nodeIds?: string[],
-  layout: ArrangeLayout = 'row',
-  columns?: number,
-  spacingX: number = 120,
-  spacingY: number = 120,
-  groupBy: ArrangeGroupBy = 'none',
-  startX?: number,
-  startY?: number,
-  withinContainerId?: string,
-  placementPolicy: 'preserve_lane' | 'min_move' | 'strict_no_overlap' = 'min_move',
-  avoidOverlaps: boolean = true,
-  verifyVisual: boolean = false,
-  snapshotMode: 'selection' | 'region' | 'page' = 'selection',
-  snapshotScale: number = 1,
-  focus: boolean = true
-): Promise<any> {
-  const ids = Array.isArray(nodeIds) && nodeIds.length > 0
-    ? Array.from(new Set(nodeIds))
-    : figma.currentPage.selection.map((n) => n.id);
+interface ConsistencyChange {
+  node: SceneNode;
+  kind: 'color' | 'fontSize' | 'spacing';
+  property: string;
+  before: any;
+  after: any;
+  // Colors only: the paint index and the token it snaps to.
+  paintIndex?: number;
+  token?: ConsistencyToken;
+  deltaE?: number;
+}
 
-  if (ids.length === 0) {
-    throw new Error('No nodeIds provided and current selection is empty');
+async function collectConsistencyNodes(options: any): Promise<SceneNode[]> {
+  const roots: Array<DocumentNode | PageNode | SceneNode> = [];
+  if (Array.isArray(options.nodeIds) && options.nodeIds.length > 0) {
+    for (const id of options.nodeIds) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (node && node.type !== 'DOCUMENT') roots.push(node as PageNode | SceneNode);
+    }
+  } else {
+    roots.push(...await resolveScopeRoots(options.scope ?? 'page', options.pageIds, options.pageNames));
   }
-
-  let nodes: SceneNode[] = [];
-  const missingDetails: MissingNodeDetail[] = [];
-  for (const id of ids) {
-    const node = await figma.getNodeByIdAsync(id);
-    if (!node) {
-      missingDetails.push({ id, reason: 'not_found' });
-      continue;
+  const nodes: SceneNode[] = [];
+  for (const root of roots) {
+    await traverseNodes(root, async (node) => {
+      nodes.push(node);
+      // Instance sublayers follow their main component.
+      return node.type !== 'INSTANCE';
+    });
+  }
+  return nodes;
+}
+
+// Shared by fix_consistency, its dryRun planner and its journal target resolver.
+interface ConsistencyFixPlan {
+  changes: ConsistencyChange[];
+  fontScale: number[];
+  warnings: string[];
+}
+
+async function planConsistencyFixes(options: any): Promise<ConsistencyFixPlan> {
+  const checks: string[] = Array.isArray(options.checks) && options.checks.length > 0 ? options.checks : ['colors', 'typography', 'spacing'];
+  const maxDeltaE = options.maxDeltaE ?? 5;
+  const grid = options.grid ?? 4;
+  const maxFontSizeDelta = options.maxFontSizeDelta ?? 4;
+  const warnings: string[] = [];
+  const changes: ConsistencyChange[] = [];
+
+  const paintStyles: Array<{ style: PaintStyle; color: RGB; opacity: number }> = [];
+  const variables: Variable[] = [];
+  let fontScale: number[] = Array.isArray(options.fontScale) ? options.fontScale.map(Number) : [];
+  for (const entry of (await getAllStyles(checks.includes('typography') && fontScale.length === 0 ? 'ALL' : 'PAINT')).styles) {
+    const style = await figma.getStyleByIdAsync(entry.id);
+    if (style?.type === 'PAINT') {
+      const paints = (style as PaintStyle).paints;
+      if (paints.length === 1 && paints[0].type === 'SOLID') {
+        paintStyles.push({ style: style as PaintStyle, color: paints[0].color, opacity: paints[0].opacity ?? 1 });
+      }
+    } else if (style?.type === 'TEXT' && !Array.isArray(options.fontScale)) {
+      fontScale.push((style as TextStyle).fontSize);
+    }
+  }
+  fontScale = [...new Set(fontScale)].sort((a, b) => a - b);
+  if (checks.includes('colors')) {
+    for (const entry of (await getAllVariables()).variables) {
+      if (entry.type !== 'COLOR') continue;
+      const variable = await figma.variables.getVariableByIdAsync(entry.id);
+      if (variable) variables.push(variable);
+    }
+    if (paintStyles.length === 0 && variables.length === 0) warnings.push('No solid paint styles or color variables to snap colors to');
+  }
+  if (checks.includes('typography') && fontScale.length === 0) warnings.push('No text styles (or fontScale) to snap font sizes to');
+
+  for (const node of await collectConsistencyNodes(options)) {
+    if (checks.includes('colors') && (paintStyles.length > 0 || variables.length > 0)) {
+      for (const field of ['fills', 'strokes'] as const) {
+        const styleField = field === 'fills' ? 'fillStyleId' : 'strokeStyleId';
+        if (!(field in node) || (node as any)[styleField] !== '') continue;
+        const paints = (node as any)[field];
+        if (!Array.isArray(paints)) continue;
+        paints.forEach((paint: Paint, index: number) => {
+          if (paint.type !== 'SOLID' || paint.visible === false || paint.boundVariables?.color) return;
+          let best: { token: ConsistencyToken; deltaE: number } | null = null;
+          // A style replaces the whole paint list, so it only fits single-paint nodes with the same opacity.
+          if (paints.length === 1) {
+            for (const candidate of paintStyles) {
+              if (Math.abs(candidate.opacity - (paint.opacity ?? 1)) > 0.01) continue;
+              const deltaE = deltaE2000(paint.color, candidate.color);
+              if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE)) best = { token: { type: 'style', ...candidate }, deltaE };
+            }
+          }
+          for (const variable of variables) {
+            const resolved = variable.resolveForConsumer(node).value as RGBA;
+            if (!resolved || typeof resolved !== 'object' || !('r' in resolved)) continue;
+            const deltaE = deltaE2000(paint.color, resolved);
+            if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE)) best = { token: { type: 'variable', variable }, deltaE };
+          }
+          if (!best) return;
+          const chosen = best as { token: ConsistencyToken; deltaE: number };
+          changes.push({
+            node, kind: 'color', property: field, paintIndex: index, token: chosen.token,
+            deltaE: Math.round(chosen.deltaE * 100) / 100,
+            before: paintHex(paint),
+            after: chosen.token.type === 'style' ? chosen.token.style.name : chosen.token.variable.name,
+          });
+        });
+      }
     }
-    const nodeType = (node as BaseNode).type;
-    const pageId = getNodePage(node)?.id || null;
-    if (!('x' in node) || !('y' in node)) {
-      missingDetails.push({
-        id,
-        reason: 'not_positionable',
-        nodeType,
-        pageId,
-      });
-      continue;
+
+    if (checks.includes('typography') && fontScale.length > 0 && node.type === 'TEXT' &&
+        node.textStyleId === '' && typeof node.fontSize === 'number' && !fontScale.includes(node.fontSize)) {
+      const step = nearestScaleValue(node.fontSize, fontScale);
+      if (Math.abs(step - node.fontSize) <= maxFontSizeDelta) {
+        changes.push({ node, kind: 'fontSize', property: 'fontSize', before: node.fontSize, after: step });
+      }
     }
-    if (!('width' in node) || !('height' in node)) {
-      missingDetails.push({
-        id,
-        reason: 'missing_bounds',
-        nodeType,
-        pageId,
-      });
-      continue;
+
+    if (checks.includes('spacing') && 'layoutMode' in node && (node as FrameNode).layoutMode !== 'NONE') {
+      for (const field of DESIGN_LINT_SPACING_FIELDS) {
+        if (field === 'counterAxisSpacing' && (node as FrameNode).layoutWrap !== 'WRAP') continue;
+        const value = (node as any)[field];
+        if (typeof value !== 'number' || value % grid === 0) continue;
+        changes.push({ node, kind: 'spacing', property: field, before: value, after: Math.round(value / grid) * grid });
+      }
     }
-    nodes.push(node as SceneNode);
   }
+  return { changes, fontScale, warnings };
+}
 
-  if (nodes.length === 0) {
-    throw new Error('No positionable nodes found');
+async function applyConsistencyChange(change: ConsistencyChange): Promise<void> {
+  const node = change.node as any;
+  if (change.kind === 'color') {
+    const token = change.token!;
+    if (token.type === 'style') {
+      await node[change.property === 'fills' ? 'setFillStyleIdAsync' : 'setStrokeStyleIdAsync'](token.style.id);
+    } else {
+      const paints = [...node[change.property]];
+      paints[change.paintIndex!] = figma.variables.setBoundVariableForPaint(paints[change.paintIndex!], 'color', token.variable);
+      node[change.property] = paints;
+    }
+  } else if (change.kind === 'fontSize') {
+    const text = change.node as TextNode;
+    const fonts = text.characters.length > 0 ? text.getRangeAllFontNames(0, text.characters.length) : [text.fontName as FontName];
+    for (const font of fonts) await figma.loadFontAsync(font);
+    text.fontSize = change.after;
+  } else {
+    node[change.property] = change.after;
   }
+}
 
-  const selectedNodeIds = new Set(nodes.map((n) => n.id));
-  nodes = nodes.filter((node) => {
-    let parent = node.parent;
-    while (parent) {
-      if (selectedNodeIds.has(parent.id)) {
-        return false;
-      }
-      parent = parent.parent;
-    }
-    return true;
-  });
-
-  nodes = collapseFullSelectionGroups(nodes);
-
-  if (nodes.length === 0) {
-    throw new Error('No top-level nodes found (selection contains only descendants of other selected nodes)');
-  }
+function describeConsistencyChange(change: ConsistencyChange): any {
+  return {
+    nodeId: change.node.id,
+    nodeName: change.node.name,
+    kind: change.kind,
+    property: change.property,
+    before: change.before,
+    after: change.after,
+    ...(change.token ? {
+      token: change.token.type === 'style'
+        ? { type: 'style', id: change.token.style.id, name: change.token.style.name }
+        : { type: 'variable', id: change.token.variable.id, name: change.token.variable.name },
+      deltaE: change.deltaE,
+    } : {}),
+  };
+}
 
-  const targetPage = getNodePage(nodes[0]);
-  if (targetPage && figma.currentPage.id !== targetPage.id) {
-    await figma.setCurrentPageAsync(targetPage);
+async function fixConsistency(options: any, scan?: ConsistencyFixPlan): Promise<any> {
+  const { changes, fontScale, warnings } = scan ?? await planConsistencyFixes(options);
+  const errors: Array<{ nodeId: string; property: string; error: string }> = [];
+  let applied = 0;
+  for (const change of changes) {
+    try {
+      await applyConsistencyChange(change);
+      applied++;
+    } catch (error) {
+      errors.push({ nodeId: change.node.id, property: change.property, error: error instanceof Error ? error.message : String(error) });
+    }
   }
+  return {
+    applied,
+    summary: {
+      colors: changes.filter((change) => change.kind === 'color').length,
+      fontSizes: changes.filter((change) => change.kind === 'fontSize').length,
+      spacing: changes.filter((change) => change.kind === 'spacing').length,
+    },
+    fontScale,
+    changes: changes.map(describeConsistencyChange),
+    errors,
+    warnings,
+  };
+}
 
-  const samePageNodes = nodes.filter((n) => getNodePage(n)?.id === figma.currentPage.id);
-  for (const node of nodes) {
-    const pageId = getNodePage(node)?.id || null;
-    if (pageId && pageId !== figma.currentPage.id) {
-      missingDetails.push({
-        id: node.id,
-        reason: 'cross_page_filtered',
-        nodeType: node.type,
-        pageId,
-        note: `target_page=${figma.currentPage.id}`,
-      });
+// dryRun planner: changes are grouped per node; color snaps show the paint list with the token bound.
+async function planFixConsistency(ctx: PlanContext, args: any): Promise<void> {
+  const { changes, warnings } = await planConsistencyFixes(args);
+  const byNode = new Map<string, { node: SceneNode; properties: Record<string, { before: any; after: any }> }>();
+  for (const change of changes) {
+    const entry = byNode.get(change.node.id) ?? { node: change.node, properties: {} };
+    byNode.set(change.node.id, entry);
+    if (change.kind !== 'color') {
+      entry.properties[change.property] = { before: change.before, after: change.after };
+    } else if (change.token!.type === 'style') {
+      const styleField = change.property === 'fills' ? 'fillStyleId' : 'strokeStyleId';
+      entry.properties[styleField] = { before: (change.node as any)[styleField], after: change.token!.style.id };
+    } else {
+      const current = entry.properties[change.property]?.after ?? JSON.parse(JSON.stringify((change.node as any)[change.property]));
+      const after = [...current];
+      after[change.paintIndex!] = { ...after[change.paintIndex!], boundVariables: { color: { type: 'VARIABLE_ALIAS', id: change.token!.variable.id } } };
+      entry.properties[change.property] = { before: JSON.parse(JSON.stringify((change.node as any)[change.property])), after };
     }
   }
-  if (samePageNodes.length === 0) {
-    throw new Error('No nodes are on the current page after page switch');
+  for (const { node, properties } of byNode.values()) {
+    ctx.targets.set(node.id, node);
+    addPlannedModification(ctx, node, properties);
   }
+  ctx.warnings.push(...warnings);
+}
 
-  const needsGrouping = groupBy && groupBy !== 'none';
-  const layoutForSort = layout;
-  let sorted = [...samePageNodes].sort((a, b) => {
-    if (layoutForSort === 'column') return (a.y - b.y) || (a.x - b.x);
-    return (a.x - b.x) || (a.y - b.y);
-  });
-  const container = withinContainerId ? await resolveContainer(withinContainerId) : null;
-  const containerPad = 24;
-
-  // Optional: ensure nodes are actual children of target container.
-  let containerizedCount = 0;
-  if (container) {
-    const c = await containerizeNodes(sorted.map((n) => n.id), container.id);
-    containerizedCount = c.containerizedCount;
-    for (let i = 0; i < sorted.length; i++) {
-      const n = await figma.getNodeByIdAsync(sorted[i].id);
-      if (n && 'x' in n && 'y' in n && 'width' in n && 'height' in n) {
-        sorted[i] = n as SceneNode;
+// Each visible solid fill/stroke counts once; instance sublayers are skipped like in fix_consistency.
+async function extractPalette(options: any): Promise<any> {
+  const includeStrokes = options.includeStrokes !== false;
+  const samples: ColorSample[] = [];
+  const nodes = await collectConsistencyNodes(options);
+  for (const node of nodes) {
+    const fields = includeStrokes ? ['fills', 'strokes'] : ['fills'];
+    for (const field of fields) {
+      const paints = (node as any)[field];
+      if (!Array.isArray(paints)) continue;
+      for (const paint of paints) {
+        if (paint.type === 'SOLID' && paint.visible !== false) samples.push({ color: paint.color, id: node.id });
       }
     }
   }
 
-  const arrangementMeta = await Promise.all(sorted.map(async (node) => {
-    const absoluteRect = sceneNodeToRect(node);
-    const parent = node.parent;
-    const localWidth = Number.isFinite((node as SceneNode).width) ? (node as SceneNode).width : absoluteRect.width;
-    const localHeight = Number.isFinite((node as SceneNode).height) ? (node as SceneNode).height : absoluteRect.height;
-    const localRect = {
-      x: node.x,
-      y: node.y,
-      width: localWidth,
-      height: localHeight,
-    };
-    const area = Math.max(0, localRect.width) * Math.max(0, localRect.height);
-    const groupByMode = groupBy || 'none';
-    const groupInfo = await resolveArrangeGroup(node, groupByMode);
+  const round = (value: number, digits: number) => Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits);
+  const maxNodeIds = options.maxNodeIdsPerColor ?? 50;
+  const palette = clusterColors(samples, options.maxDeltaE ?? 6, options.maxColors ?? 12).map((entry) => {
+    const oklch = rgbToOklch(entry.color);
+    const hsl = rgbToHsl(entry.color);
+    const nodeIds = Array.from(new Set(entry.ids));
     return {
-      node,
-      rect: absoluteRect,
-      localRect,
-      area,
-      parentId: parent ? parent.id : 'page',
-      ...groupInfo,
+      hex: entry.hex,
+      name: entry.name,
+      family: entry.family,
+      count: entry.weight,
+      share: entry.share,
+      members: entry.members,
+      oklch: { l: round(oklch.l, 3), c: round(oklch.c, 3), h: round(oklch.h, 1) },
+      hsl: { h: round(hsl.h, 1), s: round(hsl.s, 3), l: round(hsl.l, 3) },
+      nodeIds: nodeIds.slice(0, maxNodeIds),
+      truncatedNodeIds: nodeIds.length > maxNodeIds,
     };
-  }));
+  });
+  return {
+    scannedNodes: nodes.length,
+    paints: samples.length,
+    distinctColors: new Set(samples.map((sample) => rgbToHex(sample.color))).size,
+    palette,
+  };
+}
 
-  const beforeUnion = getUnionBounds(arrangementMeta.map((m) => m.rect));
-  const gridCols = layout === 'grid'
-    ? Math.max(1, Number.isFinite(columns as number) ? Math.floor(columns as number) : Math.ceil(Math.sqrt(arrangementMeta.length)))
-    : 1;
-  const compactSpacingX = layout === 'row'
-    ? Math.max(8, needsGrouping ? Math.min(spacingX, 80) : spacingX)
-    : Math.max(8, spacingX);
-  const compactSpacingY = layout === 'row'
-    ? Math.max(8, needsGrouping ? Math.min(spacingY, 60) : spacingY)
-    : Math.max(8, spacingY);
-  const groupGap = Math.max(compactSpacingX * 1.5, 24);
+// ===== Utility Implementation =====
 
-  const targetIds = new Set(sorted.map((n) => n.id));
-  const ancestorIds = new Set<string>();
-  for (const node of sorted) {
-    let cur: BaseNode | null = node.parent;
-    while (cur) {
-      ancestorIds.add(cur.id);
-      cur = cur.parent;
+async function getDocumentInfo(
+  includeChildren: boolean = true,
+  maxDepth: number = 10,
+  maxPages: number = 100,
+  maxNodesPerPage: number = 1200,
+  maxChildrenPerNode: number = 200
+): Promise<any> {
+  if (includeChildren) await ensureAllPagesLoaded();
+
+  const safeMaxPages = Math.max(1, Math.min(500, Number.isFinite(maxPages) ? Math.floor(maxPages) : 100));
+  const safeMaxNodesPerPage = Math.max(100, Math.min(10000, Number.isFinite(maxNodesPerPage) ? Math.floor(maxNodesPerPage) : 1200));
+  const safeMaxChildrenPerNode = Math.max(20, Math.min(1000, Number.isFinite(maxChildrenPerNode) ? Math.floor(maxChildrenPerNode) : 200));
+
+  const sourcePages = figma.root.children.slice(0, safeMaxPages);
+  const pages = sourcePages.map(page => {
+    if (!includeChildren) {
+      return { id: page.id, name: page.name, children: undefined };
     }
-  }
-  const blockersByParent = new Map<string, Array<{ x: number; y: number; width: number; height: number }>>();
-  if (avoidOverlaps) {
-    await traverseNodes(figma.currentPage, async (node) => {
-      if (
-        !targetIds.has(node.id) &&
-        !ancestorIds.has(node.id) &&
-        node.type !== 'SECTION' &&
-        'x' in node && 'y' in node && 'width' in node && 'height' in node
-      ) {
-        const parent = node.parent;
-        const parentId = parent && parent.type !== 'PAGE' ? parent.id : 'page';
-        const sceneRect = sceneNodeToRect(node);
-        const list = blockersByParent.get(parentId) || [];
-        list.push({
-          x: (node as SceneNode).x,
-          y: (node as SceneNode).y,
-          width: (node as SceneNode).width,
-          height: (node as SceneNode).height,
-        });
-        blockersByParent.set(parentId, list);
-      }
-      return true;
-    });
-  }
+    const state = { remaining: safeMaxNodesPerPage, truncated: false };
+    const children = getNodeChildren(page, maxDepth, 0, state, safeMaxChildrenPerNode);
+    return {
+      id: page.id,
+      name: page.name,
+      children,
+      childrenTruncated: state.truncated,
+      maxNodesPerPage: safeMaxNodesPerPage,
+      maxChildrenPerNode: safeMaxChildrenPerNode,
+    };
+  });
 
-  const arranged: Array<{ id: string; x: number; y: number; groupBy?: string; groupLabel?: string; area?: number }> = [];
-  const allBlockers = [...blockersByParent.values()].flat();
-  const beforeQuality = evaluateArrangementQuality(arrangementMeta.map((item) => item.rect), allBlockers);
+  return {
+    id: figma.root.id,
+    name: figma.root.name,
+    type: 'DOCUMENT',
+    currentPage: {
+      id: figma.currentPage.id,
+      name: figma.currentPage.name,
+    },
+    pages,
+    pagesTruncated: figma.root.children.length > sourcePages.length,
+    maxPages: safeMaxPages,
+  };
+}
 
-  const parentGroups = new Map<string, typeof arrangementMeta>();
-  for (const item of arrangementMeta) {
-    const parentId = item.parentId || 'page';
-    if (!parentGroups.has(parentId)) parentGroups.set(parentId, []);
-    parentGroups.get(parentId)!.push(item);
-  }
+async function getPageInfo(
+  pageId: string,
+  maxDepth: number = 10,
+  maxNodes: number = 1200,
+  maxChildrenPerNode: number = 200
+): Promise<any> {
+  const page = await figma.getNodeByIdAsync(pageId);
+  if (!page || page.type !== 'PAGE') throw new Error(`Page not found: ${pageId}`);
+  await page.loadAsync();
 
-  const parentIds = [...parentGroups.keys()];
-  for (const parentId of parentIds) {
-    const parentItems = parentGroups.get(parentId)!;
-    if (parentItems.length === 0) continue;
+  const safeMaxNodes = Math.max(100, Math.min(10000, Number.isFinite(maxNodes) ? Math.floor(maxNodes) : 1200));
+  const safeMaxChildrenPerNode = Math.max(20, Math.min(1000, Number.isFinite(maxChildrenPerNode) ? Math.floor(maxChildrenPerNode) : 200));
+  const state = { remaining: safeMaxNodes, truncated: false };
+  const children = getNodeChildren(page, maxDepth, 0, state, safeMaxChildrenPerNode);
 
-    const placedRects: Array<{ x: number; y: number; width: number; height: number }> = [];
-    const localBlockers = blockersByParent.get(parentId) || [];
-    const baseX = container
-      ? Math.max(Number.isFinite(startX as number) ? (startX as number) : containerPad, containerPad)
-      : (Number.isFinite(startX as number)
-        ? (startX as number)
-        : Math.min(...parentItems.map((item) => item.localRect.x)));
-    const baseY = container
-      ? Math.max(Number.isFinite(startY as number) ? (startY as number) : containerPad, containerPad)
-      : (Number.isFinite(startY as number)
-        ? (startY as number)
-        : Math.min(...parentItems.map((item) => item.localRect.y)));
-    const localMaxRight = container
-      ? container.width - containerPad
-      : Number.POSITIVE_INFINITY;
-    const localMaxWidth = Math.max(...parentItems.map((item) => item.localRect.width));
-    const localMaxHeight = Math.max(...parentItems.map((item) => item.localRect.height));
+  return {
+    id: page.id,
+    name: page.name,
+    type: 'PAGE',
+    isCurrentPage: page.id === figma.currentPage.id,
+    children,
+    childrenTruncated: state.truncated,
+  };
+}
 
-    if (layout === 'row' && needsGrouping) {
-      const groups = new Map<string, typeof arrangementMeta>();
-      const groupLabels = new Map<string, string>();
+async function getNodeInfo(nodeId: string, includeChildren: boolean = true): Promise<NodeInfo> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
 
-      for (const item of parentItems) {
-        if (!groups.has(item.groupKey)) {
-          groups.set(item.groupKey, []);
-          groupLabels.set(item.groupKey, item.groupLabel);
-        }
-        groups.get(item.groupKey)!.push(item);
-      }
+  return nodeToInfo(node, includeChildren);
+}
 
-      const rows = Array.from(groups.entries()).map(([key, groupItems]) => {
-        const sortedGroup = [...groupItems].sort((a, b) => (b.area - a.area) || (a.localRect.y - b.localRect.y));
-        const area = sortedGroup.reduce((sum, i) => sum + i.area, 0);
-        return {
-          key,
-          label: groupLabels.get(key) || key,
-          area,
-          items: sortedGroup,
-        };
-      }).sort((a, b) => (b.area - a.area) || a.label.localeCompare(b.label));
+async function getSelection(includeChildren: boolean = false): Promise<any> {
+  const selected = figma.currentPage.selection.filter(Boolean);
+  const nodes = selected.map((node) => nodeToInfo(node, includeChildren));
+  return {
+    pageId: figma.currentPage.id,
+    pageName: figma.currentPage.name,
+    selectedCount: nodes.length,
+    nodeIds: nodes.map((n) => n.id),
+    nodes,
+  };
+}
 
-      let groupCursorY = baseY;
+async function setMultipleTextContents(updates: Array<{ nodeId: string; text: string }>, atomic: boolean = false): Promise<any> {
+  const results: any[] = [];
+  const errors: any[] = [];
 
-      for (const row of rows) {
-        let rowCursorX = baseX;
-        let rowCursorY = groupCursorY;
-        let rowMaxHeight = 0;
-        let rowMaxUsedY = baseY;
+  // Group by font to minimize loadFont calls
+  const fontGroups: Map<string, Array<{ node: TextNode; text: string; index: number }>> = new Map();
 
-        for (const item of row.items) {
-          if (localMaxRight !== Number.POSITIVE_INFINITY && rowCursorX + item.localRect.width > localMaxRight && rowCursorX > baseX) {
-            rowCursorX = baseX;
-            rowCursorY += rowMaxHeight + compactSpacingY;
-            rowMaxHeight = 0;
-          }
-
-          const localCandidate = {
-            x: rowCursorX,
-            y: rowCursorY,
-            width: item.localRect.width,
-            height: item.localRect.height,
-          };
-          let candidate = localCandidate;
+  for (let index = 0; index < updates.length; index++) {
+    const update = updates[index];
+    const node = await figma.getNodeByIdAsync(update.nodeId) as TextNode;
+    if (!node || node.type !== 'TEXT') {
+      if (atomic) throw atomicBatchError(index, update.nodeId, 'Not a text node');
+      errors.push({ nodeId: update.nodeId, error: 'Not a text node' });
+      continue;
+    }
 
-          if (avoidOverlaps) {
-            candidate = resolveCollisionCandidate(
-              candidate,
-              localBlockers,
-              placedRects,
-              'row',
-              compactSpacingX,
-              compactSpacingY,
-              placementPolicy,
-              container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined,
-              containerPad
-            );
-          }
+    const fontKey = JSON.stringify(node.fontName);
+    if (!fontGroups.has(fontKey)) {
+      fontGroups.set(fontKey, []);
+    }
+    fontGroups.get(fontKey)!.push({ node, text: update.text, index });
+  }
 
-          item.node.x = candidate.x;
-          item.node.y = candidate.y;
-          placedRects.push(candidate);
-          rowMaxHeight = Math.max(rowMaxHeight, candidate.height);
-          rowMaxUsedY = Math.max(rowMaxUsedY, candidate.y + candidate.height);
-          arranged.push({
-            id: item.node.id,
-            x: candidate.x,
-            y: candidate.y,
-            groupBy: row.key,
-            groupLabel: row.label,
-            area: item.area,
-          });
-          rowCursorX = candidate.x + candidate.width + compactSpacingX;
-        }
+  // Process each font group
+  for (const [fontKey, items] of fontGroups) {
+    const fontName = JSON.parse(fontKey) as FontName;
+    await figma.loadFontAsync(fontName);
 
-        groupCursorY = Math.max(groupCursorY, rowMaxUsedY) + compactSpacingY;
-        if (rowMaxHeight > 0) {
-          groupCursorY += Math.max(groupGap - compactSpacingY, compactSpacingY);
-        }
+    for (const item of items) {
+      try {
+        item.node.characters = item.text;
+        results.push({ nodeId: item.node.id, success: true });
+      } catch (error) {
+        if (atomic) throw atomicBatchError(item.index, item.node.id, error);
+        const msg = error instanceof Error ? error.message : String(error);
+        errors.push({ nodeId: item.node.id, error: msg });
       }
-      continue;
     }
+  }
 
-    const ordered = [...parentItems].sort((a, b) => {
-      if (layout === 'column') return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
-      if (layout === 'grid') return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
-      return (b.area - a.area) || (a.localRect.x - b.localRect.x) || (a.localRect.y - b.localRect.y);
-    });
+  return {
+    updated: results.length,
+    failed: errors.length,
+    errors: errors.slice(0, 10),
+  };
+}
 
-    let rowX = baseX;
-    let colY = baseY;
+// ===== Operation Journal =====
+// 每个修改型工具调用都记录一条可逆日志（创建/删除/移动/属性快照），按 operationId 撤销与重做。
+
+const JOURNAL_MAX_ENTRIES = 50;
+const JOURNAL_MAX_SNAPSHOT_NODES = 2000;
+
+// Read-only tools, plus apply_plan which journals through its nested tool call.
+const JOURNAL_SKIPPED_TOOLS = new Set([
+  'progress_update', 'progress_complete', 'log', 'get_tools', 'cancel',
+  'smart_select', 'find_similar', 'scan_by_pattern', 'auto_discover_components',
+  'analyze_duplicates', 'suggest_component_structure', 'check_consistency', 'extract_palette', 'audit_accessibility', 'analyze_frame_structure',
+  'get_document_info', 'get_node_info', 'get_selection', 'get_page_info', 'get_all_styles', 'get_all_variables',
+  'export_design_tokens', 'select_nodes', 'set_focus', 'validate_structure', 'capture_view', 'export_node', 'export_nodes_batch', 'read_export_chunk',
+  'generate_code', 'generate_react_component',
+  'undo_operations', 'redo_operations', 'list_operation_journal', 'apply_plan',
+]);
+
+// Read-only unless called with fix: true.
+const JOURNAL_FIX_ONLY_TOOLS = new Set(['lint_design']);
+
+// Edits outside the node tree; undo reports them instead of silently skipping.
+const JOURNAL_UNTRACKED_TOOLS: Map<string, string> = new Map([
+  ['update_paint_style', 'style definitions'],
+  ['update_text_style', 'style definitions'],
+  ['delete_style', 'style definitions'],
+  ['sync_styles_to_library', 'library styles'],
+  ['load_style_from_file', 'library styles'],
+  ['set_variable_value', 'variable values'],
+  ['delete_variable', 'variable definitions'],
+  ['import_design_tokens', 'variables and styles'],
+  ['delete_page', 'page deletion'],
+  ['rename_page', 'page names'],
+  ['reorder_pages', 'page order'],
+  ['create_flow', 'prototype flow starting points'],
+  ['add_component_property', 'component property definitions'],
+  ['remove_component_property', 'component property definitions'],
+  ['set_component_property', 'instance property values'],
+]);
+
+// Non-node entities created by these tools are found by id prefix in the tool result.
+const JOURNAL_ENTITY_CREATORS: Map<string, JournalEntityKind> = new Map([
+  ['create_color_style', 'style'],
+  ['create_text_style', 'style'],
+  ['create_effect_style', 'style'],
+  ['create_grid_style', 'style'],
+  ['create_variable', 'variable'],
+  ['create_variable_collection', 'variableCollection'],
+]);
+
+// Scope-driven tools carry no node ids in their payload; these scan the scope once, name the nodes the call is about
+// to change, and hand the scan to the handler (JournalCapture.scan) so it does not walk the page again.
+type JournalTargetResolver = (payload: any) => Promise<{ nodeIds: string[]; scan: any }>;
+
+const JOURNAL_TARGET_RESOLVERS: Map<string, JournalTargetResolver> = new Map<string, JournalTargetResolver>([
+  ['fix_consistency', async (payload: any) => {
+    const scan = await planConsistencyFixes(payload);
+    return { nodeIds: scan.changes.map((change) => change.node.id), scan };
+  }],
+  ['fix_contrast', async (payload: any) => {
+    const scan = await planContrastFixes(payload);
+    return { nodeIds: scan.fixes.map((fix) => fix.node.id), scan };
+  }],
+  ['lint_design', async (payload: any) => {
+    const scan = await runDesignLint(payload);
+    const fixed = scan.findings.filter((finding) => shouldApplyDesignLintFix(finding, payload.fixRules));
+    return { nodeIds: fixed.map((finding) => finding.nodeId), scan };
+  }],
+]);
+
+const JOURNAL_ENTITY_PREFIXES: Record<JournalEntityKind, string> = {
+  node: '',
+  style: 'S:',
+  variable: 'VariableID:',
+  variableCollection: 'VariableCollectionId:',
+};
 
-    for (let i = 0; i < ordered.length; i++) {
-      const item = ordered[i];
-      const node = item.node;
-      let localCandidate;
-      if (layout === 'row') {
-        localCandidate = { x: rowX, y: baseY, width: item.localRect.width, height: item.localRect.height };
-        rowX += item.localRect.width + compactSpacingX;
-      } else if (layout === 'column') {
-        localCandidate = { x: baseX, y: colY, width: item.localRect.width, height: item.localRect.height };
-        colY += item.localRect.height + compactSpacingY;
-      } else {
-        const col = i % gridCols;
-        const row = Math.floor(i / gridCols);
-        localCandidate = {
-          x: baseX + col * (localMaxWidth + compactSpacingX),
-          y: baseY + row * (localMaxHeight + compactSpacingY),
-          width: item.localRect.width,
-          height: item.localRect.height,
-        };
-      }
+// Payload keys whose ids are snapshotted with their subtree, and keys that only name a destination container.
+const JOURNAL_NODE_KEYS = new Set([
+  'nodeId', 'nodeIds', 'componentId', 'componentIds', 'componentSetId', 'frameId', 'instanceId', 'instanceIds',
+  'sourceNodeId', 'targetNodeIds', 'templateId', 'fromNodeId', 'toNodeId', 'startNodeId', 'endNodeId',
+  'startFrameId', 'destinationId', 'targetId',
+]);
+const JOURNAL_CONTAINER_KEYS = new Set(['parentId', 'containerId', 'withinContainerId', 'pageId', 'targetPageId']);
+
+// Apply order matters: layout before size, size before position, fonts before characters.
+const JOURNAL_NODE_PROPS = [
+  'name', 'visible', 'locked', 'opacity', 'blendMode', 'isMask',
+  'layoutMode', 'layoutWrap', 'primaryAxisSizingMode', 'counterAxisSizingMode',
+  'primaryAxisAlignItems', 'counterAxisAlignItems', 'itemSpacing', 'counterAxisSpacing',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'clipsContent',
+  'layoutAlign', 'layoutGrow', 'layoutPositioning',
+  'rotation', 'width', 'height', 'x', 'y',
+  'fills', 'strokes', 'strokeWeight', 'strokeAlign', 'dashPattern',
+  'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+  'effects', 'layoutGrids', 'constraints', 'exportSettings',
+  'fontName', 'fontSize', 'characters', 'textAutoResize', 'textAlignHorizontal', 'textAlignVertical',
+  'letterSpacing', 'lineHeight',
+  'fillStyleId', 'strokeStyleId', 'effectStyleId', 'textStyleId', 'gridStyleId',
+  'vectorPaths', 'reactions',
+];
+
+const JOURNAL_STYLE_ID_SETTERS: Record<string, string> = {
+  fillStyleId: 'setFillStyleIdAsync',
+  strokeStyleId: 'setStrokeStyleIdAsync',
+  effectStyleId: 'setEffectStyleIdAsync',
+  textStyleId: 'setTextStyleIdAsync',
+  gridStyleId: 'setGridStyleIdAsync',
+};
 
-      let candidate = localCandidate;
-      if (avoidOverlaps) {
-        candidate = resolveCollisionCandidate(
-          candidate,
-          localBlockers,
-          placedRects,
-          layout,
-          compactSpacingX,
-          compactSpacingY,
-          placementPolicy,
-          container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined,
-          containerPad
-        );
-      }
+type JournalEntityKind = 'node' | 'style' | 'variable' | 'variableCollection';
 
-      node.x = candidate.x;
-      node.y = candidate.y;
-      placedRects.push(candidate);
-      arranged.push({
-        id: node.id,
-        x: candidate.x,
-        y: candidate.y,
-        groupBy: item.groupKey,
-        groupLabel: item.groupLabel,
-        area: item.area,
-      });
+interface JournalSerializedNode {
+  id: string;
+  type: string;
+  props: Record<string, any>;
+  mainComponentId?: string;
+  booleanOperation?: string;
+  children?: JournalSerializedNode[];
+  childrenTruncated?: boolean;
+}
+
+interface JournalPosition {
+  parentId: string | null;
+  index: number;
+}
+
+interface JournalEntry {
+  operationId: string;
+  tool: string;
+  status: 'applied' | 'undone';
+  timestamp: number;
+  updatedAt: number;
+  created: Array<JournalPosition & { id: string; kind: JournalEntityKind; data?: JournalSerializedNode }>;
+  deleted: Array<JournalPosition & { id: string; data: JournalSerializedNode }>;
+  moved: Array<{ id: string; from: JournalPosition; to: JournalPosition }>;
+  modified: Array<{ id: string; before: Record<string, any>; after: Record<string, any> }>;
+  // Recreated nodes get new ids: original/previous id -> current id.
+  remap: Record<string, string>;
+  truncated: boolean;
+  untracked?: string;
+}
+
+interface JournalFailure {
+  id: string;
+  action: string;
+  reason: string;
+}
+
+interface JournalSerializeContext {
+  budget: number;
+  truncated: boolean;
+  states?: Map<string, { parentId: string | null; index: number; props: Record<string, any> }>;
+  serialized?: Map<string, JournalSerializedNode>;
+  partial?: Set<string>;
+}
+
+interface JournalCapture extends JournalSerializeContext {
+  operationId: string;
+  tool: string;
+  roots: string[];
+  containers: Map<string, string[]>;
+  states: Map<string, { parentId: string | null; index: number; props: Record<string, any> }>;
+  serialized: Map<string, JournalSerializedNode>;
+  partial: Set<string>;
+  // Scope scan from JOURNAL_TARGET_RESOLVERS, reused by the handler.
+  scan?: any;
+}
+
+const operationJournal: JournalEntry[] = [];
+
+function shouldJournalTool(tool: string): boolean {
+  return !JOURNAL_SKIPPED_TOOLS.has(tool);
+}
+
+// Like shouldJournalTool, but also skips calls that are read-only because of their arguments.
+function shouldJournalCall(tool: string, payload: any): boolean {
+  if (JOURNAL_FIX_ONLY_TOOLS.has(tool) && (!payload || payload.fix !== true)) return false;
+  return shouldJournalTool(tool);
+}
+
+function collectJournalIds(value: any, roots: Set<string>, containers: Set<string>, depth: number = 0): void {
+  if (!value || typeof value !== 'object' || depth > 6) return;
+  if (Array.isArray(value)) {
+    for (const item of value) collectJournalIds(item, roots, containers, depth + 1);
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    const item = value[key];
+    const target = JOURNAL_NODE_KEYS.has(key) ? roots : JOURNAL_CONTAINER_KEYS.has(key) ? containers : null;
+    if (target) {
+      for (const id of Array.isArray(item) ? item : [item]) {
+        if (typeof id === 'string' && id) target.add(id);
+      }
+    } else if (item && typeof item === 'object') {
+      collectJournalIds(item, roots, containers, depth + 1);
     }
   }
+}
 
-  if (focus) {
-    figma.viewport.scrollAndZoomIntoView(sorted);
+function journalChildIndex(node: BaseNode): number {
+  const parent = node.parent as (BaseNode & ChildrenMixin) | null;
+  return parent ? (parent.children as ReadonlyArray<BaseNode>).indexOf(node) : -1;
+}
+
+function captureJournalProps(node: BaseNode): Record<string, any> {
+  const props: Record<string, any> = {};
+  for (const prop of JOURNAL_NODE_PROPS) {
+    if (!(prop in node)) continue;
+    try {
+      const value = (node as any)[prop];
+      if (value === undefined || value === figma.mixed || typeof value === 'function') continue;
+      props[prop] = JSON.parse(JSON.stringify(value));
+    } catch {
+      // Getter not available for this node type / document mode.
+    }
   }
+  return props;
+}
 
-  const afterRects = sorted.map(sceneNodeToRect);
-  const afterUnion = getUnionBounds(afterRects);
-  const afterQuality = evaluateArrangementQuality(afterRects, allBlockers);
-  const parentMismatchCount = container
-    ? sorted.filter((n) => n.parent?.id !== container.id).length
-    : 0;
-  const outsideContainerCount = container
-    ? afterRects.filter((r) => !rectInside(r, container)).length
-    : 0;
+function diffJournalProps(before: Record<string, any>, after: Record<string, any>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(key => key in before && key in after && JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+}
 
-  let visual: any = undefined;
-  if (verifyVisual) {
-    const captureMode = snapshotMode || 'selection';
-    const beforeShot = captureMode === 'selection'
-      ? await captureView('region', undefined, beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, true, 180)
-      : await captureView(captureMode, sorted.map((n) => n.id), beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, true, 180);
-    const afterShot = captureMode === 'selection'
-      ? await captureView('region', undefined, afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, true, 180)
-      : await captureView(captureMode, sorted.map((n) => n.id), afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, true, 180);
-    visual = { before: beforeShot, after: afterShot };
-  }
+function pickJournalProps(props: Record<string, any>, keys: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+  for (const key of keys) picked[key] = props[key];
+  return picked;
+}
 
-  return {
-    arrangedCount: arranged.length,
-    layout,
-    columns: layout === 'grid' ? gridCols : undefined,
-    spacingX,
-    spacingY,
-    avoidOverlaps,
-    withinContainerId: container?.id,
-    placementPolicy,
-    containerizedCount,
-    quality: {
-      before: beforeQuality,
-      after: afterQuality,
-      overlapDelta: beforeQuality.overlapCount - afterQuality.overlapCount,
-      nodeOverlapDelta: beforeQuality.overlapBetweenCandidates - afterQuality.overlapBetweenCandidates,
-      parentMismatchCount,
-      outsideContainerCount,
-    },
-    visual,
-    arranged,
-    missingIds: Array.from(new Set(missingDetails.map((d) => d.id))),
-    missingDetails,
-    pageId: figma.currentPage.id,
+async function serializeJournalNode(node: BaseNode, ctx: JournalSerializeContext): Promise<JournalSerializedNode> {
+  ctx.budget--;
+  const props = captureJournalProps(node);
+  const data: JournalSerializedNode = { id: node.id, type: node.type, props };
+  if (node.type === 'INSTANCE') {
+    const main = await getInstanceMainComponentSafe(node);
+    if (main) data.mainComponentId = main.id;
+  }
+  if (node.type === 'BOOLEAN_OPERATION') data.booleanOperation = node.booleanOperation;
+  if (ctx.states && ctx.serialized) {
+    ctx.states.set(node.id, { parentId: node.parent ? node.parent.id : null, index: journalChildIndex(node), props });
+    ctx.serialized.set(node.id, data);
+  }
+  // Instance sublayers are derived from the main component.
+  if ('children' in node && node.type !== 'INSTANCE') {
+    if (node.type === 'PAGE') await node.loadAsync();
+    data.children = [];
+    for (const child of (node as BaseNode & ChildrenMixin).children) {
+      if (ctx.budget <= 0) {
+        data.childrenTruncated = true;
+        ctx.truncated = true;
+        ctx.partial?.add(node.id);
+        break;
+      }
+      data.children.push(await serializeJournalNode(child, ctx));
+    }
+  }
+  return data;
+}
+
+async function beginJournalCapture(tool: string, operationId: string, payload: any): Promise<JournalCapture> {
+  const rootIds = new Set<string>();
+  const containerIds = new Set<string>([figma.root.id, figma.currentPage.id]);
+  collectJournalIds(payload, rootIds, containerIds);
+  const resolveTargets = JOURNAL_TARGET_RESOLVERS.get(tool);
+  const resolved = resolveTargets ? await resolveTargets(payload) : null;
+  if (resolved) {
+    for (const id of resolved.nodeIds) rootIds.add(id);
+  }
+  if (rootIds.size === 0) {
+    for (const node of figma.currentPage.selection) rootIds.add(node.id);
+  }
+  const componentsPage = figma.root.children.find(page => page.name === 'Components');
+  if (componentsPage) containerIds.add(componentsPage.id);
+
+  const capture: JournalCapture = {
+    operationId,
+    tool,
+    roots: [],
+    containers: new Map(),
+    states: new Map(),
+    serialized: new Map(),
+    partial: new Set(),
+    budget: JOURNAL_MAX_SNAPSHOT_NODES,
+    truncated: false,
+    scan: resolved?.scan,
   };
-}
 
-async function resolveContainer(containerId: string): Promise<SceneNode & ChildrenMixin & LayoutMixin> {
-  const node = await figma.getNodeByIdAsync(containerId);
-  if (!node || !('children' in node) || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
-    throw new Error(`Invalid containerId: ${containerId}`);
+  for (const id of rootIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!isSceneNode(node)) continue;
+    capture.roots.push(node.id);
+    if (node.parent) containerIds.add(node.parent.id);
+    // Roots are always recorded; only their descendants are subject to the budget.
+    if (!capture.states.has(node.id)) await serializeJournalNode(node, capture);
   }
-  return node as SceneNode & ChildrenMixin & LayoutMixin;
+
+  for (const id of containerIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node || !('children' in node)) continue;
+    if (node.type === 'PAGE') await node.loadAsync();
+    capture.containers.set(id, (node as BaseNode & ChildrenMixin).children.map(child => child.id));
+  }
+
+  return capture;
 }
 
-async function containerizeNodes(nodeIds: string[], containerId: string): Promise<any> {
-  if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
-    throw new Error('nodeIds is required');
+function collectEntityIds(value: any, prefix: string, found: Set<string>, depth: number = 0): void {
+  if (typeof value === 'string') {
+    if (value.startsWith(prefix)) found.add(value);
+    return;
   }
-  const container = await resolveContainer(containerId);
-  const moved: string[] = [];
-  const skipped: Array<{ id: string; reason: string }> = [];
+  if (!value || typeof value !== 'object' || depth > 6) return;
+  for (const item of Array.isArray(value) ? value : Object.values(value)) {
+    collectEntityIds(item, prefix, found, depth + 1);
+  }
+}
+
+// Diff the post-operation document against the capture; returns null when nothing changed.
+async function commitJournalCapture(capture: JournalCapture, result: any): Promise<JournalEntry | null> {
+  const entry: JournalEntry = {
+    operationId: capture.operationId,
+    tool: capture.tool,
+    status: 'applied',
+    timestamp: Date.now(),
+    updatedAt: Date.now(),
+    created: [],
+    deleted: [],
+    moved: [],
+    modified: [],
+    remap: {},
+    truncated: capture.truncated,
+    untracked: JOURNAL_UNTRACKED_TOOLS.get(capture.tool),
+  };
+  const rootIds = new Set(capture.roots);
+  const removedIds = new Set<string>();
 
-  for (const id of nodeIds) {
+  for (const [id, before] of capture.states) {
     const node = await figma.getNodeByIdAsync(id);
-    if (!node || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
-      skipped.push({ id, reason: 'not_positionable' });
+    if (!node || node.removed) {
+      removedIds.add(id);
       continue;
     }
-    const scene = node as SceneNode;
-    if (scene.id === container.id) {
-      skipped.push({ id, reason: 'self_container' });
-      continue;
+    const to = { parentId: node.parent ? node.parent.id : null, index: journalChildIndex(node) };
+    if (to.parentId !== before.parentId || (rootIds.has(id) && to.index !== before.index)) {
+      entry.moved.push({ id, from: { parentId: before.parentId, index: before.index }, to });
     }
-    if (scene.parent?.id === container.id) {
-      skipped.push({ id, reason: 'already_child' });
-      continue;
+    const after = captureJournalProps(node);
+    const changed = diffJournalProps(before.props, after);
+    if (changed.length > 0) {
+      entry.modified.push({ id, before: pickJournalProps(before.props, changed), after: pickJournalProps(after, changed) });
     }
+  }
 
-    const globalRect = sceneNodeToRect(scene);
-    try {
-      container.appendChild(scene);
-      scene.x = globalRect.x - container.x;
-      scene.y = globalRect.y - container.y;
-      moved.push(scene.id);
-    } catch (e) {
-      skipped.push({ id, reason: `append_failed:${String(e)}` });
-    }
+  // Only the top-most removed node is recorded; its serialization restores the subtree.
+  for (const id of removedIds) {
+    const before = capture.states.get(id)!;
+    if (before.parentId && removedIds.has(before.parentId)) continue;
+    entry.deleted.push({ id, parentId: before.parentId, index: before.index, data: capture.serialized.get(id)! });
   }
+  entry.deleted.sort((a, b) => a.index - b.index);
 
-  return {
-    containerId: container.id,
-    containerizedCount: moved.length,
-    containerizedIds: moved,
-    skipped,
+  const createdIds = new Set<string>();
+  const recordCreated = (node: BaseNode) => {
+    if (capture.states.has(node.id) || createdIds.has(node.id)) return;
+    createdIds.add(node.id);
+    entry.created.push({ id: node.id, kind: 'node', parentId: node.parent ? node.parent.id : null, index: journalChildIndex(node) });
   };
+  for (const [id, childIds] of capture.containers) {
+    const container = await figma.getNodeByIdAsync(id);
+    if (!container || !('children' in container)) continue;
+    const previous = new Set(childIds);
+    for (const child of (container as BaseNode & ChildrenMixin).children) {
+      if (!previous.has(child.id)) recordCreated(child);
+    }
+  }
+  for (const id of capture.states.keys()) {
+    if (removedIds.has(id) || capture.partial.has(id)) continue;
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node || !('children' in node) || node.type === 'INSTANCE') continue;
+    for (const child of (node as BaseNode & ChildrenMixin).children) recordCreated(child);
+  }
+
+  const entityKind = JOURNAL_ENTITY_CREATORS.get(capture.tool);
+  if (entityKind && result) {
+    const found = new Set<string>();
+    collectEntityIds(result, JOURNAL_ENTITY_PREFIXES[entityKind], found);
+    for (const id of found) entry.created.push({ id, kind: entityKind, parentId: null, index: -1 });
+  }
+
+  const changed = entry.created.length + entry.deleted.length + entry.moved.length + entry.modified.length;
+  if (changed === 0 && !entry.untracked) return null;
+
+  const existing = operationJournal.findIndex(item => item.operationId === entry.operationId);
+  if (existing !== -1) operationJournal.splice(existing, 1);
+  operationJournal.push(entry);
+  if (operationJournal.length > JOURNAL_MAX_ENTRIES) operationJournal.shift();
+  return entry;
 }
 
-async function validateStructure(nodeIds?: string[], containerId?: string): Promise<any> {
-  const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
-  if (ids.length === 0) throw new Error('No nodeIds provided and current selection is empty');
+function resolveJournalId(entry: JournalEntry, id: string): string {
+  let current = id;
+  for (let hops = 0; hops < 50 && entry.remap[current]; hops++) current = entry.remap[current];
+  return current;
+}
 
-  const nodes: SceneNode[] = [];
-  const missing: string[] = [];
-  for (const id of ids) {
-    const n = await figma.getNodeByIdAsync(id);
-    if (!n || !('x' in n) || !('y' in n) || !('width' in n) || !('height' in n)) {
-      missing.push(id);
-      continue;
-    }
-    nodes.push(n as SceneNode);
+async function resolveJournalNode(entry: JournalEntry, id: string | null): Promise<BaseNode | null> {
+  if (!id) return null;
+  const node = await figma.getNodeByIdAsync(resolveJournalId(entry, id));
+  return node && !node.removed ? node : null;
+}
+
+async function loadJournalFonts(node: TextNode, target?: FontName): Promise<void> {
+  const fonts: FontName[] = [];
+  if (node.characters.length > 0) {
+    fonts.push(...node.getRangeAllFontNames(0, node.characters.length));
+  } else if (node.fontName !== figma.mixed) {
+    fonts.push(node.fontName as FontName);
   }
+  if (target) fonts.push(target);
+  for (const font of fonts) await figma.loadFontAsync(font);
+}
 
-  const rects = nodes.map((n) => sceneNodeToRect(n));
-  let overlapPairs = 0;
-  for (let i = 0; i < rects.length; i++) {
-    for (let j = i + 1; j < rects.length; j++) {
-      if (rectsOverlap(rects[i], rects[j])) overlapPairs++;
+// Returns the props that could not be applied.
+async function applyJournalProps(node: BaseNode, props: Record<string, any>): Promise<string[]> {
+  const failed: string[] = [];
+  const current = captureJournalProps(node);
+  const pending = JOURNAL_NODE_PROPS.filter(prop =>
+    prop in props && JSON.stringify(current[prop]) !== JSON.stringify(props[prop])
+  );
+  const isGroupLike = node.type === 'GROUP' || node.type === 'BOOLEAN_OPERATION';
+
+  if (node.type === 'TEXT' && pending.some(prop => prop === 'fontName' || prop === 'fontSize' || prop === 'characters')) {
+    try {
+      await loadJournalFonts(node, props.fontName);
+    } catch {
+      failed.push(...pending.filter(prop => prop === 'fontName' || prop === 'fontSize' || prop === 'characters'));
     }
   }
 
-  const getPageId = (node: BaseNode | null): string | null => {
-    let cur: BaseNode | null = node;
-    while (cur) {
-      if (cur.type === 'PAGE') return cur.id;
-      cur = cur.parent;
-    }
-    return null;
+  for (const prop of pending) {
+    if (failed.includes(prop)) continue;
+    try {
+      if (prop === 'width' || prop === 'height') {
+        // Group bounds follow their children.
+        if (isGroupLike || prop === 'height' && pending.includes('width')) continue;
+        const width = props.width ?? (node as any).width;
+        const height = props.height ?? (node as any).height;
+        (node as any).resize(Math.max(width, 0.01), node.type === 'LINE' ? height : Math.max(height, 0.01));
+      } else if (JOURNAL_STYLE_ID_SETTERS[prop]) {
+        await (node as any)[JOURNAL_STYLE_ID_SETTERS[prop]](props[prop]);
+      } else if (prop === 'reactions') {
+        await (node as any).setReactionsAsync(props[prop]);
+      } else {
+        (node as any)[prop] = props[prop];
+      }
+    } catch {
+      failed.push(prop);
+    }
+  }
+  return failed;
+}
+
+function createJournalNode(type: string): BaseNode | null {
+  switch (type) {
+    case 'PAGE': return figma.createPage();
+    case 'FRAME': return figma.createFrame();
+    case 'COMPONENT': return figma.createComponent();
+    case 'RECTANGLE': return figma.createRectangle();
+    case 'ELLIPSE': return figma.createEllipse();
+    case 'LINE': return figma.createLine();
+    case 'POLYGON': return figma.createPolygon();
+    case 'STAR': return figma.createStar();
+    case 'VECTOR': return figma.createVector();
+    case 'TEXT': return figma.createText();
+    case 'SECTION': return figma.createSection();
+    default: return null;
+  }
+}
+
+function isGroupLikeType(type: string): boolean {
+  return type === 'GROUP' || type === 'BOOLEAN_OPERATION' || type === 'COMPONENT_SET';
+}
+
+// Rebuild a serialized node under parent; children that are still alive elsewhere are moved back by the move records instead.
+async function recreateJournalNode(
+  entry: JournalEntry,
+  data: JournalSerializedNode,
+  parent: BaseNode & ChildrenMixin,
+  index: number,
+  failed: JournalFailure[],
+  adopt: SceneNode[] = []
+): Promise<BaseNode | null> {
+  const recreateChildren = async (target: BaseNode & ChildrenMixin, offset: number): Promise<SceneNode[]> => {
+    const children: SceneNode[] = [];
+    for (const child of data.children ?? []) {
+      if (await resolveJournalNode(entry, child.id)) continue;
+      const created = await recreateJournalNode(entry, child, target, offset + children.length, failed);
+      if (isSceneNode(created)) children.push(created);
+    }
+    return children;
   };
 
-  let container: (SceneNode & ChildrenMixin & LayoutMixin) | null = null;
-  let containerPageId: string | null = null;
-  let containerIsPage = false;
-  if (containerId) {
-    const rawContainer = await figma.getNodeByIdAsync(containerId);
-    if (!rawContainer) {
-      throw new Error(`Invalid containerId: ${containerId} (not found)`);
-    }
-    if (rawContainer.type === 'PAGE') {
-      containerIsPage = true;
-      containerPageId = rawContainer.id;
-    } else {
-      container = await resolveContainer(containerId);
-      containerPageId = getPageId(container);
+  let node: BaseNode | null = null;
+  if (isGroupLikeType(data.type)) {
+    const children = [...adopt, ...await recreateChildren(parent, parent.children.length)];
+    if (children.length > 0) {
+      const at = Math.min(index, parent.children.length);
+      if (data.type === 'GROUP') {
+        node = figma.group(children, parent, at);
+      } else if (data.type === 'COMPONENT_SET') {
+        node = figma.combineAsVariants(children.filter(child => child.type === 'COMPONENT') as ComponentNode[], parent, at);
+      } else {
+        switch (data.booleanOperation) {
+          case 'SUBTRACT': node = figma.subtract(children, parent, at); break;
+          case 'INTERSECT': node = figma.intersect(children, parent, at); break;
+          case 'EXCLUDE': node = figma.exclude(children, parent, at); break;
+          default: node = figma.union(children, parent, at);
+        }
+      }
     }
+  } else if (data.type === 'INSTANCE') {
+    const main = data.mainComponentId ? await figma.getNodeByIdAsync(data.mainComponentId) : null;
+    if (main && main.type === 'COMPONENT') node = main.createInstance();
+  } else {
+    node = createJournalNode(data.type);
   }
 
-  const parentMismatch = container
-    ? nodes.filter((n) => n.parent?.id !== container!.id).map((n) => n.id)
-    : containerIsPage
-      ? nodes.filter((n) => getPageId(n) !== containerPageId).map((n) => n.id)
-      : [];
-  const outsideContainer = container
-    ? nodes.filter((n) => !rectInside(sceneNodeToRect(n), container!)).map((n) => n.id)
-    : [];
+  if (!node) {
+    failed.push({ id: data.id, action: 'recreate', reason: `Cannot recreate ${data.type} node` });
+    return null;
+  }
+  entry.remap[resolveJournalId(entry, data.id)] = node.id;
 
-  return {
-    nodeCount: nodes.length,
-    missingIds: missing,
-    overlapPairs,
-    containerId: containerIsPage ? containerId : container?.id,
-    parentMismatchCount: parentMismatch.length,
-    parentMismatchIds: parentMismatch,
-    outsideContainerCount: outsideContainer.length,
-    outsideContainerIds: outsideContainer,
-    recommendations: [
-      ...(parentMismatch.length ? ['Use containerize_nodes to reparent nodes into container'] : []),
-      ...(outsideContainer.length ? ['Use arrange_nodes with withinContainerId to pull nodes inside container'] : []),
-      ...(overlapPairs ? ['Use arrange_nodes with avoidOverlaps=true'] : []),
-    ],
-  };
-}
+  if (node.type === 'PAGE') {
+    figma.root.insertChild(Math.min(index, figma.root.children.length - 1), node);
+  } else if (!isGroupLikeType(data.type)) {
+    parent.insertChild(Math.min(index, parent.children.length), node as SceneNode);
+  }
+  if ('children' in node && !isGroupLikeType(data.type) && node.type !== 'INSTANCE') {
+    await recreateChildren(node as BaseNode & ChildrenMixin, 0);
+  }
 
-async function captureView(
-  mode: 'selection' | 'region' | 'page' = 'selection',
-  nodeIds?: string[],
-  x?: number,
-  y?: number,
-  width?: number,
-  height?: number,
-  scale: number = 1,
-  includeBase64: boolean = true,
-  maxBase64Length: number = 400
-): Promise<any> {
-  const requestedBounds = await resolveCaptureBounds(mode, nodeIds, x, y, width, height);
-  const { bounds, clipped } = clampCaptureBounds(requestedBounds);
-  if (bounds.width <= 0 || bounds.height <= 0) {
-    throw new Error('Capture bounds are empty');
+  const propFailures = await applyJournalProps(node, data.props);
+  if (propFailures.length > 0) {
+    failed.push({ id: data.id, action: 'recreate', reason: `Properties not restored: ${propFailures.join(', ')}` });
   }
+  if (data.childrenTruncated) {
+    failed.push({ id: data.id, action: 'recreate', reason: 'Snapshot was truncated; some descendants were not restored' });
+  }
+  return node;
+}
 
-  const slice = figma.createSlice();
-  slice.name = `MCP Capture ${mode}`;
-  slice.x = bounds.x;
-  slice.y = bounds.y;
-  slice.resize(bounds.width, bounds.height);
-  figma.currentPage.appendChild(slice);
+async function removeJournalEntity(kind: JournalEntityKind, id: string): Promise<boolean> {
+  if (kind === 'style') {
+    const style = await figma.getStyleByIdAsync(id);
+    if (style) style.remove();
+    return !!style;
+  }
+  if (kind === 'variable') {
+    const variable = await figma.variables.getVariableByIdAsync(id);
+    if (variable) variable.remove();
+    return !!variable;
+  }
+  const collection = await figma.variables.getVariableCollectionByIdAsync(id);
+  if (collection) collection.remove();
+  return !!collection;
+}
 
-  try {
-    const bytes = await slice.exportAsync({
-      format: 'PNG',
-      constraint: { type: 'SCALE', value: Number.isFinite(scale) && scale > 0 ? scale : 1 },
-    });
-    const base64 = figma.base64Encode(bytes);
-    return {
-      mode,
-      clipped,
-      requestedBounds,
-      bounds,
-      bytesLength: bytes.length,
-      imageHash: figma.createImage(bytes).hash,
-      base64: includeBase64 ? `${base64.slice(0, Math.max(40, maxBase64Length))}...` : undefined,
-    };
-  } finally {
-    slice.remove();
+function isJournalAncestor(ancestor: BaseNode, node: BaseNode): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.id === ancestor.id) return true;
   }
+  return false;
 }
 
-function clampCaptureBounds(
-  bounds: { x: number; y: number; width: number; height: number },
-  maxWidth: number = 4096,
-  maxHeight: number = 4096
-): { bounds: { x: number; y: number; width: number; height: number }; clipped: boolean } {
-  let { x, y, width, height } = bounds;
-  let clipped = false;
-  if (width > maxWidth) {
-    x = x + (width - maxWidth) / 2;
-    width = maxWidth;
-    clipped = true;
+async function moveJournalNode(
+  entry: JournalEntry,
+  item: { id: string; from: JournalPosition; to: JournalPosition },
+  direction: 'undo' | 'redo',
+  force: boolean,
+  failed: JournalFailure[]
+): Promise<boolean> {
+  const source = direction === 'undo' ? item.to : item.from;
+  const target = direction === 'undo' ? item.from : item.to;
+  const node = await resolveJournalNode(entry, item.id);
+  if (!isSceneNode(node)) {
+    failed.push({ id: item.id, action: 'move', reason: 'Node no longer exists' });
+    return false;
   }
-  if (height > maxHeight) {
-    y = y + (height - maxHeight) / 2;
-    height = maxHeight;
-    clipped = true;
+  const currentParentId = node.parent ? node.parent.id : null;
+  if (!force && currentParentId !== (source.parentId && resolveJournalId(entry, source.parentId))) {
+    failed.push({ id: item.id, action: 'move', reason: 'Node was moved again after this operation' });
+    return false;
   }
-  return { bounds: { x, y, width, height }, clipped };
+  const parent = await resolveJournalNode(entry, target.parentId);
+  if (!parent || !('children' in parent)) {
+    failed.push({ id: item.id, action: 'move', reason: 'Original parent no longer exists' });
+    return false;
+  }
+  const container = parent as BaseNode & ChildrenMixin;
+  container.insertChild(Math.min(Math.max(target.index, 0), container.children.length), node);
+  return true;
+}
+
+async function restoreJournalProps(
+  entry: JournalEntry,
+  item: { id: string; before: Record<string, any>; after: Record<string, any> },
+  direction: 'undo' | 'redo',
+  force: boolean,
+  failed: JournalFailure[]
+): Promise<boolean> {
+  const expected = direction === 'undo' ? item.after : item.before;
+  const target = direction === 'undo' ? item.before : item.after;
+  const node = await resolveJournalNode(entry, item.id);
+  if (!node) {
+    failed.push({ id: item.id, action: 'properties', reason: 'Node no longer exists' });
+    return false;
+  }
+  if (!force) {
+    const conflicts = diffJournalProps(pickJournalProps(captureJournalProps(node), Object.keys(expected)), expected);
+    if (conflicts.length > 0) {
+      failed.push({ id: item.id, action: 'properties', reason: `Changed after this operation: ${conflicts.join(', ')}` });
+      return false;
+    }
+  }
+  const propFailures = await applyJournalProps(node, target);
+  if (propFailures.length > 0) {
+    failed.push({ id: item.id, action: 'properties', reason: `Could not set: ${propFailures.join(', ')}` });
+  }
+  return propFailures.length < Object.keys(target).length;
 }
 
-async function resolveCaptureBounds(
-  mode: 'selection' | 'region' | 'page',
-  nodeIds?: string[],
-  x?: number,
-  y?: number,
-  width?: number,
-  height?: number
-): Promise<{ x: number; y: number; width: number; height: number }> {
-  if (mode === 'region') {
-    if (![x, y, width, height].every((v) => Number.isFinite(v as number))) {
-      throw new Error('mode=region requires x, y, width, height');
+async function undoJournalEntry(entry: JournalEntry, force: boolean): Promise<any> {
+  const failed: JournalFailure[] = [];
+  const reverted = { created: 0, deleted: 0, moved: 0, modified: 0 };
+
+  for (const item of entry.deleted) {
+    const parent = await resolveJournalNode(entry, item.parentId);
+    if (!parent || !('children' in parent)) {
+      failed.push({ id: item.id, action: 'restore', reason: 'Original parent no longer exists' });
+      continue;
     }
-    return { x: x as number, y: y as number, width: width as number, height: height as number };
+    const node = await recreateJournalNode(entry, item.data, parent as BaseNode & ChildrenMixin, item.index, failed);
+    if (node) reverted.deleted++;
+  }
+  for (const item of [...entry.moved].reverse()) {
+    if (await moveJournalNode(entry, item, 'undo', force, failed)) reverted.moved++;
+  }
+  for (const item of [...entry.modified].reverse()) {
+    if (await restoreJournalProps(entry, item, 'undo', force, failed)) reverted.modified++;
   }
 
-  if (mode === 'selection') {
-    const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
-    if (ids.length === 0) throw new Error('mode=selection requires nodeIds or current selection');
-    const nodes: SceneNode[] = [];
-    for (const id of ids) {
-      const node = await figma.getNodeByIdAsync(id);
-      if (node && 'x' in node && 'y' in node && 'width' in node && 'height' in node) {
-        nodes.push(node as SceneNode);
+  const movedNodes: BaseNode[] = [];
+  for (const item of entry.moved) {
+    const node = await resolveJournalNode(entry, item.id);
+    if (node) movedNodes.push(node);
+  }
+  for (const item of [...entry.created].reverse()) {
+    if (item.kind !== 'node') {
+      if (await removeJournalEntity(item.kind, item.id)) reverted.created++;
+      continue;
+    }
+    const node = await resolveJournalNode(entry, item.id);
+    if (!node) continue;
+    if (movedNodes.some(moved => isJournalAncestor(node, moved))) {
+      failed.push({ id: item.id, action: 'remove', reason: 'Contains layers that could not be moved back' });
+      continue;
+    }
+    item.parentId = node.parent ? node.parent.id : null;
+    item.index = journalChildIndex(node);
+    item.data = await serializeJournalNode(node, { budget: JOURNAL_MAX_SNAPSHOT_NODES, truncated: false });
+    if (node.type === 'PAGE') {
+      const fallback = figma.root.children.find(page => page.id !== node.id);
+      if (!fallback) {
+        failed.push({ id: item.id, action: 'remove', reason: 'Cannot remove the only page' });
+        continue;
       }
+      if (figma.currentPage.id === node.id) await figma.setCurrentPageAsync(fallback);
     }
-    if (nodes.length === 0) throw new Error('No captureable nodes for selection mode');
-    return getUnionBounds(nodes.map(sceneNodeToRect));
+    node.remove();
+    reverted.created++;
   }
 
-  // mode === 'page'
-  const pageRects: Array<{ x: number; y: number; width: number; height: number }> = [];
-  for (const child of figma.currentPage.children) {
-    if ('x' in child && 'y' in child && 'width' in child && 'height' in child) {
-      pageRects.push(sceneNodeToRect(child as SceneNode));
+  if (entry.untracked) {
+    failed.push({ id: entry.operationId, action: 'untracked', reason: `${entry.tool} changes ${entry.untracked}, which the journal does not capture` });
+  }
+  entry.status = 'undone';
+  entry.updatedAt = Date.now();
+  return { operationId: entry.operationId, tool: entry.tool, reverted, failed };
+}
+
+async function redoJournalEntry(entry: JournalEntry, force: boolean): Promise<any> {
+  const failed: JournalFailure[] = [];
+  const reapplied = { created: 0, deleted: 0, moved: 0, modified: 0 };
+
+  for (const item of [...entry.deleted].reverse()) {
+    const node = await resolveJournalNode(entry, item.id);
+    if (!node) continue;
+    item.data = await serializeJournalNode(node, { budget: JOURNAL_MAX_SNAPSHOT_NODES, truncated: false });
+    node.remove();
+    reapplied.deleted++;
+  }
+  for (const item of entry.created) {
+    if (item.kind !== 'node') {
+      failed.push({ id: item.id, action: 'recreate', reason: `Removed ${item.kind} cannot be recreated` });
+      continue;
+    }
+    if (await resolveJournalNode(entry, item.id)) continue;
+    const parent = item.data && item.data.type === 'PAGE' ? figma.root : await resolveJournalNode(entry, item.parentId);
+    if (!item.data || !parent || !('children' in parent)) {
+      failed.push({ id: item.id, action: 'recreate', reason: 'Original parent no longer exists' });
+      continue;
+    }
+    // Groups created around existing layers are rebuilt from the layers the operation moved into them.
+    const adopt: SceneNode[] = [];
+    if (isGroupLikeType(item.data.type)) {
+      for (const moved of entry.moved) {
+        if (moved.to.parentId !== item.id) continue;
+        const node = await resolveJournalNode(entry, moved.id);
+        if (isSceneNode(node)) adopt.push(node);
+      }
     }
+    const node = await recreateJournalNode(entry, item.data, parent as BaseNode & ChildrenMixin, item.index, failed, adopt);
+    if (node) reapplied.created++;
   }
-  if (pageRects.length === 0) {
-    const center = figma.viewport.center;
-    return {
-      x: center.x - 500,
-      y: center.y - 500,
-      width: 1000,
-      height: 1000,
-    };
+  for (const item of entry.moved) {
+    if (await moveJournalNode(entry, item, 'redo', force, failed)) reapplied.moved++;
   }
-  return getUnionBounds(pageRects);
+  for (const item of entry.modified) {
+    if (await restoreJournalProps(entry, item, 'redo', force, failed)) reapplied.modified++;
+  }
+
+  if (entry.untracked) {
+    failed.push({ id: entry.operationId, action: 'untracked', reason: `${entry.tool} changes ${entry.untracked}, which the journal does not capture` });
+  }
+  entry.status = 'applied';
+  entry.updatedAt = Date.now();
+  return { operationId: entry.operationId, tool: entry.tool, reapplied, failed };
 }
 
-// ===== Helper Functions =====
+function clampJournalSteps(steps: number): number {
+  return Math.max(1, Math.min(20, Math.floor(Number.isFinite(steps) ? steps : 1)));
+}
 
-function sceneNodeToRect(node: SceneNode): { x: number; y: number; width: number; height: number } {
-  const r = (node as any).absoluteRenderBounds as Rect | null;
-  if (r && Number.isFinite(r.width) && Number.isFinite(r.height) && r.width > 0 && r.height > 0) {
-    return { x: r.x, y: r.y, width: r.width, height: r.height };
+function findJournalEntry(operationId: string): JournalEntry {
+  const entry = operationJournal.find(item => item.operationId === operationId);
+  if (!entry) throw new Error(`No journal entry for operation ${operationId}`);
+  return entry;
+}
+
+async function undoOperations(operationId?: string, steps: number = 1, force: boolean = false): Promise<any> {
+  let entries: JournalEntry[];
+  if (operationId) {
+    const entry = findJournalEntry(operationId);
+    if (entry.status === 'undone') throw new Error(`Operation ${operationId} is already undone`);
+    entries = [entry];
+  } else {
+    entries = operationJournal.filter(item => item.status === 'applied').slice(-clampJournalSteps(steps)).reverse();
   }
-  return { x: node.x, y: node.y, width: node.width, height: node.height };
+
+  const operations: any[] = [];
+  for (const entry of entries) operations.push(await undoJournalEntry(entry, force));
+  return {
+    undone: operations.length,
+    operations,
+    failed: operations.reduce((sum, op) => sum + op.failed.length, 0),
+  };
 }
 
-function getUnionBounds(rects: Array<{ x: number; y: number; width: number; height: number }>): { x: number; y: number; width: number; height: number } {
-  if (rects.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
-  const minX = Math.min(...rects.map((r) => r.x));
-  const minY = Math.min(...rects.map((r) => r.y));
-  const maxX = Math.max(...rects.map((r) => r.x + r.width));
-  const maxY = Math.max(...rects.map((r) => r.y + r.height));
-  return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+async function redoOperations(operationId?: string, steps: number = 1, force: boolean = false): Promise<any> {
+  let entries: JournalEntry[];
+  if (operationId) {
+    const entry = findJournalEntry(operationId);
+    if (entry.status === 'applied') throw new Error(`Operation ${operationId} is not undone`);
+    entries = [entry];
+  } else {
+    entries = operationJournal
+      .filter(item => item.status === 'undone')
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, clampJournalSteps(steps));
+  }
+
+  const operations: any[] = [];
+  for (const entry of entries) operations.push(await redoJournalEntry(entry, force));
+  return {
+    redone: operations.length,
+    operations,
+    failed: operations.reduce((sum, op) => sum + op.failed.length, 0),
+  };
 }
 
-function countOverlaps(
-  candidates: Array<{ x: number; y: number; width: number; height: number }>,
-  blockers: Array<{ x: number; y: number; width: number; height: number }>
-): number {
-  let count = 0;
-  for (const c of candidates) {
-    if (isDegenerateRect(c)) continue;
-    for (const b of blockers) {
-      if (isDegenerateRect(b)) continue;
-      if (rectsOverlap(c, b)) {
-        count += 1;
-      }
+function listOperationJournal(limit: number = 20, includeDetails: boolean = false): any {
+  const count = Math.max(1, Math.min(JOURNAL_MAX_ENTRIES, Math.floor(Number.isFinite(limit) ? limit : 20)));
+  const entries = operationJournal.slice(-count).reverse().map(entry => {
+    const summary: any = {
+      operationId: entry.operationId,
+      tool: entry.tool,
+      status: entry.status,
+      timestamp: entry.timestamp,
+      created: entry.created.length,
+      deleted: entry.deleted.length,
+      moved: entry.moved.length,
+      modified: entry.modified.length,
+      truncated: entry.truncated,
+    };
+    if (entry.untracked) summary.untracked = entry.untracked;
+    if (includeDetails) {
+      summary.details = {
+        created: entry.created.map(item => ({ id: resolveJournalId(entry, item.id), kind: item.kind })),
+        deleted: entry.deleted.map(item => ({ id: resolveJournalId(entry, item.id), type: item.data.type, name: item.data.props.name })),
+        moved: entry.moved.map(item => ({ id: resolveJournalId(entry, item.id), from: item.from.parentId, to: item.to.parentId })),
+        modified: entry.modified.map(item => ({ id: resolveJournalId(entry, item.id), properties: Object.keys(item.after) })),
+      };
     }
+    return summary;
+  });
+  return { total: operationJournal.length, entries };
+}
+
+// atomic: true 时第一个失败即中止，并用本次调用的日志回滚全部已执行的修改。
+const ATOMIC_BATCH_TOOLS = new Set([
+  'batch_create', 'batch_modify', 'batch_rename', 'set_multiple_text_contents', 'batch_edit_across_pages',
+]);
+
+interface AtomicBatchFailure {
+  index: number;
+  target: string;
+  error: string;
+}
+
+function atomicBatchError(index: number, target: string, cause: unknown): Error {
+  const message = cause instanceof Error ? cause.message : String(cause);
+  const error = new Error(`Operation ${index} (${target}) failed: ${message}`) as Error & { atomicFailure?: AtomicBatchFailure };
+  error.atomicFailure = { index, target, error: message };
+  return error;
+}
+
+async function rollbackAtomicBatch(capture: JournalCapture, error: unknown): Promise<any> {
+  const failure: AtomicBatchFailure = (error as any)?.atomicFailure ?? {
+    index: -1,
+    target: capture.tool,
+    error: error instanceof Error ? error.message : String(error),
+  };
+  const entry = await commitJournalCapture(capture, null);
+  let rollback: { reverted: Record<string, number>; failed: JournalFailure[] } = {
+    reverted: { created: 0, deleted: 0, moved: 0, modified: 0 },
+    failed: [],
+  };
+  if (entry) {
+    rollback = await undoJournalEntry(entry, true);
+    operationJournal.splice(operationJournal.indexOf(entry), 1);
   }
-  return count;
+  return {
+    atomic: true,
+    committed: false,
+    failedOperation: failure,
+    rolledBack: rollback.failed.length === 0,
+    rollback,
+  };
 }
 
-function rectInside(
-  rect: { x: number; y: number; width: number; height: number },
-  container: { x: number; y: number; width: number; height: number },
-  padding: number = 0
-): boolean {
-  return (
-    rect.x >= container.x + padding &&
-    rect.y >= container.y + padding &&
-    rect.x + rect.width <= container.x + container.width - padding &&
-    rect.y + rect.height <= container.y + container.height - padding
-  );
+// ===== Dry Run Plans =====
+// dryRun: true 时只解析目标、校验参数并返回变更计划；apply_plan 在目标未变化时按原参数执行。
+
+const PLAN_MAX_STORED = 20;
+const PLAN_FINGERPRINT_NODES = 500;
+
+// Properties batch_modify / batch_edit_across_pages can change (see applyNodeProperties).
+const PLAN_MODIFY_PROPS = ['x', 'y', 'width', 'height', 'rotation', 'opacity', 'name', 'visible', 'fills', 'strokes', 'layoutMode'];
+
+interface ChangePlanChanges {
+  create: Array<{ type: string; name?: string; parentId: string | null; sourceNodeId?: string }>;
+  modify: Array<{ nodeId: string; name: string; properties: Record<string, { before: any; after: any }> }>;
+  delete: Array<{ nodeId: string; name: string; type: string; descendants: number }>;
+  move: Array<{ nodeId: string; name: string; fromParentId: string | null; toParentId: string }>;
 }
 
-function clampRectIntoContainer(
-  rect: { x: number; y: number; width: number; height: number },
-  container: { x: number; y: number; width: number; height: number },
-  padding: number = 0
-): { x: number; y: number; width: number; height: number } {
-  const minX = container.x + padding;
-  const minY = container.y + padding;
-  const maxX = container.x + container.width - padding - rect.width;
-  const maxY = container.y + container.height - padding - rect.height;
-  return {
-    ...rect,
-    x: Math.max(minX, Math.min(maxX, rect.x)),
-    y: Math.max(minY, Math.min(maxY, rect.y)),
-  };
+interface ChangePlan {
+  dryRun: true;
+  planId: string;
+  tool: string;
+  createdAt: number;
+  // full: tool-specific planner; partial: inferred from the arguments only.
+  preview: 'full' | 'partial';
+  summary: { create: number; modify: number; delete: number; move: number; errors: number };
+  changes: ChangePlanChanges;
+  errors: Array<{ target: string; error: string }>;
+  warnings: string[];
 }
 
-function evaluateArrangementQuality(
-  candidates: Array<{ x: number; y: number; width: number; height: number }>,
-  blockers: Array<{ x: number; y: number; width: number; height: number }>
-): { overlapCount: number; overlapBetweenCandidates: number; minGap: number } {
-  const overlapCount = countOverlaps(candidates, blockers);
-  const overlapBetweenCandidates = countCandidateOverlaps(candidates);
-  let minGap = Number.POSITIVE_INFINITY;
-  for (let i = 0; i < candidates.length; i++) {
-    for (let j = i + 1; j < candidates.length; j++) {
-      const a = candidates[i];
-      const b = candidates[j];
-      const gapX = Math.max(0, Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width));
-      const gapY = Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height));
-      minGap = Math.min(minGap, Math.max(gapX, gapY));
+interface PlanContext {
+  changes: ChangePlanChanges;
+  errors: Array<{ target: string; error: string }>;
+  warnings: string[];
+  // Nodes fingerprinted for apply_plan.
+  targets: Map<string, BaseNode>;
+}
+
+interface StoredChangePlan {
+  plan: ChangePlan;
+  payload: any;
+  fingerprints: Map<string, string>;
+  // partial previews only: every node on the pages the tool may touch, since the plan cannot list its changes.
+  scopeFingerprints: Map<string, string>;
+}
+
+const changePlans: Map<string, StoredChangePlan> = new Map();
+let changePlanCounter = 0;
+
+function hashPlanString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
+async function fingerprintPlanNode(node: BaseNode): Promise<string> {
+  const data = await serializeJournalNode(node, { budget: PLAN_FINGERPRINT_NODES, truncated: false });
+  return hashPlanString(`${node.parent ? node.parent.id : ''}#${journalChildIndex(node)}#${JSON.stringify(data)}`);
+}
+
+async function fingerprintPlanScope(page: PageNode): Promise<string> {
+  await page.loadAsync();
+  let hash = '';
+  // findAll is depth-first in child order, so the chain also covers reordering.
+  for (const node of page.findAll()) {
+    hash = hashPlanString(`${hash}|${node.id}<${node.parent ? node.parent.id : ''}#${JSON.stringify(captureJournalProps(node))}`);
+  }
+  return hash;
+}
+
+async function resolvePlanTarget(ctx: PlanContext, id: string): Promise<BaseNode | null> {
+  const node = typeof id === 'string' && id ? await figma.getNodeByIdAsync(id) : null;
+  if (!node) {
+    ctx.errors.push({ target: String(id), error: 'Node not found' });
+    return null;
+  }
+  ctx.targets.set(node.id, node);
+  return node;
+}
+
+function planPropertyChanges(node: BaseNode, values: any, keys: string[]): Record<string, { before: any; after: any }> {
+  const current = captureJournalProps(node);
+  const properties: Record<string, { before: any; after: any }> = {};
+  for (const key of keys) {
+    if (!values || values[key] === undefined || !(key in node)) continue;
+    const raw = key === 'fills' || key === 'strokes' ? normalizePaintArray(values[key]) : values[key];
+    const after = JSON.parse(JSON.stringify(raw));
+    if (JSON.stringify(current[key]) === JSON.stringify(after)) continue;
+    properties[key] = { before: current[key], after };
+  }
+  return properties;
+}
+
+function addPlannedModification(ctx: PlanContext, node: BaseNode, properties: Record<string, { before: any; after: any }>, keepEmpty = false): void {
+  if (!keepEmpty && Object.keys(properties).length === 0) return;
+  ctx.changes.modify.push({ nodeId: node.id, name: node.name, properties });
+}
+
+function addPlannedDeletion(ctx: PlanContext, node: BaseNode): void {
+  const descendants = 'findAll' in node ? (node as BaseNode & ChildrenMixin).findAll().length : 0;
+  ctx.changes.delete.push({ nodeId: node.id, name: node.name, type: node.type, descendants });
+}
+
+async function planBatchCreate(ctx: PlanContext, args: any): Promise<void> {
+  const operations: any[] = Array.isArray(args.operations) ? args.operations : [];
+  for (let i = 0; i < operations.length; i++) {
+    const op = operations[i] || {};
+    const type = normalizeCreateType(op.type);
+    if (!BATCH_CREATE_TYPES.includes(type)) {
+      ctx.errors.push({ target: `operations[${i}]`, error: `Unknown create type: ${op.type}` });
+      continue;
+    }
+    const parentId = op.params && typeof op.params.parentId === 'string' ? op.params.parentId : undefined;
+    const parent = await resolveParentForAppend(parentId);
+    if (parentId && !parent) {
+      ctx.warnings.push(`operations[${i}]: parent ${parentId} not found; the node would be created on the current page`);
     }
+    ctx.changes.create.push({
+      type: type.replace('create_', '').toUpperCase(),
+      name: op.params && typeof op.params.name === 'string' ? op.params.name : undefined,
+      parentId: parent ? parent.id : figma.currentPage.id,
+    });
   }
-  if (!Number.isFinite(minGap)) minGap = 0;
-  return { overlapCount, overlapBetweenCandidates, minGap };
 }
 
-function countCandidateOverlaps(
-  candidates: Array<{ x: number; y: number; width: number; height: number }>
-): number {
-  let count = 0;
-  for (let i = 0; i < candidates.length; i++) {
-    if (isDegenerateRect(candidates[i])) continue;
-    for (let j = i + 1; j < candidates.length; j++) {
-      if (isDegenerateRect(candidates[j])) continue;
-      if (rectsOverlap(candidates[i], candidates[j])) {
-        count += 1;
+async function planBatchModify(ctx: PlanContext, args: any, acrossPages: boolean): Promise<void> {
+  for (const op of Array.isArray(args.operations) ? args.operations : []) {
+    if (acrossPages) {
+      const page = await figma.getNodeByIdAsync(op.pageId);
+      if (!page || page.type !== 'PAGE') {
+        ctx.errors.push({ target: String(op.pageId), error: 'Page not found' });
+        continue;
       }
     }
+    const node = await resolvePlanTarget(ctx, op.nodeId);
+    if (node) addPlannedModification(ctx, node, planPropertyChanges(node, op.changes, PLAN_MODIFY_PROPS));
   }
-  return count;
 }
 
-function rectsOverlap(
-  a: { x: number; y: number; width: number; height: number },
-  b: { x: number; y: number; width: number; height: number }
-): boolean {
-  if (isDegenerateRect(a) || isDegenerateRect(b)) return false;
-  return !(
-    a.x + a.width <= b.x ||
-    b.x + b.width <= a.x ||
-    a.y + a.height <= b.y ||
-    b.y + b.height <= a.y
-  );
+async function planBatchRename(ctx: PlanContext, args: any): Promise<void> {
+  const nodeIds: string[] = Array.isArray(args.nodeIds) ? args.nodeIds : [];
+  const startIndex = args.startIndex ?? 1;
+  for (let i = 0; i < nodeIds.length; i++) {
+    const node = await resolvePlanTarget(ctx, nodeIds[i]);
+    if (!node) continue;
+    const name = String(args.pattern).replace('{index}', String(startIndex + i));
+    addPlannedModification(ctx, node, planPropertyChanges(node, { name }, ['name']));
+  }
 }
 
-function isDegenerateRect(
-  rect: { width: number; height: number },
-  eps = 0.5
-): boolean {
-  return (
-    !Number.isFinite(rect.width) ||
-    !Number.isFinite(rect.height) ||
-    rect.width <= eps ||
-    rect.height <= eps
-  );
+async function planTextContents(ctx: PlanContext, args: any): Promise<void> {
+  for (const update of Array.isArray(args.updates) ? args.updates : []) {
+    const node = await resolvePlanTarget(ctx, update.nodeId);
+    if (!node) continue;
+    if (node.type !== 'TEXT') {
+      ctx.errors.push({ target: node.id, error: 'Not a text node' });
+      continue;
+    }
+    addPlannedModification(ctx, node, planPropertyChanges(node, { characters: update.text }, ['characters']));
+  }
 }
 
-function resolveCollisionCandidate(
-  rect: { x: number; y: number; width: number; height: number },
-  blockers: Array<{ x: number; y: number; width: number; height: number }>,
-  placed: Array<{ x: number; y: number; width: number; height: number }>,
-  layout: ArrangeLayout,
-  spacingX: number,
-  spacingY: number,
-  policy: 'preserve_lane' | 'min_move' | 'strict_no_overlap' = 'preserve_lane',
-  container?: { x: number; y: number; width: number; height: number },
-  containerPadding: number = 0
-): { x: number; y: number; width: number; height: number } {
-  const normalizedSpacingX = Number.isFinite(spacingX) ? Math.max(0, spacingX) : 0;
-  const normalizedSpacingY = Number.isFinite(spacingY) ? Math.max(0, spacingY) : 0;
-  const collisionPad = Math.max(normalizedSpacingX, normalizedSpacingY);
-  const stepX = policy === 'min_move'
-    ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingX) / 3)))
-    : Math.max(16, Math.round(Math.max(20, normalizedSpacingX) / 2));
-  const stepY = policy === 'min_move'
-    ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingY) / 3)))
-    : Math.max(16, Math.round(Math.max(20, normalizedSpacingY) / 2));
-  const maxTries = policy === 'strict_no_overlap' ? 3600 : 500;
-  const maxCrossShift = policy === 'strict_no_overlap'
-    ? Number.POSITIVE_INFINITY
-    : (policy === 'min_move' ? Math.max(stepY * 2, 80) : stepY * 2);
-  const maxPrimaryShift = policy === 'strict_no_overlap'
-    ? Number.POSITIVE_INFINITY
-    : (policy === 'min_move' ? Math.max(stepX * 10, 480) : Math.max(stepX * 18, 900));
+async function planMoveNodes(ctx: PlanContext, args: any): Promise<void> {
+  const deltaX = args.deltaX ?? 0;
+  const deltaY = args.deltaY ?? 0;
+  if (!Array.isArray(args.nodeIds) || args.nodeIds.length === 0) throw new Error('nodeIds is required');
+  if (!Number.isFinite(deltaX) || !Number.isFinite(deltaY)) throw new Error('deltaX and deltaY must be numbers');
+  for (const id of args.nodeIds) {
+    const node = await resolvePlanTarget(ctx, id);
+    if (!node || !('x' in node)) continue;
+    const scene = node as SceneNode;
+    addPlannedModification(ctx, node, planPropertyChanges(node, { x: scene.x + deltaX, y: scene.y + deltaY }, ['x', 'y']));
+  }
+}
 
-  const candidateSet = new Set<string>();
-  const obstacleRects = [...blockers, ...placed];
+async function planBatchDelete(ctx: PlanContext, args: any): Promise<void> {
+  const nodeIds: string[] = Array.isArray(args.nodeIds) ? args.nodeIds : [];
+  if (!args.confirm && nodeIds.length > 10) {
+    throw new Error(`Deleting ${nodeIds.length} nodes requires confirm=true`);
+  }
+  const requested = new Set(nodeIds);
+  for (const id of Array.from(requested)) {
+    const node = await resolvePlanTarget(ctx, id);
+    if (!node) continue;
+    let covered = false;
+    for (let cur = node.parent; cur && cur !== figma.root; cur = cur.parent) {
+      if (requested.has(cur.id)) {
+        covered = true;
+        break;
+      }
+    }
+    // Removed together with a requested ancestor.
+    if (!covered) addPlannedDeletion(ctx, node);
+  }
+}
 
-  const clampInContainer = (r: { x: number; y: number; width: number; height: number }) => {
-    if (!container) return r;
-    return clampRectIntoContainer(r, container, containerPadding);
-  };
+async function planCrossPageMove(ctx: PlanContext, args: any): Promise<void> {
+  const sourcePage = await figma.getNodeByIdAsync(args.sourcePageId);
+  const targetPage = await figma.getNodeByIdAsync(args.targetPageId);
+  if (!sourcePage || sourcePage.type !== 'PAGE') throw new Error('Source page not found');
+  if (!targetPage || targetPage.type !== 'PAGE') throw new Error('Target page not found');
+  for (const id of Array.isArray(args.nodeIds) ? args.nodeIds : []) {
+    const node = await resolvePlanTarget(ctx, id);
+    if (!node) continue;
+    ctx.changes.move.push({ nodeId: node.id, name: node.name, fromParentId: node.parent ? node.parent.id : null, toParentId: targetPage.id });
+  }
+  ctx.warnings.push('cross_page_move copies nodes to the target page and deletes the originals, so moved nodes get new ids');
+}
 
-  const inflate = (r: { x: number; y: number; width: number; height: number }, pad: number) => {
-    if (!pad) return r;
-    return {
-      x: r.x - pad,
-      y: r.y - pad,
-      width: r.width + pad * 2,
-      height: r.height + pad * 2,
-    };
+async function planFrameToComponents(ctx: PlanContext, args: any): Promise<void> {
+  const frame = await figma.getNodeByIdAsync(args.frameId) as FrameNode;
+  if (!frame || frame.type !== 'FRAME') throw new Error('Frame not found');
+  if (!frame.children || frame.children.length === 0) throw new Error('Frame has no children');
+  ctx.targets.set(frame.id, frame);
+
+  const eligible = filterFrameComponentCandidates(
+    frame,
+    args.minSize ?? { width: 50, height: 30 },
+    args.excludeTypes ?? ['GROUP', 'SECTION']
+  );
+  const groups = await groupFrameComponentCandidates(eligible, args.strategy ?? 'smart');
+  const componentsPage = figma.root.children.find(page => page.name === 'Components');
+  const organize = args.organizeOnPage !== false;
+  if (organize && !componentsPage) {
+    ctx.changes.create.push({ type: 'PAGE', name: 'Components', parentId: figma.root.id });
+  }
+
+  for (const group of groups) {
+    if (group.nodes.length === 0) continue;
+    ctx.changes.create.push({
+      type: 'COMPONENT',
+      name: generateComponentNameFromNodes(group.nodes),
+      parentId: organize ? (componentsPage ? componentsPage.id : null) : figma.currentPage.id,
+      sourceNodeId: group.nodes[0].id,
+    });
+    for (let i = 1; i < group.nodes.length; i++) {
+      const node = group.nodes[i];
+      ctx.changes.create.push({ type: 'INSTANCE', name: node.name, parentId: node.parent ? node.parent.id : null, sourceNodeId: node.id });
+    }
+    for (const node of group.nodes) addPlannedDeletion(ctx, node);
+  }
+  if (args.createVariants) {
+    ctx.warnings.push('Variant sets are combined from the created components and are not itemised');
+  }
+}
+
+// Tools without a dedicated planner: resolve referenced nodes and infer property edits from matching argument names.
+async function planFromArguments(ctx: PlanContext, tool: string, args: any): Promise<void> {
+  const roots = new Set<string>();
+  const containers = new Set<string>();
+  collectJournalIds(args, roots, containers);
+  if (roots.size === 0) {
+    for (const node of figma.currentPage.selection) roots.add(node.id);
+  }
+  for (const id of roots) {
+    const node = await resolvePlanTarget(ctx, id);
+    if (node) addPlannedModification(ctx, node, planPropertyChanges(node, args, JOURNAL_NODE_PROPS), true);
+  }
+  for (const id of containers) {
+    if (!(await figma.getNodeByIdAsync(id))) ctx.errors.push({ target: id, error: 'Container not found' });
+  }
+  ctx.warnings.push(`No detailed planner for ${tool}: changes are inferred from its arguments and created nodes are not listed. apply_plan refuses to run if anything on the affected pages changes first.`);
+}
+
+async function collectChangePlan(tool: string, args: any): Promise<{ ctx: PlanContext; preview: 'full' | 'partial' }> {
+  const ctx: PlanContext = {
+    changes: { create: [], modify: [], delete: [], move: [] },
+    errors: [],
+    warnings: [],
+    targets: new Map(),
   };
+  let preview: 'full' | 'partial' = 'full';
 
-  const normalize = (r: { x: number; y: number; width: number; height: number }) => {
-    const normalized = clampInContainer(r);
-    return isDegenerateRect(normalized) ? null : normalized;
+  switch (tool) {
+    case 'batch_create':
+      await planBatchCreate(ctx, args);
+      break;
+    case 'batch_modify':
+      await planBatchModify(ctx, args, false);
+      break;
+    case 'batch_edit_across_pages':
+      await planBatchModify(ctx, args, true);
+      break;
+    case 'batch_rename':
+      await planBatchRename(ctx, args);
+      break;
+    case 'set_multiple_text_contents':
+      await planTextContents(ctx, args);
+      break;
+    case 'move_nodes':
+      await planMoveNodes(ctx, args);
+      break;
+    case 'batch_delete':
+      await planBatchDelete(ctx, args);
+      break;
+    case 'cross_page_move':
+      await planCrossPageMove(ctx, args);
+      break;
+    case 'frame_to_components':
+      await planFrameToComponents(ctx, args);
+      break;
+    case 'import_design_tokens':
+      await planImportDesignTokens(ctx, args);
+      break;
+    case 'fix_contrast':
+      await planFixContrast(ctx, args);
+      break;
+    case 'lint_design':
+      await planLintDesign(ctx, args);
+      break;
+    case 'fix_consistency':
+      await planFixConsistency(ctx, args);
+      break;
+    default:
+      preview = 'partial';
+      await planFromArguments(ctx, tool, args);
+  }
+  return { ctx, preview };
+}
+
+async function buildChangePlan(tool: string, payload: any): Promise<ChangePlan> {
+  const args = { ...payload };
+  delete args.dryRun;
+  delete args.operationId;
+
+  const { ctx, preview } = await collectChangePlan(tool, args);
+  changePlanCounter++;
+  const plan: ChangePlan = {
+    dryRun: true,
+    planId: `plan-${Date.now().toString(36)}-${changePlanCounter}`,
+    tool,
+    createdAt: Date.now(),
+    preview,
+    summary: {
+      create: ctx.changes.create.length,
+      modify: ctx.changes.modify.length,
+      delete: ctx.changes.delete.length,
+      move: ctx.changes.move.length,
+      errors: ctx.errors.length,
+    },
+    changes: ctx.changes,
+    errors: ctx.errors,
+    warnings: ctx.warnings,
   };
 
-  const collides = (r: { x: number; y: number; width: number; height: number }) => {
-    const normalized = normalize(r);
-    if (!normalized) return false;
-    const expandedCandidate = inflate(normalized, collisionPad);
-    for (const b of blockers) {
-      if (isDegenerateRect(b)) continue;
-      if (rectsOverlap(expandedCandidate, inflate(b, collisionPad))) return true;
+  const fingerprints: Map<string, string> = new Map();
+  for (const node of ctx.targets.values()) {
+    fingerprints.set(node.id, await fingerprintPlanNode(node));
+  }
+  const scopeFingerprints: Map<string, string> = new Map();
+  if (preview === 'partial') {
+    const pages = new Set<PageNode>([figma.currentPage]);
+    for (const node of ctx.targets.values()) {
+      const page = getNodePage(node);
+      if (page) pages.add(page);
     }
-    for (const p of placed) {
-      if (isDegenerateRect(p)) continue;
-      if (rectsOverlap(expandedCandidate, inflate(p, collisionPad))) return true;
+    for (const page of pages) scopeFingerprints.set(page.id, await fingerprintPlanScope(page));
+  }
+  changePlans.set(plan.planId, { plan, payload: args, fingerprints, scopeFingerprints });
+  if (changePlans.size > PLAN_MAX_STORED) {
+    changePlans.delete(changePlans.keys().next().value);
+  }
+  return plan;
+}
+
+async function applyPlan(planId: string, messageId: string): Promise<any> {
+  if (!planId) throw new Error('planId required');
+  const stored = changePlans.get(planId);
+  if (!stored) throw new Error(`Plan not found or expired: ${planId}`);
+
+  const stale: string[] = [];
+  for (const [nodeId, fingerprint] of stored.fingerprints) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || node.removed || await fingerprintPlanNode(node) !== fingerprint) stale.push(nodeId);
+  }
+  if (stale.length > 0) {
+    throw new Error(`Plan ${planId} is stale: ${stale.length} target(s) changed since the dry run (${stale.slice(0, 10).join(', ')})`);
+  }
+  for (const [pageId, fingerprint] of stored.scopeFingerprints) {
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== 'PAGE' || await fingerprintPlanScope(page) !== fingerprint) {
+      throw new Error(`Plan ${planId} is stale: page ${pageId} changed since the dry run`);
     }
-    return false;
-  };
+  }
+  // The tool re-runs with the stored arguments, so it must still resolve to exactly the planned changes
+  // (scope-driven tools would otherwise also pick up nodes added or edited since the dry run).
+  const { ctx } = await collectChangePlan(stored.plan.tool, stored.payload);
+  if (JSON.stringify(ctx.changes) !== JSON.stringify(stored.plan.changes) || JSON.stringify(ctx.errors) !== JSON.stringify(stored.plan.errors)) {
+    const planned = stored.plan.summary;
+    const now = ctx.changes;
+    throw new Error(`Plan ${planId} is stale: the document no longer yields the planned changes ` +
+      `(planned create/modify/delete/move ${planned.create}/${planned.modify}/${planned.delete}/${planned.move}, ` +
+      `now ${now.create.length}/${now.modify.length}/${now.delete.length}/${now.move.length}). Run the dry run again.`);
+  }
 
-  const addCandidate = (pool: Array<{ x: number; y: number; width: number; height: number }>, x: number, y: number) => {
-    const normalized = normalize({ ...rect, x, y, width: rect.width, height: rect.height });
-    if (!normalized) return;
-    const key = `${normalized.x},${normalized.y}`;
-    if (candidateSet.has(key)) return;
-    candidateSet.add(key);
-    pool.push(normalized);
-  };
+  changePlans.delete(planId);
+  const result = await handleMessage({ type: stored.plan.tool, id: messageId, payload: stored.payload });
+  return { planId, tool: stored.plan.tool, applied: true, result };
+}
 
-  const rankByDistance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
-    Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+async function selectNodes(nodeIds: string[], append: boolean = false, focus: boolean = true): Promise<any> {
+  if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
+    throw new Error('nodeIds is required');
+  }
 
-  let candidate = clampInContainer({ ...rect });
-  if (!collides(candidate)) return candidate;
+  const resolved: SceneNode[] = [];
+  const missing: string[] = [];
 
-  const fallbackCandidates: Array<{ x: number; y: number; width: number; height: number }> = [];
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node || !('visible' in node)) {
+      missing.push(id);
+      continue;
+    }
+    resolved.push(node as SceneNode);
+  }
 
-  if (layout === 'row') {
-    for (let i = 1; i < maxTries; i++) {
-      if (i * stepX > maxPrimaryShift) break;
-      const px = rect.x + i * stepX;
-      const py = rect.y;
-      const primary = { ...rect, x: px, y: py };
-      if (!collides(primary)) return clampInContainer(primary);
-      if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
-        for (const dy of [stepY, -stepY, stepY * 2, -stepY * 2]) {
-          if (Math.abs(dy) > maxCrossShift) continue;
-          const alt = { ...rect, x: px, y: py + dy };
-          if (!collides(alt)) return clampInContainer(alt);
-        }
-      }
-      if (maxCrossShift === Number.POSITIVE_INFINITY) {
-        const alt = { ...rect, x: px, y: rect.y + i * stepY };
-        if (!collides(alt)) return clampInContainer(alt);
-      }
-    }
-  } else if (layout === 'column') {
-    for (let i = 1; i < maxTries; i++) {
-      if (i * stepY > maxPrimaryShift) break;
-      const py = rect.y + i * stepY;
-      const px = rect.x;
-      const primary = { ...rect, x: px, y: py };
-      if (!collides(primary)) return clampInContainer(primary);
-      if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
-        for (const dx of [stepX, -stepX, stepX * 2, -stepX * 2]) {
-          if (Math.abs(dx) > maxCrossShift) continue;
-          const alt = { ...rect, x: px + dx, y: py };
-          if (!collides(alt)) return clampInContainer(alt);
-        }
-      }
-      if (maxCrossShift === Number.POSITIVE_INFINITY) {
-        const alt = { ...rect, x: rect.x + i * stepX, y: py };
-        if (!collides(alt)) return clampInContainer(alt);
-      }
-    }
-  } else {
-    for (let i = 0; i < maxTries; i++) {
-      const alt = { ...rect, x: rect.x + i * stepX, y: rect.y + i * stepY };
-      if (policy !== 'strict_no_overlap' && (i * stepX > maxPrimaryShift || i * stepY > maxPrimaryShift)) break;
-      if (!collides(alt)) return clampInContainer(alt);
-    }
+  if (resolved.length === 0) {
+    throw new Error(`No selectable nodes found. Missing: ${missing.join(', ')}`);
   }
 
-  if (policy === 'strict_no_overlap') {
-    const xs = new Set<number>([rect.x, rect.x - stepX, rect.x + stepX]);
-    const ys = new Set<number>([rect.y, rect.y - stepY, rect.y + stepY]);
-    for (const obs of obstacleRects) {
-      if (isDegenerateRect(obs)) continue;
-      xs.add(obs.x - rect.width - normalizedSpacingX);
-      xs.add(obs.x + obs.width + normalizedSpacingX);
-      xs.add(obs.x);
-      xs.add(obs.x + obs.width - rect.width);
-      ys.add(obs.y - rect.height - normalizedSpacingY);
-      ys.add(obs.y + obs.height + normalizedSpacingY);
-      ys.add(obs.y);
-      ys.add(obs.y + obs.height - rect.height);
-    }
+  const targetPage = getNodePage(resolved[0]);
+  if (targetPage && figma.currentPage.id !== targetPage.id) {
+    await figma.setCurrentPageAsync(targetPage);
+  }
 
-    const orderedX = Array.from(xs).sort((a, b) => Math.abs(a - rect.x) - Math.abs(b - rect.x) || a - b);
-    const orderedY = Array.from(ys).sort((a, b) => Math.abs(a - rect.y) - Math.abs(b - rect.y) || a - b);
-    for (const y of orderedY) {
-      for (const x of orderedX) {
-        addCandidate(fallbackCandidates, x, y);
-      }
-    }
+  const samePageNodes = resolved.filter((n) => getNodePage(n)?.id === figma.currentPage.id);
+  const skippedCrossPage = resolved
+    .filter((n) => getNodePage(n)?.id !== figma.currentPage.id)
+    .map((n) => n.id);
 
-    const ringLimit = Math.max(120, Math.ceil(3600 / Math.max(stepX, 1)));
-    for (let ring = 1; ring <= ringLimit; ring++) {
-      const dx = ring * stepX;
-      const dy = ring * stepY;
-      addCandidate(fallbackCandidates, rect.x + dx, rect.y);
-      addCandidate(fallbackCandidates, rect.x - dx, rect.y);
-      addCandidate(fallbackCandidates, rect.x, rect.y + dy);
-      addCandidate(fallbackCandidates, rect.x, rect.y - dy);
-      addCandidate(fallbackCandidates, rect.x + dx, rect.y + dy);
-      addCandidate(fallbackCandidates, rect.x - dx, rect.y + dy);
-      addCandidate(fallbackCandidates, rect.x + dx, rect.y - dy);
-      addCandidate(fallbackCandidates, rect.x - dx, rect.y - dy);
-      if (ring > maxTries) break;
-    }
+  const selected = append
+    ? dedupeNodes([...figma.currentPage.selection, ...samePageNodes])
+    : samePageNodes;
 
-    fallbackCandidates.sort((a, b) => rankByDistance(a, rect) - rankByDistance(b, rect));
-    for (const fallback of fallbackCandidates) {
-      if (!collides(fallback)) return fallback;
-    }
+  figma.currentPage.selection = selected;
+  if (focus && selected.length > 0) {
+    figma.viewport.scrollAndZoomIntoView(selected);
   }
 
-  return candidate;
-}
-
-function isPositionableNode(node: BaseNode | null): node is SceneNode {
-  return (
-    !!node &&
-    node.type !== 'DOCUMENT' &&
-    node.type !== 'PAGE' &&
-    'x' in node &&
-    'y' in node &&
-    'width' in node &&
-    'height' in node
-  );
+  return {
+    selectedCount: selected.length,
+    selectedIds: selected.map((n) => n.id),
+    missingIds: missing,
+    skippedCrossPageIds: skippedCrossPage,
+    pageId: figma.currentPage.id,
+  };
 }
 
-function collapseFullSelectionGroups(nodes: SceneNode[]): SceneNode[] {
-  const selectedIds = new Set(nodes.map((node) => node.id));
-  const parentToChildren = new Map<string, { parent: BaseNode; selectedChildren: Set<string> }>();
-  const promotableParentTypes: Array<NodeType> = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
-
-  for (const node of nodes) {
-    const parent = node.parent;
-    if (!parent || parent.type === 'PAGE' || parent.type === 'DOCUMENT') continue;
-    if (!promotableParentTypes.includes(parent.type) || selectedIds.has(parent.id)) continue;
-    const entry = parentToChildren.get(parent.id);
-    if (entry) {
-      entry.selectedChildren.add(node.id);
-    } else {
-      parentToChildren.set(parent.id, { parent, selectedChildren: new Set([node.id]) });
+async function setFocus(nodeIds?: string[], nodeId?: string, x?: number, y?: number, zoom?: number): Promise<any> {
+  if (typeof x === 'number' && typeof y === 'number') {
+    figma.viewport.center = { x, y };
+    if (typeof zoom === 'number' && Number.isFinite(zoom) && zoom > 0) {
+      figma.viewport.zoom = zoom;
     }
+    return { mode: 'coordinates', center: figma.viewport.center, zoom: figma.viewport.zoom };
   }
 
-  const parentToPromote = new Set<string>();
-  for (const { parent, selectedChildren } of parentToChildren.values()) {
-    const children = (parent as ChildrenMixin).children.filter(isPositionableNode);
-    if (children.length < 2) continue;
-    const allChildrenSelected = children.every((child) => selectedIds.has(child.id));
-    if (!allChildrenSelected) continue;
-    if (children.some((child) => selectedChildren.has(child.id))) {
-      parentToPromote.add(parent.id);
-    }
+  const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : (nodeId ? [nodeId] : []);
+  if (ids.length === 0) {
+    throw new Error('Provide nodeId/nodeIds, or x+y coordinates');
   }
 
-  if (parentToPromote.size === 0) return nodes;
-
-  const collapsed = nodes.filter((node) => {
-    const parent = node.parent;
-    return !(parent && parentToPromote.has(parent.id));
-  });
-  const promotedNodes = new Set<string>(collapsed.map((node) => node.id));
-  for (const id of parentToPromote) {
-    const parentNode = parentToChildren.get(id)?.parent;
-    if (parentNode && isPositionableNode(parentNode) && !promotedNodes.has(parentNode.id)) {
-      const parentScene = parentNode as SceneNode;
-      collapsed.push(parentScene);
-      promotedNodes.add(parentScene.id);
+  const nodes: SceneNode[] = [];
+  const pages: PageNode[] = [];
+  for (const id of ids) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node) continue;
+    if (node.type === 'PAGE') {
+      pages.push(node as PageNode);
+      continue;
     }
+    if ('visible' in node) nodes.push(node as SceneNode);
   }
 
-  return dedupeNodes(collapsed);
-}
-
-function getNodePage(node: BaseNode): PageNode | null {
-  let current: BaseNode | null = node;
-  while (current) {
-    if (current.type === 'PAGE') return current as PageNode;
-    current = current.parent;
-  }
-  return null;
-}
-
-function normalizeArrangeGroupLabel(raw: string): string {
-  return raw
-    .replace(/\s+/g, ' ')
-    .replace(/\/\./g, '-')
-    .trim();
-}
-
-async function resolveArrangeGroup(
-  node: SceneNode,
-  groupBy: ArrangeGroupBy
-): Promise<{ groupKey: string; groupLabel: string }> {
-  if (groupBy === 'none') {
+  // Allow focusing by page id(s): switch to the first provided page.
+  if (nodes.length === 0 && pages.length > 0) {
+    const targetPage = pages[0];
+    if (figma.currentPage.id !== targetPage.id) {
+      await figma.setCurrentPageAsync(targetPage);
+    }
     return {
-      groupKey: 'all',
-      groupLabel: 'all',
+      mode: 'page',
+      pageId: figma.currentPage.id,
+      pageName: figma.currentPage.name,
+      focusedIds: [],
     };
   }
 
-  const category = node.type;
-  if (groupBy === 'type') {
-    return {
-      groupKey: category,
-      groupLabel: category,
-    };
+  if (nodes.length === 0) {
+    throw new Error('No focusable nodes found');
   }
 
-  let componentName = '';
-  if (node.type === 'INSTANCE') {
-    const component = await getInstanceMainComponentSafe(node as InstanceNode);
-    if (component?.name) componentName = component.name;
-  } else if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
-    componentName = node.name;
+  const targetPage = getNodePage(nodes[0]);
+  if (targetPage && figma.currentPage.id !== targetPage.id) {
+    await figma.setCurrentPageAsync(targetPage);
   }
 
-  if (!componentName) {
-    return {
-      groupKey: category,
-      groupLabel: category,
-    };
-  }
+  const samePageNodes = nodes.filter((n) => getNodePage(n)?.id === figma.currentPage.id);
+  figma.viewport.scrollAndZoomIntoView(samePageNodes);
 
-  const normalized = normalizeArrangeGroupLabel(componentName);
   return {
-    groupKey: `${category}::${normalized}`,
-    groupLabel: `${category}: ${normalized}`,
+    mode: 'nodes',
+    focusedIds: samePageNodes.map((n) => n.id),
+    pageId: figma.currentPage.id,
   };
 }
 
-async function getInstanceMainComponentSafe(instance: InstanceNode): Promise<ComponentNode | null> {
-  try {
-    if (typeof (instance as any).getMainComponentAsync === 'function') {
-      return await (instance as any).getMainComponentAsync();
-    }
-  } catch {
-    // Fall through to legacy sync access.
+async function moveNodes(nodeIds: string[], deltaX: number = 0, deltaY: number = 0): Promise<any> {
+  if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
+    throw new Error('nodeIds is required');
   }
-  try {
-    return (instance as any).mainComponent ?? null;
-  } catch {
-    return null;
+  if (!Number.isFinite(deltaX) || !Number.isFinite(deltaY)) {
+    throw new Error('deltaX and deltaY must be numbers');
   }
-}
 
-function dedupeNodes(nodes: SceneNode[]): SceneNode[] {
-  const seen = new Set<string>();
-  const out: SceneNode[] = [];
-  for (const node of nodes) {
-    if (!seen.has(node.id)) {
-      seen.add(node.id);
-      out.push(node);
+  const moved: Array<{ id: string; x: number; y: number }> = [];
+  const skipped: string[] = [];
+
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node || !('x' in node) || !('y' in node)) {
+      skipped.push(id);
+      continue;
     }
+    const scene = node as SceneNode;
+    (scene as any).x = (scene as any).x + deltaX;
+    (scene as any).y = (scene as any).y + deltaY;
+    moved.push({ id: scene.id, x: (scene as any).x, y: (scene as any).y });
   }
-  return out;
-}
 
-function isSceneNode(node: BaseNode | null): node is SceneNode {
-  return Boolean(node) && node!.type !== 'DOCUMENT' && node!.type !== 'PAGE';
+  return {
+    movedCount: moved.length,
+    moved,
+    skippedIds: skipped,
+    deltaX,
+    deltaY,
+  };
 }
 
-async function traverseNodes(node: DocumentNode | PageNode | SceneNode, callback: (node: SceneNode) => Promise<boolean>): Promise<void> {
-  if (node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
-    const shouldContinue = await callback(node as SceneNode);
-    if (!shouldContinue) return;
+async function setNodePosition(nodeId: string, x: number, y: number): Promise<any> {
+  if (!nodeId) throw new Error('nodeId is required');
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error('x and y must be numbers');
   }
 
-  if ('children' in node) {
-    for (const child of node.children) {
-      await traverseNodes(child, callback);
-    }
+  const node = await figma.getNodeByIdAsync(nodeId);
+  if (!node || !('x' in node) || !('y' in node)) {
+    throw new Error('Node not found or node is not positionable');
   }
-}
 
-function nodeToInfo(node: SceneNode, includeChildren: boolean = false): NodeInfo {
-  const info: NodeInfo = {
-    id: node.id,
-    name: node.name,
-    type: node.type,
-    visible: node.visible,
-    locked: node.locked,
-  };
+  const scene = node as SceneNode;
+  (scene as any).x = x;
+  (scene as any).y = y;
+  return { id: scene.id, x: (scene as any).x, y: (scene as any).y };
+}
 
-  if ('opacity' in node) info.opacity = node.opacity;
-  if ('blendMode' in node) info.blendMode = node.blendMode;
+type ArrangeLayout = 'row' | 'column' | 'grid';
+type ArrangeGroupBy = 'none' | 'type' | 'typeAndComponent';
+type MissingNodeReason =
+  | 'not_found'
+  | 'not_positionable'
+  | 'missing_bounds'
+  | 'cross_page_filtered';
 
-  if ('x' in node) {
-    info.x = node.x;
-    info.y = node.y;
-    info.width = node.width;
-    info.height = node.height;
-    if ('rotation' in node) info.rotation = node.rotation;
-  }
+type MissingNodeDetail = {
+  id: string;
+  reason: MissingNodeReason;
+  nodeType?: string;
+  pageId?: string | null;
+  note?: string;
+};
 
-  if ('fills' in node) info.fills = (node as GeometryMixin).fills as Paint[];
-  if ('strokes' in node) info.strokes = (node as GeometryMixin).strokes as Paint[];
-  if ('strokeWeight' in node && typeof node.strokeWeight === 'number') info.strokeWeight = node.strokeWeight;
-  if ('strokeAlign' in node) info.strokeAlign = node.strokeAlign;
-  if ('topLeftRadius' in node) {
-    info.cornerRadius = [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius];
-  } else if ('cornerRadius' in node && typeof node.cornerRadius === 'number') {
-    info.cornerRadius = node.cornerRadius;
-  }
+async function arrangeNodes(
+  nodeIds?: string[],
+  layout: ArrangeLayout = 'row',
+  columns?: number,
+  spacingX: number = 120,
+  spacingY: number = 120,
+  groupBy: ArrangeGroupBy = 'none',
+  startX?: number,
+  startY?: number,
+  withinContainerId?: string,
+  placementPolicy: 'preserve_lane' | 'min_move' | 'strict_no_overlap' = 'min_move',
+  avoidOverlaps: boolean = true,
+  verifyVisual: boolean = false,
+  snapshotMode: 'selection' | 'region' | 'page' = 'selection',
+  snapshotScale: number = 1,
+  focus: boolean = true
+): Promise<any> {
+  const ids = Array.isArray(nodeIds) && nodeIds.length > 0
+    ? Array.from(new Set(nodeIds))
+    : figma.currentPage.selection.map((n) => n.id);
 
-  if ('layoutMode' in node) {
-    const frame = node as FrameNode;
-    info.layoutMode = frame.layoutMode;
-    info.primaryAxisAlignItems = frame.primaryAxisAlignItems;
-    info.counterAxisAlignItems = frame.counterAxisAlignItems;
-    info.paddingTop = frame.paddingTop;
-    info.paddingRight = frame.paddingRight;
-    info.paddingBottom = frame.paddingBottom;
-    info.paddingLeft = frame.paddingLeft;
-    info.itemSpacing = frame.itemSpacing;
+  if (ids.length === 0) {
+    throw new Error('No nodeIds provided and current selection is empty');
   }
 
-  if (node.type === 'INSTANCE') {
-    try {
-      const mainComponent = (node as any).mainComponent as ComponentNode | null;
-      if (mainComponent) {
-        info.mainComponent = {
-          id: mainComponent.id,
-          name: mainComponent.name,
-          type: mainComponent.type,
-        };
-      }
-    } catch {
-      // Dynamic-page mode can throw on sync access; omit optional field.
+  let nodes: SceneNode[] = [];
+  const missingDetails: MissingNodeDetail[] = [];
+  for (const id of ids) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node) {
+      missingDetails.push({ id, reason: 'not_found' });
+      continue;
     }
-  }
-
-  if (node.type === 'COMPONENT') {
-    const component = node as ComponentNode;
-    // Check if part of variant
-    if (component.parent?.type === 'COMPONENT_SET') {
-      try {
-        info.variantProperties = component.variantProperties || undefined;
-      } catch {
-        // Some broken component sets can throw from variantProperties getter.
-        info.variantProperties = undefined;
-      }
+    const nodeType = (node as BaseNode).type;
+    const pageId = getNodePage(node)?.id || null;
+    if (!('x' in node) || !('y' in node)) {
+      missingDetails.push({
+        id,
+        reason: 'not_positionable',
+        nodeType,
+        pageId,
+      });
+      continue;
     }
+    if (!('width' in node) || !('height' in node)) {
+      missingDetails.push({
+        id,
+        reason: 'missing_bounds',
+        nodeType,
+        pageId,
+      });
+      continue;
+    }
+    nodes.push(node as SceneNode);
   }
 
-  if ('reactions' in node) {
-    info.reactions = [...node.reactions];
-  }
-
-  if (includeChildren && 'children' in node) {
-    info.children = node.children.map(c => c.id);
+  if (nodes.length === 0) {
+    throw new Error('No positionable nodes found');
   }
 
-  if (node.parent) {
-    info.parent = node.parent.id;
-  }
+  const selectedNodeIds = new Set(nodes.map((n) => n.id));
+  nodes = nodes.filter((node) => {
+    let parent = node.parent;
+    while (parent) {
+      if (selectedNodeIds.has(parent.id)) {
+        return false;
+      }
+      parent = parent.parent;
+    }
+    return true;
+  });
 
-  return info;
-}
+  nodes = collapseFullSelectionGroups(nodes);
 
-function getNodeChildren(
-  node: PageNode | SceneNode,
-  maxDepth: number,
-  currentDepth: number,
-  state?: { remaining: number; truncated: boolean },
-  maxChildrenPerNode: number = 200
-): any[] {
-  if (currentDepth >= maxDepth || !('children' in node)) {
-    return [];
+  if (nodes.length === 0) {
+    throw new Error('No top-level nodes found (selection contains only descendants of other selected nodes)');
   }
 
-  const children = node.children;
-  const maxChildren = Math.min(children.length, Math.max(1, maxChildrenPerNode));
-  if (children.length > maxChildren && state) {
-    state.truncated = true;
+  const targetPage = getNodePage(nodes[0]);
+  if (targetPage && figma.currentPage.id !== targetPage.id) {
+    await figma.setCurrentPageAsync(targetPage);
   }
 
-  const out: any[] = [];
-  for (let i = 0; i < maxChildren; i += 1) {
-    if (state && state.remaining <= 0) {
-      state.truncated = true;
-      break;
+  const samePageNodes = nodes.filter((n) => getNodePage(n)?.id === figma.currentPage.id);
+  for (const node of nodes) {
+    const pageId = getNodePage(node)?.id || null;
+    if (pageId && pageId !== figma.currentPage.id) {
+      missingDetails.push({
+        id: node.id,
+        reason: 'cross_page_filtered',
+        nodeType: node.type,
+        pageId,
+        note: `target_page=${figma.currentPage.id}`,
+      });
     }
-    const child = children[i];
-    if (state) state.remaining -= 1;
-    out.push({
-      id: child.id,
-      name: child.name,
-      type: child.type,
-      children: getNodeChildren(child, maxDepth, currentDepth + 1, state, maxChildrenPerNode),
-    });
   }
-  if (state && state.remaining <= 0 && children.length > out.length) {
-    state.truncated = true;
+  if (samePageNodes.length === 0) {
+    throw new Error('No nodes are on the current page after page switch');
   }
-  return out;
-}
 
-function applyNodeProperties(node: SceneNode, properties: any): void {
-  if (properties.x !== undefined && 'x' in node) node.x = properties.x;
-  if (properties.y !== undefined && 'y' in node) node.y = properties.y;
-  if ((properties.width !== undefined || properties.height !== undefined) && 'resize' in node && typeof (node as any).resize === 'function') {
-    const nextWidth = properties.width !== undefined ? properties.width : (node as any).width;
-    const nextHeight = properties.height !== undefined ? properties.height : (node as any).height;
-    (node as any).resize(nextWidth, nextHeight);
-  }
-  if (properties.rotation !== undefined && 'rotation' in node) node.rotation = properties.rotation;
-  if (properties.opacity !== undefined && 'opacity' in node) node.opacity = properties.opacity;
-  if (properties.name !== undefined) node.name = properties.name;
-  if (properties.visible !== undefined) node.visible = properties.visible;
-
-  if (properties.fills !== undefined && 'fills' in node) {
-    (node as GeometryMixin).fills = normalizePaintArray(properties.fills);
-  }
-  if (properties.strokes !== undefined && 'strokes' in node) {
-    (node as GeometryMixin).strokes = normalizePaintArray(properties.strokes);
-  }
-
-  if (properties.layoutMode !== undefined && 'layoutMode' in node) {
-    (node as FrameNode).layoutMode = properties.layoutMode;
-  }
-}
-
-function extractFeatures(node: SceneNode): any {
-  const features: any = {
-    type: node.type,
-    width: 'width' in node ? node.width : 0,
-    height: 'height' in node ? node.height : 0,
-  };
+  const needsGrouping = groupBy && groupBy !== 'none';
+  const layoutForSort = layout;
+  let sorted = [...samePageNodes].sort((a, b) => {
+    if (layoutForSort === 'column') return (a.y - b.y) || (a.x - b.x);
+    return (a.x - b.x) || (a.y - b.y);
+  });
+  const container = withinContainerId ? await resolveContainer(withinContainerId) : null;
+  const containerPad = 24;
 
-  if ('fills' in node) {
-    const rawFills = (node as GeometryMixin).fills as any;
-    const fills = Array.isArray(rawFills) ? rawFills as Paint[] : [];
-    const solidFill = fills.find(f => f.type === 'SOLID') as SolidPaint;
-    if (solidFill) {
-      features.fillColor = solidFill.color;
-      features.fillOpacity = solidFill.opacity;
+  // Optional: ensure nodes are actual children of target container.
+  let containerizedCount = 0;
+  if (container) {
+    const c = await containerizeNodes(sorted.map((n) => n.id), container.id);
+    containerizedCount = c.containerizedCount;
+    for (let i = 0; i < sorted.length; i++) {
+      const n = await figma.getNodeByIdAsync(sorted[i].id);
+      if (n && 'x' in n && 'y' in n && 'width' in n && 'height' in n) {
+        sorted[i] = n as SceneNode;
+      }
     }
   }
 
-  if ('cornerRadius' in node) {
-    features.cornerRadius = node.cornerRadius;
-  }
+  const arrangementMeta = await Promise.all(sorted.map(async (node) => {
+    const absoluteRect = sceneNodeToRect(node);
+    const parent = node.parent;
+    const localWidth = Number.isFinite((node as SceneNode).width) ? (node as SceneNode).width : absoluteRect.width;
+    const localHeight = Number.isFinite((node as SceneNode).height) ? (node as SceneNode).height : absoluteRect.height;
+    const localRect = {
+      x: node.x,
+      y: node.y,
+      width: localWidth,
+      height: localHeight,
+    };
+    const area = Math.max(0, localRect.width) * Math.max(0, localRect.height);
+    const groupByMode = groupBy || 'none';
+    const groupInfo = await resolveArrangeGroup(node, groupByMode);
+    return {
+      node,
+      rect: absoluteRect,
+      localRect,
+      area,
+      parentId: parent ? parent.id : 'page',
+      ...groupInfo,
+    };
+  }));
 
-  if ('layoutMode' in node) {
-    features.hasAutoLayout = (node as FrameNode).layoutMode !== 'NONE';
-  }
+  const beforeUnion = getUnionBounds(arrangementMeta.map((m) => m.rect));
+  const gridCols = layout === 'grid'
+    ? Math.max(1, Number.isFinite(columns as number) ? Math.floor(columns as number) : Math.ceil(Math.sqrt(arrangementMeta.length)))
+    : 1;
+  const compactSpacingX = layout === 'row'
+    ? Math.max(8, needsGrouping ? Math.min(spacingX, 80) : spacingX)
+    : Math.max(8, spacingX);
+  const compactSpacingY = layout === 'row'
+    ? Math.max(8, needsGrouping ? Math.min(spacingY, 60) : spacingY)
+    : Math.max(8, spacingY);
+  const groupGap = Math.max(compactSpacingX * 1.5, 24);
 
-  if ('children' in node) {
-    features.childCount = node.children.length;
-    features.childTypes = node.children.map(c => c.type);
+  const targetIds = new Set(sorted.map((n) => n.id));
+  const ancestorIds = new Set<string>();
+  for (const node of sorted) {
+    let cur: BaseNode | null = node.parent;
+    while (cur) {
+      ancestorIds.add(cur.id);
+      cur = cur.parent;
+    }
   }
-
-  return features;
-}
-
-function calculateSimilarity(a: any, b: any): number {
-  let score = 0;
-  let total = 0;
-
-  if (a.type === b.type) score += 1;
-  total += 1;
-
-  const sizeDiff = Math.abs(a.width - b.width) / Math.max(a.width, b.height) +
-                   Math.abs(a.height - b.height) / Math.max(a.height, b.height);
-  score += Math.max(0, 1 - sizeDiff);
-  total += 1;
-
-  if (a.fillColor && b.fillColor) {
-    const colorDiff = Math.abs(a.fillColor.r - b.fillColor.r) +
-                      Math.abs(a.fillColor.g - b.fillColor.g) +
-                      Math.abs(a.fillColor.b - b.fillColor.b);
-    score += Math.max(0, 1 - colorDiff / 3);
-    total += 1;
+  const blockersByParent = new Map<string, Array<{ x: number; y: number; width: number; height: number }>>();
+  if (avoidOverlaps) {
+    await traverseNodes(figma.currentPage, async (node) => {
+      if (
+        !targetIds.has(node.id) &&
+        !ancestorIds.has(node.id) &&
+        node.type !== 'SECTION' &&
+        'x' in node && 'y' in node && 'width' in node && 'height' in node
+      ) {
+        const parent = node.parent;
+        const parentId = parent && parent.type !== 'PAGE' ? parent.id : 'page';
+        const sceneRect = sceneNodeToRect(node);
+        const list = blockersByParent.get(parentId) || [];
+        list.push({
+          x: (node as SceneNode).x,
+          y: (node as SceneNode).y,
+          width: (node as SceneNode).width,
+          height: (node as SceneNode).height,
+        });
+        blockersByParent.set(parentId, list);
+      }
+      return true;
+    });
   }
 
-  if (a.cornerRadius !== undefined && b.cornerRadius !== undefined) {
-    score += a.cornerRadius === b.cornerRadius ? 1 : 0;
-    total += 1;
-  }
+  const arranged: Array<{ id: string; x: number; y: number; groupBy?: string; groupLabel?: string; area?: number }> = [];
+  const allBlockers = [...blockersByParent.values()].flat();
+  const beforeQuality = evaluateArrangementQuality(arrangementMeta.map((item) => item.rect), allBlockers);
 
-  if (a.hasAutoLayout !== undefined && b.hasAutoLayout !== undefined) {
-    score += a.hasAutoLayout === b.hasAutoLayout ? 1 : 0;
-    total += 1;
+  const parentGroups = new Map<string, typeof arrangementMeta>();
+  for (const item of arrangementMeta) {
+    const parentId = item.parentId || 'page';
+    if (!parentGroups.has(parentId)) parentGroups.set(parentId, []);
+    parentGroups.get(parentId)!.push(item);
   }
 
-  return score / total;
-}
+  const ARRANGE_CANCEL_CHECK_INTERVAL = 25;
+  let cancelled = false;
+  const shouldStopArranging = async (): Promise<boolean> => {
+    if (!cancelled && arranged.length > 0 && arranged.length % ARRANGE_CANCEL_CHECK_INTERVAL === 0) {
+      cancelled = await cancellationCheckpoint('arrange_nodes');
+    }
+    return cancelled;
+  };
 
-async function groupSimilarNodes(nodeIds: string[]): Promise<string[][]> {
-  const nodes: SceneNode[] = [];
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node) nodes.push(node);
-  }
+  const parentIds = [...parentGroups.keys()];
+  for (const parentId of parentIds) {
+    if (cancelled) break;
+    const parentItems = parentGroups.get(parentId)!;
+    if (parentItems.length === 0) continue;
 
-  const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
+    const placedRects: Array<{ x: number; y: number; width: number; height: number }> = [];
+    const localBlockers = blockersByParent.get(parentId) || [];
+    const baseX = container
+      ? Math.max(Number.isFinite(startX as number) ? (startX as number) : containerPad, containerPad)
+      : (Number.isFinite(startX as number)
+        ? (startX as number)
+        : Math.min(...parentItems.map((item) => item.localRect.x)));
+    const baseY = container
+      ? Math.max(Number.isFinite(startY as number) ? (startY as number) : containerPad, containerPad)
+      : (Number.isFinite(startY as number)
+        ? (startY as number)
+        : Math.min(...parentItems.map((item) => item.localRect.y)));
+    const localMaxRight = container
+      ? container.width - containerPad
+      : Number.POSITIVE_INFINITY;
+    const localMaxWidth = Math.max(...parentItems.map((item) => item.localRect.width));
+    const localMaxHeight = Math.max(...parentItems.map((item) => item.localRect.height));
 
-  for (const node of nodes) {
-    const features = extractFeatures(node);
-    let added = false;
+    if (layout === 'row' && needsGrouping) {
+      const groups = new Map<string, typeof arrangementMeta>();
+      const groupLabels = new Map<string, string>();
 
-    for (const group of groups) {
-      if (calculateSimilarity(features, group.features) >= 0.85) {
-        group.nodes.push(node);
-        added = true;
-        break;
+      for (const item of parentItems) {
+        if (!groups.has(item.groupKey)) {
+          groups.set(item.groupKey, []);
+          groupLabels.set(item.groupKey, item.groupLabel);
+        }
+        groups.get(item.groupKey)!.push(item);
       }
-    }
 
-    if (!added) {
-      groups.push({ nodes: [node], features });
-    }
-  }
+      const rows = Array.from(groups.entries()).map(([key, groupItems]) => {
+        const sortedGroup = [...groupItems].sort((a, b) => (b.area - a.area) || (a.localRect.y - b.localRect.y));
+        const area = sortedGroup.reduce((sum, i) => sum + i.area, 0);
+        return {
+          key,
+          label: groupLabels.get(key) || key,
+          area,
+          items: sortedGroup,
+        };
+      }).sort((a, b) => (b.area - a.area) || a.label.localeCompare(b.label));
 
-  return groups.map(g => g.nodes.map(n => n.id));
-}
+      let groupCursorY = baseY;
 
-function groupBySimilarity(nodes: SceneNode[]): SceneNode[][] {
-  const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
+      for (const row of rows) {
+        let rowCursorX = baseX;
+        let rowCursorY = groupCursorY;
+        let rowMaxHeight = 0;
+        let rowMaxUsedY = baseY;
 
-  for (const node of nodes) {
-    const features = extractFeatures(node);
-    let added = false;
+        if (cancelled) break;
+        for (const item of row.items) {
+          if (await shouldStopArranging()) break;
+          if (localMaxRight !== Number.POSITIVE_INFINITY && rowCursorX + item.localRect.width > localMaxRight && rowCursorX > baseX) {
+            rowCursorX = baseX;
+            rowCursorY += rowMaxHeight + compactSpacingY;
+            rowMaxHeight = 0;
+          }
 
-    for (const group of groups) {
-      if (calculateSimilarity(features, group.features) >= 0.8) {
-        group.nodes.push(node);
-        added = true;
-        break;
-      }
-    }
+          const localCandidate = {
+            x: rowCursorX,
+            y: rowCursorY,
+            width: item.localRect.width,
+            height: item.localRect.height,
+          };
+          let candidate = localCandidate;
 
-    if (!added) {
-      groups.push({ nodes: [node], features });
-    }
-  }
+          if (avoidOverlaps) {
+            candidate = resolveCollisionCandidate(
+              candidate,
+              localBlockers,
+              placedRects,
+              'row',
+              compactSpacingX,
+              compactSpacingY,
+              placementPolicy,
+              container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined,
+              containerPad
+            );
+          }
 
-  return groups.map(g => g.nodes);
-}
+          item.node.x = candidate.x;
+          item.node.y = candidate.y;
+          placedRects.push(candidate);
+          rowMaxHeight = Math.max(rowMaxHeight, candidate.height);
+          rowMaxUsedY = Math.max(rowMaxUsedY, candidate.y + candidate.height);
+          arranged.push({
+            id: item.node.id,
+            x: candidate.x,
+            y: candidate.y,
+            groupBy: row.key,
+            groupLabel: row.label,
+            area: item.area,
+          });
+          rowCursorX = candidate.x + candidate.width + compactSpacingX;
+        }
 
-function isButtonLike(node: SceneNode): boolean {
-  const name = node.name.toLowerCase();
-  return name.includes('button') || name.includes('btn') ||
-         (node.type === 'FRAME' && 'width' in node && node.width >= 80 && node.width <= 300 &&
-          node.height >= 32 && node.height <= 60);
-}
+        groupCursorY = Math.max(groupCursorY, rowMaxUsedY) + compactSpacingY;
+        if (rowMaxHeight > 0) {
+          groupCursorY += Math.max(groupGap - compactSpacingY, compactSpacingY);
+        }
+      }
+      continue;
+    }
 
-function isCardLike(node: SceneNode): boolean {
-  const name = node.name.toLowerCase();
-  return name.includes('card') ||
-         (node.type === 'FRAME' && 'width' in node && node.width >= 200 && node.height >= 150);
-}
+    const ordered = [...parentItems].sort((a, b) => {
+      if (layout === 'column') return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
+      if (layout === 'grid') return (b.area - a.area) || (a.localRect.y - b.localRect.y) || (a.localRect.x - b.localRect.x);
+      return (b.area - a.area) || (a.localRect.x - b.localRect.x) || (a.localRect.y - b.localRect.y);
+    });
 
-function isInputLike(node: SceneNode): boolean {
-  const name = node.name.toLowerCase();
-  return name.includes('input') || name.includes('field') || name.includes('textfield') ||
-         (node.type === 'FRAME' && 'width' in node && node.width >= 150 && node.height >= 32 && node.height <= 56);
-}
+    let rowX = baseX;
+    let colY = baseY;
 
-function matchesColorQuery(color: RGB, query: string): boolean {
-  const colorMap: Record<string, { r: number; g: number; b: number }> = {
-    'red': { r: 1, g: 0, b: 0 },
-    'blue': { r: 0, g: 0.5, b: 1 },
-    'green': { r: 0, g: 1, b: 0 },
-    'yellow': { r: 1, g: 1, b: 0 },
-    'black': { r: 0, g: 0, b: 0 },
-    'white': { r: 1, g: 1, b: 1 },
-  };
+    for (let i = 0; i < ordered.length; i++) {
+      if (await shouldStopArranging()) break;
+      const item = ordered[i];
+      const node = item.node;
+      let localCandidate;
+      if (layout === 'row') {
+        localCandidate = { x: rowX, y: baseY, width: item.localRect.width, height: item.localRect.height };
+        rowX += item.localRect.width + compactSpacingX;
+      } else if (layout === 'column') {
+        localCandidate = { x: baseX, y: colY, width: item.localRect.width, height: item.localRect.height };
+        colY += item.localRect.height + compactSpacingY;
+      } else {
+        const col = i % gridCols;
+        const row = Math.floor(i / gridCols);
+        localCandidate = {
+          x: baseX + col * (localMaxWidth + compactSpacingX),
+          y: baseY + row * (localMaxHeight + compactSpacingY),
+          width: item.localRect.width,
+          height: item.localRect.height,
+        };
+      }
 
-  const target = colorMap[query.toLowerCase()];
-  if (!target) return false;
+      let candidate = localCandidate;
+      if (avoidOverlaps) {
+        candidate = resolveCollisionCandidate(
+          candidate,
+          localBlockers,
+          placedRects,
+          layout,
+          compactSpacingX,
+          compactSpacingY,
+          placementPolicy,
+          container ? { x: 0, y: 0, width: container.width, height: container.height } : undefined,
+          containerPad
+        );
+      }
 
-  const threshold = 0.3;
-  return Math.abs(color.r - target.r) < threshold &&
-         Math.abs(color.g - target.g) < threshold &&
-         Math.abs(color.b - target.b) < threshold;
-}
+      node.x = candidate.x;
+      node.y = candidate.y;
+      placedRects.push(candidate);
+      arranged.push({
+        id: node.id,
+        x: candidate.x,
+        y: candidate.y,
+        groupBy: item.groupKey,
+        groupLabel: item.groupLabel,
+        area: item.area,
+      });
+    }
+  }
 
-function generateComponentName(node: SceneNode): string {
-  if (isButtonLike(node)) return 'Button';
-  if (isCardLike(node)) return 'Card';
-  if (isInputLike(node)) return 'Input';
-  return node.name.replace(/\s*\d+$/, '');
-}
+  if (focus) {
+    figma.viewport.scrollAndZoomIntoView(sorted);
+  }
 
-function generateSemanticName(node: SceneNode, index: number): string {
-  const typePrefix = node.type === 'FRAME' ? 'Container' :
-                     node.type === 'RECTANGLE' ? 'Shape' :
-                     node.type === 'TEXT' ? 'Label' :
-                     node.type === 'COMPONENT' ? 'Component' :
-                     node.type === 'INSTANCE' ? 'Instance' : 'Element';
-  return `${typePrefix}/${node.name.replace(/\s*\d+$/, '')}_${index + 1}`;
-}
+  const afterRects = sorted.map(sceneNodeToRect);
+  const afterUnion = getUnionBounds(afterRects);
+  const afterQuality = evaluateArrangementQuality(afterRects, allBlockers);
+  const parentMismatchCount = container
+    ? sorted.filter((n) => n.parent?.id !== container.id).length
+    : 0;
+  const outsideContainerCount = container
+    ? afterRects.filter((r) => !rectInside(r, container)).length
+    : 0;
 
-function generateFunctionalName(node: SceneNode, index: number): string {
-  if (isButtonLike(node)) return `Button/${node.name}`;
-  if (isCardLike(node)) return `Card/${node.name}`;
-  if (isInputLike(node)) return `Input/${node.name}`;
-  return `UI/${node.name}`;
+  let visual: any = undefined;
+  if (verifyVisual) {
+    const captureMode = snapshotMode || 'selection';
+    const beforeShot = captureMode === 'selection'
+      ? await captureView('region', undefined, beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, false)
+      : await captureView(captureMode, sorted.map((n) => n.id), beforeUnion.x, beforeUnion.y, beforeUnion.width, beforeUnion.height, snapshotScale, false);
+    const afterShot = captureMode === 'selection'
+      ? await captureView('region', undefined, afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, false)
+      : await captureView(captureMode, sorted.map((n) => n.id), afterUnion.x, afterUnion.y, afterUnion.width, afterUnion.height, snapshotScale, false);
+    visual = { before: beforeShot, after: afterShot };
+  }
+
+  return {
+    arrangedCount: arranged.length,
+    cancelled,
+    layout,
+    columns: layout === 'grid' ? gridCols : undefined,
+    spacingX,
+    spacingY,
+    avoidOverlaps,
+    withinContainerId: container?.id,
+    placementPolicy,
+    containerizedCount,
+    quality: {
+      before: beforeQuality,
+      after: afterQuality,
+      overlapDelta: beforeQuality.overlapCount - afterQuality.overlapCount,
+      nodeOverlapDelta: beforeQuality.overlapBetweenCandidates - afterQuality.overlapBetweenCandidates,
+      parentMismatchCount,
+      outsideContainerCount,
+    },
+    visual,
+    arranged,
+    missingIds: Array.from(new Set(missingDetails.map((d) => d.id))),
+    missingDetails,
+    pageId: figma.currentPage.id,
+  };
 }
 
-function generateAtomicName(node: SceneNode, index: number): string {
-  if (node.type === 'TEXT') return `Atoms/Text/${node.name}`;
-  if (node.type === 'RECTANGLE') return `Atoms/Shape/${node.name}`;
-  if (node.type === 'FRAME') return `Molecules/${node.name}`;
-  if (node.type === 'COMPONENT') return `Components/${node.name}`;
-  return `Elements/${node.name}`;
+async function resolveContainer(containerId: string): Promise<SceneNode & ChildrenMixin & LayoutMixin> {
+  const node = await figma.getNodeByIdAsync(containerId);
+  if (!node || !('children' in node) || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
+    throw new Error(`Invalid containerId: ${containerId}`);
+  }
+  return node as SceneNode & ChildrenMixin & LayoutMixin;
 }
 
-async function findNodeWithSimilarName(root: PageNode | DocumentNode, baseName: string, targetName: string): Promise<SceneNode | null> {
-  // Simple name matching - find node with similar naming pattern
-  const targetBase = targetName.replace(/\d+/g, '');
-  const baseNumber = baseName.match(/\d+/)?.[0];
+async function containerizeNodes(nodeIds: string[], containerId: string): Promise<any> {
+  if (!Array.isArray(nodeIds) || nodeIds.length === 0) {
+    throw new Error('nodeIds is required');
+  }
+  const container = await resolveContainer(containerId);
+  const moved: string[] = [];
+  const skipped: Array<{ id: string; reason: string }> = [];
 
-  let result: SceneNode | null = null;
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node || !('x' in node) || !('y' in node) || !('width' in node) || !('height' in node)) {
+      skipped.push({ id, reason: 'not_positionable' });
+      continue;
+    }
+    const scene = node as SceneNode;
+    if (scene.id === container.id) {
+      skipped.push({ id, reason: 'self_container' });
+      continue;
+    }
+    if (scene.parent?.id === container.id) {
+      skipped.push({ id, reason: 'already_child' });
+      continue;
+    }
 
-  await traverseNodes(root, async (node) => {
-    const nodeBase = node.name.replace(/\d+/g, '');
-    if (nodeBase === targetBase) {
-      const nodeNumber = node.name.match(/\d+/)?.[0];
-      if (nodeNumber === baseNumber) {
-        result = node;
-        return false;
-      }
+    const globalRect = sceneNodeToRect(scene);
+    try {
+      container.appendChild(scene);
+      scene.x = globalRect.x - container.x;
+      scene.y = globalRect.y - container.y;
+      moved.push(scene.id);
+    } catch (e) {
+      skipped.push({ id, reason: `append_failed:${String(e)}` });
     }
-    return true;
-  });
+  }
 
-  return result;
+  return {
+    containerId: container.id,
+    containerizedCount: moved.length,
+    containerizedIds: moved,
+    skipped,
+  };
 }
 
-function sendProgress(operation: string, current: number, total: number, message: string): void {
-  // Find pending operation and send progress
-  // This is a simplified version
-  console.log(`[${operation}] ${current}/${total}: ${message}`);
-}
+async function validateStructure(nodeIds?: string[], containerId?: string): Promise<any> {
+  const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
+  if (ids.length === 0) throw new Error('No nodeIds provided and current selection is empty');
 
-// ===== Plugin UI =====
-figma.showUI(__html__, { width: 320, height: 400, themeColors: true });
+  const nodes: SceneNode[] = [];
+  const missing: string[] = [];
+  for (const id of ids) {
+    const n = await figma.getNodeByIdAsync(id);
+    if (!n || !('x' in n) || !('y' in n) || !('width' in n) || !('height' in n)) {
+      missing.push(id);
+      continue;
+    }
+    nodes.push(n as SceneNode);
+  }
 
-type RelayBridgeMessage =
-  | { type: 'ws-connected' | 'relay-connected' | 'ws-disconnected' | 'relay-disconnected' | 'get-status'; sessionId?: string; channel?: string }
+  const rects = nodes.map((n) => sceneNodeToRect(n));
+  let overlapPairs = 0;
+  for (let i = 0; i < rects.length; i++) {
+    for (let j = i + 1; j < rects.length; j++) {
+      if (rectsOverlap(rects[i], rects[j])) overlapPairs++;
+    }
+  }
+
+  const getPageId = (node: BaseNode | null): string | null => {
+    let cur: BaseNode | null = node;
+    while (cur) {
+      if (cur.type === 'PAGE') return cur.id;
+      cur = cur.parent;
+    }
+    return null;
+  };
+
+  let container: (SceneNode & ChildrenMixin & LayoutMixin) | null = null;
+  let containerPageId: string | null = null;
+  let containerIsPage = false;
+  if (containerId) {
+    const rawContainer = await figma.getNodeByIdAsync(containerId);
+    if (!rawContainer) {
+      throw new Error(`Invalid containerId: ${containerId} (not found)`);
+    }
+    if (rawContainer.type === 'PAGE') {
+      containerIsPage = true;
+      containerPageId = rawContainer.id;
+    } else {
+      container = await resolveContainer(containerId);
+      containerPageId = getPageId(container);
+    }
+  }
+
+  const parentMismatch = container
+    ? nodes.filter((n) => n.parent?.id !== container!.id).map((n) => n.id)
+    : containerIsPage
+      ? nodes.filter((n) => getPageId(n) !== containerPageId).map((n) => n.id)
+      : [];
+  const outsideContainer = container
+    ? nodes.filter((n) => !rectInside(sceneNodeToRect(n), container!)).map((n) => n.id)
+    : [];
+
+  return {
+    nodeCount: nodes.length,
+    missingIds: missing,
+    overlapPairs,
+    containerId: containerIsPage ? containerId : container?.id,
+    parentMismatchCount: parentMismatch.length,
+    parentMismatchIds: parentMismatch,
+    outsideContainerCount: outsideContainer.length,
+    outsideContainerIds: outsideContainer,
+    recommendations: [
+      ...(parentMismatch.length ? ['Use containerize_nodes to reparent nodes into container'] : []),
+      ...(outsideContainer.length ? ['Use arrange_nodes with withinContainerId to pull nodes inside container'] : []),
+      ...(overlapPairs ? ['Use arrange_nodes with avoidOverlaps=true'] : []),
+    ],
+  };
+}
+
+async function captureView(
+  mode: 'selection' | 'region' | 'page' = 'selection',
+  nodeIds?: string[],
+  x?: number,
+  y?: number,
+  width?: number,
+  height?: number,
+  scale: number = 1,
+  includeBase64: boolean = true
+): Promise<any> {
+  const requestedBounds = await resolveCaptureBounds(mode, nodeIds, x, y, width, height);
+  const { bounds, clipped } = clampCaptureBounds(requestedBounds);
+  if (bounds.width <= 0 || bounds.height <= 0) {
+    throw new Error('Capture bounds are empty');
+  }
+
+  const slice = figma.createSlice();
+  slice.name = `MCP Capture ${mode}`;
+  slice.x = bounds.x;
+  slice.y = bounds.y;
+  slice.resize(bounds.width, bounds.height);
+  figma.currentPage.appendChild(slice);
+
+  try {
+    const bytes = await slice.exportAsync({
+      format: 'PNG',
+      constraint: { type: 'SCALE', value: Number.isFinite(scale) && scale > 0 ? scale : 1 },
+    });
+    return {
+      mode,
+      format: 'PNG',
+      clipped,
+      requestedBounds,
+      bounds,
+      bytesLength: bytes.length,
+      imageHash: figma.createImage(bytes).hash,
+      ...(includeBase64 ? packExportBytes(bytes) : {}),
+    };
+  } finally {
+    slice.remove();
+  }
+}
+
+function clampCaptureBounds(
+  bounds: { x: number; y: number; width: number; height: number },
+  maxWidth: number = 4096,
+  maxHeight: number = 4096
+): { bounds: { x: number; y: number; width: number; height: number }; clipped: boolean } {
+  let { x, y, width, height } = bounds;
+  let clipped = false;
+  if (width > maxWidth) {
+    x = x + (width - maxWidth) / 2;
+    width = maxWidth;
+    clipped = true;
+  }
+  if (height > maxHeight) {
+    y = y + (height - maxHeight) / 2;
+    height = maxHeight;
+    clipped = true;
+  }
+  return { bounds: { x, y, width, height }, clipped };
+}
+
+async function resolveCaptureBounds(
+  mode: 'selection' | 'region' | 'page',
+  nodeIds?: string[],
+  x?: number,
+  y?: number,
+  width?: number,
+  height?: number
+): Promise<{ x: number; y: number; width: number; height: number }> {
+  if (mode === 'region') {
+    if (![x, y, width, height].every((v) => Number.isFinite(v as number))) {
+      throw new Error('mode=region requires x, y, width, height');
+    }
+    return { x: x as number, y: y as number, width: width as number, height: height as number };
+  }
+
+  if (mode === 'selection') {
+    const ids = Array.isArray(nodeIds) && nodeIds.length > 0 ? nodeIds : figma.currentPage.selection.map((n) => n.id);
+    if (ids.length === 0) throw new Error('mode=selection requires nodeIds or current selection');
+    const nodes: SceneNode[] = [];
+    for (const id of ids) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (node && 'x' in node && 'y' in node && 'width' in node && 'height' in node) {
+        nodes.push(node as SceneNode);
+      }
+    }
+    if (nodes.length === 0) throw new Error('No captureable nodes for selection mode');
+    return getUnionBounds(nodes.map(sceneNodeToRect));
+  }
+
+  // mode === 'page'
+  const pageRects: Array<{ x: number; y: number; width: number; height: number }> = [];
+  for (const child of figma.currentPage.children) {
+    if ('x' in child && 'y' in child && 'width' in child && 'height' in child) {
+      pageRects.push(sceneNodeToRect(child as SceneNode));
+    }
+  }
+  if (pageRects.length === 0) {
+    const center = figma.viewport.center;
+    return {
+      x: center.x - 500,
+      y: center.y - 500,
+      width: 1000,
+      height: 1000,
+    };
+  }
+  return getUnionBounds(pageRects);
+}
+
+// ===== Helper Functions =====
+
+function sceneNodeToRect(node: SceneNode): { x: number; y: number; width: number; height: number } {
+  const r = (node as any).absoluteRenderBounds as Rect | null;
+  if (r && Number.isFinite(r.width) && Number.isFinite(r.height) && r.width > 0 && r.height > 0) {
+    return { x: r.x, y: r.y, width: r.width, height: r.height };
+  }
+  return { x: node.x, y: node.y, width: node.width, height: node.height };
+}
+
+function getUnionBounds(rects: Array<{ x: number; y: number; width: number; height: number }>): { x: number; y: number; width: number; height: number } {
+  if (rects.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+}
+
+function countOverlaps(
+  candidates: Array<{ x: number; y: number; width: number; height: number }>,
+  blockers: Array<{ x: number; y: number; width: number; height: number }>
+): number {
+  let count = 0;
+  for (const c of candidates) {
+    if (isDegenerateRect(c)) continue;
+    for (const b of blockers) {
+      if (isDegenerateRect(b)) continue;
+      if (rectsOverlap(c, b)) {
+        count += 1;
+      }
+    }
+  }
+  return count;
+}
+
+function rectInside(
+  rect: { x: number; y: number; width: number; height: number },
+  container: { x: number; y: number; width: number; height: number },
+  padding: number = 0
+): boolean {
+  return (
+    rect.x >= container.x + padding &&
+    rect.y >= container.y + padding &&
+    rect.x + rect.width <= container.x + container.width - padding &&
+    rect.y + rect.height <= container.y + container.height - padding
+  );
+}
+
+function clampRectIntoContainer(
+  rect: { x: number; y: number; width: number; height: number },
+  container: { x: number; y: number; width: number; height: number },
+  padding: number = 0
+): { x: number; y: number; width: number; height: number } {
+  const minX = container.x + padding;
+  const minY = container.y + padding;
+  const maxX = container.x + container.width - padding - rect.width;
+  const maxY = container.y + container.height - padding - rect.height;
+  return {
+    ...rect,
+    x: Math.max(minX, Math.min(maxX, rect.x)),
+    y: Math.max(minY, Math.min(maxY, rect.y)),
+  };
+}
+
+function evaluateArrangementQuality(
+  candidates: Array<{ x: number; y: number; width: number; height: number }>,
+  blockers: Array<{ x: number; y: number; width: number; height: number }>
+): { overlapCount: number; overlapBetweenCandidates: number; minGap: number } {
+  const overlapCount = countOverlaps(candidates, blockers);
+  const overlapBetweenCandidates = countCandidateOverlaps(candidates);
+  let minGap = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      const gapX = Math.max(0, Math.max(a.x, b.x) - Math.min(a.x + a.width, b.x + b.width));
+      const gapY = Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height));
+      minGap = Math.min(minGap, Math.max(gapX, gapY));
+    }
+  }
+  if (!Number.isFinite(minGap)) minGap = 0;
+  return { overlapCount, overlapBetweenCandidates, minGap };
+}
+
+function countCandidateOverlaps(
+  candidates: Array<{ x: number; y: number; width: number; height: number }>
+): number {
+  let count = 0;
+  for (let i = 0; i < candidates.length; i++) {
+    if (isDegenerateRect(candidates[i])) continue;
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (isDegenerateRect(candidates[j])) continue;
+      if (rectsOverlap(candidates[i], candidates[j])) {
+        count += 1;
+      }
+    }
+  }
+  return count;
+}
+
+function rectsOverlap(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number }
+): boolean {
+  if (isDegenerateRect(a) || isDegenerateRect(b)) return false;
+  return !(
+    a.x + a.width <= b.x ||
+    b.x + b.width <= a.x ||
+    a.y + a.height <= b.y ||
+    b.y + b.height <= a.y
+  );
+}
+
+function isDegenerateRect(
+  rect: { width: number; height: number },
+  eps = 0.5
+): boolean {
+  return (
+    !Number.isFinite(rect.width) ||
+    !Number.isFinite(rect.height) ||
+    rect.width <= eps ||
+    rect.height <= eps
+  );
+}
+
+function resolveCollisionCandidate(
+  rect: { x: number; y: number; width: number; height: number },
+  blockers: Array<{ x: number; y: number; width: number; height: number }>,
+  placed: Array<{ x: number; y: number; width: number; height: number }>,
+  layout: ArrangeLayout,
+  spacingX: number,
+  spacingY: number,
+  policy: 'preserve_lane' | 'min_move' | 'strict_no_overlap' = 'preserve_lane',
+  container?: { x: number; y: number; width: number; height: number },
+  containerPadding: number = 0
+): { x: number; y: number; width: number; height: number } {
+  const normalizedSpacingX = Number.isFinite(spacingX) ? Math.max(0, spacingX) : 0;
+  const normalizedSpacingY = Number.isFinite(spacingY) ? Math.max(0, spacingY) : 0;
+  const collisionPad = Math.max(normalizedSpacingX, normalizedSpacingY);
+  const stepX = policy === 'min_move'
+    ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingX) / 3)))
+    : Math.max(16, Math.round(Math.max(20, normalizedSpacingX) / 2));
+  const stepY = policy === 'min_move'
+    ? Math.max(12, Math.min(36, Math.round(Math.max(16, normalizedSpacingY) / 3)))
+    : Math.max(16, Math.round(Math.max(20, normalizedSpacingY) / 2));
+  const maxTries = policy === 'strict_no_overlap' ? 3600 : 500;
+  const maxCrossShift = policy === 'strict_no_overlap'
+    ? Number.POSITIVE_INFINITY
+    : (policy === 'min_move' ? Math.max(stepY * 2, 80) : stepY * 2);
+  const maxPrimaryShift = policy === 'strict_no_overlap'
+    ? Number.POSITIVE_INFINITY
+    : (policy === 'min_move' ? Math.max(stepX * 10, 480) : Math.max(stepX * 18, 900));
+
+  const candidateSet = new Set<string>();
+  const obstacleRects = [...blockers, ...placed];
+
+  const clampInContainer = (r: { x: number; y: number; width: number; height: number }) => {
+    if (!container) return r;
+    return clampRectIntoContainer(r, container, containerPadding);
+  };
+
+  const inflate = (r: { x: number; y: number; width: number; height: number }, pad: number) => {
+    if (!pad) return r;
+    return {
+      x: r.x - pad,
+      y: r.y - pad,
+      width: r.width + pad * 2,
+      height: r.height + pad * 2,
+    };
+  };
+
+  const normalize = (r: { x: number; y: number; width: number; height: number }) => {
+    const normalized = clampInContainer(r);
+    return isDegenerateRect(normalized) ? null : normalized;
+  };
+
+  const collides = (r: { x: number; y: number; width: number; height: number }) => {
+    const normalized = normalize(r);
+    if (!normalized) return false;
+    const expandedCandidate = inflate(normalized, collisionPad);
+    for (const b of blockers) {
+      if (isDegenerateRect(b)) continue;
+      if (rectsOverlap(expandedCandidate, inflate(b, collisionPad))) return true;
+    }
+    for (const p of placed) {
+      if (isDegenerateRect(p)) continue;
+      if (rectsOverlap(expandedCandidate, inflate(p, collisionPad))) return true;
+    }
+    return false;
+  };
+
+  const addCandidate = (pool: Array<{ x: number; y: number; width: number; height: number }>, x: number, y: number) => {
+    const normalized = normalize({ ...rect, x, y, width: rect.width, height: rect.height });
+    if (!normalized) return;
+    const key = `${normalized.x},${normalized.y}`;
+    if (candidateSet.has(key)) return;
+    candidateSet.add(key);
+    pool.push(normalized);
+  };
+
+  const rankByDistance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+    Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+  let candidate = clampInContainer({ ...rect });
+  if (!collides(candidate)) return candidate;
+
+  const fallbackCandidates: Array<{ x: number; y: number; width: number; height: number }> = [];
+
+  if (layout === 'row') {
+    for (let i = 1; i < maxTries; i++) {
+      if (i * stepX > maxPrimaryShift) break;
+      const px = rect.x + i * stepX;
+      const py = rect.y;
+      const primary = { ...rect, x: px, y: py };
+      if (!collides(primary)) return clampInContainer(primary);
+      if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
+        for (const dy of [stepY, -stepY, stepY * 2, -stepY * 2]) {
+          if (Math.abs(dy) > maxCrossShift) continue;
+          const alt = { ...rect, x: px, y: py + dy };
+          if (!collides(alt)) return clampInContainer(alt);
+        }
+      }
+      if (maxCrossShift === Number.POSITIVE_INFINITY) {
+        const alt = { ...rect, x: px, y: rect.y + i * stepY };
+        if (!collides(alt)) return clampInContainer(alt);
+      }
+    }
+  } else if (layout === 'column') {
+    for (let i = 1; i < maxTries; i++) {
+      if (i * stepY > maxPrimaryShift) break;
+      const py = rect.y + i * stepY;
+      const px = rect.x;
+      const primary = { ...rect, x: px, y: py };
+      if (!collides(primary)) return clampInContainer(primary);
+      if (maxCrossShift > 0 && maxCrossShift !== Number.POSITIVE_INFINITY) {
+        for (const dx of [stepX, -stepX, stepX * 2, -stepX * 2]) {
+          if (Math.abs(dx) > maxCrossShift) continue;
+          const alt = { ...rect, x: px + dx, y: py };
+          if (!collides(alt)) return clampInContainer(alt);
+        }
+      }
+      if (maxCrossShift === Number.POSITIVE_INFINITY) {
+        const alt = { ...rect, x: rect.x + i * stepX, y: py };
+        if (!collides(alt)) return clampInContainer(alt);
+      }
+    }
+  } else {
+    for (let i = 0; i < maxTries; i++) {
+      const alt = { ...rect, x: rect.x + i * stepX, y: rect.y + i * stepY };
+      if (policy !== 'strict_no_overlap' && (i * stepX > maxPrimaryShift || i * stepY > maxPrimaryShift)) break;
+      if (!collides(alt)) return clampInContainer(alt);
+    }
+  }
+
+  if (policy === 'strict_no_overlap') {
+    const xs = new Set<number>([rect.x, rect.x - stepX, rect.x + stepX]);
+    const ys = new Set<number>([rect.y, rect.y - stepY, rect.y + stepY]);
+    for (const obs of obstacleRects) {
+      if (isDegenerateRect(obs)) continue;
+      xs.add(obs.x - rect.width - normalizedSpacingX);
+      xs.add(obs.x + obs.width + normalizedSpacingX);
+      xs.add(obs.x);
+      xs.add(obs.x + obs.width - rect.width);
+      ys.add(obs.y - rect.height - normalizedSpacingY);
+      ys.add(obs.y + obs.height + normalizedSpacingY);
+      ys.add(obs.y);
+      ys.add(obs.y + obs.height - rect.height);
+    }
+
+    const orderedX = Array.from(xs).sort((a, b) => Math.abs(a - rect.x) - Math.abs(b - rect.x) || a - b);
+    const orderedY = Array.from(ys).sort((a, b) => Math.abs(a - rect.y) - Math.abs(b - rect.y) || a - b);
+    for (const y of orderedY) {
+      for (const x of orderedX) {
+        addCandidate(fallbackCandidates, x, y);
+      }
+    }
+
+    const ringLimit = Math.max(120, Math.ceil(3600 / Math.max(stepX, 1)));
+    for (let ring = 1; ring <= ringLimit; ring++) {
+      const dx = ring * stepX;
+      const dy = ring * stepY;
+      addCandidate(fallbackCandidates, rect.x + dx, rect.y);
+      addCandidate(fallbackCandidates, rect.x - dx, rect.y);
+      addCandidate(fallbackCandidates, rect.x, rect.y + dy);
+      addCandidate(fallbackCandidates, rect.x, rect.y - dy);
+      addCandidate(fallbackCandidates, rect.x + dx, rect.y + dy);
+      addCandidate(fallbackCandidates, rect.x - dx, rect.y + dy);
+      addCandidate(fallbackCandidates, rect.x + dx, rect.y - dy);
+      addCandidate(fallbackCandidates, rect.x - dx, rect.y - dy);
+      if (ring > maxTries) break;
+    }
+
+    fallbackCandidates.sort((a, b) => rankByDistance(a, rect) - rankByDistance(b, rect));
+    for (const fallback of fallbackCandidates) {
+      if (!collides(fallback)) return fallback;
+    }
+  }
+
+  return candidate;
+}
+
+function isPositionableNode(node: BaseNode | null): node is SceneNode {
+  return (
+    !!node &&
+    node.type !== 'DOCUMENT' &&
+    node.type !== 'PAGE' &&
+    'x' in node &&
+    'y' in node &&
+    'width' in node &&
+    'height' in node
+  );
+}
+
+function collapseFullSelectionGroups(nodes: SceneNode[]): SceneNode[] {
+  const selectedIds = new Set(nodes.map((node) => node.id));
+  const parentToChildren = new Map<string, { parent: BaseNode; selectedChildren: Set<string> }>();
+  const promotableParentTypes: Array<NodeType> = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
+
+  for (const node of nodes) {
+    const parent = node.parent;
+    if (!parent || parent.type === 'PAGE' || parent.type === 'DOCUMENT') continue;
+    if (!promotableParentTypes.includes(parent.type) || selectedIds.has(parent.id)) continue;
+    const entry = parentToChildren.get(parent.id);
+    if (entry) {
+      entry.selectedChildren.add(node.id);
+    } else {
+      parentToChildren.set(parent.id, { parent, selectedChildren: new Set([node.id]) });
+    }
+  }
+
+  const parentToPromote = new Set<string>();
+  for (const { parent, selectedChildren } of parentToChildren.values()) {
+    const children = (parent as ChildrenMixin).children.filter(isPositionableNode);
+    if (children.length < 2) continue;
+    const allChildrenSelected = children.every((child) => selectedIds.has(child.id));
+    if (!allChildrenSelected) continue;
+    if (children.some((child) => selectedChildren.has(child.id))) {
+      parentToPromote.add(parent.id);
+    }
+  }
+
+  if (parentToPromote.size === 0) return nodes;
+
+  const collapsed = nodes.filter((node) => {
+    const parent = node.parent;
+    return !(parent && parentToPromote.has(parent.id));
+  });
+  const promotedNodes = new Set<string>(collapsed.map((node) => node.id));
+  for (const id of parentToPromote) {
+    const parentNode = parentToChildren.get(id)?.parent;
+    if (parentNode && isPositionableNode(parentNode) && !promotedNodes.has(parentNode.id)) {
+      const parentScene = parentNode as SceneNode;
+      collapsed.push(parentScene);
+      promotedNodes.add(parentScene.id);
+    }
+  }
+
+  return dedupeNodes(collapsed);
+}
+
+function getNodePage(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current) {
+    if (current.type === 'PAGE') return current as PageNode;
+    current = current.parent;
+  }
+  return null;
+}
+
+function normalizeArrangeGroupLabel(raw: string): string {
+  return raw
+    .replace(/\s+/g, ' ')
+    .replace(/\/\./g, '-')
+    .trim();
+}
+
+async function resolveArrangeGroup(
+  node: SceneNode,
+  groupBy: ArrangeGroupBy
+): Promise<{ groupKey: string; groupLabel: string }> {
+  if (groupBy === 'none') {
+    return {
+      groupKey: 'all',
+      groupLabel: 'all',
+    };
+  }
+
+  const category = node.type;
+  if (groupBy === 'type') {
+    return {
+      groupKey: category,
+      groupLabel: category,
+    };
+  }
+
+  let componentName = '';
+  if (node.type === 'INSTANCE') {
+    const component = await getInstanceMainComponentSafe(node as InstanceNode);
+    if (component?.name) componentName = component.name;
+  } else if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+    componentName = node.name;
+  }
+
+  if (!componentName) {
+    return {
+      groupKey: category,
+      groupLabel: category,
+    };
+  }
+
+  const normalized = normalizeArrangeGroupLabel(componentName);
+  return {
+    groupKey: `${category}::${normalized}`,
+    groupLabel: `${category}: ${normalized}`,
+  };
+}
+
+async function getInstanceMainComponentSafe(instance: InstanceNode): Promise<ComponentNode | null> {
+  try {
+    if (typeof (instance as any).getMainComponentAsync === 'function') {
+      return await (instance as any).getMainComponentAsync();
+    }
+  } catch {
+    // Fall through to legacy sync access.
+  }
+  try {
+    return (instance as any).mainComponent ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function dedupeNodes(nodes: SceneNode[]): SceneNode[] {
+  const seen = new Set<string>();
+  const out: SceneNode[] = [];
+  for (const node of nodes) {
+    if (!seen.has(node.id)) {
+      seen.add(node.id);
+      out.push(node);
+    }
+  }
+  return out;
+}
+
+function isSceneNode(node: BaseNode | null): node is SceneNode {
+  return Boolean(node) && node!.type !== 'DOCUMENT' && node!.type !== 'PAGE';
+}
+
+async function traverseNodes(node: DocumentNode | PageNode | SceneNode, callback: (node: SceneNode) => Promise<boolean>): Promise<void> {
+  if (node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+    const shouldContinue = await callback(node as SceneNode);
+    if (!shouldContinue) return;
+  }
+
+  if ('children' in node) {
+    for (const child of node.children) {
+      await traverseNodes(child, callback);
+    }
+  }
+}
+
+function nodeToInfo(node: SceneNode, includeChildren: boolean = false): NodeInfo {
+  const info: NodeInfo = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    visible: node.visible,
+    locked: node.locked,
+  };
+
+  if ('opacity' in node) info.opacity = node.opacity;
+  if ('blendMode' in node) info.blendMode = node.blendMode;
+
+  if ('x' in node) {
+    info.x = node.x;
+    info.y = node.y;
+    info.width = node.width;
+    info.height = node.height;
+    if ('rotation' in node) info.rotation = node.rotation;
+  }
+
+  if ('fills' in node) info.fills = (node as GeometryMixin).fills as Paint[];
+  if ('strokes' in node) info.strokes = (node as GeometryMixin).strokes as Paint[];
+  if ('strokeWeight' in node && typeof node.strokeWeight === 'number') info.strokeWeight = node.strokeWeight;
+  if ('strokeAlign' in node) info.strokeAlign = node.strokeAlign;
+  if ('topLeftRadius' in node) {
+    info.cornerRadius = [node.topLeftRadius, node.topRightRadius, node.bottomRightRadius, node.bottomLeftRadius];
+  } else if ('cornerRadius' in node && typeof node.cornerRadius === 'number') {
+    info.cornerRadius = node.cornerRadius;
+  }
+
+  if ('layoutMode' in node) {
+    const frame = node as FrameNode;
+    info.layoutMode = frame.layoutMode;
+    info.primaryAxisAlignItems = frame.primaryAxisAlignItems;
+    info.counterAxisAlignItems = frame.counterAxisAlignItems;
+    info.paddingTop = frame.paddingTop;
+    info.paddingRight = frame.paddingRight;
+    info.paddingBottom = frame.paddingBottom;
+    info.paddingLeft = frame.paddingLeft;
+    info.itemSpacing = frame.itemSpacing;
+  }
+
+  if (node.type === 'INSTANCE') {
+    try {
+      const mainComponent = (node as any).mainComponent as ComponentNode | null;
+      if (mainComponent) {
+        info.mainComponent = {
+          id: mainComponent.id,
+          name: mainComponent.name,
+          type: mainComponent.type,
+        };
+      }
+    } catch {
+      // Dynamic-page mode can throw on sync access; omit optional field.
+    }
+  }
+
+  if (node.type === 'COMPONENT') {
+    const component = node as ComponentNode;
+    // Check if part of variant
+    if (component.parent?.type === 'COMPONENT_SET') {
+      try {
+        info.variantProperties = component.variantProperties || undefined;
+      } catch {
+        // Some broken component sets can throw from variantProperties getter.
+        info.variantProperties = undefined;
+      }
+    }
+  }
+
+  if ('reactions' in node) {
+    info.reactions = [...node.reactions];
+  }
+
+  if (includeChildren && 'children' in node) {
+    info.children = node.children.map(c => c.id);
+  }
+
+  if (node.parent) {
+    info.parent = node.parent.id;
+  }
+
+  return info;
+}
+
+function getNodeChildren(
+  node: PageNode | SceneNode,
+  maxDepth: number,
+  currentDepth: number,
+  state?: { remaining: number; truncated: boolean },
+  maxChildrenPerNode: number = 200
+): any[] {
+  if (currentDepth >= maxDepth || !('children' in node)) {
+    return [];
+  }
+
+  const children = node.children;
+  const maxChildren = Math.min(children.length, Math.max(1, maxChildrenPerNode));
+  if (children.length > maxChildren && state) {
+    state.truncated = true;
+  }
+
+  const out: any[] = [];
+  for (let i = 0; i < maxChildren; i += 1) {
+    if (state && state.remaining <= 0) {
+      state.truncated = true;
+      break;
+    }
+    const child = children[i];
+    if (state) state.remaining -= 1;
+    out.push({
+      id: child.id,
+      name: child.name,
+      type: child.type,
+      children: getNodeChildren(child, maxDepth, currentDepth + 1, state, maxChildrenPerNode),
+    });
+  }
+  if (state && state.remaining <= 0 && children.length > out.length) {
+    state.truncated = true;
+  }
+  return out;
+}
+
+function applyNodeProperties(node: SceneNode, properties: any): void {
+  if (properties.x !== undefined && 'x' in node) node.x = properties.x;
+  if (properties.y !== undefined && 'y' in node) node.y = properties.y;
+  if ((properties.width !== undefined || properties.height !== undefined) && 'resize' in node && typeof (node as any).resize === 'function') {
+    const nextWidth = properties.width !== undefined ? properties.width : (node as any).width;
+    const nextHeight = properties.height !== undefined ? properties.height : (node as any).height;
+    (node as any).resize(nextWidth, nextHeight);
+  }
+  if (properties.rotation !== undefined && 'rotation' in node) node.rotation = properties.rotation;
+  if (properties.opacity !== undefined && 'opacity' in node) node.opacity = properties.opacity;
+  if (properties.name !== undefined) node.name = properties.name;
+  if (properties.visible !== undefined) node.visible = properties.visible;
+
+  if (properties.fills !== undefined && 'fills' in node) {
+    (node as GeometryMixin).fills = normalizePaintArray(properties.fills);
+  }
+  if (properties.strokes !== undefined && 'strokes' in node) {
+    (node as GeometryMixin).strokes = normalizePaintArray(properties.strokes);
+  }
+
+  if (properties.layoutMode !== undefined && 'layoutMode' in node) {
+    (node as FrameNode).layoutMode = properties.layoutMode;
+  }
+}
+
+function extractFeatures(node: SceneNode): any {
+  const features: any = {
+    type: node.type,
+    width: 'width' in node ? node.width : 0,
+    height: 'height' in node ? node.height : 0,
+  };
+
+  if ('fills' in node) {
+    const rawFills = (node as GeometryMixin).fills as any;
+    const fills = Array.isArray(rawFills) ? rawFills as Paint[] : [];
+    const solidFill = fills.find(f => f.type === 'SOLID') as SolidPaint;
+    if (solidFill) {
+      features.fillColor = solidFill.color;
+      features.fillOpacity = solidFill.opacity;
+    }
+  }
+
+  if ('cornerRadius' in node) {
+    features.cornerRadius = node.cornerRadius;
+  }
+
+  if ('layoutMode' in node) {
+    features.hasAutoLayout = (node as FrameNode).layoutMode !== 'NONE';
+  }
+
+  if ('children' in node) {
+    features.childCount = node.children.length;
+    features.childTypes = node.children.map(c => c.type);
+  }
+
+  return features;
+}
+
+function calculateSimilarity(a: any, b: any): number {
+  let score = 0;
+  let total = 0;
+
+  if (a.type === b.type) score += 1;
+  total += 1;
+
+  const sizeDiff = Math.abs(a.width - b.width) / Math.max(a.width, b.height) +
+                   Math.abs(a.height - b.height) / Math.max(a.height, b.height);
+  score += Math.max(0, 1 - sizeDiff);
+  total += 1;
+
+  if (a.fillColor && b.fillColor) {
+    // ΔE2000 of 50 or more (e.g. blue vs orange) counts as no color similarity.
+    score += Math.max(0, 1 - deltaE2000(a.fillColor, b.fillColor) / 50);
+    total += 1;
+  }
+
+  if (a.cornerRadius !== undefined && b.cornerRadius !== undefined) {
+    score += a.cornerRadius === b.cornerRadius ? 1 : 0;
+    total += 1;
+  }
+
+  if (a.hasAutoLayout !== undefined && b.hasAutoLayout !== undefined) {
+    score += a.hasAutoLayout === b.hasAutoLayout ? 1 : 0;
+    total += 1;
+  }
+
+  return score / total;
+}
+
+async function groupSimilarNodes(nodeIds: string[]): Promise<string[][]> {
+  const nodes: SceneNode[] = [];
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id) as SceneNode;
+    if (node) nodes.push(node);
+  }
+
+  const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
+
+  for (const node of nodes) {
+    const features = extractFeatures(node);
+    let added = false;
+
+    for (const group of groups) {
+      if (calculateSimilarity(features, group.features) >= 0.85) {
+        group.nodes.push(node);
+        added = true;
+        break;
+      }
+    }
+
+    if (!added) {
+      groups.push({ nodes: [node], features });
+    }
+  }
+
+  return groups.map(g => g.nodes.map(n => n.id));
+}
+
+function groupBySimilarity(nodes: SceneNode[]): SceneNode[][] {
+  const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
+
+  for (const node of nodes) {
+    const features = extractFeatures(node);
+    let added = false;
+
+    for (const group of groups) {
+      if (calculateSimilarity(features, group.features) >= 0.8) {
+        group.nodes.push(node);
+        added = true;
+        break;
+      }
+    }
+
+    if (!added) {
+      groups.push({ nodes: [node], features });
+    }
+  }
+
+  return groups.map(g => g.nodes);
+}
+
+function isButtonLike(node: SceneNode): boolean {
+  const name = node.name.toLowerCase();
+  return name.includes('button') || name.includes('btn') ||
+         (node.type === 'FRAME' && 'width' in node && node.width >= 80 && node.width <= 300 &&
+          node.height >= 32 && node.height <= 60);
+}
+
+function isCardLike(node: SceneNode): boolean {
+  const name = node.name.toLowerCase();
+  return name.includes('card') ||
+         (node.type === 'FRAME' && 'width' in node && node.width >= 200 && node.height >= 150);
+}
+
+function isInputLike(node: SceneNode): boolean {
+  const name = node.name.toLowerCase();
+  return name.includes('input') || name.includes('field') || name.includes('textfield') ||
+         (node.type === 'FRAME' && 'width' in node && node.width >= 150 && node.height >= 32 && node.height <= 56);
+}
+
+function generateComponentName(node: SceneNode): string {
+  if (isButtonLike(node)) return 'Button';
+  if (isCardLike(node)) return 'Card';
+  if (isInputLike(node)) return 'Input';
+  return node.name.replace(/\s*\d+$/, '');
+}
+
+function generateSemanticName(node: SceneNode, index: number): string {
+  const typePrefix = node.type === 'FRAME' ? 'Container' :
+                     node.type === 'RECTANGLE' ? 'Shape' :
+                     node.type === 'TEXT' ? 'Label' :
+                     node.type === 'COMPONENT' ? 'Component' :
+                     node.type === 'INSTANCE' ? 'Instance' : 'Element';
+  return `${typePrefix}/${node.name.replace(/\s*\d+$/, '')}_${index + 1}`;
+}
+
+function generateFunctionalName(node: SceneNode, index: number): string {
+  if (isButtonLike(node)) return `Button/${node.name}`;
+  if (isCardLike(node)) return `Card/${node.name}`;
+  if (isInputLike(node)) return `Input/${node.name}`;
+  return `UI/${node.name}`;
+}
+
+function generateAtomicName(node: SceneNode, index: number): string {
+  if (node.type === 'TEXT') return `Atoms/Text/${node.name}`;
+  if (node.type === 'RECTANGLE') return `Atoms/Shape/${node.name}`;
+  if (node.type === 'FRAME') return `Molecules/${node.name}`;
+  if (node.type === 'COMPONENT') return `Components/${node.name}`;
+  return `Elements/${node.name}`;
+}
+
+async function findNodeWithSimilarName(root: PageNode | DocumentNode, baseName: string, targetName: string): Promise<SceneNode | null> {
+  // Simple name matching - find node with similar naming pattern
+  const targetBase = targetName.replace(/\d+/g, '');
+  const baseNumber = baseName.match(/\d+/)?.[0];
+
+  let result: SceneNode | null = null;
+
+  await traverseNodes(root, async (node) => {
+    const nodeBase = node.name.replace(/\d+/g, '');
+    if (nodeBase === targetBase) {
+      const nodeNumber = node.name.match(/\d+/)?.[0];
+      if (nodeNumber === baseNumber) {
+        result = node;
+        return false;
+      }
+    }
+    return true;
+  });
+
+  return result;
+}
+
+function postPluginEvent(event: string, payload: any): void {
+  if (!isConnected) return;
+  // The UI forwards plugin_event messages to the relay as-is.
+  figma.ui.postMessage({
+    type: 'plugin_event',
+    payload: { type: 'plugin_event', event, payload },
+  });
+}
+
+function sendProgress(operation: string, current: number, total: number, message: string, stage?: number): void {
+  console.log(`[${operation}] ${current}/${total}: ${message}`);
+  const operationId = activeOperationIds.get(operation);
+  if (!operationId) return;
+  postPluginEvent('progress', { operationId, tool: operation, current, total, message, stage });
+}
+
+// ===== Plugin UI =====
+figma.showUI(__html__, { width: 320, height: 400, themeColors: true });
+
+type RelayBridgeMessage =
+  | { type: 'ws-connected' | 'relay-connected' | 'ws-disconnected' | 'relay-disconnected' | 'get-status'; sessionId?: string; channel?: string }
   | { type: 'ws-message' | 'relay-message'; sessionId?: string; payload?: { id?: string; [key: string]: any } };
 
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
-  let timer: number | undefined;
-  const timeoutPromise = new Promise<T>((_, reject) => {
-    timer = setTimeout(() => reject(new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs) as unknown as number;
-  });
-  return Promise.race([promise, timeoutPromise]).finally(() => {
-    if (timer) clearTimeout(timer);
-  });
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: number | undefined;
+  const timeoutPromise = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs) as unknown as number;
+  });
+  return Promise.race([promise, timeoutPromise]).finally(() => {
+    if (timer) clearTimeout(timer);
+  });
+}
+
+// ===== Document change reporting (MCP resource subscriptions) =====
+const DOCUMENT_CHANGE_FLUSH_MS = 400;
+const DOCUMENT_CHANGE_MAX_NODE_IDS = 500;
+let pendingDocumentChange: { pageId: string | null; nodeIds: Set<string>; stylesChanged: boolean } | null = null;
+let documentChangeFlushTimer: ReturnType<typeof setTimeout> | null = null;
+let observedPage: PageNode | null = null;
+
+function flushDocumentChange() {
+  documentChangeFlushTimer = null;
+  const change = pendingDocumentChange;
+  pendingDocumentChange = null;
+  if (!change) return;
+  postPluginEvent('document_changed', {
+    pageId: change.pageId || undefined,
+    nodeIds: [...change.nodeIds].slice(0, DOCUMENT_CHANGE_MAX_NODE_IDS),
+    nodeIdsTruncated: change.nodeIds.size > DOCUMENT_CHANGE_MAX_NODE_IDS,
+    stylesChanged: change.stylesChanged,
+  });
+}
+
+function queueDocumentChange(change: { pageId?: string; nodeIds?: string[]; stylesChanged?: boolean }) {
+  if (!isConnected) return;
+  if (!pendingDocumentChange) {
+    pendingDocumentChange = { pageId: null, nodeIds: new Set<string>(), stylesChanged: false };
+  }
+  if (change.pageId) pendingDocumentChange.pageId = change.pageId;
+  for (const nodeId of change.nodeIds || []) pendingDocumentChange.nodeIds.add(nodeId);
+  if (change.stylesChanged) pendingDocumentChange.stylesChanged = true;
+  if (!documentChangeFlushTimer) {
+    documentChangeFlushTimer = setTimeout(flushDocumentChange, DOCUMENT_CHANGE_FLUSH_MS);
+  }
+}
+
+function handleNodeChange(event: NodeChangeEvent) {
+  const nodeIds: string[] = [];
+  for (const change of event.nodeChanges) {
+    nodeIds.push(change.id);
+    // Property changes on a child alter the parent's subtree as well.
+    const parent = change.type !== 'DELETE' ? (change.node as SceneNode).parent : null;
+    if (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT') nodeIds.push(parent.id);
+  }
+  queueDocumentChange({ pageId: observedPage?.id, nodeIds });
+}
+
+function observeCurrentPage() {
+  if (observedPage) {
+    try {
+      observedPage.off('nodechange', handleNodeChange);
+    } catch {
+      // Page may already be unloaded.
+    }
+  }
+  observedPage = figma.currentPage;
+  observedPage.on('nodechange', handleNodeChange);
+}
+
+observeCurrentPage();
+figma.on('currentpagechange', () => {
+  observeCurrentPage();
+  queueDocumentChange({ pageId: figma.currentPage.id });
+});
+figma.on('stylechange', () => {
+  queueDocumentChange({ stylesChanged: true });
+});
+
+// Handle messages from UI (WebSocket messages)
+figma.ui.onmessage = async (msg: RelayBridgeMessage) => {
+  switch (msg.type) {
+    case 'ws-connected':
+    case 'relay-connected':
+      if (pendingDisconnectTimer) {
+        clearTimeout(pendingDisconnectTimer);
+        pendingDisconnectTimer = null;
+      }
+      activeBridgeSessionId = msg.sessionId || activeBridgeSessionId;
+      isConnected = true;
+      bridgeLog(`connected session=${String(activeBridgeSessionId || '-')}, channel=${String(msg.channel || '-')}`, 'success');
+      figma.notify('✓ Connected to AI Agent');
+      break;
+
+    case 'ws-disconnected':
+    case 'relay-disconnected':
+      // Ignore stale disconnects only when both sides have concrete but different session ids.
+      if (msg.sessionId && activeBridgeSessionId && msg.sessionId !== activeBridgeSessionId) {
+        bridgeLog(
+          `ignore stale disconnect session=${String(msg.sessionId)} active=${String(activeBridgeSessionId || '-')}`,
+          'info'
+        );
+        break;
+      }
+      if (pendingDisconnectTimer) {
+        clearTimeout(pendingDisconnectTimer);
+        pendingDisconnectTimer = null;
+      }
+      bridgeLog(`disconnect requested for session=${String(activeBridgeSessionId || '-')}`, 'warning');
+      isConnected = false;
+      bridgeLog(`disconnected session=${String(activeBridgeSessionId || msg.sessionId || '-')}`, 'warning');
+      activeBridgeSessionId = null;
+      figma.notify('Disconnected from AI Agent');
+      break;
+
+    case 'ws-message':
+    case 'relay-message':
+      // Ignore stale messages from any other session.
+      if (msg.sessionId && msg.sessionId !== activeBridgeSessionId) {
+        bridgeLog(
+          `ignore stale message session=${String(msg.sessionId)} active=${String(activeBridgeSessionId || '-')}`,
+          'info'
+        );
+        break;
+      }
+      if (!msg.payload || !msg.payload.id) {
+        figma.ui.postMessage({
+          type: 'response',
+          payload: { id: msg.payload?.id || 'unknown', error: 'Invalid message payload: missing id' }
+        });
+        break;
+      }
+      // Handle message from MCP Server
+      try {
+        const result = await withTimeout(
+          handleMessage(msg.payload as any),
+          TOOL_EXECUTION_TIMEOUT_MS,
+          `Tool "${String((msg.payload as any).type || 'unknown')}"`
+        );
+        // Send response back to UI -> MCP Server
+        figma.ui.postMessage({ 
+          type: 'response', 
+          payload: { id: msg.payload.id, result } 
+        });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        figma.ui.postMessage({ 
+          type: 'response', 
+          payload: { id: msg.payload.id, error: errorMsg } 
+        });
+      }
+      break;
+
+    case 'get-status':
+      bridgeLog(`status request -> ${isConnected ? 'connected' : 'disconnected'} session=${String(activeBridgeSessionId || '-')}`, 'info');
+      figma.ui.postMessage({
+        type: isConnected ? 'connected' : 'disconnected',
+        payload: { sessionId: activeBridgeSessionId },
+      });
+      break;
+    default:
+      console.warn(`[Plugin UI] Unknown message type: ${(msg as any).type}`);
+      break;
+  }
+};
+
+
+// ===== NEW FUNCTIONS: Frame to Components =====
+
+function filterFrameComponentCandidates(
+  frame: FrameNode,
+  minSize: { width: number; height: number },
+  excludeTypes: string[]
+): SceneNode[] {
+  return frame.children.filter(child => {
+    if (child.type === 'INSTANCE' || child.type === 'COMPONENT' || child.type === 'COMPONENT_SET') {
+      return false; // Skip existing components
+    }
+    if (excludeTypes.includes(child.type)) {
+      return false;
+    }
+    if ('width' in child && 'height' in child) {
+      return child.width >= minSize.width && child.height >= minSize.height;
+    }
+    return true;
+  });
+}
+
+async function groupFrameComponentCandidates(
+  children: SceneNode[],
+  strategy: 'smart' | 'by_type' | 'by_name' | 'all_children'
+): Promise<Array<{ nodes: SceneNode[]; name: string }>> {
+  switch (strategy) {
+    case 'smart':
+      return groupChildrenSmart(children);
+    case 'by_type':
+      return groupChildrenByType(children);
+    case 'by_name':
+      return groupChildrenByName(children);
+    case 'all_children':
+      return children.map(child => ({ nodes: [child], name: child.name }));
+    default:
+      return [];
+  }
+}
+
+async function frameToComponents(
+  frameId: string,
+  strategy: 'smart' | 'by_type' | 'by_name' | 'all_children' = 'smart',
+  groupSimilar: boolean = true,
+  createVariants: boolean = false,
+  organizeOnPage: boolean = true,
+  minSize: { width: number; height: number } = { width: 50, height: 30 },
+  excludeTypes: string[] = ['GROUP', 'SECTION']
+): Promise<any> {
+  const frame = await figma.getNodeByIdAsync(frameId) as FrameNode;
+  if (!frame || frame.type !== 'FRAME') {
+    throw new Error('Frame not found');
+  }
+
+  if (!frame.children || frame.children.length === 0) {
+    throw new Error('Frame has no children');
+  }
+
+  // Stage indices match getOperationStages('frame_to_components') on the server.
+  sendProgress('frame_to_components', 0, frame.children.length, 'Analyzing frame structure', 0);
+
+  const eligibleChildren = filterFrameComponentCandidates(frame, minSize, excludeTypes);
+  if (eligibleChildren.length === 0) {
+    return { message: 'No eligible children found' };
+  }
+
+  // Group children based on strategy
+  sendProgress('frame_to_components', 0, eligibleChildren.length, `Grouping ${eligibleChildren.length} children (${strategy})`, 1);
+  const groups = await groupFrameComponentCandidates(eligibleChildren, strategy);
+
+  // Create components for each group
+  const createdComponents: any[] = [];
+  const componentSetIds: string[] = [];
+  let cancelled = false;
+
+  for (let groupIndex = 0; groupIndex < groups.length; groupIndex++) {
+    if (await cancellationCheckpoint('frame_to_components')) {
+      cancelled = true;
+      break;
+    }
+    const group = groups[groupIndex];
+    sendProgress('frame_to_components', groupIndex, groups.length, `Creating component ${groupIndex + 1}/${groups.length}`, 2);
+    if (group.nodes.length === 0) continue;
+
+    // Create component from first node
+    const mainNode = group.nodes[0];
+    const component = figma.createComponent();
+    component.name = generateComponentNameFromNodes(group.nodes);
+
+    // Copy properties from main node
+    if ('width' in mainNode && 'height' in mainNode) {
+      component.resize(mainNode.width, mainNode.height);
+    }
+
+    // Clone children if it's a frame/group
+    if ('children' in mainNode) {
+      for (const child of mainNode.children) {
+        const clone = child.clone();
+        component.appendChild(clone);
+      }
+    } else {
+      // Clone the entire node
+      const clone = mainNode.clone();
+      component.appendChild(clone);
+    }
+
+    // Position component
+    component.x = mainNode.x + mainNode.width + 100;
+    component.y = mainNode.y;
+
+    // Create instances for remaining nodes in group
+    const instances: string[] = [];
+    for (let i = 1; i < group.nodes.length; i++) {
+      const node = group.nodes[i];
+      const instance = component.createInstance();
+      
+      if ('x' in node && 'y' in node) {
+        instance.x = node.x;
+        instance.y = node.y;
+      }
+
+      // Replace original with instance
+      if (node.parent) {
+        const index = node.parent.children.indexOf(node);
+        node.parent.insertChild(index, instance);
+      }
+      
+      node.remove();
+      instances.push(instance.id);
+    }
+
+    createdComponents.push({
+      componentId: component.id,
+      name: component.name,
+      sourceNodeId: mainNode.id,
+      instanceCount: instances.length,
+      instanceIds: instances,
+    });
+
+    // Remove the original main node
+    mainNode.remove();
+  }
+
+  sendProgress('frame_to_components', groups.length, groups.length, 'Organizing output', 3);
+
+  // Create variant sets if requested and groups have multiple nodes
+  if (createVariants && !cancelled) {
+    for (const group of groups) {
+      if (group.nodes.length >= 2) {
+        // Find created components for this group
+        const groupComponentIds = createdComponents
+          .filter(c => group.nodes.some(n => n.id === c.sourceNodeId))
+          .map(c => c.componentId);
+        
+        if (groupComponentIds.length >= 2) {
+          const variantComponents: ComponentNode[] = [];
+
+          for (let i = 0; i < groupComponentIds.length; i++) {
+            const comp = await figma.getNodeByIdAsync(groupComponentIds[i]) as ComponentNode;
+            if (comp) {
+              comp.name = `Variant=${i + 1}`;
+              variantComponents.push(comp);
+            }
+          }
+
+          if (variantComponents.length < 2) continue;
+          const parent = variantComponents[0].parent as (BaseNode & ChildrenMixin);
+          const componentSet = combineComponentsAsVariants(variantComponents, parent);
+          componentSet.name = group.name;
+          componentSet.x = frame.x;
+          componentSet.y = frame.y + frame.height + 200;
+          
+          componentSetIds.push(componentSet.id);
+        }
+      }
+    }
+  }
+
+  // Organize on Components page if requested
+  if (organizeOnPage && !cancelled) {
+    let componentsPage = figma.root.children.find(p => p.name === 'Components') as PageNode;
+    if (!componentsPage) {
+      componentsPage = figma.createPage();
+      componentsPage.name = 'Components';
+    }
+
+    for (const compInfo of createdComponents) {
+      const component = await figma.getNodeByIdAsync(compInfo.componentId);
+      if (isSceneNode(component)) {
+        componentsPage.appendChild(component);
+      }
+    }
+  }
+
+  return {
+    frameId,
+    frameName: frame.name,
+    totalChildren: frame.children.length,
+    eligibleChildren: eligibleChildren.length,
+    groupsCreated: groups.length,
+    componentsCreated: createdComponents.length,
+    componentSetsCreated: componentSetIds.length,
+    components: createdComponents,
+    componentSetIds,
+    cancelled,
+  };
+}
+
+async function analyzeFrameStructure(
+  frameId: string,
+  detectDuplicates: boolean = true,
+  minSimilarity: number = 0.85
+): Promise<any> {
+  const frame = await figma.getNodeByIdAsync(frameId) as FrameNode;
+  if (!frame || frame.type !== 'FRAME') {
+    throw new Error('Frame not found');
+  }
+
+  const children = frame.children;
+  const analysis: any = {
+    frameId,
+    frameName: frame.name,
+    totalChildren: children.length,
+    childTypes: {} as Record<string, number>,
+    sizeDistribution: {
+      small: 0,   // < 100px
+      medium: 0,  // 100-300px
+      large: 0,   // > 300px
+    },
+    componentCandidates: [] as any[],
+    duplicateGroups: [] as any[],
+  };
+
+  // Analyze child types
+  for (const child of children) {
+    analysis.childTypes[child.type] = (analysis.childTypes[child.type] || 0) + 1;
+
+    if ('width' in child && 'height' in child) {
+      const maxDim = Math.max(child.width, child.height);
+      if (maxDim < 100) analysis.sizeDistribution.small++;
+      else if (maxDim <= 300) analysis.sizeDistribution.medium++;
+      else analysis.sizeDistribution.large++;
+    }
+
+    // Identify component candidates (non-component nodes with reasonable size)
+    if (child.type !== 'COMPONENT' && child.type !== 'INSTANCE' && child.type !== 'COMPONENT_SET') {
+      if ('width' in child && child.width >= 50 && child.height >= 30) {
+        analysis.componentCandidates.push({
+          id: child.id,
+          name: child.name,
+          type: child.type,
+          width: child.width,
+          height: child.height,
+        });
+      }
+    }
+  }
+
+  // Detect duplicates if requested
+  if (detectDuplicates) {
+    const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
+
+    for (const child of children) {
+      if (child.type === 'COMPONENT' || child.type === 'INSTANCE') continue;
+      
+      const features = extractFeatures(child);
+      let added = false;
+
+      for (const group of groups) {
+        if (calculateSimilarity(features, group.features) >= minSimilarity) {
+          group.nodes.push(child);
+          added = true;
+          break;
+        }
+      }
+
+      if (!added) {
+        groups.push({ nodes: [child], features });
+      }
+    }
+
+    analysis.duplicateGroups = groups
+      .filter(g => g.nodes.length >= 2)
+      .map(g => ({
+        count: g.nodes.length,
+        nodes: g.nodes.map(n => ({ id: n.id, name: n.name })),
+        suggestedName: generateComponentNameFromNodes(g.nodes),
+      }));
+  }
+
+  // Generate recommendations
+  analysis.recommendations = [];
+  
+  if (analysis.duplicateGroups.length > 0) {
+    analysis.recommendations.push({
+      type: 'merge_duplicates',
+      priority: 'high',
+      description: `Found ${analysis.duplicateGroups.length} groups of similar elements that could be converted to components`,
+      affectedNodes: analysis.duplicateGroups.reduce((sum: number, g: any) => sum + g.count, 0),
+    });
+  }
+
+  if (analysis.componentCandidates.length > 10) {
+    analysis.recommendations.push({
+      type: 'create_components',
+      priority: 'medium',
+      description: `Found ${analysis.componentCandidates.length} potential component candidates`,
+    });
+  }
+
+  return analysis;
+}
+
+// ===== NEW FUNCTIONS: Cross-Page Operations =====
+
+async function crossPageCopy(
+  nodeIds: string[],
+  sourcePageId: string,
+  targetPageId: string,
+  maintainPosition: boolean = true
+): Promise<any> {
+  await ensureAllPagesLoaded();
+  const sourcePage = await figma.getNodeByIdAsync(sourcePageId) as PageNode;
+  const targetPage = await figma.getNodeByIdAsync(targetPageId) as PageNode;
+
+  if (!sourcePage || sourcePage.type !== 'PAGE') {
+    throw new Error('Source page not found');
+  }
+  if (!targetPage || targetPage.type !== 'PAGE') {
+    throw new Error('Target page not found');
+  }
+
+  // Switch to source page temporarily
+  const originalPage = figma.currentPage;
+  await figma.setCurrentPageAsync(sourcePage);
+
+  const copiedNodes: string[] = [];
+  const errors: string[] = [];
+
+  try {
+    for (const nodeId of nodeIds) {
+      const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+      if (!node) {
+        errors.push(`Node ${nodeId} not found`);
+        continue;
+      }
+
+      const clone = node.clone();
+      
+      if (!maintainPosition) {
+        // Position relative to page center
+        clone.x = (figma.viewport.center.x - clone.width / 2);
+        clone.y = (figma.viewport.center.y - clone.height / 2);
+      }
+
+      targetPage.appendChild(clone);
+      copiedNodes.push(clone.id);
+    }
+  } finally {
+    // Restore original page
+    await figma.setCurrentPageAsync(originalPage);
+  }
+
+  return {
+    copied: copiedNodes.length,
+    failed: errors.length,
+    copiedNodeIds: copiedNodes,
+    errors: errors.slice(0, 10),
+  };
+}
+
+async function crossPageMove(
+  nodeIds: string[],
+  sourcePageId: string,
+  targetPageId: string,
+  maintainPosition: boolean = true
+): Promise<any> {
+  await ensureAllPagesLoaded();
+  const result = await crossPageCopy(nodeIds, sourcePageId, targetPageId, maintainPosition);
+  
+  // Delete originals from source page
+  const deleted: string[] = [];
+  for (const nodeId of nodeIds) {
+    const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+    if (node && node.parent) {
+      node.remove();
+      deleted.push(nodeId);
+    }
+  }
+
+  return {
+    ...result,
+    moved: result.copied,
+    deletedFromSource: deleted.length,
+  };
+}
+
+async function batchEditAcrossPages(
+  operations: Array<{ pageId: string; nodeId: string; changes: any }>,
+  atomic: boolean = false
+): Promise<any> {
+  await ensureAllPagesLoaded();
+  const results: any[] = [];
+  const errors: any[] = [];
+
+  // Group by page
+  const pageGroups: Map<string, Array<{ nodeId: string; changes: any; index: number }>> = new Map();
+  
+  operations.forEach((op, index) => {
+    if (!pageGroups.has(op.pageId)) {
+      pageGroups.set(op.pageId, []);
+    }
+    pageGroups.get(op.pageId)!.push({ nodeId: op.nodeId, changes: op.changes, index });
+  });
+
+  const originalPage = figma.currentPage;
+
+  try {
+    for (const [pageId, ops] of pageGroups) {
+      const page = await figma.getNodeByIdAsync(pageId) as PageNode;
+      if (!page) {
+        if (atomic) throw atomicBatchError(ops[0].index, pageId, 'Page not found');
+        errors.push({ pageId, error: 'Page not found' });
+        continue;
+      }
+
+      await figma.setCurrentPageAsync(page);
+
+      for (const op of ops) {
+        try {
+          const node = await figma.getNodeByIdAsync(op.nodeId) as SceneNode;
+          if (!node) throw new Error('Node not found');
+
+          applyNodeProperties(node, op.changes);
+          results.push({ pageId, nodeId: op.nodeId, success: true });
+        } catch (error) {
+          if (atomic) throw atomicBatchError(op.index, op.nodeId, error);
+          const msg = error instanceof Error ? error.message : String(error);
+          errors.push({ pageId, nodeId: op.nodeId, error: msg });
+        }
+      }
+    }
+  } finally {
+    await figma.setCurrentPageAsync(originalPage);
+  }
+
+  return {
+    success: results.length,
+    failed: errors.length,
+    results,
+    errors: errors.slice(0, 10),
+  };
+}
+
+// ===== NEW FUNCTIONS: Component Set Management =====
+
+async function explodeComponentSet(
+  componentSetId: string,
+  convertInstancesToMain: boolean = false,
+  organizeOnPage: boolean = true
+): Promise<any> {
+  const componentSet = await figma.getNodeByIdAsync(componentSetId) as ComponentSetNode;
+  if (!componentSet || componentSet.type !== 'COMPONENT_SET') {
+    throw new Error('Component set not found');
+  }
+
+  const variants = componentSet.children.filter(c => c.type === 'COMPONENT') as ComponentNode[];
+  const separatedComponents: any[] = [];
+  const updatedInstances: any[] = [];
+
+  // Detach variants from component set
+  for (const variant of variants) {
+    const originalName = variant.name.split('=').pop() || variant.name;
+    const newName = `${componentSet.name}_${originalName}`;
+    
+    variant.name = newName;
+    
+    separatedComponents.push({
+      componentId: variant.id,
+      name: variant.name,
+    });
+  }
+
+  // Remove component set (variants will become standalone components)
+  componentSet.remove();
+
+  // Find and update instances if requested
+  if (convertInstancesToMain) {
+    for (const comp of separatedComponents) {
+      const component = await figma.getNodeByIdAsync(comp.componentId) as ComponentNode;
+      if (!component) continue;
+
+      await traverseNodes(figma.root, async (node) => {
+        if (node.type === 'INSTANCE') {
+          const mainComponent = await getInstanceMainComponentSafe(node as InstanceNode);
+          if (mainComponent?.id !== comp.componentId) return true;
+          // Instance is already linked to this component
+          updatedInstances.push({ instanceId: node.id, componentId: comp.componentId });
+        }
+        return true;
+      });
+    }
+  }
+
+  // Organize on Components page
+  if (organizeOnPage) {
+    let componentsPage = figma.root.children.find(p => p.name === 'Components') as PageNode;
+    if (!componentsPage) {
+      componentsPage = figma.createPage();
+      componentsPage.name = 'Components';
+    }
+
+    for (const comp of separatedComponents) {
+      const component = await figma.getNodeByIdAsync(comp.componentId);
+      if (isSceneNode(component) && component.parent?.type !== 'PAGE') {
+        componentsPage.appendChild(component);
+      }
+    }
+  }
+
+  return {
+    componentSetId,
+    separatedComponents: separatedComponents.length,
+    components: separatedComponents,
+    instancesUpdated: updatedInstances.length,
+  };
+}
+
+async function detachAndOrganize(
+  instanceIds: string[],
+  deleteMainComponent: boolean = false,
+  organizeBy: 'type' | 'name' | 'size' | 'page_location' = 'type',
+  createBackup: boolean = true
+): Promise<any> {
+  const detached: any[] = [];
+  const deletedComponents: string[] = [];
+
+  // Create backup page if requested
+  let backupPage: PageNode | null = null;
+  if (createBackup) {
+    backupPage = figma.createPage();
+    backupPage.name = `Backup_${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}`;
+  }
+
+  for (const instanceId of instanceIds) {
+    const instance = await figma.getNodeByIdAsync(instanceId) as InstanceNode;
+    if (!instance || instance.type !== 'INSTANCE') continue;
+
+    const mainComponent = await getInstanceMainComponentSafe(instance);
+    
+    // Backup before detaching
+    if (backupPage) {
+      const backup = instance.clone();
+      backupPage.appendChild(backup);
+    }
+
+    // Detach instance
+    const detachedNode = instance.detachInstance();
+    
+    // Organize detached node
+    let category = 'Other';
+    switch (organizeBy) {
+      case 'type':
+        category = detachedNode.type;
+        break;
+      case 'name':
+        category = detachedNode.name.split(/[-_\s]/)[0] || 'Other';
+        break;
+      case 'size':
+        if ('width' in detachedNode) {
+          const area = detachedNode.width * detachedNode.height;
+          category = area < 10000 ? 'Small' : area < 50000 ? 'Medium' : 'Large';
+        }
+        break;
+      case 'page_location':
+        category = detachedNode.parent?.name || 'Root';
+        break;
+    }
+
+    detached.push({
+      originalId: instanceId,
+      detachedId: detachedNode.id,
+      category,
+      mainComponentId: mainComponent?.id,
+    });
+
+    // Delete main component if requested
+    if (deleteMainComponent && mainComponent && mainComponent.parent?.type !== 'COMPONENT_SET') {
+      mainComponent.remove();
+      if (mainComponent.id) deletedComponents.push(mainComponent.id);
+    }
+  }
+
+  // Group detached nodes by category
+  const groupedByCategory: Record<string, string[]> = {};
+  for (const item of detached) {
+    if (!groupedByCategory[item.category]) {
+      groupedByCategory[item.category] = [];
+    }
+    groupedByCategory[item.category].push(item.detachedId);
+  }
+
+  return {
+    detached: detached.length,
+    groupedByCategory,
+    deletedComponents: deletedComponents.length,
+    backupPageId: backupPage?.id,
+  };
 }
 
-// Handle messages from UI (WebSocket messages)
-figma.ui.onmessage = async (msg: RelayBridgeMessage) => {
-  switch (msg.type) {
-    case 'ws-connected':
-    case 'relay-connected':
-      if (pendingDisconnectTimer) {
-        clearTimeout(pendingDisconnectTimer);
-        pendingDisconnectTimer = null;
-      }
-      activeBridgeSessionId = msg.sessionId || activeBridgeSessionId;
-      isConnected = true;
-      bridgeLog(`connected session=${String(activeBridgeSessionId || '-')}, channel=${String(msg.channel || '-')}`, 'success');
-      figma.notify('✓ Connected to AI Agent');
-      break;
+async function convertInstancesToComponents(
+  instanceIds: string[],
+  namingPattern: string = '{original}_Component',
+  organizeOnPage: boolean = true
+): Promise<any> {
+  const converted: any[] = [];
 
-    case 'ws-disconnected':
-    case 'relay-disconnected':
-      // Ignore stale disconnects only when both sides have concrete but different session ids.
-      if (msg.sessionId && activeBridgeSessionId && msg.sessionId !== activeBridgeSessionId) {
-        bridgeLog(
-          `ignore stale disconnect session=${String(msg.sessionId)} active=${String(activeBridgeSessionId || '-')}`,
-          'info'
-        );
-        break;
-      }
-      if (pendingDisconnectTimer) {
-        clearTimeout(pendingDisconnectTimer);
-        pendingDisconnectTimer = null;
-      }
-      bridgeLog(`disconnect requested for session=${String(activeBridgeSessionId || '-')}`, 'warning');
-      isConnected = false;
-      bridgeLog(`disconnected session=${String(activeBridgeSessionId || msg.sessionId || '-')}`, 'warning');
-      activeBridgeSessionId = null;
-      figma.notify('Disconnected from AI Agent');
-      break;
+  for (const instanceId of instanceIds) {
+    const instance = await figma.getNodeByIdAsync(instanceId) as InstanceNode;
+    if (!instance || instance.type !== 'INSTANCE') continue;
 
-    case 'ws-message':
-    case 'relay-message':
-      // Ignore stale messages from any other session.
-      if (msg.sessionId && msg.sessionId !== activeBridgeSessionId) {
-        bridgeLog(
-          `ignore stale message session=${String(msg.sessionId)} active=${String(activeBridgeSessionId || '-')}`,
-          'info'
-        );
-        break;
+    const mainComponent = await getInstanceMainComponentSafe(instance);
+    const newName = namingPattern.replace('{original}', mainComponent?.name || 'Instance');
+
+    // Detach first
+    const detached = instance.detachInstance();
+    
+    // Convert to component
+    const component = figma.createComponent();
+    component.name = newName;
+
+    // Copy detached content
+    if ('width' in detached && 'height' in detached) {
+      component.resize(detached.width, detached.height);
+    }
+
+    if ('children' in detached) {
+      for (const child of [...detached.children]) {
+        component.appendChild(child);
       }
-      if (!msg.payload || !msg.payload.id) {
-        figma.ui.postMessage({
-          type: 'response',
-          payload: { id: msg.payload?.id || 'unknown', error: 'Invalid message payload: missing id' }
-        });
-        break;
+    }
+
+    // Position and replace
+    component.x = detached.x;
+    component.y = detached.y;
+    
+    if (detached.parent) {
+      const index = detached.parent.children.indexOf(detached);
+      detached.parent.insertChild(index, component);
+    }
+    
+    detached.remove();
+
+    converted.push({
+      originalInstanceId: instanceId,
+      newComponentId: component.id,
+      name: component.name,
+    });
+  }
+
+  // Organize on Components page
+  if (organizeOnPage) {
+    let componentsPage = figma.root.children.find(p => p.name === 'Components') as PageNode;
+    if (!componentsPage) {
+      componentsPage = figma.createPage();
+      componentsPage.name = 'Components';
+    }
+
+    for (const conv of converted) {
+      const component = await figma.getNodeByIdAsync(conv.newComponentId);
+      if (isSceneNode(component) && component.parent?.type !== 'PAGE') {
+        componentsPage.appendChild(component);
       }
-      // Handle message from MCP Server
-      try {
-        const result = await withTimeout(
-          handleMessage(msg.payload as any),
-          TOOL_EXECUTION_TIMEOUT_MS,
-          `Tool "${String((msg.payload as any).type || 'unknown')}"`
-        );
-        // Send response back to UI -> MCP Server
-        figma.ui.postMessage({ 
-          type: 'response', 
-          payload: { id: msg.payload.id, result } 
-        });
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        figma.ui.postMessage({ 
-          type: 'response', 
-          payload: { id: msg.payload.id, error: errorMsg } 
-        });
+    }
+  }
+
+  return {
+    converted: converted.length,
+    components: converted,
+  };
+}
+
+async function splitComponentByVariants(
+  componentSetId: string,
+  keepComponentSet: boolean = false,
+  updateInstances: boolean = true
+): Promise<any> {
+  const componentSet = await figma.getNodeByIdAsync(componentSetId) as ComponentSetNode;
+  if (!componentSet || componentSet.type !== 'COMPONENT_SET') {
+    throw new Error('Component set not found');
+  }
+
+  const variants = [...componentSet.children].filter(c => c.type === 'COMPONENT') as ComponentNode[];
+  const separatedComponents: any[] = [];
+
+  // Position for separated components
+  let offsetX = componentSet.x;
+  let offsetY = componentSet.y + componentSet.height + 200;
+
+  for (const variant of variants) {
+    const variantName = variant.name.split('=').pop() || variant.name;
+    const newName = `${componentSet.name}_${variantName}`;
+
+    // Clone variant as new standalone component
+    const newComponent = figma.createComponent();
+    newComponent.name = newName;
+
+    // Copy variant content
+    if ('width' in variant) {
+      newComponent.resize(variant.width, variant.height);
+    }
+
+    if ('children' in variant) {
+      for (const child of variant.children) {
+        const clone = child.clone();
+        newComponent.appendChild(clone);
       }
-      break;
+    }
 
-    case 'get-status':
-      bridgeLog(`status request -> ${isConnected ? 'connected' : 'disconnected'} session=${String(activeBridgeSessionId || '-')}`, 'info');
-      figma.ui.postMessage({
-        type: isConnected ? 'connected' : 'disconnected',
-        payload: { sessionId: activeBridgeSessionId },
+    newComponent.x = offsetX;
+    newComponent.y = offsetY;
+    offsetX += newComponent.width + 100;
+
+    separatedComponents.push({
+      originalVariantId: variant.id,
+      newComponentId: newComponent.id,
+      name: newComponent.name,
+    });
+  }
+
+  // Update instances if requested
+  if (updateInstances) {
+    for (const sep of separatedComponents) {
+      const originalVariant = await figma.getNodeByIdAsync(sep.originalVariantId) as ComponentNode;
+      const newComponent = await figma.getNodeByIdAsync(sep.newComponentId) as ComponentNode;
+      
+      if (!originalVariant || !newComponent) continue;
+
+      // Find all instances of this variant and swap them
+      await traverseNodes(figma.root, async (node) => {
+        if (node.type === 'INSTANCE') {
+          const instance = node as InstanceNode;
+          const mainComponent = await getInstanceMainComponentSafe(instance);
+          if (mainComponent?.id === originalVariant.id) {
+            instance.swapComponent(newComponent);
+          }
+        }
+        return true;
       });
-      break;
-    default:
-      console.warn(`[Plugin UI] Unknown message type: ${(msg as any).type}`);
-      break;
+    }
   }
-};
 
+  // Remove component set if not keeping
+  if (!keepComponentSet) {
+    componentSet.remove();
+  }
 
-// ===== NEW FUNCTIONS: Frame to Components =====
+  return {
+    componentSetId,
+    separatedComponents: separatedComponents.length,
+    components: separatedComponents,
+    componentSetKept: keepComponentSet,
+  };
+}
 
-async function frameToComponents(
-  frameId: string,
-  strategy: 'smart' | 'by_type' | 'by_name' | 'all_children' = 'smart',
-  groupSimilar: boolean = true,
-  createVariants: boolean = false,
-  organizeOnPage: boolean = true,
-  minSize: { width: number; height: number } = { width: 50, height: 30 },
-  excludeTypes: string[] = ['GROUP', 'SECTION']
+async function mergeComponentsToSet(
+  componentIds: string[],
+  variantProperty: string = 'Type',
+  autoDetectValues: boolean = true
 ): Promise<any> {
-  const frame = await figma.getNodeByIdAsync(frameId) as FrameNode;
-  if (!frame || frame.type !== 'FRAME') {
-    throw new Error('Frame not found');
+  const components: ComponentNode[] = [];
+  for (const id of componentIds) {
+    const node = await figma.getNodeByIdAsync(id) as ComponentNode;
+    if (node && node.type === 'COMPONENT' && node.parent?.type !== 'COMPONENT_SET') {
+      components.push(node);
+    }
   }
 
-  if (!frame.children || frame.children.length === 0) {
-    throw new Error('Frame has no children');
+  if (components.length < 2) {
+    throw new Error('Need at least 2 standalone components');
   }
 
-  // Filter eligible children
-  let eligibleChildren = frame.children.filter(child => {
-    if (child.type === 'INSTANCE' || child.type === 'COMPONENT' || child.type === 'COMPONENT_SET') {
-      return false; // Skip existing components
-    }
-    if (excludeTypes.includes(child.type)) {
-      return false;
-    }
-    if ('width' in child && 'height' in child) {
-      return child.width >= minSize.width && child.height >= minSize.height;
-    }
-    return true;
-  });
-
-  if (eligibleChildren.length === 0) {
-    return { message: 'No eligible children found' };
+  const parent = components[0].parent as (BaseNode & ChildrenMixin) | null;
+  if (!parent || !('appendChild' in parent)) {
+    throw new Error('Components must be on a page/frame before creating variants');
   }
 
-  // Group children based on strategy
-  let groups: Array<{ nodes: SceneNode[]; name: string }> = [];
+  // Detect variant values from names if auto-detect
+  const baseName = findCommonPrefix(components.map(c => c.name));
+  const propertyValues = autoDetectValues 
+    ? components.map(c => c.name.replace(baseName, '').replace(/^[\-_\s]+/, '') || 'Default')
+    : components.map((_, i) => `Variant ${i + 1}`);
 
-  switch (strategy) {
-    case 'smart':
-      groups = await groupChildrenSmart(eligibleChildren);
-      break;
-    case 'by_type':
-      groups = groupChildrenByType(eligibleChildren);
-      break;
-    case 'by_name':
-      groups = groupChildrenByName(eligibleChildren);
-      break;
-    case 'all_children':
-      groups = eligibleChildren.map(child => ({ nodes: [child], name: child.name }));
-      break;
+  // Add components as variants
+  for (let i = 0; i < components.length; i++) {
+    const comp = components[i];
+    const value = propertyValues[i];
+    comp.name = `${variantProperty}=${value}`;
+    if (comp.parent?.id !== parent.id) {
+      parent.appendChild(comp);
+    }
   }
 
-  // Create components for each group
-  const createdComponents: any[] = [];
-  const componentSetIds: string[] = [];
+  const componentSet = combineComponentsAsVariants(components, parent);
+  componentSet.name = baseName;
 
-  for (const group of groups) {
-    if (group.nodes.length === 0) continue;
+  return {
+    componentSetId: componentSet.id,
+    name: componentSet.name,
+    variants: components.length,
+    propertyName: variantProperty,
+    propertyValues,
+  };
+}
 
-    // Create component from first node
-    const mainNode = group.nodes[0];
-    const component = figma.createComponent();
-    component.name = generateComponentNameFromNodes(group.nodes);
+// ===== Helper Functions =====
 
-    // Copy properties from main node
-    if ('width' in mainNode && 'height' in mainNode) {
-      component.resize(mainNode.width, mainNode.height);
-    }
+async function groupChildrenSmart(children: SceneNode[]): Promise<Array<{ nodes: SceneNode[]; name: string }>> {
+  const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
 
-    // Clone children if it's a frame/group
-    if ('children' in mainNode) {
-      for (const child of mainNode.children) {
-        const clone = child.clone();
-        component.appendChild(clone);
+  for (const child of children) {
+    const features = extractFeatures(child);
+    let added = false;
+
+    for (const group of groups) {
+      if (calculateSimilarity(features, group.features) >= 0.85) {
+        group.nodes.push(child);
+        added = true;
+        break;
       }
-    } else {
-      // Clone the entire node
-      const clone = mainNode.clone();
-      component.appendChild(clone);
     }
 
-    // Position component
-    component.x = mainNode.x + mainNode.width + 100;
-    component.y = mainNode.y;
+    if (!added) {
+      groups.push({ nodes: [child], features });
+    }
+  }
 
-    // Create instances for remaining nodes in group
-    const instances: string[] = [];
-    for (let i = 1; i < group.nodes.length; i++) {
-      const node = group.nodes[i];
-      const instance = component.createInstance();
-      
-      if ('x' in node && 'y' in node) {
-        instance.x = node.x;
-        instance.y = node.y;
-      }
+  return groups.map(g => ({
+    nodes: g.nodes,
+    name: generateComponentNameFromNodes(g.nodes),
+  }));
+}
 
-      // Replace original with instance
-      if (node.parent) {
-        const index = node.parent.children.indexOf(node);
-        node.parent.insertChild(index, instance);
-      }
-      
-      node.remove();
-      instances.push(instance.id);
+function groupChildrenByType(children: SceneNode[]): Array<{ nodes: SceneNode[]; name: string }> {
+  const typeGroups: Record<string, SceneNode[]> = {};
+  
+  for (const child of children) {
+    if (!typeGroups[child.type]) {
+      typeGroups[child.type] = [];
     }
+    typeGroups[child.type].push(child);
+  }
 
-    createdComponents.push({
-      componentId: component.id,
-      name: component.name,
-      sourceNodeId: mainNode.id,
-      instanceCount: instances.length,
-      instanceIds: instances,
-    });
+  return Object.entries(typeGroups).map(([type, nodes]) => ({
+    nodes,
+    name: `${type}_Group`,
+  }));
+}
 
-    // Remove the original main node
-    mainNode.remove();
+function groupChildrenByName(children: SceneNode[]): Array<{ nodes: SceneNode[]; name: string }> {
+  const nameGroups: Record<string, SceneNode[]> = {};
+  
+  for (const child of children) {
+    const baseName = child.name.split(/[-_\s\d]/)[0] || 'Other';
+    if (!nameGroups[baseName]) {
+      nameGroups[baseName] = [];
+    }
+    nameGroups[baseName].push(child);
   }
 
-  // Create variant sets if requested and groups have multiple nodes
-  if (createVariants) {
-    for (const group of groups) {
-      if (group.nodes.length >= 2) {
-        // Find created components for this group
-        const groupComponentIds = createdComponents
-          .filter(c => group.nodes.some(n => n.id === c.sourceNodeId))
-          .map(c => c.componentId);
-        
-        if (groupComponentIds.length >= 2) {
-          const variantComponents: ComponentNode[] = [];
+  return Object.entries(nameGroups).map(([name, nodes]) => ({
+    nodes,
+    name: `${name}_Group`,
+  }));
+}
 
-          for (let i = 0; i < groupComponentIds.length; i++) {
-            const comp = await figma.getNodeByIdAsync(groupComponentIds[i]) as ComponentNode;
-            if (comp) {
-              comp.name = `Variant=${i + 1}`;
-              variantComponents.push(comp);
-            }
-          }
+function generateComponentNameFromNodes(nodes: SceneNode[]): string {
+  if (nodes.length === 0) return 'Component';
+  
+  const first = nodes[0];
+  const baseName = first.name.split(/[-_\s\d]/)[0] || 'Element';
+  
+  if (isButtonLike(first)) return 'Button';
+  if (isCardLike(first)) return 'Card';
+  if (isInputLike(first)) return 'Input';
+  
+  return baseName.charAt(0).toUpperCase() + baseName.slice(1);
+}
 
-          if (variantComponents.length < 2) continue;
-          const parent = variantComponents[0].parent as (BaseNode & ChildrenMixin);
-          const componentSet = combineComponentsAsVariants(variantComponents, parent);
-          componentSet.name = group.name;
-          componentSet.x = frame.x;
-          componentSet.y = frame.y + frame.height + 200;
-          
-          componentSetIds.push(componentSet.id);
-        }
-      }
-    }
+function findCommonPrefix(names: string[]): string {
+  if (names.length === 0) return 'ComponentSet';
+  if (names.length === 1) return names[0];
+
+  const sorted = [...names].sort();
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  
+  let i = 0;
+  while (i < first.length && first[i] === last[i]) {
+    i++;
   }
+  
+  return first.substring(0, i).replace(/[-_\s]+$/, '') || 'ComponentSet';
+}
 
-  // Organize on Components page if requested
-  if (organizeOnPage) {
-    let componentsPage = figma.root.children.find(p => p.name === 'Components') as PageNode;
-    if (!componentsPage) {
-      componentsPage = figma.createPage();
-      componentsPage.name = 'Components';
-    }
 
-    for (const compInfo of createdComponents) {
-      const component = await figma.getNodeByIdAsync(compInfo.componentId);
-      if (isSceneNode(component)) {
-        componentsPage.appendChild(component);
-      }
-    }
-  }
+// ===== BASIC NODE CREATION IMPLEMENTATIONS =====
 
-  return {
-    frameId,
-    frameName: frame.name,
-    totalChildren: frame.children.length,
-    eligibleChildren: eligibleChildren.length,
-    groupsCreated: groups.length,
-    componentsCreated: createdComponents.length,
-    componentSetsCreated: componentSetIds.length,
-    components: createdComponents,
-    componentSetIds,
-  };
+async function resolveParentForAppend(parentId?: string): Promise<(BaseNode & ChildrenMixin) | null> {
+  if (!parentId) return null;
+  const parent = await figma.getNodeByIdAsync(parentId) as (BaseNode & Partial<ChildrenMixin>) | null;
+  if (!parent || typeof (parent as any).appendChild !== 'function') return null;
+  return parent as BaseNode & ChildrenMixin;
 }
 
-async function analyzeFrameStructure(
-  frameId: string,
-  detectDuplicates: boolean = true,
-  minSimilarity: number = 0.85
-): Promise<any> {
-  const frame = await figma.getNodeByIdAsync(frameId) as FrameNode;
-  if (!frame || frame.type !== 'FRAME') {
-    throw new Error('Frame not found');
+async function appendToTargetParent(node: SceneNode, parentId?: string): Promise<void> {
+  const parent = await resolveParentForAppend(parentId);
+  if (parent) {
+    parent.appendChild(node);
+    return;
   }
+  figma.currentPage.appendChild(node);
+}
 
-  const children = frame.children;
-  const analysis: any = {
-    frameId,
-    frameName: frame.name,
-    totalChildren: children.length,
-    childTypes: {} as Record<string, number>,
-    sizeDistribution: {
-      small: 0,   // < 100px
-      medium: 0,  // 100-300px
-      large: 0,   // > 300px
-    },
-    componentCandidates: [] as any[],
-    duplicateGroups: [] as any[],
-  };
-
-  // Analyze child types
-  for (const child of children) {
-    analysis.childTypes[child.type] = (analysis.childTypes[child.type] || 0) + 1;
-
-    if ('width' in child && 'height' in child) {
-      const maxDim = Math.max(child.width, child.height);
-      if (maxDim < 100) analysis.sizeDistribution.small++;
-      else if (maxDim <= 300) analysis.sizeDistribution.medium++;
-      else analysis.sizeDistribution.large++;
-    }
+async function createEllipse(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  const ellipse = figma.createEllipse();
+  ellipse.x = x;
+  ellipse.y = y;
+  ellipse.resize(width, height);
+  if (options.name) ellipse.name = options.name;
+  if (options.fills) ellipse.fills = normalizePaintArray(options.fills);
+  await appendToTargetParent(ellipse, options.parentId);
+  
+  return { id: ellipse.id, name: ellipse.name, type: ellipse.type };
+}
 
-    // Identify component candidates (non-component nodes with reasonable size)
-    if (child.type !== 'COMPONENT' && child.type !== 'INSTANCE' && child.type !== 'COMPONENT_SET') {
-      if ('width' in child && child.width >= 50 && child.height >= 30) {
-        analysis.componentCandidates.push({
-          id: child.id,
-          name: child.name,
-          type: child.type,
-          width: child.width,
-          height: child.height,
-        });
-      }
-    }
-  }
+async function createLine(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  const line = figma.createLine();
+  line.x = x;
+  line.y = y;
+  line.resize(width, height);
+  if (options.name) line.name = options.name;
+  if (options.strokeWeight) line.strokeWeight = options.strokeWeight;
+  if (options.strokes) line.strokes = normalizePaintArray(options.strokes);
+  await appendToTargetParent(line, options.parentId);
+  
+  return { id: line.id, name: line.name, type: line.type };
+}
 
-  // Detect duplicates if requested
-  if (detectDuplicates) {
-    const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
+async function createPolygon(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  const polygon = figma.createPolygon();
+  polygon.x = x;
+  polygon.y = y;
+  polygon.resize(width, height);
+  polygon.pointCount = options.pointCount || 5;
+  if (options.name) polygon.name = options.name;
+  if (options.fills) polygon.fills = normalizePaintArray(options.fills);
+  await appendToTargetParent(polygon, options.parentId);
+  
+  return { id: polygon.id, name: polygon.name, type: polygon.type, pointCount: polygon.pointCount };
+}
 
-    for (const child of children) {
-      if (child.type === 'COMPONENT' || child.type === 'INSTANCE') continue;
-      
-      const features = extractFeatures(child);
-      let added = false;
+async function createStar(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  const star = figma.createStar();
+  star.x = x;
+  star.y = y;
+  star.resize(width, height);
+  star.pointCount = options.pointCount || 5;
+  star.innerRadius = options.innerRadius || 0.5;
+  if (options.name) star.name = options.name;
+  if (options.fills) star.fills = normalizePaintArray(options.fills);
+  await appendToTargetParent(star, options.parentId);
+  
+  return { id: star.id, name: star.name, type: star.type, pointCount: star.pointCount };
+}
 
-      for (const group of groups) {
-        if (calculateSimilarity(features, group.features) >= minSimilarity) {
-          group.nodes.push(child);
-          added = true;
-          break;
-        }
-      }
+function normalizeVectorPathsInput(input: any): VectorPaths {
+  const sanitizePathData = (raw: string): string => {
+    // Figma vector parser is strict: commands and numbers must be tokenized with spaces.
+    return raw
+      .replace(/,/g, ' ')
+      .replace(/([A-Za-z])/g, ' $1 ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  };
 
-      if (!added) {
-        groups.push({ nodes: [child], features });
-      }
+  const toPathObject = (value: any): VectorPath => {
+    if (typeof value === 'string') {
+      const data = sanitizePathData(value);
+      if (!data) throw new Error('vector path string is empty');
+      return { data, windingRule: 'NONZERO' } as VectorPath;
+    }
+    if (value && typeof value === 'object') {
+      const rawData = typeof value.data === 'string'
+        ? value.data
+        : (typeof value.path === 'string' ? value.path : (typeof value.d === 'string' ? value.d : ''));
+      const data = sanitizePathData(rawData);
+      if (!data) throw new Error('vector path object is missing data/path/d');
+      const windingRuleRaw = String(value.windingRule || 'NONZERO').toUpperCase();
+      const windingRule = ['NONZERO', 'EVENODD', 'NONE'].includes(windingRuleRaw) ? windingRuleRaw : 'NONZERO';
+      return { data, windingRule: windingRule as any } as VectorPath;
     }
+    throw new Error(`Unsupported vector path entry type: ${typeof value}`);
+  };
 
-    analysis.duplicateGroups = groups
-      .filter(g => g.nodes.length >= 2)
-      .map(g => ({
-        count: g.nodes.length,
-        nodes: g.nodes.map(n => ({ id: n.id, name: n.name })),
-        suggestedName: generateComponentNameFromNodes(g.nodes),
-      }));
+  if (Array.isArray(input)) {
+    if (input.length === 0) throw new Error('vectorPaths array is empty');
+    return input.map(toPathObject) as VectorPaths;
   }
+  return [toPathObject(input)] as VectorPaths;
+}
 
-  // Generate recommendations
-  analysis.recommendations = [];
-  
-  if (analysis.duplicateGroups.length > 0) {
-    analysis.recommendations.push({
-      type: 'merge_duplicates',
-      priority: 'high',
-      description: `Found ${analysis.duplicateGroups.length} groups of similar elements that could be converted to components`,
-      affectedNodes: analysis.duplicateGroups.reduce((sum: number, g: any) => sum + g.count, 0),
-    });
+function parseHexToRGB(value: string): RGB | null {
+  const normalized = value.trim().replace(/^#/, '');
+  if (/^[0-9a-fA-F]{3}$/.test(normalized)) {
+    const r = parseInt(normalized[0] + normalized[0], 16) / 255;
+    const g = parseInt(normalized[1] + normalized[1], 16) / 255;
+    const b = parseInt(normalized[2] + normalized[2], 16) / 255;
+    return { r, g, b };
   }
-
-  if (analysis.componentCandidates.length > 10) {
-    analysis.recommendations.push({
-      type: 'create_components',
-      priority: 'medium',
-      description: `Found ${analysis.componentCandidates.length} potential component candidates`,
-    });
+  if (/^[0-9a-fA-F]{6}$/.test(normalized)) {
+    const r = parseInt(normalized.slice(0, 2), 16) / 255;
+    const g = parseInt(normalized.slice(2, 4), 16) / 255;
+    const b = parseInt(normalized.slice(4, 6), 16) / 255;
+    return { r, g, b };
   }
-
-  return analysis;
+  return null;
 }
 
-// ===== NEW FUNCTIONS: Cross-Page Operations =====
-
-async function crossPageCopy(
-  nodeIds: string[],
-  sourcePageId: string,
-  targetPageId: string,
-  maintainPosition: boolean = true
-): Promise<any> {
-  await ensureAllPagesLoaded();
-  const sourcePage = await figma.getNodeByIdAsync(sourcePageId) as PageNode;
-  const targetPage = await figma.getNodeByIdAsync(targetPageId) as PageNode;
+function normalizePaintArray(input: any): Paint[] {
+  if (!Array.isArray(input)) return input as Paint[];
+  return input.map((entry) => {
+    if (typeof entry === 'string') {
+      const rgb = parseHexToRGB(entry);
+      if (!rgb) throw new Error(`Unsupported color string: ${entry}`);
+      return { type: 'SOLID', color: rgb } as SolidPaint;
+    }
+    if (entry && typeof entry === 'object') return entry as Paint;
+    throw new Error(`Unsupported paint entry type: ${typeof entry}`);
+  });
+}
 
-  if (!sourcePage || sourcePage.type !== 'PAGE') {
-    throw new Error('Source page not found');
-  }
-  if (!targetPage || targetPage.type !== 'PAGE') {
-    throw new Error('Target page not found');
+async function createVector(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  const vector = figma.createVector();
+  vector.x = x;
+  vector.y = y;
+  vector.resize(width, height);
+  if (options.name) vector.name = options.name;
+  const rawVectorPaths = options.vectorPaths ?? options.vectorPath ?? options.path ?? options.svgPath ?? options.d;
+  if (rawVectorPaths !== undefined && rawVectorPaths !== null) {
+    vector.vectorPaths = normalizeVectorPathsInput(rawVectorPaths);
   }
+  if (options.fills) vector.fills = normalizePaintArray(options.fills);
+  if (options.strokes) vector.strokes = normalizePaintArray(options.strokes);
+  if (options.strokeWeight) vector.strokeWeight = options.strokeWeight;
+  await appendToTargetParent(vector, options.parentId);
+  
+  return { id: vector.id, name: vector.name, type: vector.type };
+}
 
-  // Switch to source page temporarily
-  const originalPage = figma.currentPage;
-  await figma.setCurrentPageAsync(sourcePage);
+// SVG markup -> editable vector layers (a frame sized to the SVG viewBox), optionally flattened or turned into a component.
+async function importSvg(options: any): Promise<any> {
+  const svg = typeof options.svg === 'string' ? options.svg.trim() : '';
+  if (!/<svg[\s/>]/i.test(svg)) throw new Error('svg must contain an <svg> element');
+  const scale = options.scale ?? 1;
+  if (typeof scale !== 'number' || !(scale > 0)) throw new Error('scale must be a positive number');
+  // figma.fileKey is only exposed to private plugins; when it is, refuse to land components in the wrong file.
+  // Otherwise the import goes ahead and reports targetVerified: false so the caller can warn.
+  if (options.expectedFileKey && figma.fileKey && figma.fileKey !== options.expectedFileKey) {
+    throw new Error(`Open file is ${figma.fileKey}, expected ${options.expectedFileKey}`);
+  }
+  const targetVerified = options.expectedFileKey ? figma.fileKey === options.expectedFileKey : undefined;
 
-  const copiedNodes: string[] = [];
-  const errors: string[] = [];
+  const frame = figma.createNodeFromSvg(svg);
+  if (options.name) frame.name = options.name;
+  if (scale !== 1) frame.rescale(scale);
 
-  try {
-    for (const nodeId of nodeIds) {
-      const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-      if (!node) {
-        errors.push(`Node ${nodeId} not found`);
-        continue;
-      }
+  let flattened = false;
+  if (options.flatten === true && frame.children.length > 0) {
+    const vector = figma.flatten([...frame.children], frame);
+    vector.name = frame.name;
+    flattened = true;
+  }
 
-      const clone = node.clone();
-      
-      if (!maintainPosition) {
-        // Position relative to page center
-        clone.x = (figma.viewport.center.x - clone.width / 2);
-        clone.y = (figma.viewport.center.y - clone.height / 2);
-      }
+  await appendToTargetParent(frame, options.parentId);
+  if (options.x !== undefined) frame.x = options.x;
+  if (options.y !== undefined) frame.y = options.y;
 
-      targetPage.appendChild(clone);
-      copiedNodes.push(clone.id);
-    }
-  } finally {
-    // Restore original page
-    await figma.setCurrentPageAsync(originalPage);
+  let node: FrameNode | ComponentNode = frame;
+  if (options.asComponent === true) {
+    node = figma.createComponentFromNode(frame);
+    if (options.description) node.description = options.description;
   }
 
   return {
-    copied: copiedNodes.length,
-    failed: errors.length,
-    copiedNodeIds: copiedNodes,
-    errors: errors.slice(0, 10),
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+    childCount: node.children.length,
+    flattened,
+    ...(node.type === 'COMPONENT' ? { componentId: node.id, componentKey: node.key } : {}),
+    ...(targetVerified !== undefined ? { targetVerified } : {}),
   };
 }
 
-async function crossPageMove(
-  nodeIds: string[],
-  sourcePageId: string,
-  targetPageId: string,
-  maintainPosition: boolean = true
-): Promise<any> {
-  await ensureAllPagesLoaded();
-  const result = await crossPageCopy(nodeIds, sourcePageId, targetPageId, maintainPosition);
+async function createGroup(nodeIds: string[], name?: string, parentId?: string): Promise<any> {
+  const nodes: SceneNode[] = [];
+  for (const id of nodeIds || []) {
+    if (typeof id !== 'string' || !id) continue;
+    const node = await figma.getNodeByIdAsync(id) as SceneNode;
+    if (node) nodes.push(node);
+  }
   
-  // Delete originals from source page
-  const deleted: string[] = [];
-  for (const nodeId of nodeIds) {
-    const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-    if (node && node.parent) {
-      node.remove();
-      deleted.push(nodeId);
-    }
+  if (nodes.length === 0) throw new Error('No valid nodes to group');
+  
+  const parent = nodes[0].parent as (BaseNode & ChildrenMixin);
+  const group = figma.group(nodes, parent);
+  if (name) group.name = name;
+  
+  if (parentId) {
+    const newParent = await resolveParentForAppend(parentId);
+    if (newParent) newParent.appendChild(group);
   }
+  
+  return { id: group.id, name: group.name, type: group.type, childrenCount: group.children.length };
+}
 
-  return {
-    ...result,
-    moved: result.copied,
-    deletedFromSource: deleted.length,
+async function createSection(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  const createFrameFallback = async () => {
+    const frame = figma.createFrame();
+    frame.x = x;
+    frame.y = y;
+    frame.resize(width, height);
+    frame.name = options.name || 'Section (fallback)';
+    if (options.fills) frame.fills = options.fills;
+
+    await appendToTargetParent(frame, options.parentId);
+    return { id: frame.id, name: frame.name, type: frame.type, fallback: true };
   };
+
+  try {
+    if (typeof (figma as any).createSection !== 'function') {
+      return await createFrameFallback();
+    }
+
+    const section = figma.createSection();
+    section.x = x;
+    section.y = y;
+    section.resizeWithoutConstraints(width, height);
+    if (options.name) section.name = options.name;
+    if (options.fills) section.fills = options.fills;
+    
+    await appendToTargetParent(section, options.parentId);
+    
+    return { id: section.id, name: section.name, type: section.type };
+  } catch {
+    return await createFrameFallback();
+  }
 }
 
-async function batchEditAcrossPages(
-  operations: Array<{ pageId: string; nodeId: string; changes: any }>
-): Promise<any> {
-  await ensureAllPagesLoaded();
-  const results: any[] = [];
-  const errors: any[] = [];
+async function createSlice(x: number, y: number, width: number, height: number, name?: string): Promise<any> {
+  const slice = figma.createSlice();
+  slice.x = x;
+  slice.y = y;
+  slice.resize(width, height);
+  if (name) slice.name = name;
+  figma.currentPage.appendChild(slice);
+  
+  return { id: slice.id, name: slice.name, type: slice.type };
+}
 
-  // Group by page
-  const pageGroups: Map<string, Array<{ nodeId: string; changes: any }>> = new Map();
+async function createConnector(startNodeId: string, endNodeId: string, options: any): Promise<any> {
+  const connector = figma.createConnector();
   
-  for (const op of operations) {
-    if (!pageGroups.has(op.pageId)) {
-      pageGroups.set(op.pageId, []);
+  const startNode = await figma.getNodeByIdAsync(startNodeId) as SceneNode;
+  const endNode = await figma.getNodeByIdAsync(endNodeId) as SceneNode;
+  
+  if (!startNode || !endNode) throw new Error('Start or end node not found');
+  
+  connector.connectorStart = {
+    endpointNodeId: startNodeId,
+    magnet: options.startMagnet || 'AUTO',
+  };
+  connector.connectorEnd = {
+    endpointNodeId: endNodeId,
+    magnet: options.endMagnet || 'AUTO',
+  };
+  
+  if (options.strokeWeight) connector.strokeWeight = options.strokeWeight;
+  if (options.strokes) connector.strokes = options.strokes;
+  
+  return { id: connector.id, type: connector.type };
+}
+
+async function createSticky(x: number, y: number, text?: string, color?: string, parentId?: string): Promise<any> {
+  if (typeof (figma as any).createSticky !== 'function') {
+    // Fallback for non-FigJam editors: simulate a sticky with a frame + text.
+    const note = figma.createFrame();
+    note.name = 'Sticky (fallback)';
+    note.x = x;
+    note.y = y;
+    note.resize(180, 140);
+    note.cornerRadius = 12;
+    note.fills = [{ type: 'SOLID', color: { r: 1, g: 0.97, b: 0.7 } }];
+    if (text) {
+      const txt = figma.createText();
+      await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+      txt.characters = text;
+      txt.x = 12;
+      txt.y = 12;
+      note.appendChild(txt);
     }
-    pageGroups.get(op.pageId)!.push({ nodeId: op.nodeId, changes: op.changes });
+    await appendToTargetParent(note, parentId);
+    return { id: note.id, type: note.type, text: text || '' };
   }
 
-  const originalPage = figma.currentPage;
+  const sticky = figma.createSticky();
+  sticky.x = x;
+  sticky.y = y;
+  if (color) (sticky as any).color = color as any;
+  if (text) {
+    await figma.loadFontAsync(sticky.text.fontName as FontName);
+    sticky.text.characters = text;
+  }
+  
+  await appendToTargetParent(sticky, parentId);
+  
+  return { id: sticky.id, type: sticky.type, text: sticky.text.characters };
+}
 
-  for (const [pageId, ops] of pageGroups) {
-    const page = await figma.getNodeByIdAsync(pageId) as PageNode;
-    if (!page) {
-      errors.push({ pageId, error: 'Page not found' });
-      continue;
+async function createShapeWithText(x: number, y: number, width: number, height: number, options: any): Promise<any> {
+  if (typeof (figma as any).createShapeWithText !== 'function') {
+    // Fallback for non-FigJam editors.
+    const frame = figma.createFrame();
+    frame.x = x;
+    frame.y = y;
+    frame.resize(width, height);
+    frame.fills = options.fills || [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
+    frame.cornerRadius = 12;
+    if (options.text) {
+      const txt = figma.createText();
+      await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+      txt.characters = options.text;
+      txt.x = 12;
+      txt.y = 12;
+      frame.appendChild(txt);
     }
+    await appendToTargetParent(frame, options.parentId);
+    return { id: frame.id, type: frame.type, shapeType: 'FALLBACK_FRAME' };
+  }
 
-    await figma.setCurrentPageAsync(page);
-
-    for (const op of ops) {
-      try {
-        const node = await figma.getNodeByIdAsync(op.nodeId) as SceneNode;
-        if (!node) {
-          errors.push({ pageId, nodeId: op.nodeId, error: 'Node not found' });
-          continue;
-        }
+  const shape = figma.createShapeWithText();
+  shape.x = x;
+  shape.y = y;
+  shape.resize(width, height);
+  if (options.shapeType) shape.shapeType = options.shapeType;
+  if (options.fills) shape.fills = options.fills;
+  if (options.text) {
+    await figma.loadFontAsync(shape.text.fontName as FontName);
+    shape.text.characters = options.text;
+  }
+  
+  await appendToTargetParent(shape, options.parentId);
+  
+  return { id: shape.id, type: shape.type, shapeType: shape.shapeType };
+}
 
-        applyNodeProperties(node, op.changes);
-        results.push({ pageId, nodeId: op.nodeId, success: true });
-      } catch (error) {
-        const msg = error instanceof Error ? error.message : String(error);
-        errors.push({ pageId, nodeId: op.nodeId, error: msg });
-      }
+async function createTable(x: number, y: number, rowCount: number = 3, columnCount: number = 3, options: any): Promise<any> {
+  // Figma doesn't have native table creation, so we simulate with frames
+  const tableFrame = figma.createFrame();
+  tableFrame.x = x;
+  tableFrame.y = y;
+  tableFrame.name = options.name || 'Table';
+  tableFrame.layoutMode = 'VERTICAL';
+  tableFrame.itemSpacing = 0;
+  tableFrame.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+  
+  const cellWidth = options.cellWidth || 100;
+  const cellHeight = options.cellHeight || 40;
+  
+  for (let r = 0; r < rowCount; r++) {
+    const rowFrame = figma.createFrame();
+    rowFrame.name = `Row ${r + 1}`;
+    rowFrame.layoutMode = 'HORIZONTAL';
+    rowFrame.itemSpacing = 0;
+    rowFrame.layoutSizingHorizontal = 'HUG';
+    rowFrame.layoutSizingVertical = 'HUG';
+    
+    for (let c = 0; c < columnCount; c++) {
+      const cell = figma.createFrame();
+      cell.name = `Cell ${r + 1}-${c + 1}`;
+      cell.resize(cellWidth, cellHeight);
+      cell.fills = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
+      cell.strokes = [{ type: 'SOLID', color: { r: 0.8, g: 0.8, b: 0.8 } }];
+      cell.strokeWeight = 1;
+      rowFrame.appendChild(cell);
     }
+    
+    tableFrame.appendChild(rowFrame);
   }
-
-  await figma.setCurrentPageAsync(originalPage);
-
-  return {
-    success: results.length,
-    failed: errors.length,
-    results,
-    errors: errors.slice(0, 10),
+  
+  await appendToTargetParent(tableFrame, options.parentId);
+  
+  return { 
+    id: tableFrame.id, 
+    name: tableFrame.name, 
+    type: tableFrame.type,
+    rows: rowCount,
+    columns: columnCount 
   };
 }
 
-// ===== NEW FUNCTIONS: Component Set Management =====
+// ===== BOOLEAN OPERATIONS =====
 
-async function explodeComponentSet(
-  componentSetId: string,
-  convertInstancesToMain: boolean = false,
-  organizeOnPage: boolean = true
-): Promise<any> {
-  const componentSet = await figma.getNodeByIdAsync(componentSetId) as ComponentSetNode;
-  if (!componentSet || componentSet.type !== 'COMPONENT_SET') {
-    throw new Error('Component set not found');
+async function booleanOperation(nodeIds: string[], operation: 'UNION' | 'SUBTRACT' | 'INTERSECT' | 'EXCLUDE', name?: string, parentId?: string): Promise<any> {
+  const nodes: SceneNode[] = [];
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id) as SceneNode;
+    if (node) nodes.push(node);
   }
-
-  const variants = componentSet.children.filter(c => c.type === 'COMPONENT') as ComponentNode[];
-  const separatedComponents: any[] = [];
-  const updatedInstances: any[] = [];
-
-  // Detach variants from component set
-  for (const variant of variants) {
-    const originalName = variant.name.split('=').pop() || variant.name;
-    const newName = `${componentSet.name}_${originalName}`;
-    
-    variant.name = newName;
-    
-    separatedComponents.push({
-      componentId: variant.id,
-      name: variant.name,
-    });
+  
+  if (nodes.length < 2) throw new Error('Need at least 2 nodes for boolean operation');
+  
+  let resultNode: BooleanOperationNode;
+  
+  switch (operation) {
+    case 'UNION':
+      resultNode = figma.union(nodes, nodes[0].parent as any);
+      break;
+    case 'SUBTRACT':
+      resultNode = figma.subtract(nodes, nodes[0].parent as any);
+      break;
+    case 'INTERSECT':
+      resultNode = figma.intersect(nodes, nodes[0].parent as any);
+      break;
+    case 'EXCLUDE':
+      resultNode = figma.exclude(nodes, nodes[0].parent as any);
+      break;
   }
+  
+  if (name) resultNode.name = name;
+  
+  if (parentId) {
+    const newParent = await resolveParentForAppend(parentId);
+    if (newParent) newParent.appendChild(resultNode);
+  }
+  
+  return { id: resultNode.id, name: resultNode.name, type: resultNode.type, booleanOperation: resultNode.booleanOperation };
+}
 
-  // Remove component set (variants will become standalone components)
-  componentSet.remove();
-
-  // Find and update instances if requested
-  if (convertInstancesToMain) {
-    for (const comp of separatedComponents) {
-      const component = await figma.getNodeByIdAsync(comp.componentId) as ComponentNode;
-      if (!component) continue;
-
-      await traverseNodes(figma.root, async (node) => {
-        if (node.type === 'INSTANCE') {
-          const mainComponent = await getInstanceMainComponentSafe(node as InstanceNode);
-          if (mainComponent?.id !== comp.componentId) return true;
-          // Instance is already linked to this component
-          updatedInstances.push({ instanceId: node.id, componentId: comp.componentId });
-        }
-        return true;
-      });
-    }
+async function flattenNodes(nodeIds: string[], parentId?: string): Promise<any> {
+  const nodes: SceneNode[] = [];
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id) as SceneNode;
+    if (node) nodes.push(node);
+  }
+  
+  if (nodes.length === 0) throw new Error('No valid nodes to flatten');
+  
+  const flattened = figma.flatten(nodes, nodes[0].parent as any);
+  
+  if (parentId) {
+    const newParent = await resolveParentForAppend(parentId);
+    if (newParent) newParent.appendChild(flattened);
   }
+  
+  return { id: flattened.id, name: flattened.name, type: flattened.type };
+}
 
-  // Organize on Components page
-  if (organizeOnPage) {
-    let componentsPage = figma.root.children.find(p => p.name === 'Components') as PageNode;
-    if (!componentsPage) {
-      componentsPage = figma.createPage();
-      componentsPage.name = 'Components';
-    }
+// ===== NODE PROPERTIES =====
 
-    for (const comp of separatedComponents) {
-      const component = await figma.getNodeByIdAsync(comp.componentId);
-      if (isSceneNode(component) && component.parent?.type !== 'PAGE') {
-        componentsPage.appendChild(component);
-      }
-    }
-  }
+async function setConstraints(nodeId: string, horizontal: string, vertical: string): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
+  if (!('constraints' in node)) throw new Error('Node does not support constraints');
 
-  return {
-    componentSetId,
-    separatedComponents: separatedComponents.length,
-    components: separatedComponents,
-    instancesUpdated: updatedInstances.length,
+  const normalize = (value: string): 'MIN' | 'MAX' | 'CENTER' | 'STRETCH' | 'SCALE' => {
+    const v = String(value).toUpperCase();
+    if (v === 'MIN' || v === 'MAX' || v === 'CENTER' || v === 'STRETCH' || v === 'SCALE') return v;
+    if (v === 'LEFT' || v === 'TOP') return 'MIN';
+    if (v === 'RIGHT' || v === 'BOTTOM') return 'MAX';
+    if (v === 'LEFT_RIGHT' || v === 'TOP_BOTTOM') return 'STRETCH';
+    throw new Error(`Unsupported constraint value: ${value}`);
   };
-}
-
-async function detachAndOrganize(
-  instanceIds: string[],
-  deleteMainComponent: boolean = false,
-  organizeBy: 'type' | 'name' | 'size' | 'page_location' = 'type',
-  createBackup: boolean = true
-): Promise<any> {
-  const detached: any[] = [];
-  const deletedComponents: string[] = [];
 
-  // Create backup page if requested
-  let backupPage: PageNode | null = null;
-  if (createBackup) {
-    backupPage = figma.createPage();
-    backupPage.name = `Backup_${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}`;
-  }
+  (node as FrameNode).constraints = {
+    horizontal: normalize(horizontal),
+    vertical: normalize(vertical),
+  };
+  
+  return { id: node.id, constraints: node.constraints };
+}
 
-  for (const instanceId of instanceIds) {
-    const instance = await figma.getNodeByIdAsync(instanceId) as InstanceNode;
-    if (!instance || instance.type !== 'INSTANCE') continue;
+async function setLayoutGrid(nodeId: string, layoutGrids: any[]): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as FrameNode;
+  if (!node || node.type !== 'FRAME') throw new Error('Frame not found');
 
-    const mainComponent = await getInstanceMainComponentSafe(instance);
-    
-    // Backup before detaching
-    if (backupPage) {
-      const backup = instance.clone();
-      backupPage.appendChild(backup);
+  const input = (layoutGrids || []).map((g) => ({ ...g }));
+  const trySets: any[][] = [];
+  const parseNum = (v: any, fallback: number): number => {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : fallback;
+  };
+  const normalizeAlignment = (value: any, fallback: 'MIN' | 'CENTER' | 'STRETCH' = 'STRETCH') => {
+    const v = String(value || fallback).toUpperCase();
+    if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH') return v;
+    return fallback;
+  };
+  const normalizePattern = (value: any): 'GRID' | 'COLUMNS' | 'ROWS' => {
+    const v = String(value || 'COLUMNS').toUpperCase();
+    if (v === 'GRID' || v === 'ROWS') return v;
+    return 'COLUMNS';
+  };
+  const normalizeColor = (raw: any) => {
+    const r = Number(raw?.r);
+    const g = Number(raw?.g);
+    const b = Number(raw?.b);
+    const a = Number(raw?.a);
+    const unit = (n: number, fallback: number) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
+    return {
+      r: unit(r, 1),
+      g: unit(g, 0),
+      b: unit(b, 0),
+      a: unit(a, 0.1),
+    };
+  };
+  const normalizeGrid = (g: any): any => {
+    const pattern = normalizePattern(g?.pattern);
+    const visible = g?.visible !== false;
+    const color = normalizeColor(g?.color);
+    if (pattern === 'GRID') {
+      return {
+        pattern: 'GRID',
+        sectionSize: parseNum(g?.sectionSize ?? g?.size, 8),
+        color,
+        visible,
+      };
     }
-
-    // Detach instance
-    const detachedNode = instance.detachInstance();
-    
-    // Organize detached node
-    let category = 'Other';
-    switch (organizeBy) {
-      case 'type':
-        category = detachedNode.type;
-        break;
-      case 'name':
-        category = detachedNode.name.split(/[-_\s]/)[0] || 'Other';
-        break;
-      case 'size':
-        if ('width' in detachedNode) {
-          const area = detachedNode.width * detachedNode.height;
-          category = area < 10000 ? 'Small' : area < 50000 ? 'Medium' : 'Large';
-        }
-        break;
-      case 'page_location':
-        category = detachedNode.parent?.name || 'Root';
-        break;
+    const alignment = normalizeAlignment(g?.alignment, 'STRETCH');
+    const out: any = {
+      pattern,
+      alignment,
+      count: parseNum(g?.count, 12),
+      gutterSize: parseNum(g?.gutterSize, 20),
+      color,
+      visible,
+      offset: parseNum(g?.offset, 0),
+    };
+    if (alignment !== 'STRETCH') {
+      out.sectionSize = parseNum(g?.sectionSize, 60);
+    }
+    return out;
+  };
+  const normalizeGridWithSectionSize = (g: any): any => {
+    const out = normalizeGrid(g);
+    if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
+      out.sectionSize = parseNum(g?.sectionSize, 60);
     }
+    return out;
+  };
 
-    detached.push({
-      originalId: instanceId,
-      detachedId: detachedNode.id,
-      category,
-      mainComponentId: mainComponent?.id,
-    });
+  // 1) Caller-provided payload first
+  trySets.push(input);
 
-    // Delete main component if requested
-    if (deleteMainComponent && mainComponent && mainComponent.parent?.type !== 'COMPONENT_SET') {
-      mainComponent.remove();
-      if (mainComponent.id) deletedComponents.push(mainComponent.id);
-    }
-  }
+  // 2) Normalized schema-preserving payload
+  trySets.push(input.map((g) => normalizeGrid(g)));
+  // 3) Normalized payload with explicit sectionSize for columns/rows
+  trySets.push(input.map((g) => normalizeGridWithSectionSize(g)));
 
-  // Group detached nodes by category
-  const groupedByCategory: Record<string, string[]> = {};
-  for (const item of detached) {
-    if (!groupedByCategory[item.category]) {
-      groupedByCategory[item.category] = [];
+  let applied = false;
+  for (const candidate of trySets) {
+    try {
+      node.layoutGrids = candidate as LayoutGrid[];
+      applied = true;
+      break;
+    } catch {
+      // Try next normalization strategy
     }
-    groupedByCategory[item.category].push(item.detachedId);
   }
-
-  return {
-    detached: detached.length,
-    groupedByCategory,
-    deletedComponents: deletedComponents.length,
-    backupPageId: backupPage?.id,
-  };
+  if (!applied) {
+    throw new Error('Unable to apply layout grids: invalid schema for current Figma API (no silent GRID fallback applied)');
+  }
+  
+  return { id: node.id, layoutGrids: node.layoutGrids };
 }
 
-async function convertInstancesToComponents(
-  instanceIds: string[],
-  namingPattern: string = '{original}_Component',
-  organizeOnPage: boolean = true
-): Promise<any> {
-  const converted: any[] = [];
+async function setEffects(nodeId: string, effects: any[]): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
+  if (!('effects' in node)) throw new Error('Node does not support effects');
 
-  for (const instanceId of instanceIds) {
-    const instance = await figma.getNodeByIdAsync(instanceId) as InstanceNode;
-    if (!instance || instance.type !== 'INSTANCE') continue;
+  let normalized = effects;
+  if (!Array.isArray(normalized)) {
+    throw new Error('effects must be an array');
+  }
+  normalized = normalized
+    .map((e) => {
+      if (typeof e === 'string') {
+        try {
+          return JSON.parse(e);
+        } catch {
+          return null;
+        }
+      }
+      return e;
+    })
+    .filter(Boolean)
+    .map((e) => normalizeEffectInput(e))
+    .filter(Boolean);
 
-    const mainComponent = await getInstanceMainComponentSafe(instance);
-    const newName = namingPattern.replace('{original}', mainComponent?.name || 'Instance');
+  (node as any).effects = normalized;
+  
+  return { id: node.id, effects: (node as any).effects };
+}
 
-    // Detach first
-    const detached = instance.detachInstance();
-    
-    // Convert to component
-    const component = figma.createComponent();
-    component.name = newName;
+async function setExportSettings(nodeId: string, exportSettings: any[]): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
+  
+  node.exportSettings = exportSettings;
+  
+  return { id: node.id, exportSettings: node.exportSettings };
+}
 
-    // Copy detached content
-    if ('width' in detached && 'height' in detached) {
-      component.resize(detached.width, detached.height);
-    }
+async function setBlendMode(nodeId: string, blendMode: string): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
+  if (!('blendMode' in node)) throw new Error('Node does not support blend mode');
+  
+  (node as any).blendMode = blendMode;
+  
+  return { id: node.id, blendMode: (node as any).blendMode };
+}
 
-    if ('children' in detached) {
-      for (const child of [...detached.children]) {
-        component.appendChild(child);
-      }
-    }
+async function setMask(nodeId: string, isMask: boolean, maskType?: string): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
+  
+  if (!('isMask' in node)) {
+    throw new Error('Node does not support mask');
+  }
 
-    // Position and replace
-    component.x = detached.x;
-    component.y = detached.y;
-    
-    if (detached.parent) {
-      const index = detached.parent.children.indexOf(detached);
-      detached.parent.insertChild(index, component);
+  if (isMask) {
+    node.isMask = true;
+    if (maskType && 'maskType' in node) {
+      (node as any).maskType = maskType;
     }
-    
-    detached.remove();
-
-    converted.push({
-      originalInstanceId: instanceId,
-      newComponentId: component.id,
-      name: component.name,
-    });
+  } else {
+    node.isMask = false;
   }
+  
+  return { id: node.id, isMask: node.isMask };
+}
 
-  // Organize on Components page
-  if (organizeOnPage) {
-    let componentsPage = figma.root.children.find(p => p.name === 'Components') as PageNode;
-    if (!componentsPage) {
-      componentsPage = figma.createPage();
-      componentsPage.name = 'Components';
-    }
+// ===== AUTO LAYOUT =====
 
-    for (const conv of converted) {
-      const component = await figma.getNodeByIdAsync(conv.newComponentId);
-      if (isSceneNode(component) && component.parent?.type !== 'PAGE') {
-        componentsPage.appendChild(component);
+async function setAutoLayout(nodeId: string, options: any): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as FrameNode;
+  if (!node || node.type !== 'FRAME') throw new Error('Frame not found');
+  
+  if (options.layoutMode) node.layoutMode = options.layoutMode;
+  if (options.primaryAxisAlignItems) node.primaryAxisAlignItems = options.primaryAxisAlignItems;
+  if (options.counterAxisAlignItems) node.counterAxisAlignItems = options.counterAxisAlignItems;
+  if (options.paddingTop !== undefined) node.paddingTop = options.paddingTop;
+  if (options.paddingRight !== undefined) node.paddingRight = options.paddingRight;
+  if (options.paddingBottom !== undefined) node.paddingBottom = options.paddingBottom;
+  if (options.paddingLeft !== undefined) node.paddingLeft = options.paddingLeft;
+  if (options.itemSpacing !== undefined) node.itemSpacing = options.itemSpacing;
+  if (options.counterAxisSpacing !== undefined) (node as any).counterAxisSpacing = options.counterAxisSpacing;
+  if (options.layoutWrap) (node as any).layoutWrap = options.layoutWrap;
+  
+  return { 
+    id: node.id, 
+    layoutMode: node.layoutMode,
+    primaryAxisAlignItems: node.primaryAxisAlignItems,
+    counterAxisAlignItems: node.counterAxisAlignItems,
+  };
+}
+
+async function removeAutoLayout(nodeId: string, keepPosition: boolean = true): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as FrameNode;
+  if (!node || node.type !== 'FRAME') throw new Error('Frame not found');
+  
+  const originalPositions = keepPosition ? node.children.map(child => ({
+    id: child.id,
+    x: child.x,
+    y: child.y,
+  })) : [];
+  
+  node.layoutMode = 'NONE';
+  
+  if (keepPosition) {
+    for (const pos of originalPositions) {
+      const child = await figma.getNodeByIdAsync(pos.id) as SceneNode;
+      if (child) {
+        child.x = pos.x;
+        child.y = pos.y;
       }
     }
   }
-
-  return {
-    converted: converted.length,
-    components: converted,
-  };
+  
+  return { id: node.id, layoutMode: node.layoutMode };
+}
+
+async function alignNodes(nodeIds: string[], alignment: string): Promise<any> {
+  const nodes: SceneNode[] = [];
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id) as SceneNode;
+    if (node && 'x' in node && 'y' in node) nodes.push(node);
+  }
+  
+  if (nodes.length < 2) throw new Error('Need at least 2 nodes to align');
+  
+  // Calculate bounds
+  const xs = nodes.map(n => (n as any).x);
+  const ys = nodes.map(n => (n as any).y);
+  const rights = nodes.map(n => (n as any).x + (n as any).width);
+  const bottoms = nodes.map(n => (n as any).y + (n as any).height);
+  
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...rights);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...bottoms);
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  
+  for (const node of nodes) {
+    switch (alignment) {
+      case 'TOP_LEFT':
+        (node as any).x = minX;
+        (node as any).y = minY;
+        break;
+      case 'TOP_CENTER':
+        (node as any).x = centerX - (node as any).width / 2;
+        (node as any).y = minY;
+        break;
+      case 'TOP_RIGHT':
+        (node as any).x = maxX - (node as any).width;
+        (node as any).y = minY;
+        break;
+      case 'MIDDLE_LEFT':
+        (node as any).x = minX;
+        (node as any).y = centerY - (node as any).height / 2;
+        break;
+      case 'MIDDLE_CENTER':
+        (node as any).x = centerX - (node as any).width / 2;
+        (node as any).y = centerY - (node as any).height / 2;
+        break;
+      case 'MIDDLE_RIGHT':
+        (node as any).x = maxX - (node as any).width;
+        (node as any).y = centerY - (node as any).height / 2;
+        break;
+      case 'BOTTOM_LEFT':
+        (node as any).x = minX;
+        (node as any).y = maxY - (node as any).height;
+        break;
+      case 'BOTTOM_CENTER':
+        (node as any).x = centerX - (node as any).width / 2;
+        (node as any).y = maxY - (node as any).height;
+        break;
+      case 'BOTTOM_RIGHT':
+        (node as any).x = maxX - (node as any).width;
+        (node as any).y = maxY - (node as any).height;
+        break;
+    }
+  }
+  
+  return { aligned: nodes.length, alignment };
 }
 
-async function splitComponentByVariants(
-  componentSetId: string,
-  keepComponentSet: boolean = false,
-  updateInstances: boolean = true
-): Promise<any> {
-  const componentSet = await figma.getNodeByIdAsync(componentSetId) as ComponentSetNode;
-  if (!componentSet || componentSet.type !== 'COMPONENT_SET') {
-    throw new Error('Component set not found');
+async function distributeNodes(nodeIds: string[], direction: 'HORIZONTAL' | 'VERTICAL', spacing?: number): Promise<any> {
+  const nodes: SceneNode[] = [];
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id) as SceneNode;
+    if (node && 'x' in node && 'y' in node) nodes.push(node);
   }
-
-  const variants = [...componentSet.children].filter(c => c.type === 'COMPONENT') as ComponentNode[];
-  const separatedComponents: any[] = [];
-
-  // Position for separated components
-  let offsetX = componentSet.x;
-  let offsetY = componentSet.y + componentSet.height + 200;
-
-  for (const variant of variants) {
-    const variantName = variant.name.split('=').pop() || variant.name;
-    const newName = `${componentSet.name}_${variantName}`;
-
-    // Clone variant as new standalone component
-    const newComponent = figma.createComponent();
-    newComponent.name = newName;
-
-    // Copy variant content
-    if ('width' in variant) {
-      newComponent.resize(variant.width, variant.height);
+  
+  if (nodes.length < 3) throw new Error('Need at least 3 nodes to distribute');
+  
+  // Sort nodes
+  if (direction === 'HORIZONTAL') {
+    nodes.sort((a, b) => (a as any).x - (b as any).x);
+  } else {
+    nodes.sort((a, b) => (a as any).y - (b as any).y);
+  }
+  
+  const first = nodes[0];
+  const last = nodes[nodes.length - 1];
+  
+  if (direction === 'HORIZONTAL') {
+    const totalWidth = (last as any).x + (last as any).width - (first as any).x;
+    const totalItemsWidth = nodes.reduce((sum, n) => sum + (n as any).width, 0);
+    const gap = spacing !== undefined ? spacing : (totalWidth - totalItemsWidth) / (nodes.length - 1);
+    
+    let currentX = (first as any).x;
+    for (const node of nodes) {
+      (node as any).x = currentX;
+      currentX += (node as any).width + gap;
     }
-
-    if ('children' in variant) {
-      for (const child of variant.children) {
-        const clone = child.clone();
-        newComponent.appendChild(clone);
-      }
+  } else {
+    const totalHeight = (last as any).y + (last as any).height - (first as any).y;
+    const totalItemsHeight = nodes.reduce((sum, n) => sum + (n as any).height, 0);
+    const gap = spacing !== undefined ? spacing : (totalHeight - totalItemsHeight) / (nodes.length - 1);
+    
+    let currentY = (first as any).y;
+    for (const node of nodes) {
+      (node as any).y = currentY;
+      currentY += (node as any).height + gap;
     }
-
-    newComponent.x = offsetX;
-    newComponent.y = offsetY;
-    offsetX += newComponent.width + 100;
-
-    separatedComponents.push({
-      originalVariantId: variant.id,
-      newComponentId: newComponent.id,
-      name: newComponent.name,
-    });
   }
+  
+  return { distributed: nodes.length, direction };
+}
 
-  // Update instances if requested
-  if (updateInstances) {
-    for (const sep of separatedComponents) {
-      const originalVariant = await figma.getNodeByIdAsync(sep.originalVariantId) as ComponentNode;
-      const newComponent = await figma.getNodeByIdAsync(sep.newComponentId) as ComponentNode;
-      
-      if (!originalVariant || !newComponent) continue;
+// ===== STYLES =====
 
-      // Find all instances of this variant and swap them
-      await traverseNodes(figma.root, async (node) => {
-        if (node.type === 'INSTANCE') {
-          const instance = node as InstanceNode;
-          const mainComponent = await getInstanceMainComponentSafe(instance);
-          if (mainComponent?.id === originalVariant.id) {
-            instance.swapComponent(newComponent);
-          }
-        }
-        return true;
-      });
+async function createEffectStyle(name: string, effects?: any[], sourceNodeId?: string): Promise<any> {
+  let finalEffects = effects;
+  
+  if (sourceNodeId && !effects) {
+    const node = await figma.getNodeByIdAsync(sourceNodeId) as SceneNode;
+    if (node && 'effects' in node) {
+      finalEffects = (node as any).effects;
     }
   }
 
-  // Remove component set if not keeping
-  if (!keepComponentSet) {
-    componentSet.remove();
+  if (Array.isArray(finalEffects)) {
+    finalEffects = finalEffects
+      .map((e) => {
+        if (typeof e === 'string') {
+          try {
+            return JSON.parse(e);
+          } catch {
+            return null;
+          }
+        }
+        return e;
+      })
+      .filter(Boolean)
+      .map((e) => normalizeEffectInput(e))
+      .filter(Boolean);
   }
-
-  return {
-    componentSetId,
-    separatedComponents: separatedComponents.length,
-    components: separatedComponents,
-    componentSetKept: keepComponentSet,
-  };
+  
+  const style = figma.createEffectStyle();
+  style.name = name;
+  if (finalEffects) style.effects = finalEffects;
+  
+  return { styleId: style.id, name: style.name, type: style.type };
 }
 
-async function mergeComponentsToSet(
-  componentIds: string[],
-  variantProperty: string = 'Type',
-  autoDetectValues: boolean = true
-): Promise<any> {
-  const components: ComponentNode[] = [];
-  for (const id of componentIds) {
-    const node = await figma.getNodeByIdAsync(id) as ComponentNode;
-    if (node && node.type === 'COMPONENT' && node.parent?.type !== 'COMPONENT_SET') {
-      components.push(node);
-    }
-  }
-
-  if (components.length < 2) {
-    throw new Error('Need at least 2 standalone components');
-  }
-
-  const parent = components[0].parent as (BaseNode & ChildrenMixin) | null;
-  if (!parent || !('appendChild' in parent)) {
-    throw new Error('Components must be on a page/frame before creating variants');
-  }
-
-  // Detect variant values from names if auto-detect
-  const baseName = findCommonPrefix(components.map(c => c.name));
-  const propertyValues = autoDetectValues 
-    ? components.map(c => c.name.replace(baseName, '').replace(/^[\-_\s]+/, '') || 'Default')
-    : components.map((_, i) => `Variant ${i + 1}`);
-
-  // Add components as variants
-  for (let i = 0; i < components.length; i++) {
-    const comp = components[i];
-    const value = propertyValues[i];
-    comp.name = `${variantProperty}=${value}`;
-    if (comp.parent?.id !== parent.id) {
-      parent.appendChild(comp);
-    }
-  }
-
-  const componentSet = combineComponentsAsVariants(components, parent);
-  componentSet.name = baseName;
+function normalizeEffectInput(raw: any): Effect | null {
+  if (!raw || typeof raw !== 'object') return null;
 
-  return {
-    componentSetId: componentSet.id,
-    name: componentSet.name,
-    variants: components.length,
-    propertyName: variantProperty,
-    propertyValues,
+  const toUnit = (v: any, fallback: number = 0): number => {
+    const n = Number(v);
+    if (!Number.isFinite(n)) return fallback;
+    const normalized = n > 1 ? n / 255 : n;
+    return Math.max(0, Math.min(1, normalized));
+  };
+  const toNum = (v: any, fallback: number = 0): number => {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : fallback;
   };
-}
-
-// ===== Helper Functions =====
-
-async function groupChildrenSmart(children: SceneNode[]): Promise<Array<{ nodes: SceneNode[]; name: string }>> {
-  const groups: Array<{ nodes: SceneNode[]; features: any }> = [];
 
-  for (const child of children) {
-    const features = extractFeatures(child);
-    let added = false;
+  const type = String(raw.type || '').toUpperCase();
+  const visible = raw.visible !== false;
+  const blendMode = raw.blendMode || 'NORMAL';
 
-    for (const group of groups) {
-      if (calculateSimilarity(features, group.features) >= 0.85) {
-        group.nodes.push(child);
-        added = true;
-        break;
-      }
-    }
+  if (type === 'DROP_SHADOW' || type === 'INNER_SHADOW') {
+    return {
+      type: type as 'DROP_SHADOW' | 'INNER_SHADOW',
+      visible,
+      blendMode,
+      color: {
+        r: toUnit(raw.color?.r, 0),
+        g: toUnit(raw.color?.g, 0),
+        b: toUnit(raw.color?.b, 0),
+        a: toUnit(raw.color?.a, 0.2),
+      },
+      offset: {
+        x: toNum(raw.offset?.x, 0),
+        y: toNum(raw.offset?.y, 4),
+      },
+      radius: toNum(raw.radius, 8),
+      spread: toNum(raw.spread, DEFAULT_DROP_SHADOW_SPREAD),
+    } as DropShadowEffect | InnerShadowEffect;
+  }
 
-    if (!added) {
-      groups.push({ nodes: [child], features });
-    }
+  if (type === 'LAYER_BLUR' || type === 'BACKGROUND_BLUR') {
+    return {
+      type: type as 'LAYER_BLUR' | 'BACKGROUND_BLUR',
+      visible,
+      radius: toNum(raw.radius, 4),
+    } as unknown as BlurEffect;
   }
 
-  return groups.map(g => ({
-    nodes: g.nodes,
-    name: generateComponentNameFromNodes(g.nodes),
-  }));
+  return raw as Effect;
 }
 
-function groupChildrenByType(children: SceneNode[]): Array<{ nodes: SceneNode[]; name: string }> {
-  const typeGroups: Record<string, SceneNode[]> = {};
+async function createGridStyle(name: string, layoutGrids?: any[], sourceNodeId?: string): Promise<any> {
+  let finalGrids = layoutGrids;
   
-  for (const child of children) {
-    if (!typeGroups[child.type]) {
-      typeGroups[child.type] = [];
+  if (sourceNodeId && !layoutGrids) {
+    const node = await figma.getNodeByIdAsync(sourceNodeId) as FrameNode;
+    if (node && node.type === 'FRAME') {
+      finalGrids = [...node.layoutGrids];
     }
-    typeGroups[child.type].push(child);
   }
+  
+  const style = figma.createGridStyle();
+  style.name = name;
+  if (Array.isArray(finalGrids)) {
+    const input = finalGrids
+      .map((g) => {
+        if (typeof g === 'string') {
+          try {
+            return JSON.parse(g);
+          } catch {
+            return null;
+          }
+        }
+        return g;
+      })
+      .filter(Boolean);
 
-  return Object.entries(typeGroups).map(([type, nodes]) => ({
-    nodes,
-    name: `${type}_Group`,
-  }));
-}
+    const parseNum = (v: any, fallback: number): number => {
+      const n = Number(v);
+      return Number.isFinite(n) ? n : fallback;
+    };
+    const normalizeAlignment = (value: any, fallback: 'MIN' | 'CENTER' | 'STRETCH' = 'STRETCH') => {
+      const v = String(value || fallback).toUpperCase();
+      if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH') return v;
+      return fallback;
+    };
+    const normalizePattern = (value: any): 'GRID' | 'COLUMNS' | 'ROWS' => {
+      const v = String(value || 'COLUMNS').toUpperCase();
+      if (v === 'GRID' || v === 'ROWS') return v;
+      return 'COLUMNS';
+    };
+    const normalizeColor = (raw: any) => {
+      const r = Number(raw?.r);
+      const g = Number(raw?.g);
+      const b = Number(raw?.b);
+      const a = Number(raw?.a);
+      const unit = (n: number, fallback: number) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
+      return {
+        r: unit(r, 1),
+        g: unit(g, 0),
+        b: unit(b, 0),
+        a: unit(a, 0.1),
+      };
+    };
+    const normalizeGrid = (g: any): any => {
+      const pattern = normalizePattern(g?.pattern);
+      const visible = g?.visible !== false;
+      const color = normalizeColor(g?.color);
+      if (pattern === 'GRID') {
+        return {
+          pattern: 'GRID',
+          sectionSize: parseNum(g?.sectionSize ?? g?.size, 8),
+          color,
+          visible,
+        };
+      }
+      const alignment = normalizeAlignment(g?.alignment, 'STRETCH');
+      const out: any = {
+        pattern,
+        alignment,
+        count: parseNum(g?.count, 12),
+        gutterSize: parseNum(g?.gutterSize, 20),
+        color,
+        visible,
+        offset: parseNum(g?.offset, 0),
+      };
+      if (alignment !== 'STRETCH') {
+        out.sectionSize = parseNum(g?.sectionSize, 60);
+      }
+      return out;
+    };
+    const normalizeGridWithSectionSize = (g: any): any => {
+      const out = normalizeGrid(g);
+      if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
+        out.sectionSize = parseNum(g?.sectionSize, 60);
+      }
+      return out;
+    };
 
-function groupChildrenByName(children: SceneNode[]): Array<{ nodes: SceneNode[]; name: string }> {
-  const nameGroups: Record<string, SceneNode[]> = {};
-  
-  for (const child of children) {
-    const baseName = child.name.split(/[-_\s\d]/)[0] || 'Other';
-    if (!nameGroups[baseName]) {
-      nameGroups[baseName] = [];
+    const candidates: any[][] = [];
+    candidates.push(input);
+    candidates.push(input.map((g: any) => normalizeGrid(g)));
+    candidates.push(input.map((g: any) => normalizeGridWithSectionSize(g)));
+
+    let applied = false;
+    for (const c of candidates) {
+      try {
+        style.layoutGrids = c as LayoutGrid[];
+        applied = true;
+        break;
+      } catch {
+        // try next
+      }
+    }
+    if (!applied) {
+      throw new Error('Unable to apply layout grids to style: invalid schema (no silent GRID fallback applied)');
     }
-    nameGroups[baseName].push(child);
   }
-
-  return Object.entries(nameGroups).map(([name, nodes]) => ({
-    nodes,
-    name: `${name}_Group`,
-  }));
+  
+  return { styleId: style.id, name: style.name, type: style.type };
 }
 
-function generateComponentNameFromNodes(nodes: SceneNode[]): string {
-  if (nodes.length === 0) return 'Component';
-  
-  const first = nodes[0];
-  const baseName = first.name.split(/[-_\s\d]/)[0] || 'Element';
+async function updatePaintStyle(styleId: string, name?: string, paints?: any[]): Promise<any> {
+  const style = await figma.getStyleByIdAsync(styleId) as PaintStyle;
+  if (!style || style.type !== 'PAINT') throw new Error('Paint style not found');
   
-  if (isButtonLike(first)) return 'Button';
-  if (isCardLike(first)) return 'Card';
-  if (isInputLike(first)) return 'Input';
+  if (name) style.name = name;
+  if (paints) style.paints = paints;
   
-  return baseName.charAt(0).toUpperCase() + baseName.slice(1);
+  return { styleId: style.id, name: style.name };
 }
 
-function findCommonPrefix(names: string[]): string {
-  if (names.length === 0) return 'ComponentSet';
-  if (names.length === 1) return names[0];
-
-  const sorted = [...names].sort();
-  const first = sorted[0];
-  const last = sorted[sorted.length - 1];
+async function updateTextStyle(styleId: string, options: any): Promise<any> {
+  const style = await figma.getStyleByIdAsync(styleId) as TextStyle;
+  if (!style || style.type !== 'TEXT') throw new Error('Text style not found');
   
-  let i = 0;
-  while (i < first.length && first[i] === last[i]) {
-    i++;
-  }
+  if (options.name) style.name = options.name;
+  if (options.fontName) style.fontName = options.fontName;
+  if (options.fontSize) style.fontSize = options.fontSize;
+  if (options.lineHeight) style.lineHeight = options.lineHeight;
+  if (options.letterSpacing) style.letterSpacing = options.letterSpacing;
   
-  return first.substring(0, i).replace(/[-_\s]+$/, '') || 'ComponentSet';
-}
-
-
-// ===== BASIC NODE CREATION IMPLEMENTATIONS =====
-
-async function resolveParentForAppend(parentId?: string): Promise<(BaseNode & ChildrenMixin) | null> {
-  if (!parentId) return null;
-  const parent = await figma.getNodeByIdAsync(parentId) as (BaseNode & Partial<ChildrenMixin>) | null;
-  if (!parent || typeof (parent as any).appendChild !== 'function') return null;
-  return parent as BaseNode & ChildrenMixin;
-}
-
-async function appendToTargetParent(node: SceneNode, parentId?: string): Promise<void> {
-  const parent = await resolveParentForAppend(parentId);
-  if (parent) {
-    parent.appendChild(node);
-    return;
-  }
-  figma.currentPage.appendChild(node);
+  return { styleId: style.id, name: style.name };
 }
 
-async function createEllipse(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  const ellipse = figma.createEllipse();
-  ellipse.x = x;
-  ellipse.y = y;
-  ellipse.resize(width, height);
-  if (options.name) ellipse.name = options.name;
-  if (options.fills) ellipse.fills = normalizePaintArray(options.fills);
-  await appendToTargetParent(ellipse, options.parentId);
+async function deleteStyle(styleId: string, detachNodes: boolean = true): Promise<any> {
+  const style = await figma.getStyleByIdAsync(styleId);
+  if (!style) throw new Error('Style not found');
   
-  return { id: ellipse.id, name: ellipse.name, type: ellipse.type };
-}
-
-async function createLine(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  const line = figma.createLine();
-  line.x = x;
-  line.y = y;
-  line.resize(width, height);
-  if (options.name) line.name = options.name;
-  if (options.strokeWeight) line.strokeWeight = options.strokeWeight;
-  if (options.strokes) line.strokes = normalizePaintArray(options.strokes);
-  await appendToTargetParent(line, options.parentId);
+  style.remove();
   
-  return { id: line.id, name: line.name, type: line.type };
+  return { deleted: true, styleId };
 }
 
-async function createPolygon(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  const polygon = figma.createPolygon();
-  polygon.x = x;
-  polygon.y = y;
-  polygon.resize(width, height);
-  polygon.pointCount = options.pointCount || 5;
-  if (options.name) polygon.name = options.name;
-  if (options.fills) polygon.fills = normalizePaintArray(options.fills);
-  await appendToTargetParent(polygon, options.parentId);
-  
-  return { id: polygon.id, name: polygon.name, type: polygon.type, pointCount: polygon.pointCount };
-}
+async function getAllStyles(type?: string): Promise<any> {
+  let styles: BaseStyle[] = [];
 
-async function createStar(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  const star = figma.createStar();
-  star.x = x;
-  star.y = y;
-  star.resize(width, height);
-  star.pointCount = options.pointCount || 5;
-  star.innerRadius = options.innerRadius || 0.5;
-  if (options.name) star.name = options.name;
-  if (options.fills) star.fills = normalizePaintArray(options.fills);
-  await appendToTargetParent(star, options.parentId);
+  const normalized = String(type ?? 'ALL').trim().toUpperCase();
+  const includeAll = !type || normalized === 'ALL';
+
+  if (includeAll || normalized === 'PAINT') {
+    styles = [...styles, ...(await figma.getLocalPaintStylesAsync())];
+  }
+  if (includeAll || normalized === 'TEXT') {
+    styles = [...styles, ...(await figma.getLocalTextStylesAsync())];
+  }
+  if (includeAll || normalized === 'EFFECT') {
+    styles = [...styles, ...(await figma.getLocalEffectStylesAsync())];
+  }
+  if (includeAll || normalized === 'GRID') {
+    styles = [...styles, ...(await figma.getLocalGridStylesAsync())];
+  }
   
-  return { id: star.id, name: star.name, type: star.type, pointCount: star.pointCount };
+  return {
+    count: styles.length,
+    styles: styles.map(s => ({ id: s.id, name: s.name, type: s.type })),
+  };
 }
 
-function normalizeVectorPathsInput(input: any): VectorPaths {
-  const sanitizePathData = (raw: string): string => {
-    // Figma vector parser is strict: commands and numbers must be tokenized with spaces.
-    return raw
-      .replace(/,/g, ' ')
-      .replace(/([A-Za-z])/g, ' $1 ')
-      .replace(/\s+/g, ' ')
-      .trim();
-  };
+// ===== VARIABLES =====
 
-  const toPathObject = (value: any): VectorPath => {
+async function createVariable(name: string, type: string, value: any, collectionId: string): Promise<any> {
+  const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
+  if (!collection) throw new Error('Variable collection not found');
+
+  // Sanitize arbitrary MCP input into a Figma-compatible variable name.
+  const safeName = String(name || 'var')
+    .replace(/[^\p{L}\p{N}_\-\s]/gu, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120) || 'var';
+  const normalizedName = /^[\p{L}_]/u.test(safeName) ? safeName : `v_${safeName}`;
+
+  const variable = figma.variables.createVariable(normalizedName, collection, type as VariableResolvedDataType);
+  
+  // Set value for the first mode
+  if (value !== undefined && collection.modes.length > 0) {
+    let finalValue: any = value;
     if (typeof value === 'string') {
-      const data = sanitizePathData(value);
-      if (!data) throw new Error('vector path string is empty');
-      return { data, windingRule: 'NONZERO' } as VectorPath;
+      try {
+        finalValue = JSON.parse(value);
+      } catch {
+        finalValue = value;
+      }
     }
-    if (value && typeof value === 'object') {
-      const rawData = typeof value.data === 'string'
-        ? value.data
-        : (typeof value.path === 'string' ? value.path : (typeof value.d === 'string' ? value.d : ''));
-      const data = sanitizePathData(rawData);
-      if (!data) throw new Error('vector path object is missing data/path/d');
-      const windingRuleRaw = String(value.windingRule || 'NONZERO').toUpperCase();
-      const windingRule = ['NONZERO', 'EVENODD', 'NONE'].includes(windingRuleRaw) ? windingRuleRaw : 'NONZERO';
-      return { data, windingRule: windingRule as any } as VectorPath;
+    const resolved = String(type).toUpperCase();
+    if (resolved === 'FLOAT') {
+      const n = Number(finalValue);
+      if (Number.isFinite(n)) finalValue = n;
+    } else if (resolved === 'BOOLEAN') {
+      if (typeof finalValue === 'string') finalValue = finalValue.toLowerCase() === 'true';
+      else finalValue = Boolean(finalValue);
+    } else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
+      const toUnit = (v: any) => {
+        const n = Number(v);
+        if (!Number.isFinite(n)) return 0;
+        return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
+      };
+      finalValue = {
+        r: toUnit(finalValue.r),
+        g: toUnit(finalValue.g),
+        b: toUnit(finalValue.b),
+        a: toUnit(finalValue.a ?? 1),
+      };
     }
-    throw new Error(`Unsupported vector path entry type: ${typeof value}`);
-  };
-
-  if (Array.isArray(input)) {
-    if (input.length === 0) throw new Error('vectorPaths array is empty');
-    return input.map(toPathObject) as VectorPaths;
+    variable.setValueForMode(collection.modes[0].modeId, finalValue);
   }
-  return [toPathObject(input)] as VectorPaths;
+  
+  return { variableId: variable.id, name: variable.name, type: variable.resolvedType };
 }
 
-function parseHexToRGB(value: string): RGB | null {
-  const normalized = value.trim().replace(/^#/, '');
-  if (/^[0-9a-fA-F]{3}$/.test(normalized)) {
-    const r = parseInt(normalized[0] + normalized[0], 16) / 255;
-    const g = parseInt(normalized[1] + normalized[1], 16) / 255;
-    const b = parseInt(normalized[2] + normalized[2], 16) / 255;
-    return { r, g, b };
-  }
-  if (/^[0-9a-fA-F]{6}$/.test(normalized)) {
-    const r = parseInt(normalized.slice(0, 2), 16) / 255;
-    const g = parseInt(normalized.slice(2, 4), 16) / 255;
-    const b = parseInt(normalized.slice(4, 6), 16) / 255;
-    return { r, g, b };
+async function createVariableCollection(name: string, modes?: string[]): Promise<any> {
+  const collection = figma.variables.createVariableCollection(name);
+  
+  // Rename default mode or add additional modes
+  if (modes && modes.length > 0) {
+    collection.renameMode(collection.modes[0].modeId, modes[0]);
+    for (let i = 1; i < modes.length; i++) {
+      collection.addMode(modes[i]);
+    }
   }
-  return null;
+  
+  return { 
+    collectionId: collection.id, 
+    name: collection.name, 
+    modes: collection.modes.map(m => ({ id: m.modeId, name: m.name }))
+  };
 }
 
-function normalizePaintArray(input: any): Paint[] {
-  if (!Array.isArray(input)) return input as Paint[];
-  return input.map((entry) => {
-    if (typeof entry === 'string') {
-      const rgb = parseHexToRGB(entry);
-      if (!rgb) throw new Error(`Unsupported color string: ${entry}`);
-      return { type: 'SOLID', color: rgb } as SolidPaint;
+async function setVariableValue(variableId: string, modeId: string, value: any): Promise<any> {
+  const variable = await figma.variables.getVariableByIdAsync(variableId);
+  if (!variable) throw new Error('Variable not found');
+
+  let finalValue: any = value;
+  if (typeof value === 'string') {
+    try {
+      finalValue = JSON.parse(value);
+    } catch {
+      finalValue = value;
     }
-    if (entry && typeof entry === 'object') return entry as Paint;
-    throw new Error(`Unsupported paint entry type: ${typeof entry}`);
-  });
-}
+  }
 
-async function createVector(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  const vector = figma.createVector();
-  vector.x = x;
-  vector.y = y;
-  vector.resize(width, height);
-  if (options.name) vector.name = options.name;
-  const rawVectorPaths = options.vectorPaths ?? options.vectorPath ?? options.path ?? options.svgPath ?? options.d;
-  if (rawVectorPaths !== undefined && rawVectorPaths !== null) {
-    vector.vectorPaths = normalizeVectorPathsInput(rawVectorPaths);
+  const resolved = String(variable.resolvedType).toUpperCase();
+  if (resolved === 'FLOAT') {
+    const n = Number(finalValue);
+    if (!Number.isFinite(n)) throw new Error('FLOAT variable requires numeric value');
+    finalValue = n;
+  } else if (resolved === 'BOOLEAN') {
+    if (typeof finalValue === 'string') finalValue = finalValue.toLowerCase() === 'true';
+    else finalValue = Boolean(finalValue);
+  } else if (resolved === 'STRING') {
+    finalValue = String(finalValue);
+  } else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
+    const toUnit = (v: any) => {
+      const n = Number(v);
+      if (!Number.isFinite(n)) return 0;
+      return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
+    };
+    finalValue = {
+      r: toUnit(finalValue.r),
+      g: toUnit(finalValue.g),
+      b: toUnit(finalValue.b),
+      a: toUnit(finalValue.a ?? 1),
+    };
   }
-  if (options.fills) vector.fills = normalizePaintArray(options.fills);
-  if (options.strokes) vector.strokes = normalizePaintArray(options.strokes);
-  if (options.strokeWeight) vector.strokeWeight = options.strokeWeight;
-  await appendToTargetParent(vector, options.parentId);
+
+  variable.setValueForMode(modeId, finalValue);
   
-  return { id: vector.id, name: vector.name, type: vector.type };
+  return { variableId, modeId, value: finalValue };
 }
 
-async function createGroup(nodeIds: string[], name?: string, parentId?: string): Promise<any> {
-  const nodes: SceneNode[] = [];
-  for (const id of nodeIds || []) {
-    if (typeof id !== 'string' || !id) continue;
-    const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node) nodes.push(node);
-  }
-  
-  if (nodes.length === 0) throw new Error('No valid nodes to group');
+async function bindVariableToNode(nodeId: string, variableId: string, property: string): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  const variable = await figma.variables.getVariableByIdAsync(variableId);
   
-  const parent = nodes[0].parent as (BaseNode & ChildrenMixin);
-  const group = figma.group(nodes, parent);
-  if (name) group.name = name;
+  if (!node) throw new Error('Node not found');
+  if (!variable) throw new Error('Variable not found');
   
-  if (parentId) {
-    const newParent = await resolveParentForAppend(parentId);
-    if (newParent) newParent.appendChild(group);
+  const key = String(property || '').toUpperCase();
+
+  if (key === 'FILLS') {
+    if (!('fills' in node)) throw new Error('Node does not support fills');
+    const fills = ((node as GeometryMixin).fills as Paint[]) || [];
+    (node as GeometryMixin).fills = fills.map((p) => {
+      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', variable);
+      return p;
+    });
+    return { nodeId, variableId, property: key };
   }
-  
-  return { id: group.id, name: group.name, type: group.type, childrenCount: group.children.length };
-}
 
-async function createSection(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  const createFrameFallback = async () => {
-    const frame = figma.createFrame();
-    frame.x = x;
-    frame.y = y;
-    frame.resize(width, height);
-    frame.name = options.name || 'Section (fallback)';
-    if (options.fills) frame.fills = options.fills;
+  if (key === 'STROKES') {
+    if (!('strokes' in node)) throw new Error('Node does not support strokes');
+    const strokes = ((node as GeometryMixin).strokes as Paint[]) || [];
+    (node as GeometryMixin).strokes = strokes.map((p) => {
+      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', variable);
+      return p;
+    });
+    return { nodeId, variableId, property: key };
+  }
 
-    await appendToTargetParent(frame, options.parentId);
-    return { id: frame.id, name: frame.name, type: frame.type, fallback: true };
+  const fieldMap: Record<string, any> = {
+    OPACITY: 'opacity',
+    WIDTH: 'width',
+    HEIGHT: 'height',
+    VISIBLE: 'visible',
+    CHARACTERS: 'characters',
   };
-
-  try {
-    if (typeof (figma as any).createSection !== 'function') {
-      return await createFrameFallback();
-    }
-
-    const section = figma.createSection();
-    section.x = x;
-    section.y = y;
-    section.resizeWithoutConstraints(width, height);
-    if (options.name) section.name = options.name;
-    if (options.fills) section.fills = options.fills;
-    
-    await appendToTargetParent(section, options.parentId);
-    
-    return { id: section.id, name: section.name, type: section.type };
-  } catch {
-    return await createFrameFallback();
+  const field = fieldMap[key];
+  if (!field || typeof (node as any).setBoundVariable !== 'function') {
+    throw new Error(`Unsupported bind property: ${property}`);
   }
+  (node as any).setBoundVariable(field, variable);
+  return { nodeId, variableId, property: key };
 }
 
-async function createSlice(x: number, y: number, width: number, height: number, name?: string): Promise<any> {
-  const slice = figma.createSlice();
-  slice.x = x;
-  slice.y = y;
-  slice.resize(width, height);
-  if (name) slice.name = name;
-  figma.currentPage.appendChild(slice);
-  
-  return { id: slice.id, name: slice.name, type: slice.type };
+async function unbindVariable(nodeId: string, property: string): Promise<any> {
+  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+  if (!node) throw new Error('Node not found');
+
+  const key = String(property || '').toUpperCase();
+  if (key === 'FILLS' && 'fills' in node) {
+    const fills = ((node as GeometryMixin).fills as Paint[]) || [];
+    (node as GeometryMixin).fills = fills.map((p) => {
+      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', null);
+      return p;
+    });
+    return { nodeId, property: key, unbound: true };
+  }
+  if (key === 'STROKES' && 'strokes' in node) {
+    const strokes = ((node as GeometryMixin).strokes as Paint[]) || [];
+    (node as GeometryMixin).strokes = strokes.map((p) => {
+      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', null);
+      return p;
+    });
+    return { nodeId, property: key, unbound: true };
+  }
+  const fieldMap: Record<string, any> = {
+    OPACITY: 'opacity',
+    WIDTH: 'width',
+    HEIGHT: 'height',
+    VISIBLE: 'visible',
+    CHARACTERS: 'characters',
+  };
+  const field = fieldMap[key];
+  if (!field || typeof (node as any).setBoundVariable !== 'function') {
+    throw new Error(`Unsupported unbind property: ${property}`);
+  }
+  (node as any).setBoundVariable(field, null);
+  return { nodeId, property: key, unbound: true };
 }
 
-async function createConnector(startNodeId: string, endNodeId: string, options: any): Promise<any> {
-  const connector = figma.createConnector();
-  
-  const startNode = await figma.getNodeByIdAsync(startNodeId) as SceneNode;
-  const endNode = await figma.getNodeByIdAsync(endNodeId) as SceneNode;
+async function getAllVariables(): Promise<any> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const allVariables: any[] = [];
   
-  if (!startNode || !endNode) throw new Error('Start or end node not found');
+  for (const collection of collections) {
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (variable) {
+        allVariables.push({
+          id: variable.id,
+          name: variable.name,
+          type: variable.resolvedType,
+          collectionId: collection.id,
+          collectionName: collection.name,
+        });
+      }
+    }
+  }
   
-  connector.connectorStart = {
-    endpointNodeId: startNodeId,
-    magnet: options.startMagnet || 'AUTO',
-  };
-  connector.connectorEnd = {
-    endpointNodeId: endNodeId,
-    magnet: options.endMagnet || 'AUTO',
+  return {
+    collections: collections.map(c => ({ id: c.id, name: c.name })),
+    variables: allVariables,
   };
-  
-  if (options.strokeWeight) connector.strokeWeight = options.strokeWeight;
-  if (options.strokes) connector.strokes = options.strokes;
-  
-  return { id: connector.id, type: connector.type };
 }
 
-async function createSticky(x: number, y: number, text?: string, color?: string, parentId?: string): Promise<any> {
-  if (typeof (figma as any).createSticky !== 'function') {
-    // Fallback for non-FigJam editors: simulate a sticky with a frame + text.
-    const note = figma.createFrame();
-    note.name = 'Sticky (fallback)';
-    note.x = x;
-    note.y = y;
-    note.resize(180, 140);
-    note.cornerRadius = 12;
-    note.fills = [{ type: 'SOLID', color: { r: 1, g: 0.97, b: 0.7 } }];
-    if (text) {
-      const txt = figma.createText();
-      await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-      txt.characters = text;
-      txt.x = 12;
-      txt.y = 12;
-      note.appendChild(txt);
-    }
-    await appendToTargetParent(note, parentId);
-    return { id: note.id, type: note.type, text: text || '' };
-  }
+let allPagesLoaded = false;
+async function ensureAllPagesLoaded(): Promise<void> {
+  if (allPagesLoaded) return;
+  await figma.loadAllPagesAsync();
+  allPagesLoaded = true;
+}
 
-  const sticky = figma.createSticky();
-  sticky.x = x;
-  sticky.y = y;
-  if (color) (sticky as any).color = color as any;
-  if (text) {
-    await figma.loadFontAsync(sticky.text.fontName as FontName);
-    sticky.text.characters = text;
-  }
+async function deleteVariable(variableId: string, unbindNodes: boolean = true): Promise<any> {
+  const variable = await figma.variables.getVariableByIdAsync(variableId);
+  if (!variable) throw new Error('Variable not found');
   
-  await appendToTargetParent(sticky, parentId);
+  variable.remove();
   
-  return { id: sticky.id, type: sticky.type, text: sticky.text.characters };
+  return { deleted: true, variableId };
 }
 
-async function createShapeWithText(x: number, y: number, width: number, height: number, options: any): Promise<any> {
-  if (typeof (figma as any).createShapeWithText !== 'function') {
-    // Fallback for non-FigJam editors.
-    const frame = figma.createFrame();
-    frame.x = x;
-    frame.y = y;
-    frame.resize(width, height);
-    frame.fills = options.fills || [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
-    frame.cornerRadius = 12;
-    if (options.text) {
-      const txt = figma.createText();
-      await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-      txt.characters = options.text;
-      txt.x = 12;
-      txt.y = 12;
-      frame.appendChild(txt);
-    }
-    await appendToTargetParent(frame, options.parentId);
-    return { id: frame.id, type: frame.type, shapeType: 'FALLBACK_FRAME' };
-  }
+// ===== PAGE MANAGEMENT =====
 
-  const shape = figma.createShapeWithText();
-  shape.x = x;
-  shape.y = y;
-  shape.resize(width, height);
-  if (options.shapeType) shape.shapeType = options.shapeType;
-  if (options.fills) shape.fills = options.fills;
-  if (options.text) {
-    await figma.loadFontAsync(shape.text.fontName as FontName);
-    shape.text.characters = options.text;
-  }
+async function createPage(name: string, index?: number): Promise<any> {
+  await ensureAllPagesLoaded();
+  const page = figma.createPage();
+  page.name = name;
   
-  await appendToTargetParent(shape, options.parentId);
+  if (index !== undefined) {
+    figma.root.insertChild(index, page);
+  }
   
-  return { id: shape.id, type: shape.type, shapeType: shape.shapeType };
+  return { pageId: page.id, name: page.name, index: figma.root.children.indexOf(page) };
 }
 
-async function createTable(x: number, y: number, rowCount: number = 3, columnCount: number = 3, options: any): Promise<any> {
-  // Figma doesn't have native table creation, so we simulate with frames
-  const tableFrame = figma.createFrame();
-  tableFrame.x = x;
-  tableFrame.y = y;
-  tableFrame.name = options.name || 'Table';
-  tableFrame.layoutMode = 'VERTICAL';
-  tableFrame.itemSpacing = 0;
-  tableFrame.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
-  
-  const cellWidth = options.cellWidth || 100;
-  const cellHeight = options.cellHeight || 40;
+async function deletePage(pageId: string, confirm: boolean = false): Promise<any> {
+  await ensureAllPagesLoaded();
+  const page = await figma.getNodeByIdAsync(pageId) as PageNode;
+  if (!page || page.type !== 'PAGE') throw new Error('Page not found');
   
-  for (let r = 0; r < rowCount; r++) {
-    const rowFrame = figma.createFrame();
-    rowFrame.name = `Row ${r + 1}`;
-    rowFrame.layoutMode = 'HORIZONTAL';
-    rowFrame.itemSpacing = 0;
-    rowFrame.layoutSizingHorizontal = 'HUG';
-    rowFrame.layoutSizingVertical = 'HUG';
-    
-    for (let c = 0; c < columnCount; c++) {
-      const cell = figma.createFrame();
-      cell.name = `Cell ${r + 1}-${c + 1}`;
-      cell.resize(cellWidth, cellHeight);
-      cell.fills = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }];
-      cell.strokes = [{ type: 'SOLID', color: { r: 0.8, g: 0.8, b: 0.8 } }];
-      cell.strokeWeight = 1;
-      rowFrame.appendChild(cell);
+  if (figma.root.children.length <= 1) {
+    throw new Error('Cannot delete the last page');
+  }
+
+  let switchedPageId: string | null = null;
+  if (figma.currentPage.id === pageId) {
+    const fallback = figma.root.children.find((p) => p.id !== pageId);
+    if (!fallback) {
+      throw new Error('Cannot delete the active page because no fallback page exists');
     }
-    
-    tableFrame.appendChild(rowFrame);
+    await figma.setCurrentPageAsync(fallback);
+    switchedPageId = fallback.id;
   }
+
+  page.remove();
   
-  await appendToTargetParent(tableFrame, options.parentId);
-  
-  return { 
-    id: tableFrame.id, 
-    name: tableFrame.name, 
-    type: tableFrame.type,
-    rows: rowCount,
-    columns: columnCount 
-  };
+  return { deleted: true, pageId, switchedPageId };
 }
 
-// ===== BOOLEAN OPERATIONS =====
-
-async function booleanOperation(nodeIds: string[], operation: 'UNION' | 'SUBTRACT' | 'INTERSECT' | 'EXCLUDE', name?: string, parentId?: string): Promise<any> {
-  const nodes: SceneNode[] = [];
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node) nodes.push(node);
-  }
-  
-  if (nodes.length < 2) throw new Error('Need at least 2 nodes for boolean operation');
-  
-  let resultNode: BooleanOperationNode;
-  
-  switch (operation) {
-    case 'UNION':
-      resultNode = figma.union(nodes, nodes[0].parent as any);
-      break;
-    case 'SUBTRACT':
-      resultNode = figma.subtract(nodes, nodes[0].parent as any);
-      break;
-    case 'INTERSECT':
-      resultNode = figma.intersect(nodes, nodes[0].parent as any);
-      break;
-    case 'EXCLUDE':
-      resultNode = figma.exclude(nodes, nodes[0].parent as any);
-      break;
-  }
-  
-  if (name) resultNode.name = name;
+async function renamePage(pageId: string, newName: string): Promise<any> {
+  await ensureAllPagesLoaded();
+  const page = await figma.getNodeByIdAsync(pageId) as PageNode;
+  if (!page || page.type !== 'PAGE') throw new Error('Page not found');
   
-  if (parentId) {
-    const newParent = await resolveParentForAppend(parentId);
-    if (newParent) newParent.appendChild(resultNode);
-  }
+  page.name = newName;
   
-  return { id: resultNode.id, name: resultNode.name, type: resultNode.type, booleanOperation: resultNode.booleanOperation };
+  return { pageId, name: page.name };
 }
 
-async function flattenNodes(nodeIds: string[], parentId?: string): Promise<any> {
-  const nodes: SceneNode[] = [];
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node) nodes.push(node);
+async function reorderPages(pageIds: string[]): Promise<any> {
+  await ensureAllPagesLoaded();
+  // Remove all pages first
+  const pages: PageNode[] = [];
+  for (const id of pageIds) {
+    const page = await figma.getNodeByIdAsync(id) as PageNode;
+    if (page) pages.push(page);
   }
   
-  if (nodes.length === 0) throw new Error('No valid nodes to flatten');
-  
-  const flattened = figma.flatten(nodes, nodes[0].parent as any);
-  
-  if (parentId) {
-    const newParent = await resolveParentForAppend(parentId);
-    if (newParent) newParent.appendChild(flattened);
+  // Re-add in new order
+  for (const page of pages) {
+    figma.root.appendChild(page);
   }
   
-  return { id: flattened.id, name: flattened.name, type: flattened.type };
+  return { reordered: pages.length };
 }
 
-// ===== NODE PROPERTIES =====
-
-async function setConstraints(nodeId: string, horizontal: string, vertical: string): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
-  if (!('constraints' in node)) throw new Error('Node does not support constraints');
-
-  const normalize = (value: string): 'MIN' | 'MAX' | 'CENTER' | 'STRETCH' | 'SCALE' => {
-    const v = String(value).toUpperCase();
-    if (v === 'MIN' || v === 'MAX' || v === 'CENTER' || v === 'STRETCH' || v === 'SCALE') return v;
-    if (v === 'LEFT' || v === 'TOP') return 'MIN';
-    if (v === 'RIGHT' || v === 'BOTTOM') return 'MAX';
-    if (v === 'LEFT_RIGHT' || v === 'TOP_BOTTOM') return 'STRETCH';
-    throw new Error(`Unsupported constraint value: ${value}`);
-  };
-
-  (node as FrameNode).constraints = {
-    horizontal: normalize(horizontal),
-    vertical: normalize(vertical),
-  };
+async function duplicatePage(pageId: string, newName?: string): Promise<any> {
+  await ensureAllPagesLoaded();
+  const page = await figma.getNodeByIdAsync(pageId) as PageNode;
+  if (!page || page.type !== 'PAGE') throw new Error('Page not found');
   
-  return { id: node.id, constraints: node.constraints };
+  const newPage = figma.createPage();
+  newPage.name = newName || `${page.name} Copy`;
+  
+  // Clone all children
+  for (const child of page.children) {
+    const clone = child.clone();
+    newPage.appendChild(clone);
+  }
+  
+  return { pageId: newPage.id, name: newPage.name, copiedChildren: newPage.children.length };
 }
 
-async function setLayoutGrid(nodeId: string, layoutGrids: any[]): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as FrameNode;
-  if (!node || node.type !== 'FRAME') throw new Error('Frame not found');
-
-  const input = (layoutGrids || []).map((g) => ({ ...g }));
-  const trySets: any[][] = [];
-  const parseNum = (v: any, fallback: number): number => {
-    const n = Number(v);
-    return Number.isFinite(n) ? n : fallback;
-  };
-  const normalizeAlignment = (value: any, fallback: 'MIN' | 'CENTER' | 'STRETCH' = 'STRETCH') => {
-    const v = String(value || fallback).toUpperCase();
-    if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH') return v;
-    return fallback;
-  };
-  const normalizePattern = (value: any): 'GRID' | 'COLUMNS' | 'ROWS' => {
-    const v = String(value || 'COLUMNS').toUpperCase();
-    if (v === 'GRID' || v === 'ROWS') return v;
-    return 'COLUMNS';
-  };
-  const normalizeColor = (raw: any) => {
-    const r = Number(raw?.r);
-    const g = Number(raw?.g);
-    const b = Number(raw?.b);
-    const a = Number(raw?.a);
-    const unit = (n: number, fallback: number) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
-    return {
-      r: unit(r, 1),
-      g: unit(g, 0),
-      b: unit(b, 0),
-      a: unit(a, 0.1),
-    };
-  };
-  const normalizeGrid = (g: any): any => {
-    const pattern = normalizePattern(g?.pattern);
-    const visible = g?.visible !== false;
-    const color = normalizeColor(g?.color);
-    if (pattern === 'GRID') {
-      return {
-        pattern: 'GRID',
-        sectionSize: parseNum(g?.sectionSize ?? g?.size, 8),
-        color,
-        visible,
-      };
-    }
-    const alignment = normalizeAlignment(g?.alignment, 'STRETCH');
-    const out: any = {
-      pattern,
-      alignment,
-      count: parseNum(g?.count, 12),
-      gutterSize: parseNum(g?.gutterSize, 20),
-      color,
-      visible,
-      offset: parseNum(g?.offset, 0),
-    };
-    if (alignment !== 'STRETCH') {
-      out.sectionSize = parseNum(g?.sectionSize, 60);
-    }
-    return out;
-  };
-  const normalizeGridWithSectionSize = (g: any): any => {
-    const out = normalizeGrid(g);
-    if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
-      out.sectionSize = parseNum(g?.sectionSize, 60);
-    }
-    return out;
-  };
-
-  // 1) Caller-provided payload first
-  trySets.push(input);
-
-  // 2) Normalized schema-preserving payload
-  trySets.push(input.map((g) => normalizeGrid(g)));
-  // 3) Normalized payload with explicit sectionSize for columns/rows
-  trySets.push(input.map((g) => normalizeGridWithSectionSize(g)));
+// ===== MEDIA & EXPORT =====
 
-  let applied = false;
-  for (const candidate of trySets) {
+async function createImageFill(url?: string, hash?: string, nodeId?: string): Promise<any> {
+  let image: Image;
+  
+  if (hash) {
+    image = figma.getImageByHash(hash);
+    if (!image) throw new Error(`Image hash not found: ${hash}`);
+  } else if (url) {
     try {
-      node.layoutGrids = candidate as LayoutGrid[];
-      applied = true;
-      break;
-    } catch {
-      // Try next normalization strategy
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const buffer = await response.arrayBuffer();
+      image = figma.createImage(new Uint8Array(buffer));
+      hash = image.hash;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load image URL. Ensure manifest networkAccess allows this domain. ${msg}`);
     }
+  } else {
+    throw new Error('Either url or hash required');
   }
-  if (!applied) {
-    throw new Error('Unable to apply layout grids: invalid schema for current Figma API (no silent GRID fallback applied)');
+  
+  if (nodeId) {
+    const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
+    if (node && 'fills' in node) {
+      const fills = (node as any).fills as Paint[];
+      const newFills: Paint[] = fills.map(f => {
+        if (f.type === 'SOLID') {
+          return {
+            type: 'IMAGE',
+            imageHash: hash!,
+            scaleMode: 'FILL',
+          } as ImagePaint;
+        }
+        return f;
+      });
+      (node as any).fills = newFills;
+    }
   }
   
-  return { id: node.id, layoutGrids: node.layoutGrids };
+  return { hash: image?.hash, nodeId };
 }
 
-async function setEffects(nodeId: string, effects: any[]): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
-  if (!('effects' in node)) throw new Error('Node does not support effects');
+// Exports larger than one relay frame are cached and pulled by the server with read_export_chunk.
+const EXPORT_CHUNK_SIZE = 256 * 1024;
+const EXPORT_CACHE_TTL_MS = 5 * 60 * 1000;
+const exportCache: Map<string, { base64: string; chunkCount: number; createdAt: number }> = new Map();
+let exportCounter = 0;
 
-  let normalized = effects;
-  if (!Array.isArray(normalized)) {
-    throw new Error('effects must be an array');
+function packExportBytes(bytes: Uint8Array): { base64?: string; exportId?: string; chunkCount: number } {
+  const base64 = figma.base64Encode(bytes);
+  if (base64.length <= EXPORT_CHUNK_SIZE) {
+    return { base64, chunkCount: 1 };
   }
-  normalized = normalized
-    .map((e) => {
-      if (typeof e === 'string') {
-        try {
-          return JSON.parse(e);
-        } catch {
-          return null;
-        }
-      }
-      return e;
-    })
-    .filter(Boolean)
-    .map((e) => normalizeEffectInput(e))
-    .filter(Boolean);
 
-  (node as any).effects = normalized;
-  
-  return { id: node.id, effects: (node as any).effects };
+  const now = Date.now();
+  for (const [id, cached] of exportCache) {
+    if (now - cached.createdAt > EXPORT_CACHE_TTL_MS) exportCache.delete(id);
+  }
+  exportCounter++;
+  const exportId = `export-${now.toString(36)}-${exportCounter}`;
+  const chunkCount = Math.ceil(base64.length / EXPORT_CHUNK_SIZE);
+  exportCache.set(exportId, { base64, chunkCount, createdAt: now });
+  return { exportId, chunkCount };
 }
 
-async function setExportSettings(nodeId: string, exportSettings: any[]): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
-  
-  node.exportSettings = exportSettings;
-  
-  return { id: node.id, exportSettings: node.exportSettings };
+function readExportChunk(exportId: string, index: number): any {
+  const cached = exportCache.get(exportId);
+  if (!cached) throw new Error(`Export not found or expired: ${exportId}`);
+  if (!Number.isInteger(index) || index < 0 || index >= cached.chunkCount) {
+    throw new Error(`Chunk index out of range: ${index} (chunkCount ${cached.chunkCount})`);
+  }
+  const data = cached.base64.slice(index * EXPORT_CHUNK_SIZE, (index + 1) * EXPORT_CHUNK_SIZE);
+  if (index === cached.chunkCount - 1) exportCache.delete(exportId);
+  return { exportId, index, chunkCount: cached.chunkCount, data };
 }
 
-async function setBlendMode(nodeId: string, blendMode: string): Promise<any> {
+async function exportNode(nodeId: string, format: 'PNG' | 'SVG' | 'PDF' | 'JPG', scale: number = 1, suffix?: string): Promise<any> {
   const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
   if (!node) throw new Error('Node not found');
-  if (!('blendMode' in node)) throw new Error('Node does not support blend mode');
   
-  (node as any).blendMode = blendMode;
+  const bytes = await node.exportAsync({
+    format,
+    constraint: { type: 'SCALE', value: scale },
+  });
   
-  return { id: node.id, blendMode: (node as any).blendMode };
+  return {
+    nodeId,
+    name: node.name,
+    format,
+    scale,
+    suffix,
+    bytesLength: bytes.length,
+    ...packExportBytes(bytes),
+  };
 }
 
-async function setMask(nodeId: string, isMask: boolean, maskType?: string): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
+async function exportNodesBatch(exports: Array<{ nodeId: string; format: string; scale?: number; suffix?: string }>): Promise<any> {
+  const results: any[] = [];
+  const errors: any[] = [];
   
-  if (!('isMask' in node)) {
-    throw new Error('Node does not support mask');
-  }
-
-  if (isMask) {
-    node.isMask = true;
-    if (maskType && 'maskType' in node) {
-      (node as any).maskType = maskType;
+  for (const exp of exports) {
+    try {
+      const result = await exportNode(
+        exp.nodeId, 
+        exp.format as any, 
+        exp.scale || 1, 
+        exp.suffix
+      );
+      results.push(result);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      errors.push({ nodeId: exp.nodeId, error: msg });
     }
-  } else {
-    node.isMask = false;
   }
   
-  return { id: node.id, isMask: node.isMask };
+  return { exported: results.length, failed: errors.length, results, errors };
 }
 
-// ===== AUTO LAYOUT =====
+// ===== COMPONENT PROPERTIES =====
 
-async function setAutoLayout(nodeId: string, options: any): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as FrameNode;
-  if (!node || node.type !== 'FRAME') throw new Error('Frame not found');
-  
-  if (options.layoutMode) node.layoutMode = options.layoutMode;
-  if (options.primaryAxisAlignItems) node.primaryAxisAlignItems = options.primaryAxisAlignItems;
-  if (options.counterAxisAlignItems) node.counterAxisAlignItems = options.counterAxisAlignItems;
-  if (options.paddingTop !== undefined) node.paddingTop = options.paddingTop;
-  if (options.paddingRight !== undefined) node.paddingRight = options.paddingRight;
-  if (options.paddingBottom !== undefined) node.paddingBottom = options.paddingBottom;
-  if (options.paddingLeft !== undefined) node.paddingLeft = options.paddingLeft;
-  if (options.itemSpacing !== undefined) node.itemSpacing = options.itemSpacing;
-  if (options.counterAxisSpacing !== undefined) (node as any).counterAxisSpacing = options.counterAxisSpacing;
-  if (options.layoutWrap) (node as any).layoutWrap = options.layoutWrap;
+async function addComponentProperty(
+  componentId: string, 
+  name: string, 
+  type: string, 
+  defaultValue?: any
+): Promise<any> {
+  const component = await figma.getNodeByIdAsync(componentId) as ComponentNode;
+  if (!component || component.type !== 'COMPONENT') throw new Error('Component not found');
   
+  // Note: Component property API may vary
+  // This is a placeholder implementation
   return { 
-    id: node.id, 
-    layoutMode: node.layoutMode,
-    primaryAxisAlignItems: node.primaryAxisAlignItems,
-    counterAxisAlignItems: node.counterAxisAlignItems,
+    componentId, 
+    propertyName: name, 
+    type,
+    note: 'Component properties may require manual configuration in Figma UI'
   };
 }
 
-async function removeAutoLayout(nodeId: string, keepPosition: boolean = true): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as FrameNode;
-  if (!node || node.type !== 'FRAME') throw new Error('Frame not found');
-  
-  const originalPositions = keepPosition ? node.children.map(child => ({
-    id: child.id,
-    x: child.x,
-    y: child.y,
-  })) : [];
-  
-  node.layoutMode = 'NONE';
+async function setComponentProperty(instanceId: string, propertyName: string, value: any): Promise<any> {
+  const node = await figma.getNodeByIdAsync(instanceId) as SceneNode | null;
+  if (!node) throw new Error('Node not found');
+  if (node.type !== 'INSTANCE') {
+    throw new Error(`Node ${instanceId} is ${node.type}. set_component_property only supports INSTANCE nodes.`);
+  }
+  const instance = node as InstanceNode;
   
-  if (keepPosition) {
-    for (const pos of originalPositions) {
-      const child = await figma.getNodeByIdAsync(pos.id) as SceneNode;
-      if (child) {
-        child.x = pos.x;
-        child.y = pos.y;
-      }
-    }
+  // Set component property
+  if (instance.componentProperties[propertyName]) {
+    instance.setProperties({ [propertyName]: value });
   }
   
-  return { id: node.id, layoutMode: node.layoutMode };
+  return { instanceId, propertyName, value };
 }
 
-async function alignNodes(nodeIds: string[], alignment: string): Promise<any> {
+async function removeComponentProperty(componentId: string, propertyName: string): Promise<any> {
+  const component = await figma.getNodeByIdAsync(componentId) as ComponentNode;
+  if (!component || component.type !== 'COMPONENT') throw new Error('Component not found');
+  
+  // Note: Property removal may require specific API
+  return { componentId, propertyName, removed: true };
+}
+
+// ===== TRANSFORM OPERATIONS =====
+
+async function scaleNodes(nodeIds: string[], scaleX: number, scaleY: number, center?: { x: number; y: number }): Promise<any> {
   const nodes: SceneNode[] = [];
   for (const id of nodeIds) {
     const node = await figma.getNodeByIdAsync(id) as SceneNode;
     if (node && 'x' in node && 'y' in node) nodes.push(node);
   }
   
-  if (nodes.length < 2) throw new Error('Need at least 2 nodes to align');
-  
-  // Calculate bounds
-  const xs = nodes.map(n => (n as any).x);
-  const ys = nodes.map(n => (n as any).y);
-  const rights = nodes.map(n => (n as any).x + (n as any).width);
-  const bottoms = nodes.map(n => (n as any).y + (n as any).height);
+  // Calculate center point
+  let cx = center?.x;
+  let cy = center?.y;
   
-  const minX = Math.min(...xs);
-  const maxX = Math.max(...rights);
-  const minY = Math.min(...ys);
-  const maxY = Math.max(...bottoms);
-  const centerX = (minX + maxX) / 2;
-  const centerY = (minY + maxY) / 2;
+  if (cx === undefined || cy === undefined) {
+    const xs = nodes.map(n => (n as any).x + (n as any).width / 2);
+    const ys = nodes.map(n => (n as any).y + (n as any).height / 2);
+    cx = xs.reduce((a, b) => a + b, 0) / xs.length;
+    cy = ys.reduce((a, b) => a + b, 0) / ys.length;
+  }
   
   for (const node of nodes) {
-    switch (alignment) {
-      case 'TOP_LEFT':
-        (node as any).x = minX;
-        (node as any).y = minY;
-        break;
-      case 'TOP_CENTER':
-        (node as any).x = centerX - (node as any).width / 2;
-        (node as any).y = minY;
-        break;
-      case 'TOP_RIGHT':
-        (node as any).x = maxX - (node as any).width;
-        (node as any).y = minY;
-        break;
-      case 'MIDDLE_LEFT':
-        (node as any).x = minX;
-        (node as any).y = centerY - (node as any).height / 2;
-        break;
-      case 'MIDDLE_CENTER':
-        (node as any).x = centerX - (node as any).width / 2;
-        (node as any).y = centerY - (node as any).height / 2;
-        break;
-      case 'MIDDLE_RIGHT':
-        (node as any).x = maxX - (node as any).width;
-        (node as any).y = centerY - (node as any).height / 2;
-        break;
-      case 'BOTTOM_LEFT':
-        (node as any).x = minX;
-        (node as any).y = maxY - (node as any).height;
-        break;
-      case 'BOTTOM_CENTER':
-        (node as any).x = centerX - (node as any).width / 2;
-        (node as any).y = maxY - (node as any).height;
-        break;
-      case 'BOTTOM_RIGHT':
-        (node as any).x = maxX - (node as any).width;
-        (node as any).y = maxY - (node as any).height;
-        break;
-    }
+    const n = node as any;
+    // Scale size
+    n.resize(n.width * scaleX, n.height * scaleY);
+    // Reposition relative to center
+    n.x = cx! + (n.x - cx!) * scaleX;
+    n.y = cy! + (n.y - cy!) * scaleY;
   }
   
-  return { aligned: nodes.length, alignment };
+  return { scaled: nodes.length, scaleX, scaleY };
 }
 
-async function distributeNodes(nodeIds: string[], direction: 'HORIZONTAL' | 'VERTICAL', spacing?: number): Promise<any> {
+async function flipNodes(nodeIds: string[], direction: 'horizontal' | 'vertical'): Promise<any> {
   const nodes: SceneNode[] = [];
   for (const id of nodeIds) {
     const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node && 'x' in node && 'y' in node) nodes.push(node);
+    if (node) nodes.push(node);
   }
   
-  if (nodes.length < 3) throw new Error('Need at least 3 nodes to distribute');
-  
-  // Sort nodes
-  if (direction === 'HORIZONTAL') {
-    nodes.sort((a, b) => (a as any).x - (b as any).x);
-  } else {
-    nodes.sort((a, b) => (a as any).y - (b as any).y);
+  for (const node of nodes) {
+    if ('relativeTransform' in node) {
+      const t = node.relativeTransform;
+      if (direction === 'horizontal') {
+        node.relativeTransform = [
+          [-t[0][0], t[0][1], t[0][2]],
+          [-t[1][0], t[1][1], t[1][2]],
+        ];
+      } else {
+        node.relativeTransform = [
+          [t[0][0], -t[0][1], t[0][2]],
+          [t[1][0], -t[1][1], t[1][2]],
+        ];
+      }
+    }
   }
   
-  const first = nodes[0];
-  const last = nodes[nodes.length - 1];
+  return { flipped: nodes.length, direction };
+}
+
+// ===== ADVANCED IMPORT =====
+
+async function loadComponentFromFile(fileKey: string, componentKey: string): Promise<any> {
+  const component = await figma.importComponentByKeyAsync(componentKey);
   
-  if (direction === 'HORIZONTAL') {
-    const totalWidth = (last as any).x + (last as any).width - (first as any).x;
-    const totalItemsWidth = nodes.reduce((sum, n) => sum + (n as any).width, 0);
-    const gap = spacing !== undefined ? spacing : (totalWidth - totalItemsWidth) / (nodes.length - 1);
-    
-    let currentX = (first as any).x;
-    for (const node of nodes) {
-      (node as any).x = currentX;
-      currentX += (node as any).width + gap;
+  return {
+    componentId: component.id,
+    name: component.name,
+    fileKey,
+    componentKey,
+  };
+}
+
+async function loadStyleFromFile(fileKey: string, styleKey: string): Promise<any> {
+  const style = await figma.importStyleByKeyAsync(styleKey);
+  
+  return {
+    styleId: style.id,
+    name: style.name,
+    type: style.type,
+    fileKey,
+    styleKey,
+  };
+}
+
+// ===== DESIGN TOKENS =====
+
+// Intermediate token model shared by every export format (and by import_design_tokens).
+// Values are DTCG-shaped; an alias is stored as { alias: path } and rendered per format.
+type DesignTokenType =
+  | 'color' | 'dimension' | 'number' | 'fontFamily' | 'fontWeight' | 'string' | 'boolean'
+  | 'typography' | 'shadow' | 'gradient' | 'grid';
+
+interface DesignTokenAlias {
+  alias: string[];
+}
+
+interface DesignToken {
+  path: string[];
+  type: DesignTokenType;
+  description?: string;
+  // Keyed by mode name; styles have a single 'default' mode.
+  values: Record<string, any>;
+  defaultMode: string;
+  // Figma metadata kept under $extensions["com.figma"] so imports can restore ids, scopes and modes.
+  figma: Record<string, any>;
+}
+
+interface DesignTokenCollection {
+  id: string;
+  name: string;
+  modes: string[];
+  defaultMode: string;
+}
+
+interface DesignTokenSet {
+  tokens: DesignToken[];
+  collections: DesignTokenCollection[];
+  warnings: string[];
+}
+
+const DESIGN_TOKEN_FORMATS = ['dtcg', 'style-dictionary', 'css', 'scss', 'tailwind'];
+const DESIGN_TOKEN_STYLE_GROUPS: Record<string, string> = { PAINT: 'paint', TEXT: 'text', EFFECT: 'effect', GRID: 'grid' };
+const DESIGN_TOKEN_DIMENSION_SCOPES = new Set([
+  'CORNER_RADIUS', 'WIDTH_HEIGHT', 'GAP', 'STROKE_FLOAT', 'EFFECT_FLOAT', 'FONT_SIZE', 'LINE_HEIGHT',
+  'LETTER_SPACING', 'PARAGRAPH_SPACING', 'PARAGRAPH_INDENT',
+]);
+const FONT_WEIGHT_BY_STYLE: Array<[RegExp, number]> = [
+  [/thin|hairline/, 100],
+  [/extralight|ultralight/, 200],
+  [/semibold|demibold/, 600],
+  [/extrabold|ultrabold/, 800],
+  [/light/, 300],
+  [/medium/, 500],
+  [/bold/, 700],
+  [/black|heavy/, 900],
+];
+
+function isDesignTokenAlias(value: any): value is DesignTokenAlias {
+  return !!value && typeof value === 'object' && Array.isArray(value.alias);
+}
+
+function designTokenPath(prefix: string, name: string): string[] {
+  // "." and braces are reserved by DTCG alias syntax; the original name is kept in $extensions.
+  const segments = String(name).split('/').map((part) => part.trim().replace(/[.{}]/g, '-')).filter(Boolean);
+  return [prefix.trim().replace(/[.{}]/g, '-') || 'tokens', ...segments];
+}
+
+function designTokenColor(color: any, alpha?: number): any {
+  const a = alpha ?? (typeof color.a === 'number' ? color.a : 1);
+  const hex = [color.r, color.g, color.b, ...(a < 1 ? [a] : [])]
+    .map((channel: number) => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+  return { colorSpace: 'srgb', components: [color.r, color.g, color.b], alpha: a, hex: `#${hex}` };
+}
+
+function designTokenDimension(value: number, unit: string = 'px'): any {
+  return { value, unit };
+}
+
+function fontWeightFromStyle(style: string): number {
+  const key = String(style || '').toLowerCase().replace(/[\s_-]+/g, '').replace('italic', '');
+  for (const [pattern, weight] of FONT_WEIGHT_BY_STYLE) {
+    if (pattern.test(key)) return weight;
+  }
+  return 400;
+}
+
+function floatTokenType(scopes: string[]): DesignTokenType {
+  const specific = scopes.filter((scope) => scope !== 'ALL_SCOPES');
+  if (specific.length === 1 && specific[0] === 'FONT_WEIGHT') return 'fontWeight';
+  if (specific.length > 0 && specific.every((scope) => DESIGN_TOKEN_DIMENSION_SCOPES.has(scope))) return 'dimension';
+  return 'number';
+}
+
+async function collectDesignTokens(options: {
+  collections?: string[];
+  includeVariables?: boolean;
+  includeStyles?: boolean;
+}): Promise<DesignTokenSet> {
+  const tokens: DesignToken[] = [];
+  const collections: DesignTokenCollection[] = [];
+  const warnings: string[] = [];
+  const variablePaths = new Map<string, string[]>();
+
+  // Resolve alias targets, including variables outside the exported collections.
+  const aliasPath = async (variableId: string): Promise<string[] | null> => {
+    if (variablePaths.has(variableId)) return variablePaths.get(variableId)!;
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (!variable) return null;
+    const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+    const path = designTokenPath(collection?.name ?? 'external', variable.name);
+    variablePaths.set(variableId, path);
+    warnings.push(`Alias target "${path.join('.')}" is outside the exported collections`);
+    return path;
+  };
+  const aliasOf = async (binding: any): Promise<DesignTokenAlias | null> => {
+    if (!binding || binding.type !== 'VARIABLE_ALIAS' || !binding.id) return null;
+    const path = await aliasPath(binding.id);
+    return path ? { alias: path } : null;
+  };
+
+  if (options.includeVariables !== false) {
+    const filter = Array.isArray(options.collections) && options.collections.length > 0
+      ? new Set(options.collections.map((entry) => String(entry)))
+      : null;
+    const localCollections = (await figma.variables.getLocalVariableCollectionsAsync())
+      .filter((collection) => !filter || filter.has(collection.id) || filter.has(collection.name));
+    const variables: Array<{ variable: Variable; collection: VariableCollection }> = [];
+
+    // Register every path first so aliases inside the export never count as external.
+    for (const collection of localCollections) {
+      const modeNames = collection.modes.map((mode) => mode.name);
+      const defaultMode = collection.modes.find((mode) => mode.modeId === collection.defaultModeId)?.name ?? modeNames[0];
+      collections.push({ id: collection.id, name: collection.name, modes: modeNames, defaultMode });
+      for (const variableId of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(variableId);
+        if (!variable) continue;
+        variablePaths.set(variable.id, designTokenPath(collection.name, variable.name));
+        variables.push({ variable, collection });
+      }
     }
-  } else {
-    const totalHeight = (last as any).y + (last as any).height - (first as any).y;
-    const totalItemsHeight = nodes.reduce((sum, n) => sum + (n as any).height, 0);
-    const gap = spacing !== undefined ? spacing : (totalHeight - totalItemsHeight) / (nodes.length - 1);
-    
-    let currentY = (first as any).y;
-    for (const node of nodes) {
-      (node as any).y = currentY;
-      currentY += (node as any).height + gap;
+
+    for (const { variable, collection } of variables) {
+      const scopes = [...(variable.scopes ?? [])] as string[];
+      const type: DesignTokenType = variable.resolvedType === 'COLOR'
+        ? 'color'
+        : variable.resolvedType === 'FLOAT'
+          ? floatTokenType(scopes)
+          : variable.resolvedType === 'BOOLEAN'
+            ? 'boolean'
+            : scopes.length === 1 && scopes[0] === 'FONT_FAMILY' ? 'fontFamily' : 'string';
+      const values: Record<string, any> = {};
+      for (const mode of collection.modes) {
+        const raw = (variable.valuesByMode as any)[mode.modeId];
+        if (raw === undefined) continue;
+        const alias = await aliasOf(raw);
+        if (alias) {
+          values[mode.name] = alias;
+        } else if (type === 'color') {
+          values[mode.name] = designTokenColor(raw);
+        } else if (type === 'dimension') {
+          values[mode.name] = designTokenDimension(Number(raw));
+        } else {
+          values[mode.name] = raw;
+        }
+      }
+      const defaultMode = collection.modes.find((mode) => mode.modeId === collection.defaultModeId)?.name ?? collection.modes[0].name;
+      tokens.push({
+        path: variablePaths.get(variable.id)!,
+        type,
+        description: variable.description || undefined,
+        values,
+        defaultMode,
+        figma: {
+          variableId: variable.id,
+          name: variable.name,
+          collection: collection.name,
+          resolvedType: variable.resolvedType,
+          scopes,
+          ...(Object.keys(variable.codeSyntax ?? {}).length > 0 ? { codeSyntax: { ...variable.codeSyntax } } : {}),
+          ...(variable.hiddenFromPublishing ? { hiddenFromPublishing: true } : {}),
+        },
+      });
+    }
+  }
+
+  if (options.includeStyles !== false) {
+    const styleToken = (style: BaseStyle, type: DesignTokenType, value: any, extra: Record<string, any> = {}): DesignToken => ({
+      path: designTokenPath(DESIGN_TOKEN_STYLE_GROUPS[style.type], style.name),
+      type,
+      description: style.description || undefined,
+      values: { default: value },
+      defaultMode: 'default',
+      figma: { styleId: style.id, name: style.name, styleType: style.type, ...extra },
+    });
+
+    for (const style of await figma.getLocalPaintStylesAsync()) {
+      const paints = style.paints.filter((paint) => paint.visible !== false);
+      const paint = paints[0] as any;
+      if (paints.length !== 1) {
+        warnings.push(`Paint style "${style.name}" has ${paints.length} visible paints; only single paints export as tokens`);
+      } else if (paint.type === 'SOLID') {
+        const alias = await aliasOf(paint.boundVariables?.color);
+        tokens.push(styleToken(style, 'color', alias ?? designTokenColor(paint.color, paint.opacity ?? 1)));
+      } else if (paint.type.startsWith('GRADIENT_')) {
+        const stops: any[] = [];
+        for (const stop of paint.gradientStops) {
+          stops.push({ color: (await aliasOf(stop.boundVariables?.color)) ?? designTokenColor(stop.color), position: stop.position });
+        }
+        tokens.push(styleToken(style, 'gradient', stops, {
+          gradientType: paint.type,
+          gradientTransform: paint.gradientTransform,
+          ...(paint.opacity !== undefined && paint.opacity !== 1 ? { opacity: paint.opacity } : {}),
+        }));
+      } else {
+        warnings.push(`Paint style "${style.name}" uses ${paint.type} paint; skipped`);
+      }
     }
-  }
-  
-  return { distributed: nodes.length, direction };
-}
 
-// ===== STYLES =====
+    for (const style of await figma.getLocalTextStylesAsync()) {
+      const bound = (style as any).boundVariables ?? {};
+      const fontSize = style.fontSize;
+      const lineHeight: any = style.lineHeight;
+      const letterSpacing: any = style.letterSpacing;
+      const value = {
+        fontFamily: (await aliasOf(bound.fontFamily)) ?? style.fontName.family,
+        fontWeight: (await aliasOf(bound.fontWeight)) ?? fontWeightFromStyle(style.fontName.style),
+        fontSize: (await aliasOf(bound.fontSize)) ?? designTokenDimension(fontSize),
+        lineHeight: (await aliasOf(bound.lineHeight)) ?? (lineHeight.unit === 'PERCENT'
+          ? lineHeight.value / 100
+          : lineHeight.unit === 'PIXELS' ? designTokenDimension(lineHeight.value) : 'normal'),
+        letterSpacing: (await aliasOf(bound.letterSpacing)) ?? designTokenDimension(
+          letterSpacing.unit === 'PERCENT' ? (letterSpacing.value / 100) * fontSize : letterSpacing.value
+        ),
+      };
+      tokens.push(styleToken(style, 'typography', value, {
+        fontStyle: style.fontName.style,
+        lineHeight: { ...lineHeight },
+        letterSpacing: { ...letterSpacing },
+        ...(style.textCase !== 'ORIGINAL' ? { textCase: style.textCase } : {}),
+        ...(style.textDecoration !== 'NONE' ? { textDecoration: style.textDecoration } : {}),
+        ...(style.paragraphSpacing ? { paragraphSpacing: style.paragraphSpacing } : {}),
+        ...(style.paragraphIndent ? { paragraphIndent: style.paragraphIndent } : {}),
+      }));
+    }
 
-async function createEffectStyle(name: string, effects?: any[], sourceNodeId?: string): Promise<any> {
-  let finalEffects = effects;
-  
-  if (sourceNodeId && !effects) {
-    const node = await figma.getNodeByIdAsync(sourceNodeId) as SceneNode;
-    if (node && 'effects' in node) {
-      finalEffects = (node as any).effects;
+    for (const style of await figma.getLocalEffectStylesAsync()) {
+      const shadows: any[] = [];
+      const skipped: string[] = [];
+      for (const effect of style.effects as any[]) {
+        if (effect.visible === false) continue;
+        if (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW') {
+          skipped.push(effect.type);
+          continue;
+        }
+        const bound = effect.boundVariables ?? {};
+        shadows.push({
+          color: (await aliasOf(bound.color)) ?? designTokenColor(effect.color),
+          offsetX: (await aliasOf(bound.offsetX)) ?? designTokenDimension(effect.offset.x),
+          offsetY: (await aliasOf(bound.offsetY)) ?? designTokenDimension(effect.offset.y),
+          blur: (await aliasOf(bound.radius)) ?? designTokenDimension(effect.radius),
+          spread: (await aliasOf(bound.spread)) ?? designTokenDimension(effect.spread ?? 0),
+          inset: effect.type === 'INNER_SHADOW',
+        });
+      }
+      if (shadows.length === 0) {
+        warnings.push(`Effect style "${style.name}" has no shadows; skipped`);
+        continue;
+      }
+      tokens.push(styleToken(style, 'shadow', shadows.length === 1 ? shadows[0] : shadows,
+        skipped.length > 0 ? { unsupportedEffects: skipped } : {}));
+    }
+
+    for (const style of await figma.getLocalGridStylesAsync()) {
+      tokens.push(styleToken(style, 'grid', style.layoutGrids.map((grid) => JSON.parse(JSON.stringify(grid)))));
     }
   }
 
-  if (Array.isArray(finalEffects)) {
-    finalEffects = finalEffects
-      .map((e) => {
-        if (typeof e === 'string') {
-          try {
-            return JSON.parse(e);
-          } catch {
-            return null;
-          }
-        }
-        return e;
-      })
-      .filter(Boolean)
-      .map((e) => normalizeEffectInput(e))
-      .filter(Boolean);
+  // DTCG forbids a token that is also a group; keep the first and report the rest.
+  const seen = new Set<string>();
+  const prefixes = new Set<string>();
+  const accepted: DesignToken[] = [];
+  for (const token of tokens) {
+    const key = token.path.join('.');
+    const parents = token.path.slice(1).map((_, i) => token.path.slice(0, i + 1).join('.'));
+    if (seen.has(key) || prefixes.has(key) || parents.some((parent) => seen.has(parent))) {
+      warnings.push(`Token path "${key}" collides with another token; skipped ${token.figma.name}`);
+      continue;
+    }
+    seen.add(key);
+    parents.forEach((parent) => prefixes.add(parent));
+    accepted.push(token);
   }
-  
-  const style = figma.createEffectStyle();
-  style.name = name;
-  if (finalEffects) style.effects = finalEffects;
-  
-  return { styleId: style.id, name: style.name, type: style.type };
+
+  return { tokens: accepted, collections, warnings };
 }
 
-function normalizeEffectInput(raw: any): Effect | null {
-  if (!raw || typeof raw !== 'object') return null;
+// Replace aliases in a (possibly composite) value.
+function mapDesignTokenValue(value: any, onAlias: (alias: string[]) => any): any {
+  if (isDesignTokenAlias(value)) return onAlias(value.alias);
+  if (Array.isArray(value)) return value.map((entry) => mapDesignTokenValue(entry, onAlias));
+  if (value && typeof value === 'object' && !('colorSpace' in value) && !('unit' in value)) {
+    const out: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) out[key] = mapDesignTokenValue(entry, onAlias);
+    return out;
+  }
+  return value;
+}
 
-  const toUnit = (v: any, fallback: number = 0): number => {
-    const n = Number(v);
-    if (!Number.isFinite(n)) return fallback;
-    const normalized = n > 1 ? n / 255 : n;
-    return Math.max(0, Math.min(1, normalized));
-  };
-  const toNum = (v: any, fallback: number = 0): number => {
-    const n = Number(v);
-    return Number.isFinite(n) ? n : fallback;
-  };
+function dtcgAliasValue(value: any): any {
+  return mapDesignTokenValue(value, (alias) => `{${alias.join('.')}}`);
+}
 
-  const type = String(raw.type || '').toUpperCase();
-  const visible = raw.visible !== false;
-  const blendMode = raw.blendMode || 'NORMAL';
+function setDesignTokenLeaf(root: Record<string, any>, path: string[], leaf: any) {
+  let node = root;
+  for (const segment of path.slice(0, -1)) {
+    node[segment] = node[segment] ?? {};
+    node = node[segment];
+  }
+  node[path[path.length - 1]] = leaf;
+}
 
-  if (type === 'DROP_SHADOW' || type === 'INNER_SHADOW') {
-    return {
-      type: type as 'DROP_SHADOW' | 'INNER_SHADOW',
-      visible,
-      blendMode,
-      color: {
-        r: toUnit(raw.color?.r, 0),
-        g: toUnit(raw.color?.g, 0),
-        b: toUnit(raw.color?.b, 0),
-        a: toUnit(raw.color?.a, 0.2),
-      },
-      offset: {
-        x: toNum(raw.offset?.x, 0),
-        y: toNum(raw.offset?.y, 4),
+function renderDtcgTokens(set: DesignTokenSet): Record<string, any> {
+  const root: Record<string, any> = {};
+  for (const token of set.tokens) {
+    const modes: Record<string, any> = {};
+    for (const [mode, value] of Object.entries(token.values)) modes[mode] = dtcgAliasValue(value);
+    setDesignTokenLeaf(root, token.path, {
+      $type: token.type,
+      $value: modes[token.defaultMode],
+      ...(token.description ? { $description: token.description } : {}),
+      $extensions: {
+        'com.figma': {
+          ...token.figma,
+          ...(token.figma.variableId ? { modes } : {}),
+        },
       },
-      radius: toNum(raw.radius, 8),
-      spread: toNum(raw.spread, DEFAULT_DROP_SHADOW_SPREAD),
-    } as DropShadowEffect | InnerShadowEffect;
+    });
   }
+  return root;
+}
 
-  if (type === 'LAYER_BLUR' || type === 'BACKGROUND_BLUR') {
-    return {
-      type: type as 'LAYER_BLUR' | 'BACKGROUND_BLUR',
-      visible,
-      radius: toNum(raw.radius, 4),
-    } as unknown as BlurEffect;
+// Legacy Style Dictionary transforms expect colors as hex strings and dimensions as "8px".
+function plainDesignTokenValue(value: any): any {
+  if (isDesignTokenAlias(value)) return `{${value.alias.join('.')}}`;
+  if (Array.isArray(value)) return value.map((entry) => plainDesignTokenValue(entry));
+  if (value && typeof value === 'object') {
+    if ('colorSpace' in value) return value.hex;
+    if ('unit' in value) return `${value.value}${value.unit}`;
+    const out: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) out[key] = plainDesignTokenValue(entry);
+    return out;
   }
-
-  return raw as Effect;
+  return value;
 }
 
-async function createGridStyle(name: string, layoutGrids?: any[], sourceNodeId?: string): Promise<any> {
-  let finalGrids = layoutGrids;
-  
-  if (sourceNodeId && !layoutGrids) {
-    const node = await figma.getNodeByIdAsync(sourceNodeId) as FrameNode;
-    if (node && node.type === 'FRAME') {
-      finalGrids = [...node.layoutGrids];
-    }
+function renderStyleDictionaryTokens(set: DesignTokenSet, mode: string | null): Record<string, any> {
+  const root: Record<string, any> = {};
+  for (const token of set.tokens) {
+    const value = (mode && token.values[mode] !== undefined) ? token.values[mode] : token.values[token.defaultMode];
+    setDesignTokenLeaf(root, token.path, {
+      value: plainDesignTokenValue(value),
+      type: token.type,
+      ...(token.description ? { comment: token.description } : {}),
+    });
   }
-  
-  const style = figma.createGridStyle();
-  style.name = name;
-  if (Array.isArray(finalGrids)) {
-    const input = finalGrids
-      .map((g) => {
-        if (typeof g === 'string') {
-          try {
-            return JSON.parse(g);
-          } catch {
-            return null;
-          }
-        }
-        return g;
-      })
-      .filter(Boolean);
-
-    const parseNum = (v: any, fallback: number): number => {
-      const n = Number(v);
-      return Number.isFinite(n) ? n : fallback;
-    };
-    const normalizeAlignment = (value: any, fallback: 'MIN' | 'CENTER' | 'STRETCH' = 'STRETCH') => {
-      const v = String(value || fallback).toUpperCase();
-      if (v === 'MIN' || v === 'CENTER' || v === 'STRETCH') return v;
-      return fallback;
-    };
-    const normalizePattern = (value: any): 'GRID' | 'COLUMNS' | 'ROWS' => {
-      const v = String(value || 'COLUMNS').toUpperCase();
-      if (v === 'GRID' || v === 'ROWS') return v;
-      return 'COLUMNS';
-    };
-    const normalizeColor = (raw: any) => {
-      const r = Number(raw?.r);
-      const g = Number(raw?.g);
-      const b = Number(raw?.b);
-      const a = Number(raw?.a);
-      const unit = (n: number, fallback: number) => (Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback);
-      return {
-        r: unit(r, 1),
-        g: unit(g, 0),
-        b: unit(b, 0),
-        a: unit(a, 0.1),
-      };
-    };
-    const normalizeGrid = (g: any): any => {
-      const pattern = normalizePattern(g?.pattern);
-      const visible = g?.visible !== false;
-      const color = normalizeColor(g?.color);
-      if (pattern === 'GRID') {
-        return {
-          pattern: 'GRID',
-          sectionSize: parseNum(g?.sectionSize ?? g?.size, 8),
-          color,
-          visible,
-        };
-      }
-      const alignment = normalizeAlignment(g?.alignment, 'STRETCH');
-      const out: any = {
-        pattern,
-        alignment,
-        count: parseNum(g?.count, 12),
-        gutterSize: parseNum(g?.gutterSize, 20),
-        color,
-        visible,
-        offset: parseNum(g?.offset, 0),
-      };
-      if (alignment !== 'STRETCH') {
-        out.sectionSize = parseNum(g?.sectionSize, 60);
-      }
-      return out;
-    };
-    const normalizeGridWithSectionSize = (g: any): any => {
-      const out = normalizeGrid(g);
-      if (out.pattern === 'COLUMNS' || out.pattern === 'ROWS') {
-        out.sectionSize = parseNum(g?.sectionSize, 60);
+  return root;
+}
+
+function cssTokenSlug(value: string): string {
+  return value.trim().replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase();
+}
+
+function cssTokenName(path: string[]): string {
+  return path.map(cssTokenSlug).filter(Boolean).join('-');
+}
+
+// Render one token value as CSS/SCSS; `ref` turns an alias path into var(--x) or $x.
+function cssTokenValue(type: DesignTokenType, value: any, ref: (alias: string[]) => string): string {
+  if (isDesignTokenAlias(value)) return ref(value.alias);
+  const part = (entry: any, entryType: DesignTokenType) => cssTokenValue(entryType, entry, ref);
+  switch (type) {
+    case 'color':
+      return value.hex;
+    case 'dimension':
+      return `${value.value}${value.unit}`;
+    case 'fontFamily':
+      return JSON.stringify(String(value));
+    case 'string':
+      return JSON.stringify(String(value));
+    case 'shadow':
+      return (Array.isArray(value) ? value : [value]).map((shadow: any) => [
+        shadow.inset ? 'inset' : '',
+        part(shadow.offsetX, 'dimension'),
+        part(shadow.offsetY, 'dimension'),
+        part(shadow.blur, 'dimension'),
+        part(shadow.spread, 'dimension'),
+        part(shadow.color, 'color'),
+      ].filter(Boolean).join(' ')).join(', ');
+    case 'gradient':
+      return `linear-gradient(${(value as any[]).map((stop) => `${part(stop.color, 'color')} ${Math.round(stop.position * 10000) / 100}%`).join(', ')})`;
+    default:
+      return String(value);
+  }
+}
+
+// Flatten tokens into CSS declarations; typography expands into one property per field.
+function cssTokenDeclarations(
+  tokens: DesignToken[],
+  mode: string | null,
+  ref: (alias: string[]) => string
+): Array<{ name: string; value: string; path: string[] }> {
+  const declarations: Array<{ name: string; value: string; path: string[] }> = [];
+  for (const token of tokens) {
+    if (token.type === 'grid') continue;
+    const value = mode ? token.values[mode] : token.values[token.defaultMode];
+    if (value === undefined) continue;
+    const name = cssTokenName(token.path);
+    if (token.type === 'typography' && !isDesignTokenAlias(value)) {
+      const fields: Array<[string, DesignTokenType]> = [
+        ['fontFamily', 'fontFamily'], ['fontWeight', 'fontWeight'], ['fontSize', 'dimension'],
+        ['lineHeight', 'number'], ['letterSpacing', 'dimension'],
+      ];
+      for (const [field, fieldType] of fields) {
+        const entry = value[field];
+        if (entry === undefined) continue;
+        const entryType = fieldType === 'number' && entry && typeof entry === 'object' && 'unit' in entry ? 'dimension' : fieldType;
+        declarations.push({ name: `${name}-${cssTokenSlug(field)}`, value: cssTokenValue(entryType, entry, ref), path: token.path });
       }
-      return out;
-    };
+      continue;
+    }
+    declarations.push({ name, value: cssTokenValue(token.type, value, ref), path: token.path });
+  }
+  return declarations;
+}
+
+function renderCssTokens(set: DesignTokenSet): string {
+  const ref = (alias: string[]) => `var(--${cssTokenName(alias)})`;
+  const block = (selector: string, declarations: Array<{ name: string; value: string }>) =>
+    `${selector} {\n${declarations.map((d) => `  --${d.name}: ${d.value};`).join('\n')}\n}`;
+  const blocks = [block(':root', cssTokenDeclarations(set.tokens, null, ref))];
+  // Non-default modes override only their own collection's variables.
+  for (const collection of set.collections) {
+    const members = set.tokens.filter((token) => token.figma.collection === collection.name && token.figma.variableId);
+    for (const mode of collection.modes) {
+      if (mode === collection.defaultMode || members.length === 0) continue;
+      blocks.push(block(`[data-${cssTokenSlug(collection.name)}="${cssTokenSlug(mode)}"]`, cssTokenDeclarations(members, mode, ref)));
+    }
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+function renderScssTokens(set: DesignTokenSet): string {
+  const ref = (alias: string[]) => `$${cssTokenName(alias)}`;
+  // Sass variables must be declared before use: emit alias targets first.
+  const byPath = new Map(set.tokens.map((token) => [token.path.join('.'), token]));
+  const ordered: DesignToken[] = [];
+  const visited = new Set<string>();
+  const visit = (token: DesignToken) => {
+    const key = token.path.join('.');
+    if (visited.has(key)) return;
+    visited.add(key);
+    mapDesignTokenValue(token.values[token.defaultMode], (alias) => {
+      const target = byPath.get(alias.join('.'));
+      if (target) visit(target);
+      return alias;
+    });
+    ordered.push(token);
+  };
+  set.tokens.forEach(visit);
 
-    const candidates: any[][] = [];
-    candidates.push(input);
-    candidates.push(input.map((g: any) => normalizeGrid(g)));
-    candidates.push(input.map((g: any) => normalizeGridWithSectionSize(g)));
+  const lines = cssTokenDeclarations(ordered, null, ref).map((d) => `$${d.name}: ${d.value};`);
+  for (const collection of set.collections) {
+    const members = set.tokens.filter((token) => token.figma.collection === collection.name && token.figma.variableId);
+    if (collection.modes.length < 2 || members.length === 0) continue;
+    for (const mode of collection.modes) {
+      const entries = cssTokenDeclarations(members, mode, ref).map((d) => `  "${d.name}": ${d.value},`);
+      lines.push('', `$${cssTokenSlug(collection.name)}-${cssTokenSlug(mode)}: (`, ...entries, ');');
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
 
-    let applied = false;
-    for (const c of candidates) {
-      try {
-        style.layoutGrids = c as LayoutGrid[];
-        applied = true;
-        break;
-      } catch {
-        // try next
+function renderTailwindTokens(set: DesignTokenSet): string {
+  const theme: Record<string, Record<string, string>> = {
+    colors: {}, spacing: {}, borderRadius: {}, fontSize: {}, fontFamily: {}, boxShadow: {},
+  };
+  for (const token of set.tokens) {
+    const name = cssTokenName(token.path);
+    const key = cssTokenName(token.path.slice(1)) || name;
+    const cssVar = `var(--${name})`;
+    const scopes: string[] = token.figma.scopes ?? [];
+    if (token.type === 'color') theme.colors[key] = cssVar;
+    else if (token.type === 'shadow') theme.boxShadow[key] = cssVar;
+    else if (token.type === 'fontFamily') theme.fontFamily[key] = cssVar;
+    else if (token.type === 'typography') {
+      theme.fontSize[key] = `var(--${name}-font-size)`;
+      theme.fontFamily[key] = `var(--${name}-font-family)`;
+    } else if (token.type === 'dimension') {
+      if (scopes.includes('CORNER_RADIUS')) theme.borderRadius[key] = cssVar;
+      else if (scopes.includes('FONT_SIZE')) theme.fontSize[key] = cssVar;
+      else theme.spacing[key] = cssVar;
+    }
+  }
+  const extend: Record<string, Record<string, string>> = {};
+  for (const [group, entries] of Object.entries(theme)) {
+    if (Object.keys(entries).length > 0) extend[group] = entries;
+  }
+  return [
+    '// Generated from Figma design tokens; values read the CSS custom properties in tokens.css.',
+    '/** @type {import(\'tailwindcss\').Config} */',
+    `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+async function exportDesignTokens(options: {
+  format?: string;
+  collections?: string[];
+  includeVariables?: boolean;
+  includeStyles?: boolean;
+}): Promise<any> {
+  const format = String(options.format ?? 'dtcg').toLowerCase();
+  if (!DESIGN_TOKEN_FORMATS.includes(format)) {
+    throw new Error(`Unsupported token format: ${format}. Use one of ${DESIGN_TOKEN_FORMATS.join(', ')}`);
+  }
+  const set = await collectDesignTokens(options);
+  const files: Array<{ name: string; content: string }> = [];
+
+  if (format === 'dtcg') {
+    files.push({ name: 'tokens.json', content: JSON.stringify(renderDtcgTokens(set), null, 2) });
+  } else if (format === 'style-dictionary') {
+    // Style Dictionary has no modes: one source file per extra mode, layered over the default file.
+    files.push({ name: 'tokens.json', content: JSON.stringify(renderStyleDictionaryTokens(set, null), null, 2) });
+    for (const collection of set.collections) {
+      for (const mode of collection.modes) {
+        if (mode === collection.defaultMode) continue;
+        const members = { ...set, tokens: set.tokens.filter((token) => token.figma.collection === collection.name && token.figma.variableId) };
+        files.push({
+          name: `tokens.${cssTokenSlug(collection.name)}.${cssTokenSlug(mode)}.json`,
+          content: JSON.stringify(renderStyleDictionaryTokens(members, mode), null, 2),
+        });
       }
     }
-    if (!applied) {
-      throw new Error('Unable to apply layout grids to style: invalid schema (no silent GRID fallback applied)');
-    }
+  } else if (format === 'css') {
+    files.push({ name: 'tokens.css', content: renderCssTokens(set) });
+  } else if (format === 'scss') {
+    files.push({ name: '_tokens.scss', content: renderScssTokens(set) });
+  } else {
+    files.push({ name: 'tokens.css', content: renderCssTokens(set) });
+    files.push({ name: 'tailwind.tokens.js', content: renderTailwindTokens(set) });
   }
-  
-  return { styleId: style.id, name: style.name, type: style.type };
+
+  return {
+    format,
+    tokenCount: set.tokens.length,
+    collections: set.collections,
+    files,
+    warnings: set.warnings,
+  };
 }
 
-async function updatePaintStyle(styleId: string, name?: string, paints?: any[]): Promise<any> {
-  const style = await figma.getStyleByIdAsync(styleId) as PaintStyle;
-  if (!style || style.type !== 'PAINT') throw new Error('Paint style not found');
-  
-  if (name) style.name = name;
-  if (paints) style.paints = paints;
-  
-  return { styleId: style.id, name: style.name };
+// Token import: the token file is the source of truth. Collections, variables and styles are
+// matched by name, diffed per mode, then created/updated (and optionally deleted) in one pass.
+
+interface ImportedDesignToken {
+  path: string[];
+  type: string | null;
+  value: any;
+  description?: string;
+  figma: Record<string, any>;
 }
 
-async function updateTextStyle(styleId: string, options: any): Promise<any> {
-  const style = await figma.getStyleByIdAsync(styleId) as TextStyle;
-  if (!style || style.type !== 'TEXT') throw new Error('Text style not found');
-  
-  if (options.name) style.name = options.name;
-  if (options.fontName) style.fontName = options.fontName;
-  if (options.fontSize) style.fontSize = options.fontSize;
-  if (options.lineHeight) style.lineHeight = options.lineHeight;
-  if (options.letterSpacing) style.letterSpacing = options.letterSpacing;
-  
-  return { styleId: style.id, name: style.name };
+interface DesignTokenImportChange {
+  action: 'create' | 'update' | 'delete';
+  kind: 'collection' | 'mode' | 'variable' | 'style';
+  name: string;
+  collection?: string;
+  type?: string;
+  id?: string;
+  // Per-mode values for variables, properties for styles.
+  values?: Record<string, { before: any; after: any }>;
+}
+
+interface DesignTokenImportPlan {
+  format: string;
+  changes: DesignTokenImportChange[];
+  unchanged: number;
+  errors: Array<{ target: string; error: string }>;
+  warnings: string[];
+  collections: Array<{ name: string; existing: VariableCollection | null; modes: string[] }>;
+  variables: Array<{
+    key: string;
+    collection: string;
+    name: string;
+    resolvedType: VariableResolvedDataType;
+    existing: Variable | null;
+    // Literal Figma values or { alias: canonical path } keyed by mode name.
+    values: Record<string, any>;
+    description?: string;
+    figma: Record<string, any>;
+    changed: boolean;
+  }>;
+  styles: Array<{ styleType: StyleType; name: string; existing: BaseStyle | null; desired: any; description?: string; changed: boolean }>;
+  deletions: Array<{ kind: 'variable' | 'style'; id: string; name: string }>;
+}
+
+const TOKEN_VARIABLE_TYPES: Record<string, VariableResolvedDataType> = {
+  color: 'COLOR', dimension: 'FLOAT', number: 'FLOAT', fontWeight: 'FLOAT', duration: 'FLOAT',
+  string: 'STRING', fontFamily: 'STRING', boolean: 'BOOLEAN',
+};
+const TOKEN_STYLE_TYPES: Record<string, StyleType> = { typography: 'TEXT', shadow: 'EFFECT', gradient: 'PAINT', grid: 'GRID' };
+const FONT_STYLE_BY_WEIGHT: Record<number, string> = {
+  100: 'Thin', 200: 'Extra Light', 300: 'Light', 400: 'Regular', 500: 'Medium',
+  600: 'Semi Bold', 700: 'Bold', 800: 'Extra Bold', 900: 'Black',
+};
+
+function parseTokenAlias(value: any): string[] | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^\{([^{}]+)\}$/);
+  return match ? match[1].split('.') : null;
+}
+
+function flattenImportedTokens(tree: any, format: string): ImportedDesignToken[] {
+  const dtcg = format === 'dtcg';
+  const valueKey = dtcg ? '$value' : 'value';
+  const tokens: ImportedDesignToken[] = [];
+  const walk = (node: any, path: string[], inheritedType: string | null) => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return;
+    // DTCG groups pass $type down to their tokens.
+    const type = (dtcg ? node.$type : node.type) ?? inheritedType;
+    if (valueKey in node) {
+      tokens.push({
+        path,
+        type: type ?? null,
+        value: node[valueKey],
+        description: dtcg ? node.$description : (node.comment ?? node.description),
+        figma: node.$extensions?.['com.figma'] ?? {},
+      });
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$')) continue;
+      walk(child, [...path, key], dtcg ? type : null);
+    }
+  };
+  walk(tree, [], null);
+  return tokens;
+}
+
+function tokenColorToRGBA(value: any): RGBA | null {
+  if (value && typeof value === 'object') {
+    if (Array.isArray(value.components)) {
+      const [r, g, b] = value.components.map(Number);
+      return { r, g, b, a: value.alpha ?? 1 };
+    }
+    if (typeof value.hex === 'string') {
+      const parsed = tokenColorToRGBA(value.hex);
+      return parsed ? { ...parsed, a: value.alpha ?? parsed.a } : null;
+    }
+    if ('r' in value && 'g' in value && 'b' in value) {
+      return { r: Number(value.r), g: Number(value.g), b: Number(value.b), a: value.a ?? 1 };
+    }
+    return null;
+  }
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const hex = text.replace(/^#/, '');
+  if (/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex;
+    const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { r: channel(0), g: channel(1), b: channel(2), a: full.length === 8 ? channel(3) : 1 };
+  }
+  const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : Number(rgb[4]);
+    return { r: Number(rgb[1]) / 255, g: Number(rgb[2]) / 255, b: Number(rgb[3]) / 255, a: alpha };
+  }
+  return null;
 }
 
-async function deleteStyle(styleId: string, detachNodes: boolean = true): Promise<any> {
-  const style = await figma.getStyleByIdAsync(styleId);
-  if (!style) throw new Error('Style not found');
-  
-  style.remove();
-  
-  return { deleted: true, styleId };
+function tokenDimensionToNumber(value: any): number | null {
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && 'value' in value) {
+    const n = Number(value.value);
+    return value.unit === 'rem' || value.unit === 'em' ? n * 16 : n;
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em)?$/);
+    if (match) return match[2] === 'rem' || match[2] === 'em' ? Number(match[1]) * 16 : Number(match[1]);
+  }
+  return null;
 }
 
-async function getAllStyles(type?: string): Promise<any> {
-  let styles: BaseStyle[] = [];
+function tokenFontWeight(value: any): number | null {
+  if (typeof value === 'number') return value;
+  const key = String(value ?? '').toLowerCase().replace(/[\s_-]+/g, '');
+  if (/^\d+$/.test(key)) return Number(key);
+  for (const [pattern, weight] of FONT_WEIGHT_BY_STYLE) {
+    if (pattern.test(key)) return weight;
+  }
+  return key === 'regular' || key === 'normal' ? 400 : null;
+}
 
-  const normalized = String(type ?? 'ALL').trim().toUpperCase();
-  const includeAll = !type || normalized === 'ALL';
+function inferTokenVariableType(token: ImportedDesignToken): VariableResolvedDataType | null {
+  if (token.figma.resolvedType) return token.figma.resolvedType;
+  if (token.type && TOKEN_VARIABLE_TYPES[token.type]) return TOKEN_VARIABLE_TYPES[token.type];
+  const value = token.value;
+  if (typeof value === 'boolean') return 'BOOLEAN';
+  if (typeof value === 'number') return 'FLOAT';
+  if (parseTokenAlias(value)) return null;
+  if (tokenColorToRGBA(value)) return 'COLOR';
+  if (tokenDimensionToNumber(value) !== null) return 'FLOAT';
+  return 'STRING';
+}
 
-  if (includeAll || normalized === 'PAINT') {
-    styles = [...styles, ...(await figma.getLocalPaintStylesAsync())];
-  }
-  if (includeAll || normalized === 'TEXT') {
-    styles = [...styles, ...(await figma.getLocalTextStylesAsync())];
+function tokenToVariableValue(resolvedType: VariableResolvedDataType, tokenType: string | null, value: any): any {
+  if (resolvedType === 'COLOR') {
+    const color = tokenColorToRGBA(value);
+    if (!color) throw new Error(`Invalid color value: ${JSON.stringify(value)}`);
+    return color;
   }
-  if (includeAll || normalized === 'EFFECT') {
-    styles = [...styles, ...(await figma.getLocalEffectStylesAsync())];
+  if (resolvedType === 'FLOAT') {
+    const n = tokenType === 'fontWeight' ? tokenFontWeight(value) : tokenDimensionToNumber(value);
+    if (n === null || !Number.isFinite(n)) throw new Error(`Invalid numeric value: ${JSON.stringify(value)}`);
+    return n;
   }
-  if (includeAll || normalized === 'GRID') {
-    styles = [...styles, ...(await figma.getLocalGridStylesAsync())];
+  if (resolvedType === 'BOOLEAN') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new Error(`Invalid boolean value: ${JSON.stringify(value)}`);
   }
-  
-  return {
-    count: styles.length,
-    styles: styles.map(s => ({ id: s.id, name: s.name, type: s.type })),
-  };
+  return Array.isArray(value) ? String(value[0] ?? '') : String(value);
 }
 
-// ===== VARIABLES =====
-
-async function createVariable(name: string, type: string, value: any, collectionId: string): Promise<any> {
-  const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
-  if (!collection) throw new Error('Variable collection not found');
+// Human-readable form used in before/after reports.
+function displayImportValue(value: any): any {
+  if (isDesignTokenAlias(value)) return `{${value.alias.join('.')}}`;
+  if (value && typeof value === 'object' && 'r' in value && 'g' in value && 'b' in value) return designTokenColor(value).hex;
+  return value;
+}
 
-  // Sanitize arbitrary MCP input into a Figma-compatible variable name.
-  const safeName = String(name || 'var')
-    .replace(/[^\p{L}\p{N}_\-\s]/gu, '_')
-    .replace(/\s+/g, ' ')
-    .trim()
-    .slice(0, 120) || 'var';
-  const normalizedName = /^[\p{L}_]/u.test(safeName) ? safeName : `v_${safeName}`;
+function sameImportValue(a: any, b: any): boolean {
+  return stableImportJson(a) === stableImportJson(b);
+}
 
-  const variable = figma.variables.createVariable(normalizedName, collection, type as VariableResolvedDataType);
-  
-  // Set value for the first mode
-  if (value !== undefined && collection.modes.length > 0) {
-    let finalValue: any = value;
-    if (typeof value === 'string') {
-      try {
-        finalValue = JSON.parse(value);
-      } catch {
-        finalValue = value;
+// JSON with numbers rounded so float noise from Figma does not show up as a change.
+function stableImportJson(value: any): string {
+  return JSON.stringify(value, (_key, entry) => {
+    if (typeof entry === 'number') return Math.round(entry * 10000) / 10000;
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+      const sorted: Record<string, any> = {};
+      for (const key of Object.keys(entry).sort()) {
+        if (entry[key] !== undefined) sorted[key] = entry[key];
       }
+      return sorted;
     }
-    const resolved = String(type).toUpperCase();
-    if (resolved === 'FLOAT') {
-      const n = Number(finalValue);
-      if (Number.isFinite(n)) finalValue = n;
-    } else if (resolved === 'BOOLEAN') {
-      if (typeof finalValue === 'string') finalValue = finalValue.toLowerCase() === 'true';
-      else finalValue = Boolean(finalValue);
-    } else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
-      const toUnit = (v: any) => {
-        const n = Number(v);
-        if (!Number.isFinite(n)) return 0;
-        return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
-      };
-      finalValue = {
-        r: toUnit(finalValue.r),
-        g: toUnit(finalValue.g),
-        b: toUnit(finalValue.b),
-        a: toUnit(finalValue.a ?? 1),
-      };
+    return entry;
+  });
+}
+
+async function planDesignTokenImport(args: any): Promise<DesignTokenImportPlan> {
+  let tree = args.tokens;
+  if (typeof tree === 'string') {
+    try {
+      tree = JSON.parse(tree);
+    } catch (error) {
+      throw new Error(`tokens is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
     }
-    variable.setValueForMode(collection.modes[0].modeId, finalValue);
   }
-  
-  return { variableId: variable.id, name: variable.name, type: variable.resolvedType };
-}
+  if (!tree || typeof tree !== 'object') throw new Error('tokens must be a DTCG or Style Dictionary object');
 
-async function createVariableCollection(name: string, modes?: string[]): Promise<any> {
-  const collection = figma.variables.createVariableCollection(name);
-  
-  // Rename default mode or add additional modes
-  if (modes && modes.length > 0) {
-    collection.renameMode(collection.modes[0].modeId, modes[0]);
-    for (let i = 1; i < modes.length; i++) {
-      collection.addMode(modes[i]);
+  const requested = String(args.format ?? 'auto').toLowerCase();
+  const format = requested === 'auto' ? (JSON.stringify(tree).includes('"$value"') ? 'dtcg' : 'style-dictionary') : requested;
+  if (format !== 'dtcg' && format !== 'style-dictionary') throw new Error(`Unsupported token format: ${requested}`);
+  const deleteMissing = args.deleteMissing === true;
+  const targetMode: string | null = typeof args.mode === 'string' && args.mode ? args.mode : null;
+  const collectionOverride: string | null = typeof args.collection === 'string' && args.collection ? args.collection : null;
+
+  const plan: DesignTokenImportPlan = {
+    format, changes: [], unchanged: 0, errors: [], warnings: [], collections: [], variables: [], styles: [], deletions: [],
+  };
+  const imported = flattenImportedTokens(tree, format);
+  if (imported.length === 0) throw new Error('No tokens found');
+
+  // Existing variables, addressable by canonical token path (same paths export_design_tokens writes).
+  const localCollections = await figma.variables.getLocalVariableCollectionsAsync();
+  const existingByPath = new Map<string, { variable: Variable; collection: VariableCollection }>();
+  const existingPathById = new Map<string, string[]>();
+  for (const collection of localCollections) {
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (!variable) continue;
+      const path = designTokenPath(collection.name, variable.name);
+      existingByPath.set(path.join('.'), { variable, collection });
+      existingPathById.set(variable.id, path);
+    }
+  }
+
+  // Split tokens into variables and styles and place variables in collections.
+  const variableTokens: Array<{ token: ImportedDesignToken; collection: string; name: string; canonical: string[] }> = [];
+  const styleTokens: Array<{ token: ImportedDesignToken; styleType: StyleType; name: string }> = [];
+  const canonicalByImportPath = new Map<string, string[]>();
+  // Style groups written by export_design_tokens (paint/text/effect/grid), unless a collection uses that name.
+  const styleTypeByGroup = new Map<string, StyleType>();
+  for (const [styleType, group] of Object.entries(DESIGN_TOKEN_STYLE_GROUPS)) {
+    if (!localCollections.some((collection) => collection.name === group)) styleTypeByGroup.set(group, styleType as StyleType);
+  }
+  for (const token of imported) {
+    const styleType: StyleType | undefined = token.figma.styleType
+      ?? (token.type ? TOKEN_STYLE_TYPES[token.type] : undefined)
+      ?? (token.path.length > 1 && !token.figma.variableId ? styleTypeByGroup.get(token.path[0]) : undefined);
+    if (styleType) {
+      const name = token.figma.name ?? (DESIGN_TOKEN_STYLE_GROUPS[styleType] === token.path[0] ? token.path.slice(1) : token.path).join('/');
+      styleTokens.push({ token, styleType, name });
+      continue;
     }
+    const collection = collectionOverride ?? token.figma.collection ?? (token.path.length > 1 ? token.path[0] : 'Tokens');
+    const name = token.figma.name ?? (collectionOverride || token.path.length === 1 ? token.path : token.path.slice(1)).join('/');
+    const canonical = designTokenPath(collection, name);
+    canonicalByImportPath.set(token.path.join('.'), canonical);
+    variableTokens.push({ token, collection, name, canonical });
   }
-  
-  return { 
-    collectionId: collection.id, 
-    name: collection.name, 
-    modes: collection.modes.map(m => ({ id: m.modeId, name: m.name }))
+
+  // Aliases point at token-file paths; translate them to canonical variable paths.
+  const importedByCanonical = new Map(variableTokens.map((entry) => [entry.canonical.join('.'), entry]));
+  const resolveAlias = (alias: string[]): string[] | null => {
+    const key = alias.join('.');
+    const canonical = canonicalByImportPath.get(key) ?? (existingByPath.has(key) ? alias : null);
+    return canonical;
   };
-}
 
-async function setVariableValue(variableId: string, modeId: string, value: any): Promise<any> {
-  const variable = await figma.variables.getVariableByIdAsync(variableId);
-  if (!variable) throw new Error('Variable not found');
+  // Types: explicit or inferred; alias-only tokens take their target's type.
+  const resolvedTypes = new Map<string, VariableResolvedDataType>();
+  for (let pass = 0; pass < 5; pass++) {
+    for (const entry of variableTokens) {
+      const key = entry.canonical.join('.');
+      if (resolvedTypes.has(key)) continue;
+      const inferred = inferTokenVariableType(entry.token);
+      if (inferred) {
+        resolvedTypes.set(key, inferred);
+        continue;
+      }
+      const target = resolveAlias(parseTokenAlias(entry.token.value) ?? []);
+      const targetKey = target?.join('.');
+      if (targetKey && resolvedTypes.has(targetKey)) resolvedTypes.set(key, resolvedTypes.get(targetKey)!);
+      else if (targetKey && existingByPath.has(targetKey)) resolvedTypes.set(key, existingByPath.get(targetKey)!.variable.resolvedType);
+    }
+  }
+
+  // Desired modes per collection.
+  const collectionNames = [...new Set(variableTokens.map((entry) => entry.collection))];
+  const defaultModeOf = new Map<string, string>();
+  for (const name of collectionNames) {
+    const existing = localCollections.find((collection) => collection.name === name) ?? null;
+    const existingModes = existing ? existing.modes.map((mode) => mode.name) : [];
+    const wanted: string[] = [];
+    for (const entry of variableTokens) {
+      if (entry.collection !== name) continue;
+      for (const mode of Object.keys(entry.token.figma.modes ?? {})) {
+        if (!wanted.includes(mode)) wanted.push(mode);
+      }
+    }
+    if (targetMode && !wanted.includes(targetMode)) wanted.push(targetMode);
+    const defaultMode = existing
+      ? existing.modes.find((mode) => mode.modeId === existing.defaultModeId)?.name ?? existingModes[0]
+      : wanted[0] ?? 'Mode 1';
+    defaultModeOf.set(name, defaultMode);
+    const modes = existing ? [...existingModes] : [defaultMode];
+    for (const mode of wanted) {
+      if (modes.includes(mode)) continue;
+      modes.push(mode);
+      if (existing) plan.changes.push({ action: 'create', kind: 'mode', name: mode, collection: name });
+    }
+    plan.collections.push({ name, existing, modes });
+    if (!existing) plan.changes.push({ action: 'create', kind: 'collection', name, values: { modes: { before: null, after: modes } } });
+  }
+
+  // Variables.
+  const seenVariables = new Set<string>();
+  for (const entry of variableTokens) {
+    const key = entry.canonical.join('.');
+    const target = `${entry.collection}/${entry.name}`;
+    if (seenVariables.has(key)) {
+      plan.warnings.push(`Duplicate token for ${target}; later definition ignored`);
+      continue;
+    }
+    seenVariables.add(key);
+    const resolvedType = resolvedTypes.get(key);
+    if (!resolvedType) {
+      plan.errors.push({ target, error: `Cannot resolve alias ${JSON.stringify(entry.token.value)}` });
+      continue;
+    }
+    const existing = existingByPath.get(key)?.variable ?? null;
+    if (existing && existing.resolvedType !== resolvedType) {
+      plan.errors.push({ target, error: `Type mismatch: existing ${existing.resolvedType}, token ${resolvedType}` });
+      continue;
+    }
 
-  let finalValue: any = value;
-  if (typeof value === 'string') {
+    const rawModes: Record<string, any> = format === 'dtcg' && entry.token.figma.modes && !targetMode
+      ? entry.token.figma.modes
+      : { [targetMode ?? defaultModeOf.get(entry.collection)!]: entry.token.value };
+    const values: Record<string, any> = {};
+    let valid = true;
+    for (const [mode, raw] of Object.entries(rawModes)) {
+      const alias = parseTokenAlias(raw);
+      try {
+        if (alias) {
+          const canonical = resolveAlias(alias);
+          if (!canonical) throw new Error(`Unresolved alias {${alias.join('.')}}`);
+          values[mode] = { alias: canonical };
+        } else {
+          values[mode] = tokenToVariableValue(resolvedType, entry.token.type, raw);
+        }
+      } catch (error) {
+        plan.errors.push({ target: `${target} (${mode})`, error: error instanceof Error ? error.message : String(error) });
+        valid = false;
+      }
+    }
+    if (!valid) continue;
+
+    const diff: Record<string, { before: any; after: any }> = {};
+    const existingCollection = existing ? existingByPath.get(key)!.collection : null;
+    for (const [mode, value] of Object.entries(values)) {
+      const modeId = existingCollection?.modes.find((m) => m.name === mode)?.modeId;
+      const raw = modeId ? (existing!.valuesByMode as any)[modeId] : undefined;
+      const before = raw && raw.type === 'VARIABLE_ALIAS'
+        ? { alias: existingPathById.get(raw.id) ?? [raw.id] }
+        : raw;
+      if (before === undefined || !sameImportValue(before, value)) {
+        diff[mode] = { before: before === undefined ? null : displayImportValue(before), after: displayImportValue(value) };
+      }
+    }
+    const description = entry.token.description;
+    if (description !== undefined && (existing?.description ?? '') !== description) {
+      diff.$description = { before: existing?.description ?? null, after: description };
+    }
+    const scopes = entry.token.figma.scopes;
+    if (Array.isArray(scopes) && (!existing || !sameImportValue([...existing.scopes], scopes))) {
+      diff.$scopes = { before: existing ? [...existing.scopes] : null, after: scopes };
+    }
+
+    const changed = !existing || Object.keys(diff).length > 0;
+    plan.variables.push({
+      key, collection: entry.collection, name: entry.name, resolvedType, existing, values, description,
+      figma: entry.token.figma, changed,
+    });
+    if (changed) {
+      plan.changes.push({
+        action: existing ? 'update' : 'create', kind: 'variable', name: entry.name, collection: entry.collection,
+        type: resolvedType, id: existing?.id, values: diff,
+      });
+    } else {
+      plan.unchanged++;
+    }
+  }
+
+  // Styles: desired properties are compared with the current ones; alias fields become variable bindings.
+  const literalOf = async (value: any, depth: number = 0): Promise<any> => {
+    const alias = parseTokenAlias(value);
+    if (!alias || depth > 10) return value;
+    const canonical = resolveAlias(alias);
+    const key = canonical?.join('.');
+    const importedEntry = key ? importedByCanonical.get(key) : undefined;
+    if (importedEntry) {
+      const raw = importedEntry.token.figma.modes?.[defaultModeOf.get(importedEntry.collection)!] ?? importedEntry.token.value;
+      return literalOf(raw, depth + 1);
+    }
+    const existing = key ? existingByPath.get(key) : undefined;
+    if (!existing) throw new Error(`Unresolved alias {${alias.join('.')}}`);
+    let raw: any = (existing.variable.valuesByMode as any)[existing.collection.defaultModeId];
+    for (let hops = 0; raw && raw.type === 'VARIABLE_ALIAS' && hops < 10; hops++) {
+      const next = await figma.variables.getVariableByIdAsync(raw.id);
+      if (!next) break;
+      raw = Object.values(next.valuesByMode)[0];
+    }
+    return raw;
+  };
+  const bindingOf = (value: any): string[] | null => {
+    const alias = parseTokenAlias(value);
+    return alias ? resolveAlias(alias) : null;
+  };
+
+  const localStyles: BaseStyle[] = [
+    ...(await figma.getLocalPaintStylesAsync()),
+    ...(await figma.getLocalTextStylesAsync()),
+    ...(await figma.getLocalEffectStylesAsync()),
+    ...(await figma.getLocalGridStylesAsync()),
+  ];
+  const seenStyles = new Set<string>();
+  for (const { token, styleType, name } of styleTokens) {
+    const target = `${styleType}:${name}`;
+    if (seenStyles.has(target)) {
+      plan.warnings.push(`Duplicate token for style ${name}; later definition ignored`);
+      continue;
+    }
+    seenStyles.add(target);
+    let desired: any;
     try {
-      finalValue = JSON.parse(value);
-    } catch {
-      finalValue = value;
+      desired = await desiredStyleFromToken(styleType, token, literalOf, bindingOf);
+    } catch (error) {
+      plan.errors.push({ target: name, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    const existing = localStyles.find((style) => style.type === styleType && style.name === name) ?? null;
+    const current = existing ? currentStyleSnapshot(existing, existingPathById) : null;
+    const diff: Record<string, { before: any; after: any }> = {};
+    for (const field of Object.keys(desired)) {
+      if (!current || !sameImportValue(current[field], desired[field])) {
+        diff[field] = { before: current ? current[field] ?? null : null, after: desired[field] };
+      }
+    }
+    if (token.description !== undefined && (existing?.description ?? '') !== token.description) {
+      diff.$description = { before: existing?.description ?? null, after: token.description };
+    }
+    const changed = !existing || Object.keys(diff).length > 0;
+    plan.styles.push({ styleType, name, existing, desired, description: token.description, changed });
+    if (changed) {
+      plan.changes.push({ action: existing ? 'update' : 'create', kind: 'style', name, type: styleType, id: existing?.id, values: diff });
+    } else {
+      plan.unchanged++;
     }
   }
 
-  const resolved = String(variable.resolvedType).toUpperCase();
-  if (resolved === 'FLOAT') {
-    const n = Number(finalValue);
-    if (!Number.isFinite(n)) throw new Error('FLOAT variable requires numeric value');
-    finalValue = n;
-  } else if (resolved === 'BOOLEAN') {
-    if (typeof finalValue === 'string') finalValue = finalValue.toLowerCase() === 'true';
-    else finalValue = Boolean(finalValue);
-  } else if (resolved === 'STRING') {
-    finalValue = String(finalValue);
-  } else if (resolved === 'COLOR' && finalValue && typeof finalValue === 'object') {
-    const toUnit = (v: any) => {
-      const n = Number(v);
-      if (!Number.isFinite(n)) return 0;
-      return Math.max(0, Math.min(1, n > 1 ? n / 255 : n));
+  if (deleteMissing) {
+    // Only inside collections and style types the token file covers.
+    for (const collection of localCollections) {
+      if (!collectionNames.includes(collection.name)) continue;
+      for (const variableId of collection.variableIds) {
+        const path = existingPathById.get(variableId);
+        if (!path || seenVariables.has(path.join('.'))) continue;
+        const variable = existingByPath.get(path.join('.'))!.variable;
+        plan.deletions.push({ kind: 'variable', id: variable.id, name: `${collection.name}/${variable.name}` });
+        plan.changes.push({ action: 'delete', kind: 'variable', name: variable.name, collection: collection.name, id: variable.id });
+      }
+    }
+    const importedStyleTypes = new Set(styleTokens.map((entry) => entry.styleType));
+    for (const style of localStyles) {
+      if (!importedStyleTypes.has(style.type) || seenStyles.has(`${style.type}:${style.name}`)) continue;
+      plan.deletions.push({ kind: 'style', id: style.id, name: style.name });
+      plan.changes.push({ action: 'delete', kind: 'style', name: style.name, type: style.type, id: style.id });
+    }
+  }
+
+  return plan;
+}
+
+async function desiredStyleFromToken(
+  styleType: StyleType,
+  token: ImportedDesignToken,
+  literalOf: (value: any) => Promise<any>,
+  bindingOf: (value: any) => string[] | null
+): Promise<any> {
+  const ext = token.figma;
+  const colorOf = async (value: any): Promise<RGBA> => {
+    const color = tokenColorToRGBA(await literalOf(value));
+    if (!color) throw new Error(`Invalid color value: ${JSON.stringify(value)}`);
+    return color;
+  };
+  const numberOf = async (value: any): Promise<number> => {
+    const n = tokenDimensionToNumber(await literalOf(value));
+    if (n === null) throw new Error(`Invalid dimension value: ${JSON.stringify(value)}`);
+    return n;
+  };
+  const bindings = (fields: Record<string, any>): Record<string, string> | undefined => {
+    const out: Record<string, string> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      const path = bindingOf(value);
+      if (path) out[field] = path.join('.');
+    }
+    return Object.keys(out).length > 0 ? out : undefined;
+  };
+
+  if (styleType === 'PAINT') {
+    if (token.type === 'gradient' || Array.isArray(token.value)) {
+      const stops: any[] = [];
+      for (const stop of token.value as any[]) {
+        const color = await colorOf(stop.color);
+        stops.push({ position: Number(stop.position), color });
+      }
+      return {
+        paints: [{
+          type: ext.gradientType ?? 'GRADIENT_LINEAR',
+          gradientTransform: ext.gradientTransform ?? [[1, 0, 0], [0, 1, 0]],
+          gradientStops: stops,
+          ...(ext.opacity !== undefined ? { opacity: ext.opacity } : {}),
+        }],
+      };
+    }
+    const color = await colorOf(token.value);
+    return {
+      paints: [{ type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a }],
+      bindings: bindings({ color: token.value }),
     };
-    finalValue = {
-      r: toUnit(finalValue.r),
-      g: toUnit(finalValue.g),
-      b: toUnit(finalValue.b),
-      a: toUnit(finalValue.a ?? 1),
+  }
+
+  if (styleType === 'TEXT') {
+    const value = token.value ?? {};
+    const fontSize = await numberOf(value.fontSize ?? 16);
+    const weight = tokenFontWeight(await literalOf(value.fontWeight ?? 400)) ?? 400;
+    const family = await literalOf(value.fontFamily);
+    const rawLineHeight = await literalOf(value.lineHeight);
+    const rawLetterSpacing = await literalOf(value.letterSpacing ?? 0);
+    const lineHeight = ext.lineHeight ?? (rawLineHeight === undefined || rawLineHeight === 'normal'
+      ? { unit: 'AUTO' }
+      : typeof rawLineHeight === 'number'
+        ? { unit: 'PERCENT', value: rawLineHeight * 100 }
+        : { unit: 'PIXELS', value: tokenDimensionToNumber(rawLineHeight) ?? fontSize });
+    return {
+      fontName: { family: Array.isArray(family) ? String(family[0]) : String(family ?? 'Inter'), style: ext.fontStyle ?? FONT_STYLE_BY_WEIGHT[weight] ?? 'Regular' },
+      fontSize,
+      lineHeight,
+      letterSpacing: ext.letterSpacing ?? { unit: 'PIXELS', value: tokenDimensionToNumber(rawLetterSpacing) ?? 0 },
+      textCase: ext.textCase ?? 'ORIGINAL',
+      textDecoration: ext.textDecoration ?? 'NONE',
+      paragraphSpacing: ext.paragraphSpacing ?? 0,
+      paragraphIndent: ext.paragraphIndent ?? 0,
+      bindings: bindings({
+        fontFamily: value.fontFamily, fontWeight: value.fontWeight, fontSize: value.fontSize,
+        lineHeight: value.lineHeight, letterSpacing: value.letterSpacing,
+      }),
     };
   }
 
-  variable.setValueForMode(modeId, finalValue);
-  
-  return { variableId, modeId, value: finalValue };
-}
+  if (styleType === 'EFFECT') {
+    const effects: any[] = [];
+    for (const shadow of (Array.isArray(token.value) ? token.value : [token.value]) as any[]) {
+      const color = await colorOf(shadow.color);
+      effects.push({
+        type: shadow.inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+        color,
+        offset: { x: await numberOf(shadow.offsetX ?? 0), y: await numberOf(shadow.offsetY ?? 0) },
+        radius: await numberOf(shadow.blur ?? 0),
+        spread: await numberOf(shadow.spread ?? 0),
+        visible: true,
+        blendMode: 'NORMAL',
+      });
+    }
+    return { effects };
+  }
 
-async function bindVariableToNode(nodeId: string, variableId: string, property: string): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  const variable = await figma.variables.getVariableByIdAsync(variableId);
-  
-  if (!node) throw new Error('Node not found');
-  if (!variable) throw new Error('Variable not found');
-  
-  const key = String(property || '').toUpperCase();
+  if (!Array.isArray(token.value)) throw new Error('Grid tokens must be an array of layout grids');
+  return { layoutGrids: token.value };
+}
 
-  if (key === 'FILLS') {
-    if (!('fills' in node)) throw new Error('Node does not support fills');
-    const fills = ((node as GeometryMixin).fills as Paint[]) || [];
-    (node as GeometryMixin).fills = fills.map((p) => {
-      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', variable);
-      return p;
+// Same shape as desiredStyleFromToken so the two can be diffed field by field.
+function currentStyleSnapshot(style: BaseStyle, pathById: Map<string, string[]>): Record<string, any> {
+  const bound = (source: any): Record<string, string> | undefined => {
+    const out: Record<string, string> = {};
+    for (const [field, alias] of Object.entries(source ?? {})) {
+      const path = alias && pathById.get((alias as any).id);
+      if (path) out[field] = path.join('.');
+    }
+    return Object.keys(out).length > 0 ? out : undefined;
+  };
+  const plain = (value: any) => JSON.parse(JSON.stringify(value));
+  if (style.type === 'PAINT') {
+    const paints = (style as PaintStyle).paints.map((paint: any) => {
+      const { boundVariables, visible, blendMode, ...rest } = plain(paint);
+      if (rest.type === 'SOLID' && rest.opacity === undefined) rest.opacity = 1;
+      return rest;
     });
-    return { nodeId, variableId, property: key };
+    return { paints, bindings: bound((style as PaintStyle).paints[0]?.type === 'SOLID' ? ((style as PaintStyle).paints[0] as any).boundVariables : null) };
+  }
+  if (style.type === 'TEXT') {
+    const text = style as TextStyle;
+    return {
+      fontName: plain(text.fontName),
+      fontSize: text.fontSize,
+      lineHeight: plain(text.lineHeight),
+      letterSpacing: plain(text.letterSpacing),
+      textCase: text.textCase,
+      textDecoration: text.textDecoration,
+      paragraphSpacing: text.paragraphSpacing,
+      paragraphIndent: text.paragraphIndent,
+      bindings: bound((text as any).boundVariables),
+    };
+  }
+  if (style.type === 'EFFECT') {
+    return {
+      effects: (style as EffectStyle).effects.map((effect: any) => {
+        const { boundVariables, showShadowBehindNode, ...rest } = plain(effect);
+        return rest;
+      }),
+    };
+  }
+  return { layoutGrids: plain((style as GridStyle).layoutGrids) };
+}
+
+async function applyDesignTokenImport(plan: DesignTokenImportPlan): Promise<void> {
+  const collections = new Map<string, VariableCollection>();
+  for (const entry of plan.collections) {
+    try {
+      let collection = entry.existing;
+      if (!collection) {
+        collection = figma.variables.createVariableCollection(entry.name);
+        collection.renameMode(collection.modes[0].modeId, entry.modes[0]);
+      }
+      for (const mode of entry.modes) {
+        if (!collection.modes.some((m) => m.name === mode)) collection.addMode(mode);
+      }
+      collections.set(entry.name, collection);
+    } catch (error) {
+      plan.errors.push({ target: entry.name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Create every variable before setting values so aliases can point at new ones.
+  const variablesByPath = new Map<string, Variable>();
+  for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (variable) variablesByPath.set(designTokenPath(collection.name, variable.name).join('.'), variable);
+    }
+  }
+  const ready: Array<{ entry: DesignTokenImportPlan['variables'][number]; variable: Variable; collection: VariableCollection }> = [];
+  for (const entry of plan.variables) {
+    const collection = collections.get(entry.collection);
+    if (!collection) continue;
+    try {
+      const variable = entry.existing ?? figma.variables.createVariable(entry.name, collection, entry.resolvedType);
+      variablesByPath.set(entry.key, variable);
+      if (entry.changed) ready.push({ entry, variable, collection });
+    } catch (error) {
+      plan.errors.push({ target: `${entry.collection}/${entry.name}`, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  for (const { entry, variable, collection } of ready) {
+    const target = `${entry.collection}/${entry.name}`;
+    try {
+      if (entry.description !== undefined) variable.description = entry.description;
+      if (Array.isArray(entry.figma.scopes)) variable.scopes = entry.figma.scopes;
+      if (entry.figma.codeSyntax) {
+        for (const [platform, syntax] of Object.entries(entry.figma.codeSyntax)) {
+          variable.setVariableCodeSyntax(platform as CodeSyntaxPlatform, String(syntax));
+        }
+      }
+      if (typeof entry.figma.hiddenFromPublishing === 'boolean') variable.hiddenFromPublishing = entry.figma.hiddenFromPublishing;
+    } catch (error) {
+      plan.warnings.push(`${target}: metadata not applied (${error instanceof Error ? error.message : String(error)})`);
+    }
+    for (const [mode, value] of Object.entries(entry.values)) {
+      try {
+        const modeId = collection.modes.find((m) => m.name === mode)?.modeId;
+        if (!modeId) throw new Error(`Mode "${mode}" not found`);
+        if (isDesignTokenAlias(value)) {
+          const aliased = variablesByPath.get(value.alias.join('.'));
+          if (!aliased) throw new Error(`Alias target {${value.alias.join('.')}} was not created`);
+          variable.setValueForMode(modeId, figma.variables.createVariableAlias(aliased));
+        } else {
+          variable.setValueForMode(modeId, value);
+        }
+      } catch (error) {
+        plan.errors.push({ target: `${target} (${mode})`, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  for (const entry of plan.styles) {
+    if (!entry.changed) continue;
+    try {
+      await applyStyleToken(entry, variablesByPath);
+    } catch (error) {
+      plan.errors.push({ target: entry.name, error: error instanceof Error ? error.message : String(error) });
+    }
   }
 
-  if (key === 'STROKES') {
-    if (!('strokes' in node)) throw new Error('Node does not support strokes');
-    const strokes = ((node as GeometryMixin).strokes as Paint[]) || [];
-    (node as GeometryMixin).strokes = strokes.map((p) => {
-      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', variable);
-      return p;
-    });
-    return { nodeId, variableId, property: key };
+  for (const deletion of plan.deletions) {
+    try {
+      const target = deletion.kind === 'variable'
+        ? await figma.variables.getVariableByIdAsync(deletion.id)
+        : await figma.getStyleByIdAsync(deletion.id);
+      target?.remove();
+    } catch (error) {
+      plan.errors.push({ target: deletion.name, error: error instanceof Error ? error.message : String(error) });
+    }
   }
+}
 
-  const fieldMap: Record<string, any> = {
-    OPACITY: 'opacity',
-    WIDTH: 'width',
-    HEIGHT: 'height',
-    VISIBLE: 'visible',
-    CHARACTERS: 'characters',
+async function applyStyleToken(entry: DesignTokenImportPlan['styles'][number], variablesByPath: Map<string, Variable>): Promise<void> {
+  const { desired } = entry;
+  const bindingVariable = (field: string): Variable | null => {
+    const path = desired.bindings?.[field];
+    return path ? variablesByPath.get(path) ?? null : null;
   };
-  const field = fieldMap[key];
-  if (!field || typeof (node as any).setBoundVariable !== 'function') {
-    throw new Error(`Unsupported bind property: ${property}`);
+
+  let style = entry.existing;
+  if (!style) {
+    style = entry.styleType === 'PAINT' ? figma.createPaintStyle()
+      : entry.styleType === 'TEXT' ? figma.createTextStyle()
+        : entry.styleType === 'EFFECT' ? figma.createEffectStyle()
+          : figma.createGridStyle();
+    style.name = entry.name;
+  }
+  if (entry.description !== undefined) style.description = entry.description;
+
+  if (entry.styleType === 'PAINT') {
+    const colorVariable = bindingVariable('color');
+    (style as PaintStyle).paints = desired.paints.map((paint: any) => colorVariable && paint.type === 'SOLID'
+      ? figma.variables.setBoundVariableForPaint(paint, 'color', colorVariable)
+      : paint);
+  } else if (entry.styleType === 'TEXT') {
+    const text = style as TextStyle;
+    await figma.loadFontAsync(desired.fontName);
+    text.fontName = desired.fontName;
+    text.fontSize = desired.fontSize;
+    text.lineHeight = desired.lineHeight;
+    text.letterSpacing = desired.letterSpacing;
+    text.textCase = desired.textCase;
+    text.textDecoration = desired.textDecoration;
+    text.paragraphSpacing = desired.paragraphSpacing;
+    text.paragraphIndent = desired.paragraphIndent;
+    for (const field of Object.keys(desired.bindings ?? {})) {
+      const variable = bindingVariable(field);
+      if (variable) (text as any).setBoundVariable(field, variable);
+    }
+  } else if (entry.styleType === 'EFFECT') {
+    (style as EffectStyle).effects = desired.effects;
+  } else {
+    (style as GridStyle).layoutGrids = desired.layoutGrids;
   }
-  (node as any).setBoundVariable(field, variable);
-  return { nodeId, variableId, property: key };
 }
 
-async function unbindVariable(nodeId: string, property: string): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
+function summarizeDesignTokenImport(plan: DesignTokenImportPlan): Record<string, number> {
+  const count = (action: string) => plan.changes.filter((change) => change.action === action).length;
+  return { create: count('create'), update: count('update'), delete: count('delete'), unchanged: plan.unchanged, errors: plan.errors.length };
+}
 
-  const key = String(property || '').toUpperCase();
-  if (key === 'FILLS' && 'fills' in node) {
-    const fills = ((node as GeometryMixin).fills as Paint[]) || [];
-    (node as GeometryMixin).fills = fills.map((p) => {
-      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', null);
-      return p;
-    });
-    return { nodeId, property: key, unbound: true };
-  }
-  if (key === 'STROKES' && 'strokes' in node) {
-    const strokes = ((node as GeometryMixin).strokes as Paint[]) || [];
-    (node as GeometryMixin).strokes = strokes.map((p) => {
-      if (p.type === 'SOLID') return figma.variables.setBoundVariableForPaint(p, 'color', null);
-      return p;
-    });
-    return { nodeId, property: key, unbound: true };
-  }
-  const fieldMap: Record<string, any> = {
-    OPACITY: 'opacity',
-    WIDTH: 'width',
-    HEIGHT: 'height',
-    VISIBLE: 'visible',
-    CHARACTERS: 'characters',
+async function importDesignTokens(args: any): Promise<any> {
+  const plan = await planDesignTokenImport(args);
+  await applyDesignTokenImport(plan);
+  return {
+    format: plan.format,
+    summary: summarizeDesignTokenImport(plan),
+    changes: plan.changes,
+    errors: plan.errors,
+    warnings: plan.warnings,
   };
-  const field = fieldMap[key];
-  if (!field || typeof (node as any).setBoundVariable !== 'function') {
-    throw new Error(`Unsupported unbind property: ${property}`);
+}
+
+// dryRun planner: token changes are reported with variable/style ids in place of node ids.
+async function planImportDesignTokens(ctx: PlanContext, args: any): Promise<void> {
+  const plan = await planDesignTokenImport(args);
+  for (const change of plan.changes) {
+    const label = change.collection ? `${change.collection}/${change.name}` : change.name;
+    const type = change.kind === 'style' ? `${change.type}_STYLE` : change.kind.toUpperCase();
+    if (change.action === 'create') {
+      ctx.changes.create.push({ type, name: label, parentId: null });
+    } else if (change.action === 'update') {
+      ctx.changes.modify.push({ nodeId: change.id!, name: label, properties: change.values ?? {} });
+    } else {
+      ctx.changes.delete.push({ nodeId: change.id!, name: label, type, descendants: 0 });
+    }
   }
-  (node as any).setBoundVariable(field, null);
-  return { nodeId, property: key, unbound: true };
+  ctx.errors.push(...plan.errors);
+  ctx.warnings.push(...plan.warnings);
+  if (plan.unchanged > 0) ctx.warnings.push(`${plan.unchanged} token(s) already match and will be left as-is`);
 }
 
-async function getAllVariables(): Promise<any> {
-  const collections = await figma.variables.getLocalVariableCollectionsAsync();
-  const allVariables: any[] = [];
-  
-  for (const collection of collections) {
-    for (const variableId of collection.variableIds) {
-      const variable = await figma.variables.getVariableByIdAsync(variableId);
-      if (variable) {
-        allVariables.push({
-          id: variable.id,
-          name: variable.name,
-          type: variable.resolvedType,
-          collectionId: collection.id,
-          collectionName: collection.name,
-        });
+// ===== CODE GENERATION =====
+
+type CodeGenTarget = 'html-css';
+
+// Something generate_code references but cannot inline; export it with export_node.
+interface CodeGenAsset {
+  nodeId: string;
+  name: string;
+  format: 'SVG' | 'PNG';
+  // Matches the file name export_node writes with outputDir.
+  fileName: string;
+  usage: 'img' | 'background';
+}
+
+// Target-neutral element tree; renderers turn it into markup.
+interface CodeGenNode {
+  id: string;
+  name: string;
+  type: string;
+  tag: string;
+  className: string;
+  styles: Record<string, string>;
+  text?: Array<{ text: string; styles: Record<string, string> }>;
+  src?: string;
+  component?: string;
+  // Component property bindings (componentPropertyReferences) and nested component usage; React only.
+  refs?: { [field in 'characters' | 'visible' | 'mainComponent']?: string };
+  instance?: { componentName: string; props: Array<[string, string]> };
+  children: CodeGenNode[];
+}
+
+interface CodeGenContext {
+  assetDir: string;
+  classPrefix: string;
+  maxDepth: number;
+  remaining: number;
+  assets: CodeGenAsset[];
+  warnings: string[];
+  classNames: Set<string>;
+  variables: Map<string, { name: string; variableId: string; collection: string }>;
+  variableNames: Map<string, string | null>;
+  // Set by component generators: keep property-bound hidden layers and stop at nested instances.
+  componentProps?: boolean;
+  instanceRef?: (node: InstanceNode) => Promise<CodeGenNode['instance'] | null>;
+}
+
+const CODE_GEN_TARGETS: CodeGenTarget[] = ['html-css'];
+const CODE_GEN_VECTOR_TYPES = new Set(['VECTOR', 'STAR', 'POLYGON', 'LINE', 'BOOLEAN_OPERATION']);
+const CODE_GEN_JUSTIFY: Record<string, string> = { MIN: 'flex-start', CENTER: 'center', MAX: 'flex-end', SPACE_BETWEEN: 'space-between' };
+const CODE_GEN_ALIGN: Record<string, string> = { MIN: 'flex-start', CENTER: 'center', MAX: 'flex-end', BASELINE: 'baseline' };
+const CODE_GEN_TEXT_CASE: Record<string, string> = { UPPER: 'uppercase', LOWER: 'lowercase', TITLE: 'capitalize', SMALL_CAPS: 'small-caps' };
+
+function codeGenPx(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return rounded === 0 ? '0' : `${rounded}px`;
+}
+
+function codeGenColor(color: RGB | RGBA, opacity: number = 1): string {
+  const alpha = ('a' in color ? color.a : 1) * opacity;
+  const channel = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  if (alpha >= 1) return designTokenColor(color, 1).hex;
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(alpha * 1000) / 1000})`;
+}
+
+function codeGenEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function codeGenClassName(node: SceneNode, ctx: CodeGenContext): string {
+  const base = `${ctx.classPrefix}${cssTokenSlug(node.name) || node.type.toLowerCase()}`.replace(/^(\d)/, 'n$1');
+  let name = base;
+  for (let i = 2; ctx.classNames.has(name); i++) name = `${base}-${i}`;
+  ctx.classNames.add(name);
+  return name;
+}
+
+function codeGenAsset(node: SceneNode, format: 'SVG' | 'PNG', usage: CodeGenAsset['usage'], ctx: CodeGenContext): string {
+  const fileName = `${node.id.replace(/[^a-zA-Z0-9._-]+/g, '-')}.${format.toLowerCase()}`;
+  if (!ctx.assets.some((asset) => asset.fileName === fileName)) {
+    ctx.assets.push({ nodeId: node.id, name: node.name, format, fileName, usage });
+  }
+  return ctx.assetDir ? `${ctx.assetDir}/${fileName}` : fileName;
+}
+
+// Bound variables become var(--token, fallback) using the names export_design_tokens writes.
+async function codeGenValue(alias: VariableAlias | undefined, fallback: string, ctx: CodeGenContext): Promise<string> {
+  if (!alias || !alias.id) return fallback;
+  if (!ctx.variableNames.has(alias.id)) {
+    let name: string | null = null;
+    const variable = await figma.variables.getVariableByIdAsync(alias.id);
+    const collection = variable ? await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId) : null;
+    if (variable && collection) {
+      name = cssTokenName(designTokenPath(collection.name, variable.name));
+      ctx.variables.set(alias.id, { name: `--${name}`, variableId: variable.id, collection: collection.name });
+    }
+    ctx.variableNames.set(alias.id, name);
+  }
+  const name = ctx.variableNames.get(alias.id);
+  return name ? `var(--${name}, ${fallback})` : fallback;
+}
+
+function codeGenGradient(paint: GradientPaint, width: number, height: number): string {
+  const [[a, b, c], [d, e, f]] = paint.gradientTransform;
+  // Map gradient space back to node space to find the handle positions.
+  const det = a * e - b * d || 1;
+  const invert = (x: number, y: number) => ({
+    x: (e * (x - c) - b * (y - f)) / det,
+    y: (-d * (x - c) + a * (y - f)) / det,
+  });
+  const stops = paint.gradientStops
+    .map((stop) => `${codeGenColor(stop.color, paint.opacity ?? 1)} ${Math.round(stop.position * 10000) / 100}%`)
+    .join(', ');
+  if (paint.type === 'GRADIENT_LINEAR') {
+    const start = invert(0, 0.5);
+    const end = invert(1, 0.5);
+    const angle = Math.atan2((end.y - start.y) * height, (end.x - start.x) * width) * 180 / Math.PI + 90;
+    return `linear-gradient(${Math.round(angle * 100) / 100}deg, ${stops})`;
+  }
+  const center = invert(0.5, 0.5);
+  const at = `${Math.round(center.x * 10000) / 100}% ${Math.round(center.y * 10000) / 100}%`;
+  return paint.type === 'GRADIENT_ANGULAR'
+    ? `conic-gradient(from 90deg at ${at}, ${stops})`
+    : `radial-gradient(ellipse at ${at}, ${stops})`;
+}
+
+async function codeGenFills(node: SceneNode, styles: Record<string, string>, ctx: CodeGenContext, asText: boolean): Promise<void> {
+  const fills = 'fills' in node && Array.isArray(node.fills) ? (node.fills as Paint[]).filter((paint) => paint.visible !== false) : [];
+  if (fills.length === 0) return;
+  const width = 'width' in node ? node.width : 0;
+  const height = 'height' in node ? node.height : 0;
+  // Figma lists paints bottom-up, CSS backgrounds top-down.
+  const layers: string[] = [];
+  const ordered = [...fills].reverse();
+  for (let i = 0; i < ordered.length; i++) {
+    const paint = ordered[i];
+    if (paint.type === 'SOLID') {
+      const color = await codeGenValue(paint.boundVariables?.color, codeGenColor(paint.color, paint.opacity ?? 1), ctx);
+      if (asText) {
+        styles.color = color;
+        return;
+      }
+      // Only the bottom background layer may be a plain color.
+      layers.push(i === ordered.length - 1 ? color : `linear-gradient(${color}, ${color})`);
+    } else if (paint.type.startsWith('GRADIENT_')) {
+      if (asText) {
+        ctx.warnings.push(`${node.name}: gradient text fill approximated with the first stop`);
+        styles.color = codeGenColor((paint as GradientPaint).gradientStops[0].color);
+        return;
+      }
+      layers.push(codeGenGradient(paint as GradientPaint, width, height));
+    } else if (paint.type === 'IMAGE' && !asText) {
+      const src = codeGenAsset(node, 'PNG', 'background', ctx);
+      const size = paint.scaleMode === 'FIT' ? 'contain' : paint.scaleMode === 'TILE' ? 'auto' : 'cover';
+      layers.push(`url("${src}") center / ${size} ${paint.scaleMode === 'TILE' ? 'repeat' : 'no-repeat'}`);
+      if ('children' in node && node.children.length > 0) {
+        ctx.warnings.push(`${node.name}: image fill asset is exported with its children; hide them before export_node`);
       }
+    } else {
+      ctx.warnings.push(`${node.name}: ${paint.type} fill not supported`);
     }
   }
-  
-  return {
-    collections: collections.map(c => ({ id: c.id, name: c.name })),
-    variables: allVariables,
-  };
+  if (layers.length === 0) return;
+  if (layers.length === 1 && fills.length === 1 && fills[0].type === 'SOLID') styles['background-color'] = layers[0];
+  else styles.background = layers.join(', ');
 }
 
-let allPagesLoaded = false;
-async function ensureAllPagesLoaded(): Promise<void> {
-  if (allPagesLoaded) return;
-  await figma.loadAllPagesAsync();
-  allPagesLoaded = true;
+async function codeGenStrokes(node: SceneNode, styles: Record<string, string>, ctx: CodeGenContext): Promise<void> {
+  if (!('strokes' in node) || node.type === 'TEXT') return;
+  const stroke = (node.strokes as Paint[]).find((paint) => paint.visible !== false);
+  if (!stroke) return;
+  if (stroke.type !== 'SOLID') {
+    ctx.warnings.push(`${node.name}: ${stroke.type} stroke approximated as transparent`);
+    return;
+  }
+  const color = await codeGenValue(stroke.boundVariables?.color, codeGenColor(stroke.color, stroke.opacity ?? 1), ctx);
+  const geometry = node as any;
+  const dashed = Array.isArray(geometry.dashPattern) && geometry.dashPattern.length > 0 ? 'dashed' : 'solid';
+  if (typeof geometry.strokeWeight === 'number') {
+    // outline keeps Figma's "strokes do not affect layout" and follows border-radius.
+    const weight = geometry.strokeWeight;
+    styles.outline = `${codeGenPx(weight)} ${dashed} ${color}`;
+    const offset = geometry.strokeAlign === 'INSIDE' ? -weight : geometry.strokeAlign === 'CENTER' ? -weight / 2 : 0;
+    if (offset !== 0) styles['outline-offset'] = codeGenPx(offset);
+    return;
+  }
+  for (const side of ['Top', 'Right', 'Bottom', 'Left']) {
+    const weight = geometry[`stroke${side}Weight`];
+    if (weight > 0) styles[`border-${side.toLowerCase()}`] = `${codeGenPx(weight)} ${dashed} ${color}`;
+  }
+}
+
+function codeGenEffects(node: SceneNode, styles: Record<string, string>): void {
+  if (!('effects' in node)) return;
+  const shadows: string[] = [];
+  for (const effect of node.effects) {
+    if (effect.visible === false) continue;
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      const parts = [
+        effect.type === 'INNER_SHADOW' ? 'inset' : '',
+        codeGenPx(effect.offset.x), codeGenPx(effect.offset.y), codeGenPx(effect.radius),
+        node.type === 'TEXT' ? '' : codeGenPx(effect.spread ?? 0),
+        codeGenColor(effect.color),
+      ];
+      if (node.type !== 'TEXT' || effect.type === 'DROP_SHADOW') shadows.push(parts.filter(Boolean).join(' '));
+    } else if (effect.type === 'LAYER_BLUR') {
+      styles.filter = `blur(${codeGenPx(effect.radius / 2)})`;
+    } else if (effect.type === 'BACKGROUND_BLUR') {
+      styles['backdrop-filter'] = `blur(${codeGenPx(effect.radius / 2)})`;
+    }
+  }
+  if (shadows.length > 0) styles[node.type === 'TEXT' ? 'text-shadow' : 'box-shadow'] = shadows.join(', ');
+}
+
+async function codeGenBox(node: SceneNode, styles: Record<string, string>, ctx: CodeGenContext): Promise<void> {
+  const bound: Record<string, any> = (node as any).boundVariables ?? {};
+  const frame = node as any;
+  if ('layoutMode' in node && frame.layoutMode !== 'NONE') {
+    styles.display = 'flex';
+    styles['flex-direction'] = frame.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
+    if (frame.layoutWrap === 'WRAP') styles['flex-wrap'] = 'wrap';
+    const justify = CODE_GEN_JUSTIFY[frame.primaryAxisAlignItems];
+    if (justify && justify !== 'flex-start') styles['justify-content'] = justify;
+    const align = CODE_GEN_ALIGN[frame.counterAxisAlignItems];
+    if (align && align !== 'flex-start') styles['align-items'] = align;
+    if (frame.itemSpacing < 0) {
+      ctx.warnings.push(`${node.name}: negative item spacing has no flexbox equivalent and was dropped`);
+    } else if (frame.primaryAxisAlignItems !== 'SPACE_BETWEEN' && frame.itemSpacing) {
+      styles.gap = await codeGenValue(bound.itemSpacing, codeGenPx(frame.itemSpacing), ctx);
+    }
+    if (frame.layoutWrap === 'WRAP' && frame.counterAxisSpacing) {
+      styles['row-gap'] = await codeGenValue(bound.counterAxisSpacing, codeGenPx(frame.counterAxisSpacing), ctx);
+    }
+    const padding = [];
+    for (const side of ['Top', 'Right', 'Bottom', 'Left']) {
+      padding.push(await codeGenValue(bound[`padding${side}`], codeGenPx(frame[`padding${side}`] ?? 0), ctx));
+    }
+    if (padding.some((value) => value !== '0')) {
+      styles.padding = padding.every((value) => value === padding[0]) ? padding[0]
+        : padding[0] === padding[2] && padding[1] === padding[3] ? `${padding[0]} ${padding[1]}`
+          : padding.join(' ');
+    }
+  }
+  if ('topLeftRadius' in node) {
+    const radii = [];
+    for (const corner of ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius']) {
+      radii.push(await codeGenValue(bound[corner], codeGenPx(frame[corner] ?? 0), ctx));
+    }
+    if (radii.some((value) => value !== '0')) {
+      styles['border-radius'] = radii.every((value) => value === radii[0]) ? radii[0] : radii.join(' ');
+    }
+  } else if (node.type === 'ELLIPSE') {
+    styles['border-radius'] = '50%';
+  } else if (typeof frame.cornerRadius === 'number' && frame.cornerRadius > 0) {
+    styles['border-radius'] = codeGenPx(frame.cornerRadius);
+  }
+  if (frame.clipsContent) styles.overflow = 'hidden';
+  if ('opacity' in node && node.opacity < 1) {
+    styles.opacity = await codeGenValue(bound.opacity, String(Math.round(node.opacity * 1000) / 1000), ctx);
+  }
+  if ('blendMode' in node && node.blendMode !== 'PASS_THROUGH' && node.blendMode !== 'NORMAL') {
+    styles['mix-blend-mode'] = node.blendMode.toLowerCase().replace(/_/g, '-');
+  }
 }
 
-async function deleteVariable(variableId: string, unbindNodes: boolean = true): Promise<any> {
-  const variable = await figma.variables.getVariableByIdAsync(variableId);
-  if (!variable) throw new Error('Variable not found');
-  
-  variable.remove();
-  
-  return { deleted: true, variableId };
-}
+// Size and position from auto layout sizing (flow children) or constraints (absolute children).
+async function codeGenLayout(
+  node: SceneNode,
+  parent: SceneNode | null,
+  origin: { x: number; y: number },
+  styles: Record<string, string>,
+  ctx: CodeGenContext
+): Promise<void> {
+  const item = node as any;
+  const bound: Record<string, any> = item.boundVariables ?? {};
+  const parentFrame = parent as any;
+  const parentFlex = !!parentFrame && 'layoutMode' in parentFrame && parentFrame.layoutMode !== 'NONE';
+  const inFlow = parentFlex && item.layoutPositioning !== 'ABSOLUTE';
+  let sizingH: string = item.layoutSizingHorizontal ?? 'FIXED';
+  let sizingV: string = item.layoutSizingVertical ?? 'FIXED';
+  if (node.type === 'TEXT') {
+    if (item.textAutoResize === 'WIDTH_AND_HEIGHT') sizingH = sizingV = 'HUG';
+    else if (item.textAutoResize === 'HEIGHT') sizingV = 'HUG';
+  }
+  if (!inFlow) {
+    if (sizingH === 'FILL') sizingH = 'FIXED';
+    if (sizingV === 'FILL') sizingV = 'FIXED';
+  }
+  const width = await codeGenValue(bound.width, codeGenPx(item.width), ctx);
+  const height = await codeGenValue(bound.height, codeGenPx(item.height), ctx);
+
+  if (inFlow) {
+    const horizontal = parentFrame.layoutMode === 'HORIZONTAL';
+    const axes: Array<[string, string, string]> = [['width', sizingH, width], ['height', sizingV, height]];
+    for (const [dimension, sizing, value] of axes) {
+      const primary = (dimension === 'width') === horizontal;
+      if (sizing === 'FILL') {
+        if (primary) {
+          styles.flex = '1 1 0';
+          styles[`min-${dimension}`] = '0';
+        } else {
+          styles['align-self'] = 'stretch';
+        }
+      } else if (sizing === 'FIXED') {
+        styles[dimension] = value;
+        if (primary) styles['flex-shrink'] = '0';
+      }
+    }
+  } else if (parent) {
+    styles.position = 'absolute';
+    const parentWidth = parentFrame.type === 'GROUP' ? 0 : parentFrame.width;
+    const parentHeight = parentFrame.type === 'GROUP' ? 0 : parentFrame.height;
+    const constraints = parentFrame.type === 'GROUP' || !item.constraints
+      ? { horizontal: 'MIN', vertical: 'MIN' }
+      : item.constraints;
+    const axes: Array<[string, string, string, string, number, number, number, string, string]> = [
+      ['left', 'right', 'width', constraints.horizontal, item.x - origin.x, item.width, parentWidth, sizingH, width],
+      ['top', 'bottom', 'height', constraints.vertical, item.y - origin.y, item.height, parentHeight, sizingV, height],
+    ];
+    const translate: string[] = [];
+    for (const [start, end, dimension, constraint, offset, size, parentSize, sizing, value] of axes) {
+      if (constraint === 'MAX') {
+        styles[end] = codeGenPx(parentSize - offset - size);
+      } else if (constraint === 'STRETCH') {
+        styles[start] = codeGenPx(offset);
+        styles[end] = codeGenPx(parentSize - offset - size);
+        continue;
+      } else if (constraint === 'CENTER') {
+        styles[start] = `calc(50% + ${codeGenPx(offset + size / 2 - parentSize / 2)})`;
+        translate.push(dimension === 'width' ? 'translateX(-50%)' : 'translateY(-50%)');
+      } else if (constraint === 'SCALE' && parentSize > 0) {
+        styles[start] = `${Math.round(offset / parentSize * 10000) / 100}%`;
+        styles[dimension] = `${Math.round(size / parentSize * 10000) / 100}%`;
+        continue;
+      } else {
+        styles[start] = codeGenPx(offset);
+      }
+      if (sizing !== 'HUG') styles[dimension] = value;
+    }
+    if (translate.length > 0) styles.transform = translate.join(' ');
+  } else {
+    if (sizingH !== 'HUG') styles.width = width;
+    if (sizingV !== 'HUG') styles.height = height;
+  }
 
-// ===== PAGE MANAGEMENT =====
+  for (const limit of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight']) {
+    if (typeof item[limit] === 'number') {
+      styles[limit.replace(/[A-Z]/, (c) => `-${c.toLowerCase()}`)] = await codeGenValue(bound[limit], codeGenPx(item[limit]), ctx);
+    }
+  }
+  if (typeof item.rotation === 'number' && Math.abs(item.rotation) > 0.01) {
+    // Figma rotates around the top-left corner, counter-clockwise.
+    styles.transform = [styles.transform, `rotate(${Math.round(-item.rotation * 100) / 100}deg)`].filter(Boolean).join(' ');
+    styles['transform-origin'] = 'top left';
+  }
+}
 
-async function createPage(name: string, index?: number): Promise<any> {
-  await ensureAllPagesLoaded();
-  const page = figma.createPage();
-  page.name = name;
-  
-  if (index !== undefined) {
-    figma.root.insertChild(index, page);
+async function codeGenTextStyles(
+  source: any,
+  node: TextNode,
+  ctx: CodeGenContext
+): Promise<Record<string, string>> {
+  const styles: Record<string, string> = {};
+  const bound: Record<string, any> = source.boundVariables ?? {};
+  const fontName = source.fontName as FontName;
+  if (fontName && typeof fontName === 'object') {
+    styles['font-family'] = await codeGenValue(bound.fontFamily, JSON.stringify(fontName.family), ctx);
+    styles['font-weight'] = await codeGenValue(bound.fontWeight, String(fontWeightFromStyle(fontName.style)), ctx);
+    if (/italic|oblique/i.test(fontName.style)) styles['font-style'] = 'italic';
   }
-  
-  return { pageId: page.id, name: page.name, index: figma.root.children.indexOf(page) };
+  if (typeof source.fontSize === 'number') styles['font-size'] = await codeGenValue(bound.fontSize, codeGenPx(source.fontSize), ctx);
+  const lineHeight = source.lineHeight as LineHeight;
+  if (lineHeight && typeof lineHeight === 'object') {
+    const value = lineHeight.unit === 'AUTO' ? 'normal'
+      : lineHeight.unit === 'PERCENT' ? String(Math.round(lineHeight.value) / 100)
+        : codeGenPx(lineHeight.value);
+    styles['line-height'] = await codeGenValue(bound.lineHeight, value, ctx);
+  }
+  const letterSpacing = source.letterSpacing as LetterSpacing;
+  if (letterSpacing && typeof letterSpacing === 'object' && letterSpacing.value !== 0) {
+    const value = letterSpacing.unit === 'PERCENT' ? `${Math.round(letterSpacing.value) / 100}em` : codeGenPx(letterSpacing.value);
+    styles['letter-spacing'] = await codeGenValue(bound.letterSpacing, value, ctx);
+  }
+  if (source.textCase && CODE_GEN_TEXT_CASE[source.textCase]) {
+    styles[source.textCase === 'SMALL_CAPS' ? 'font-variant' : 'text-transform'] = CODE_GEN_TEXT_CASE[source.textCase];
+  }
+  if (source.textDecoration === 'UNDERLINE') styles['text-decoration'] = 'underline';
+  else if (source.textDecoration === 'STRIKETHROUGH') styles['text-decoration'] = 'line-through';
+  if (Array.isArray(source.fills)) {
+    await codeGenFills({ ...node, name: node.name, fills: source.fills } as any, styles, ctx, true);
+  }
+  return styles;
 }
 
-async function deletePage(pageId: string, confirm: boolean = false): Promise<any> {
-  await ensureAllPagesLoaded();
-  const page = await figma.getNodeByIdAsync(pageId) as PageNode;
-  if (!page || page.type !== 'PAGE') throw new Error('Page not found');
-  
-  if (figma.root.children.length <= 1) {
-    throw new Error('Cannot delete the last page');
+async function codeGenText(node: TextNode, element: CodeGenNode, ctx: CodeGenContext): Promise<void> {
+  const fields: Array<keyof Omit<StyledTextSegment, 'characters' | 'start' | 'end'>> = [
+    'fontName', 'fontSize', 'fills', 'textDecoration', 'textCase', 'letterSpacing', 'lineHeight', 'boundVariables',
+  ];
+  let segments: any[] = [];
+  try {
+    segments = node.getStyledTextSegments(fields);
+  } catch {
+    segments = [{ characters: node.characters, fontName: node.fontName, fontSize: node.fontSize, fills: node.fills,
+      textDecoration: node.textDecoration, textCase: node.textCase, letterSpacing: node.letterSpacing, lineHeight: node.lineHeight }];
   }
+  if (segments.length === 0) segments = [{ characters: node.characters }];
 
-  let switchedPageId: string | null = null;
-  if (figma.currentPage.id === pageId) {
-    const fallback = figma.root.children.find((p) => p.id !== pageId);
-    if (!fallback) {
-      throw new Error('Cannot delete the active page because no fallback page exists');
+  // The element carries the first segment's typography; later segments only restate what differs.
+  const base = await codeGenTextStyles(segments[0], node, ctx);
+  Object.assign(element.styles, base);
+  const align = node.textAlignHorizontal;
+  if (align && align !== 'LEFT') element.styles['text-align'] = align === 'JUSTIFIED' ? 'justify' : align.toLowerCase();
+  if (node.textAutoResize === 'WIDTH_AND_HEIGHT') element.styles['white-space'] = 'nowrap';
+  if ((node as any).textTruncation === 'ENDING') {
+    element.styles.overflow = 'hidden';
+    element.styles['text-overflow'] = 'ellipsis';
+  }
+  element.text = [];
+  for (const segment of segments) {
+    const styles = await codeGenTextStyles(segment, node, ctx);
+    const diff: Record<string, string> = {};
+    for (const [property, value] of Object.entries(styles)) {
+      if (base[property] !== value) diff[property] = value;
     }
-    await figma.setCurrentPageAsync(fallback);
-    switchedPageId = fallback.id;
+    element.text.push({ text: String(segment.characters ?? ''), styles: diff });
   }
-
-  page.remove();
-  
-  return { deleted: true, pageId, switchedPageId };
 }
 
-async function renamePage(pageId: string, newName: string): Promise<any> {
-  await ensureAllPagesLoaded();
-  const page = await figma.getNodeByIdAsync(pageId) as PageNode;
-  if (!page || page.type !== 'PAGE') throw new Error('Page not found');
-  
-  page.name = newName;
-  
-  return { pageId, name: page.name };
+function codeGenIsAsset(node: SceneNode): boolean {
+  if (CODE_GEN_VECTOR_TYPES.has(node.type)) return true;
+  if (node.type === 'ELLIPSE') {
+    const arc = (node as EllipseNode).arcData;
+    return !!arc && (arc.innerRadius > 0 || Math.abs(arc.endingAngle - arc.startingAngle) < Math.PI * 2 - 0.001);
+  }
+  return (node as any).isAsset === true && node.type !== 'RECTANGLE' && node.type !== 'TEXT';
 }
 
-async function reorderPages(pageIds: string[]): Promise<any> {
-  await ensureAllPagesLoaded();
-  // Remove all pages first
-  const pages: PageNode[] = [];
-  for (const id of pageIds) {
-    const page = await figma.getNodeByIdAsync(id) as PageNode;
-    if (page) pages.push(page);
+async function buildCodeGenNode(
+  node: SceneNode,
+  parent: SceneNode | null,
+  origin: { x: number; y: number },
+  depth: number,
+  ctx: CodeGenContext
+): Promise<CodeGenNode | null> {
+  const refs = ctx.componentProps ? (node as any).componentPropertyReferences : null;
+  if (node.visible === false && !refs?.visible) return null;
+  if (ctx.remaining <= 0) {
+    ctx.warnings.push(`Node limit reached; ${node.name} and later siblings were skipped`);
+    return null;
   }
-  
-  // Re-add in new order
-  for (const page of pages) {
-    figma.root.appendChild(page);
+  ctx.remaining -= 1;
+
+  const element: CodeGenNode = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    tag: node.type === 'TEXT' ? 'p' : 'div',
+    className: codeGenClassName(node, ctx),
+    styles: {},
+    children: [],
+  };
+  if (node.type === 'INSTANCE') {
+    try {
+      element.component = (node as InstanceNode).mainComponent?.name;
+    } catch {
+      // Dynamic-page mode can throw on sync access; omit optional field.
+    }
   }
-  
-  return { reordered: pages.length };
+  if (refs && Object.keys(refs).length > 0) element.refs = { ...refs };
+  await codeGenLayout(node, parent, origin, element.styles, ctx);
+
+  if (node.type === 'INSTANCE' && ctx.instanceRef) {
+    const instance = await ctx.instanceRef(node as InstanceNode);
+    if (instance) {
+      element.instance = instance;
+      return element;
+    }
+  }
+  if (codeGenIsAsset(node)) {
+    element.tag = 'img';
+    element.src = codeGenAsset(node, 'SVG', 'img', ctx);
+    return element;
+  }
+  const fills = 'fills' in node && Array.isArray(node.fills) ? (node.fills as Paint[]).filter((paint) => paint.visible !== false) : [];
+  if (node.type === 'RECTANGLE' && fills.length === 1 && fills[0].type === 'IMAGE') {
+    element.tag = 'img';
+    element.src = codeGenAsset(node, 'PNG', 'img', ctx);
+    element.styles['object-fit'] = fills[0].scaleMode === 'FIT' ? 'contain' : 'cover';
+    await codeGenBox(node, element.styles, ctx);
+    return element;
+  }
+
+  if (node.type === 'TEXT') {
+    await codeGenText(node as TextNode, element, ctx);
+  } else {
+    await codeGenFills(node, element.styles, ctx, false);
+    await codeGenStrokes(node, element.styles, ctx);
+    await codeGenBox(node, element.styles, ctx);
+  }
+  codeGenEffects(node, element.styles);
+
+  if ('children' in node) {
+    if (depth >= ctx.maxDepth) {
+      ctx.warnings.push(`${node.name}: children deeper than maxDepth ${ctx.maxDepth} were skipped`);
+    } else {
+      // Group children are positioned relative to the group's own parent frame.
+      const childOrigin = node.type === 'GROUP' ? { x: (node as GroupNode).x, y: (node as GroupNode).y } : { x: 0, y: 0 };
+      const flex = 'layoutMode' in node && (node as FrameNode).layoutMode !== 'NONE';
+      const absoluteChildren = node.children.some((child) => !flex || (child as any).layoutPositioning === 'ABSOLUTE');
+      if (absoluteChildren && !element.styles.position) element.styles.position = 'relative';
+      for (const child of node.children) {
+        const built = await buildCodeGenNode(child, node, childOrigin, depth + 1, ctx);
+        if (built) element.children.push(built);
+      }
+    }
+  }
+  return element;
 }
 
-async function duplicatePage(pageId: string, newName?: string): Promise<any> {
-  await ensureAllPagesLoaded();
-  const page = await figma.getNodeByIdAsync(pageId) as PageNode;
-  if (!page || page.type !== 'PAGE') throw new Error('Page not found');
-  
-  const newPage = figma.createPage();
-  newPage.name = newName || `${page.name} Copy`;
-  
-  // Clone all children
-  for (const child of page.children) {
-    const clone = child.clone();
-    newPage.appendChild(clone);
+function renderCodeGenCss(root: CodeGenNode): string {
+  const rules: string[] = [
+    `.${root.className}, .${root.className} * {\n  box-sizing: border-box;\n  margin: 0;\n}`,
+  ];
+  const visit = (element: CodeGenNode) => {
+    const declarations = Object.entries(element.styles).map(([property, value]) => `  ${property}: ${value};`);
+    if (declarations.length > 0) rules.push(`.${element.className} {\n${declarations.join('\n')}\n}`);
+    element.children.forEach(visit);
+  };
+  visit(root);
+  return rules.join('\n\n');
+}
+
+function renderCodeGenHtml(element: CodeGenNode, indent: string = ''): string {
+  const attributes = [`class="${element.className}"`];
+  if (element.component) attributes.push(`data-component="${codeGenEscape(element.component)}"`);
+  if (element.tag === 'img') {
+    return `${indent}<img ${attributes.join(' ')} src="${codeGenEscape(element.src ?? '')}" alt="${codeGenEscape(element.name)}" />`;
+  }
+  if (element.text) {
+    const inner = element.text.map((segment) => {
+      const text = codeGenEscape(segment.text).replace(/\r\n|\n|\u2028/g, '<br />');
+      const style = Object.entries(segment.styles).map(([property, value]) => `${property}: ${value}`).join('; ');
+      return style ? `<span style="${codeGenEscape(style)}">${text}</span>` : text;
+    }).join('');
+    return `${indent}<${element.tag} ${attributes.join(' ')}>${inner}</${element.tag}>`;
+  }
+  if (element.children.length === 0) return `${indent}<${element.tag} ${attributes.join(' ')}></${element.tag}>`;
+  const children = element.children.map((child) => renderCodeGenHtml(child, `${indent}  `)).join('\n');
+  return `${indent}<${element.tag} ${attributes.join(' ')}>\n${children}\n${indent}</${element.tag}>`;
+}
+
+async function generateCode(payload: any): Promise<any> {
+  const target: CodeGenTarget = payload.target ?? 'html-css';
+  if (!CODE_GEN_TARGETS.includes(target)) {
+    throw new Error(`Unsupported target: ${target}. Supported: ${CODE_GEN_TARGETS.join(', ')}`);
+  }
+  const node = payload.nodeId
+    ? await figma.getNodeByIdAsync(payload.nodeId) as SceneNode | null
+    : figma.currentPage.selection[0] ?? null;
+  if (!node) throw new Error(payload.nodeId ? `Node not found: ${payload.nodeId}` : 'No nodeId given and nothing is selected');
+  if (node.type === 'DOCUMENT' as string || node.type === 'PAGE' as string) throw new Error('generate_code needs a scene node, not a page');
+
+  const ctx: CodeGenContext = {
+    assetDir: typeof payload.assetDir === 'string' ? payload.assetDir.replace(/\/+$/, '') : 'assets',
+    classPrefix: typeof payload.classPrefix === 'string' ? payload.classPrefix : '',
+    maxDepth: payload.maxDepth ?? 20,
+    remaining: payload.maxNodes ?? 1000,
+    assets: [],
+    warnings: [],
+    classNames: new Set(),
+    variables: new Map(),
+    variableNames: new Map(),
+  };
+  const root = await buildCodeGenNode(node, null, { x: 0, y: 0 }, 0, ctx);
+  if (!root) throw new Error(`Node ${node.id} is hidden`);
+
+  const html = renderCodeGenHtml(root);
+  const css = renderCodeGenCss(root);
+  return {
+    target,
+    nodeId: node.id,
+    name: node.name,
+    // Self-contained: var() references carry the current values as fallbacks.
+    code: `<style>\n${css}\n</style>\n${html}\n`,
+    html,
+    css,
+    assets: ctx.assets,
+    variables: [...ctx.variables.values()],
+    warnings: [...new Set(ctx.warnings)],
+    nodeCount: (payload.maxNodes ?? 1000) - ctx.remaining,
+  };
+}
+
+// React components: one file per component (set), variants as branches on typed props,
+// component properties as props/slots and nested instances as imports of sibling files.
+
+type ReactCodeGenStyling = 'tailwind' | 'css-modules';
+
+interface ReactCodeGenProp {
+  name: string;
+  figmaName: string;
+  type: ComponentPropertyType;
+  tsType: string;
+  defaultValue?: string;
+}
+
+interface ReactCodeGenState {
+  styling: ReactCodeGenStyling;
+  includeDependencies: boolean;
+  maxComponents: number;
+  shared: Pick<CodeGenContext, 'assetDir' | 'maxDepth' | 'assets' | 'warnings' | 'variables' | 'variableNames'>;
+  remaining: number;
+  // Component (set) id -> generated component name.
+  names: Map<string, string>;
+  queue: Array<ComponentNode | ComponentSetNode>;
+  files: Array<{ name: string; content: string }>;
+  components: Array<{ componentName: string; nodeId: string; type: string; props: ReactCodeGenProp[]; file: string }>;
+}
+
+const REACT_RESERVED_PROPS = new Set(['className', 'children', 'key', 'ref', 'style']);
+const TAILWIND_KEYWORDS: Record<string, string> = {
+  'display:flex': 'flex', 'flex-direction:row': 'flex-row', 'flex-direction:column': 'flex-col', 'flex-wrap:wrap': 'flex-wrap',
+  'justify-content:flex-start': 'justify-start', 'justify-content:center': 'justify-center',
+  'justify-content:flex-end': 'justify-end', 'justify-content:space-between': 'justify-between',
+  'align-items:flex-start': 'items-start', 'align-items:center': 'items-center', 'align-items:flex-end': 'items-end',
+  'align-items:baseline': 'items-baseline', 'align-self:stretch': 'self-stretch',
+  'flex:1 1 0': 'flex-1', 'flex-shrink:0': 'shrink-0', 'min-width:0': 'min-w-0', 'min-height:0': 'min-h-0',
+  'position:absolute': 'absolute', 'position:relative': 'relative', 'overflow:hidden': 'overflow-hidden',
+  'text-align:center': 'text-center', 'text-align:right': 'text-right', 'text-align:justify': 'text-justify',
+  'white-space:nowrap': 'whitespace-nowrap', 'text-overflow:ellipsis': 'text-ellipsis', 'font-style:italic': 'italic',
+  'text-transform:uppercase': 'uppercase', 'text-transform:lowercase': 'lowercase', 'text-transform:capitalize': 'capitalize',
+  'text-decoration:underline': 'underline', 'text-decoration:line-through': 'line-through',
+  'object-fit:cover': 'object-cover', 'object-fit:contain': 'object-contain', 'transform-origin:top left': 'origin-top-left',
+  'border-radius:50%': 'rounded-full',
+};
+const TAILWIND_PREFIXES: Record<string, string> = {
+  width: 'w', height: 'h', 'min-width': 'min-w', 'max-width': 'max-w', 'min-height': 'min-h', 'max-height': 'max-h',
+  gap: 'gap', 'row-gap': 'gap-y', padding: 'p', left: 'left', right: 'right', top: 'top', bottom: 'bottom',
+  'border-radius': 'rounded', 'font-size': 'text', 'line-height': 'leading', 'letter-spacing': 'tracking',
+  opacity: 'opacity', 'background-color': 'bg', color: 'text', 'box-shadow': 'shadow',
+};
+const TAILWIND_FONT_WEIGHTS: Record<string, string> = {
+  100: 'thin', 200: 'extralight', 300: 'light', 400: 'normal', 500: 'medium',
+  600: 'semibold', 700: 'bold', 800: 'extrabold', 900: 'black',
+};
+// Tailwind cannot infer the type of var() values for these utilities.
+const TAILWIND_TYPE_HINTS: Record<string, string> = { 'font-size': 'length', color: 'color', 'background-color': 'color' };
+
+function tsString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function reactComponentName(name: string): string {
+  const words = String(name).replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const pascal = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`;
+}
+
+function reactPropName(figmaName: string, taken: Set<string>): string {
+  // Figma suffixes non-variant property keys with "#<id>".
+  const words = figmaName.replace(/#[^#]*$/, '').replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  let name = words.map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1)).join('') || 'prop';
+  if (/^\d/.test(name)) name = `_${name}`;
+  if (REACT_RESERVED_PROPS.has(name)) name = `${name}Prop`;
+  let unique = name;
+  for (let i = 2; taken.has(unique); i++) unique = `${name}${i}`;
+  taken.add(unique);
+  return unique;
+}
+
+function tailwindClasses(styles: Record<string, string>): string[] {
+  const classes: string[] = [];
+  for (const [property, value] of Object.entries(styles)) {
+    if (property === 'box-sizing' || property === 'margin') continue;
+    const keyword = TAILWIND_KEYWORDS[`${property}:${value}`]
+      ?? (property === 'font-weight' && TAILWIND_FONT_WEIGHTS[value] ? `font-${TAILWIND_FONT_WEIGHTS[value]}` : undefined);
+    if (keyword) {
+      classes.push(keyword);
+      continue;
+    }
+    if (property === 'font-family' && !value.startsWith('var(')) {
+      classes.push(`font-[${value.replace(/"/g, "'").replace(/\s+/g, '_')}]`);
+      continue;
+    }
+    // Arbitrary values: spaces become underscores and double quotes would end the JSX attribute.
+    const arbitrary = value.replace(/_/g, '\\_').replace(/\s+/g, '_').replace(/"/g, "'");
+    const prefix = TAILWIND_PREFIXES[property];
+    if (prefix) {
+      const hint = value.startsWith('var(') && TAILWIND_TYPE_HINTS[property] ? `${TAILWIND_TYPE_HINTS[property]}:` : '';
+      classes.push(`${prefix}-[${hint}${arbitrary}]`);
+    } else {
+      classes.push(`[${property}:${arbitrary}]`);
+    }
   }
-  
-  return { pageId: newPage.id, name: newPage.name, copiedChildren: newPage.children.length };
+  return classes;
 }
 
-// ===== MEDIA & EXPORT =====
+function reactStyleObject(styles: Record<string, string>): string {
+  const entries = Object.entries(styles).map(([property, value]) => {
+    const key = property.replace(/-([a-z])/g, (_match, letter) => letter.toUpperCase());
+    return `${key}: ${JSON.stringify(value)}`;
+  });
+  return `{{ ${entries.join(', ')} }}`;
+}
 
-async function createImageFill(url?: string, hash?: string, nodeId?: string): Promise<any> {
-  let image: Image;
-  
-  if (hash) {
-    image = figma.getImageByHash(hash);
-    if (!image) throw new Error(`Image hash not found: ${hash}`);
-  } else if (url) {
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      const buffer = await response.arrayBuffer();
-      image = figma.createImage(new Uint8Array(buffer));
-      hash = image.hash;
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to load image URL. Ensure manifest networkAccess allows this domain. ${msg}`);
-    }
-  } else {
-    throw new Error('Either url or hash required');
-  }
-  
-  if (nodeId) {
-    const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-    if (node && 'fills' in node) {
-      const fills = (node as any).fills as Paint[];
-      const newFills: Paint[] = fills.map(f => {
-        if (f.type === 'SOLID') {
-          return {
-            type: 'IMAGE',
-            imageHash: hash!,
-            scaleMode: 'FILL',
-          } as ImagePaint;
-        }
-        return f;
+function reactText(text: string): string {
+  return text.split(/\r\n|\n|\u2028/).map((line) => /[{}<>&]/.test(line) ? `{${JSON.stringify(line)}}` : line).join('<br />');
+}
+
+// The component (set) a node generates as: sets win over their variants, instances use their main component.
+async function reactComponentSource(node: BaseNode): Promise<ComponentNode | ComponentSetNode | null> {
+  let source: BaseNode | null = node;
+  if (node.type === 'INSTANCE') source = await (node as InstanceNode).getMainComponentAsync();
+  if (source?.type === 'COMPONENT' && source.parent?.type === 'COMPONENT_SET') source = source.parent;
+  return source && (source.type === 'COMPONENT' || source.type === 'COMPONENT_SET') ? source as ComponentNode | ComponentSetNode : null;
+}
+
+function reactComponentNameFor(source: ComponentNode | ComponentSetNode, state: ReactCodeGenState): string {
+  const known = state.names.get(source.id);
+  if (known) return known;
+  const base = reactComponentName(source.name);
+  const used = new Set(state.names.values());
+  let name = base;
+  for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+  state.names.set(source.id, name);
+  state.queue.push(source);
+  return name;
+}
+
+function reactPropsFor(source: ComponentNode | ComponentSetNode): ReactCodeGenProp[] {
+  let definitions: ComponentPropertyDefinitions = {};
+  try {
+    definitions = source.componentPropertyDefinitions;
+  } catch {
+    // Variants with conflicting property names make the getter throw.
+  }
+  const taken = new Set<string>();
+  const props: ReactCodeGenProp[] = [];
+  for (const [figmaName, definition] of Object.entries(definitions)) {
+    const name = reactPropName(figmaName, taken);
+    if (definition.type === 'VARIANT') {
+      const options = definition.variantOptions ?? [];
+      props.push({
+        name, figmaName, type: 'VARIANT',
+        tsType: options.length > 0 ? options.map(tsString).join(' | ') : 'string',
+        defaultValue: tsString(String(definition.defaultValue)),
       });
-      (node as any).fills = newFills;
+    } else if (definition.type === 'BOOLEAN') {
+      props.push({ name, figmaName, type: 'BOOLEAN', tsType: 'boolean', defaultValue: String(definition.defaultValue === true) });
+    } else if (definition.type === 'TEXT') {
+      props.push({ name, figmaName, type: 'TEXT', tsType: 'string', defaultValue: tsString(String(definition.defaultValue)) });
+    } else {
+      props.push({ name, figmaName, type: 'INSTANCE_SWAP', tsType: 'React.ReactNode' });
     }
   }
-  
-  return { hash: image?.hash, nodeId };
+  return props;
 }
 
-async function exportNode(nodeId: string, format: 'PNG' | 'SVG' | 'PDF' | 'JPG', scale: number = 1, suffix?: string): Promise<any> {
-  const node = await figma.getNodeByIdAsync(nodeId) as SceneNode;
-  if (!node) throw new Error('Node not found');
-  
-  const bytes = await node.exportAsync({
-    format,
-    constraint: { type: 'SCALE', value: scale },
-  });
-  
-  // Convert to base64 for transfer
-  const base64 = figma.base64Encode(bytes);
-  
-  return {
-    nodeId,
-    format,
-    scale,
-    suffix,
-    bytesLength: bytes.length,
-    base64: base64.slice(0, 100) + '...', // Truncate for display
+// JSX attributes for a nested instance; only properties that differ from the component defaults are passed.
+async function reactInstanceRef(node: InstanceNode, state: ReactCodeGenState): Promise<CodeGenNode['instance'] | null> {
+  const source = await reactComponentSource(node);
+  if (!source) return null;
+  const componentName = reactComponentNameFor(source, state);
+  const props = reactPropsFor(source);
+  const attributes: Array<[string, string]> = [];
+  let values: InstanceNode['componentProperties'] = {};
+  try {
+    values = node.componentProperties;
+  } catch {
+    // Broken instances can throw; render with defaults.
+  }
+  for (const prop of props) {
+    const value = values[prop.figmaName]?.value;
+    if (value === undefined) continue;
+    if (prop.type === 'INSTANCE_SWAP') {
+      const swapped = await figma.getNodeByIdAsync(String(value));
+      const swappedSource = swapped ? await reactComponentSource(swapped) : null;
+      let definitionDefault: any;
+      try {
+        definitionDefault = source.componentPropertyDefinitions[prop.figmaName]?.defaultValue;
+      } catch {
+        definitionDefault = undefined;
+      }
+      if (swappedSource && value !== definitionDefault) {
+        attributes.push([prop.name, `{<${reactComponentNameFor(swappedSource, state)} />}`]);
+      }
+      continue;
+    }
+    const literal = prop.type === 'BOOLEAN' ? String(value === true) : tsString(String(value));
+    if (literal === prop.defaultValue) continue;
+    attributes.push([prop.name, prop.type === 'BOOLEAN' ? `{${literal}}` : JSON.stringify(String(value))]);
+  }
+  return { componentName, props: attributes };
+}
+
+function renderReactJsx(
+  element: CodeGenNode,
+  props: ReactCodeGenProp[],
+  state: ReactCodeGenState,
+  indent: string,
+  isRoot: boolean
+): string {
+  const propFor = (key?: string) => key ? props.find((prop) => prop.figmaName === key) : undefined;
+  const tailwind = tailwindClasses(element.styles).join(' ');
+  const classes = state.styling === 'tailwind' ? tsString(tailwind) : `styles[${tsString(element.className)}]`;
+  const className = isRoot
+    ? `{[${classes}, className].filter(Boolean).join(' ')}`
+    : state.styling === 'tailwind' ? JSON.stringify(tailwind) : `{${classes}}`;
+  const visible = propFor(element.refs?.visible);
+  const inner = visible ? `${indent}  ` : indent;
+
+  let jsx: string;
+  if (element.instance) {
+    const attributes = [`className=${className}`, ...element.instance.props.map(([name, value]) => `${name}=${value}`)];
+    jsx = `<${element.instance.componentName} ${attributes.join(' ')} />`;
+    const slot = propFor(element.refs?.mainComponent);
+    // Slots are expressions; inside a visibility condition they need no extra braces.
+    if (slot) jsx = visible ? `${slot.name} ?? ${jsx}` : `{${slot.name} ?? ${jsx}}`;
+    jsx = `${inner}${jsx}`;
+  } else if (element.tag === 'img') {
+    jsx = `${inner}<img className=${className} src=${JSON.stringify(element.src ?? '')} alt=${JSON.stringify(element.name)} />`;
+  } else if (element.text) {
+    const bound = propFor(element.refs?.characters);
+    const content = bound ? `{${bound.name}}` : element.text.map((segment) => {
+      if (Object.keys(segment.styles).length === 0) return reactText(segment.text);
+      const attribute = state.styling === 'tailwind'
+        ? `className="${tailwindClasses(segment.styles).join(' ')}"`
+        : `style=${reactStyleObject(segment.styles)}`;
+      return `<span ${attribute}>${reactText(segment.text)}</span>`;
+    }).join('');
+    jsx = `${inner}<${element.tag} className=${className}>${content}</${element.tag}>`;
+  } else if (element.children.length === 0) {
+    jsx = `${inner}<${element.tag} className=${className} />`;
+  } else {
+    const children = element.children.map((child) => renderReactJsx(child, props, state, `${inner}  `, false)).join('\n');
+    jsx = `${inner}<${element.tag} className=${className}>\n${children}\n${inner}</${element.tag}>`;
+  }
+  if (!visible) return jsx;
+  return `${indent}{${visible.name} && (\n${jsx}\n${indent})}`;
+}
+
+async function generateReactFile(source: ComponentNode | ComponentSetNode, state: ReactCodeGenState): Promise<void> {
+  const componentName = state.names.get(source.id)!;
+  const props = reactPropsFor(source);
+  const ctx: CodeGenContext = {
+    ...state.shared,
+    classPrefix: '',
+    remaining: state.remaining,
+    classNames: new Set(),
+    componentProps: true,
+    instanceRef: (node) => reactInstanceRef(node, state),
   };
-}
 
-async function exportNodesBatch(exports: Array<{ nodeId: string; format: string; scale?: number; suffix?: string }>): Promise<any> {
-  const results: any[] = [];
-  const errors: any[] = [];
-  
-  for (const exp of exports) {
+  // Each variant renders as its own branch; the default variant is the fallback.
+  const variants: ComponentNode[] = source.type === 'COMPONENT_SET'
+    ? source.children.filter((child): child is ComponentNode => child.type === 'COMPONENT')
+    : [source];
+  const defaultVariant = source.type === 'COMPONENT_SET' ? source.defaultVariant ?? variants[0] : source;
+  const ordered = [...variants.filter((variant) => variant !== defaultVariant), defaultVariant];
+  const branches: string[] = [];
+  const cssRules: string[] = [];
+  for (const variant of ordered) {
+    const root = await buildCodeGenNode(variant, null, { x: 0, y: 0 }, 0, ctx);
+    if (!root) continue;
+    if (state.styling === 'css-modules') cssRules.push(renderCodeGenCss(root));
+    const body = `    return (\n${renderReactJsx(root, props, state, '      ', true)}\n    );`;
+    if (variant === defaultVariant) {
+      branches.push(body.replace(/^  /gm, ''));
+      continue;
+    }
+    const conditions: string[] = [];
+    let variantProperties: Record<string, string> = {};
     try {
-      const result = await exportNode(
-        exp.nodeId, 
-        exp.format as any, 
-        exp.scale || 1, 
-        exp.suffix
-      );
-      results.push(result);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      errors.push({ nodeId: exp.nodeId, error: msg });
+      variantProperties = variant.variantProperties ?? {};
+    } catch {
+      // Broken component sets can throw from the variantProperties getter.
     }
+    for (const [figmaName, value] of Object.entries(variantProperties)) {
+      const prop = props.find((candidate) => candidate.type === 'VARIANT' && candidate.figmaName === figmaName);
+      if (prop) conditions.push(`${prop.name} === ${tsString(value)}`);
+    }
+    if (conditions.length > 0) branches.push(`  if (${conditions.join(' && ')}) {\n${body}\n  }`);
   }
-  
-  return { exported: results.length, failed: errors.length, results, errors };
-}
-
-// ===== COMPONENT PROPERTIES =====
+  state.remaining = ctx.remaining;
 
-async function addComponentProperty(
-  componentId: string, 
-  name: string, 
-  type: string, 
-  defaultValue?: any
-): Promise<any> {
-  const component = await figma.getNodeByIdAsync(componentId) as ComponentNode;
-  if (!component || component.type !== 'COMPONENT') throw new Error('Component not found');
-  
-  // Note: Component property API may vary
-  // This is a placeholder implementation
-  return { 
-    componentId, 
-    propertyName: name, 
-    type,
-    note: 'Component properties may require manual configuration in Figma UI'
+  const imports = new Set<string>();
+  const referenced = branches.join('\n').matchAll(/<([A-Z][A-Za-z0-9]*)[\s>/]/g);
+  for (const match of referenced) {
+    if (match[1] !== componentName) imports.add(match[1]);
+  }
+  const header = [
+    "import React from 'react';",
+    ...[...imports].sort().map((name) => `import { ${name} } from './${name}';`),
+    ...(state.styling === 'css-modules' ? [`import styles from './${componentName}.module.css';`] : []),
+  ];
+  const propLines = props.map((prop) => `  ${prop.name}?: ${prop.tsType};`);
+  const destructured = [
+    ...props.map((prop) => prop.defaultValue !== undefined ? `${prop.name} = ${prop.defaultValue}` : prop.name),
+    'className',
+  ];
+  const content = [
+    ...header,
+    '',
+    `export interface ${componentName}Props {`,
+    ...propLines,
+    '  className?: string;',
+    '}',
+    '',
+    `export function ${componentName}({ ${destructured.join(', ')} }: ${componentName}Props) {`,
+    ...branches,
+    '}',
+    '',
+  ].join('\n');
+
+  const file = `${componentName}.tsx`;
+  state.files.push({ name: file, content });
+  if (state.styling === 'css-modules') state.files.push({ name: `${componentName}.module.css`, content: `${cssRules.join('\n\n')}\n` });
+  state.components.push({ componentName, nodeId: source.id, type: source.type, props, file });
+}
+
+async function generateReactComponent(payload: any): Promise<any> {
+  const styling: ReactCodeGenStyling = payload.styling ?? 'tailwind';
+  if (styling !== 'tailwind' && styling !== 'css-modules') {
+    throw new Error(`Unsupported styling: ${styling}. Supported: tailwind, css-modules`);
+  }
+  const node = payload.nodeId
+    ? await figma.getNodeByIdAsync(payload.nodeId)
+    : figma.currentPage.selection[0] ?? null;
+  if (!node) throw new Error(payload.nodeId ? `Node not found: ${payload.nodeId}` : 'No nodeId given and nothing is selected');
+  const source = await reactComponentSource(node);
+  if (!source) throw new Error(`Node ${node.id} is ${node.type}; generate_react_component needs a COMPONENT, COMPONENT_SET or INSTANCE`);
+
+  const state: ReactCodeGenState = {
+    styling,
+    includeDependencies: payload.includeDependencies !== false,
+    maxComponents: payload.maxComponents ?? 20,
+    shared: {
+      assetDir: typeof payload.assetDir === 'string' ? payload.assetDir.replace(/\/+$/, '') : 'assets',
+      maxDepth: payload.maxDepth ?? 20,
+      assets: [],
+      warnings: [],
+      variables: new Map(),
+      variableNames: new Map(),
+    },
+    remaining: payload.maxNodes ?? 2000,
+    names: new Map(),
+    queue: [],
+    files: [],
+    components: [],
   };
-}
+  state.names.set(source.id, typeof payload.componentName === 'string' && payload.componentName
+    ? reactComponentName(payload.componentName)
+    : reactComponentName(source.name));
 
-async function setComponentProperty(instanceId: string, propertyName: string, value: any): Promise<any> {
-  const node = await figma.getNodeByIdAsync(instanceId) as SceneNode | null;
-  if (!node) throw new Error('Node not found');
-  if (node.type !== 'INSTANCE') {
-    throw new Error(`Node ${instanceId} is ${node.type}. set_component_property only supports INSTANCE nodes.`);
+  await generateReactFile(source, state);
+  const dependencies: Array<{ componentName: string; nodeId: string; generated: boolean }> = [];
+  while (state.queue.length > 0) {
+    const next = state.queue.shift()!;
+    const generate = state.includeDependencies && state.components.length < state.maxComponents;
+    if (generate) await generateReactFile(next, state);
+    dependencies.push({ componentName: state.names.get(next.id)!, nodeId: next.id, generated: generate });
   }
-  const instance = node as InstanceNode;
-  
-  // Set component property
-  if (instance.componentProperties[propertyName]) {
-    instance.setProperties({ [propertyName]: value });
+  if (dependencies.some((dependency) => !dependency.generated) && state.includeDependencies) {
+    state.shared.warnings.push(`maxComponents ${state.maxComponents} reached; some imported components were not generated`);
   }
-  
-  return { instanceId, propertyName, value };
+
+  const entry = state.components[0];
+  return {
+    componentName: entry.componentName,
+    nodeId: source.id,
+    styling,
+    props: entry.props.map(({ name, figmaName, type, tsType, defaultValue }) => ({ name, figmaName, type, tsType, defaultValue })),
+    files: state.files,
+    dependencies,
+    assets: state.shared.assets,
+    variables: [...state.shared.variables.values()],
+    warnings: [...new Set(state.shared.warnings)],
+  };
 }
 
-async function removeComponentProperty(componentId: string, propertyName: string): Promise<any> {
-  const component = await figma.getNodeByIdAsync(componentId) as ComponentNode;
-  if (!component || component.type !== 'COMPONENT') throw new Error('Component not found');
-  
-  // Note: Property removal may require specific API
-  return { componentId, propertyName, removed: true };
+// ===== HTML LAYOUT IMPORT =====
+
+interface HtmlLayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
-// ===== TRANSFORM OPERATIONS =====
+interface HtmlLayoutNode {
+  tag?: string;
+  name?: string;
+  box: HtmlLayoutBox;
+  styles?: Record<string, any>;
+  text?: string;
+  image?: string;
+  children?: HtmlLayoutNode[];
+}
 
-async function scaleNodes(nodeIds: string[], scaleX: number, scaleY: number, center?: { x: number; y: number }): Promise<any> {
-  const nodes: SceneNode[] = [];
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node && 'x' in node && 'y' in node) nodes.push(node);
+interface HtmlLayoutEntry {
+  source: HtmlLayoutNode;
+  parent: HtmlLayoutEntry | null;
+  kind: 'frame' | 'text';
+  autoLayout: 'HORIZONTAL' | 'VERTICAL' | null;
+  itemSpacing: number;
+  nodeId?: string;
+}
+
+interface HtmlLayoutImportState {
+  images: Record<string, string>;
+  fetchImages: boolean;
+  fonts: Map<string, FontName>;
+  warnings: string[];
+  imageCount: number;
+}
+
+const HTML_ABSOLUTE_POSITIONS = new Set(['absolute', 'fixed']);
+const HTML_CLIPPING_OVERFLOW = new Set(['hidden', 'clip', 'auto', 'scroll']);
+const HTML_IMAGE_PLACEHOLDER: SolidPaint = { type: 'SOLID', color: { r: 0.9, g: 0.9, b: 0.9 } };
+
+function htmlLength(value: any, basis: number = 0): number | null {
+  if (typeof value === 'string' && value.trim().endsWith('%')) return (parseFloat(value) / 100) * basis;
+  if (typeof value === 'string') return tokenDimensionToNumber(value.trim().split(/\s+/)[0]);
+  return tokenDimensionToNumber(value);
+}
+
+function htmlPaint(value: any): SolidPaint | null {
+  if (value === undefined || value === null || value === 'transparent' || value === 'none') return null;
+  const color = tokenColorToRGBA(value);
+  if (!color || color.a <= 0) return null;
+  return { type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, ...(color.a < 1 ? { opacity: color.a } : {}) };
+}
+
+function htmlImageUrl(node: HtmlLayoutNode): string | null {
+  if (typeof node.image === 'string' && node.image) return node.image;
+  const background = node.styles?.backgroundImage;
+  const match = typeof background === 'string' ? background.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/) : null;
+  return match ? match[1] : null;
+}
+
+function htmlLayoutMode(node: HtmlLayoutNode): 'HORIZONTAL' | 'VERTICAL' | null {
+  const styles = node.styles ?? {};
+  const display = String(styles.display ?? 'block');
+  if (display === 'flex' || display === 'inline-flex') {
+    return String(styles.flexDirection ?? 'row').startsWith('column') ? 'VERTICAL' : 'HORIZONTAL';
   }
-  
-  // Calculate center point
-  let cx = center?.x;
-  let cy = center?.y;
-  
-  if (cx === undefined || cy === undefined) {
-    const xs = nodes.map(n => (n as any).x + (n as any).width / 2);
-    const ys = nodes.map(n => (n as any).y + (n as any).height / 2);
-    cx = xs.reduce((a, b) => a + b, 0) / xs.length;
-    cy = ys.reduce((a, b) => a + b, 0) / ys.length;
+  if (display !== 'block' && display !== 'flow-root' && display !== 'list-item') return null;
+  // Block flow only maps to a vertical stack when the in-flow children really are stacked top to bottom.
+  const flow = (node.children ?? []).filter((child) => !HTML_ABSOLUTE_POSITIONS.has(child.styles?.position));
+  for (let i = 1; i < flow.length; i++) {
+    if (flow[i].box.y < flow[i - 1].box.y + flow[i - 1].box.height - 0.5) return null;
   }
-  
-  for (const node of nodes) {
-    const n = node as any;
-    // Scale size
-    n.resize(n.width * scaleX, n.height * scaleY);
-    // Reposition relative to center
-    n.x = cx! + (n.x - cx!) * scaleX;
-    n.y = cy! + (n.y - cy!) * scaleY;
+  return 'VERTICAL';
+}
+
+// Spacing between consecutive in-flow children; null when the gaps differ (margins vary), so the frame keeps absolute positions.
+function htmlStackSpacing(children: HtmlLayoutNode[], mode: 'HORIZONTAL' | 'VERTICAL'): number | null {
+  const flow = children.filter((child) => !HTML_ABSOLUTE_POSITIONS.has(child.styles?.position));
+  if (flow.length < 2) return 0;
+  const gaps: number[] = [];
+  for (let i = 1; i < flow.length; i++) {
+    const prev = flow[i - 1].box;
+    gaps.push(mode === 'HORIZONTAL'
+      ? flow[i].box.x - (prev.x + prev.width)
+      : flow[i].box.y - (prev.y + prev.height));
   }
-  
-  return { scaled: nodes.length, scaleX, scaleY };
+  const first = gaps[0];
+  if (first < 0 || gaps.some((gap) => Math.abs(gap - first) > 1)) return null;
+  return Math.round(first * 100) / 100;
 }
 
-async function flipNodes(nodeIds: string[], direction: 'horizontal' | 'vertical'): Promise<any> {
-  const nodes: SceneNode[] = [];
-  for (const id of nodeIds) {
-    const node = await figma.getNodeByIdAsync(id) as SceneNode;
-    if (node) nodes.push(node);
+function htmlPrimaryAlign(value: any): 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN' {
+  switch (String(value ?? '')) {
+    case 'center': return 'CENTER';
+    case 'flex-end':
+    case 'end':
+    case 'right': return 'MAX';
+    case 'space-between': return 'SPACE_BETWEEN';
+    default: return 'MIN';
   }
-  
-  for (const node of nodes) {
-    if ('relativeTransform' in node) {
-      const t = node.relativeTransform;
-      if (direction === 'horizontal') {
-        node.relativeTransform = [
-          [-t[0][0], t[0][1], t[0][2]],
-          [-t[1][0], t[1][1], t[1][2]],
-        ];
-      } else {
-        node.relativeTransform = [
-          [t[0][0], -t[0][1], t[0][2]],
-          [t[1][0], -t[1][1], t[1][2]],
-        ];
+}
+
+function htmlCounterAlign(value: any, mode: 'HORIZONTAL' | 'VERTICAL'): 'MIN' | 'CENTER' | 'MAX' | 'BASELINE' {
+  switch (String(value ?? '')) {
+    case 'center': return 'CENTER';
+    case 'flex-end':
+    case 'end': return 'MAX';
+    case 'baseline': return mode === 'HORIZONTAL' ? 'BASELINE' : 'MIN';
+    default: return 'MIN';
+  }
+}
+
+// Flattens the snapshot breadth-first so every level can be created with one batchCreate once its parents exist.
+function planHtmlLayoutLevels(root: HtmlLayoutNode, maxNodes: number, warnings: string[]): HtmlLayoutEntry[][] {
+  const levels: HtmlLayoutEntry[][] = [];
+  let current: Array<{ source: HtmlLayoutNode; parent: HtmlLayoutEntry | null }> = [{ source: root, parent: null }];
+  let count = 0;
+  while (current.length > 0) {
+    const level: HtmlLayoutEntry[] = [];
+    const next: Array<{ source: HtmlLayoutNode; parent: HtmlLayoutEntry | null }> = [];
+    for (const { source, parent } of current) {
+      if (count >= maxNodes) {
+        warnings.push(`maxNodes ${maxNodes} reached; deeper elements were not imported`);
+        return levels.concat(level.length > 0 ? [level] : []);
+      }
+      const box = source?.box;
+      if (!box || ![box.x, box.y, box.width, box.height].every((n) => typeof n === 'number' && Number.isFinite(n))) {
+        throw new Error(`Layout node ${source?.name ?? source?.tag ?? '(unnamed)'} is missing a numeric box {x, y, width, height}`);
+      }
+      count++;
+      const children = Array.isArray(source.children) ? source.children : [];
+      const isText = typeof source.text === 'string' && children.length === 0;
+      let autoLayout = isText ? null : htmlLayoutMode(source);
+      let itemSpacing = 0;
+      if (autoLayout) {
+        const styles = source.styles ?? {};
+        const gap = htmlLength(autoLayout === 'HORIZONTAL' ? styles.columnGap ?? styles.gap : styles.rowGap ?? styles.gap);
+        const inferred = htmlStackSpacing(children, autoLayout);
+        if (String(styles.display).includes('flex') && gap !== null && !String(styles.justifyContent ?? '').startsWith('space')) {
+          itemSpacing = gap;
+        } else if (inferred !== null) {
+          itemSpacing = inferred;
+        } else {
+          autoLayout = null;
+        }
+      }
+      const entry: HtmlLayoutEntry = { source, parent, kind: isText ? 'text' : 'frame', autoLayout, itemSpacing };
+      level.push(entry);
+      const reversed = String(source.styles?.flexDirection ?? '').endsWith('-reverse');
+      for (const child of reversed ? [...children].reverse() : children) next.push({ source: child, parent: entry });
+    }
+    levels.push(level);
+    current = next;
+  }
+  return levels;
+}
+
+function htmlLayoutOperation(entry: HtmlLayoutEntry, origin: { x: number; y: number }, parentId?: string): BatchOperation {
+  const { source, parent } = entry;
+  const styles = source.styles ?? {};
+  const params: any = {
+    x: parent ? source.box.x - parent.source.box.x : origin.x,
+    y: parent ? source.box.y - parent.source.box.y : origin.y,
+    width: Math.max(source.box.width, 0.01),
+    height: Math.max(source.box.height, 0.01),
+    parentId: parent ? parent.nodeId : parentId,
+  };
+  const opacity = styles.opacity !== undefined ? Number(styles.opacity) : 1;
+  if (opacity < 1) params.opacity = opacity;
+  if (styles.visibility === 'hidden') params.visible = false;
+  if (entry.kind === 'text') {
+    const color = htmlPaint(styles.color ?? '#000000');
+    params.fills = color ? [color] : [];
+  } else {
+    params.name = source.name ?? source.tag ?? 'div';
+    const background = htmlPaint(styles.backgroundColor);
+    params.fills = htmlImageUrl(source) ? [HTML_IMAGE_PLACEHOLDER] : background ? [background] : [];
+  }
+  return { type: entry.kind as any, params };
+}
+
+// Out-of-flow elements inside an auto layout parent keep their snapshot position instead of joining the stack.
+function placeHtmlAbsolute(node: FrameNode | TextNode, entry: HtmlLayoutEntry): void {
+  node.layoutPositioning = 'ABSOLUTE';
+  node.x = entry.source.box.x - entry.parent!.source.box.x;
+  node.y = entry.source.box.y - entry.parent!.source.box.y;
+}
+
+async function applyHtmlFrameStyles(frame: FrameNode, entry: HtmlLayoutEntry): Promise<void> {
+  const { source } = entry;
+  const styles = source.styles ?? {};
+  const { width, height } = source.box;
+
+  const radius = htmlLength(styles.borderRadius, Math.min(width, height));
+  if (radius !== null && radius > 0) frame.cornerRadius = Math.min(radius, Math.min(width, height) / 2);
+  const borderWidth = styles.borderStyle === 'none' ? 0 : htmlLength(styles.borderWidth) ?? 0;
+  const borderPaint = borderWidth > 0 ? htmlPaint(styles.borderColor ?? '#000000') : null;
+  if (borderPaint) {
+    frame.strokes = [borderPaint];
+    frame.strokeWeight = borderWidth;
+    frame.strokeAlign = 'INSIDE';
+  }
+  frame.clipsContent = HTML_CLIPPING_OVERFLOW.has(String(styles.overflow ?? 'visible'));
+
+  if (entry.parent?.autoLayout && HTML_ABSOLUTE_POSITIONS.has(styles.position)) placeHtmlAbsolute(frame, entry);
+  if (!entry.autoLayout) return;
+
+  // CSS border-box: borders sit inside the box and push content in like padding, while INSIDE strokes do not.
+  const inset = borderPaint ? borderWidth : 0;
+  frame.layoutMode = entry.autoLayout;
+  frame.primaryAxisSizingMode = 'FIXED';
+  frame.counterAxisSizingMode = 'FIXED';
+  frame.paddingTop = (htmlLength(styles.paddingTop) ?? 0) + inset;
+  frame.paddingRight = (htmlLength(styles.paddingRight) ?? 0) + inset;
+  frame.paddingBottom = (htmlLength(styles.paddingBottom) ?? 0) + inset;
+  frame.paddingLeft = (htmlLength(styles.paddingLeft) ?? 0) + inset;
+  frame.itemSpacing = entry.itemSpacing;
+  frame.primaryAxisAlignItems = htmlPrimaryAlign(styles.justifyContent);
+  frame.counterAxisAlignItems = htmlCounterAlign(styles.alignItems, entry.autoLayout);
+  if (entry.autoLayout === 'HORIZONTAL' && String(styles.flexWrap ?? '') === 'wrap') {
+    frame.layoutWrap = 'WRAP';
+    frame.counterAxisSpacing = htmlLength(styles.rowGap ?? styles.gap) ?? 0;
+  }
+  frame.resize(Math.max(width, 0.01), Math.max(height, 0.01));
+}
+
+async function loadHtmlFont(styles: Record<string, any>, state: HtmlLayoutImportState): Promise<FontName> {
+  const family = String(styles.fontFamily ?? 'Inter').split(',')[0].trim().replace(/^['"]|['"]$/g, '') || 'Inter';
+  const weight = tokenFontWeight(styles.fontWeight ?? 400) ?? 400;
+  const weightStyle = FONT_STYLE_BY_WEIGHT[Math.round(weight / 100) * 100] ?? 'Regular';
+  const italic = /italic|oblique/.test(String(styles.fontStyle ?? ''));
+  const style = italic ? (weightStyle === 'Regular' ? 'Italic' : `${weightStyle} Italic`) : weightStyle;
+  const key = `${family}::${style}`;
+  const cached = state.fonts.get(key);
+  if (cached) return cached;
+
+  const candidates: FontName[] = [
+    { family, style },
+    { family, style: 'Regular' },
+    { family: 'Inter', style },
+    { family: 'Inter', style: 'Regular' },
+  ];
+  for (const candidate of candidates) {
+    try {
+      await figma.loadFontAsync(candidate);
+      if (candidate.family !== family || candidate.style !== style) {
+        state.warnings.push(`Font ${family} ${style} unavailable; using ${candidate.family} ${candidate.style}`);
       }
+      state.fonts.set(key, candidate);
+      return candidate;
+    } catch {
+      // Try the next fallback.
     }
   }
-  
-  return { flipped: nodes.length, direction };
+  throw new Error(`No usable font for ${family} ${style}`);
 }
 
-// ===== ADVANCED IMPORT =====
+async function applyHtmlTextStyles(text: TextNode, entry: HtmlLayoutEntry, state: HtmlLayoutImportState): Promise<void> {
+  const { source } = entry;
+  const styles = source.styles ?? {};
+  const fontName = await loadHtmlFont(styles, state);
+  const fontSize = htmlLength(styles.fontSize) ?? 16;
+  text.fontName = fontName;
+  text.fontSize = fontSize;
+  const rawLineHeight = styles.lineHeight;
+  if (rawLineHeight === undefined || rawLineHeight === 'normal') {
+    text.lineHeight = { unit: 'AUTO' };
+  } else if (typeof rawLineHeight === 'number' || /^\d*\.?\d+$/.test(String(rawLineHeight))) {
+    text.lineHeight = { unit: 'PERCENT', value: Number(rawLineHeight) * 100 };
+  } else {
+    text.lineHeight = { unit: 'PIXELS', value: htmlLength(rawLineHeight, fontSize) ?? fontSize };
+  }
+  if (styles.letterSpacing !== undefined && styles.letterSpacing !== 'normal') {
+    text.letterSpacing = { unit: 'PIXELS', value: htmlLength(styles.letterSpacing) ?? 0 };
+  }
+  const align = String(styles.textAlign ?? 'left');
+  text.textAlignHorizontal = align === 'center' ? 'CENTER'
+    : align === 'right' || align === 'end' ? 'RIGHT'
+      : align === 'justify' ? 'JUSTIFIED' : 'LEFT';
+  const transform = String(styles.textTransform ?? 'none');
+  if (transform === 'uppercase') text.textCase = 'UPPER';
+  else if (transform === 'lowercase') text.textCase = 'LOWER';
+  else if (transform === 'capitalize') text.textCase = 'TITLE';
+  const decoration = String(styles.textDecoration ?? styles.textDecorationLine ?? '');
+  if (decoration.includes('underline')) text.textDecoration = 'UNDERLINE';
+  else if (decoration.includes('line-through')) text.textDecoration = 'STRIKETHROUGH';
+
+  text.characters = String(source.text);
+  // Keep the browser's line width; the height follows Figma's own text metrics.
+  text.resize(Math.max(source.box.width, 0.01), Math.max(source.box.height, 0.01));
+  text.textAutoResize = 'HEIGHT';
+  if (entry.parent?.autoLayout && HTML_ABSOLUTE_POSITIONS.has(styles.position)) placeHtmlAbsolute(text, entry);
+}
+
+async function applyHtmlImage(node: FrameNode, url: string, state: HtmlLayoutImportState): Promise<void> {
+  const embedded = state.images[url] ?? (url.startsWith('data:') ? url : undefined);
+  if (embedded) {
+    const base64 = embedded.replace(/^data:[^,]*;base64,/, '');
+    const image = figma.createImage(figma.base64Decode(base64));
+    await createImageFill(undefined, image.hash, node.id);
+  } else if (state.fetchImages) {
+    await createImageFill(url, undefined, node.id);
+  } else {
+    state.warnings.push(`Image ${url} is not embedded in the snapshot; left a placeholder on ${node.name}`);
+    return;
+  }
+  state.imageCount++;
+}
 
-async function loadComponentFromFile(fileKey: string, componentKey: string): Promise<any> {
-  const component = await figma.importComponentByKeyAsync(componentKey);
-  
-  return {
-    componentId: component.id,
-    name: component.name,
-    fileKey,
-    componentKey,
+// Recreates a serialized DOM layout (element boxes, computed styles, text runs, images) as frames and text nodes.
+async function importHtmlLayout(options: any): Promise<any> {
+  const root: HtmlLayoutNode = options.layout?.root ?? options.layout;
+  if (!root || typeof root !== 'object') throw new Error('layout must be a layout tree object');
+  const state: HtmlLayoutImportState = {
+    images: { ...(options.layout?.images ?? {}), ...(options.images ?? {}) },
+    fetchImages: options.fetchImages === true,
+    fonts: new Map(),
+    warnings: [],
+    imageCount: 0,
   };
-}
+  const levels = planHtmlLayoutLevels(root, options.maxNodes ?? 2000, state.warnings);
+  const origin = { x: options.x ?? 0, y: options.y ?? 0 };
+
+  let frames = 0;
+  let texts = 0;
+  for (const level of levels) {
+    const created = await batchCreate(level.map((entry) => htmlLayoutOperation(entry, origin, options.parentId)), 50, false, false, 'import_html_layout');
+    if (created.cancelled) {
+      return { rootId: levels[0][0].nodeId ?? null, frames, texts, images: state.imageCount, cancelled: true, warnings: state.warnings };
+    }
+    for (let i = 0; i < level.length; i++) {
+      const entry = level[i];
+      entry.nodeId = created.createdIds[i];
+      const node = await figma.getNodeByIdAsync(entry.nodeId!) as SceneNode;
+      if (entry.kind === 'text') {
+        await applyHtmlTextStyles(node as TextNode, entry, state);
+        texts++;
+        continue;
+      }
+      await applyHtmlFrameStyles(node as FrameNode, entry);
+      const url = htmlImageUrl(entry.source);
+      if (url) {
+        try {
+          await applyHtmlImage(node as FrameNode, url, state);
+        } catch (error) {
+          state.warnings.push(`Image ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      frames++;
+    }
+  }
 
-async function loadStyleFromFile(fileKey: string, styleKey: string): Promise<any> {
-  const style = await figma.importStyleByKeyAsync(styleKey);
-  
+  const rootNode = await figma.getNodeByIdAsync(levels[0][0].nodeId!) as FrameNode;
+  if (options.name) rootNode.name = options.name;
   return {
-    styleId: style.id,
-    name: style.name,
-    type: style.type,
-    fileKey,
-    styleKey,
+    rootId: rootNode.id,
+    name: rootNode.name,
+    width: rootNode.width,
+    height: rootNode.height,
+    frames,
+    texts,
+    images: state.imageCount,
+    cancelled: false,
+    warnings: [...new Set(state.warnings)],
   };
 }
@@ -128,7 +128,11 @@ function cleanupChannel(channelId) {
   }
 }
 
-const wss = new WebSocketServer({ host: HOST, port: PORT });
+// Large messages travel as chunk frames ({ type: 'chunk', streamId, chunkIndex, chunkCount, ... })
+// that are forwarded untouched; the endpoints reassemble them. Single frames above 8 MiB are rejected.
+const MAX_FRAME_BYTES = 8 * 1024 * 1024;
+
+const wss = new WebSocketServer({ host: HOST, port: PORT, maxPayload: MAX_FRAME_BYTES });
 
 wss.on('listening', () => {
   console.log(chalk.green(`✓ Figma MCP Relay Server running`));
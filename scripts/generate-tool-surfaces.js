@@ -0,0 +1,46 @@
+// Regenerates the plugin tool catalog and the Cloudflare worker fallback from src/tools.ts,
+// and the plugin's color science block from src/color.ts.
+// Run after `npm run build:mcp`; pass --check to fail instead of writing when a surface is stale.
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  COLOR_SOURCE_PATH,
+  PLUGIN_SOURCE_PATH,
+  WORKER_FALLBACK_PATH,
+  renderPluginCatalog,
+  renderPluginColor,
+  renderWorkerFallback,
+} from '../dist/tool-surfaces.js';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const check = process.argv.includes('--check');
+const colorSource = await readFile(path.join(root, COLOR_SOURCE_PATH), 'utf8');
+
+const surfaces = [
+  [PLUGIN_SOURCE_PATH, (current) => renderPluginColor(renderPluginCatalog(current), colorSource)],
+  [WORKER_FALLBACK_PATH, () => renderWorkerFallback()],
+];
+
+let stale = 0;
+for (const [relativePath, render] of surfaces) {
+  const file = path.join(root, relativePath);
+  const current = await readFile(file, 'utf8');
+  const next = render(current);
+  if (next === current) {
+    console.log(`up to date: ${relativePath}`);
+    continue;
+  }
+  stale++;
+  if (check) {
+    console.error(`stale: ${relativePath}`);
+  } else {
+    await writeFile(file, next, 'utf8');
+    console.log(`generated: ${relativePath}`);
+  }
+}
+
+if (check && stale > 0) {
+  console.error('Run `npm run generate:tools` and commit the result.');
+  process.exit(1);
+}
@@ -0,0 +1,309 @@
+// Color - 感知色彩工具（色彩空间转换、ΔE2000、调色板聚类与颜色命名），插件内副本由 generate:tools 生成
+
+// Channels are 0-1 throughout, as in Figma paints.
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// h in degrees, s and l 0-1.
+export interface HSL {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// CIELAB (D65): l 0-100.
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// l 0-1, c roughly 0-0.4, h in degrees.
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+export type ColorFamily =
+  | 'red' | 'orange' | 'brown' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple' | 'pink'
+  | 'black' | 'white' | 'gray';
+
+export interface ColorSample {
+  color: RGB;
+  // How much the sample counts towards its cluster (usage count, area, ...).
+  weight?: number;
+  id?: string;
+}
+
+export interface PaletteColor {
+  hex: string;
+  color: RGB;
+  name: string;
+  family: ColorFamily;
+  weight: number;
+  share: number;
+  // Member hexes by weight; the first is the most used.
+  members: string[];
+  ids: string[];
+}
+
+// Query words (English and Chinese) mapped to color families.
+export const COLOR_FAMILY_ALIASES: Record<string, ColorFamily> = {
+  red: 'red', orange: 'orange', brown: 'brown', yellow: 'yellow', green: 'green', cyan: 'cyan', teal: 'cyan',
+  blue: 'blue', purple: 'purple', violet: 'purple', pink: 'pink', magenta: 'pink', black: 'black', white: 'white',
+  gray: 'gray', grey: 'gray',
+  红色: 'red', 橙色: 'orange', 棕色: 'brown', 黄色: 'yellow', 绿色: 'green', 青色: 'cyan', 蓝色: 'blue',
+  紫色: 'purple', 粉色: 'pink', 黑色: 'black', 白色: 'white', 灰色: 'gray',
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+const RAD = Math.PI / 180;
+
+export function rgbToHex(color: RGB): string {
+  return `#${[color.r, color.g, color.b]
+    .map((channel) => Math.round(clamp01(channel) * 255).toString(16).padStart(2, '0'))
+    .join('')}`.toUpperCase();
+}
+
+// Accepts #rgb, #rrggbb (alpha digits are ignored) and rgb()/rgba() strings.
+export function parseColor(value: string): RGB | null {
+  const text = value.trim();
+  const hex = text.replace(/^#/, '');
+  if (/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex;
+    const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { r: channel(0), g: channel(1), b: channel(2) };
+  }
+  const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+  return rgb ? { r: Number(rgb[1]) / 255, g: Number(rgb[2]) / 255, b: Number(rgb[3]) / 255 } : null;
+}
+
+export function rgbToHsl(color: RGB): HSL {
+  const max = Math.max(color.r, color.g, color.b);
+  const min = Math.min(color.r, color.g, color.b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h = max === color.r ? ((color.g - color.b) / d) % 6 : max === color.g ? (color.b - color.r) / d + 2 : (color.r - color.g) / d + 4;
+  h *= 60;
+  return { h: h < 0 ? h + 360 : h, s, l };
+}
+
+export function hslToRgb(hsl: HSL): RGB {
+  const c = (1 - Math.abs(2 * hsl.l - 1)) * hsl.s;
+  const h = (((hsl.h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = hsl.l - c / 2;
+  const [r, g, b] = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x];
+  return { r: r + m, g: g + m, b: b + m };
+}
+
+export function rgbToLab(color: RGB): Lab {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+  // D65 reference white.
+  const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+  const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+  const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return { l: 116 * f(y) - 16, a: 500 * (f(x) - f(y)), b: 200 * (f(y) - f(z)) };
+}
+
+export function labToRgb(lab: Lab): RGB {
+  const fy = (lab.l + 16) / 116;
+  const fx = fy + lab.a / 500;
+  const fz = fy - lab.b / 200;
+  const inverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+  const x = inverse(fx) * 0.95047;
+  const y = inverse(fy);
+  const z = inverse(fz) * 1.08883;
+  return {
+    r: clamp01(fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z)),
+    g: clamp01(fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z)),
+    b: clamp01(fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)),
+  };
+}
+
+export function rgbToOklch(color: RGB): OKLCH {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const h = Math.atan2(B, A) / RAD;
+  return { l: L, c: Math.sqrt(A * A + B * B), h: h < 0 ? h + 360 : h };
+}
+
+// Out-of-gamut results are clipped per channel.
+export function oklchToRgb(oklch: OKLCH): RGB {
+  const A = oklch.c * Math.cos(oklch.h * RAD);
+  const B = oklch.c * Math.sin(oklch.h * RAD);
+  const l = Math.pow(oklch.l + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(oklch.l - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(oklch.l - 0.0894841775 * A - 1.291485548 * B, 3);
+  return {
+    r: clamp01(fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+    g: clamp01(fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+    b: clamp01(fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)),
+  };
+}
+
+// CIEDE2000 color difference; ~1 is the just-noticeable difference.
+export function deltaE2000(first: RGB, second: RGB): number {
+  const c1 = rgbToLab(first);
+  const c2 = rgbToLab(second);
+  const avgL = (c1.l + c2.l) / 2;
+  const avgC = (Math.sqrt(c1.a * c1.a + c1.b * c1.b) + Math.sqrt(c2.a * c2.a + c2.b * c2.b)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(avgC, 7) / (Math.pow(avgC, 7) + Math.pow(25, 7))));
+  const a1 = c1.a * (1 + g);
+  const a2 = c2.a * (1 + g);
+  const cp1 = Math.sqrt(a1 * a1 + c1.b * c1.b);
+  const cp2 = Math.sqrt(a2 * a2 + c2.b * c2.b);
+  const hue = (bv: number, av: number) => {
+    if (bv === 0 && av === 0) return 0;
+    const h = Math.atan2(bv, av) / RAD;
+    return h >= 0 ? h : h + 360;
+  };
+  const h1 = hue(c1.b, a1);
+  const h2 = hue(c2.b, a2);
+  let dh = 0;
+  if (cp1 * cp2 !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dL = c2.l - c1.l;
+  const dC = cp2 - cp1;
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * RAD);
+  const avgCp = (cp1 + cp2) / 2;
+  let avgH = h1 + h2;
+  if (cp1 * cp2 !== 0) {
+    avgH = Math.abs(h1 - h2) > 180 ? (h1 + h2 + (h1 + h2 < 360 ? 360 : -360)) / 2 : (h1 + h2) / 2;
+  }
+  const t = 1 - 0.17 * Math.cos((avgH - 30) * RAD) + 0.24 * Math.cos(2 * avgH * RAD)
+    + 0.32 * Math.cos((3 * avgH + 6) * RAD) - 0.2 * Math.cos((4 * avgH - 63) * RAD);
+  const sl = 1 + (0.015 * Math.pow(avgL - 50, 2)) / Math.sqrt(20 + Math.pow(avgL - 50, 2));
+  const sc = 1 + 0.045 * avgCp;
+  const sh = 1 + 0.015 * avgCp * t;
+  const rt = -2 * Math.sqrt(Math.pow(avgCp, 7) / (Math.pow(avgCp, 7) + Math.pow(25, 7)))
+    * Math.sin(60 * Math.exp(-Math.pow((avgH - 275) / 25, 2)) * RAD);
+  return Math.sqrt(Math.pow(dL / sl, 2) + Math.pow(dC / sc, 2) + Math.pow(dH / sh, 2) + rt * (dC / sc) * (dH / sh));
+}
+
+// Hue family from OKLCH, whose hue angle stays stable across lightness (unlike HSL).
+export function colorFamily(color: RGB): ColorFamily {
+  const { l, c, h } = rgbToOklch(color);
+  if (c < 0.035) return l < 0.3 ? 'black' : l > 0.93 ? 'white' : 'gray';
+  if (h >= 10 && h < 35) return 'red';
+  if (h >= 35 && h < 85) return l < 0.6 ? 'brown' : 'orange';
+  if (h >= 85 && h < 120) return 'yellow';
+  if (h >= 120 && h < 170) return 'green';
+  if (h >= 170 && h < 230) return 'cyan';
+  if (h >= 230 && h < 290) return 'blue';
+  if (h >= 290 && h < 335) return 'purple';
+  return 'pink';
+}
+
+export function nameColor(color: RGB): string {
+  const family = colorFamily(color);
+  if (family === 'black' || family === 'white') return family;
+  const { l } = rgbToOklch(color);
+  return l < 0.45 ? `dark ${family}` : l > 0.85 ? `light ${family}` : family;
+}
+
+// True when a color belongs to the family named by the query ("blue", "blues", "蓝色") or is within maxDeltaE of a hex query.
+export function matchesColorName(color: RGB, query: string, maxDeltaE: number = 10): boolean {
+  const key = query.trim().toLowerCase();
+  const family = COLOR_FAMILY_ALIASES[key] ?? COLOR_FAMILY_ALIASES[key.replace(/s$/, '')] ?? COLOR_FAMILY_ALIASES[key.replace(/es$/, '')];
+  if (family) return colorFamily(color) === family;
+  const parsed = /^#|^rgb/.test(key) ? parseColor(key) : null;
+  return parsed ? deltaE2000(color, parsed) <= maxDeltaE : false;
+}
+
+// Greedy clustering in CIELAB: heaviest samples seed clusters, samples within maxDeltaE of a centroid join it,
+// then the closest pair of clusters is merged until at most maxColors remain.
+export function clusterColors(samples: ColorSample[], maxDeltaE: number = 6, maxColors?: number): PaletteColor[] {
+  interface Cluster {
+    lab: Lab;
+    weight: number;
+    members: Map<string, number>;
+    ids: string[];
+  }
+  const merge = (into: Cluster, from: Cluster) => {
+    const total = into.weight + from.weight;
+    into.lab = {
+      l: (into.lab.l * into.weight + from.lab.l * from.weight) / total,
+      a: (into.lab.a * into.weight + from.lab.a * from.weight) / total,
+      b: (into.lab.b * into.weight + from.lab.b * from.weight) / total,
+    };
+    into.weight = total;
+    for (const [hex, weight] of from.members) into.members.set(hex, (into.members.get(hex) ?? 0) + weight);
+    into.ids.push(...from.ids);
+  };
+
+  const clusters: Cluster[] = [];
+  const sorted = [...samples].sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1));
+  for (const sample of sorted) {
+    const weight = sample.weight ?? 1;
+    const single: Cluster = {
+      lab: rgbToLab(sample.color),
+      weight,
+      members: new Map([[rgbToHex(sample.color), weight]]),
+      ids: sample.id ? [sample.id] : [],
+    };
+    let best: { cluster: Cluster; deltaE: number } | null = null;
+    for (const cluster of clusters) {
+      const deltaE = deltaE2000(labToRgb(cluster.lab), sample.color);
+      if (deltaE <= maxDeltaE && (!best || deltaE < best.deltaE)) best = { cluster, deltaE };
+    }
+    if (best) merge(best.cluster, single);
+    else clusters.push(single);
+  }
+
+  while (maxColors !== undefined && maxColors > 0 && clusters.length > maxColors) {
+    let pair: [number, number] = [0, 1];
+    let closest = Infinity;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const deltaE = deltaE2000(labToRgb(clusters[i].lab), labToRgb(clusters[j].lab));
+        if (deltaE < closest) {
+          closest = deltaE;
+          pair = [i, j];
+        }
+      }
+    }
+    merge(clusters[pair[0]], clusters[pair[1]]);
+    clusters.splice(pair[1], 1);
+  }
+
+  const total = clusters.reduce((sum, cluster) => sum + cluster.weight, 0) || 1;
+  return clusters
+    .sort((a, b) => b.weight - a.weight)
+    .map((cluster) => {
+      const members = [...cluster.members.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex);
+      // The palette entry is the most used real color, not the (possibly unused) centroid.
+      const color = parseColor(members[0])!;
+      return {
+        hex: members[0],
+        color,
+        name: nameColor(color),
+        family: colorFamily(color),
+        weight: cluster.weight,
+        share: Math.round((cluster.weight / total) * 1000) / 1000,
+        members,
+        ids: cluster.ids,
+      };
+    });
+}
@@ -0,0 +1,110 @@
+// Export Content - 将插件导出结果转换为 MCP 内容块，并可写入导出根目录下的本地文件
+import { mkdir, realpath, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// One exported image/document as reported by the plugin (export_node, capture_view).
+export interface ExportDescriptor {
+  nodeId?: string;
+  name?: string;
+  format?: string;
+  scale?: number;
+  suffix?: string;
+  mode?: string;
+  bytesLength?: number;
+  // Inline payload for small exports...
+  base64?: string;
+  // ...or a plugin-side cache entry pulled chunk by chunk.
+  exportId?: string;
+  chunkCount?: number;
+  path?: string;
+}
+
+type ContentBlock = CallToolResult['content'][number];
+
+// outputDir is confined to this directory unless the server is started with --export-root / FIGMA_MCP_EXPORT_ROOT.
+export const DEFAULT_EXPORT_ROOT = path.join(os.tmpdir(), 'figma-mcp-exports');
+
+const MIME_TYPES: Record<string, string> = {
+  PNG: 'image/png',
+  JPG: 'image/jpeg',
+  SVG: 'image/svg+xml',
+  PDF: 'application/pdf',
+};
+
+export function exportFormat(item: ExportDescriptor): string {
+  const format = String(item.format ?? 'PNG').toUpperCase();
+  return format === 'JPEG' ? 'JPG' : format;
+}
+
+export function exportMimeType(format: string): string {
+  const mimeType = MIME_TYPES[format.toUpperCase()];
+  if (!mimeType) throw new Error(`Unsupported export format: ${format}`);
+  return mimeType;
+}
+
+export function exportFileName(item: ExportDescriptor): string {
+  const base = item.nodeId ? item.nodeId.replace(/[^a-zA-Z0-9._-]+/g, '-') : `capture-${item.mode ?? 'view'}`;
+  const suffix = item.suffix ? item.suffix.replace(/[^a-zA-Z0-9._-]+/g, '-') : '';
+  // Exports of one node at several scales must not overwrite each other.
+  const scale = typeof item.scale === 'number' && Number.isFinite(item.scale) && item.scale !== 1 ? `@${item.scale}x` : '';
+  return `${base}${suffix}${scale}.${exportFormat(item).toLowerCase()}`;
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  // Only a leading ".." segment leaves the root; names like "..assets" are ordinary subdirectories.
+  const escapes = relative === '..' || relative.startsWith(`..${path.sep}`);
+  return !escapes && !path.isAbsolute(relative);
+}
+
+// Resolves outputDir (relative paths against the export root) and rejects anything outside the root.
+export function resolveExportDir(exportRoot: string, outputDir: string): string {
+  const root = path.resolve(exportRoot);
+  const dir = path.resolve(root, outputDir);
+  if (!isInside(root, dir)) {
+    throw new Error(`outputDir must be inside the export root ${root} (got ${outputDir}); start the server with --export-root to change it`);
+  }
+  return dir;
+}
+
+// PNG/JPG become image blocks; SVG/PDF become embedded resources (SVG as text, PDF as blob).
+export function exportContentBlock(item: ExportDescriptor, base64: string): ContentBlock {
+  const format = exportFormat(item);
+  const mimeType = exportMimeType(format);
+  if (format === 'PNG' || format === 'JPG') {
+    return { type: 'image', data: base64, mimeType };
+  }
+  const uri = item.path ? pathToFileURL(item.path).href : `figma://export/${exportFileName(item)}`;
+  if (format === 'SVG') {
+    return { type: 'resource', resource: { uri, mimeType, text: Buffer.from(base64, 'base64').toString('utf8') } };
+  }
+  return { type: 'resource', resource: { uri, mimeType, blob: base64 } };
+}
+
+// realpath of the deepest part of target that already exists.
+async function realpathOfExisting(target: string): Promise<string> {
+  for (let current = target; ; current = path.dirname(current)) {
+    try {
+      return await realpath(current);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT' || path.dirname(current) === current) throw error;
+    }
+  }
+}
+
+export async function writeExportFile(exportRoot: string, outputDir: string, item: ExportDescriptor, base64: string): Promise<string> {
+  const dir = resolveExportDir(exportRoot, outputDir);
+  await mkdir(path.resolve(exportRoot), { recursive: true });
+  // A symlink inside the root must not lead the write outside it; checked before anything is created.
+  const realRoot = await realpath(path.resolve(exportRoot));
+  if (!isInside(realRoot, await realpathOfExisting(dir))) {
+    throw new Error(`outputDir must be inside the export root ${realRoot} (got ${outputDir}, which resolves outside it)`);
+  }
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, exportFileName(item));
+  await writeFile(filePath, Buffer.from(base64, 'base64'));
+  return filePath;
+}
@@ -0,0 +1,155 @@
+// Input Validation - 按工具 inputSchema 校验 MCP 调用参数，并做安全的类型转换
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// Keeps error payloads readable when a large batch is wrong throughout.
+export const MAX_VALIDATION_ISSUES = 20;
+
+const NUMERIC_STRING = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ValidationIssue {
+  // Argument path, e.g. operations[3].params.width
+  path: string;
+  message: string;
+  expected?: string;
+  received?: string;
+}
+
+export interface Coercion {
+  path: string;
+  from: string;
+  to: number | boolean;
+}
+
+export interface ValidationResult {
+  // Arguments with safe coercions applied; only meaningful when issues is empty.
+  value: Record<string, unknown>;
+  issues: ValidationIssue[];
+  coercions: Coercion[];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+// Only lossless string forms are converted: "true"/"false" to booleans and plain decimal strings to numbers.
+function coerce(value: unknown, types: JsonType[]): number | boolean | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  if (types.includes('boolean') && (text === 'true' || text === 'false')) return text === 'true';
+  if ((types.includes('number') || types.includes('integer')) && NUMERIC_STRING.test(text)) {
+    const number = Number(text);
+    if (types.includes('number') ? Number.isFinite(number) : Number.isInteger(number)) return number;
+  }
+  return undefined;
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+class Validator {
+  readonly issues: ValidationIssue[] = [];
+  readonly coercions: Coercion[] = [];
+
+  report(issue: ValidationIssue): void {
+    if (this.issues.length < MAX_VALIDATION_ISSUES) this.issues.push(issue);
+  }
+
+  check(value: unknown, schema: JsonSchema, path: string): unknown {
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+      const coerced = coerce(value, types);
+      if (coerced === undefined) {
+        this.report({ path, message: `must be ${types.join(' or ')}`, expected: types.join(' | '), received: typeOf(value) });
+        return value;
+      }
+      this.coercions.push({ path, from: value as string, to: coerced });
+      value = coerced;
+    }
+
+    if (schema.enum && !schema.enum.some((option) => Object.is(option, value))) {
+      this.report({ path, message: `must be one of: ${schema.enum.join(', ')}`, expected: schema.enum.join(' | '), received: JSON.stringify(value) });
+    }
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) this.report({ path, message: `must be >= ${schema.minimum}` });
+      if (schema.maximum !== undefined && value > schema.maximum) this.report({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (Array.isArray(value)) return this.checkArray(value, schema, path);
+    if (typeOf(value) === 'object' && (schema.properties || schema.required || schema.additionalProperties === false)) {
+      return this.checkObject(value as Record<string, unknown>, schema, path);
+    }
+    return value;
+  }
+
+  private checkArray(value: unknown[], schema: JsonSchema, path: string): unknown[] {
+    if (schema.minItems !== undefined && value.length < schema.minItems) this.report({ path, message: `must have at least ${schema.minItems} items` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) this.report({ path, message: `must have at most ${schema.maxItems} items` });
+    const items = schema.items;
+    if (!items) return value;
+    return value.map((item, index) => this.check(item, items, `${path}[${index}]`));
+  }
+
+  private checkObject(value: Record<string, unknown>, schema: JsonSchema, path: string): Record<string, unknown> {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) this.report({ path: joinPath(path, key), message: 'is required' });
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const property = properties[key];
+      if (property) {
+        out[key] = item === undefined ? item : this.check(item, property, joinPath(path, key));
+      } else {
+        if (schema.additionalProperties === false) this.report({ path: joinPath(path, key), message: 'is not allowed' });
+        out[key] = item;
+      }
+    }
+    return out;
+  }
+}
+
+// Validates call arguments against a tool's inputSchema (type, enum, required, range and item checks).
+// Properties the schema does not describe pass through untouched unless it sets additionalProperties: false.
+export function validateToolInput(schema: Tool['inputSchema'], args: unknown): ValidationResult {
+  const validator = new Validator();
+  if (args !== undefined && typeOf(args) !== 'object') {
+    validator.report({ path: '(arguments)', message: 'must be object', expected: 'object', received: typeOf(args) });
+    return { value: {}, issues: validator.issues, coercions: validator.coercions };
+  }
+  const value = validator.check(args ?? {}, schema as JsonSchema, '') as Record<string, unknown>;
+  return { value, issues: validator.issues, coercions: validator.coercions };
+}
+
+export function describeIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path} ${issue.message}`).join('; ');
+}
@@ -0,0 +1,315 @@
+// Output Schemas - 工具返回结构（outputSchema）的 JSON Schema 定义，以及 structuredContent 结果封装
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const NUMBER = { type: 'number' };
+const STRING = { type: 'string' };
+const BOOLEAN = { type: 'boolean' };
+const STRING_ARRAY = { type: 'array', items: STRING };
+
+const RGB_SCHEMA = {
+  type: 'object',
+  properties: { r: NUMBER, g: NUMBER, b: NUMBER },
+  required: ['r', 'g', 'b'],
+};
+
+const PAINT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', description: 'SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, VIDEO or PATTERN' },
+    color: RGB_SCHEMA,
+    opacity: NUMBER,
+    visible: BOOLEAN,
+    blendMode: STRING,
+  },
+  required: ['type'],
+};
+
+const NODE_REF_SCHEMA = {
+  type: 'object',
+  properties: { id: STRING, name: STRING },
+  required: ['id', 'name'],
+};
+
+// Plugin nodeToInfo(); mirrors NodeInfo in types.ts.
+const NODE_INFO_PROPERTIES = {
+  id: STRING,
+  name: STRING,
+  type: { type: 'string', description: 'Figma node type, e.g. FRAME, TEXT, INSTANCE' },
+  visible: BOOLEAN,
+  locked: BOOLEAN,
+  opacity: NUMBER,
+  blendMode: STRING,
+  x: NUMBER,
+  y: NUMBER,
+  width: NUMBER,
+  height: NUMBER,
+  rotation: NUMBER,
+  fills: { type: 'array', items: PAINT_SCHEMA },
+  strokes: { type: 'array', items: PAINT_SCHEMA },
+  strokeWeight: NUMBER,
+  strokeAlign: { type: 'string', enum: ['INSIDE', 'OUTSIDE', 'CENTER'] },
+  cornerRadius: { type: ['number', 'array'], items: NUMBER, description: 'Uniform radius, or [topLeft, topRight, bottomRight, bottomLeft]' },
+  layoutMode: { type: 'string', enum: ['NONE', 'HORIZONTAL', 'VERTICAL', 'GRID'] },
+  primaryAxisAlignItems: STRING,
+  counterAxisAlignItems: STRING,
+  paddingTop: NUMBER,
+  paddingRight: NUMBER,
+  paddingBottom: NUMBER,
+  paddingLeft: NUMBER,
+  itemSpacing: NUMBER,
+  children: { ...STRING_ARRAY, description: 'Direct child ids (only when children were requested)' },
+  parent: { type: 'string', description: 'Parent node id' },
+  mainComponent: {
+    type: 'object',
+    properties: { id: STRING, name: STRING, type: { type: 'string', enum: ['COMPONENT', 'COMPONENT_SET'] } },
+    required: ['id', 'name', 'type'],
+  },
+  variantProperties: { type: 'object', additionalProperties: STRING },
+  reactions: { type: 'array', items: { type: 'object' } },
+};
+
+export const NODE_INFO_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: NODE_INFO_PROPERTIES,
+  required: ['id', 'name', 'type'],
+};
+
+export const SELECTION_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    pageId: STRING,
+    pageName: STRING,
+    selectedCount: NUMBER,
+    nodeIds: STRING_ARRAY,
+    nodes: { type: 'array', items: NODE_INFO_SCHEMA },
+  },
+  required: ['pageId', 'pageName', 'selectedCount', 'nodeIds', 'nodes'],
+};
+
+// analyze_duplicates; mirrors AnalyzeResult in types.ts.
+export const ANALYZE_RESULT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    duplicates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          similarity: NUMBER,
+          count: NUMBER,
+          nodes: { type: 'array', items: NODE_REF_SCHEMA },
+          nodesTruncated: BOOLEAN,
+          suggestedAction: { type: 'string', enum: ['Create Component', 'Review'] },
+        },
+        required: ['similarity', 'count', 'nodes', 'nodesTruncated', 'suggestedAction'],
+      },
+    },
+    totalAnalyzed: NUMBER,
+    analyzedNodesTruncated: BOOLEAN,
+    maxAnalyzedNodes: NUMBER,
+    potentialSavings: { type: 'number', description: 'Nodes that would disappear if every group became one component' },
+    returnedGroups: NUMBER,
+    totalGroups: NUMBER,
+    truncatedGroups: BOOLEAN,
+    maxGroups: NUMBER,
+    maxNodesPerGroup: NUMBER,
+  },
+  required: ['duplicates', 'totalAnalyzed', 'potentialSavings', 'returnedGroups', 'totalGroups'],
+};
+
+// analyze_frame_structure; mirrors ComponentAnalysisResult in types.ts.
+export const COMPONENT_ANALYSIS_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    frameId: STRING,
+    frameName: STRING,
+    totalChildren: NUMBER,
+    childTypes: { type: 'object', additionalProperties: NUMBER, description: 'Direct child count per node type' },
+    sizeDistribution: {
+      type: 'object',
+      properties: { small: NUMBER, medium: NUMBER, large: NUMBER },
+      required: ['small', 'medium', 'large'],
+    },
+    componentCandidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: STRING, name: STRING, type: STRING, width: NUMBER, height: NUMBER },
+        required: ['id', 'name', 'type', 'width', 'height'],
+      },
+    },
+    duplicateGroups: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { count: NUMBER, nodes: { type: 'array', items: NODE_REF_SCHEMA }, suggestedName: STRING },
+        required: ['count', 'nodes', 'suggestedName'],
+      },
+    },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['merge_duplicates', 'create_components'] },
+          priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+          description: STRING,
+          affectedNodes: NUMBER,
+        },
+        required: ['type', 'priority', 'description'],
+      },
+    },
+  },
+  required: ['frameId', 'frameName', 'totalChildren', 'childTypes', 'sizeDistribution', 'componentCandidates', 'duplicateGroups', 'recommendations'],
+};
+
+const BATCH_ERROR_SCHEMA = {
+  type: 'object',
+  properties: {
+    error: STRING,
+    nodeId: STRING,
+    operation: { type: 'object', description: 'The failed batch_create operation' },
+  },
+  required: ['error'],
+};
+
+// Plugin batchCreate / batchModify / batchEditAcrossPages.
+const BATCH_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    success: { type: 'number', description: 'Operations that succeeded' },
+    failed: { type: 'number', description: 'Operations that failed' },
+    createdIds: { ...STRING_ARRAY, description: 'batch_create: ids of the created nodes, in operation order' },
+    errors: { type: 'array', items: BATCH_ERROR_SCHEMA, description: 'First 10 failures' },
+    cancelled: { type: 'boolean', description: 'batch_create: stopped by cancel_operation' },
+    skipped: { type: 'number', description: 'batch_create: operations not run because of cancellation' },
+    results: { type: 'array', items: { type: 'object' } },
+    operationId: { type: 'string', description: 'Journal id for undo_operations' },
+  },
+  required: ['success', 'failed', 'errors'],
+};
+
+// atomic: true after a failing operation; every change of the call was rolled back.
+const ATOMIC_ROLLBACK_SCHEMA = {
+  type: 'object',
+  properties: {
+    atomic: { type: 'boolean', enum: [true] },
+    committed: { type: 'boolean', enum: [false] },
+    failedOperation: {
+      type: 'object',
+      properties: { index: NUMBER, target: STRING, error: STRING },
+      required: ['index', 'target', 'error'],
+    },
+    rolledBack: BOOLEAN,
+    rollback: {
+      type: 'object',
+      properties: { reverted: { type: 'object', additionalProperties: NUMBER }, failed: { type: 'array', items: { type: 'object' } } },
+      required: ['reverted', 'failed'],
+    },
+  },
+  required: ['atomic', 'committed', 'failedOperation', 'rolledBack', 'rollback'],
+};
+
+// dryRun: true; executed later with apply_plan.
+const CHANGE_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    dryRun: { type: 'boolean', enum: [true] },
+    planId: STRING,
+    tool: STRING,
+    createdAt: NUMBER,
+    preview: { type: 'string', enum: ['full', 'partial'] },
+    summary: {
+      type: 'object',
+      properties: { create: NUMBER, modify: NUMBER, delete: NUMBER, move: NUMBER, errors: NUMBER },
+      required: ['create', 'modify', 'delete', 'move', 'errors'],
+    },
+    changes: {
+      type: 'object',
+      properties: {
+        create: { type: 'array', items: { type: 'object' } },
+        modify: { type: 'array', items: { type: 'object' } },
+        delete: { type: 'array', items: { type: 'object' } },
+        move: { type: 'array', items: { type: 'object' } },
+      },
+      required: ['create', 'modify', 'delete', 'move'],
+    },
+    errors: { type: 'array', items: { type: 'object', properties: { target: STRING, error: STRING }, required: ['target', 'error'] } },
+    warnings: STRING_ARRAY,
+  },
+  required: ['dryRun', 'planId', 'tool', 'preview', 'summary', 'changes', 'errors', 'warnings'],
+};
+
+// batch_create, batch_modify and batch_edit_across_pages: the batch result, or the atomic rollback / dryRun plan variants.
+export const BATCH_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  anyOf: [BATCH_RESULT_SCHEMA, ATOMIC_ROLLBACK_SCHEMA, CHANGE_PLAN_SCHEMA],
+};
+
+export const CONNECT_RESULT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    connected: { type: 'boolean', description: 'Whether the session is bound to a channel with the Figma plugin attached' },
+    relayUrl: STRING,
+    channelCode: { type: ['string', 'null'] },
+    message: STRING,
+  },
+  required: ['connected', 'message'],
+};
+
+export const CONNECTION_STATUS_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    ready: BOOLEAN,
+    connectedToRelay: BOOLEAN,
+    figmaHandshakeComplete: BOOLEAN,
+    relayUrl: STRING,
+    channelCode: { type: ['string', 'null'] },
+    processId: NUMBER,
+    debugEventCount: NUMBER,
+    recordingPath: STRING,
+    nextAction: STRING,
+    connectTemplate: STRING,
+    debugEvents: { type: 'array', items: { type: 'object' } },
+    debugLimit: NUMBER,
+  },
+  required: ['ready', 'connectedToRelay', 'figmaHandshakeComplete', 'relayUrl', 'channelCode', 'nextAction', 'connectTemplate'],
+};
+
+export const CANCEL_RESULT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    cancelled: BOOLEAN,
+    operationId: STRING,
+    pluginAcknowledged: BOOLEAN,
+    pluginRunning: BOOLEAN,
+  },
+  required: ['cancelled', 'operationId', 'pluginAcknowledged', 'pluginRunning'],
+};
+
+export function toStructuredContent(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : { result: value ?? null };
+}
+
+// The result as a JSON text block, for tools without an outputSchema.
+export function jsonResult(value: unknown, extraContent: CallToolResult['content'] = []): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }, ...extraContent] };
+}
+
+// The JSON text block older clients read, plus the same value as structuredContent.
+export function structuredResult(value: unknown, extraContent: CallToolResult['content'] = []): CallToolResult {
+  return { ...jsonResult(value, extraContent), structuredContent: toStructuredContent(value) };
+}
+
+// structuredContent is only sent where the tool declares an outputSchema for clients to validate it against.
+export function toolResult(
+  tool: Pick<Tool, 'outputSchema'> | undefined,
+  value: unknown,
+  extraContent: CallToolResult['content'] = []
+): CallToolResult {
+  return tool?.outputSchema ? structuredResult(value, extraContent) : jsonResult(value, extraContent);
+}
@@ -77,6 +77,25 @@ export class ProgressManager extends EventEmitter {
     this.emit('progress', progress);
   }
 
+  // 跳转到指定阶段（只前进不后退），不单独发 progress 事件，由随后的 updateProgress 发出
+  enterStage(operationId: string, stageIndex: number): void {
+    const op = this.operations.get(operationId);
+    if (!op) return;
+
+    const target = Math.max(0, Math.min(op.stages.length - 1, Math.floor(stageIndex)));
+    if (target <= op.currentStage) return;
+
+    op.currentStage = target;
+    op.stageProgress = 0;
+  }
+
+  // 执行端上报的真实总数覆盖预估值
+  setTotalItems(operationId: string, totalItems: number): void {
+    const op = this.operations.get(operationId);
+    if (!op || !Number.isFinite(totalItems) || totalItems <= 0) return;
+    op.totalItems = totalItems;
+  }
+
   // 完成操作
   completeOperation(operationId: string, result?: any): void {
     const op = this.operations.get(operationId);
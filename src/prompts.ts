@@ -0,0 +1,189 @@
+// Prompt Registry - 常用设计工作流的参数化 MCP prompts
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+export interface SelectionSnapshot {
+  pageId?: string;
+  pageName?: string;
+  selectedCount?: number;
+  nodes?: Array<{ id: string; name: string; type: string; width?: number; height?: number }>;
+}
+
+export interface PromptContext {
+  // Live selection from get_selection; null when Figma is not connected.
+  selection: SelectionSnapshot | null;
+}
+
+export interface PromptDefinition extends Prompt {
+  // Tool names the rendered instructions tell the agent to call.
+  tools: string[];
+  render(args: Record<string, string>, context: PromptContext): string;
+}
+
+const MAX_SELECTION_NODES = 20;
+
+function describeSelection(selection: SelectionSnapshot | null): string {
+  if (!selection) {
+    return 'Live selection: unavailable (Figma not connected). Call `get_selection` after connecting.';
+  }
+  const nodes = selection.nodes ?? [];
+  if (nodes.length === 0) {
+    return `Live selection on page "${selection.pageName ?? '-'}": nothing selected.`;
+  }
+  const lines = nodes.slice(0, MAX_SELECTION_NODES).map((node) => {
+    const size = node.width !== undefined && node.height !== undefined
+      ? ` ${Math.round(node.width)}x${Math.round(node.height)}`
+      : '';
+    return `- ${node.id} ${node.type} "${node.name}"${size}`;
+  });
+  if (nodes.length > MAX_SELECTION_NODES) {
+    lines.push(`- ... ${nodes.length - MAX_SELECTION_NODES} more`);
+  }
+  return `Live selection on page "${selection.pageName ?? '-'}" (${nodes.length} nodes):\n${lines.join('\n')}`;
+}
+
+function selectedIds(selection: SelectionSnapshot | null): string[] {
+  return (selection?.nodes ?? []).map((node) => node.id);
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'audit_page',
+    description: 'Audit design consistency (colors, typography, spacing, duplicates), then propose and apply shared styles',
+    arguments: [
+      { name: 'scope', description: 'page (default) or document', required: false },
+      { name: 'pageName', description: 'Limit the audit to this page name', required: false },
+    ],
+    tools: ['check_consistency', 'analyze_duplicates', 'get_all_styles', 'create_color_style', 'create_text_style', 'apply_style_to_nodes'],
+    render(args, context) {
+      const scope = args.scope === 'document' ? 'document' : 'page';
+      const pageFilter = args.pageName ? `, "pageNames": [${JSON.stringify(args.pageName)}]` : '';
+      return [
+        `Audit the ${scope === 'document' ? 'whole document' : 'current page'} for design consistency and consolidate it into shared styles.`,
+        '',
+        describeSelection(context.selection),
+        '',
+        'Steps:',
+        `1. Call \`check_consistency\` with {"scope": "${scope}"${pageFilter}} and summarize the reported color and typography issues.`,
+        `2. Call \`analyze_duplicates\` with {"scope": "${scope}"${pageFilter}} to find repeated structures worth componentizing.`,
+        '3. Call `get_all_styles` and compare existing styles against the values found above.',
+        '4. Propose a short list of new styles (name + value). Wait for confirmation before creating anything.',
+        '5. After confirmation, create them with `create_color_style` / `create_text_style` and attach them with `apply_style_to_nodes`.',
+        '6. Report what changed and what was left as-is.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'componentize_frame',
+    description: 'Turn a frame into reusable components and variant sets',
+    arguments: [
+      { name: 'frameId', description: 'Frame to convert; defaults to the first selected node', required: false },
+      { name: 'strategy', description: 'smart (default), by_type, by_name or all_children', required: false },
+    ],
+    tools: ['get_selection', 'analyze_frame_structure', 'frame_to_components', 'create_variant_set', 'auto_create_variants'],
+    render(args, context) {
+      const frameId = args.frameId || selectedIds(context.selection)[0] || '<FRAME_ID>';
+      const strategy = args.strategy || 'smart';
+      return [
+        `Convert frame ${frameId} into reusable components.`,
+        '',
+        describeSelection(context.selection),
+        '',
+        'Steps:',
+        frameId === '<FRAME_ID>'
+          ? '1. No frame is selected: call `get_selection` or ask the user which frame to use.'
+          : `1. Target frame: ${frameId}.`,
+        `2. Call \`analyze_frame_structure\` with {"frameId": ${JSON.stringify(frameId)}, "detectDuplicates": true} and list component candidates and similar groups.`,
+        `3. Call \`frame_to_components\` with {"frameId": ${JSON.stringify(frameId)}, "strategy": ${JSON.stringify(strategy)}, "groupSimilar": true}.`,
+        '4. For groups of components that differ only by state or size, call `create_variant_set`, or `auto_create_variants` on a single component.',
+        '5. Report created component ids, variant sets and any nodes that were skipped.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'build_prototype_flow',
+    description: 'Wire selected screens into a click-through prototype flow',
+    arguments: [
+      { name: 'frameIds', description: 'Comma-separated screen ids in navigation order; defaults to the selection', required: false },
+      { name: 'flowName', description: 'Name of the prototype flow', required: false },
+      { name: 'transition', description: 'Transition type, e.g. SMART_ANIMATE or DISSOLVE', required: false },
+    ],
+    tools: ['get_selection', 'get_node_info', 'batch_connect', 'create_interaction', 'create_flow'],
+    render(args, context) {
+      const ids = args.frameIds
+        ? args.frameIds.split(',').map((id) => id.trim()).filter(Boolean)
+        : selectedIds(context.selection);
+      const flowName = args.flowName || 'Main flow';
+      const transition = args.transition || 'SMART_ANIMATE';
+      const order = ids.length > 0 ? ids.join(' -> ') : '<SCREEN_IDS>';
+      return [
+        `Build a prototype flow "${flowName}" through these screens: ${order}.`,
+        '',
+        describeSelection(context.selection),
+        '',
+        'Steps:',
+        ids.length < 2
+          ? '1. Fewer than two screens given: call `get_selection` or ask the user for the screen order.'
+          : '1. Screens are listed above in navigation order.',
+        '2. For each screen call `get_node_info` and pick the primary call-to-action (button-like child) as the hotspot.',
+        `3. Connect consecutive screens with one \`batch_connect\` call (trigger ON_CLICK, action NODE/NAVIGATE, transition ${transition}). Use \`create_interaction\` only for single fixes.`,
+        `4. Call \`create_flow\` with the first screen as startFrameId and name "${flowName}".`,
+        '5. Report every connection created and any screen without a suitable hotspot.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'tokenize_colors',
+    description: 'Extract raw colors into a variable collection and bind them back to the nodes',
+    arguments: [
+      { name: 'collectionName', description: 'Variable collection to create or reuse (default: Colors)', required: false },
+      { name: 'scope', description: 'page (default) or document', required: false },
+    ],
+    tools: ['check_consistency', 'get_node_info', 'get_all_variables', 'create_variable_collection', 'create_variable', 'smart_select', 'bind_variable_to_node'],
+    render(args, context) {
+      const collectionName = args.collectionName || 'Colors';
+      const scope = args.scope === 'document' ? 'document' : 'page';
+      return [
+        `Turn the raw colors used in the ${scope === 'document' ? 'document' : 'current page'} into color variables in collection "${collectionName}".`,
+        '',
+        describeSelection(context.selection),
+        '',
+        'Steps:',
+        `1. Call \`check_consistency\` with {"scope": "${scope}", "checks": ["colors"]}; its colors issue lists the most used colors. If no issue is reported, sample fills with \`get_node_info\` on the main frames.`,
+        `2. Call \`get_all_variables\`; reuse collection "${collectionName}" if it exists, otherwise call \`create_variable_collection\`.`,
+        '3. Propose semantic names (e.g. color/primary, color/text/muted) for each color and wait for confirmation.',
+        '4. Create each token with `create_variable` (type COLOR).',
+        '5. Find nodes using each color with `smart_select` and bind fills with `bind_variable_to_node` (property "FILLS").',
+        '6. Report created variables and how many nodes were bound to each.',
+      ].join('\n');
+    },
+  },
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+export function getPromptDefinition(name: string): PromptDefinition | undefined {
+  return PROMPTS.find((prompt) => prompt.name === name);
+}
+
+export function renderPrompt(name: string, args: Record<string, string>, context: PromptContext): GetPromptResult {
+  const prompt = getPromptDefinition(name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  for (const arg of prompt.arguments ?? []) {
+    if (arg.required && !args[arg.name]) {
+      throw new Error(`Missing required argument "${arg.name}" for prompt ${name}`);
+    }
+  }
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.render(args, context) },
+      },
+    ],
+  };
+}
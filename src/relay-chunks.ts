@@ -0,0 +1,164 @@
+// Relay Chunks - 大消息分块传输与重组（插件 UI、本地 relay、Cloudflare worker 共用同一信封格式）
+
+// Serialized messages longer than this (in UTF-16 code units) are split into chunk frames.
+export const RELAY_CHUNK_SIZE = 256 * 1024;
+// A stream that receives no chunk for this long is dropped.
+export const RELAY_STREAM_TIMEOUT_MS = 30_000;
+// Relays reject single frames above this; chunk frames stay far below it even with JSON escaping.
+export const RELAY_MAX_FRAME_BYTES = 8 * 1024 * 1024;
+
+// One frame of a chunked message. `messageId` is the id of the wrapped request/response, if any.
+export interface RelayChunk {
+  type: 'chunk';
+  streamId: string;
+  messageId?: string;
+  chunkIndex: number;
+  chunkCount: number;
+  // FNV-1a of the full serialized message, sent on every chunk.
+  checksum: string;
+  data: string;
+}
+
+export function isRelayChunk(message: any): message is RelayChunk {
+  return !!message
+    && message.type === 'chunk'
+    && typeof message.streamId === 'string'
+    && Number.isInteger(message.chunkIndex)
+    && Number.isInteger(message.chunkCount)
+    && typeof message.data === 'string';
+}
+
+// 32-bit FNV-1a over UTF-16 code units; cheap to mirror in the plugin UI.
+export function relayChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Serialize a message into one or more WebSocket frames.
+export function encodeRelayFrames(
+  message: object,
+  streamId: string,
+  chunkSize: number = RELAY_CHUNK_SIZE
+): string[] {
+  const raw = JSON.stringify(message);
+  const messageId = (message as { id?: unknown }).id;
+  if (raw.length <= chunkSize) return [raw];
+
+  const checksum = relayChecksum(raw);
+  const chunkCount = Math.ceil(raw.length / chunkSize);
+  const frames: string[] = [];
+  for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+    const chunk: RelayChunk = {
+      type: 'chunk',
+      streamId,
+      ...(typeof messageId === 'string' ? { messageId } : {}),
+      chunkIndex,
+      chunkCount,
+      checksum,
+      data: raw.slice(chunkIndex * chunkSize, (chunkIndex + 1) * chunkSize),
+    };
+    frames.push(JSON.stringify(chunk));
+  }
+  return frames;
+}
+
+interface RelayStream {
+  messageId?: string;
+  chunkCount: number;
+  checksum: string;
+  parts: Array<string | undefined>;
+  received: number;
+  timer: NodeJS.Timeout;
+}
+
+// Reassembles chunk frames per streamId. Failed or expired streams are reported through onError
+// with the wrapped messageId so the caller can reject the matching request immediately.
+export class RelayChunkAssembler {
+  private readonly streams = new Map<string, RelayStream>();
+
+  constructor(
+    private readonly onError: (error: Error, messageId?: string) => void,
+    private readonly timeoutMs: number = RELAY_STREAM_TIMEOUT_MS
+  ) {}
+
+  // Returns the parsed message once the last chunk arrives, otherwise null.
+  accept(chunk: RelayChunk): any | null {
+    let stream = this.streams.get(chunk.streamId);
+    if (!stream) {
+      if (chunk.chunkCount < 1) {
+        this.onError(new Error(`Invalid chunk count ${chunk.chunkCount} in stream ${chunk.streamId}`), chunk.messageId);
+        return null;
+      }
+      stream = {
+        messageId: chunk.messageId,
+        chunkCount: chunk.chunkCount,
+        checksum: chunk.checksum,
+        parts: new Array(chunk.chunkCount),
+        received: 0,
+        timer: this.startTimer(chunk.streamId),
+      };
+      this.streams.set(chunk.streamId, stream);
+    } else {
+      clearTimeout(stream.timer);
+      stream.timer = this.startTimer(chunk.streamId);
+    }
+
+    if (chunk.chunkCount !== stream.chunkCount || chunk.chunkIndex < 0 || chunk.chunkIndex >= stream.chunkCount) {
+      this.fail(chunk.streamId, `Invalid chunk ${chunk.chunkIndex}/${chunk.chunkCount} in stream ${chunk.streamId}`);
+      return null;
+    }
+    if (stream.parts[chunk.chunkIndex] === undefined) {
+      stream.parts[chunk.chunkIndex] = chunk.data;
+      stream.received += 1;
+    }
+    if (stream.received < stream.chunkCount) return null;
+
+    this.discard(chunk.streamId);
+    const raw = stream.parts.join('');
+    if (relayChecksum(raw) !== stream.checksum) {
+      this.onError(new Error(`Checksum mismatch in chunked stream ${chunk.streamId}`), stream.messageId);
+      return null;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      this.onError(new Error(`Malformed JSON in chunked stream ${chunk.streamId}`), stream.messageId);
+      return null;
+    }
+  }
+
+  getActiveStreamCount(): number {
+    return this.streams.size;
+  }
+
+  // Drop every partial stream (e.g. on disconnect) without reporting errors.
+  clear() {
+    for (const stream of this.streams.values()) {
+      clearTimeout(stream.timer);
+    }
+    this.streams.clear();
+  }
+
+  private startTimer(streamId: string): NodeJS.Timeout {
+    return setTimeout(() => {
+      this.fail(streamId, `Chunked stream ${streamId} timed out after ${Math.round(this.timeoutMs / 1000)}s`);
+    }, this.timeoutMs);
+  }
+
+  private fail(streamId: string, reason: string) {
+    const stream = this.streams.get(streamId);
+    this.discard(streamId);
+    this.onError(new Error(reason), stream?.messageId);
+  }
+
+  private discard(streamId: string) {
+    const stream = this.streams.get(streamId);
+    if (!stream) return;
+    clearTimeout(stream.timer);
+    this.streams.delete(streamId);
+  }
+}
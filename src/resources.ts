@@ -0,0 +1,141 @@
+// Figma Resources - 以 MCP resources 暴露文档结构
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export const RESOURCE_SCHEME = 'figma://';
+
+export type FigmaResourceRef =
+  | { kind: 'document' }
+  | { kind: 'page'; id: string }
+  | { kind: 'node'; id: string }
+  | { kind: 'styles' }
+  | { kind: 'variables'; collectionId?: string };
+
+// Change report pushed by the plugin (documentchange / stylechange listeners).
+export interface DocumentChangeEvent {
+  pageId?: string;
+  nodeIds?: string[];
+  stylesChanged?: boolean;
+  variablesChanged?: boolean;
+}
+
+export const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: 'figma://document',
+    name: 'Document outline',
+    description: 'Document name, current page and page list (no node trees).',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'figma://styles',
+    name: 'Local styles',
+    description: 'All local paint, text, effect and grid styles.',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'figma://variables',
+    name: 'Local variables',
+    description: 'All local variable collections and their variables.',
+    mimeType: 'application/json',
+  },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'figma://page/{pageId}',
+    name: 'Page tree',
+    description: 'Node tree of one page (id/name/type per node, depth-limited).',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'figma://node/{nodeId}',
+    name: 'Node info',
+    description: 'Full node info (geometry, paints, layout, component data) for one node.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'figma://variables/{collectionId}',
+    name: 'Variable collection',
+    description: 'Variables that belong to one local variable collection.',
+    mimeType: 'application/json',
+  },
+];
+
+export function pageResourceUri(pageId: string): string {
+  return `${RESOURCE_SCHEME}page/${encodeURIComponent(pageId)}`;
+}
+
+export function nodeResourceUri(nodeId: string): string {
+  return `${RESOURCE_SCHEME}node/${encodeURIComponent(nodeId)}`;
+}
+
+export function variablesResourceUri(collectionId?: string): string {
+  return collectionId
+    ? `${RESOURCE_SCHEME}variables/${encodeURIComponent(collectionId)}`
+    : `${RESOURCE_SCHEME}variables`;
+}
+
+export function parseResourceUri(uri: string): FigmaResourceRef {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new Error(`Invalid resource URI (expected ${RESOURCE_SCHEME}...): ${uri}`);
+  }
+  const rest = uri.slice(RESOURCE_SCHEME.length).replace(/\/+$/, '');
+  const slash = rest.indexOf('/');
+  const head = slash === -1 ? rest : rest.slice(0, slash);
+  const id = slash === -1 ? '' : decodeURIComponent(rest.slice(slash + 1));
+
+  switch (head) {
+    case 'document':
+      if (!id) return { kind: 'document' };
+      break;
+    case 'styles':
+      if (!id) return { kind: 'styles' };
+      break;
+    case 'variables':
+      return id ? { kind: 'variables', collectionId: id } : { kind: 'variables' };
+    case 'page':
+      if (id) return { kind: 'page', id };
+      break;
+    case 'node':
+      if (id) return { kind: 'node', id };
+      break;
+  }
+  throw new Error(`Unknown resource URI: ${uri}`);
+}
+
+// 根据插件上报的变更，计算需要通知的已订阅 URI
+export function resolveUpdatedUris(event: DocumentChangeEvent, subscribed: Iterable<string>): string[] {
+  const changedNodes = new Set(event.nodeIds ?? []);
+  const hasNodeChanges = changedNodes.size > 0 || !!event.pageId;
+  const updated: string[] = [];
+
+  for (const uri of subscribed) {
+    let ref: FigmaResourceRef;
+    try {
+      ref = parseResourceUri(uri);
+    } catch {
+      continue;
+    }
+
+    let affected = false;
+    switch (ref.kind) {
+      case 'document':
+        affected = hasNodeChanges;
+        break;
+      case 'page':
+        affected = ref.id === event.pageId || changedNodes.has(ref.id);
+        break;
+      case 'node':
+        affected = changedNodes.has(ref.id);
+        break;
+      case 'styles':
+        affected = !!event.stylesChanged;
+        break;
+      case 'variables':
+        affected = !!event.variablesChanged;
+        break;
+    }
+    if (affected) updated.push(uri);
+  }
+
+  return updated;
+}
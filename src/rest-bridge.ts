@@ -2,6 +2,7 @@
 import http from 'http';
 import https from 'https';
 import { EventEmitter } from 'events';
+import { clusterColors, ColorSample, PaletteColor, rgbToHex } from './color.js';
 
 export interface FigmaRESTConfig {
   accessToken: string;
@@ -62,6 +63,28 @@ export interface ExportResult {
   images: Record<string, string>;
 }
 
+// 通过插件把 SVG 导入当前打开的文件（import_svg），返回新建组件
+export type SvgImporter = (
+  svg: string,
+  options: { name: string; description?: string; x: number; expectedFileKey: string }
+) => Promise<{ id: string; width?: number; targetVerified?: boolean }>;
+
+export interface FilePalette {
+  paints: number;
+  distinctColors: number;
+  palette: PaletteColor[];
+}
+
+export interface ComponentSyncDetail {
+  component: string;
+  status: 'success' | 'failed';
+  nodeId?: string;
+  // false when the plugin could not read the open file's key (public plugins), so the file was not checked.
+  targetVerified?: boolean;
+  warning?: string;
+  error?: string;
+}
+
 // REST API 桥接器
 export class FigmaRESTBridge extends EventEmitter {
   private config: FigmaRESTConfig;
@@ -363,12 +386,14 @@ export class FigmaRESTBridge extends EventEmitter {
 // 跨项目同步管理器
 export class CrossProjectSync {
   private restBridge: FigmaRESTBridge;
+  private importSvg?: SvgImporter;
 
-  constructor(restBridge: FigmaRESTBridge) {
+  constructor(restBridge: FigmaRESTBridge, importSvg?: SvgImporter) {
     this.restBridge = restBridge;
+    this.importSvg = importSvg;
   }
 
-  // 同步组件库
+  // 同步组件库：REST 导出 SVG，再由插件在目标文件中创建组件（目标文件须在 Figma 中打开）
   async syncComponentLibrary(
     sourceTeamId: string,
     targetFileKey: string,
@@ -376,24 +401,45 @@ export class CrossProjectSync {
   ): Promise<{
     synced: number;
     failed: number;
-    details: Array<{ component: string; status: 'success' | 'failed'; error?: string }>;
+    details: ComponentSyncDetail[];
   }> {
+    if (!this.importSvg) {
+      throw new Error('Syncing components needs the Figma plugin connected to the target file');
+    }
+
     // 获取源团队组件
     const { meta: { components } } = await this.restBridge.getTeamComponents(sourceTeamId);
     
     // 过滤组件
     const toSync = componentFilter ? components.filter(componentFilter) : components;
     
-    const results: Array<{ component: string; status: 'success' | 'failed'; error?: string }> = [];
+    const results: ComponentSyncDetail[] = [];
+    // 导入的组件从左到右排列，避免互相重叠
+    let x = 0;
     
     for (const component of toSync) {
       try {
         // 导出组件
         const { svg } = await this.restBridge.copyComponentToLocal(component.key);
-        
-        // 这里需要将 SVG 导入到目标文件
-        // 由于 REST API 不支持直接创建节点，这需要通过 Plugin API 完成
-        results.push({ component: component.name, status: 'success' });
+        if (!svg) {
+          throw new Error('SVG export returned no content');
+        }
+
+        const created = await this.importSvg(svg, {
+          name: component.name,
+          description: component.description || undefined,
+          x,
+          expectedFileKey: targetFileKey,
+        });
+        x += (created.width ?? 0) + 40;
+        const targetVerified = created.targetVerified === true;
+        results.push({
+          component: component.name,
+          status: 'success',
+          nodeId: created.id,
+          targetVerified,
+          ...(targetVerified ? {} : { warning: `Could not confirm the open file is ${targetFileKey}; check where the component was created` }),
+        });
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         results.push({ component: component.name, status: 'failed', error: errorMsg });
@@ -432,6 +478,41 @@ export class CrossProjectSync {
     };
   }
 
+  // 提取文件色板：按 ΔE2000 聚类可见的纯色填充与描边（不含实例内部图层）
+  async extractPalette(
+    fileKey: string,
+    opts: { nodeIds?: string[]; maxColors?: number; maxDeltaE?: number; includeStrokes?: boolean } = {}
+  ): Promise<FilePalette> {
+    const roots: any[] = opts.nodeIds && opts.nodeIds.length > 0
+      ? Object.values((await this.restBridge.getFileNodes(fileKey, opts.nodeIds)).nodes ?? {})
+          .map((entry: any) => entry?.document)
+          .filter(Boolean)
+      : [(await this.restBridge.getFile(fileKey)).document];
+
+    const fields = opts.includeStrokes === false ? ['fills'] : ['fills', 'strokes'];
+    const samples: ColorSample[] = [];
+    const visit = (node: any) => {
+      if (node.visible === false) return;
+      for (const field of fields) {
+        for (const paint of node[field] ?? []) {
+          if (paint.type === 'SOLID' && paint.visible !== false && paint.color) {
+            samples.push({ color: paint.color, id: node.id });
+          }
+        }
+      }
+      if (node.type !== 'INSTANCE') {
+        for (const child of node.children ?? []) visit(child);
+      }
+    };
+    roots.forEach(visit);
+
+    return {
+      paints: samples.length,
+      distinctColors: new Set(samples.map((sample) => rgbToHex(sample.color))).size,
+      palette: clusterColors(samples, opts.maxDeltaE ?? 6, opts.maxColors ?? 12),
+    };
+  }
+
   // 比较两个文件的组件差异
   async compareComponents(
     sourceFileKey: string,
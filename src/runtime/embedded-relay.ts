@@ -1,5 +1,6 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import chalk from 'chalk';
+import { RELAY_MAX_FRAME_BYTES } from '../relay-chunks.js';
 
 export interface EmbeddedRelayOptions {
   host: string;
@@ -34,7 +35,12 @@ export class EmbeddedRelay {
     if (this.wss) return;
 
     await new Promise<void>((resolve, reject) => {
-      const wss = new WebSocketServer({ host: this.options.host, port: this.options.port });
+      const wss = new WebSocketServer({
+        host: this.options.host,
+        port: this.options.port,
+        // Large messages travel as chunk frames (see relay-chunks.ts) and are forwarded untouched.
+        maxPayload: RELAY_MAX_FRAME_BYTES,
+      });
       this.wss = wss;
 
       const cleanupAndReject = (err: Error) => {
@@ -5,21 +5,45 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  Tool,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import chalk from 'chalk';
 import { v4 as uuidv4 } from 'uuid';
 import WebSocket from 'ws';
 import {
+  PluginEvent,
   PluginMessage,
   PluginResponse,
 } from './types.js';
-import { ProgressManager } from './progress-manager.js';
+import { ProgressManager, ProgressUpdate } from './progress-manager.js';
 import { EnhancedBatchExecutor } from './enhanced-batch-operations.js';
 import { FigmaRESTBridge, CrossProjectSync } from './rest-bridge.js';
 import { EmbeddedRelay } from './runtime/embedded-relay.js';
 import { InstanceManager } from './runtime/instance-manager.js';
+import { TOOLS, getToolDefinition, pluginMessageType } from './tools.js';
+import { ValidationIssue, describeIssues, validateToolInput } from './input-validation.js';
+import { jsonResult, structuredResult, toolResult } from './output-schemas.js';
+import { DEFAULT_EXPORT_ROOT, ExportDescriptor, exportContentBlock, resolveExportDir, writeExportFile } from './exports.js';
+import { RelayChunk, RelayChunkAssembler, encodeRelayFrames, isRelayChunk } from './relay-chunks.js';
+import { PromptContext, listPrompts, renderPrompt } from './prompts.js';
+import { SessionRecorder, formatReplayReport, readRecording, replaySession } from './session-recorder.js';
+import {
+  DocumentChangeEvent,
+  RESOURCE_TEMPLATES,
+  STATIC_RESOURCES,
+  pageResourceUri,
+  parseResourceUri,
+  resolveUpdatedUris,
+} from './resources.js';
 import { format } from 'node:util';
 import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
 import fs from 'node:fs/promises';
@@ -45,6 +69,7 @@ const MCP_SERVER_VERSION = (() => {
 })();
 const RELAY_PING_INTERVAL_MS = 20_000;
 const RELAY_PONG_TIMEOUT_MS = 45_000;
+const CANCEL_GRACE_MS = 10_000;
 
 // WebSocket connection to Figma Plugin via Relay Server
 class FigmaPluginConnection {
@@ -61,6 +86,13 @@ class FigmaPluginConnection {
   private readonly debugEvents: Array<{ ts: string; event: string; detail?: string }> = [];
   private relayPingTimer: NodeJS.Timeout | null = null;
   private relayPongDeadlineTimer: NodeJS.Timeout | null = null;
+  private readonly pluginEventListeners = new Set<(event: PluginEvent) => void>();
+  private recorder: SessionRecorder | null = null;
+  // Large plugin replies arrive as chunk frames; a broken stream fails its request right away.
+  private readonly chunkAssembler = new RelayChunkAssembler((error, messageId) => {
+    this.pushDebug('chunk_error', error.message);
+    if (messageId) this.rejectPending(messageId, error);
+  });
 
   private pushDebug(event: string, detail?: string) {
     this.debugEvents.push({ ts: new Date().toISOString(), event, detail });
@@ -82,7 +114,19 @@ class FigmaPluginConnection {
     }
   }
 
+  private emitPluginEvent(event: PluginEvent) {
+    this.pushDebug('plugin_event', String(event.event));
+    for (const listener of this.pluginEventListeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error(chalk.red('Plugin event listener failed:'), err);
+      }
+    }
+  }
+
   private rejectAllPending(reason: Error) {
+    this.chunkAssembler.clear();
     for (const [id, pending] of this.pendingRequests.entries()) {
       clearTimeout(pending.timeout);
       this.pendingRequests.delete(id);
@@ -219,6 +263,12 @@ class FigmaPluginConnection {
           return;
         }
 
+        // Unsolicited plugin events (document changes etc.)
+        if (message.type === 'plugin_event') {
+          this.emitPluginEvent(message as PluginEvent);
+          return;
+        }
+
         // Handle response messages
         const response: PluginResponse = message;
         this.handleResponse(response);
@@ -249,7 +299,18 @@ class FigmaPluginConnection {
     });
   }
 
-  private handleResponse(response: PluginResponse) {
+  private handleResponse(response: PluginResponse | RelayChunk) {
+    if (isRelayChunk(response)) {
+      const message = this.chunkAssembler.accept(response);
+      if (!message) return;
+      if (message.type === 'plugin_event') {
+        this.emitPluginEvent(message as PluginEvent);
+        return;
+      }
+      this.handleResponse(message as PluginResponse);
+      return;
+    }
+
     const pending = this.pendingRequests.get(response.id);
     if (!pending) return;
 
@@ -267,7 +328,37 @@ class FigmaPluginConnection {
     return this.pendingRequests.size;
   }
 
+  hasPendingRequest(id: string): boolean {
+    return this.pendingRequests.has(id);
+  }
+
+  rejectPending(id: string, reason: Error): boolean {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return false;
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    pending.reject(reason);
+    return true;
+  }
+
+  // Opt-in: every plugin call and its reply is appended to the recorder (see --record).
+  setRecorder(recorder: SessionRecorder | null) {
+    this.recorder = recorder;
+  }
+
   send(message: PluginMessage, timeoutMs: number = 90000): Promise<any> {
+    const finish = this.recorder?.begin(message);
+    const reply = this.sendAndWait(message, timeoutMs);
+    if (finish) {
+      reply.then(
+        (result) => finish({ result }),
+        (error) => finish({ error: error instanceof Error ? error.message : String(error) })
+      );
+    }
+    return reply;
+  }
+
+  private sendAndWait(message: PluginMessage, timeoutMs: number): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!this.connected || !this.ws || this.ws.readyState !== WebSocket.OPEN) {
         reject(new Error('Not connected to Figma. Please open the "Supercharged Figma AI" plugin in Figma and click "Connect to MCP Server"'));
@@ -284,12 +375,13 @@ class FigmaPluginConnection {
       }, timeoutMs);
 
       this.pendingRequests.set(message.id, { resolve, reject, timeout });
-      this.ws.send(JSON.stringify(message), (err) => {
-        if (!err) return;
-        clearTimeout(timeout);
-        this.pendingRequests.delete(message.id);
-        reject(err);
-      });
+      for (const frame of encodeRelayFrames(message, uuidv4())) {
+        this.ws.send(frame, (err) => {
+          if (!err) return;
+          clearTimeout(timeout);
+          if (this.pendingRequests.delete(message.id)) reject(err);
+        });
+      }
     });
   }
 
@@ -297,7 +389,9 @@ class FigmaPluginConnection {
     if (!this.connected || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
     if (!this.figmaConnected) return;
     try {
-      this.ws.send(JSON.stringify(message));
+      for (const frame of encodeRelayFrames(message, uuidv4())) {
+        this.ws.send(frame);
+      }
     } catch {
       // Best effort notification
     }
@@ -319,6 +413,23 @@ class FigmaPluginConnection {
     return [...this.debugEvents];
   }
 
+  close() {
+    this.clearRelayKeepaliveTimers();
+    const socket = this.ws;
+    this.ws = null;
+    this.connected = false;
+    this.figmaConnected = false;
+    this.rejectAllPending(new Error('Connection closed'));
+    socket?.close();
+  }
+
+  onPluginEvent(listener: (event: PluginEvent) => void): () => void {
+    this.pluginEventListeners.add(listener);
+    return () => {
+      this.pluginEventListeners.delete(listener);
+    };
+  }
+
   setWebSocket(ws: WebSocket) {
     this.clearRelayKeepaliveTimers();
     this.ws = ws;
@@ -326,9 +437,13 @@ class FigmaPluginConnection {
     this.figmaConnected = true;
     
     ws.on('message', (data: WebSocket.Data) => {
-      const response = this.parseIncomingMessage(data) as PluginResponse | null;
-      if (!response) return;
-      this.handleResponse(response);
+      const message = this.parseIncomingMessage(data);
+      if (!message) return;
+      if (message.type === 'plugin_event') {
+        this.emitPluginEvent(message as PluginEvent);
+        return;
+      }
+      this.handleResponse(message as PluginResponse);
     });
 
     ws.on('close', () => {
@@ -348,1918 +463,6 @@ class FigmaPluginConnection {
   }
 }
 
-// Tool Definitions
-const TOOLS: Tool[] = [
-  // ===== System Tools =====
-  {
-    name: 'connect_to_relay',
-    description: 'Connect to Figma via Relay Server. Prerequisite: user must open the Figma plugin first and provide a real Channel Code. NEVER guess/fabricate channelCode. If missing, ask user to provide: connect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}. Use wss:// for remote production relay endpoints.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        relayUrl: {
-          type: 'string',
-          description: 'Optional. Relay WebSocket URL (e.g., ws://127.0.0.1:8080). If omitted, server default is used.',
-        },
-        channelCode: {
-          type: 'string',
-          description: 'Required. Real Channel Code displayed in Figma plugin (e.g., ABC123). Do not invent values.',
-        },
-      },
-      required: ['channelCode'],
-    },
-  },
-  {
-    name: 'get_connection_status',
-    description: 'Check MCP<->Figma connection state before any design tool call. Supports optional debug event controls to reduce noisy payloads.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        includeDebugEvents: {
-          type: 'boolean',
-          default: false,
-          description: 'Whether to include relay debugEvents in response.',
-        },
-        debugLimit: {
-          type: 'number',
-          default: 20,
-          minimum: 1,
-          maximum: 200,
-          description: 'Max number of newest debug events to include when includeDebugEvents=true.',
-        },
-      },
-    },
-  },
-  // ===== Smart Discovery Tools =====
-  {
-    name: 'smart_select',
-    description: 'AI-powered semantic node retrieval using natural language query (fuzzy, not exact-match filtering). Supports current page, whole document, or explicit pageIds/pageNames. For deterministic exact filtering, prefer scan_by_pattern.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Natural language query, e.g., "all buttons", "login form elements", "red cards in header"',
-        },
-        scope: {
-          type: 'string',
-          enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
-          default: 'document',
-          description: 'Search scope when pageIds/pageNames are not provided.',
-        },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to search. Takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to search (case-insensitive). Takes precedence over scope.' },
-        limit: {
-          type: 'number',
-          default: 100,
-          description: 'Maximum results to return',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'find_similar',
-    description: 'Find nodes visually or structurally similar to a target node. Supports current page, whole document, or explicit pageIds/pageNames.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        targetId: {
-          type: 'string',
-          description: 'ID of the reference node',
-        },
-        threshold: {
-          type: 'number',
-          default: 0.85,
-          minimum: 0,
-          maximum: 1,
-          description: 'Similarity threshold (0-1)',
-        },
-        scope: {
-          type: 'string',
-          enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
-          default: 'document',
-          description: 'Search scope when pageIds/pageNames are not provided.',
-        },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to search. Takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to search (case-insensitive). Takes precedence over scope.' },
-      },
-      required: ['targetId'],
-    },
-  },
-  {
-    name: 'scan_by_pattern',
-    description: 'Scan nodes by pattern (name/type/size/color/layout). Supports current page, whole document, or explicit pageIds/pageNames. Returns paginated-like payload with `nodes` and truncation metadata.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        pattern: {
-          type: 'object',
-          properties: {
-            nameRegex: { type: 'string' },
-            types: { type: 'array', items: { type: 'string' } },
-            minWidth: { type: 'number' },
-            maxWidth: { type: 'number' },
-            minHeight: { type: 'number' },
-            maxHeight: { type: 'number' },
-            fillColor: { type: 'object' },
-            hasAutoLayout: { type: 'boolean' },
-          },
-        },
-        limit: {
-          type: 'number',
-          default: 200,
-          minimum: 1,
-          maximum: 5000,
-          description: 'Maximum matched nodes to return. Use to prevent oversized responses on large documents.',
-        },
-        scope: {
-          type: 'string',
-          enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
-          default: 'document',
-          description: 'Search scope when pageIds/pageNames are not provided.',
-        },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to scan. Takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to scan (case-insensitive). Takes precedence over scope.' },
-      },
-      required: ['pattern'],
-    },
-  },
-  {
-    name: 'auto_discover_components',
-    description: 'Automatically analyze nodes and discover opportunities for component creation. Supports current page, whole document, or explicit pageIds/pageNames.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        scope: {
-          type: 'string',
-          enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
-          default: 'page',
-          description: 'Analysis scope when pageIds/pageNames are not provided.',
-        },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. Takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). Takes precedence over scope.' },
-        minSimilarity: { type: 'number', default: 0.9 },
-        minOccurrences: { type: 'number', default: 3 },
-      },
-    },
-  },
-
-  // ===== Batch Operation Tools =====
-  {
-    name: 'batch_create',
-    description: 'Batch create multiple nodes efficiently. Handles 1000+ operations without timeout. `operation.type` accepts alias formats: snake_case, camelCase, kebab-case, and uppercase.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        operations: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              type: {
-                type: 'string',
-                description: 'Create type alias. Supported families: rectangle/frame/text/component/ellipse/line/polygon/star/vector. Examples: `create_frame`, `createFrame`, `frame`.',
-              },
-              params: {
-                type: 'object',
-                description: 'Node properties. Paint arrays (`fills`/`strokes`) support either hex strings (e.g. `#4A90E2`) or full Figma paint objects.',
-              },
-            },
-          },
-        },
-        chunkSize: { type: 'number', default: 50 },
-        continueOnError: { type: 'boolean', default: true },
-      },
-      required: ['operations'],
-    },
-  },
-  {
-    name: 'batch_modify',
-    description: 'Batch modify multiple nodes in one operation.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        operations: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              nodeId: { type: 'string' },
-              changes: { type: 'object' },
-            },
-          },
-        },
-        chunkSize: { type: 'number', default: 50 },
-      },
-      required: ['operations'],
-    },
-  },
-  {
-    name: 'batch_clone',
-    description: 'Clone a template node multiple times with optional position offset. For large counts, IDs are optional and can be truncated to keep payloads small.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        templateId: { type: 'string' },
-        count: { type: 'number' },
-        offsetX: { type: 'number', default: 200 },
-        offsetY: { type: 'number', default: 0 },
-        gridColumns: { type: 'number', default: 5 },
-        includeIds: { type: 'boolean', default: false, description: 'Whether to include cloned node IDs in the response.' },
-        maxReturnedIds: { type: 'number', default: 100, minimum: 0, maximum: 5000, description: 'Maximum number of IDs returned when includeIds=true.' },
-      },
-      required: ['templateId', 'count'],
-    },
-  },
-  {
-    name: 'batch_rename',
-    description: 'Batch rename nodes with pattern support.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        pattern: { type: 'string', description: 'Name pattern with {index} placeholder' },
-        startIndex: { type: 'number', default: 1 },
-      },
-      required: ['nodeIds', 'pattern'],
-    },
-  },
-  {
-    name: 'batch_delete',
-    description: 'Batch delete multiple nodes safely.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        confirm: { type: 'boolean', default: false },
-      },
-      required: ['nodeIds'],
-    },
-  },
-
-  // ===== Component System Tools =====
-  {
-    name: 'create_component_from_nodes',
-    description: 'Convert multiple nodes into a component. Can organize similar nodes automatically.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        name: { type: 'string' },
-        organize: { type: 'boolean', default: true, description: 'Organize components on a dedicated page' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'create_variant_set',
-    description: 'Create a component set with variants from multiple components.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentIds: { type: 'array', items: { type: 'string' } },
-        propertyName: { type: 'string' },
-        propertyValues: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['componentIds', 'propertyName', 'propertyValues'],
-    },
-  },
-  {
-    name: 'auto_create_variants',
-    description: 'Intelligently analyze a component and auto-generate variants based on property differences.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentId: { type: 'string' },
-        detectProperties: { type: 'array', items: { type: 'string' }, default: ['fills', 'text', 'visibility'] },
-      },
-      required: ['componentId'],
-    },
-  },
-  {
-    name: 'merge_to_component',
-    description: 'Intelligently merge similar nodes into a component, creating instances to replace originals.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        smartMatch: { type: 'boolean', default: true, description: 'Auto-group similar nodes' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'detach_instance',
-    description: 'Detach component instances and optionally delete the main component.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        instanceIds: { type: 'array', items: { type: 'string' } },
-        deleteMainComponent: { type: 'boolean', default: false },
-      },
-      required: ['instanceIds'],
-    },
-  },
-  {
-    name: 'swap_component',
-    description: 'Swap multiple instances to a different component.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        instanceIds: { type: 'array', items: { type: 'string' } },
-        newComponentKey: { type: 'string' },
-        preserveOverrides: { type: 'boolean', default: true },
-      },
-      required: ['instanceIds', 'newComponentKey'],
-    },
-  },
-
-  // ===== Prototype System Tools =====
-  {
-    name: 'create_interaction',
-    description: 'Create a prototype interaction between two nodes (strict mode). Source must support reactions (recommended FRAME/INSTANCE). Supported trigger types: ON_CLICK, ON_HOVER, ON_PRESS, AFTER_TIMEOUT, MOUSE_UP, MOUSE_DOWN, MOUSE_ENTER, MOUSE_LEAVE, ON_MEDIA_END. ON_DRAG/keyboard triggers are currently unsupported and are rejected explicitly. Supported action types: NODE, BACK, CLOSE, URL. For NODE actions, destinationId/navigation/transition must be valid. Unsupported types are rejected with explicit errors (no silent downgrade).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fromNodeId: { type: 'string' },
-        toNodeId: { type: 'string' },
-        trigger: {
-          type: 'object',
-          properties: {
-            type: { type: 'string', enum: ['ON_CLICK', 'ON_HOVER', 'ON_PRESS', 'AFTER_TIMEOUT', 'MOUSE_UP', 'MOUSE_DOWN', 'MOUSE_ENTER', 'MOUSE_LEAVE', 'ON_MEDIA_END'] },
-            delay: { type: 'number' },
-            timeout: { type: 'number' },
-          },
-        },
-        action: {
-          type: 'object',
-          properties: {
-            type: { type: 'string', enum: ['NODE', 'BACK', 'CLOSE', 'URL', 'OPEN_LINK'] },
-            navigation: { type: 'string', enum: ['NAVIGATE', 'OVERLAY', 'SWAP', 'SCROLL_TO', 'CHANGE_TO'] },
-            destinationId: { type: 'string' },
-            url: { type: 'string' },
-            animation: {
-              type: 'object',
-              properties: {
-                type: { type: 'string', enum: ['DISSOLVE', 'SMART_ANIMATE', 'MOVE_IN', 'MOVE_OUT', 'PUSH', 'SLIDE_IN', 'SLIDE_OUT'] },
-                direction: { type: 'string', enum: ['LEFT', 'RIGHT', 'TOP', 'BOTTOM'] },
-                matchLayers: { type: 'boolean' },
-                duration: { type: 'number' },
-                easing: { type: 'string', enum: ['EASE_IN', 'EASE_OUT', 'EASE_IN_AND_OUT', 'LINEAR'] },
-              },
-            },
-            transition: { type: 'object' },
-            preserveScrollPosition: { type: 'boolean' },
-            resetScrollPosition: { type: 'boolean' },
-            resetVideoPosition: { type: 'boolean' },
-            resetInteractiveComponents: { type: 'boolean' },
-          },
-        },
-      },
-      required: ['fromNodeId', 'toNodeId'],
-    },
-  },
-  {
-    name: 'batch_connect',
-    description: 'Batch create prototype connections.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        connections: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              fromNodeId: { type: 'string' },
-              toNodeId: { type: 'string' },
-              trigger: { type: 'object' },
-              action: { type: 'object' },
-            },
-          },
-        },
-      },
-      required: ['connections'],
-    },
-  },
-  {
-    name: 'copy_prototype',
-    description: 'Copy prototype interactions from one node to others.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sourceNodeId: { type: 'string' },
-        targetNodeIds: { type: 'array', items: { type: 'string' } },
-        adjustTargets: { type: 'boolean', default: true, description: 'Auto-adjust destination based on target context' },
-      },
-      required: ['sourceNodeId', 'targetNodeIds'],
-    },
-  },
-  {
-    name: 'create_flow',
-    description: 'Create a prototype flow with a starting frame.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        startFrameId: { type: 'string' },
-        name: { type: 'string' },
-        description: { type: 'string' },
-      },
-      required: ['startFrameId', 'name'],
-    },
-  },
-
-  // ===== Style System Tools =====
-  {
-    name: 'create_color_style',
-    description: 'Create a color style from a node or direct values.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        color: { type: 'object', properties: { r: {}, g: {}, b: {}, a: {} } },
-        sourceNodeId: { type: 'string' },
-      },
-    },
-  },
-  {
-    name: 'create_text_style',
-    description: 'Create a text style from a text node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        sourceNodeId: { type: 'string' },
-      },
-      required: ['name', 'sourceNodeId'],
-    },
-  },
-  {
-    name: 'apply_style_to_nodes',
-    description: 'Apply a style to multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        styleId: { type: 'string' },
-        nodeIds: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['styleId', 'nodeIds'],
-    },
-  },
-  {
-    name: 'sync_styles_to_library',
-    description: 'Sync local styles to a team library.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        styleIds: { type: 'array', items: { type: 'string' } },
-        libraryFileKey: { type: 'string' },
-      },
-      required: ['styleIds'],
-    },
-  },
-
-  // ===== Intelligence Tools =====
-  {
-    name: 'analyze_duplicates',
-    description: 'Analyze duplicate/similar elements and return consolidation opportunities. Scope can target current page, whole document, or explicit pageIds/pageNames. Supports output caps for large files.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'document' },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. If provided, takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope.' },
-        threshold: { type: 'number', default: 0.9 },
-        minOccurrences: { type: 'number', default: 2 },
-        maxGroups: { type: 'number', default: 100, minimum: 1, maximum: 1000, description: 'Maximum duplicate groups returned.' },
-        maxNodesPerGroup: { type: 'number', default: 50, minimum: 1, maximum: 200, description: 'Maximum node references returned per duplicate group.' },
-        maxAnalyzedNodes: { type: 'number', default: 5000, minimum: 100, maximum: 50000, description: 'Hard limit for analyzed nodes to prevent timeouts on very large documents.' },
-      },
-    },
-  },
-  {
-    name: 'suggest_component_structure',
-    description: 'Analyze design and suggest optimal component structure. Scope can target current page, whole document, or explicit pageIds/pageNames.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'document' },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. If provided, takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope.' },
-        maxDepth: { type: 'number', default: 3 },
-      },
-    },
-  },
-  {
-    name: 'generate_naming_scheme',
-    description: 'Generate consistent naming scheme for nodes based on patterns.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        convention: { type: 'string', enum: ['semantic', 'functional', 'atomic'], default: 'semantic' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'check_consistency',
-    description: 'Check design consistency (spacing, colors, typography). Scope can target current page, whole document, or explicit pageIds/pageNames.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'document' },
-        pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. If provided, takes precedence over scope.' },
-        pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope.' },
-        checks: { type: 'array', items: { type: 'string' }, default: ['colors', 'typography', 'spacing'] },
-      },
-    },
-  },
-  {
-    name: 'select_nodes',
-    description: 'Select nodes by IDs on canvas. Selection is applied on the active page; cross-page IDs are reported in skippedCrossPageIds. Can optionally append to current selection and focus viewport.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        append: { type: 'boolean', default: false },
-        focus: { type: 'boolean', default: true },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'set_focus',
-    description: 'Set viewport focus by node(s) or by canvas coordinates.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        x: { type: 'number' },
-        y: { type: 'number' },
-        zoom: { type: 'number' },
-      },
-    },
-  },
-  {
-    name: 'move_nodes',
-    description: 'Move multiple nodes by delta offsets. Operates by node ID globally (can move nodes on different pages in one call).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        deltaX: { type: 'number', default: 0 },
-        deltaY: { type: 'number', default: 0 },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'set_node_position',
-    description: 'Set absolute x/y position for a single node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        x: { type: 'number' },
-        y: { type: 'number' },
-      },
-      required: ['nodeId', 'x', 'y'],
-    },
-  },
-  {
-    name: 'arrange_nodes',
-    description: 'Auto-arrange nodes into row/column/grid with optional collision avoidance, geometric quality checks, and optional before/after visual snapshots. Returns strict diagnostics via missingIds + missingDetails (reasons: not_found/not_positionable/missing_bounds/cross_page_filtered).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' }, description: 'Optional. If omitted, uses current selection.' },
-        layout: { type: 'string', enum: ['row', 'column', 'grid'], default: 'row' },
-        columns: { type: 'number', description: 'Used when layout=grid. Auto-calculated if omitted.' },
-        groupBy: {
-          type: 'string',
-          enum: ['none', 'type', 'typeAndComponent'],
-          default: 'none',
-          description: 'When set to type/typeAndComponent, nodes are grouped by layer type and optionally component name before arranging.'
-        },
-        spacingX: { type: 'number', default: 120 },
-        spacingY: { type: 'number', default: 120 },
-        startX: { type: 'number', description: 'Optional fixed start X. Defaults to min x of selected nodes.' },
-        startY: { type: 'number', description: 'Optional fixed start Y. Defaults to min y of selected nodes.' },
-        withinContainerId: { type: 'string', description: 'Optional container/frame to keep nodes inside and parent under.' },
-        placementPolicy: { type: 'string', enum: ['preserve_lane', 'min_move', 'strict_no_overlap'], default: 'min_move', description: 'Collision resolution strategy; min_move keeps nodes closer to original area.' },
-        avoidOverlaps: { type: 'boolean', default: true, description: 'When true, shifts candidates to avoid overlaps with non-target nodes.' },
-        verifyVisual: { type: 'boolean', default: false, description: 'When true, capture before/after snapshots and include quality metrics.' },
-        snapshotMode: { type: 'string', enum: ['selection', 'region', 'page'], default: 'selection', description: 'Capture mode used when verifyVisual=true.' },
-        snapshotScale: { type: 'number', default: 1, description: 'Export scale for snapshots.' },
-        focus: { type: 'boolean', default: true, description: 'Focus viewport to arranged nodes after operation.' },
-      },
-    },
-  },
-  {
-    name: 'containerize_nodes',
-    description: 'Reparent nodes into a target container while preserving their visual position as much as possible.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        containerId: { type: 'string' },
-      },
-      required: ['nodeIds', 'containerId'],
-    },
-  },
-  {
-    name: 'validate_structure',
-    description: 'Validate container membership, bounds containment, and overlap for a set of nodes. Useful after layout operations.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' }, description: 'Optional. If omitted, uses current selection.' },
-        containerId: { type: 'string', description: 'Optional container to validate parent/inside status.' },
-      },
-    },
-  },
-  {
-    name: 'capture_view',
-    description: 'Capture a visual snapshot as PNG for selected nodes, a region, or current page, and return metadata + base64 preview.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        mode: { type: 'string', enum: ['selection', 'region', 'page'], default: 'selection' },
-        nodeIds: { type: 'array', items: { type: 'string' }, description: 'Optional for mode=selection. Defaults to current selection.' },
-        x: { type: 'number', description: 'Required for mode=region.' },
-        y: { type: 'number', description: 'Required for mode=region.' },
-        width: { type: 'number', description: 'Required for mode=region.' },
-        height: { type: 'number', description: 'Required for mode=region.' },
-        scale: { type: 'number', default: 1 },
-        includeBase64: { type: 'boolean', default: true, description: 'Return truncated base64 preview for quick validation.' },
-        maxBase64Length: { type: 'number', default: 400, description: 'Maximum returned base64 length when includeBase64=true.' },
-      },
-    },
-  },
-
-  // ===== Utility Tools =====
-  {
-    name: 'get_document_info',
-    description: 'Get document/page structure with configurable output caps to avoid oversized payloads on large files.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        includeChildren: { type: 'boolean', default: true },
-        maxDepth: { type: 'number', default: 10 },
-        maxPages: { type: 'number', default: 100, minimum: 1, maximum: 500, description: 'Maximum pages returned.' },
-        maxNodesPerPage: { type: 'number', default: 1200, minimum: 100, maximum: 10000, description: 'Maximum descendant nodes returned per page when includeChildren=true.' },
-        maxChildrenPerNode: { type: 'number', default: 200, minimum: 20, maximum: 1000, description: 'Maximum direct children returned for each node in tree output.' },
-      },
-    },
-  },
-  {
-    name: 'get_node_info',
-    description: 'Get detailed info about a node including children.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        includeChildren: { type: 'boolean', default: true },
-      },
-      required: ['nodeId'],
-    },
-  },
-  {
-    name: 'get_selection',
-    description: 'Get the current selection on the active page, including node metadata for each selected node',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        includeChildren: { type: 'boolean', default: false },
-      },
-    },
-  },
-  {
-    name: 'set_multiple_text_contents',
-    description: 'Update multiple text nodes at once.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        updates: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              nodeId: { type: 'string' },
-              text: { type: 'string' },
-            },
-          },
-        },
-      },
-      required: ['updates'],
-    },
-  },
-  {
-    name: 'undo_operations',
-    description: 'Rollback recent operations using Figma undo stack. operationId is optional metadata; steps controls how many undo levels to apply.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        operationId: { type: 'string' },
-        steps: { type: 'number', default: 1 },
-      },
-    },
-  },
-  {
-    name: 'apply_style_preset',
-    description: 'Apply designer-oriented visual presets (gradient button, glass panel, glow, shadow, blur) to multiple nodes with parameter overrides.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        preset: {
-          type: 'string',
-          enum: [
-            'button_gradient_primary',
-            'button_gradient_vivid',
-            'card_soft_shadow',
-            'panel_glass',
-            'hero_glow',
-            'backdrop_blur_soft',
-          ],
-        },
-        options: { type: 'object' },
-      },
-      required: ['nodeIds', 'preset'],
-    },
-  },
-
-  // ===== NEW: Frame to Components Tools =====
-  {
-    name: 'frame_to_components',
-    description: 'Intelligently split a Frame\'s children into components. Analyzes children, groups similar ones, and converts them to components.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        frameId: { type: 'string', description: 'ID of the Frame to analyze' },
-        strategy: { 
-          type: 'string', 
-          enum: ['smart', 'by_type', 'by_name', 'all_children'],
-          default: 'smart',
-          description: 'Grouping strategy'
-        },
-        groupSimilar: { type: 'boolean', default: true },
-        createVariants: { type: 'boolean', default: false },
-        organizeOnPage: { type: 'boolean', default: true },
-        minSize: { 
-          type: 'object', 
-          properties: { width: { type: 'number' }, height: { type: 'number' } },
-          default: { width: 50, height: 30 }
-        },
-        excludeTypes: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['frameId'],
-    },
-  },
-  {
-    name: 'analyze_frame_structure',
-    description: 'Analyze a Frame\'s structure and suggest component opportunities.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        frameId: { type: 'string' },
-        detectDuplicates: { type: 'boolean', default: true },
-        minSimilarity: { type: 'number', default: 0.85 },
-      },
-      required: ['frameId'],
-    },
-  },
-
-  // ===== NEW: Cross-Page Operations Tools =====
-  {
-    name: 'cross_page_copy',
-    description: 'Copy nodes from one page to another.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        sourcePageId: { type: 'string' },
-        targetPageId: { type: 'string' },
-        maintainPosition: { type: 'boolean', default: true },
-      },
-      required: ['nodeIds', 'sourcePageId', 'targetPageId'],
-    },
-  },
-  {
-    name: 'cross_page_move',
-    description: 'Move nodes from one page to another.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        sourcePageId: { type: 'string' },
-        targetPageId: { type: 'string' },
-        maintainPosition: { type: 'boolean', default: true },
-      },
-      required: ['nodeIds', 'sourcePageId', 'targetPageId'],
-    },
-  },
-  {
-    name: 'batch_edit_across_pages',
-    description: 'Apply the same edits to nodes across multiple pages.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        operations: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              pageId: { type: 'string' },
-              nodeId: { type: 'string' },
-              changes: { type: 'object' },
-            },
-          },
-        },
-      },
-      required: ['operations'],
-    },
-  },
-
-  // ===== NEW: Component Set Management =====
-  {
-    name: 'explode_component_set',
-    description: 'Explode a component set into separate components.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentSetId: { type: 'string' },
-        convertInstancesToMain: { type: 'boolean', default: false },
-        organizeOnPage: { type: 'boolean', default: true },
-      },
-      required: ['componentSetId'],
-    },
-  },
-  {
-    name: 'detach_and_organize',
-    description: 'Detach instances and organize the detached nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        instanceIds: { type: 'array', items: { type: 'string' } },
-        deleteMainComponent: { type: 'boolean', default: false },
-        organizeBy: { type: 'string', enum: ['type', 'name', 'size', 'page_location'], default: 'type' },
-        createBackup: { type: 'boolean', default: true },
-      },
-      required: ['instanceIds'],
-    },
-  },
-  {
-    name: 'convert_instances_to_components',
-    description: 'Convert existing instances to new independent components.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        instanceIds: { type: 'array', items: { type: 'string' } },
-        namingPattern: { type: 'string', default: '{original}_Component' },
-        organizeOnPage: { type: 'boolean', default: true },
-      },
-      required: ['instanceIds'],
-    },
-  },
-
-  // ===== NEW: Advanced Component Operations =====
-  {
-    name: 'split_component_by_variants',
-    description: 'Split a component with variants back into separate components.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentSetId: { type: 'string' },
-        keepComponentSet: { type: 'boolean', default: false },
-        updateInstances: { type: 'boolean', default: true },
-      },
-      required: ['componentSetId'],
-    },
-  },
-  {
-    name: 'merge_components_to_set',
-    description: 'Merge multiple standalone components into a variant set.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentIds: { type: 'array', items: { type: 'string' } },
-        variantProperty: { type: 'string', default: 'Type' },
-        autoDetectValues: { type: 'boolean', default: true },
-      },
-      required: ['componentIds'],
-    },
-  },
-
-  // ===== Basic Node Creation =====
-  {
-    name: 'create_ellipse',
-    description: 'Create an ellipse or circle.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        name: { type: 'string' },
-        fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_line',
-    description: 'Create a line.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        strokeWeight: { type: 'number' },
-        strokes: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_polygon',
-    description: 'Create a regular polygon.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        pointCount: { type: 'number', default: 5 },
-        fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_star',
-    description: 'Create a star shape.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        pointCount: { type: 'number', default: 5 },
-        innerRadius: { type: 'number', default: 0.5 },
-        fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_vector',
-    description: 'Create a vector path. Supports vector path aliases (`vectorPaths`/`vectorPath`/`path`/`svgPath`/`d`) with object or SVG-string inputs.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        vectorPaths: { type: ['array', 'object', 'string'] as any, description: 'Can be a VectorPath object, array of VectorPath objects, or SVG path string(s).' } as any,
-        vectorPath: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
-        path: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
-        svgPath: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
-        d: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
-        fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
-        strokes: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
-        strokeWeight: { type: 'number' },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_group',
-    description: 'Group multiple nodes together.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'create_section',
-    description: 'Create a section container.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        name: { type: 'string' },
-        fills: { type: 'array' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_slice',
-    description: 'Create a slice for export.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        name: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_connector',
-    description: 'Create a connector line between nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        startNodeId: { type: 'string' },
-        endNodeId: { type: 'string' },
-        startMagnet: { type: 'string', enum: ['TOP', 'BOTTOM', 'LEFT', 'RIGHT', 'AUTO'] },
-        endMagnet: { type: 'string', enum: ['TOP', 'BOTTOM', 'LEFT', 'RIGHT', 'AUTO'] },
-        strokeWeight: { type: 'number' },
-        strokes: { type: 'array' },
-      },
-      required: ['startNodeId', 'endNodeId'],
-    },
-  },
-  {
-    name: 'create_sticky',
-    description: 'Create a sticky note (FigJam).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        text: { type: 'string' },
-        color: { type: 'string', enum: ['YELLOW', 'GREEN', 'BLUE', 'ORANGE', 'PINK', 'PURPLE', 'GRAY'] },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y'],
-    },
-  },
-  {
-    name: 'create_shape_with_text',
-    description: 'Create a shape with text (FigJam).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        width: { type: 'number' },
-        height: { type: 'number' },
-        shapeType: { type: 'string', enum: ['SQUARE', 'ELLIPSE', 'ROUNDED_RECTANGLE', 'DIAMOND', 'TRIANGLE_UP', 'TRIANGLE_DOWN', 'PARALLELOGRAM_RIGHT', 'PARALLELOGRAM_LEFT'] },
-        text: { type: 'string' },
-        fills: { type: 'array' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y', 'width', 'height'],
-    },
-  },
-  {
-    name: 'create_table',
-    description: 'Create a table.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        x: { type: 'number' },
-        y: { type: 'number' },
-        rowCount: { type: 'number', default: 3 },
-        columnCount: { type: 'number', default: 3 },
-        cellWidth: { type: 'number', default: 100 },
-        cellHeight: { type: 'number', default: 40 },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['x', 'y'],
-    },
-  },
-
-  // ===== Boolean Operations =====
-  {
-    name: 'union_nodes',
-    description: 'Perform union boolean operation on multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'subtract_nodes',
-    description: 'Perform subtract boolean operation on multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'intersect_nodes',
-    description: 'Perform intersect boolean operation on multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'exclude_nodes',
-    description: 'Perform exclude boolean operation on multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        name: { type: 'string' },
-        parentId: { type: 'string' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'flatten_nodes',
-    description: 'Flatten multiple nodes into a single vector network.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        parentId: { type: 'string' },
-      },
-      required: ['nodeIds'],
-    },
-  },
-
-  // ===== Node Properties =====
-  {
-    name: 'set_constraints',
-    description: 'Set constraints for a node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        horizontal: { type: 'string', enum: ['MIN', 'MAX', 'STRETCH', 'SCALE', 'CENTER'] },
-        vertical: { type: 'string', enum: ['MIN', 'MAX', 'STRETCH', 'SCALE', 'CENTER'] },
-      },
-      required: ['nodeId', 'horizontal', 'vertical'],
-    },
-  },
-  {
-    name: 'set_layout_grid',
-    description: 'Set layout grids for a frame.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        layoutGrids: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              pattern: { type: 'string', enum: ['COLUMNS', 'ROWS', 'GRID'] },
-              sectionSize: { type: 'number' },
-              visible: { type: 'boolean' },
-              color: { type: 'object' },
-              alignment: { type: 'string', enum: ['MIN', 'MAX', 'STRETCH', 'CENTER'] },
-              gutterSize: { type: 'number' },
-              offset: { type: 'number' },
-              count: { type: 'number' },
-            },
-          },
-        },
-      },
-      required: ['nodeId', 'layoutGrids'],
-    },
-  },
-  {
-    name: 'set_effects',
-    description: 'Set effects (shadows, blurs) for a node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        effects: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              type: { type: 'string', enum: ['INNER_SHADOW', 'DROP_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR'] },
-              color: { type: 'object' },
-              offset: { type: 'object' },
-              radius: { type: 'number' },
-              spread: { type: 'number' },
-              visible: { type: 'boolean' },
-              blendMode: { type: 'string' },
-            },
-          },
-        },
-      },
-      required: ['nodeId', 'effects'],
-    },
-  },
-  {
-    name: 'set_export_settings',
-    description: 'Set export settings for a node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        exportSettings: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              suffix: { type: 'string' },
-              format: { type: 'string', enum: ['PNG', 'SVG', 'PDF', 'JPG'] },
-              constraint: { type: 'object' },
-            },
-          },
-        },
-      },
-      required: ['nodeId', 'exportSettings'],
-    },
-  },
-  {
-    name: 'set_blend_mode',
-    description: 'Set blend mode for a node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        blendMode: { type: 'string', enum: ['PASS_THROUGH', 'NORMAL', 'DARKEN', 'MULTIPLY', 'LINEAR_BURN', 'COLOR_BURN', 'LIGHTEN', 'SCREEN', 'LINEAR_DODGE', 'COLOR_DODGE', 'OVERLAY', 'SOFT_LIGHT', 'HARD_LIGHT', 'DIFFERENCE', 'EXCLUSION', 'HUE', 'SATURATION', 'COLOR', 'LUMINOSITY'] },
-      },
-      required: ['nodeId', 'blendMode'],
-    },
-  },
-  {
-    name: 'set_mask',
-    description: 'Set or remove mask on a node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        isMask: { type: 'boolean' },
-        maskType: { type: 'string', enum: ['ALPHA', 'VECTOR', 'LUMINANCE'] },
-      },
-      required: ['nodeId', 'isMask'],
-    },
-  },
-
-  // ===== Auto Layout Enhancement =====
-  {
-    name: 'set_auto_layout',
-    description: 'Comprehensive auto layout configuration.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        layoutMode: { type: 'string', enum: ['NONE', 'HORIZONTAL', 'VERTICAL'] },
-        primaryAxisAlignItems: { type: 'string', enum: ['MIN', 'MAX', 'CENTER', 'SPACE_BETWEEN'] },
-        counterAxisAlignItems: { type: 'string', enum: ['MIN', 'MAX', 'CENTER', 'BASELINE'] },
-        paddingTop: { type: 'number' },
-        paddingRight: { type: 'number' },
-        paddingBottom: { type: 'number' },
-        paddingLeft: { type: 'number' },
-        itemSpacing: { type: 'number' },
-        counterAxisSpacing: { type: 'number' },
-        layoutWrap: { type: 'string', enum: ['NO_WRAP', 'WRAP'] },
-        width: { type: 'string', enum: ['FIXED', 'HUG', 'FILL'] },
-        height: { type: 'string', enum: ['FIXED', 'HUG', 'FILL'] },
-      },
-      required: ['nodeId', 'layoutMode'],
-    },
-  },
-  {
-    name: 'remove_auto_layout',
-    description: 'Remove auto layout from a frame.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        keepPosition: { type: 'boolean', default: true },
-      },
-      required: ['nodeId'],
-    },
-  },
-  {
-    name: 'align_nodes',
-    description: 'Align multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        alignment: { type: 'string', enum: ['TOP_LEFT', 'TOP_CENTER', 'TOP_RIGHT', 'MIDDLE_LEFT', 'MIDDLE_CENTER', 'MIDDLE_RIGHT', 'BOTTOM_LEFT', 'BOTTOM_CENTER', 'BOTTOM_RIGHT'] },
-      },
-      required: ['nodeIds', 'alignment'],
-    },
-  },
-  {
-    name: 'distribute_nodes',
-    description: 'Evenly distribute nodes horizontally or vertically.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        direction: { type: 'string', enum: ['HORIZONTAL', 'VERTICAL'] },
-        spacing: { type: 'number' },
-      },
-      required: ['nodeIds', 'direction'],
-    },
-  },
-
-  // ===== Style System Complete =====
-  {
-    name: 'create_effect_style',
-    description: 'Create an effect style.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        effects: { type: 'array' },
-        sourceNodeId: { type: 'string' },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    name: 'create_grid_style',
-    description: 'Create a layout grid style.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        layoutGrids: { type: 'array' },
-        sourceNodeId: { type: 'string' },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    name: 'update_paint_style',
-    description: 'Update an existing paint style.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        styleId: { type: 'string' },
-        name: { type: 'string' },
-        paints: { type: 'array' },
-      },
-      required: ['styleId'],
-    },
-  },
-  {
-    name: 'update_text_style',
-    description: 'Update an existing text style.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        styleId: { type: 'string' },
-        name: { type: 'string' },
-        fontName: { type: 'object' },
-        fontSize: { type: 'number' },
-        lineHeight: { type: 'object' },
-        letterSpacing: { type: 'object' },
-      },
-      required: ['styleId'],
-    },
-  },
-  {
-    name: 'delete_style',
-    description: 'Delete a style.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        styleId: { type: 'string' },
-        detachNodes: { type: 'boolean', default: true },
-      },
-      required: ['styleId'],
-    },
-  },
-  {
-    name: 'get_all_styles',
-    description: 'Get all styles in the document.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: { type: 'string', enum: ['PAINT', 'TEXT', 'EFFECT', 'GRID'] },
-      },
-    },
-  },
-
-  // ===== Variables System =====
-  {
-    name: 'create_variable',
-    description: 'Create a variable.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        type: { type: 'string', enum: ['COLOR', 'FLOAT', 'STRING', 'BOOLEAN'] },
-        value: {},
-        collectionId: { type: 'string' },
-      },
-      required: ['name', 'type', 'collectionId'],
-    },
-  },
-  {
-    name: 'create_variable_collection',
-    description: 'Create a variable collection.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        modes: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    name: 'set_variable_value',
-    description: 'Set a variable value for a specific mode.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        variableId: { type: 'string' },
-        modeId: { type: 'string' },
-        value: {},
-      },
-      required: ['variableId', 'modeId', 'value'],
-    },
-  },
-  {
-    name: 'bind_variable_to_node',
-    description: 'Bind a variable to a node property.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        variableId: { type: 'string' },
-        property: { type: 'string', enum: ['FILLS', 'STROKES', 'EFFECTS', 'OPACITY', 'WIDTH', 'HEIGHT', 'VISIBLE', 'TEXT'] },
-      },
-      required: ['nodeId', 'variableId', 'property'],
-    },
-  },
-  {
-    name: 'unbind_variable',
-    description: 'Unbind a variable from a node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        property: { type: 'string' },
-      },
-      required: ['nodeId', 'property'],
-    },
-  },
-  {
-    name: 'get_all_variables',
-    description: 'Get all variables and collections.',
-    inputSchema: {
-      type: 'object',
-    },
-  },
-  {
-    name: 'delete_variable',
-    description: 'Delete a variable.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        variableId: { type: 'string' },
-        unbindNodes: { type: 'boolean', default: true },
-      },
-      required: ['variableId'],
-    },
-  },
-
-  // ===== Page Management =====
-  {
-    name: 'create_page',
-    description: 'Create a new page.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string' },
-        index: { type: 'number' },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    name: 'delete_page',
-    description: 'Delete a page. If the target is current page, the plugin switches to another page first. Cannot delete the last remaining page.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        pageId: { type: 'string' },
-        confirm: { type: 'boolean', default: false },
-      },
-      required: ['pageId'],
-    },
-  },
-  {
-    name: 'rename_page',
-    description: 'Rename a page.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        pageId: { type: 'string' },
-        newName: { type: 'string' },
-      },
-      required: ['pageId', 'newName'],
-    },
-  },
-  {
-    name: 'reorder_pages',
-    description: 'Reorder pages.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        pageIds: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['pageIds'],
-    },
-  },
-  {
-    name: 'duplicate_page',
-    description: 'Duplicate a page with all its content.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        pageId: { type: 'string' },
-        newName: { type: 'string' },
-      },
-      required: ['pageId'],
-    },
-  },
-
-  // ===== Media & Export =====
-  {
-    name: 'create_image_fill',
-    description: 'Create an image fill from URL or bytes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string' },
-        hash: { type: 'string' },
-        nodeId: { type: 'string', description: 'Node to apply image fill to' },
-      },
-    },
-  },
-  {
-    name: 'export_node',
-    description: 'Export a node as image/SVG/PDF.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeId: { type: 'string' },
-        format: { type: 'string', enum: ['PNG', 'SVG', 'PDF', 'JPG'] },
-        scale: { type: 'number', default: 1 },
-        suffix: { type: 'string' },
-      },
-      required: ['nodeId', 'format'],
-    },
-  },
-  {
-    name: 'export_nodes_batch',
-    description: 'Export multiple nodes at once.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        exports: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              nodeId: { type: 'string' },
-              format: { type: 'string' },
-              scale: { type: 'number' },
-              suffix: { type: 'string' },
-            },
-          },
-        },
-      },
-      required: ['exports'],
-    },
-  },
-
-  // ===== Component Properties =====
-  {
-    name: 'add_component_property',
-    description: 'Add a property to a component.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentId: { type: 'string' },
-        name: { type: 'string' },
-        type: { type: 'string', enum: ['BOOLEAN', 'TEXT', 'INSTANCE_SWAP', 'VARIANT'] },
-        defaultValue: {},
-      },
-      required: ['componentId', 'name', 'type'],
-    },
-  },
-  {
-    name: 'set_component_property',
-    description: 'Set a component property value on an instance.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        instanceId: { type: 'string' },
-        propertyName: { type: 'string' },
-        value: {},
-      },
-      required: ['instanceId', 'propertyName', 'value'],
-    },
-  },
-  {
-    name: 'remove_component_property',
-    description: 'Remove a property from a component.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentId: { type: 'string' },
-        propertyName: { type: 'string' },
-      },
-      required: ['componentId', 'propertyName'],
-    },
-  },
-
-  // ===== Transform Operations =====
-  {
-    name: 'scale_nodes',
-    description: 'Scale multiple nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        scaleX: { type: 'number' },
-        scaleY: { type: 'number' },
-        center: { type: 'object' },
-      },
-      required: ['nodeIds', 'scaleX', 'scaleY'],
-    },
-  },
-  {
-    name: 'flip_horizontal',
-    description: 'Flip nodes horizontally.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['nodeIds'],
-    },
-  },
-  {
-    name: 'flip_vertical',
-    description: 'Flip nodes vertically.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeIds: { type: 'array', items: { type: 'string' } },
-      },
-      required: ['nodeIds'],
-    },
-  },
-
-  // ===== Advanced Import/Export =====
-  {
-    name: 'import_component_from_file',
-    description: 'Import a component from another Figma file.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fileKey: { type: 'string' },
-        componentKey: { type: 'string' },
-      },
-      required: ['fileKey', 'componentKey'],
-    },
-  },
-  {
-    name: 'import_style_from_file',
-    description: 'Import a style from another Figma file.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fileKey: { type: 'string' },
-        styleKey: { type: 'string' },
-      },
-      required: ['fileKey', 'styleKey'],
-    },
-  },
-
-  // ===== REST API Bridge (Cross-Project Operations) =====
-  {
-    name: 'rest_get_file',
-    description: 'Get file data via REST API (for cross-project operations). Requires Figma access token.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fileKey: { type: 'string' },
-        accessToken: { type: 'string' },
-        version: { type: 'string' },
-        depth: { type: 'number' },
-      },
-      required: ['fileKey', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_get_file_nodes',
-    description: 'Get specific nodes from a file via REST API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fileKey: { type: 'string' },
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        accessToken: { type: 'string' },
-      },
-      required: ['fileKey', 'nodeIds', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_get_team_components',
-    description: 'Get team component library via REST API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        teamId: { type: 'string' },
-        accessToken: { type: 'string' },
-      },
-      required: ['teamId', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_get_file_components',
-    description: 'Get components from a file via REST API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fileKey: { type: 'string' },
-        accessToken: { type: 'string' },
-      },
-      required: ['fileKey', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_get_team_styles',
-    description: 'Get team styles via REST API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        teamId: { type: 'string' },
-        accessToken: { type: 'string' },
-      },
-      required: ['teamId', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_export_nodes',
-    description: 'Export nodes as images via REST API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fileKey: { type: 'string' },
-        nodeIds: { type: 'array', items: { type: 'string' } },
-        format: { type: 'string', enum: ['png', 'jpg', 'svg', 'pdf'] },
-        scale: { type: 'number' },
-        accessToken: { type: 'string' },
-      },
-      required: ['fileKey', 'nodeIds', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_batch_export',
-    description: 'Batch export nodes from multiple files via REST API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        exports: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              fileKey: { type: 'string' },
-              nodeId: { type: 'string' },
-              format: { type: 'string' },
-              scale: { type: 'number' },
-            },
-          },
-        },
-        accessToken: { type: 'string' },
-      },
-      required: ['exports', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_download_image',
-    description: 'Download image from URL (for exported assets).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: { type: 'string' },
-      },
-      required: ['url'],
-    },
-  },
-  {
-    name: 'rest_copy_component_to_local',
-    description: 'Copy component from another file via REST API (export SVG).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        componentKey: { type: 'string' },
-        accessToken: { type: 'string' },
-      },
-      required: ['componentKey', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_compare_components',
-    description: 'Compare components between two files.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sourceFileKey: { type: 'string' },
-        targetFileKey: { type: 'string' },
-        accessToken: { type: 'string' },
-      },
-      required: ['sourceFileKey', 'targetFileKey', 'accessToken'],
-    },
-  },
-  {
-    name: 'rest_get_rate_limit',
-    description: 'Check REST API rate limit status.',
-    inputSchema: {
-      type: 'object',
-    },
-  },
-
-  // ===== System & Performance =====
-  {
-    name: 'get_performance_report',
-    description: 'Get performance report for all operations.',
-    inputSchema: {
-      type: 'object',
-    },
-  },
-  {
-    name: 'cancel_operation',
-    description: 'Cancel a running operation by ID.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        operationId: { type: 'string' },
-      },
-      required: ['operationId'],
-    },
-  },
-  {
-    name: 'get_active_operations',
-    description: 'Get list of currently active operations.',
-    inputSchema: {
-      type: 'object',
-    },
-  },
-];
-
 // Main Server Class
 class SuperchargedMCPServer {
   private server: Server;
@@ -2268,10 +471,24 @@ class SuperchargedMCPServer {
   private batchExecutor: EnhancedBatchExecutor;
   private restBridge: FigmaRESTBridge | null = null;
   private httpServer: HttpServer | null = null;
+  private readonly resourceSubscriptions = new Set<string>();
+  // operationId -> relay message id of the batch call still waiting on the plugin
+  private readonly activeBatchMessages = new Map<string, string>();
+  private readonly progressReporters = new Map<string, {
+    send: (params: { progress: number; total: number; message: string }) => Promise<void>;
+    lastProgress: number;
+  }>();
   private readonly connectionStatePath = path.join(os.tmpdir(), 'supercharged-figma-last-connection.json');
 
-  constructor() {
+  private readonly recorder: SessionRecorder | null;
+  // Every outputDir of the export tools must resolve inside this directory.
+  private readonly exportRoot: string;
+
+  constructor(options: { recordPath?: string; exportRoot?: string } = {}) {
+    this.exportRoot = path.resolve(options.exportRoot ?? DEFAULT_EXPORT_ROOT);
     this.figmaConnection = new FigmaPluginConnection();
+    this.recorder = options.recordPath ? new SessionRecorder(path.resolve(options.recordPath)) : null;
+    this.figmaConnection.setRecorder(this.recorder);
     this.progressManager = new ProgressManager();
     this.batchExecutor = new EnhancedBatchExecutor(this.progressManager);
     this.server = new Server(
@@ -2282,17 +499,25 @@ class SuperchargedMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
         },
       }
     );
 
     this.setupHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
     this.setupProgressHandlers();
   }
 
   private setupProgressHandlers() {
     // 转发进度事件到 Figma Plugin
     this.progressManager.on('progress', (update) => {
+      this.forwardProgressToClient(update);
       if (!this.figmaConnection.isConnected()) return;
       this.figmaConnection.sendNotification({
         type: 'progress_update',
@@ -2301,6 +526,17 @@ class SuperchargedMCPServer {
       });
     });
 
+    // 插件执行端上报的真实进度
+    this.figmaConnection.onPluginEvent((event) => {
+      if (event.event !== 'progress') return;
+      const { operationId, current, total, message, stage } = event.payload ?? {};
+      if (typeof operationId !== 'string' || typeof current !== 'number') return;
+      if (typeof total === 'number') this.progressManager.setTotalItems(operationId, total);
+      // Reports without an explicit stage belong to the main processing stage.
+      this.progressManager.enterStage(operationId, typeof stage === 'number' ? stage : 1);
+      this.progressManager.updateProgress(operationId, current, typeof message === 'string' ? message : undefined);
+    });
+
     this.progressManager.on('complete', (data) => {
       if (!this.figmaConnection.isConnected()) return;
       this.figmaConnection.sendNotification({
@@ -2311,6 +547,24 @@ class SuperchargedMCPServer {
     });
   }
 
+  // MCP progress 必须单调递增，回退或重复的值直接丢弃。
+  // 上报按阶段加权的总体百分比：各阶段的 current 会从 0 重新计数，不能直接转发。
+  private forwardProgressToClient(update: ProgressUpdate) {
+    const reporter = this.progressReporters.get(update.operationId);
+    if (!reporter) return;
+    const isFirst = reporter.lastProgress < 0;
+    if (!isFirst && update.percentage <= reporter.lastProgress) return;
+    reporter.lastProgress = update.percentage;
+
+    const parts = [update.stage, update.message].filter(Boolean);
+    if (update.eta !== undefined) parts.push(`ETA ${update.eta}s`);
+    void reporter.send({
+      progress: update.percentage,
+      total: 100,
+      message: parts.join(' · '),
+    }).catch(() => undefined);
+  }
+
   private classifyToolError(toolName: string, errorMessage: string): {
     code: string;
     retryable: boolean;
@@ -2389,6 +643,21 @@ class SuperchargedMCPServer {
     );
   }
 
+  private formatInvalidInput(toolName: string, issues: ValidationIssue[]): string {
+    return JSON.stringify(
+      {
+        code: 'E_INVALID_INPUT',
+        message: `Invalid arguments for ${toolName}: ${describeIssues(issues)}`,
+        tool: toolName,
+        retryable: false,
+        hint: 'Fix the listed argument paths to match the tool inputSchema and retry.',
+        details: { issues },
+      },
+      null,
+      2
+    );
+  }
+
   private setupHandlers() {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -2396,16 +665,27 @@ class SuperchargedMCPServer {
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name } = request.params;
+      const tool = getToolDefinition(name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      // Reject malformed calls here with exact paths instead of letting the plugin fail on them.
+      const validation = validateToolInput(tool.inputSchema, request.params.arguments);
+      if (validation.issues.length > 0) {
+        throw new Error(this.formatInvalidInput(name, validation.issues));
+      }
+      const args = validation.value;
 
       // Best-effort auto reconnect for non-system tools, useful when MCP runtime is recycled.
-      if (!name.startsWith('rest_') && name !== 'connect_to_relay' && name !== 'get_connection_status') {
+      if (tool.route !== 'rest' && tool.route !== 'session') {
         await this.tryRestoreConnection();
       }
 
       // Handle REST API bridge tools
-      if (name.startsWith('rest_')) {
+      if (tool.route === 'rest') {
         return this.handleRESTTool(name, args);
       }
 
@@ -2420,30 +700,29 @@ class SuperchargedMCPServer {
         const figmaConnected = this.figmaConnection.isFigmaConnected();
         const currentChannel = this.figmaConnection.getChannelId();
         
+        const connectResult = (connected: boolean, message: string) => ({
+          content: [{ type: 'text' as const, text: message }],
+          structuredContent: { connected, relayUrl: targetRelayUrl, channelCode: channelCode || null, message },
+        });
+
         if (connected && figmaConnected && currentChannel === channelCode && targetRelayUrl === this.relayUrl) {
-          return {
-            content: [{ type: 'text', text: '✅ 已连接到 Figma' }],
-          };
+          return connectResult(true, '✅ 已连接到 Figma');
         }
         
         if (!channelCode) {
-          return {
-            content: [{ 
-              type: 'text', 
-              text: `❌ 需要提供 Channel Code（禁止猜测）\n\n请先在 Figma 插件中获取真实 Channel Code，然后调用：\nconnect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}` 
-            }],
-          };
+          return connectResult(
+            false,
+            `❌ 需要提供 Channel Code（禁止猜测）\n\n请先在 Figma 插件中获取真实 Channel Code，然后调用：\nconnect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}`
+          );
         }
         
         try {
           await this.connectToRelay(channelCode, targetRelayUrl);
           await this.persistConnectionState(targetRelayUrl, channelCode);
-          return {
-            content: [{ 
-              type: 'text', 
-              text: `✅ 成功连接到 Figma！\nRelay: ${targetRelayUrl}\nChannel: ${channelCode}\n现在可以使用所有 Figma 工具了。` 
-            }],
-          };
+          return connectResult(
+            true,
+            `✅ 成功连接到 Figma！\nRelay: ${targetRelayUrl}\nChannel: ${channelCode}\n现在可以使用所有 Figma 工具了。`
+          );
         } catch (error: any) {
           return {
             content: [{ 
@@ -2484,6 +763,7 @@ class SuperchargedMCPServer {
           channelCode: channel,
           processId: process.pid,
           debugEventCount: allEvents.length,
+          recordingPath: this.recorder?.getPath(),
           nextAction,
           connectTemplate,
         };
@@ -2492,12 +772,7 @@ class SuperchargedMCPServer {
           statusPayload.debugLimit = debugLimit;
         }
 
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(statusPayload, null, 2),
-          }],
-        };
+        return structuredResult(statusPayload);
       }
       if (name === 'get_performance_report') {
         return this.handlePerformanceReport();
@@ -2526,44 +801,259 @@ class SuperchargedMCPServer {
       }
 
       // 对于批量操作，使用增强的执行器
-      if (this.isBatchOperation(name)) {
-        return this.handleBatchOperation(name, args, messageId);
+      if (tool.route === 'batch') {
+        const progressToken = request.params._meta?.progressToken;
+        const reportProgress = progressToken !== undefined
+          ? (params: { progress: number; total: number; message: string }) => extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, ...params },
+          })
+          : undefined;
+        return this.handleBatchOperation(name, args, messageId, reportProgress, extra.signal);
       }
 
+      // notifications/cancelled: batch calls cancel through their operationId above, the rest by message id.
+      const onAbort = () => this.cancelPluginCall(messageId);
+      extra.signal.addEventListener('abort', onAbort, { once: true });
       try {
+        if (tool.route === 'export') {
+          return await this.handleExportTool(name, args, messageId);
+        }
         const result = await this.figmaConnection.send({
-          type: name,
+          type: pluginMessageType(tool),
           id: messageId,
           payload: args,
         }, 120000);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        // The plugin cannot observe variable edits, so report our own.
+        if (tool.changesVariables && args.dryRun !== true) {
+          this.notifyResourcesUpdated({ variablesChanged: true });
+        }
+
+        return toolResult(tool, result);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         throw new Error(this.formatToolError(name, errorMessage));
+      } finally {
+        extra.signal.removeEventListener('abort', onAbort);
+      }
+    });
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources: Resource[] = [...STATIC_RESOURCES];
+      await this.tryRestoreConnection();
+      if (!this.figmaConnection.isFigmaConnected()) {
+        return { resources };
+      }
+
+      try {
+        const doc = await this.figmaConnection.send({
+          type: 'get_document_info',
+          id: uuidv4(),
+          payload: { includeChildren: false },
+        }, 30000);
+        for (const page of doc?.pages ?? []) {
+          resources.push({
+            uri: pageResourceUri(page.id),
+            name: `Page: ${page.name}`,
+            mimeType: 'application/json',
+          });
+        }
+      } catch (error) {
+        // Page listing is best effort; static resources remain readable.
+        console.error(chalk.yellow('Failed to list page resources:'), error);
       }
+
+      return { resources };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const data = await this.readResource(uri);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
     });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      parseResourceUri(uri);
+      this.resourceSubscriptions.add(uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    this.figmaConnection.onPluginEvent((event) => {
+      if (event.event !== 'document_changed') return;
+      const change = (event.payload ?? {}) as DocumentChangeEvent;
+      if (change.pageId && !change.nodeIds?.length) {
+        // Current page switched; page list may have been renamed/reordered too.
+        void this.server.sendResourceListChanged().catch(() => undefined);
+      }
+      this.notifyResourcesUpdated(change);
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: listPrompts() };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      return renderPrompt(name, args ?? {}, await this.getPromptContext());
+    });
+  }
+
+  private async getPromptContext(): Promise<PromptContext> {
+    await this.tryRestoreConnection();
+    if (!this.figmaConnection.isFigmaConnected()) {
+      return { selection: null };
+    }
+    try {
+      const selection = await this.figmaConnection.send({
+        type: 'get_selection',
+        id: uuidv4(),
+        payload: { includeChildren: false },
+      }, 15000);
+      return { selection };
+    } catch {
+      // Prompts stay usable without live context.
+      return { selection: null };
+    }
+  }
+
+  private notifyResourcesUpdated(change: DocumentChangeEvent) {
+    if (this.resourceSubscriptions.size === 0) return;
+    for (const uri of resolveUpdatedUris(change, this.resourceSubscriptions)) {
+      void this.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+  }
+
+  private async readResource(uri: string): Promise<any> {
+    const ref = parseResourceUri(uri);
+
+    await this.tryRestoreConnection();
+    if (!this.figmaConnection.isFigmaConnected()) {
+      throw new Error(
+        'Not connected to Figma. First ask user to open Figma plugin and get Channel Code, then call: ' +
+        'connect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}'
+      );
+    }
+
+    const request = (type: string, payload: Record<string, unknown>) => this.figmaConnection.send({
+      type,
+      id: uuidv4(),
+      payload,
+    }, 60000);
+
+    switch (ref.kind) {
+      case 'document':
+        return request('get_document_info', { includeChildren: false });
+      case 'page':
+        return request('get_page_info', { pageId: ref.id });
+      case 'node':
+        return request('get_node_info', { nodeId: ref.id, includeChildren: true });
+      case 'styles':
+        return request('get_all_styles', {});
+      case 'variables': {
+        const all = await request('get_all_variables', {});
+        if (!ref.collectionId) return all;
+        const collection = (all?.collections ?? []).find((c: any) => c.id === ref.collectionId);
+        if (!collection) throw new Error(`Variable collection not found: ${ref.collectionId}`);
+        return {
+          collection,
+          variables: (all?.variables ?? []).filter((v: any) => v.collectionId === ref.collectionId),
+        };
+      }
+    }
+  }
+
+  // 导出类工具：拉取完整字节，返回 image / resource 内容块，可选写入 outputDir
+  private async handleExportTool(name: string, args: Record<string, unknown>, messageId: string): Promise<CallToolResult> {
+    const { outputDir, ...payload } = args;
+    // Checked before exporting so a rejected path costs nothing in Figma.
+    if (typeof outputDir === 'string' && outputDir) {
+      try {
+        resolveExportDir(this.exportRoot, outputDir);
+      } catch {
+        throw new Error(this.formatInvalidInput(name, [{ path: 'outputDir', message: `must be inside the export root ${this.exportRoot}` }]));
+      }
+    }
+    const result = await this.figmaConnection.send({ type: name, id: messageId, payload }, 120000);
+    const items: ExportDescriptor[] = name === 'export_nodes_batch' ? (result?.results ?? []) : [result];
+
+    const blocks: CallToolResult['content'] = [];
+    for (const item of items) {
+      const base64 = await this.fetchExportData(item);
+      if (base64 === null) continue;
+      if (typeof outputDir === 'string' && outputDir) {
+        item.path = await writeExportFile(this.exportRoot, outputDir, item, base64);
+      }
+      blocks.push(exportContentBlock(item, base64));
+    }
+
+    return toolResult(getToolDefinition(name), result, blocks);
   }
 
-  private isBatchOperation(name: string): boolean {
-    const batchOps = [
-      'batch_create', 'batch_modify', 'batch_clone', 'batch_rename', 'batch_delete',
-      'batch_edit_across_pages', 'smart_select', 'find_similar', 'analyze_duplicates',
-      'frame_to_components', 'cross_page_copy', 'cross_page_move', 'arrange_nodes',
-    ];
-    return batchOps.includes(name);
+  // Small exports arrive inline; larger ones are pulled from the plugin cache one frame-sized chunk at a time.
+  private async fetchExportData(item: ExportDescriptor): Promise<string | null> {
+    if (typeof item.base64 === 'string') {
+      const base64 = item.base64;
+      delete item.base64;
+      return base64;
+    }
+    if (!item.exportId) return null;
+
+    const chunks: string[] = [];
+    const chunkCount = item.chunkCount ?? 1;
+    for (let index = 0; index < chunkCount; index++) {
+      const chunk = await this.figmaConnection.send({
+        type: 'read_export_chunk',
+        id: uuidv4(),
+        payload: { exportId: item.exportId, index },
+      }, 30000);
+      chunks.push(chunk.data);
+    }
+    delete item.exportId;
+    delete item.chunkCount;
+    return chunks.join('');
   }
 
-  private async handleBatchOperation(name: string, args: any, messageId: string): Promise<any> {
+  private async handleBatchOperation(
+    name: string,
+    args: any,
+    messageId: string,
+    reportProgress?: (params: { progress: number; total: number; message: string }) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<any> {
     // 通知开始操作
     const operationId = uuidv4();
+    if (reportProgress) {
+      this.progressReporters.set(operationId, { send: reportProgress, lastProgress: -1 });
+    }
+    this.activeBatchMessages.set(operationId, messageId);
+    // MCP notifications/cancelled aborts the request signal; route it through cancel_operation.
+    const onAbort = () => {
+      void this.handleCancelOperation(operationId).catch(() => undefined);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
     this.progressManager.startOperation(
       operationId,
       name,
@@ -2580,18 +1070,15 @@ class SuperchargedMCPServer {
 
       this.progressManager.completeOperation(operationId, result);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+      return toolResult(getToolDefinition(name), result);
     } catch (error) {
       this.progressManager.cancelOperation(operationId);
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(this.formatToolError(name, errorMessage));
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.activeBatchMessages.delete(operationId);
+      this.progressReporters.delete(operationId);
     }
   }
 
@@ -2688,6 +1175,32 @@ class SuperchargedMCPServer {
           const sync = new CrossProjectSync(this.restBridge);
           result = await sync.compareComponents(args.sourceFileKey, args.targetFileKey);
           break;
+        case 'rest_extract_palette':
+          result = await new CrossProjectSync(this.restBridge).extractPalette(args.fileKey, {
+            nodeIds: args.nodeIds,
+            maxColors: args.maxColors,
+            maxDeltaE: args.maxDeltaE,
+            includeStrokes: args.includeStrokes,
+          });
+          break;
+        case 'rest_sync_component_library': {
+          await this.tryRestoreConnection();
+          if (!this.figmaConnection.isFigmaConnected()) {
+            throw new Error('Figma plugin not connected; open the target file in Figma and connect the plugin first');
+          }
+          const names: string[] | undefined = Array.isArray(args.names) ? args.names : undefined;
+          const librarySync = new CrossProjectSync(this.restBridge, (svg, options) => this.figmaConnection.send({
+            type: 'import_svg',
+            id: uuidv4(),
+            payload: { svg, ...options, parentId: args.parentId, asComponent: true },
+          }, 60000));
+          result = await librarySync.syncComponentLibrary(
+            args.teamId,
+            args.targetFileKey,
+            names ? (component) => names.includes(component.name) : undefined
+          );
+          break;
+        }
         case 'rest_get_rate_limit':
           result = this.restBridge.getRateLimitStatus();
           break;
@@ -2695,14 +1208,7 @@ class SuperchargedMCPServer {
           throw new Error(`Unknown REST tool: ${name}`);
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+      return jsonResult(result);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(this.formatToolError(name, `REST API error: ${errorMessage}`));
@@ -2711,38 +1217,66 @@ class SuperchargedMCPServer {
 
   private async handlePerformanceReport(): Promise<any> {
     const report = this.batchExecutor.getPerformanceReport();
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(report, null, 2),
-        },
-      ],
-    };
+    return jsonResult(report);
   }
 
   private async handleActiveOperations(): Promise<any> {
     const active = this.progressManager.getActiveOperations();
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({ activeOperations: active }, null, 2),
-        },
-      ],
-    };
+    return jsonResult({ activeOperations: active });
+  }
+
+  // A plain plugin or export call has no operationId; the plugin tracks it under its message id instead.
+  // Ask it to stop and stop waiting for the reply, which the client no longer expects.
+  private cancelPluginCall(messageId: string) {
+    if (!this.figmaConnection.hasPendingRequest(messageId)) return;
+    if (this.figmaConnection.isFigmaConnected()) {
+      this.figmaConnection.send({
+        type: 'cancel',
+        id: uuidv4(),
+        payload: { operationId: messageId },
+      }, 10000).catch((error) => {
+        console.error(chalk.yellow(`Cancel request for ${messageId} failed:`), error);
+      });
+    }
+    this.figmaConnection.rejectPending(messageId, new Error(`Request ${messageId} was cancelled by the client`));
   }
 
   private async handleCancelOperation(operationId: string): Promise<any> {
     this.progressManager.cancelOperation(operationId);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({ cancelled: true, operationId }, null, 2),
-        },
-      ],
-    };
+
+    const messageId = this.activeBatchMessages.get(operationId);
+    let pluginAcknowledged = false;
+    let pluginRunning = false;
+    if (messageId && this.figmaConnection.isFigmaConnected()) {
+      try {
+        const ack = await this.figmaConnection.send({
+          type: 'cancel',
+          id: uuidv4(),
+          payload: { operationId },
+        }, 10000);
+        pluginAcknowledged = !!ack?.acknowledged;
+        pluginRunning = !!ack?.running;
+      } catch (error) {
+        console.error(chalk.yellow(`Cancel request for ${operationId} failed:`), error);
+      }
+
+      // The plugin answers with a partial result once its loop notices the cancel.
+      // Stop waiting if it never does (non-cooperative tool or stuck plugin).
+      setTimeout(() => {
+        if (!this.figmaConnection.hasPendingRequest(messageId)) return;
+        this.figmaConnection.rejectPending(
+          messageId,
+          new Error(`Operation ${operationId} cancelled; plugin did not stop within ${CANCEL_GRACE_MS / 1000}s`)
+        );
+      }, CANCEL_GRACE_MS).unref();
+    }
+
+    return structuredResult({
+      cancelled: true,
+      operationId,
+      pluginAcknowledged,
+      pluginRunning,
+    });
   }
 
   async start(relayUrl?: string, channelId?: string) {
@@ -2836,6 +1370,7 @@ class SuperchargedMCPServer {
   }
 
   async stop(): Promise<void> {
+    await this.recorder?.flush();
     if (!this.httpServer) return;
     const server = this.httpServer;
     this.httpServer = null;
@@ -2902,6 +1437,8 @@ interface StartupConfig {
   relayPath: string;
   relayUrl: string;
   transportExplicit: boolean;
+  recordPath?: string;
+  exportRoot?: string;
   showHelp: boolean;
 }
 
@@ -2974,6 +1511,9 @@ function parseStartupConfig(argv: string[]): StartupConfig {
     relayUrl = `ws://${encodedHost}:${relayPort}${normalizedPath}`;
   }
 
+  const recordPath = readOption(['--record']) || process.env.FIGMA_MCP_RECORD || undefined;
+  const exportRoot = readOption(['--export-root']) || process.env.FIGMA_MCP_EXPORT_ROOT || undefined;
+
   return {
     relayMode,
     mcpTransport,
@@ -2986,6 +1526,8 @@ function parseStartupConfig(argv: string[]): StartupConfig {
     relayPath,
     relayUrl,
     transportExplicit,
+    recordPath,
+    exportRoot,
     showHelp,
   };
 }
@@ -3009,6 +1551,14 @@ Relay (local mode):
   --relay-port <port>             Embedded relay bind port (default: 8888)
   --relay-path </path>            Embedded relay ws path (default: /)
 
+Exports:
+  --export-root <dir>             Directory export tools may write outputDir files under (or FIGMA_MCP_EXPORT_ROOT;
+                                  default: <tmpdir>/figma-mcp-exports)
+
+Session recording:
+  --record <file.jsonl>           Append every plugin call and reply to a JSONL file (or FIGMA_MCP_RECORD)
+  replay <file.jsonl>             Replay a recording and diff the replies (see replay --help)
+
 Compatibility flags:
   --relay-mode local|remote
   --relay-url <ws(s)://...>
@@ -3017,8 +1567,96 @@ Compatibility flags:
 `);
 }
 
+function printReplayHelp() {
+  console.log(`
+Replay a session recorded with --record and diff each reply against the recording.
+
+Usage:
+  supercharged-figma-mcp replay <file.jsonl> [options]
+
+Targets:
+  --target relay --channel <code> Real plugin on a relay channel (default; relay URL from --remote / --relay-url)
+  --target fake                   In-memory Figma running figma-plugin/code.js (source checkout only, after npm run build)
+
+Options:
+  --stop-on-mismatch              Stop at the first reply that differs
+  --timeout <ms>                  Per-call timeout for the relay target (default: 90000)
+  --json                          Print the full report as JSON on stdout
+
+Exit code is 1 when any reply differs.
+`);
+}
+
+async function runReplay(argv: string[]): Promise<number> {
+  const args = argv.slice(3);
+  const readOption = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index >= 0 && args[index + 1] && !args[index + 1].startsWith('--') ? args[index + 1] : undefined;
+  };
+  if (args.includes('--help') || args.includes('-h')) {
+    printReplayHelp();
+    return 0;
+  }
+  const recordingPath = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+  if (!recordingPath) {
+    printReplayHelp();
+    return 1;
+  }
+
+  const channel = readOption('--channel');
+  const target = readOption('--target') || 'relay';
+  const timeoutMs = Number(readOption('--timeout') || 90000);
+  const calls = await readRecording(path.resolve(recordingPath));
+  console.log(chalk.gray(`Replaying ${calls.length} calls from ${recordingPath} against ${target}`));
+
+  let send: (message: PluginMessage) => Promise<any>;
+  let cleanup = () => {};
+  if (target === 'relay') {
+    if (!channel) throw new Error('Replay against a relay requires --channel <code> (or --target fake in a source checkout).');
+    const { relayUrl } = parseStartupConfig(argv);
+    const connection = new FigmaPluginConnection();
+    await connection.connect(relayUrl, channel);
+    send = (message) => connection.send(message, timeoutMs);
+    cleanup = () => connection.close();
+  } else if (target === 'fake') {
+    // The fake runtime is part of the test build, which the published package does not ship.
+    let harness: typeof import('./tests/plugin-harness.js');
+    try {
+      harness = await import('./tests/plugin-harness.js');
+    } catch {
+      throw new Error('--target fake is only available in a source checkout after npm run build; the published package replays against a relay (--target relay --channel <code>).');
+    }
+    const plugin = harness.loadPlugin();
+    send = (message) => plugin.dispatch(message);
+  } else {
+    throw new Error(`Unknown replay target: ${target} (expected fake or relay)`);
+  }
+
+  try {
+    const report = await replaySession(calls, send, {
+      stopOnMismatch: args.includes('--stop-on-mismatch'),
+      onCall: (call) => {
+        const mark = call.status === 'match' ? chalk.green('✓') : call.status === 'skipped' ? chalk.gray('-') : chalk.red('✗');
+        console.log(`${mark} #${call.seq} ${call.type} (${call.durationMs}ms, recorded ${call.recordedDurationMs}ms)`);
+      },
+    });
+    console.log(formatReplayReport(report));
+    if (args.includes('--json')) process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return report.mismatched > 0 ? 1 : 0;
+  } finally {
+    cleanup();
+  }
+}
+
 // CLI Entry
 async function main() {
+  if (process.argv[2] === 'replay') {
+    process.exitCode = await runReplay(process.argv).catch((error) => {
+      console.error(chalk.red(`Replay failed: ${error instanceof Error ? error.message : String(error)}`));
+      return 1;
+    });
+    return;
+  }
   const config = parseStartupConfig(process.argv);
   if (config.showHelp) {
     printHelp();
@@ -3079,7 +1717,10 @@ async function main() {
     }
   }
 
-  const server = new SuperchargedMCPServer();
+  const server = new SuperchargedMCPServer({ recordPath: config.recordPath, exportRoot: config.exportRoot });
+  if (config.recordPath) {
+    console.log(chalk.gray(`Recording plugin calls to: ${path.resolve(config.recordPath)}`));
+  }
   if (config.mcpTransport === 'http') {
     await server.startMCPOverHttp(config.relayUrl, config.mcpHost, config.mcpPort, config.mcpPath);
   } else {
@@ -0,0 +1,253 @@
+// Session Recorder - 录制 server -> plugin 的工具调用与回复（JSONL），并可回放到插件后比对结果
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { PluginMessage } from './types.js';
+
+export const RECORDING_VERSION = 1;
+// Results serialized larger than this are stored as a marker and not compared on replay.
+export const RECORDING_MAX_RESULT_CHARS = 1_000_000;
+// Keys whose values legitimately differ between runs.
+export const REPLAY_IGNORED_KEYS = ['timestamp', 'ts', 'savedAt', 'durationMs', 'elapsedMs'];
+
+const MAX_DIFFERENCES_PER_CALL = 20;
+// Node, style and variable ids that a replay target may assign differently than the recorded session.
+const FIGMA_ID_PATTERN = /^(?:I?\d+:\d+(?:;\d+:\d+)*|S:[0-9a-f]+,\d+:\d+|VariableID:\d+:\d+|VariableCollectionId:\d+:\d+)$/;
+
+export interface RecordedCall {
+  seq: number;
+  startedAt: string;
+  durationMs: number;
+  message: PluginMessage;
+  result?: any;
+  error?: string;
+  resultTruncated?: boolean;
+}
+
+export type CallOutcome = { result: any } | { error: string };
+
+// Appends one JSON line per completed plugin call. Lines are in completion order; seq is the dispatch order.
+export class SessionRecorder {
+  private seq = 0;
+  private queue: Promise<void>;
+
+  constructor(private readonly filePath: string) {
+    this.queue = mkdir(path.dirname(filePath), { recursive: true }).then(() => undefined);
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  // Call when the message is sent; the returned callback records its outcome.
+  begin(message: PluginMessage): (outcome: CallOutcome) => void {
+    const seq = ++this.seq;
+    const startedAtMs = Date.now();
+    return (outcome) => this.write(seq, message, startedAtMs, outcome);
+  }
+
+  private write(seq: number, message: PluginMessage, startedAtMs: number, outcome: CallOutcome): void {
+    const entry: RecordedCall = {
+      seq,
+      startedAt: new Date(startedAtMs).toISOString(),
+      durationMs: Date.now() - startedAtMs,
+      message,
+    };
+    if ('error' in outcome) {
+      entry.error = outcome.error;
+    } else {
+      const serialized = JSON.stringify(outcome.result);
+      if (serialized !== undefined && serialized.length > RECORDING_MAX_RESULT_CHARS) {
+        entry.resultTruncated = true;
+      } else {
+        entry.result = outcome.result;
+      }
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    this.queue = this.queue
+      .then(() => appendFile(this.filePath, line, 'utf8'))
+      .catch((error) => {
+        console.error(`Session recorder failed to write ${this.filePath}:`, error);
+      });
+  }
+
+  // Resolves once every recorded call is on disk.
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+}
+
+export function parseRecording(text: string): RecordedCall[] {
+  const calls: RecordedCall[] = [];
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) continue;
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid recording line ${index + 1}: not JSON`);
+    }
+    if (!entry || typeof entry.message?.type !== 'string' || typeof entry.message?.id !== 'string') {
+      throw new Error(`Invalid recording line ${index + 1}: missing message type or id`);
+    }
+    calls.push(entry as RecordedCall);
+  }
+  return calls;
+}
+
+export async function readRecording(filePath: string): Promise<RecordedCall[]> {
+  return parseRecording(await readFile(filePath, 'utf8'));
+}
+
+export interface ReplayDifference {
+  path: string;
+  expected: any;
+  actual: any;
+}
+
+export interface ReplayCallReport {
+  seq: number;
+  type: string;
+  status: 'match' | 'mismatch' | 'skipped';
+  durationMs: number;
+  recordedDurationMs: number;
+  differences: ReplayDifference[];
+}
+
+export interface ReplayReport {
+  total: number;
+  matched: number;
+  mismatched: number;
+  skipped: number;
+  calls: ReplayCallReport[];
+  // Recorded id -> id the replay target assigned.
+  idMap: Record<string, string>;
+}
+
+export interface ReplayOptions {
+  ignoreKeys?: string[];
+  stopOnMismatch?: boolean;
+  onCall?: (report: ReplayCallReport) => void;
+}
+
+export function isFigmaId(value: unknown): value is string {
+  return typeof value === 'string' && FIGMA_ID_PATTERN.test(value);
+}
+
+// Replace recorded ids with the ids the replay target assigned, so later calls address the same nodes.
+export function remapIds<T>(value: T, idMap: Map<string, string>): T {
+  if (typeof value === 'string') return (idMap.get(value) ?? value) as T;
+  if (Array.isArray(value)) return value.map((item) => remapIds(item, idMap)) as T;
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) out[key] = remapIds(item, idMap);
+    return out as T;
+  }
+  return value;
+}
+
+// Structural diff of a recorded value against a replayed one. Differing Figma ids are learned into idMap
+// (recorded -> actual) instead of being reported, unless they contradict an earlier mapping.
+export function diffValues(
+  expected: any,
+  actual: any,
+  idMap: Map<string, string> = new Map(),
+  ignoreKeys: string[] = REPLAY_IGNORED_KEYS,
+  at: string = '$'
+): ReplayDifference[] {
+  if (isFigmaId(expected) && isFigmaId(actual)) {
+    const known = idMap.get(expected);
+    if (known === undefined && expected !== actual) {
+      idMap.set(expected, actual);
+      return [];
+    }
+    return (known ?? expected) === actual ? [] : [{ path: at, expected, actual }];
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const differences: ReplayDifference[] = [];
+    if (expected.length !== actual.length) {
+      differences.push({ path: `${at}.length`, expected: expected.length, actual: actual.length });
+    }
+    for (let index = 0; index < Math.min(expected.length, actual.length); index++) {
+      differences.push(...diffValues(expected[index], actual[index], idMap, ignoreKeys, `${at}[${index}]`));
+    }
+    return differences;
+  }
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const differences: ReplayDifference[] = [];
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      if (ignoreKeys.includes(key)) continue;
+      differences.push(...diffValues(expected[key], actual[key], idMap, ignoreKeys, `${at}.${key}`));
+    }
+    return differences;
+  }
+  return Object.is(expected, actual) ? [] : [{ path: at, expected, actual }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Sends every recorded message to the target in dispatch (seq) order and compares what comes back with the recording.
+export async function replaySession(
+  calls: RecordedCall[],
+  send: (message: PluginMessage) => Promise<any>,
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const idMap = new Map<string, string>();
+  const ignoreKeys = options.ignoreKeys ?? REPLAY_IGNORED_KEYS;
+  const report: ReplayReport = { total: calls.length, matched: 0, mismatched: 0, skipped: 0, calls: [], idMap: {} };
+
+  for (const call of [...calls].sort((a, b) => a.seq - b.seq)) {
+    const message = remapIds(call.message, idMap);
+    const startedAt = Date.now();
+    let outcome: CallOutcome;
+    try {
+      outcome = { result: await send(message) };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    let differences: ReplayDifference[];
+    if (call.resultTruncated) {
+      differences = 'error' in outcome ? [{ path: '$.error', expected: undefined, actual: outcome.error }] : [];
+    } else {
+      const expected = call.error !== undefined ? { error: call.error } : { result: call.result };
+      differences = diffValues(expected, JSON.parse(JSON.stringify(outcome)), idMap, ignoreKeys);
+    }
+    const status = differences.length > 0 ? 'mismatch' : call.resultTruncated ? 'skipped' : 'match';
+    const callReport: ReplayCallReport = {
+      seq: call.seq,
+      type: call.message.type,
+      status,
+      durationMs: Date.now() - startedAt,
+      recordedDurationMs: call.durationMs,
+      differences: differences.slice(0, MAX_DIFFERENCES_PER_CALL),
+    };
+    report.calls.push(callReport);
+    if (status === 'match') report.matched++;
+    else if (status === 'mismatch') report.mismatched++;
+    else report.skipped++;
+    options.onCall?.(callReport);
+    if (status === 'mismatch' && options.stopOnMismatch) break;
+  }
+
+  report.idMap = Object.fromEntries(idMap);
+  return report;
+}
+
+export function formatReplayReport(report: ReplayReport): string {
+  const lines = [
+    `Replayed ${report.calls.length}/${report.total} calls: ${report.matched} matched, ${report.mismatched} mismatched, ${report.skipped} skipped`,
+  ];
+  for (const call of report.calls) {
+    if (call.status !== 'mismatch') continue;
+    lines.push(`  #${call.seq} ${call.type}`);
+    for (const difference of call.differences) {
+      lines.push(`    ${difference.path}: expected ${JSON.stringify(difference.expected)}, got ${JSON.stringify(difference.actual)}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,1518 @@
+// Fake Figma Runtime - 内存版 figma 全局对象（节点树、页面、样式、变量、字体、导出桩），供测试在 Node 中运行插件代码
+//
+// Behaves like the dynamic-page plugin API where the plugin depends on it: sync lookups throw, text edits need
+// loaded fonts, paints are validated and frozen, and property presence ('x' in node, 'children' in node) follows
+// the node type. Auto layout is not reflowed and rendering is stubbed.
+
+export interface FakeFontName {
+  family: string;
+  style: string;
+}
+
+export interface FakeFigmaOptions {
+  pages?: string[];
+  fileKey?: string;
+  // Fonts loadFontAsync accepts (default: Inter Regular/Medium/Semi Bold/Bold, Roboto Regular/Bold).
+  fonts?: FakeFontName[];
+  // Component keys importComponentByKeyAsync resolves; others reject like an unpublished library.
+  libraryComponents?: Record<string, { name: string; width?: number; height?: number }>;
+}
+
+type Listener = (...args: any[]) => void;
+type Mixin = (node: FakeNode) => void;
+
+const DEFAULT_FONTS: FakeFontName[] = [
+  { family: 'Inter', style: 'Regular' },
+  { family: 'Inter', style: 'Medium' },
+  { family: 'Inter', style: 'Semi Bold' },
+  { family: 'Inter', style: 'Bold' },
+  { family: 'Roboto', style: 'Regular' },
+  { family: 'Roboto', style: 'Bold' },
+];
+
+const MIXED = Symbol('figma.mixed');
+
+const fontKey = (font: FakeFontName) => `${font.family}::${font.style}`;
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object') {
+    Object.freeze(value);
+    for (const item of Object.values(value)) deepFreeze(item);
+  }
+  return value;
+}
+
+function hexId(length: number, seed: number): string {
+  let out = '';
+  let state = seed * 2654435761;
+  while (out.length < length) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    out += (state % 16).toString(16);
+  }
+  return out;
+}
+
+// Figma rejects unknown keys and out-of-range channels in paint colors.
+function validatePaints(paints: any, property: string): void {
+  if (!Array.isArray(paints)) throw new Error(`in set_${property}: Expected an array of paints`);
+  for (const paint of paints) {
+    if (!paint || typeof paint.type !== 'string') throw new Error(`in set_${property}: Paint is missing "type"`);
+    if (paint.type !== 'SOLID') continue;
+    const keys = Object.keys(paint.color ?? {}).sort().join(',');
+    if (keys !== 'b,g,r') throw new Error(`in set_${property}: Expected color to have keys r, g, b (got ${keys || 'none'})`);
+    for (const channel of ['r', 'g', 'b']) {
+      const value = paint.color[channel];
+      if (typeof value !== 'number' || value < 0 || value > 1) {
+        throw new Error(`in set_${property}: Expected color.${channel} to be a number between 0 and 1`);
+      }
+    }
+  }
+}
+
+const solid = (r: number, g: number, b: number) => [{ type: 'SOLID', visible: true, opacity: 1, blendMode: 'NORMAL', color: { r, g, b } }];
+
+export class FakeNode {
+  [key: string]: any;
+
+  readonly figma: FakeFigma;
+  readonly id: string;
+  readonly type: string;
+  _parent: FakeNode | null = null;
+  _removed = false;
+  private pluginData = new Map<string, string>();
+  private sharedPluginData = new Map<string, string>();
+
+  constructor(figma: FakeFigma, type: string, id: string) {
+    this.figma = figma;
+    this.type = type;
+    this.id = id;
+    this.name = defaultName(type);
+    for (const mixin of NODE_MIXINS[type] ?? [sceneMixin, layoutMixin]) mixin(this);
+    figma._register(this);
+  }
+
+  get parent(): FakeNode | null {
+    return this._parent;
+  }
+
+  get removed(): boolean {
+    return this._removed;
+  }
+
+  remove(): void {
+    if (this.type === 'DOCUMENT') throw new Error('Cannot remove the document');
+    if (this.type === 'PAGE' && this.figma.root.children.length <= 1) throw new Error('Cannot remove the last page');
+    if (this._parent) this._parent._children.splice(this._parent._children.indexOf(this), 1);
+    this._parent = null;
+    this.figma._unregister(this);
+  }
+
+  getPluginData(key: string): string {
+    return this.pluginData.get(key) ?? '';
+  }
+
+  setPluginData(key: string, value: string): void {
+    if (value === '') this.pluginData.delete(key);
+    else this.pluginData.set(key, String(value));
+  }
+
+  getPluginDataKeys(): string[] {
+    return [...this.pluginData.keys()];
+  }
+
+  getSharedPluginData(namespace: string, key: string): string {
+    return this.sharedPluginData.get(`${namespace}:${key}`) ?? '';
+  }
+
+  setSharedPluginData(namespace: string, key: string, value: string): void {
+    this.sharedPluginData.set(`${namespace}:${key}`, String(value));
+  }
+
+  toString(): string {
+    return `[Node ${this.id}]`;
+  }
+}
+
+function defaultName(type: string): string {
+  const names: Record<string, string> = {
+    DOCUMENT: 'Document', PAGE: 'Page', FRAME: 'Frame', GROUP: 'Group', COMPONENT: 'Component', COMPONENT_SET: 'Component Set',
+    INSTANCE: 'Instance', RECTANGLE: 'Rectangle', ELLIPSE: 'Ellipse', POLYGON: 'Polygon', STAR: 'Star', LINE: 'Line',
+    VECTOR: 'Vector', TEXT: 'Text', BOOLEAN_OPERATION: 'Union', SECTION: 'Section', SLICE: 'Slice', STICKY: 'Sticky',
+    SHAPE_WITH_TEXT: 'Shape', CONNECTOR: 'Connector',
+  };
+  return names[type] ?? type;
+}
+
+function define(node: FakeNode, name: string, get: () => any, set?: (value: any) => void): void {
+  Object.defineProperty(node, name, { get, set, enumerable: true, configurable: true });
+}
+
+// Groups and boolean operations do not establish a coordinate space: their children are positioned in the
+// nearest non-group ancestor, and their own bounds follow the children.
+function isGroupLike(node: FakeNode | null): boolean {
+  return !!node && (node.type === 'GROUP' || node.type === 'BOOLEAN_OPERATION');
+}
+
+function childBounds(node: FakeNode): { x: number; y: number; width: number; height: number } {
+  const children: FakeNode[] = node._children.filter((child: FakeNode) => 'x' in child);
+  if (children.length === 0) return { x: node._x, y: node._y, width: 0, height: 0 };
+  const left = Math.min(...children.map((child) => child.x));
+  const top = Math.min(...children.map((child) => child.y));
+  const right = Math.max(...children.map((child) => child.x + child.width));
+  const bottom = Math.max(...children.map((child) => child.y + child.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Offset of the coordinate space a node's x/y are expressed in.
+function originOf(node: FakeNode): { x: number; y: number } {
+  let parent = node._parent;
+  while (isGroupLike(parent)) parent = parent!._parent;
+  if (!parent || !('x' in parent)) return { x: 0, y: 0 };
+  const origin = originOf(parent);
+  return { x: origin.x + parent.x, y: origin.y + parent.y };
+}
+
+const sceneMixin: Mixin = (node) => {
+  node.visible = true;
+  node.locked = false;
+  node.reactions = [];
+  node.exportSettings = [];
+  node.setReactionsAsync = async (reactions: any[]) => {
+    node.reactions = clone(reactions);
+  };
+  node.clone = () => cloneNode(node, node._parent, node._parent ? node._parent._children.indexOf(node) + 1 : undefined);
+  node.exportAsync = async (settings: any = {}) => node.figma._export(node, settings);
+  node.getCSSAsync = async () => ({ width: `${node.width}px`, height: `${node.height}px` });
+};
+
+const layoutMixin: Mixin = (node) => {
+  node._x = 0;
+  node._y = 0;
+  node._width = 100;
+  node._height = 100;
+  define(node, 'x', () => (isGroupLike(node) ? childBounds(node).x : node._x), (value: number) => {
+    if (isGroupLike(node)) {
+      const dx = value - childBounds(node).x;
+      for (const child of node._children) if ('x' in child) child.x += dx;
+    } else {
+      node._x = Number(value);
+    }
+  });
+  define(node, 'y', () => (isGroupLike(node) ? childBounds(node).y : node._y), (value: number) => {
+    if (isGroupLike(node)) {
+      const dy = value - childBounds(node).y;
+      for (const child of node._children) if ('y' in child) child.y += dy;
+    } else {
+      node._y = Number(value);
+    }
+  });
+  define(node, 'width', () => (isGroupLike(node) ? childBounds(node).width : node._width));
+  define(node, 'height', () => (isGroupLike(node) ? childBounds(node).height : node._height));
+  node.rotation = 0;
+  node.constraints = { horizontal: 'MIN', vertical: 'MIN' };
+  node.layoutAlign = 'INHERIT';
+  node.layoutGrow = 0;
+  node.layoutPositioning = 'AUTO';
+  node.layoutSizingHorizontal = 'FIXED';
+  node.layoutSizingVertical = 'FIXED';
+  node.minWidth = null;
+  node.maxWidth = null;
+  node.minHeight = null;
+  node.maxHeight = null;
+  node.resize = (width: number, height: number) => {
+    if (!(width >= 0.01) || !(height >= (node.type === 'LINE' ? 0 : 0.01))) {
+      throw new Error(`in resize: Expected width and height to be >= 0.01 (got ${width} x ${height})`);
+    }
+    if (isGroupLike(node)) {
+      const bounds = childBounds(node);
+      const sx = bounds.width ? width / bounds.width : 1;
+      const sy = bounds.height ? height / bounds.height : 1;
+      for (const child of node._children) {
+        if (!('x' in child)) continue;
+        child.x = bounds.x + (child.x - bounds.x) * sx;
+        child.y = bounds.y + (child.y - bounds.y) * sy;
+        child.resize(Math.max(0.01, child.width * sx), Math.max(0.01, child.height * sy));
+      }
+      return;
+    }
+    node._width = width;
+    node._height = height;
+  };
+  node.resizeWithoutConstraints = node.resize;
+  node.rescale = (scale: number) => node.resize(node.width * scale, node.height * scale);
+  define(node, 'absoluteTransform', () => {
+    const origin = originOf(node);
+    return [[1, 0, origin.x + node.x], [0, 1, origin.y + node.y]];
+  });
+  define(node, 'relativeTransform', () => [[1, 0, node.x], [0, 1, node.y]], (transform: number[][]) => {
+    node.x = transform[0][2];
+    node.y = transform[1][2];
+  });
+  define(node, 'absoluteBoundingBox', () => {
+    const origin = originOf(node);
+    return { x: origin.x + node.x, y: origin.y + node.y, width: node.width, height: node.height };
+  });
+  define(node, 'absoluteRenderBounds', () => (node.visible ? node.absoluteBoundingBox : null));
+};
+
+const blendMixin: Mixin = (node) => {
+  node.opacity = 1;
+  node.blendMode = ['FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'BOOLEAN_OPERATION'].includes(node.type) ? 'PASS_THROUGH' : 'NORMAL';
+  node.isMask = false;
+  node.effects = [];
+  node.effectStyleId = '';
+  node.setEffectStyleIdAsync = async (id: string) => {
+    const style = id ? node.figma._style(id, 'EFFECT') : null;
+    node.effectStyleId = id;
+    if (style) node.effects = clone(style.effects);
+  };
+};
+
+function paintProperty(node: FakeNode, name: 'fills' | 'strokes', initial: any[]): void {
+  let paints: any[] = deepFreeze(clone(initial));
+  define(node, name, () => paints, (value: any) => {
+    if (value === MIXED) throw new Error(`in set_${name}: Cannot set ${name} to figma.mixed`);
+    validatePaints(value, name);
+    paints = deepFreeze(clone(value));
+    if (name === 'fills') node.fillStyleId = '';
+    else node.strokeStyleId = '';
+  });
+}
+
+const geometryMixin: Mixin = (node) => {
+  const defaults: Record<string, any[]> = {
+    FRAME: solid(1, 1, 1), COMPONENT: solid(1, 1, 1), COMPONENT_SET: [], INSTANCE: solid(1, 1, 1), SECTION: solid(1, 1, 1),
+    TEXT: solid(0, 0, 0), LINE: [], VECTOR: [], BOOLEAN_OPERATION: solid(0.85, 0.85, 0.85),
+  };
+  node.fillStyleId = '';
+  node.strokeStyleId = '';
+  paintProperty(node, 'fills', defaults[node.type] ?? solid(0.85, 0.85, 0.85));
+  paintProperty(node, 'strokes', node.type === 'LINE' ? solid(0, 0, 0) : []);
+  node.strokeWeight = 1;
+  node.strokeAlign = node.type === 'LINE' || node.type === 'VECTOR' ? 'CENTER' : 'INSIDE';
+  node.strokeCap = 'NONE';
+  node.strokeJoin = 'MITER';
+  node.dashPattern = [];
+  node.boundVariables = {};
+  node.setFillStyleIdAsync = async (id: string) => {
+    const style = id ? node.figma._style(id, 'PAINT') : null;
+    if (style) node.fills = style.paints;
+    node.fillStyleId = id;
+  };
+  node.setStrokeStyleIdAsync = async (id: string) => {
+    const style = id ? node.figma._style(id, 'PAINT') : null;
+    if (style) node.strokes = style.paints;
+    node.strokeStyleId = id;
+  };
+  node.setBoundVariable = (field: string, variable: any) => {
+    const bound = { ...node.boundVariables };
+    if (!variable) {
+      delete bound[field];
+    } else {
+      bound[field] = { type: 'VARIABLE_ALIAS', id: variable.id };
+      const value = variable.valuesByMode?.[node.figma._defaultModeOf(variable)];
+      if (typeof value === 'number' && field in node && field !== 'width' && field !== 'height') node[field] = value;
+      if (typeof value === 'number' && (field === 'width' || field === 'height')) {
+        node.resize(field === 'width' ? value : node.width, field === 'height' ? value : node.height);
+      }
+    }
+    node.boundVariables = bound;
+  };
+  node.outlineStroke = () => null;
+};
+
+const cornerMixin: Mixin = (node) => {
+  const radii = { topLeftRadius: 0, topRightRadius: 0, bottomLeftRadius: 0, bottomRightRadius: 0 };
+  for (const key of Object.keys(radii) as Array<keyof typeof radii>) {
+    define(node, key, () => radii[key], (value: number) => {
+      radii[key] = Number(value);
+    });
+  }
+  define(node, 'cornerRadius', () => {
+    const values = new Set(Object.values(radii));
+    return values.size === 1 ? radii.topLeftRadius : MIXED;
+  }, (value: number) => {
+    for (const key of Object.keys(radii) as Array<keyof typeof radii>) radii[key] = Number(value);
+  });
+  node.cornerSmoothing = 0;
+};
+
+const frameMixin: Mixin = (node) => {
+  node.layoutMode = 'NONE';
+  node.layoutWrap = 'NO_WRAP';
+  node.primaryAxisSizingMode = 'FIXED';
+  node.counterAxisSizingMode = 'FIXED';
+  node.primaryAxisAlignItems = 'MIN';
+  node.counterAxisAlignItems = 'MIN';
+  node.counterAxisAlignContent = 'AUTO';
+  node.itemSpacing = 0;
+  node.counterAxisSpacing = 0;
+  node.itemReverseZIndex = false;
+  node.strokesIncludedInLayout = false;
+  node.paddingTop = 0;
+  node.paddingRight = 0;
+  node.paddingBottom = 0;
+  node.paddingLeft = 0;
+  node.clipsContent = node.type !== 'COMPONENT_SET';
+  node.layoutGrids = [];
+  node.gridStyleId = '';
+  node.setGridStyleIdAsync = async (id: string) => {
+    const style = id ? node.figma._style(id, 'GRID') : null;
+    if (style) node.layoutGrids = clone(style.layoutGrids);
+    node.gridStyleId = id;
+  };
+  node.expanded = true;
+};
+
+function assertCanContain(parent: FakeNode, child: FakeNode): void {
+  if (!(child instanceof FakeNode)) throw new Error('in appendChild: Expected a node');
+  if (child._removed) throw new Error(`in appendChild: The node (id: ${child.id}) does not exist`);
+  if (parent.type === 'DOCUMENT' ? child.type !== 'PAGE' : child.type === 'PAGE' || child.type === 'DOCUMENT') {
+    throw new Error(`in appendChild: Cannot move node. A ${child.type} node cannot be a child of a ${parent.type} node`);
+  }
+  for (let current: FakeNode | null = parent; current; current = current._parent) {
+    if (current === child) throw new Error('in appendChild: Cannot move node. New parent would be a descendant of the node');
+  }
+  if (parent.type === 'INSTANCE') throw new Error('in appendChild: Cannot move node into an instance');
+  if (parent.type === 'COMPONENT_SET' && child.type !== 'COMPONENT') {
+    throw new Error('in appendChild: Component sets can only contain components');
+  }
+}
+
+const childrenMixin: Mixin = (node) => {
+  node._children = [] as FakeNode[];
+  define(node, 'children', () => Object.freeze(node._children.slice()));
+  node.insertChild = (index: number, child: FakeNode) => {
+    assertCanContain(node, child);
+    const wasHere = child._parent === node ? node._children.indexOf(child) : -1;
+    if (child._parent) child._parent._children.splice(child._parent._children.indexOf(child), 1);
+    const target = wasHere >= 0 && wasHere < index ? index - 1 : index;
+    node._children.splice(Math.max(0, Math.min(target, node._children.length)), 0, child);
+    child._parent = node;
+    node.figma._emitNodeChange(child);
+  };
+  node.appendChild = (child: FakeNode) => node.insertChild(node._children.length + (child._parent === node ? 1 : 0), child);
+  node.findAll = (callback?: (child: FakeNode) => boolean) => {
+    const found: FakeNode[] = [];
+    const walk = (parent: FakeNode) => {
+      for (const child of parent._children) {
+        if (!callback || callback(child)) found.push(child);
+        if (child._children) walk(child);
+      }
+    };
+    walk(node);
+    return found;
+  };
+  node.findOne = (callback: (child: FakeNode) => boolean) => node.findAll(callback)[0] ?? null;
+  node.findChildren = (callback?: (child: FakeNode) => boolean) => node._children.filter((child: FakeNode) => !callback || callback(child));
+  node.findChild = (callback: (child: FakeNode) => boolean) => node._children.find(callback) ?? null;
+  node.findAllWithCriteria = (criteria: { types?: string[] }) =>
+    node.findAll((child: FakeNode) => !criteria.types || criteria.types.includes(child.type));
+};
+
+const FONT_WEIGHTS: Record<string, number> = { Thin: 100, Light: 300, Regular: 400, Medium: 500, 'Semi Bold': 600, Bold: 700, Black: 900 };
+
+const textMixin: Mixin = (node) => {
+  let characters = '';
+  let fontName: FakeFontName = { family: 'Inter', style: 'Regular' };
+  let fontSize = 12;
+  const requireFont = (property: string, font: FakeFontName = fontName) => {
+    if (!node.figma._isFontLoaded(font)) {
+      throw new Error(`in set_${property}: Cannot write to node with unloaded font "${font.family} ${font.style}". Please call figma.loadFontAsync({ family: "${font.family}", style: "${font.style}" }) and await the returned promise first.`);
+    }
+  };
+  const autoResize = () => {
+    const lines = characters.split('\n');
+    const longest = Math.max(...lines.map((line) => line.length));
+    if (node.textAutoResize === 'WIDTH_AND_HEIGHT') node._width = Math.max(1, Math.round(longest * fontSize * 0.55));
+    if (node.textAutoResize !== 'NONE') node._height = Math.round(lines.length * fontSize * 1.2);
+  };
+  node.textAutoResize = 'WIDTH_AND_HEIGHT';
+  define(node, 'characters', () => characters, (value: string) => {
+    requireFont('characters');
+    characters = String(value);
+    autoResize();
+  });
+  define(node, 'fontName', () => fontName, (value: FakeFontName) => {
+    requireFont('fontName', value);
+    fontName = { family: value.family, style: value.style };
+    node.textStyleId = '';
+  });
+  define(node, 'fontSize', () => fontSize, (value: number) => {
+    requireFont('fontSize');
+    if (!(value >= 1)) throw new Error('in set_fontSize: Expected fontSize to be >= 1');
+    fontSize = Number(value);
+    node.textStyleId = '';
+    autoResize();
+  });
+  define(node, 'fontWeight', () => FONT_WEIGHTS[fontName.style] ?? 400);
+  define(node, 'hasMissingFont', () => !node.figma._isFontAvailable(fontName));
+  node.textAlignHorizontal = 'LEFT';
+  node.textAlignVertical = 'TOP';
+  node.letterSpacing = { unit: 'PERCENT', value: 0 };
+  node.lineHeight = { unit: 'AUTO' };
+  node.paragraphSpacing = 0;
+  node.paragraphIndent = 0;
+  node.textCase = 'ORIGINAL';
+  node.textDecoration = 'NONE';
+  node.textTruncation = 'DISABLED';
+  node.textStyleId = '';
+  node.setTextStyleIdAsync = async (id: string) => {
+    const style = id ? node.figma._style(id, 'TEXT') : null;
+    if (style) {
+      requireFont('textStyleId', style.fontName);
+      fontName = clone(style.fontName);
+      fontSize = style.fontSize;
+      node.letterSpacing = clone(style.letterSpacing);
+      node.lineHeight = clone(style.lineHeight);
+      autoResize();
+    }
+    node.textStyleId = id;
+  };
+  node.insertCharacters = (start: number, text: string) => {
+    node.characters = characters.slice(0, start) + text + characters.slice(start);
+  };
+  node.deleteCharacters = (start: number, end: number) => {
+    node.characters = characters.slice(0, start) + characters.slice(end);
+  };
+  // Ranges are uniform: a range read returns the node value, a range write sets it for the whole node.
+  const rangeFields: Record<string, string> = {
+    FontName: 'fontName', FontSize: 'fontSize', Fills: 'fills', TextStyleId: 'textStyleId', FillStyleId: 'fillStyleId',
+    LetterSpacing: 'letterSpacing', LineHeight: 'lineHeight', TextCase: 'textCase', TextDecoration: 'textDecoration',
+    FontWeight: 'fontWeight', Hyperlink: 'hyperlink',
+  };
+  node.hyperlink = null;
+  for (const [suffix, field] of Object.entries(rangeFields)) {
+    node[`getRange${suffix}`] = () => node[field];
+    if (field !== 'fontWeight') {
+      node[`setRange${suffix}`] = (_start: number, _end: number, value: any) => {
+        node[field] = value;
+      };
+    }
+  }
+  node.getRangeAllFontNames = () => [fontName];
+  node.getStyledTextSegments = (fields: string[]) => {
+    if (characters.length === 0) return [];
+    const segment: Record<string, any> = { characters, start: 0, end: characters.length };
+    for (const field of fields) segment[field] = node[field];
+    return [segment];
+  };
+};
+
+const componentMixin: Mixin = (node) => {
+  node.description = '';
+  node.documentationLinks = [];
+  node.key = hexId(40, Number(node.id.replace(/\D/g, '')) || 1);
+  node.remote = false;
+  node._instances = [] as FakeNode[];
+  node._propertyDefinitions = {} as Record<string, any>;
+  define(node, 'componentPropertyDefinitions', () => {
+    if (node.type === 'COMPONENT_SET') return variantDefinitions(node);
+    if (node._parent?.type === 'COMPONENT_SET') throw new Error('Can only get component property definitions of a component set or non-variant component');
+    return clone(node._propertyDefinitions);
+  });
+  if (node.type === 'COMPONENT') {
+    define(node, 'variantProperties', () => (node._parent?.type === 'COMPONENT_SET' ? parseVariantName(node.name) : null));
+    node.createInstance = () => {
+      const instance = node.figma._createNode('INSTANCE');
+      instance._mainComponent = node;
+      instance._x = node._x;
+      instance._y = node._y;
+      instance.resize(node.width, node.height);
+      instance.fills = node.fills;
+      instance.name = node.name;
+      copyInstanceChildren(instance, node);
+      node._instances.push(instance);
+      node.figma.currentPage.appendChild(instance);
+      return instance;
+    };
+    node.getInstancesAsync = async () => node._instances.filter((instance: FakeNode) => !instance._removed && instance._mainComponent === node);
+  }
+  node.addComponentProperty = (name: string, type: string, defaultValue: any) => {
+    const key = type === 'VARIANT' ? name : `${name}#${Object.keys(node._propertyDefinitions).length + 1}:0`;
+    node._propertyDefinitions[key] = { type, defaultValue };
+    return key;
+  };
+  node.editComponentProperty = (key: string, update: any) => {
+    if (!node._propertyDefinitions[key]) throw new Error(`Component property ${key} does not exist`);
+    const definition = node._propertyDefinitions[key];
+    delete node._propertyDefinitions[key];
+    const nextKey = update.name ? key.replace(/^[^#]+/, update.name) : key;
+    node._propertyDefinitions[nextKey] = { ...definition, ...update };
+    return nextKey;
+  };
+  node.deleteComponentProperty = (key: string) => {
+    if (!node._propertyDefinitions[key]) throw new Error(`Component property ${key} does not exist`);
+    delete node._propertyDefinitions[key];
+  };
+  if (node.type === 'COMPONENT_SET') {
+    define(node, 'defaultVariant', () => node._children[0] ?? null);
+  }
+};
+
+function parseVariantName(name: string): Record<string, string> {
+  const props: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const [key, value] = part.split('=').map((item) => item.trim());
+    if (key && value !== undefined) props[key] = value;
+  }
+  return props;
+}
+
+function variantDefinitions(set: FakeNode): Record<string, any> {
+  const definitions: Record<string, any> = clone(set._propertyDefinitions);
+  for (const child of set._children as FakeNode[]) {
+    for (const [key, value] of Object.entries(parseVariantName(child.name))) {
+      const definition = definitions[key] ?? { type: 'VARIANT', defaultValue: value, variantOptions: [] };
+      if (!definition.variantOptions.includes(value)) definition.variantOptions.push(value);
+      definitions[key] = definition;
+    }
+  }
+  return definitions;
+}
+
+function copyInstanceChildren(instance: FakeNode, main: FakeNode): void {
+  for (const child of main._children as FakeNode[]) {
+    const copy = cloneNode(child, null, undefined, `I${instance.id};${child.id}`);
+    copy._parent = instance;
+    instance._children.push(copy);
+  }
+}
+
+const instanceMixin: Mixin = (node) => {
+  node._mainComponent = null;
+  node._componentProperties = {} as Record<string, any>;
+  define(node, 'mainComponent', () => node._mainComponent);
+  node.getMainComponentAsync = async () => node._mainComponent;
+  define(node, 'componentProperties', () => {
+    const main = node._mainComponent;
+    const definitions = main
+      ? (main._parent?.type === 'COMPONENT_SET' ? variantDefinitions(main._parent) : main._propertyDefinitions)
+      : {};
+    const properties: Record<string, any> = {};
+    const variants = main?._parent?.type === 'COMPONENT_SET' ? parseVariantName(main.name) : {};
+    for (const [key, definition] of Object.entries<any>(definitions)) {
+      properties[key] = { type: definition.type, value: node._componentProperties[key] ?? variants[key] ?? definition.defaultValue };
+    }
+    return properties;
+  });
+  node.setProperties = (properties: Record<string, any>) => {
+    for (const [key, value] of Object.entries(properties)) {
+      const main = node._mainComponent;
+      const set = main?._parent?.type === 'COMPONENT_SET' ? main._parent : null;
+      if (set && key in variantDefinitions(set)) {
+        const wanted = { ...parseVariantName(main.name), [key]: String(value) };
+        const match = (set._children as FakeNode[]).find((variant) => {
+          const props = parseVariantName(variant.name);
+          return Object.keys(wanted).every((name) => props[name] === wanted[name]);
+        });
+        if (!match) throw new Error(`in setProperties: No variant matches ${key}=${value}`);
+        node.swapComponent(match);
+      } else {
+        node._componentProperties[key] = value;
+      }
+    }
+  };
+  node.swapComponent = (component: FakeNode) => {
+    if (!component || component.type !== 'COMPONENT') throw new Error('in swapComponent: Expected a component');
+    node._mainComponent = component;
+    component._instances.push(node);
+    for (const child of node._children) node.figma._unregister(child);
+    node._children = [];
+    copyInstanceChildren(node, component);
+  };
+  node.detachInstance = () => {
+    const frame = node.figma._createNode('FRAME');
+    copyProps(node, frame);
+    for (const child of node._children as FakeNode[]) frame.appendChild(cloneNode(child, null));
+    const parent = node._parent;
+    if (parent) parent.insertChild(parent._children.indexOf(node), frame);
+    node.remove();
+    return frame;
+  };
+  node.resetOverrides = () => {
+    node._componentProperties = {};
+  };
+  node.overrides = [];
+  node.exposedInstances = [];
+  node.isExposedInstance = false;
+  node.scaleFactor = 1;
+};
+
+const booleanMixin: Mixin = (node) => {
+  node.booleanOperation = 'UNION';
+};
+
+const textSublayerMixin: Mixin = (node) => {
+  const text: any = { characters: '', fontName: { family: 'Inter', style: 'Medium' }, fontSize: 16 };
+  node.text = text;
+  node.fills = solid(1, 0.85, 0.4);
+  if (node.type === 'SHAPE_WITH_TEXT') node.shapeType = 'SQUARE';
+  if (node.type === 'CONNECTOR') {
+    node.connectorStart = {};
+    node.connectorEnd = {};
+    node.connectorLineType = 'ELBOWED';
+    node.strokes = solid(0, 0, 0);
+  }
+};
+
+const pageMixin: Mixin = (node) => {
+  let selection: FakeNode[] = [];
+  define(node, 'selection', () => Object.freeze(selection.slice()), (nodes: FakeNode[]) => {
+    for (const item of nodes) {
+      let page: FakeNode | null = item;
+      while (page && page.type !== 'PAGE') page = page._parent;
+      if (page !== node) throw new Error(`in set_selection: Node ${item.id} is not on page ${node.id}`);
+    }
+    selection = [...nodes];
+    node.figma._emit('selectionchange');
+  });
+  node.backgrounds = deepFreeze(solid(0.96, 0.96, 0.96));
+  node.flowStartingPoints = [];
+  node.prototypeStartNode = null;
+  node.isPageDivider = false;
+  node._listeners = new Map<string, Set<Listener>>();
+  node.on = (event: string, listener: Listener) => {
+    if (!node._listeners.has(event)) node._listeners.set(event, new Set());
+    node._listeners.get(event).add(listener);
+  };
+  node.once = node.on;
+  node.off = (event: string, listener: Listener) => node._listeners.get(event)?.delete(listener);
+  node.loadAsync = async () => undefined;
+};
+
+const NODE_MIXINS: Record<string, Mixin[]> = {
+  DOCUMENT: [childrenMixin],
+  PAGE: [childrenMixin, pageMixin],
+  FRAME: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin, frameMixin, childrenMixin],
+  COMPONENT: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin, frameMixin, childrenMixin, componentMixin],
+  COMPONENT_SET: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin, frameMixin, childrenMixin, componentMixin],
+  INSTANCE: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin, frameMixin, childrenMixin, instanceMixin],
+  SECTION: [sceneMixin, layoutMixin, geometryMixin, childrenMixin],
+  GROUP: [sceneMixin, layoutMixin, blendMixin, childrenMixin],
+  BOOLEAN_OPERATION: [sceneMixin, layoutMixin, blendMixin, geometryMixin, childrenMixin, booleanMixin],
+  RECTANGLE: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin],
+  ELLIPSE: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin],
+  POLYGON: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin],
+  STAR: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin],
+  VECTOR: [sceneMixin, layoutMixin, blendMixin, geometryMixin, cornerMixin],
+  LINE: [sceneMixin, layoutMixin, blendMixin, geometryMixin],
+  TEXT: [sceneMixin, layoutMixin, blendMixin, geometryMixin, textMixin],
+  SLICE: [sceneMixin, layoutMixin],
+  STICKY: [sceneMixin, layoutMixin, blendMixin, geometryMixin, textSublayerMixin],
+  SHAPE_WITH_TEXT: [sceneMixin, layoutMixin, blendMixin, geometryMixin, textSublayerMixin],
+  CONNECTOR: [sceneMixin, layoutMixin, blendMixin, geometryMixin, textSublayerMixin],
+};
+
+// Plain data properties copied by clone(); accessors (x, fills, characters, ...) are listed explicitly.
+const COPIED_ACCESSORS = [
+  'fills', 'strokes', 'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+];
+
+function copyProps(source: FakeNode, target: FakeNode): void {
+  for (const key of Object.keys(source)) {
+    if (key.startsWith('_') || key === 'figma' || key === 'id' || key === 'type') continue;
+    const descriptor = Object.getOwnPropertyDescriptor(source, key)!;
+    if (descriptor.get || typeof descriptor.value === 'function' || !(key in target)) continue;
+    const targetDescriptor = Object.getOwnPropertyDescriptor(target, key);
+    if (targetDescriptor?.get && !targetDescriptor.set) continue;
+    target[key] = clone(descriptor.value);
+  }
+  for (const key of COPIED_ACCESSORS) {
+    if (key in source && key in target && source[key] !== MIXED) target[key] = source[key];
+  }
+  if ('_x' in source && '_x' in target) {
+    target._x = source.x;
+    target._y = source.y;
+    if (!isGroupLike(target)) {
+      target._width = source.width;
+      target._height = source.height;
+    }
+  }
+  if (source.type === 'TEXT' && target.type === 'TEXT') {
+    target.figma._withFontsLoaded(() => {
+      target.fontName = source.fontName;
+      target.fontSize = source.fontSize;
+      target.characters = source.characters;
+    });
+    target.textStyleId = source.textStyleId;
+  }
+  if (source.type === 'INSTANCE' && target.type === 'INSTANCE') {
+    target._mainComponent = source._mainComponent;
+    target._componentProperties = clone(source._componentProperties);
+    source._mainComponent?._instances.push(target);
+  }
+  if ('fillStyleId' in source && 'fillStyleId' in target) {
+    target.fillStyleId = source.fillStyleId;
+    target.strokeStyleId = source.strokeStyleId;
+  }
+}
+
+function cloneNode(source: FakeNode, parent: FakeNode | null, index?: number, id?: string): FakeNode {
+  const copy = source.figma._createNode(source.type, id);
+  copyProps(source, copy);
+  if (source._children && source.type !== 'INSTANCE') {
+    for (const child of source._children as FakeNode[]) {
+      const childCopy = cloneNode(child, null);
+      childCopy._parent = copy;
+      copy._children.push(childCopy);
+    }
+  } else if (source.type === 'INSTANCE') {
+    for (const child of source._children as FakeNode[]) {
+      const childCopy = cloneNode(child, null, undefined, `I${copy.id};${String(child.id).split(';').pop()}`);
+      childCopy._parent = copy;
+      copy._children.push(childCopy);
+    }
+  }
+  if (parent) parent.insertChild(index ?? parent._children.length, copy);
+  return copy;
+}
+
+interface FakeStyle {
+  id: string;
+  key: string;
+  type: 'PAINT' | 'TEXT' | 'EFFECT' | 'GRID';
+  name: string;
+  description: string;
+  remote: boolean;
+  [key: string]: any;
+}
+
+export class FakeFigma {
+  readonly mixed = MIXED;
+  readonly apiVersion = '1.0.0';
+  readonly editorType = 'figma';
+  readonly mode = 'default';
+  readonly command = '';
+  readonly pluginId = 'fake-plugin';
+  readonly fileKey: string | undefined;
+  readonly root: FakeNode;
+  readonly notifications: Array<{ message: string; options?: any }> = [];
+  readonly clientStorage: { getAsync(key: string): Promise<any>; setAsync(key: string, value: any): Promise<void>; deleteAsync(key: string): Promise<void>; keysAsync(): Promise<string[]> };
+  readonly ui: any;
+  readonly viewport: any;
+  readonly variables: any;
+  readonly currentUser = { id: 'user-1', name: 'Test User', photoUrl: null, color: '#18A0FB', sessionId: 1 };
+
+  private nodes = new Map<string, FakeNode>();
+  private nodeSeq = 1;
+  private pageSeq = 0;
+  private styles = new Map<string, FakeStyle>();
+  private styleSeq = 0;
+  private variableCollections = new Map<string, any>();
+  private variablesById = new Map<string, any>();
+  private variableSeq = 0;
+  private images = new Map<string, Uint8Array>();
+  private fonts: FakeFontName[];
+  private loadedFonts = new Set<string>();
+  private forceFontsLoaded = false;
+  private listeners = new Map<string, Set<Listener>>();
+  private libraryComponents: Record<string, { name: string; width?: number; height?: number }>;
+  private current: FakeNode;
+
+  constructor(options: FakeFigmaOptions = {}) {
+    this.fileKey = options.fileKey;
+    this.fonts = options.fonts ?? DEFAULT_FONTS;
+    this.libraryComponents = options.libraryComponents ?? {};
+    this.root = new FakeNode(this, 'DOCUMENT', '0:0');
+    this.root.name = 'Untitled';
+    for (const name of options.pages ?? ['Page 1']) {
+      this.createPage().name = name;
+    }
+    this.current = this.root._children[0];
+
+    const storage = new Map<string, any>();
+    this.clientStorage = {
+      getAsync: async (key) => clone(storage.get(key)),
+      setAsync: async (key, value) => {
+        storage.set(key, clone(value));
+      },
+      deleteAsync: async (key) => {
+        storage.delete(key);
+      },
+      keysAsync: async () => [...storage.keys()],
+    };
+
+    const uiListeners = new Set<Listener>();
+    this.ui = {
+      // Messages the plugin posted to its UI, oldest first.
+      messages: [] as any[],
+      onmessage: undefined as Listener | undefined,
+      visible: false,
+      postMessage: (message: any) => {
+        const copy = clone(message);
+        this.ui.messages.push(copy);
+        for (const listener of uiListeners) listener(copy);
+      },
+      on: (event: string, listener: Listener) => {
+        if (event === 'message') uiListeners.add(listener);
+      },
+      off: (event: string, listener: Listener) => {
+        if (event === 'message') uiListeners.delete(listener);
+      },
+      resize: () => undefined,
+      show: () => {
+        this.ui.visible = true;
+      },
+      hide: () => {
+        this.ui.visible = false;
+      },
+      close: () => {
+        this.ui.visible = false;
+      },
+    };
+
+    let center = { x: 0, y: 0 };
+    let zoom = 1;
+    this.viewport = {
+      get center() {
+        return { ...center };
+      },
+      set center(value: { x: number; y: number }) {
+        center = { x: value.x, y: value.y };
+      },
+      get zoom() {
+        return zoom;
+      },
+      set zoom(value: number) {
+        zoom = value;
+      },
+      get bounds() {
+        return { x: center.x - 720 / zoom, y: center.y - 450 / zoom, width: 1440 / zoom, height: 900 / zoom };
+      },
+      scrollAndZoomIntoView: (nodes: FakeNode[]) => {
+        const boxes = nodes.filter((node) => node && 'absoluteBoundingBox' in node).map((node) => node.absoluteBoundingBox);
+        if (boxes.length === 0) return;
+        const left = Math.min(...boxes.map((box) => box.x));
+        const top = Math.min(...boxes.map((box) => box.y));
+        const right = Math.max(...boxes.map((box) => box.x + box.width));
+        const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+        center = { x: (left + right) / 2, y: (top + bottom) / 2 };
+      },
+    };
+
+    this.variables = this.createVariablesApi();
+  }
+
+  get currentPage(): FakeNode {
+    return this.current;
+  }
+
+  set currentPage(_page: FakeNode) {
+    throw new Error('Setting figma.currentPage is not supported with documentAccess: dynamic-page. Use figma.setCurrentPageAsync instead.');
+  }
+
+  // ===== Events =====
+
+  on(event: string, listener: Listener): void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  once(event: string, listener: Listener): void {
+    const wrapped = (...args: any[]) => {
+      this.off(event, wrapped);
+      listener(...args);
+    };
+    this.on(event, wrapped);
+  }
+
+  off(event: string, listener: Listener): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  // Test helper: fire a figma event (currentpagechange, selectionchange, stylechange, ...).
+  _emit(event: string, ...args: any[]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) listener(...args);
+  }
+
+  _emitNodeChange(node: FakeNode): void {
+    let page: FakeNode | null = node;
+    while (page && page.type !== 'PAGE') page = page._parent;
+    const listeners = page?._listeners?.get('nodechange');
+    if (!listeners || listeners.size === 0) return;
+    const event = { nodeChanges: [{ id: node.id, type: 'PROPERTY_CHANGE', node, properties: ['parent'] }] };
+    for (const listener of [...listeners]) listener(event);
+  }
+
+  // ===== Nodes =====
+
+  _register(node: FakeNode): void {
+    this.nodes.set(node.id, node);
+  }
+
+  _unregister(node: FakeNode): void {
+    node._removed = true;
+    this.nodes.delete(node.id);
+    for (const child of node._children ?? []) this._unregister(child);
+  }
+
+  _createNode(type: string, id?: string): FakeNode {
+    return new FakeNode(this, type, id ?? `1:${this.nodeSeq++}`);
+  }
+
+  private createOnPage(type: string): FakeNode {
+    const node = this._createNode(type);
+    this.current.appendChild(node);
+    return node;
+  }
+
+  async getNodeByIdAsync(id: string): Promise<FakeNode | null> {
+    return this.nodes.get(id) ?? null;
+  }
+
+  getNodeById(_id: string): never {
+    throw new Error('Cannot call getNodeById with documentAccess: dynamic-page. Use figma.getNodeByIdAsync instead.');
+  }
+
+  async loadAllPagesAsync(): Promise<void> {
+    return undefined;
+  }
+
+  async setCurrentPageAsync(page: FakeNode): Promise<void> {
+    if (!page || page.type !== 'PAGE' || page._removed) throw new Error('in setCurrentPageAsync: Expected a page');
+    if (page === this.current) return;
+    this.current = page;
+    this._emit('currentpagechange');
+  }
+
+  createPage(): FakeNode {
+    const page = new FakeNode(this, 'PAGE', `0:${++this.pageSeq}`);
+    page.name = `Page ${this.pageSeq}`;
+    this.root.appendChild(page);
+    return page;
+  }
+
+  createFrame(): FakeNode {
+    return this.createOnPage('FRAME');
+  }
+
+  createComponent(): FakeNode {
+    return this.createOnPage('COMPONENT');
+  }
+
+  createRectangle(): FakeNode {
+    return this.createOnPage('RECTANGLE');
+  }
+
+  createEllipse(): FakeNode {
+    return this.createOnPage('ELLIPSE');
+  }
+
+  createPolygon(): FakeNode {
+    return this.createOnPage('POLYGON');
+  }
+
+  createStar(): FakeNode {
+    return this.createOnPage('STAR');
+  }
+
+  createLine(): FakeNode {
+    const line = this.createOnPage('LINE');
+    line._height = 0;
+    return line;
+  }
+
+  createVector(): FakeNode {
+    const vector = this.createOnPage('VECTOR');
+    vector.vectorPaths = [];
+    vector.vectorNetwork = { vertices: [], segments: [], regions: [] };
+    vector.setVectorNetworkAsync = async (network: any) => {
+      vector.vectorNetwork = clone(network);
+    };
+    return vector;
+  }
+
+  createText(): FakeNode {
+    const text = this.createOnPage('TEXT');
+    text._width = 0;
+    text._height = 14;
+    return text;
+  }
+
+  createSection(): FakeNode {
+    return this.createOnPage('SECTION');
+  }
+
+  createSlice(): FakeNode {
+    return this.createOnPage('SLICE');
+  }
+
+  createSticky(): FakeNode {
+    return this.createOnPage('STICKY');
+  }
+
+  createShapeWithText(): FakeNode {
+    return this.createOnPage('SHAPE_WITH_TEXT');
+  }
+
+  createConnector(): FakeNode {
+    return this.createOnPage('CONNECTOR');
+  }
+
+  createComponentFromNode(node: FakeNode): FakeNode {
+    if (!node || node.type === 'COMPONENT' || node.type === 'INSTANCE') {
+      throw new Error('in createComponentFromNode: Cannot create a component from this node');
+    }
+    const component = this._createNode('COMPONENT');
+    copyProps(node, component);
+    if (!isGroupLike(node) && node._children) {
+      for (const child of [...node._children]) component.appendChild(child);
+    } else {
+      const inner = cloneNode(node, null);
+      component.appendChild(inner);
+      inner.x = 0;
+      inner.y = 0;
+    }
+    const parent = node._parent ?? this.current;
+    parent.insertChild(parent._children.indexOf(node) >= 0 ? parent._children.indexOf(node) : parent._children.length, component);
+    node.remove();
+    return component;
+  }
+
+  combineAsVariants(components: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    if (!components.length || components.some((component) => component.type !== 'COMPONENT')) {
+      throw new Error('in combineAsVariants: Expected an array of components');
+    }
+    const set = this.wrap('COMPONENT_SET', components, parent, index);
+    set.fills = [];
+    return set;
+  }
+
+  group(nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    if (!nodes.length) throw new Error('in group: First argument must be an array of at least one node');
+    return this.wrap('GROUP', nodes, parent, index);
+  }
+
+  union(nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    return this.booleanOp('UNION', nodes, parent, index);
+  }
+
+  subtract(nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    return this.booleanOp('SUBTRACT', nodes, parent, index);
+  }
+
+  intersect(nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    return this.booleanOp('INTERSECT', nodes, parent, index);
+  }
+
+  exclude(nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    return this.booleanOp('EXCLUDE', nodes, parent, index);
+  }
+
+  flatten(nodes: FakeNode[], parent?: FakeNode, index?: number): FakeNode {
+    if (!nodes.length) throw new Error('in flatten: First argument must be an array of at least one node');
+    const target = parent ?? nodes[0]._parent ?? this.current;
+    const boxes = nodes.map((node) => ({ x: node.x, y: node.y, right: node.x + node.width, bottom: node.y + node.height }));
+    const vector = this._createNode('VECTOR');
+    vector.vectorPaths = [];
+    vector._x = Math.min(...boxes.map((box) => box.x));
+    vector._y = Math.min(...boxes.map((box) => box.y));
+    vector._width = Math.max(...boxes.map((box) => box.right)) - vector._x;
+    vector._height = Math.max(...boxes.map((box) => box.bottom)) - vector._y;
+    if ('fills' in nodes[0]) vector.fills = nodes[0].fills;
+    target.insertChild(index ?? this.insertionIndex(nodes, target), vector);
+    for (const node of nodes) node.remove();
+    return vector;
+  }
+
+  private booleanOp(operation: string, nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    if (!nodes.length) throw new Error(`in ${operation.toLowerCase()}: First argument must be an array of at least one node`);
+    const result = this.wrap('BOOLEAN_OPERATION', nodes, parent, index);
+    result.booleanOperation = operation;
+    result.name = operation.charAt(0) + operation.slice(1).toLowerCase();
+    if ('fills' in nodes[0]) result.fills = nodes[0].fills;
+    return result;
+  }
+
+  private insertionIndex(nodes: FakeNode[], parent: FakeNode): number {
+    const indices = nodes.filter((node) => node._parent === parent).map((node) => parent._children.indexOf(node));
+    return indices.length ? Math.max(...indices) + 1 : parent._children.length;
+  }
+
+  // Wraps nodes in a new container at the position of the topmost one, keeping their absolute positions.
+  private wrap(type: string, nodes: FakeNode[], parent: FakeNode, index?: number): FakeNode {
+    const container = this._createNode(type);
+    parent.insertChild(index ?? this.insertionIndex(nodes, parent), container);
+    const absolute = nodes.map((node) => node.absoluteBoundingBox);
+    if (!isGroupLike(container)) {
+      container._x = Math.min(...absolute.map((box) => box.x)) - originOf(container).x;
+      container._y = Math.min(...absolute.map((box) => box.y)) - originOf(container).y;
+      container._width = Math.max(...absolute.map((box) => box.x + box.width)) - Math.min(...absolute.map((box) => box.x));
+      container._height = Math.max(...absolute.map((box) => box.y + box.height)) - Math.min(...absolute.map((box) => box.y));
+    }
+    nodes.forEach((node, i) => {
+      container.appendChild(node);
+      const origin = originOf(node);
+      node.x = absolute[i].x - origin.x;
+      node.y = absolute[i].y - origin.y;
+    });
+    return container;
+  }
+
+  createNodeFromSvg(svg: string): FakeNode {
+    if (!/<svg[\s>]/i.test(svg)) throw new Error('in createNodeFromSvg: Failed to parse SVG');
+    const frame = this.createFrame();
+    frame.name = 'svg';
+    frame.fills = [];
+    const attr = (name: string) => svg.match(new RegExp(`<svg[^>]*\\s${name}="([\\d.]+)`, 'i'))?.[1];
+    const viewBox = svg.match(/viewBox="[\d.\s-]+\s([\d.]+)\s([\d.]+)"/i);
+    frame.resize(Number(attr('width') ?? viewBox?.[1] ?? 100), Number(attr('height') ?? viewBox?.[2] ?? 100));
+    for (const path of svg.match(/<path[^>]*\sd="[^"]*"/gi) ?? []) {
+      const vector = this._createNode('VECTOR');
+      vector.vectorPaths = [{ windingRule: 'NONZERO', data: path.match(/\sd="([^"]*)"/i)![1] }];
+      vector.resize(frame.width, frame.height);
+      frame.appendChild(vector);
+    }
+    return frame;
+  }
+
+  async importComponentByKeyAsync(key: string): Promise<FakeNode> {
+    const local = [...this.nodes.values()].find((node) => node.type === 'COMPONENT' && node.key === key);
+    if (local) return local;
+    const library = this.libraryComponents[key];
+    if (!library) throw new Error(`Could not find a published component with the key "${key}"`);
+    const component = this._createNode('COMPONENT');
+    component.name = library.name;
+    component.key = key;
+    component.remote = true;
+    component.resize(library.width ?? 100, library.height ?? 100);
+    return component;
+  }
+
+  // ===== Fonts =====
+
+  async loadFontAsync(font: FakeFontName): Promise<void> {
+    if (!font || typeof font.family !== 'string' || typeof font.style !== 'string') {
+      throw new Error('in loadFontAsync: Expected a FontName');
+    }
+    if (!this._isFontAvailable(font)) throw new Error(`The font "${font.family} ${font.style}" could not be loaded`);
+    this.loadedFonts.add(fontKey(font));
+  }
+
+  async listAvailableFontsAsync(): Promise<Array<{ fontName: FakeFontName }>> {
+    return this.fonts.map((fontName) => ({ fontName: { ...fontName } }));
+  }
+
+  _isFontAvailable(font: FakeFontName): boolean {
+    return this.fonts.some((candidate) => fontKey(candidate) === fontKey(font));
+  }
+
+  _isFontLoaded(font: FakeFontName): boolean {
+    return this.forceFontsLoaded || this.loadedFonts.has(fontKey(font));
+  }
+
+  // Internal copies (clone, detach) bypass the font check the way Figma's own duplication does.
+  _withFontsLoaded(run: () => void): void {
+    const previous = this.forceFontsLoaded;
+    this.forceFontsLoaded = true;
+    try {
+      run();
+    } finally {
+      this.forceFontsLoaded = previous;
+    }
+  }
+
+  // ===== Images and export =====
+
+  createImage(bytes: Uint8Array): { hash: string; getBytesAsync(): Promise<Uint8Array>; getSizeAsync(): Promise<{ width: number; height: number }> } {
+    if (!(bytes instanceof Uint8Array) && !ArrayBuffer.isView(bytes)) throw new Error('in createImage: Expected a Uint8Array');
+    let hash = 0x811c9dc5;
+    for (const byte of bytes) hash = Math.imul(hash ^ byte, 0x01000193) >>> 0;
+    const id = `${hash.toString(16).padStart(8, '0')}${bytes.length.toString(16).padStart(8, '0')}`.padEnd(40, '0');
+    this.images.set(id, new Uint8Array(bytes));
+    return this.getImageByHash(id)!;
+  }
+
+  async createImageAsync(url: string): Promise<never> {
+    throw new Error(`Failed to fetch image from ${url}: network access is disabled in the fake runtime`);
+  }
+
+  getImageByHash(hash: string): { hash: string; getBytesAsync(): Promise<Uint8Array>; getSizeAsync(): Promise<{ width: number; height: number }> } | null {
+    const bytes = this.images.get(hash);
+    if (!bytes) return null;
+    return {
+      hash,
+      getBytesAsync: async () => new Uint8Array(bytes),
+      getSizeAsync: async () => ({ width: 1, height: 1 }),
+    };
+  }
+
+  // Exports are deterministic stubs: SVG/JSON describe the node, raster formats return a tagged byte array.
+  _export(node: FakeNode, settings: any): any {
+    const format = settings.format ?? 'PNG';
+    if (format === 'SVG_STRING') return `<svg xmlns="http://www.w3.org/2000/svg" width="${node.width}" height="${node.height}"><!-- ${node.name} --></svg>`;
+    if (format === 'JSON_REST_V1') return { document: { id: node.id, name: node.name, type: node.type } };
+    const header = format === 'PNG' ? [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] : format === 'JPG' ? [0xff, 0xd8, 0xff] : [];
+    const text = format === 'SVG'
+      ? `<svg xmlns="http://www.w3.org/2000/svg" width="${node.width}" height="${node.height}"/>`
+      : `${format}:${node.id}:${node.width}x${node.height}`;
+    return new Uint8Array([...header, ...Buffer.from(text, 'utf8')]);
+  }
+
+  base64Encode(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('base64');
+  }
+
+  base64Decode(text: string): Uint8Array {
+    return new Uint8Array(Buffer.from(text, 'base64'));
+  }
+
+  // ===== Styles =====
+
+  private createStyle(type: FakeStyle['type'], fields: Record<string, any>): FakeStyle {
+    const seq = ++this.styleSeq;
+    const style: FakeStyle = {
+      id: `S:${hexId(40, seq)},${seq}:0`,
+      key: hexId(40, seq + 7919),
+      type,
+      name: `${type.charAt(0)}${type.slice(1).toLowerCase()} style ${seq}`,
+      description: '',
+      remote: false,
+      boundVariables: {},
+      ...fields,
+      remove: () => {
+        this.styles.delete(style.id);
+        this._emit('stylechange', { styleChanges: [{ type: 'STYLE_DELETE', id: style.id }] });
+      },
+      getPublishStatusAsync: async () => 'UNPUBLISHED',
+      setBoundVariable: (field: string, variable: any) => {
+        style.boundVariables = { ...style.boundVariables, [field]: variable ? { type: 'VARIABLE_ALIAS', id: variable.id } : undefined };
+      },
+    };
+    if (type === 'PAINT') {
+      let paints: any[] = [];
+      Object.defineProperty(style, 'paints', {
+        get: () => paints,
+        set: (value: any[]) => {
+          validatePaints(value, 'paints');
+          paints = deepFreeze(clone(value));
+        },
+        enumerable: true,
+      });
+    }
+    this.styles.set(style.id, style);
+    this._emit('stylechange', { styleChanges: [{ type: 'STYLE_CREATE', id: style.id }] });
+    return style;
+  }
+
+  createPaintStyle(): FakeStyle {
+    return this.createStyle('PAINT', {});
+  }
+
+  createTextStyle(): FakeStyle {
+    return this.createStyle('TEXT', {
+      fontName: { family: 'Inter', style: 'Regular' },
+      fontSize: 12,
+      letterSpacing: { unit: 'PERCENT', value: 0 },
+      lineHeight: { unit: 'AUTO' },
+      paragraphSpacing: 0,
+      paragraphIndent: 0,
+      textCase: 'ORIGINAL',
+      textDecoration: 'NONE',
+    });
+  }
+
+  createEffectStyle(): FakeStyle {
+    return this.createStyle('EFFECT', { effects: [] });
+  }
+
+  createGridStyle(): FakeStyle {
+    return this.createStyle('GRID', { layoutGrids: [] });
+  }
+
+  _style(id: string, type: FakeStyle['type']): FakeStyle {
+    const style = this.styles.get(id);
+    if (!style || style.type !== type) throw new Error(`Style ${id} is not a ${type.toLowerCase()} style`);
+    return style;
+  }
+
+  async getStyleByIdAsync(id: string): Promise<FakeStyle | null> {
+    return this.styles.get(id) ?? null;
+  }
+
+  getStyleById(_id: string): never {
+    throw new Error('Cannot call getStyleById with documentAccess: dynamic-page. Use figma.getStyleByIdAsync instead.');
+  }
+
+  private stylesOf(type: FakeStyle['type']): FakeStyle[] {
+    return [...this.styles.values()].filter((style) => style.type === type);
+  }
+
+  async getLocalPaintStylesAsync(): Promise<FakeStyle[]> {
+    return this.stylesOf('PAINT');
+  }
+
+  async getLocalTextStylesAsync(): Promise<FakeStyle[]> {
+    return this.stylesOf('TEXT');
+  }
+
+  async getLocalEffectStylesAsync(): Promise<FakeStyle[]> {
+    return this.stylesOf('EFFECT');
+  }
+
+  async getLocalGridStylesAsync(): Promise<FakeStyle[]> {
+    return this.stylesOf('GRID');
+  }
+
+  async importStyleByKeyAsync(key: string): Promise<FakeStyle> {
+    const style = [...this.styles.values()].find((candidate) => candidate.key === key);
+    if (!style) throw new Error(`Could not find a published style with the key "${key}"`);
+    return style;
+  }
+
+  // ===== Variables =====
+
+  _defaultModeOf(variable: any): string {
+    return this.variableCollections.get(variable.variableCollectionId)?.defaultModeId;
+  }
+
+  private createVariablesApi(): any {
+    const requireCollection = (collection: any) => {
+      const resolved = typeof collection === 'string' ? this.variableCollections.get(collection) : collection;
+      if (!resolved || !this.variableCollections.has(resolved.id)) throw new Error('in createVariable: Collection not found');
+      return resolved;
+    };
+    return {
+      getLocalVariableCollectionsAsync: async () => [...this.variableCollections.values()],
+      getLocalVariablesAsync: async (type?: string) =>
+        [...this.variablesById.values()].filter((variable) => !type || variable.resolvedType === type),
+      getVariableByIdAsync: async (id: string) => this.variablesById.get(id) ?? null,
+      getVariableCollectionByIdAsync: async (id: string) => this.variableCollections.get(id) ?? null,
+      importVariableByKeyAsync: async (key: string) => {
+        const variable = [...this.variablesById.values()].find((candidate) => candidate.key === key);
+        if (!variable) throw new Error(`Could not find a published variable with the key "${key}"`);
+        return variable;
+      },
+      createVariableCollection: (name: string) => {
+        const seq = ++this.variableSeq;
+        let modeSeq = 0;
+        const collection: any = {
+          id: `VariableCollectionId:${seq}:0`,
+          key: hexId(40, seq + 104729),
+          name,
+          remote: false,
+          hiddenFromPublishing: false,
+          modes: [{ modeId: `${seq}:${modeSeq}`, name: 'Mode 1' }],
+          variableIds: [] as string[],
+          addMode: (modeName: string) => {
+            const modeId = `${seq}:${++modeSeq}`;
+            collection.modes = [...collection.modes, { modeId, name: modeName }];
+            const fallback = collection.defaultModeId;
+            for (const id of collection.variableIds) {
+              const variable = this.variablesById.get(id);
+              variable.valuesByMode = { ...variable.valuesByMode, [modeId]: clone(variable.valuesByMode[fallback]) };
+            }
+            return modeId;
+          },
+          renameMode: (modeId: string, modeName: string) => {
+            if (!collection.modes.some((mode: any) => mode.modeId === modeId)) throw new Error(`in renameMode: Mode ${modeId} not found`);
+            collection.modes = collection.modes.map((mode: any) => (mode.modeId === modeId ? { modeId, name: modeName } : mode));
+          },
+          removeMode: (modeId: string) => {
+            if (collection.modes.length <= 1) throw new Error('in removeMode: Cannot remove the last mode');
+            collection.modes = collection.modes.filter((mode: any) => mode.modeId !== modeId);
+            if (collection.defaultModeId === modeId) collection.defaultModeId = collection.modes[0].modeId;
+          },
+          remove: () => {
+            for (const id of collection.variableIds) this.variablesById.delete(id);
+            this.variableCollections.delete(collection.id);
+          },
+        };
+        collection.defaultModeId = collection.modes[0].modeId;
+        this.variableCollections.set(collection.id, collection);
+        return collection;
+      },
+      createVariable: (name: string, collectionOrId: any, resolvedType: string) => {
+        const collection = requireCollection(collectionOrId);
+        if (!['COLOR', 'FLOAT', 'STRING', 'BOOLEAN'].includes(resolvedType)) {
+          throw new Error(`in createVariable: Invalid resolvedType ${resolvedType}`);
+        }
+        const seq = ++this.variableSeq;
+        const defaults: Record<string, any> = { COLOR: { r: 0, g: 0, b: 0, a: 1 }, FLOAT: 0, STRING: '', BOOLEAN: false };
+        const variable: any = {
+          id: `VariableID:${seq}:0`,
+          key: hexId(40, seq + 15485863),
+          name,
+          description: '',
+          resolvedType,
+          remote: false,
+          hiddenFromPublishing: false,
+          variableCollectionId: collection.id,
+          scopes: ['ALL_SCOPES'],
+          codeSyntax: {},
+          valuesByMode: {} as Record<string, any>,
+          setValueForMode: (modeId: string, value: any) => {
+            if (!collection.modes.some((mode: any) => mode.modeId === modeId)) throw new Error(`in setValueForMode: Mode ${modeId} not found`);
+            variable.valuesByMode = { ...variable.valuesByMode, [modeId]: clone(value) };
+          },
+          setVariableCodeSyntax: (platform: string, value: string) => {
+            variable.codeSyntax = { ...variable.codeSyntax, [platform]: value };
+          },
+          removeVariableCodeSyntax: (platform: string) => {
+            const next = { ...variable.codeSyntax };
+            delete next[platform];
+            variable.codeSyntax = next;
+          },
+          resolveForConsumer: () => {
+            let value = variable.valuesByMode[this._defaultModeOf(variable)];
+            for (let depth = 0; value && value.type === 'VARIABLE_ALIAS' && depth < 10; depth++) {
+              const target = this.variablesById.get(value.id);
+              value = target?.valuesByMode[this._defaultModeOf(target)];
+            }
+            return { value: clone(value), resolvedType };
+          },
+          remove: () => {
+            this.variablesById.delete(variable.id);
+            collection.variableIds = collection.variableIds.filter((id: string) => id !== variable.id);
+          },
+        };
+        for (const mode of collection.modes) variable.valuesByMode[mode.modeId] = clone(defaults[resolvedType]);
+        collection.variableIds = [...collection.variableIds, variable.id];
+        this.variablesById.set(variable.id, variable);
+        return variable;
+      },
+      createVariableAlias: (variable: any) => ({ type: 'VARIABLE_ALIAS', id: variable.id }),
+      createVariableAliasByIdAsync: async (id: string) => ({ type: 'VARIABLE_ALIAS', id }),
+      setBoundVariableForPaint: (paint: any, field: string, variable: any) => {
+        if (paint.type !== 'SOLID') throw new Error('in setBoundVariableForPaint: Only solid paints can be bound');
+        const next = clone(paint);
+        if (!variable) {
+          if (next.boundVariables) delete next.boundVariables[field];
+          return next;
+        }
+        next.boundVariables = { ...(next.boundVariables ?? {}), [field]: { type: 'VARIABLE_ALIAS', id: variable.id } };
+        const { value } = variable.resolveForConsumer();
+        if (field === 'color' && value && typeof value.r === 'number') {
+          next.color = { r: value.r, g: value.g, b: value.b };
+          if (typeof value.a === 'number') next.opacity = value.a;
+        }
+        return next;
+      },
+      setBoundVariableForEffect: (effect: any, field: string, variable: any) => ({
+        ...clone(effect),
+        boundVariables: { ...(effect.boundVariables ?? {}), [field]: variable ? { type: 'VARIABLE_ALIAS', id: variable.id } : undefined },
+      }),
+    };
+  }
+
+  // ===== Misc =====
+
+  notify(message: string, options?: any): { cancel(): void } {
+    this.notifications.push({ message, options });
+    return { cancel: () => undefined };
+  }
+
+  showUI(_html: string, options: { visible?: boolean } = {}): void {
+    this.ui.visible = options.visible !== false;
+  }
+
+  closePlugin(): void {
+    this._emit('close');
+  }
+}
+
+export function createFakeFigma(options: FakeFigmaOptions = {}): FakeFigma {
+  return new FakeFigma(options);
+}
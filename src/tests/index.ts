@@ -3,9 +3,21 @@ import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import './unit/progress-manager.test.js';
 import './unit/batch-operations.test.js';
+import './unit/resources.test.js';
+import './unit/prompts.test.js';
+import './unit/tools.test.js';
+import './unit/input-validation.test.js';
+import './unit/output-schemas.test.js';
+import './unit/exports.test.js';
+import './unit/relay-chunks.test.js';
+import './unit/color.test.js';
+import './unit/rest-bridge.test.js';
+import './unit/session-recorder.test.js';
+import './unit/plugin-handlers.test.js';
 import './integration/tools-validation.test.js';
 import './integration/performance.test.js';
 import './integration/relay-protocol.test.js';
+import './integration/plugin-pipeline.test.js';
 
 describe('Supercharged Figma MCP - Test Suite', () => {
   it('should load all test modules', () => {
@@ -0,0 +1,229 @@
+// Integration Tests for the MCP server -> relay -> plugin pipeline (spawned server, in-memory Figma)
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { EmbeddedRelay } from '../../runtime/embedded-relay.js';
+import { RelayBridge, connectPluginToRelay, loadPlugin } from '../plugin-harness.js';
+
+const TEST_HOST = '127.0.0.1';
+const SERVER_ENTRY = fileURLToPath(new URL('../../server.js', import.meta.url));
+const SESSION_FIXTURE = fileURLToPath(new URL('../../../src/tests/fixtures/sessions/boolean-undo.jsonl', import.meta.url));
+
+function runServerCli(args: string[]) {
+  return spawnSync(process.execPath, [SERVER_ENTRY, ...args], { encoding: 'utf8', timeout: 20000 });
+}
+
+async function startRelayOrSkip(t: { skip: (message?: string) => void }): Promise<EmbeddedRelay | null> {
+  const relay = new EmbeddedRelay({ host: TEST_HOST, port: 0 });
+  try {
+    await relay.start();
+    return relay;
+  } catch (err: any) {
+    if (String(err?.message || '').includes('EPERM')) {
+      t.skip('Skipping plugin pipeline tests in restricted sandbox (EPERM on listen)');
+      return null;
+    }
+    throw err;
+  }
+}
+
+function toolText(result: any): string {
+  return (result.content as Array<{ type: string; text?: string }>).map((block) => block.text ?? '').join('\n');
+}
+
+describe('Plugin Pipeline', () => {
+  let relay: EmbeddedRelay | null = null;
+  let bridge: RelayBridge | null = null;
+  let client: Client | null = null;
+  let stateDir: string | null = null;
+
+  afterEach(async () => {
+    await client?.close();
+    await bridge?.close();
+    await relay?.stop();
+    if (stateDir) rmSync(stateDir, { recursive: true, force: true });
+    client = null;
+    bridge = null;
+    relay = null;
+    stateDir = null;
+  });
+
+  // Relay + in-memory plugin + spawned server, with the MCP client connected to the plugin's channel.
+  async function startPipeline(t: { skip: (message?: string) => void }) {
+    relay = await startRelayOrSkip(t);
+    if (!relay) return null;
+    const relayUrl = relay.getWebSocketUrl();
+
+    const plugin = loadPlugin();
+    bridge = await connectPluginToRelay(plugin, relayUrl);
+
+    // Isolate the server's persisted last-connection file from the developer's machine.
+    stateDir = mkdtempSync(join(tmpdir(), 'figma-mcp-pipeline-'));
+    client = new Client({ name: 'plugin-pipeline-test', version: '1.0.0' });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: [SERVER_ENTRY, '--remote', relayUrl],
+      env: { ...process.env, TMPDIR: stateDir, TEMP: stateDir, TMP: stateDir } as Record<string, string>,
+      stderr: 'ignore',
+    }));
+
+    // Listing tools first makes the client validate every structuredContent against the tool's outputSchema.
+    await client.listTools();
+    const connected = await client.callTool({ name: 'connect_to_relay', arguments: { relayUrl, channelCode: bridge.channel } });
+    assert.ok(!connected.isError, toolText(connected));
+    assert.strictEqual((connected.structuredContent as any).connected, true);
+    return { plugin, client };
+  }
+
+  it('routes MCP tool calls through the relay into the plugin and back', { timeout: 30000 }, async (t) => {
+    const pipeline = await startPipeline(t);
+    if (!pipeline) return;
+    const { plugin, client } = pipeline;
+
+    const created = await client.callTool({
+      name: 'batch_create',
+      arguments: {
+        operations: [
+          { type: 'frame', params: { name: 'Pipeline Frame', width: 320, height: 200 } },
+          { type: 'rectangle', params: { name: 'Pipeline Rect', x: 16, y: 16, width: 64, height: 64 } },
+        ],
+      },
+    });
+    assert.ok(!created.isError, toolText(created));
+    const result = JSON.parse(toolText(created));
+    assert.strictEqual(result.success, 2);
+    assert.deepStrictEqual(created.structuredContent, result);
+    assert.deepStrictEqual(
+      plugin.figma.currentPage.children.map((node: any) => node.name),
+      ['Pipeline Frame', 'Pipeline Rect']
+    );
+
+    const frame = await client.callTool({ name: 'get_node_info', arguments: { nodeId: result.createdIds[0] } });
+    assert.strictEqual((frame.structuredContent as any).name, 'Pipeline Frame');
+
+    // Plugin errors come back as MCP errors rather than hanging the request.
+    await assert.rejects(
+      client.callTool({ name: 'union_nodes', arguments: { nodeIds: [result.createdIds[0]] } }),
+      /Need at least 2 nodes/
+    );
+
+    // Schema violations are rejected by the server before anything reaches the plugin.
+    await assert.rejects(
+      client.callTool({ name: 'batch_create', arguments: { operations: [{ type: 'frame', params: 'wide' }], chunkSize: '10' } }),
+      (error: Error) => {
+        assert.match(error.message, /"code": "E_INVALID_INPUT"/);
+        assert.match(error.message, /operations\[0\]\.params must be object/);
+        assert.doesNotMatch(error.message, /chunkSize/);
+        return true;
+      }
+    );
+    assert.strictEqual(plugin.figma.currentPage.children.length, 2);
+  });
+
+  it('reports rising overall progress across the stages of a batch tool', { timeout: 30000 }, async (t) => {
+    const pipeline = await startPipeline(t);
+    if (!pipeline) return;
+    const { plugin, client } = pipeline;
+    const screen = plugin.figma.createFrame();
+    screen.resize(400, 400);
+    for (let i = 0; i < 3; i++) {
+      const card = plugin.figma.createFrame();
+      card.name = `Card ${i}`;
+      card.y = i * 80;
+      card.appendChild(plugin.figma.createRectangle());
+      screen.appendChild(card);
+    }
+    // The SDK client handles a notification a microtask after reading it but a response at once, so progress read in
+    // the same chunk as the response is dropped. Hold the plugin's reply back until the notifications are through.
+    const postMessage = plugin.figma.ui.postMessage;
+    plugin.figma.ui.postMessage = (message: any) => {
+      if (message.type !== 'response') return postMessage(message);
+      setTimeout(() => postMessage(message), 200);
+    };
+
+    const updates: Array<{ progress: number; total?: number }> = [];
+    const result = await client.callTool(
+      { name: 'frame_to_components', arguments: { frameId: screen.id, strategy: 'all_children' } },
+      undefined,
+      { onprogress: (progress) => updates.push(progress) }
+    );
+    assert.ok(!result.isError, toolText(result));
+    assert.strictEqual(JSON.parse(toolText(result)).componentsCreated, 3);
+
+    // Each stage restarts its item count; the forwarded value is the weighted overall percentage.
+    const values = updates.map((update) => update.progress);
+    assert.ok(values.length >= 5, `expected one update per stage and item, got ${JSON.stringify(values)}`);
+    assert.ok(values.every((value, index) => index === 0 || value > values[index - 1]), `not increasing: ${JSON.stringify(values)}`);
+    assert.ok(updates.every((update) => update.total === 100));
+    assert.strictEqual(values[values.length - 1], 100);
+  });
+
+  it('cancels a plain plugin call when the client aborts it', { timeout: 30000 }, async (t) => {
+    const pipeline = await startPipeline(t);
+    if (!pipeline) return;
+    const { plugin, client } = pipeline;
+    const received: any[] = [];
+    const onmessage = plugin.figma.ui.onmessage;
+    plugin.figma.ui.onmessage = (message: any) => {
+      if (message.type === 'relay-message') received.push(message.payload);
+      return onmessage?.(message);
+    };
+
+    // Hold the lookup open so the call is still in flight when the client gives up on it.
+    let arrived!: () => void;
+    let release!: (node: null) => void;
+    const inFlight = new Promise<void>((resolve) => { arrived = resolve; });
+    const getNodeByIdAsync = plugin.figma.getNodeByIdAsync;
+    plugin.figma.getNodeByIdAsync = () => {
+      arrived();
+      return new Promise((resolve) => { release = resolve; });
+    };
+
+    const controller = new AbortController();
+    const call = client.callTool({ name: 'get_node_info', arguments: { nodeId: '1:1' } }, undefined, { signal: controller.signal });
+    await inFlight;
+    controller.abort();
+    await assert.rejects(call);
+
+    const request = received.find((message) => message.type === 'get_node_info');
+    assert.ok(request, 'get_node_info reached the plugin');
+    const deadline = Date.now() + 5000;
+    while (!received.some((message) => message.type === 'cancel') && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const cancel = received.find((message) => message.type === 'cancel');
+    assert.ok(cancel, 'the plugin was asked to cancel');
+    assert.strictEqual(cancel.payload.operationId, request.id);
+
+    // The server keeps serving calls afterwards.
+    plugin.figma.getNodeByIdAsync = getNodeByIdAsync;
+    release(null);
+    const selection = await client.callTool({ name: 'get_selection', arguments: {} });
+    assert.ok(!selection.isError, toolText(selection));
+  });
+});
+
+describe('Replay CLI', () => {
+  it('prints usage for --help and exits 0', () => {
+    const help = runServerCli(['replay', '--help']);
+    assert.strictEqual(help.status, 0);
+    assert.match(help.stderr, /Usage:\n {2}supercharged-figma-mcp replay <file\.jsonl>/);
+    assert.strictEqual(runServerCli(['replay']).status, 1);
+  });
+
+  it('replays against a relay by default and the in-memory Figma on request', { timeout: 30000 }, () => {
+    const relay = runServerCli(['replay', SESSION_FIXTURE]);
+    assert.strictEqual(relay.status, 1);
+    assert.match(relay.stderr, /requires --channel <code>/);
+
+    const fake = runServerCli(['replay', SESSION_FIXTURE, '--target', 'fake']);
+    assert.strictEqual(fake.status, 0, fake.stdout + fake.stderr);
+    assert.match(fake.stderr, /Replayed 4\/4 calls: 4 matched/);
+  });
+});
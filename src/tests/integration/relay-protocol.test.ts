@@ -2,6 +2,7 @@ import { afterEach, describe, it } from 'node:test';
 import assert from 'node:assert';
 import WebSocket from 'ws';
 import { EmbeddedRelay } from '../../runtime/embedded-relay.js';
+import { RelayChunkAssembler, encodeRelayFrames, isRelayChunk } from '../../relay-chunks.js';
 
 const TEST_HOST = '127.0.0.1';
 
@@ -201,4 +202,41 @@ describe('Relay Protocol Compatibility', () => {
     assert.strictEqual(msg.event, 'figma_disconnected');
     assert.strictEqual(msg.channel, channel);
   });
+
+  it('forwards chunk frames untouched so clients can reassemble large replies', async (t) => {
+    relay = await startRelayOrSkip(t);
+    if (!relay) return;
+    const relayUrl = relay.getWebSocketUrl();
+
+    figmaWs = createTestWebSocket(`${relayUrl}?type=figma`);
+    const figmaConnectedMsgPromise = waitForMessage(figmaWs);
+    await waitForOpen(figmaWs);
+    const channel = (await figmaConnectedMsgPromise).channel;
+
+    clientWs = createTestWebSocket(`${relayUrl}?type=client&channel=${channel}`);
+    const clientConnectedPromise = waitForMessage(clientWs);
+    await waitForOpen(clientWs);
+    await clientConnectedPromise;
+
+    const response = { id: 'req-big', result: { nodes: Array.from({ length: 200 }, (_, i) => ({ id: `1:${i}`, name: `Node ${i}` })) } };
+    const frames = encodeRelayFrames(response, 'stream-1', 2048);
+    assert.ok(frames.length > 1);
+
+    const errors: Error[] = [];
+    const assembler = new RelayChunkAssembler((error) => errors.push(error));
+    const reassembled = new Promise<any>((resolve) => {
+      clientWs!.on('message', (data) => {
+        const frame = JSON.parse(data.toString('utf8'));
+        if (!isRelayChunk(frame)) return;
+        const message = assembler.accept(frame);
+        if (message) resolve(message);
+      });
+    });
+    for (const frame of frames) {
+      figmaWs.send(frame);
+    }
+
+    assert.deepStrictEqual(await reassembled, response);
+    assert.deepStrictEqual(errors, []);
+  });
 });
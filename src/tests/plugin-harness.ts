@@ -0,0 +1,142 @@
+// Plugin Harness - 在 vm 沙箱中加载 figma-plugin/code.js，直接调用处理器或模拟 UI 接入 relay
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import vm from 'node:vm';
+import WebSocket from 'ws';
+import { RelayChunkAssembler, encodeRelayFrames, isRelayChunk } from '../relay-chunks.js';
+import type { PluginMessage } from '../types.js';
+import { FakeFigma, FakeFigmaOptions, createFakeFigma } from './fake-figma.js';
+
+const PLUGIN_SOURCE_URL = new URL('../../figma-plugin/code.js', import.meta.url);
+
+let cachedScript: vm.Script | null = null;
+
+function pluginScript(): vm.Script {
+  if (!cachedScript) {
+    const path = fileURLToPath(PLUGIN_SOURCE_URL);
+    cachedScript = new vm.Script(readFileSync(path, 'utf8'), { filename: path });
+  }
+  return cachedScript;
+}
+
+export interface LoadedPlugin {
+  figma: FakeFigma;
+  // Runs one tool through the plugin's handleMessage, like a relay-message would.
+  call<T = any>(type: string, payload?: Record<string, any>): Promise<T>;
+  // Same, for a complete relay message (keeps its id, which the journal uses as the operation id).
+  dispatch<T = any>(message: PluginMessage): Promise<T>;
+  // Plugin console output, kept quiet unless a test inspects it.
+  logs: Array<{ level: string; args: any[] }>;
+}
+
+export interface LoadPluginOptions extends FakeFigmaOptions {
+  figma?: FakeFigma;
+}
+
+let callSeq = 0;
+
+export function loadPlugin(options: LoadPluginOptions = {}): LoadedPlugin {
+  const figma = options.figma ?? createFakeFigma(options);
+  const logs: LoadedPlugin['logs'] = [];
+  const record = (level: string) => (...args: any[]) => {
+    logs.push({ level, args });
+  };
+  const context = vm.createContext({
+    figma,
+    __html__: '<html></html>',
+    console: { log: record('log'), info: record('info'), warn: record('warn'), error: record('error'), debug: record('debug') },
+    setTimeout,
+    clearTimeout,
+    setInterval,
+    clearInterval,
+    fetch: async () => {
+      throw new Error('Network access is disabled in the plugin harness');
+    },
+  });
+  pluginScript().runInContext(context);
+
+  const dispatch = async (message: PluginMessage) => {
+    let result: any;
+    try {
+      result = await context.handleMessage(message);
+    } catch (error: any) {
+      // Errors thrown inside the sandbox come from another realm; rethrow as host errors for assert.rejects.
+      throw new Error(error?.message ?? String(error));
+    }
+    return result === undefined ? result : JSON.parse(JSON.stringify(result));
+  };
+
+  return {
+    figma,
+    logs,
+    dispatch,
+    call: (type, payload = {}) => dispatch({ type, id: `harness-${++callSeq}`, payload }),
+  };
+}
+
+export interface RelayBridge {
+  channel: string;
+  close(): Promise<void>;
+}
+
+// Plays the plugin UI: joins the relay as the Figma side and shuttles messages to and from figma.ui.
+export async function connectPluginToRelay(plugin: LoadedPlugin, relayUrl: string, timeoutMs = 5000): Promise<RelayBridge> {
+  const { figma } = plugin;
+  const sessionId = `harness-session-${++callSeq}`;
+  const ws = new WebSocket(`${relayUrl}?type=figma`);
+  ws.on('error', () => {});
+  let streamSeq = 0;
+  const assembler = new RelayChunkAssembler(() => {});
+
+  const forward = (message: any) => {
+    if ((message.type !== 'response' && message.type !== 'plugin_event') || ws.readyState !== WebSocket.OPEN) return;
+    for (const frame of encodeRelayFrames(message.payload, `figma-harness-${++streamSeq}`)) ws.send(frame);
+  };
+  figma.ui.on('message', forward);
+
+  const channel = await new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Relay did not assign a channel within ${timeoutMs}ms`)), timeoutMs);
+    ws.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    ws.on('message', (data) => {
+      let message = JSON.parse(data.toString('utf8'));
+      if (isRelayChunk(message)) {
+        message = assembler.accept(message);
+        if (!message) return;
+      }
+      if (message.type === 'system') {
+        if (message.event === 'connected') {
+          clearTimeout(timer);
+          figma.ui.onmessage?.({ type: 'relay-connected', channel: message.channel, sessionId });
+          resolve(message.channel);
+        }
+        return;
+      }
+      if (message.type === 'progress_update' || message.type === 'progress_complete') return;
+      figma.ui.onmessage?.({ type: 'relay-message', sessionId, payload: message });
+    });
+  });
+
+  return {
+    channel,
+    async close() {
+      figma.ui.off('message', forward);
+      assembler.clear();
+      if (ws.readyState === WebSocket.CLOSED) return;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          ws.terminate();
+          resolve();
+        }, 2000);
+        ws.once('close', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        ws.close();
+      });
+      figma.ui.onmessage?.({ type: 'relay-disconnected', sessionId });
+    },
+  };
+}
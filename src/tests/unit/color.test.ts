@@ -0,0 +1,100 @@
+// Unit Tests for Color Science
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  clusterColors,
+  colorFamily,
+  deltaE2000,
+  hslToRgb,
+  labToRgb,
+  matchesColorName,
+  nameColor,
+  oklchToRgb,
+  parseColor,
+  rgbToHex,
+  rgbToHsl,
+  rgbToLab,
+  rgbToOklch,
+} from '../../color.js';
+
+const hex = (value: string) => parseColor(value)!;
+
+function assertClose(actual: number, expected: number, tolerance: number, label?: string) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${label ?? 'value'}: expected ${expected}, got ${actual}`);
+}
+
+describe('Color Science', () => {
+  it('should parse hex and rgb() strings', () => {
+    assert.deepStrictEqual(parseColor('#fff'), { r: 1, g: 1, b: 1 });
+    assert.strictEqual(rgbToHex(hex('#3366ffcc')), '#3366FF');
+    assert.strictEqual(rgbToHex(parseColor('rgba(255, 0, 0, 0.5)')!), '#FF0000');
+    assert.strictEqual(parseColor('tomato'), null);
+  });
+
+  it('should round-trip through HSL, CIELAB and OKLCH', () => {
+    for (const value of ['#3366FF', '#E53935', '#2E7D32', '#FFC107', '#7F7F7F']) {
+      assert.strictEqual(rgbToHex(hslToRgb(rgbToHsl(hex(value)))), value);
+      assert.strictEqual(rgbToHex(labToRgb(rgbToLab(hex(value)))), value);
+      assert.strictEqual(rgbToHex(oklchToRgb(rgbToOklch(hex(value)))), value);
+    }
+    const lab = rgbToLab(hex('#FF0000'));
+    assertClose(lab.l, 53.24, 0.05, 'L*');
+    assertClose(lab.a, 80.09, 0.05, 'a*');
+    const oklch = rgbToOklch(hex('#FF0000'));
+    assertClose(oklch.l, 0.628, 0.001, 'OKLCH l');
+    assertClose(oklch.h, 29.23, 0.05, 'OKLCH h');
+  });
+
+  it('should compute CIEDE2000 differences', () => {
+    assert.strictEqual(deltaE2000(hex('#3366FF'), hex('#3366FF')), 0);
+    assertClose(deltaE2000(hex('#FFFFFF'), hex('#000000')), 100, 0.01);
+    assert.ok(deltaE2000(hex('#3366FF'), hex('#3467FE')) < 1, 'near-identical blues are imperceptible');
+    assert.ok(deltaE2000(hex('#3366FF'), hex('#FF6633')) > 50);
+    assertClose(deltaE2000(hex('#3366FF'), hex('#FF6633')), deltaE2000(hex('#FF6633'), hex('#3366FF')), 1e-9);
+  });
+
+  it('should name colors by perceptual family', () => {
+    assert.strictEqual(colorFamily(hex('#E53935')), 'red');
+    assert.strictEqual(colorFamily(hex('#FF9800')), 'orange');
+    assert.strictEqual(colorFamily(hex('#795548')), 'brown');
+    assert.strictEqual(colorFamily(hex('#FFEB3B')), 'yellow');
+    assert.strictEqual(colorFamily(hex('#4CAF50')), 'green');
+    assert.strictEqual(colorFamily(hex('#00BCD4')), 'cyan');
+    assert.strictEqual(colorFamily(hex('#1E88E5')), 'blue');
+    assert.strictEqual(colorFamily(hex('#8E24AA')), 'purple');
+    assert.strictEqual(colorFamily(hex('#EC407A')), 'pink');
+    assert.strictEqual(colorFamily(hex('#9E9E9E')), 'gray');
+    assert.strictEqual(nameColor(hex('#0D47A1')), 'dark blue');
+    assert.strictEqual(nameColor(hex('#BBDEFB')), 'light blue');
+    assert.strictEqual(nameColor(hex('#111111')), 'black');
+  });
+
+  it('should match color queries by family, alias and hex', () => {
+    assert.ok(matchesColorName(hex('#1E88E5'), 'blue'));
+    assert.ok(matchesColorName(hex('#1E88E5'), 'Blues'));
+    assert.ok(matchesColorName(hex('#1E88E5'), '蓝色'));
+    assert.ok(!matchesColorName(hex('#1E88E5'), 'red'));
+    assert.ok(matchesColorName(hex('#1E88E5'), '#1F89E6'));
+    assert.ok(!matchesColorName(hex('#1E88E5'), '#E53935'));
+  });
+
+  it('should cluster near-duplicates and cap the palette size', () => {
+    const samples = [
+      { color: hex('#3366FF'), weight: 5, id: 'a' },
+      { color: hex('#3467FE'), weight: 1, id: 'b' },
+      { color: hex('#E53935'), weight: 3, id: 'c' },
+      { color: hex('#E63A36'), weight: 1, id: 'd' },
+      { color: hex('#FFFFFF'), weight: 2, id: 'e' },
+    ];
+    const palette = clusterColors(samples, 3);
+    assert.deepStrictEqual(palette.map((entry) => entry.hex), ['#3366FF', '#E53935', '#FFFFFF']);
+    assert.deepStrictEqual(palette[0].members, ['#3366FF', '#3467FE']);
+    assert.deepStrictEqual(palette[0].ids, ['a', 'b']);
+    assert.strictEqual(palette[0].name, 'blue');
+    assertClose(palette.reduce((sum, entry) => sum + entry.share, 0), 1, 0.01);
+
+    const capped = clusterColors(samples, 3, 2);
+    assert.strictEqual(capped.length, 2);
+    assert.strictEqual(capped[0].weight + capped[1].weight, 12);
+  });
+});
@@ -0,0 +1,88 @@
+// Unit Tests for Export Content
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mkdir, mkdtemp, readFile, rm, symlink } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { exportContentBlock, exportFileName, exportMimeType, resolveExportDir, writeExportFile } from '../../exports.js';
+
+const PNG_BASE64 = Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64');
+const SVG_TEXT = '<svg xmlns="http://www.w3.org/2000/svg"/>';
+
+describe('Export Content', () => {
+  it('should map formats to MIME types', () => {
+    assert.strictEqual(exportMimeType('PNG'), 'image/png');
+    assert.strictEqual(exportMimeType('jpg'), 'image/jpeg');
+    assert.strictEqual(exportMimeType('SVG'), 'image/svg+xml');
+    assert.strictEqual(exportMimeType('PDF'), 'application/pdf');
+    assert.throws(() => exportMimeType('GIF'), /Unsupported export format/);
+  });
+
+  it('should build file-system safe names', () => {
+    assert.strictEqual(exportFileName({ nodeId: '12:34', format: 'PNG' }), '12-34.png');
+    assert.strictEqual(exportFileName({ nodeId: 'I1:2;3:4', format: 'SVG', suffix: '@2x' }), 'I1-2-3-4-2x.svg');
+    assert.strictEqual(exportFileName({ mode: 'region', format: 'PNG' }), 'capture-region.png');
+    assert.strictEqual(exportFileName({ nodeId: '12:34', format: 'PNG', scale: 1 }), '12-34.png');
+    assert.strictEqual(exportFileName({ nodeId: '12:34', format: 'PNG', scale: 2 }), '12-34@2x.png');
+    assert.strictEqual(exportFileName({ nodeId: '12:34', format: 'PNG', scale: 0.5, suffix: '-thumb' }), '12-34-thumb@0.5x.png');
+  });
+
+  it('should return image blocks for raster formats', () => {
+    assert.deepStrictEqual(exportContentBlock({ nodeId: '1:2', format: 'PNG' }, PNG_BASE64), {
+      type: 'image',
+      data: PNG_BASE64,
+      mimeType: 'image/png',
+    });
+    assert.strictEqual(exportContentBlock({ nodeId: '1:2', format: 'JPG' }, PNG_BASE64).type, 'image');
+  });
+
+  it('should return embedded resources for SVG and PDF', () => {
+    const svg = exportContentBlock({ nodeId: '1:2', format: 'SVG' }, Buffer.from(SVG_TEXT).toString('base64'));
+    assert.deepStrictEqual(svg, {
+      type: 'resource',
+      resource: { uri: 'figma://export/1-2.svg', mimeType: 'image/svg+xml', text: SVG_TEXT },
+    });
+
+    const pdf = exportContentBlock({ nodeId: '1:2', format: 'PDF', path: '/tmp/out/1-2.pdf' }, PNG_BASE64);
+    assert.strictEqual(pdf.type, 'resource');
+    if (pdf.type === 'resource') {
+      assert.strictEqual(pdf.resource.uri, 'file:///tmp/out/1-2.pdf');
+      assert.strictEqual((pdf.resource as { blob?: string }).blob, PNG_BASE64);
+    }
+  });
+
+  it('should write decoded bytes to outputDir', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'figma-export-'));
+    try {
+      const filePath = await writeExportFile(dir, path.join(dir, 'nested'), { nodeId: '5:6', format: 'PNG' }, PNG_BASE64);
+      assert.strictEqual(filePath, path.join(dir, 'nested', '5-6.png'));
+      assert.deepStrictEqual([...await readFile(filePath)], [0x89, 0x50, 0x4e, 0x47]);
+      assert.strictEqual(await writeExportFile(dir, 'relative', { nodeId: '5:6', format: 'PNG' }, PNG_BASE64), path.join(dir, 'relative', '5-6.png'));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep outputDir inside the export root', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'figma-export-'));
+    const root = path.join(dir, 'root');
+    try {
+      assert.strictEqual(resolveExportDir(root, 'a/b'), path.join(root, 'a', 'b'));
+      assert.strictEqual(resolveExportDir(root, root), root);
+      assert.strictEqual(resolveExportDir(root, '..assets'), path.join(root, '..assets'));
+      assert.strictEqual(resolveExportDir(root, path.join('a', '..', '..b')), path.join(root, '..b'));
+      for (const outside of ['..', '../root-sibling', '/etc', path.join(root, '..', 'x')]) {
+        assert.throws(() => resolveExportDir(root, outside), /must be inside the export root/, outside);
+      }
+
+      await mkdir(root, { recursive: true });
+      await symlink(dir, path.join(root, 'escape'));
+      await assert.rejects(writeExportFile(root, 'escape/out', { nodeId: '5:6', format: 'PNG' }, PNG_BASE64), /resolves outside it/);
+      await assert.rejects(readFile(path.join(dir, 'out')), /ENOENT/);
+      const written = await writeExportFile(root, '..assets', { nodeId: '5:6', format: 'PNG' }, PNG_BASE64);
+      assert.strictEqual(written, path.join(root, '..assets', '5-6.png'));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
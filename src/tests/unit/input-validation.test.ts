@@ -0,0 +1,67 @@
+// Unit Tests for Input Validation
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MAX_VALIDATION_ISSUES, describeIssues, validateToolInput } from '../../input-validation.js';
+import { getToolDefinition } from '../../tools.js';
+
+function schemaOf(name: string) {
+  const tool = getToolDefinition(name);
+  assert.ok(tool, `Missing tool ${name}`);
+  return tool.inputSchema;
+}
+
+describe('Input Validation', () => {
+  it('should report exact paths for nested type, enum, range and required errors', () => {
+    const { issues } = validateToolInput(schemaOf('set_effects'), {
+      nodeId: '1:2',
+      effects: [
+        { type: 'DROP_SHADOW', radius: 4 },
+        { type: 'GLOW', radius: 'large' },
+      ],
+    });
+    assert.deepStrictEqual(issues, [
+      {
+        path: 'effects[1].type',
+        message: 'must be one of: INNER_SHADOW, DROP_SHADOW, LAYER_BLUR, BACKGROUND_BLUR',
+        expected: 'INNER_SHADOW | DROP_SHADOW | LAYER_BLUR | BACKGROUND_BLUR',
+        received: '"GLOW"',
+      },
+      { path: 'effects[1].radius', message: 'must be number', expected: 'number', received: 'string' },
+    ]);
+
+    const modify = validateToolInput(schemaOf('batch_modify'), { operations: [{ nodeId: '1:2', changes: {} }, { nodeId: 7, changes: [] }] });
+    assert.strictEqual(describeIssues(modify.issues), 'operations[1].nodeId must be string; operations[1].changes must be object');
+
+    const status = validateToolInput(schemaOf('get_connection_status'), { debugLimit: 500 });
+    assert.deepStrictEqual(status.issues, [{ path: 'debugLimit', message: 'must be <= 200' }]);
+    assert.deepStrictEqual(validateToolInput(schemaOf('smart_select'), {}).issues, [{ path: 'query', message: 'is required' }]);
+  });
+
+  it('should coerce boolean and numeric strings and leave other values alone', () => {
+    const result = validateToolInput(schemaOf('batch_delete'), { nodeIds: ['1:2', '3'], confirm: 'true', dryRun: 'false' });
+    assert.deepStrictEqual(result.issues, []);
+    assert.deepStrictEqual(result.value, { nodeIds: ['1:2', '3'], confirm: true, dryRun: false });
+    assert.deepStrictEqual(result.coercions.map((coercion) => coercion.path), ['confirm', 'dryRun']);
+
+    const ellipse = { x: '0', y: '-8.5', width: ' 320 ', height: '1e2', name: '42', customKey: 'kept' };
+    const numeric = validateToolInput(schemaOf('create_ellipse'), ellipse);
+    assert.deepStrictEqual(numeric.issues, []);
+    assert.deepStrictEqual(numeric.value, { x: 0, y: -8.5, width: 320, height: 100, name: '42', customKey: 'kept' });
+
+    for (const width of ['12px', '', 'NaN', 'Infinity']) {
+      const issues = validateToolInput(schemaOf('create_ellipse'), { ...ellipse, width }).issues;
+      assert.deepStrictEqual(issues.map((issue) => issue.path), ['width'], `${JSON.stringify(width)} should not coerce`);
+    }
+    assert.deepStrictEqual(validateToolInput(schemaOf('batch_delete'), { nodeIds: ['1:2'], confirm: 'yes' }).issues[0].path, 'confirm');
+  });
+
+  it('should reject non-object arguments and cap the number of issues', () => {
+    assert.deepStrictEqual(validateToolInput(schemaOf('batch_delete'), ['1:2']).issues, [
+      { path: '(arguments)', message: 'must be object', expected: 'object', received: 'array' },
+    ]);
+    assert.deepStrictEqual(validateToolInput(schemaOf('get_selection'), undefined).issues, []);
+
+    const operations = Array.from({ length: 50 }, () => ({ type: 'rectangle', params: 'x' }));
+    assert.strictEqual(validateToolInput(schemaOf('batch_create'), { operations }).issues.length, MAX_VALIDATION_ISSUES);
+  });
+});
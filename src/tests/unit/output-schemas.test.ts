@@ -0,0 +1,121 @@
+// Unit Tests for Output Schemas (validated against real plugin responses on the in-memory Figma runtime)
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { structuredResult, toStructuredContent, toolResult } from '../../output-schemas.js';
+import { getToolDefinition } from '../../tools.js';
+import { LoadedPlugin, loadPlugin } from '../plugin-harness.js';
+
+// The validator MCP clients use for structuredContent.
+const validator = new AjvJsonSchemaValidator();
+
+async function assertConforms(plugin: LoadedPlugin, tool: string, payload: Record<string, any>): Promise<any> {
+  const definition = getToolDefinition(tool);
+  assert.ok(definition, `Missing tool ${tool}`);
+  assert.ok(definition.outputSchema, `${tool} should declare an outputSchema`);
+  const result = await plugin.call(tool, payload);
+  const { structuredContent } = structuredResult(result);
+  const check = validator.getValidator(definition.outputSchema as any)(structuredContent);
+  assert.ok(check.valid, `${tool}: ${check.errorMessage}\n${JSON.stringify(result, null, 2)}`);
+  return result;
+}
+
+function buildScreen(plugin: LoadedPlugin) {
+  const { figma } = plugin;
+  const screen = figma.createFrame();
+  screen.name = 'Screen';
+  screen.resize(480, 320);
+  for (let index = 0; index < 3; index++) {
+    const card = figma.createFrame();
+    card.name = 'Card';
+    card.resize(120, 80);
+    card.x = 10 + index * 150;
+    card.appendChild(figma.createRectangle());
+    screen.appendChild(card);
+  }
+  const label = figma.createText();
+  label.name = 'Title';
+  screen.appendChild(label);
+  return screen;
+}
+
+describe('Output Schemas', () => {
+  it('should describe node info for frames, text, instances and variants', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const screen = buildScreen(plugin);
+
+    const frame = await assertConforms(plugin, 'get_node_info', { nodeId: screen.id });
+    assert.strictEqual(frame.children.length, 4);
+    await assertConforms(plugin, 'get_node_info', { nodeId: screen.children[3].id });
+
+    const primary = figma.createComponent();
+    primary.name = 'State=Primary';
+    const secondary = figma.createComponent();
+    secondary.name = 'State=Secondary';
+    figma.combineAsVariants([primary, secondary], figma.currentPage);
+    const variant = await assertConforms(plugin, 'get_node_info', { nodeId: primary.id });
+    assert.deepStrictEqual(variant.variantProperties, { State: 'Primary' });
+
+    const instance = primary.createInstance();
+    const info = await assertConforms(plugin, 'get_node_info', { nodeId: instance.id });
+    assert.strictEqual(info.mainComponent.id, primary.id);
+
+    figma.currentPage.selection = [screen, instance];
+    const selection = await assertConforms(plugin, 'get_selection', {});
+    assert.deepStrictEqual(selection.nodeIds, [screen.id, instance.id]);
+  });
+
+  it('should describe duplicate and frame structure analysis', async () => {
+    const plugin = loadPlugin();
+    const screen = buildScreen(plugin);
+
+    const duplicates = await assertConforms(plugin, 'analyze_duplicates', {});
+    assert.ok(duplicates.duplicates.length > 0);
+
+    const structure = await assertConforms(plugin, 'analyze_frame_structure', { frameId: screen.id });
+    assert.strictEqual(structure.duplicateGroups[0].count, 3);
+    assert.strictEqual(structure.recommendations[0].type, 'merge_duplicates');
+  });
+
+  it('should describe batch results, atomic rollbacks and dry-run plans', async () => {
+    const plugin = loadPlugin();
+    const card = plugin.figma.createFrame();
+
+    const created = await assertConforms(plugin, 'batch_create', {
+      operations: [
+        { type: 'frame', params: { name: 'Row', parentId: card.id } },
+        { type: 'hexagon', params: {} },
+      ],
+    });
+    assert.deepStrictEqual([created.success, created.failed, created.cancelled, created.skipped], [1, 1, false, 0]);
+    assert.strictEqual(typeof created.operationId, 'string');
+
+    await assertConforms(plugin, 'batch_modify', { operations: [{ nodeId: card.id, changes: { x: 8 } }, { nodeId: '404:1', changes: {} }] });
+    const rolledBack = await assertConforms(plugin, 'batch_create', { atomic: true, operations: [{ type: 'hexagon', params: {} }] });
+    assert.strictEqual(rolledBack.committed, false);
+    const plan = await assertConforms(plugin, 'batch_modify', { dryRun: true, operations: [{ nodeId: card.id, changes: { y: 8 } }] });
+    assert.strictEqual(plan.summary.modify, 1);
+
+    const check = validator.getValidator(getToolDefinition('batch_create')!.outputSchema as any);
+    assert.strictEqual(check({ created: 1 }).valid, false);
+    assert.strictEqual(check({ success: 1, failed: 0, errors: [{ nodeId: '1:2' }] }).valid, false);
+  });
+
+  it('should carry results as structuredContent, wrapping non-objects', () => {
+    assert.deepStrictEqual(toStructuredContent({ id: '1:2' }), { id: '1:2' });
+    assert.deepStrictEqual(toStructuredContent(['1:2']), { result: ['1:2'] });
+    assert.deepStrictEqual(toStructuredContent(undefined), { result: null });
+
+    const result = structuredResult({ ok: true }, [{ type: 'text', text: 'extra' }]);
+    assert.deepStrictEqual(result.content, [{ type: 'text', text: '{\n  "ok": true\n}' }, { type: 'text', text: 'extra' }]);
+    assert.deepStrictEqual(result.structuredContent, { ok: true });
+  });
+
+  it('should only send structuredContent for tools that declare an outputSchema', () => {
+    assert.deepStrictEqual(toolResult(getToolDefinition('get_node_info'), { id: '1:2' }).structuredContent, { id: '1:2' });
+    const plain = toolResult(getToolDefinition('export_node'), { id: '1:2' });
+    assert.strictEqual(plain.structuredContent, undefined);
+    assert.deepStrictEqual(plain.content, [{ type: 'text', text: '{\n  "id": "1:2"\n}' }]);
+  });
+});
@@ -0,0 +1,615 @@
+// Unit Tests for Plugin Handlers (figma-plugin/code.js on the in-memory Figma runtime)
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { fileURLToPath } from 'node:url';
+import { readRecording, replaySession } from '../../session-recorder.js';
+import { loadPlugin } from '../plugin-harness.js';
+
+// Recorded with `--record` through the real server and relay; replays must keep matching.
+const SESSION_FIXTURES = new URL('../../../src/tests/fixtures/sessions/', import.meta.url);
+
+const red = { type: 'SOLID', color: { r: 1, g: 0, b: 0 } };
+
+function overlaps(a: any, b: any): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+describe('Plugin Handlers', () => {
+  it('should batch create nodes under the requested parent and report failures per operation', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const card = figma.createFrame();
+    card.name = 'Card';
+
+    const result = await plugin.call('batch_create', {
+      operations: [
+        { type: 'rectangle', params: { name: 'Swatch', x: 8, y: 12, width: 40, height: 24, fills: [red], parentId: card.id } },
+        { type: 'text', params: { name: 'Label', parentId: card.id } },
+        { type: 'ellipse', params: { width: 0, height: 10 } },
+        { type: 'hexagon', params: {} },
+      ],
+    });
+
+    assert.strictEqual(result.success, 2);
+    assert.strictEqual(result.failed, 2);
+    assert.match(result.errors[0].error, /width and height/);
+    assert.match(result.errors[1].error, /Unknown create type/);
+    assert.deepStrictEqual(card.children.map((child: any) => child.name), ['Swatch', 'Label']);
+
+    const swatch = await figma.getNodeByIdAsync(result.createdIds[0]);
+    assert.deepStrictEqual([swatch!.x, swatch!.y, swatch!.width, swatch!.height], [8, 12, 40, 24]);
+    assert.deepStrictEqual(swatch!.fills[0].color, { r: 1, g: 0, b: 0 });
+    assert.strictEqual(swatch!.absoluteBoundingBox.x, card.x + 8);
+
+    // The text font was loaded by the handler, so later edits go through.
+    const label = await figma.getNodeByIdAsync(result.createdIds[1]);
+    label!.characters = 'Hello';
+    assert.strictEqual(label!.characters, 'Hello');
+  });
+
+  it('should arrange nodes into a non-overlapping grid', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const nodes = [0, 1, 2, 3].map((index) => {
+      const node = figma.createRectangle();
+      node.name = `Tile ${index}`;
+      node.resize(100, 60);
+      return node;
+    });
+
+    const result = await plugin.call('arrange_nodes', {
+      nodeIds: nodes.map((node) => node.id),
+      layout: 'grid',
+      columns: 2,
+      spacingX: 20,
+      spacingY: 30,
+      startX: 0,
+      startY: 0,
+    });
+
+    assert.strictEqual(result.arrangedCount, 4);
+    assert.strictEqual(result.quality.after.overlapBetweenCandidates, 0);
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        assert.ok(!overlaps(nodes[i], nodes[j]), `${nodes[i].name} overlaps ${nodes[j].name}`);
+      }
+    }
+    assert.deepStrictEqual([nodes[0].x, nodes[0].y], [0, 0]);
+    assert.ok(result.quality.after.minGap >= 20, `min gap ${result.quality.after.minGap}`);
+  });
+
+  it('should turn repeated frame children into a component with instances', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const screen = figma.createFrame();
+    screen.resize(480, 320);
+    for (let index = 0; index < 3; index++) {
+      const card = figma.createFrame();
+      card.name = 'Card';
+      card.resize(120, 80);
+      card.x = 10 + index * 150;
+      card.y = 10;
+      card.appendChild(figma.createRectangle());
+      screen.appendChild(card);
+    }
+
+    const result = await plugin.call('frame_to_components', { frameId: screen.id, strategy: 'by_name' });
+
+    assert.strictEqual(result.componentsCreated, 1);
+    const [created] = result.components;
+    assert.strictEqual(created.instanceCount, 2);
+    const component = await figma.getNodeByIdAsync(created.componentId);
+    assert.strictEqual(component!.type, 'COMPONENT');
+    assert.strictEqual(component!.parent!.name, 'Components');
+    assert.strictEqual(component!.children.length, 1);
+    for (const instanceId of created.instanceIds) {
+      const instance = await figma.getNodeByIdAsync(instanceId);
+      assert.strictEqual(instance!.parent, screen);
+      assert.strictEqual(instance!.mainComponent, component);
+    }
+    await assert.rejects(plugin.call('frame_to_components', { frameId: component!.id }), /Frame not found/);
+  });
+
+  it('should stop a batch at the next chunk once its operation is cancelled', async () => {
+    const plugin = loadPlugin();
+    const operations = Array.from({ length: 6 }, (_, index) => ({ type: 'rectangle', params: { name: `Cell ${index}` } }));
+
+    const running = plugin.dispatch({ type: 'batch_create', id: 'batch-1', payload: { operations, chunkSize: 2, operationId: 'op-cancel' } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const ack = await plugin.call('cancel', { operationId: 'op-cancel' });
+    assert.deepStrictEqual(ack, { operationId: 'op-cancel', acknowledged: true, running: true });
+
+    const result = await running;
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(result.success, 2);
+    assert.strictEqual(result.skipped, 4);
+    assert.strictEqual(plugin.figma.currentPage.findAll((node: any) => node.name.startsWith('Cell ')).length, 2);
+    assert.strictEqual((await plugin.call('cancel', { operationId: 'op-cancel' })).running, false);
+  });
+
+  it('should report HTML layout import progress under its own tool key', async () => {
+    const plugin = loadPlugin();
+    // Progress events only go out while the plugin is connected to a relay.
+    plugin.figma.ui.onmessage?.({ type: 'relay-connected', channel: 'ABC123', sessionId: 'session-1' });
+    const box = (y: number) => ({ x: 0, y, width: 100, height: 20 });
+    const layout = {
+      tag: 'body',
+      box: { x: 0, y: 0, width: 100, height: 100 },
+      children: [{ tag: 'section', box: box(0), children: [{ tag: 'div', box: box(0) }] }, { tag: 'section', box: box(40) }],
+    };
+
+    const result = await plugin.call('import_html_layout', { layout, operationId: 'op-html' });
+
+    assert.strictEqual(result.cancelled, false);
+    assert.strictEqual(result.frames, 4);
+    const [root] = plugin.figma.currentPage.children;
+    assert.strictEqual(root.id, result.rootId);
+    assert.deepStrictEqual(root.children.map((node: any) => node.children.length), [1, 0]);
+    const events = plugin.figma.ui.messages
+      .filter((message: any) => message.type === 'plugin_event' && message.payload.event === 'progress')
+      .map((message: any) => message.payload.payload);
+    assert.deepStrictEqual(
+      events.map((event: any) => [event.tool, event.operationId, event.total]),
+      [['import_html_layout', 'op-html', 1], ['import_html_layout', 'op-html', 2], ['import_html_layout', 'op-html', 1]]
+    );
+    assert.ok(plugin.logs.some((entry) => String(entry.args[0]).startsWith('[import_html_layout] ')));
+    assert.strictEqual((await plugin.call('cancel', { operationId: 'op-html' })).running, false);
+  });
+
+  it('should cancel an HTML layout import under its own operation', async () => {
+    const plugin = loadPlugin();
+    const box = (y: number) => ({ x: 0, y, width: 100, height: 20 });
+    const layout = {
+      tag: 'body',
+      box: { x: 0, y: 0, width: 100, height: 100 },
+      children: [{ tag: 'section', box: box(0), children: [{ tag: 'div', box: box(0) }] }, { tag: 'section', box: box(40) }],
+    };
+
+    const running = plugin.dispatch({ type: 'import_html_layout', id: 'html-1', payload: { layout, operationId: 'op-html' } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert.strictEqual((await plugin.call('cancel', { operationId: 'op-html' })).running, true);
+
+    const result = await running;
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(plugin.figma.currentPage.children.length, 1, 'only the root level was created');
+    assert.ok(plugin.logs.some((entry) => String(entry.args[0]).startsWith('[import_html_layout] ')));
+  });
+
+  it('should check the open file before importing an SVG and say when it cannot', async () => {
+    const svg = '<svg width="24" height="24"><rect width="24" height="24"/></svg>';
+    const privatePlugin = loadPlugin({ fileKey: 'TARGET' });
+    const verified = await privatePlugin.call('import_svg', { svg, asComponent: true, expectedFileKey: 'TARGET' });
+    assert.strictEqual(verified.targetVerified, true);
+    await assert.rejects(privatePlugin.call('import_svg', { svg, expectedFileKey: 'OTHER' }), /Open file is TARGET, expected OTHER/);
+
+    const publicPlugin = loadPlugin();
+    const unverified = await publicPlugin.call('import_svg', { svg, asComponent: true, expectedFileKey: 'TARGET' });
+    assert.strictEqual(unverified.targetVerified, false);
+    assert.strictEqual((await publicPlugin.call('import_svg', { svg })).targetVerified, undefined);
+  });
+
+  it('should run boolean operations and undo them from the journal', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const base = figma.createRectangle();
+    base.x = 100;
+    base.y = 100;
+    const hole = figma.createEllipse();
+    hole.resize(40, 40);
+    hole.x = 130;
+    hole.y = 130;
+
+    const result = await plugin.call('subtract_nodes', { nodeIds: [base.id, hole.id], name: 'Cutout' });
+
+    assert.strictEqual(result.type, 'BOOLEAN_OPERATION');
+    assert.strictEqual(result.booleanOperation, 'SUBTRACT');
+    const cutout = await figma.getNodeByIdAsync(result.id);
+    assert.deepStrictEqual(cutout!.children, [base, hole]);
+    assert.deepStrictEqual([cutout!.x, cutout!.y, cutout!.width, cutout!.height], [100, 100, 100, 100]);
+
+    const undo = await plugin.call('undo_operations', { operationId: result.operationId });
+    assert.strictEqual(undo.undone, 1);
+    assert.strictEqual(await figma.getNodeByIdAsync(result.id), null);
+    assert.strictEqual(base.parent, figma.currentPage);
+    assert.deepStrictEqual([hole.x, hole.y], [130, 130]);
+
+    await assert.rejects(plugin.call('union_nodes', { nodeIds: ['404:1'] }), /Need at least 2 nodes/);
+  });
+
+  it('should keep destructive lint autofixes opt-in and leave component layers alone', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const stray = figma.createRectangle();
+    stray.name = 'Stray';
+    stray.visible = false;
+    const component = figma.createComponent();
+    component.name = 'Button';
+    const icon = figma.createRectangle();
+    icon.name = 'Icon';
+    icon.visible = false;
+    component.appendChild(icon);
+    const bound = figma.createRectangle();
+    bound.name = 'Badge';
+    bound.visible = false;
+    bound.componentPropertyReferences = { visible: 'Show badge#1:0' };
+    const unnamed = figma.createRectangle();
+    unnamed.name = 'Rectangle 12';
+    const config = { rules: { 'unstyled-fill': false, 'default-name': true } };
+
+    const lint = await plugin.call('lint_design', { config });
+    assert.deepStrictEqual(lint.findings.filter((finding: any) => finding.rule === 'hidden-layer').map((finding: any) => finding.nodeName), ['Stray']);
+
+    const fixed = await plugin.call('lint_design', { config, fix: true });
+    assert.strictEqual(fixed.fixed, 1);
+    assert.notStrictEqual(unnamed.name, 'Rectangle 12');
+    assert.strictEqual(stray.removed, false);
+
+    const deleted = await plugin.call('lint_design', { config, fix: true, fixRules: ['hidden-layer'] });
+    assert.strictEqual(deleted.fixed, 1);
+    assert.strictEqual(stray.removed, true);
+    assert.strictEqual(icon.parent, component);
+    assert.strictEqual(bound.removed, false);
+  });
+
+  it('should list, undo and redo journaled operations', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const tile = figma.createRectangle();
+    tile.name = 'Tile';
+    const doomed = figma.createEllipse();
+    doomed.name = 'Doomed';
+
+    const moved = await plugin.call('batch_modify', { operations: [{ nodeId: tile.id, changes: { x: 50 } }] });
+    const deleted = await plugin.call('batch_delete', { nodeIds: [doomed.id] });
+    const listed = await plugin.call('list_operation_journal', { includeDetails: true });
+    assert.deepStrictEqual(listed.entries.map((entry: any) => [entry.operationId, entry.tool, entry.status]), [
+      [deleted.operationId, 'batch_delete', 'applied'],
+      [moved.operationId, 'batch_modify', 'applied'],
+    ]);
+    assert.deepStrictEqual([listed.entries[0].deleted, listed.entries[1].modified], [1, 1]);
+    assert.deepStrictEqual(listed.entries[0].details.deleted, [{ id: doomed.id, type: 'ELLIPSE', name: 'Doomed' }]);
+
+    const undone = await plugin.call('undo_operations', { steps: 2 });
+    assert.deepStrictEqual([undone.undone, undone.failed], [2, 0]);
+    assert.strictEqual(tile.x, 0);
+    const restored = figma.currentPage.children.find((node: any) => node.name === 'Doomed');
+    assert.ok(restored);
+
+    // Redo by id re-applies just that operation; without one it takes the most recently undone.
+    await plugin.call('redo_operations', { operationId: moved.operationId });
+    assert.strictEqual(tile.x, 50);
+    await assert.rejects(plugin.call('redo_operations', { operationId: moved.operationId }), /is not undone/);
+    const redone = await plugin.call('redo_operations', {});
+    assert.deepStrictEqual([redone.redone, redone.operations[0].operationId], [1, deleted.operationId]);
+    assert.strictEqual(restored!.removed, true);
+    const statuses = (await plugin.call('list_operation_journal', {})).entries.map((entry: any) => entry.status);
+    assert.deepStrictEqual(statuses, ['applied', 'applied']);
+
+    // Read-only calls are not journaled (no capture, no snapshot of the selection).
+    figma.currentPage.selection = [tile];
+    const getNodeByIdAsync = figma.getNodeByIdAsync.bind(figma);
+    const lookups: string[] = [];
+    figma.getNodeByIdAsync = async (id: string) => {
+      lookups.push(id);
+      return getNodeByIdAsync(id);
+    };
+    await plugin.call('lint_design', {});
+    assert.ok(!lookups.includes(tile.id), 'lint_design without fix should not snapshot the selection');
+    assert.strictEqual((await plugin.call('list_operation_journal', {})).total, 2);
+  });
+
+  it('should snap near-miss colors to a paint style in a single scan and undo the fix', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const brand = figma.createPaintStyle();
+    brand.name = 'Brand/Primary';
+    brand.paints = [{ type: 'SOLID', color: { r: 0.2, g: 0.4, b: 1 } }];
+    const card = figma.createRectangle();
+    card.fills = [{ type: 'SOLID', color: { r: 0.21, g: 0.4, b: 0.99 } }];
+    const far = figma.createRectangle();
+    far.fills = [red];
+
+    const getLocalPaintStylesAsync = figma.getLocalPaintStylesAsync.bind(figma);
+    let styleScans = 0;
+    figma.getLocalPaintStylesAsync = async () => {
+      styleScans++;
+      return getLocalPaintStylesAsync();
+    };
+    const result = await plugin.call('fix_consistency', { checks: ['colors'] });
+
+    // The journal's target scan is handed to the handler instead of walking the page twice.
+    assert.strictEqual(styleScans, 1);
+    assert.strictEqual(result.applied, 1);
+    assert.strictEqual(card.fillStyleId, brand.id);
+    assert.deepStrictEqual(far.fills[0].color, { r: 1, g: 0, b: 0 });
+
+    await plugin.call('undo_operations', { operationId: result.operationId });
+    assert.strictEqual(card.fillStyleId, '');
+    assert.deepStrictEqual(card.fills[0].color, { r: 0.21, g: 0.4, b: 0.99 });
+  });
+
+  it('should roll atomic batches back on the first failure and refuse them without a journal', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const tile = figma.createRectangle();
+    tile.name = 'Tile';
+
+    const created = await plugin.call('batch_create', {
+      atomic: true,
+      operations: [{ type: 'rectangle', params: { name: 'Kept?' } }, { type: 'hexagon', params: {} }],
+    });
+    assert.deepStrictEqual([created.committed, created.rolledBack, created.failedOperation.index], [false, true, 1]);
+    assert.match(created.failedOperation.error, /Unknown create type/);
+    assert.deepStrictEqual(figma.currentPage.children.map((node: any) => node.name), ['Tile']);
+
+    const modified = await plugin.call('batch_modify', {
+      atomic: true,
+      operations: [{ nodeId: tile.id, changes: { x: 50, name: 'Moved' } }, { nodeId: '404:1', changes: { x: 1 } }],
+    });
+    assert.deepStrictEqual([modified.committed, modified.rolledBack], [false, true]);
+    assert.deepStrictEqual([tile.x, tile.name], [0, 'Tile']);
+
+    const loadAsync = figma.currentPage.loadAsync;
+    figma.currentPage.loadAsync = async () => {
+      throw new Error('page unavailable');
+    };
+    try {
+      await assert.rejects(
+        plugin.call('batch_modify', { atomic: true, operations: [{ nodeId: tile.id, changes: { x: 50 } }] }),
+        /atomic: true requires the operation journal.*page unavailable/
+      );
+    } finally {
+      figma.currentPage.loadAsync = loadAsync;
+    }
+    assert.strictEqual(tile.x, 0);
+  });
+
+  it('should apply a dry-run plan as planned and refuse it once the document drifted', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const tile = figma.createRectangle();
+    tile.name = 'Tile';
+
+    const plan = await plugin.call('batch_modify', { operations: [{ nodeId: tile.id, changes: { x: 40 } }], dryRun: true });
+    assert.strictEqual(plan.preview, 'full');
+    assert.deepStrictEqual(plan.changes.modify[0].properties.x, { before: 0, after: 40 });
+    assert.strictEqual(tile.x, 0);
+    const applied = await plugin.call('apply_plan', { planId: plan.planId });
+    assert.strictEqual(applied.applied, true);
+    assert.strictEqual(tile.x, 40);
+    await assert.rejects(plugin.call('apply_plan', { planId: plan.planId }), /Plan not found/);
+
+    const edited = await plugin.call('batch_modify', { operations: [{ nodeId: tile.id, changes: { x: 80 } }], dryRun: true });
+    tile.name = 'Renamed';
+    await assert.rejects(plugin.call('apply_plan', { planId: edited.planId }), /is stale: 1 target/);
+    assert.strictEqual(tile.x, 40);
+
+    // Scope-driven: a layer added after the dry run would also be renamed by a plain re-run.
+    const config = { rules: { 'unstyled-fill': false } };
+    const unnamed = figma.createRectangle();
+    unnamed.name = 'Rectangle 7';
+    const lint = await plugin.call('lint_design', { config, fix: true, fixRules: ['default-name'], dryRun: true });
+    assert.strictEqual(lint.changes.modify.length, 1);
+    const late = figma.createRectangle();
+    late.name = 'Rectangle 8';
+    await assert.rejects(plugin.call('apply_plan', { planId: lint.planId }), /no longer yields the planned changes/);
+    assert.deepStrictEqual([unnamed.name, late.name], ['Rectangle 7', 'Rectangle 8']);
+
+    // Partial previews fingerprint the whole page.
+    const partial = await plugin.call('set_node_position', { nodeId: tile.id, x: 0, y: 24, dryRun: true });
+    assert.strictEqual(partial.preview, 'partial');
+    figma.createEllipse();
+    await assert.rejects(plugin.call('apply_plan', { planId: partial.planId }), /page .* changed since the dry run/);
+    const fresh = await plugin.call('set_node_position', { nodeId: tile.id, x: 0, y: 24, dryRun: true });
+    await plugin.call('apply_plan', { planId: fresh.planId });
+    assert.deepStrictEqual([tile.x, tile.y], [0, 24]);
+  });
+
+  it('should fix failing contrast with a nearby paint style or a raw color and undo the fix', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const card = figma.createFrame();
+    card.resize(200, 100);
+    card.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+    const addText = async (y: number, color: any) => {
+      const text = figma.createText();
+      await figma.loadFontAsync(text.fontName);
+      text.characters = 'Label';
+      text.y = y;
+      text.fills = [{ type: 'SOLID', color }];
+      card.appendChild(text);
+      return text;
+    };
+    const grey = await addText(0, { r: 0.6, g: 0.6, b: 0.6 });
+    const olive = await addText(40, { r: 0.95, g: 0.95, b: 0.6 });
+    const ink = await addText(70, { r: 0, g: 0, b: 0 });
+    const secondary = figma.createPaintStyle();
+    secondary.name = 'Text/Secondary';
+    secondary.paints = [{ type: 'SOLID', color: { r: 0.4, g: 0.4, b: 0.4 } }];
+
+    const plan = await plugin.call('fix_contrast', { dryRun: true });
+    assert.deepStrictEqual(plan.changes.modify.map((change: any) => change.nodeId), [grey.id, olive.id]);
+    assert.strictEqual(grey.fillStyleId, '');
+
+    const result = await plugin.call('fix_contrast', {});
+    assert.strictEqual(result.fixed, 2);
+    assert.strictEqual(grey.fillStyleId, secondary.id);
+    assert.strictEqual(result.fixes[1].token, null);
+    assert.ok(result.fixes.every((fix: any) => fix.ratioAfter >= fix.required));
+    assert.deepStrictEqual(ink.fills[0].color, { r: 0, g: 0, b: 0 });
+
+    await plugin.call('undo_operations', { operationId: result.operationId });
+    assert.strictEqual(grey.fillStyleId, '');
+    assert.deepStrictEqual(grey.fills[0].color, { r: 0.6, g: 0.6, b: 0.6 });
+    assert.deepStrictEqual(olive.fills[0].color, { r: 0.95, g: 0.95, b: 0.6 });
+  });
+
+  it('should suggest passing contrast colors and flag truncation only when issues are dropped', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const card = figma.createFrame();
+    card.resize(200, 100);
+    card.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+    for (const y of [0, 40]) {
+      const label = figma.createText();
+      await figma.loadFontAsync(label.fontName);
+      label.characters = 'Muted';
+      label.y = y;
+      label.fills = [{ type: 'SOLID', color: { r: 0.8, g: 0.8, b: 0.8 } }];
+      card.appendChild(label);
+    }
+
+    const audit = await plugin.call('audit_accessibility', { checks: ['contrast'], maxIssues: 2 });
+    assert.strictEqual(audit.issues.length, 2);
+    assert.strictEqual(audit.truncated, false);
+    // #777777 would round to 4.48:1 against white.
+    assert.match(audit.issues[0].suggestedFix, /#767676/);
+    const capped = await plugin.call('audit_accessibility', { checks: ['contrast'], maxIssues: 1 });
+    assert.strictEqual(capped.issues.length, 1);
+    assert.strictEqual(capped.truncated, true);
+  });
+
+  it('should round-trip design tokens through export and import', async () => {
+    const source = loadPlugin();
+    const theme = source.figma.variables.createVariableCollection('theme');
+    const light = theme.modes[0].modeId;
+    theme.renameMode(light, 'Light');
+    const dark = theme.addMode('Dark');
+    const brand = source.figma.variables.createVariable('color/brand', theme, 'COLOR');
+    brand.setValueForMode(light, { r: 0.2, g: 0.4, b: 1, a: 1 });
+    brand.setValueForMode(dark, { r: 0.4, g: 0.6, b: 1, a: 1 });
+    const link = source.figma.variables.createVariable('color/link', theme, 'COLOR');
+    link.setValueForMode(light, source.figma.variables.createVariableAlias(brand));
+    link.setValueForMode(dark, source.figma.variables.createVariableAlias(brand));
+    const gap = source.figma.variables.createVariable('space/gap', theme, 'FLOAT');
+    gap.setValueForMode(light, 8);
+    gap.setValueForMode(dark, 8);
+    const card = source.figma.createPaintStyle();
+    card.name = 'Surface/Card';
+    card.paints = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+
+    const exported = await source.call('export_design_tokens', {});
+    const tokens = JSON.parse(exported.files[0].content);
+    assert.strictEqual(tokens.theme.color.link.$value, '{theme.color.brand}');
+
+    const target = loadPlugin();
+    const imported = await target.call('import_design_tokens', { tokens });
+    assert.deepStrictEqual(imported.summary, { create: 5, update: 0, delete: 0, unchanged: 0, errors: 0 });
+    const variables = await target.figma.variables.getLocalVariablesAsync();
+    const byName = new Map(variables.map((variable: any) => [variable.name, variable]));
+    const targetBrand: any = byName.get('color/brand');
+    for (const value of Object.values((byName.get('color/link') as any).valuesByMode)) {
+      assert.deepStrictEqual(value, { type: 'VARIABLE_ALIAS', id: targetBrand.id });
+    }
+    const withoutIds = (value: any) =>
+      JSON.parse(JSON.stringify(value, (key, entry) => (key === 'variableId' || key === 'styleId' ? undefined : entry)));
+    const reexported = JSON.parse((await target.call('export_design_tokens', {})).files[0].content);
+    assert.deepStrictEqual(withoutIds(reexported), withoutIds(tokens));
+
+    const again = await target.call('import_design_tokens', { tokens });
+    assert.deepStrictEqual(again.summary, { create: 0, update: 0, delete: 0, unchanged: 4, errors: 0 });
+    assert.deepStrictEqual(again.changes, []);
+
+    const edited = structuredClone(tokens);
+    edited.theme.color.brand.$extensions['com.figma'].modes.Dark = '#ff0000';
+    const darkBefore = JSON.stringify(targetBrand.valuesByMode);
+    const plan = await target.call('import_design_tokens', { tokens: edited, dryRun: true });
+    assert.deepStrictEqual(plan.changes.modify, [
+      { nodeId: targetBrand.id, name: 'theme/color/brand', properties: { Dark: { before: '#6699ff', after: '#ff0000' } } },
+    ]);
+    assert.strictEqual(JSON.stringify(targetBrand.valuesByMode), darkBefore);
+
+    // Plain DTCG: rem and em resolve against a 16px root.
+    const sizes = await loadPlugin().call('import_design_tokens', {
+      tokens: { size: { $type: 'dimension', sm: { $value: '0.5rem' }, lg: { $value: '2em' } } },
+      collection: 'sizes',
+    });
+    assert.strictEqual(sizes.format, 'dtcg');
+    assert.deepStrictEqual(
+      sizes.changes.filter((change: any) => change.kind === 'variable').map((change: any) => [change.name, change.values['Mode 1'].after]),
+      [['size/sm', 8], ['size/lg', 32]]
+    );
+  });
+
+  it('should generate HTML and CSS for an auto-layout frame', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const card = figma.createFrame();
+    card.name = 'Card';
+    card.layoutMode = 'VERTICAL';
+    card.itemSpacing = 8;
+    card.paddingLeft = card.paddingRight = card.paddingTop = card.paddingBottom = 16;
+    card.resize(200, 100);
+    card.fills = [{ type: 'SOLID', color: { r: 1, g: 0, b: 0 } }];
+    const title = figma.createText();
+    await figma.loadFontAsync(title.fontName);
+    title.name = 'Title';
+    title.characters = 'Hello';
+    title.fontSize = 18;
+    card.appendChild(title);
+
+    const result = await plugin.call('generate_code', { nodeId: card.id });
+
+    assert.strictEqual(result.target, 'html-css');
+    assert.strictEqual(result.nodeCount, 2);
+    assert.strictEqual(result.html, '<div class="card">\n  <p class="title">Hello</p>\n</div>');
+    const rule = (selector: string) => result.css.match(new RegExp(`^\\.${selector} \\{\\n([^}]*)\\}`, 'm'))?.[1] ?? '';
+    for (const declaration of ['display: flex;', 'flex-direction: column;', 'gap: 8px;', 'padding: 16px;', 'width: 200px;', 'background-color: #ff0000;']) {
+      assert.ok(rule('card').includes(declaration), `.card is missing ${declaration}\n${result.css}`);
+    }
+    for (const declaration of ['font-family: "Inter";', 'font-size: 18px;', 'color: #000000;']) {
+      assert.ok(rule('title').includes(declaration), `.title is missing ${declaration}\n${result.css}`);
+    }
+    assert.strictEqual(result.code, `<style>\n${result.css}\n</style>\n${result.html}\n`);
+    assert.deepStrictEqual(result.warnings, []);
+  });
+
+  it('should generate a React component with typed variant props', async () => {
+    const plugin = loadPlugin();
+    const { figma } = plugin;
+    const variants = [];
+    for (const [kind, color] of [['Primary', { r: 0, g: 0, b: 1 }], ['Secondary', { r: 1, g: 1, b: 1 }]] as const) {
+      const variant = figma.createComponent();
+      variant.name = `Kind=${kind}, Size=Large`;
+      variant.layoutMode = 'HORIZONTAL';
+      variant.fills = [{ type: 'SOLID', color }];
+      const label = figma.createText();
+      await figma.loadFontAsync(label.fontName);
+      label.name = 'Label';
+      label.characters = kind;
+      variant.appendChild(label);
+      variants.push(variant);
+    }
+    const button = figma.combineAsVariants(variants, figma.currentPage);
+    button.name = 'Button';
+
+    const result = await plugin.call('generate_react_component', { nodeId: button.id });
+
+    assert.strictEqual(result.componentName, 'Button');
+    assert.strictEqual(result.styling, 'tailwind');
+    assert.deepStrictEqual(
+      result.props.map((prop: any) => [prop.name, prop.figmaName, prop.type, prop.tsType, prop.defaultValue]),
+      [['kind', 'Kind', 'VARIANT', "'Primary' | 'Secondary'", "'Primary'"], ['size', 'Size', 'VARIANT', "'Large'", "'Large'"]]
+    );
+    const [file] = result.files;
+    assert.strictEqual(file.name, 'Button.tsx');
+    assert.match(file.content, /export interface ButtonProps \{\n  kind\?: 'Primary' \| 'Secondary';\n  size\?: 'Large';\n  className\?: string;\n\}/);
+    assert.match(file.content, /export function Button\(\{ kind = 'Primary', size = 'Large', className \}: ButtonProps\)/);
+    // The non-default variant is a branch; the default one is the fallthrough.
+    const [secondary, primary] = file.content.split("if (kind === 'Secondary' && size === 'Large') {")[1].split('\n  }\n');
+    assert.match(secondary, /bg-\[#ffffff\] flex flex-row/);
+    assert.match(secondary, />Secondary<\/p>/);
+    assert.match(primary, /bg-\[#0000ff\] flex flex-row/);
+    assert.match(primary, />Primary<\/p>/);
+  });
+
+  it('should reproduce recorded sessions', async () => {
+    const calls = await readRecording(fileURLToPath(new URL('boolean-undo.jsonl', SESSION_FIXTURES)));
+    const plugin = loadPlugin();
+
+    const report = await replaySession(calls, (message) => plugin.dispatch(message));
+
+    assert.strictEqual(report.mismatched, 0, JSON.stringify(report.calls.filter((call) => call.status !== 'match'), null, 2));
+    assert.strictEqual(report.matched, calls.length);
+  });
+});
@@ -54,6 +54,34 @@ describe('ProgressManager', () => {
     assert.strictEqual(pm.getActiveOperations().length, 0);
   });
 
+  it('should only move stages forward', () => {
+    pm.startOperation('op-1', 'Test', 10, [
+      { name: 'Analyze', weight: 0.2 },
+      { name: 'Create', weight: 0.6 },
+      { name: 'Organize', weight: 0.2 },
+    ]);
+
+    pm.enterStage('op-1', 1);
+    pm.updateProgress('op-1', 5);
+    assert.strictEqual(pm.getProgress('op-1').stage, 'Create');
+
+    pm.enterStage('op-1', 0);
+    assert.strictEqual(pm.getProgress('op-1').stage, 'Create');
+
+    pm.enterStage('op-1', 99);
+    assert.strictEqual(pm.getProgress('op-1').stage, 'Organize');
+  });
+
+  it('should override estimated total with reported total', () => {
+    pm.startOperation('op-1', 'Test', 100);
+    pm.setTotalItems('op-1', 4);
+    pm.updateProgress('op-1', 2);
+    assert.strictEqual(pm.getProgress('op-1').total, 4);
+
+    pm.setTotalItems('op-1', 0);
+    assert.strictEqual(pm.getProgress('op-1').total, 4);
+  });
+
   it('should cancel operation', () => {
     let cancelled = false;
     pm.on('cancelled', () => { cancelled = true; });
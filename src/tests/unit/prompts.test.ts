@@ -0,0 +1,79 @@
+// Unit Tests for Prompt Registry
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { PROMPTS, listPrompts, renderPrompt } from '../../prompts.js';
+import { TOOLS } from '../../tools.js';
+
+const toolNames = new Set(TOOLS.map((tool) => tool.name));
+
+const liveContext = {
+  selection: {
+    pageId: '0:1',
+    pageName: 'Screens',
+    selectedCount: 2,
+    nodes: [
+      { id: '1:2', name: 'Home', type: 'FRAME', width: 375, height: 812 },
+      { id: '1:3', name: 'Detail', type: 'FRAME', width: 375, height: 812 },
+    ],
+  },
+};
+
+// Backticked snake_case identifiers in rendered text are tool references.
+function referencedTools(text: string): string[] {
+  return [...text.matchAll(/`([a-z]+(?:_[a-z]+)+)`/g)].map((match) => match[1]);
+}
+
+describe('Prompt Registry', () => {
+  it('should have unique prompt names', () => {
+    const names = PROMPTS.map((prompt) => prompt.name);
+    assert.strictEqual(new Set(names).size, names.length);
+  });
+
+  it('should only reference tools that exist in TOOLS', () => {
+    for (const prompt of PROMPTS) {
+      for (const tool of prompt.tools) {
+        assert.ok(toolNames.has(tool), `Prompt ${prompt.name} declares unknown tool "${tool}"`);
+      }
+      for (const context of [liveContext, { selection: null }]) {
+        const text = prompt.render({}, context);
+        for (const tool of referencedTools(text)) {
+          assert.ok(toolNames.has(tool), `Prompt ${prompt.name} references unknown tool "${tool}"`);
+          assert.ok(
+            prompt.tools.includes(tool) || tool === 'get_selection',
+            `Prompt ${prompt.name} references "${tool}" without declaring it`
+          );
+        }
+      }
+    }
+  });
+
+  it('should list prompts without render internals', () => {
+    for (const prompt of listPrompts()) {
+      assert.ok(prompt.name);
+      assert.ok(!('render' in prompt));
+      assert.ok(!('tools' in prompt));
+    }
+  });
+
+  it('should embed live selection context', () => {
+    const result = renderPrompt('build_prototype_flow', { flowName: 'Onboarding' }, liveContext);
+    const content = result.messages[0].content;
+    assert.strictEqual(content.type, 'text');
+    const text = content.type === 'text' ? content.text : '';
+    assert.ok(text.includes('1:2 -> 1:3'));
+    assert.ok(text.includes('"Home"'));
+    assert.ok(text.includes('Onboarding'));
+  });
+
+  it('should embed arguments in tool-call snippets as valid JSON', () => {
+    const pageName = 'Q3 "Final" \\ v2';
+    const content = renderPrompt('audit_page', { pageName }, { selection: null }).messages[0].content;
+    const text = content.type === 'text' ? content.text : '';
+    const snippet = text.match(/`check_consistency` with (\{.*?\}) and/)![1];
+    assert.deepStrictEqual(JSON.parse(snippet), { scope: 'page', pageNames: [pageName] });
+  });
+
+  it('should reject unknown prompts', () => {
+    assert.throws(() => renderPrompt('no_such_prompt', {}, { selection: null }), /Unknown prompt/);
+  });
+});
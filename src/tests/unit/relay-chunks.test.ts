@@ -0,0 +1,74 @@
+// Unit Tests for Relay Chunking
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { RelayChunkAssembler, encodeRelayFrames, isRelayChunk, relayChecksum } from '../../relay-chunks.js';
+
+const largeResponse = { id: 'req-1', result: { tree: 'x'.repeat(5000), label: '图层 ✓' } };
+
+function collectErrors() {
+  const errors: Array<{ message: string; messageId?: string }> = [];
+  return {
+    errors,
+    onError: (error: Error, messageId?: string) => errors.push({ message: error.message, messageId }),
+  };
+}
+
+describe('Relay Chunking', () => {
+  it('should keep small messages in a single plain frame', () => {
+    const frames = encodeRelayFrames({ id: 'a', result: { ok: true } }, 's1');
+    assert.strictEqual(frames.length, 1);
+    assert.deepStrictEqual(JSON.parse(frames[0]), { id: 'a', result: { ok: true } });
+  });
+
+  it('should split large messages and reassemble them out of order', () => {
+    const frames = encodeRelayFrames(largeResponse, 's2', 1024).map((frame) => JSON.parse(frame));
+    assert.ok(frames.length > 1);
+    for (const frame of frames) {
+      assert.ok(isRelayChunk(frame));
+      assert.strictEqual(frame.messageId, 'req-1');
+      assert.strictEqual(frame.chunkCount, frames.length);
+    }
+
+    const { errors, onError } = collectErrors();
+    const assembler = new RelayChunkAssembler(onError);
+    const [first, ...rest] = frames;
+    for (const frame of rest.reverse()) {
+      assert.strictEqual(assembler.accept(frame), null);
+    }
+    assert.strictEqual(assembler.accept(rest[0]), null, 'duplicate chunks are ignored');
+    assert.deepStrictEqual(assembler.accept(first), largeResponse);
+    assert.strictEqual(assembler.getActiveStreamCount(), 0);
+    assert.deepStrictEqual(errors, []);
+  });
+
+  it('should report checksum mismatches with the wrapped message id', () => {
+    const frames = encodeRelayFrames(largeResponse, 's3', 1024).map((frame) => JSON.parse(frame));
+    frames[1].data = frames[1].data.replace('x', 'y');
+
+    const { errors, onError } = collectErrors();
+    const assembler = new RelayChunkAssembler(onError);
+    const results = frames.map((frame) => assembler.accept(frame));
+    assert.ok(results.every((result) => result === null));
+    assert.strictEqual(errors.length, 1);
+    assert.match(errors[0].message, /Checksum mismatch/);
+    assert.strictEqual(errors[0].messageId, 'req-1');
+  });
+
+  it('should drop streams that stop receiving chunks', async () => {
+    const frames = encodeRelayFrames(largeResponse, 's4', 1024).map((frame) => JSON.parse(frame));
+    const { errors, onError } = collectErrors();
+    const assembler = new RelayChunkAssembler(onError, 20);
+    assembler.accept(frames[0]);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    assert.strictEqual(assembler.getActiveStreamCount(), 0);
+    assert.strictEqual(errors.length, 1);
+    assert.match(errors[0].message, /timed out/);
+    assert.strictEqual(errors[0].messageId, 'req-1');
+  });
+
+  it('should use a stable FNV-1a checksum', () => {
+    assert.strictEqual(relayChecksum(''), '811c9dc5');
+    assert.strictEqual(relayChecksum('a'), 'e40c292c');
+  });
+});
@@ -0,0 +1,56 @@
+// Unit Tests for Figma Resources
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  nodeResourceUri,
+  pageResourceUri,
+  parseResourceUri,
+  resolveUpdatedUris,
+  variablesResourceUri,
+} from '../../resources.js';
+
+describe('Figma Resources', () => {
+  it('should parse supported resource URIs', () => {
+    assert.deepStrictEqual(parseResourceUri('figma://document'), { kind: 'document' });
+    assert.deepStrictEqual(parseResourceUri('figma://styles'), { kind: 'styles' });
+    assert.deepStrictEqual(parseResourceUri('figma://variables'), { kind: 'variables' });
+    assert.deepStrictEqual(parseResourceUri('figma://variables/VariableCollectionId:1:2'), {
+      kind: 'variables',
+      collectionId: 'VariableCollectionId:1:2',
+    });
+    assert.deepStrictEqual(parseResourceUri('figma://page/0:1'), { kind: 'page', id: '0:1' });
+    assert.deepStrictEqual(parseResourceUri('figma://node/12:34'), { kind: 'node', id: '12:34' });
+  });
+
+  it('should round-trip encoded ids', () => {
+    assert.deepStrictEqual(parseResourceUri(nodeResourceUri('I12:34;5:6')), { kind: 'node', id: 'I12:34;5:6' });
+    assert.deepStrictEqual(parseResourceUri(pageResourceUri('0:1')), { kind: 'page', id: '0:1' });
+    assert.deepStrictEqual(parseResourceUri(variablesResourceUri('c:1')), { kind: 'variables', collectionId: 'c:1' });
+  });
+
+  it('should reject unknown or malformed URIs', () => {
+    assert.throws(() => parseResourceUri('https://example.com'));
+    assert.throws(() => parseResourceUri('figma://node'));
+    assert.throws(() => parseResourceUri('figma://unknown/1'));
+  });
+
+  it('should resolve which subscriptions a change affects', () => {
+    const subscribed = [
+      'figma://document',
+      pageResourceUri('0:1'),
+      pageResourceUri('0:2'),
+      nodeResourceUri('1:5'),
+      nodeResourceUri('1:9'),
+      'figma://styles',
+      'figma://variables',
+    ];
+
+    assert.deepStrictEqual(
+      resolveUpdatedUris({ pageId: '0:1', nodeIds: ['1:5'] }, subscribed),
+      ['figma://document', pageResourceUri('0:1'), nodeResourceUri('1:5')]
+    );
+    assert.deepStrictEqual(resolveUpdatedUris({ stylesChanged: true }, subscribed), ['figma://styles']);
+    assert.deepStrictEqual(resolveUpdatedUris({ variablesChanged: true }, subscribed), ['figma://variables']);
+    assert.deepStrictEqual(resolveUpdatedUris({}, subscribed), []);
+  });
+});
@@ -0,0 +1,111 @@
+// Unit Tests for Cross-Project Sync
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { CrossProjectSync, FigmaComponent, FigmaRESTBridge } from '../../rest-bridge.js';
+
+function component(key: string, name: string): FigmaComponent {
+  return {
+    key,
+    file_key: 'SOURCE',
+    node_id: `${key}:1`,
+    name,
+    description: `${name} description`,
+    created_at: '',
+    updated_at: '',
+    user: { handle: 'designer', img_url: '' },
+  };
+}
+
+// Real bridge with its network calls replaced.
+function stubBridge(svgs: Record<string, string | undefined>): FigmaRESTBridge {
+  const bridge = new FigmaRESTBridge({ accessToken: 'token' });
+  const components = Object.keys(svgs).map((name, i) => component(`k${i}`, name));
+  bridge.getTeamComponents = async () => ({ meta: { components } });
+  bridge.copyComponentToLocal = async (key: string) => {
+    const found = components.find((c) => c.key === key)!;
+    return { component: found, svg: svgs[found.name] };
+  };
+  return bridge;
+}
+
+describe('Cross-Project Sync', () => {
+  it('should import each exported SVG into the target file', async () => {
+    const bridge = stubBridge({ Button: '<svg width="80"/>', Icon: '<svg width="16"/>' });
+    const calls: Array<{ svg: string; options: any }> = [];
+    const sync = new CrossProjectSync(bridge, async (svg, options) => {
+      calls.push({ svg, options });
+      return { id: `new:${calls.length}`, width: 100, targetVerified: calls.length === 1 };
+    });
+
+    const result = await sync.syncComponentLibrary('TEAM', 'TARGET');
+
+    assert.strictEqual(result.synced, 2);
+    assert.strictEqual(result.failed, 0);
+    assert.deepStrictEqual(result.details.map((d) => d.nodeId), ['new:1', 'new:2']);
+    assert.deepStrictEqual(result.details.map((d) => d.targetVerified), [true, false]);
+    assert.strictEqual(result.details[0].warning, undefined);
+    assert.match(result.details[1].warning!, /Could not confirm the open file is TARGET/);
+    assert.strictEqual(calls[0].svg, '<svg width="80"/>');
+    assert.deepStrictEqual(calls[0].options, { name: 'Button', description: 'Button description', x: 0, expectedFileKey: 'TARGET' });
+    assert.strictEqual(calls[1].options.x, 140, 'components are laid out side by side');
+  });
+
+  it('should report failures per component', async () => {
+    const bridge = stubBridge({ Empty: undefined, Broken: '<svg/>', Ok: '<svg/>' });
+    const sync = new CrossProjectSync(bridge, async (_svg, options) => {
+      if (options.name === 'Broken') throw new Error('Invalid SVG');
+      return { id: 'new:1' };
+    });
+
+    const result = await sync.syncComponentLibrary('TEAM', 'TARGET');
+
+    assert.strictEqual(result.synced, 1);
+    assert.strictEqual(result.failed, 2);
+    assert.deepStrictEqual(result.details.map((d) => [d.component, d.status, d.error]), [
+      ['Empty', 'failed', 'SVG export returned no content'],
+      ['Broken', 'failed', 'Invalid SVG'],
+      ['Ok', 'success', undefined],
+    ]);
+  });
+
+  it('should refuse to sync without a plugin importer', async () => {
+    const sync = new CrossProjectSync(stubBridge({ Button: '<svg/>' }));
+    await assert.rejects(() => sync.syncComponentLibrary('TEAM', 'TARGET'), /plugin/);
+  });
+
+  it('should cluster the solid paints of a REST file into a palette', async () => {
+    const solid = (r: number, g: number, b: number, extra: Record<string, unknown> = {}) => ({ type: 'SOLID', color: { r, g, b, a: 1 }, ...extra });
+    const bridge = new FigmaRESTBridge({ accessToken: 'token' });
+    bridge.getFile = async () => ({
+      document: {
+        id: '0:0',
+        type: 'DOCUMENT',
+        children: [{
+          id: '1:1',
+          type: 'FRAME',
+          fills: [solid(1, 1, 1)],
+          strokes: [solid(0.2, 0.4, 1)],
+          children: [
+            { id: '1:2', type: 'RECTANGLE', fills: [solid(0.2, 0.4, 1)] },
+            { id: '1:3', type: 'RECTANGLE', fills: [solid(0.204, 0.404, 0.996), solid(1, 0, 0, { visible: false })] },
+            { id: '1:4', type: 'RECTANGLE', visible: false, fills: [solid(0, 1, 0)] },
+            { id: '1:5', type: 'INSTANCE', fills: [], children: [{ id: 'I1:5;1', type: 'TEXT', fills: [solid(0, 0, 1)] }] },
+          ],
+        }],
+      },
+    });
+
+    const result = await new CrossProjectSync(bridge).extractPalette('FILE');
+
+    assert.strictEqual(result.paints, 4);
+    assert.strictEqual(result.distinctColors, 3);
+    assert.deepStrictEqual(result.palette.map((entry) => [entry.hex, entry.name, entry.weight]), [
+      ['#3366FF', 'blue', 3],
+      ['#FFFFFF', 'white', 1],
+    ]);
+    assert.deepStrictEqual(result.palette[0].ids, ['1:1', '1:2', '1:3']);
+
+    const fillsOnly = await new CrossProjectSync(bridge).extractPalette('FILE', { includeStrokes: false });
+    assert.strictEqual(fillsOnly.paints, 3);
+  });
+});
@@ -0,0 +1,99 @@
+// Unit Tests for Session Recorder
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  RECORDING_MAX_RESULT_CHARS,
+  SessionRecorder,
+  diffValues,
+  formatReplayReport,
+  parseRecording,
+  readRecording,
+  remapIds,
+  replaySession,
+} from '../../session-recorder.js';
+import type { PluginMessage } from '../../types.js';
+
+const message = (type: string, id: string, payload: any = {}): PluginMessage => ({ type, id, payload });
+
+describe('Session Recorder', () => {
+  it('should append calls as JSON lines and read them back', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'session-recorder-'));
+    try {
+      const file = path.join(dir, 'nested', 'session.jsonl');
+      const recorder = new SessionRecorder(file);
+      const frame = recorder.begin(message('create_frame', 'a', { width: 100 }));
+      const union = recorder.begin(message('union_nodes', 'b'));
+      await new Promise((resolve) => setTimeout(resolve, 25));
+      // Concurrent calls finish out of order; seq keeps the order they were sent in.
+      union({ error: 'Need at least 2 nodes for boolean operation' });
+      frame({ result: { id: '1:2' } });
+      recorder.begin(message('export_node', 'c'))({ result: 'x'.repeat(RECORDING_MAX_RESULT_CHARS + 1) });
+      await recorder.flush();
+
+      const text = await readFile(file, 'utf8');
+      assert.strictEqual(text.trim().split('\n').length, 3);
+      const calls = await readRecording(file);
+      assert.deepStrictEqual(calls.map((call) => call.seq), [2, 1, 3]);
+      assert.deepStrictEqual(calls[1].message, message('create_frame', 'a', { width: 100 }));
+      assert.deepStrictEqual(calls[1].result, { id: '1:2' });
+      assert.ok(calls[1].durationMs >= 25);
+      assert.strictEqual(calls[0].error, 'Need at least 2 nodes for boolean operation');
+      assert.strictEqual(calls[2].resultTruncated, true);
+      assert.strictEqual(calls[2].result, undefined);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject malformed recordings with the line number', () => {
+    assert.deepStrictEqual(parseRecording('\n\n'), []);
+    assert.throws(() => parseRecording('{"seq":1,"message":{"type":"x","id":"1"}}\nnot json'), /line 2: not JSON/);
+    assert.throws(() => parseRecording('{"seq":1,"message":{"id":"1"}}'), /line 1: missing message type or id/);
+  });
+
+  it('should diff values, learning renamed Figma ids instead of reporting them', () => {
+    const idMap = new Map<string, string>();
+    const differences = diffValues(
+      { createdIds: ['1:1', '1:2'], name: 'Card', timestamp: 1, nested: { parentId: '1:1' } },
+      { createdIds: ['1:7', '1:8'], name: 'Cards', timestamp: 2, nested: { parentId: '1:8' } },
+      idMap
+    );
+    assert.deepStrictEqual(Object.fromEntries(idMap), { '1:1': '1:7', '1:2': '1:8' });
+    assert.deepStrictEqual(differences, [
+      { path: '$.name', expected: 'Card', actual: 'Cards' },
+      { path: '$.nested.parentId', expected: '1:1', actual: '1:8' },
+    ]);
+    assert.deepStrictEqual(diffValues([1, 2], [1]), [{ path: '$.length', expected: 2, actual: 1 }]);
+    assert.deepStrictEqual(remapIds({ nodeIds: ['1:1', 'x'], id: '1:2' }, idMap), { nodeIds: ['1:7', 'x'], id: '1:8' });
+  });
+
+  it('should replay calls in dispatch order with remapped ids and report mismatches', async () => {
+    const calls = parseRecording([
+      JSON.stringify({ seq: 2, startedAt: '', durationMs: 2, message: message('union_nodes', 'b', { nodeIds: ['1:1', '1:2'] }), result: { id: '1:3', name: 'Union' } }),
+      JSON.stringify({ seq: 1, startedAt: '', durationMs: 4, message: message('batch_create', 'a'), result: { createdIds: ['1:1', '1:2'] } }),
+      JSON.stringify({ seq: 3, startedAt: '', durationMs: 1, message: message('union_nodes', 'c', { nodeIds: ['1:3'] }), error: 'Need at least 2 nodes' }),
+    ].join('\n'));
+
+    const sent: PluginMessage[] = [];
+    const report = await replaySession(calls, async (next) => {
+      sent.push(next);
+      if (next.type === 'batch_create') return { createdIds: ['5:1', '5:2'] };
+      if (next.payload.nodeIds.length < 2) throw new Error('Need at least 2 nodes');
+      return { id: '5:3', name: 'Merged' };
+    });
+
+    assert.deepStrictEqual(sent[1].payload.nodeIds, ['5:1', '5:2']);
+    assert.deepStrictEqual(sent[2].payload.nodeIds, ['5:3']);
+    assert.strictEqual(report.matched, 2);
+    assert.strictEqual(report.mismatched, 1);
+    assert.deepStrictEqual(report.calls[1].differences, [{ path: '$.result.name', expected: 'Union', actual: 'Merged' }]);
+    assert.deepStrictEqual(report.idMap, { '1:1': '5:1', '1:2': '5:2', '1:3': '5:3' });
+    assert.match(formatReplayReport(report), /#2 union_nodes\n {4}\$\.result\.name: expected "Union", got "Merged"/);
+
+    const stopped = await replaySession(calls, async () => ({ createdIds: [] }), { stopOnMismatch: true });
+    assert.strictEqual(stopped.calls.length, 1);
+  });
+});
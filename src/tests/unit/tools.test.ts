@@ -0,0 +1,114 @@
+// Unit Tests for Tool Definitions
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import {
+  PLUGIN_INTERNAL_MESSAGE_TYPES,
+  PLUGIN_SOURCE_PATH,
+  WORKER_FALLBACK_PATH,
+  COLOR_SOURCE_PATH,
+  pluginTools,
+  renderPluginCatalog,
+  renderPluginColor,
+  renderWorkerFallback,
+} from '../../tool-surfaces.js';
+import { TOOLS, TOOL_REGISTRY, pluginMessageType, supportsDryRun, toMcpTool } from '../../tools.js';
+import { loadPlugin } from '../plugin-harness.js';
+
+const REPO_ROOT = new URL('../../../', import.meta.url);
+
+function readRepoFile(relativePath: string): string {
+  return readFileSync(new URL(relativePath, REPO_ROOT), 'utf8');
+}
+
+// Message types accepted by the plugin's handleMessage switch.
+function pluginCaseLabels(source: string): string[] {
+  const start = source.indexOf('async function handleMessage(');
+  const body = source.slice(start, source.indexOf('\n}\n', start));
+  return [...body.matchAll(/case\s+'([^']+)'\s*:/g)].map((match) => match[1]);
+}
+
+function sorted(values: Iterable<string>): string[] {
+  return [...values].sort();
+}
+
+function findTool(name: string) {
+  const tool = TOOLS.find((item) => item.name === name);
+  assert.ok(tool, `Missing tool ${name}`);
+  return tool;
+}
+
+describe('Tool Definitions', () => {
+  it('should advertise dryRun on mutating tools', () => {
+    for (const name of ['batch_delete', 'batch_modify', 'cross_page_move', 'frame_to_components', 'create_group']) {
+      assert.ok(supportsDryRun(name));
+      assert.ok(findTool(name).inputSchema.properties?.dryRun, `${name} should accept dryRun`);
+    }
+  });
+
+  it('should not advertise dryRun on read-only, server or REST tools', () => {
+    for (const name of ['get_node_info', 'smart_select', 'apply_plan', 'undo_operations', 'cancel_operation', 'rest_get_file']) {
+      assert.ok(!supportsDryRun(name));
+      assert.strictEqual(findTool(name).inputSchema.properties?.dryRun, undefined, `${name} should not accept dryRun`);
+    }
+  });
+
+  it('should keep the original schema properties', () => {
+    const batchDelete = findTool('batch_delete');
+    assert.ok(batchDelete.inputSchema.properties?.nodeIds);
+    assert.deepStrictEqual(batchDelete.inputSchema.required, ['nodeIds']);
+  });
+
+  it('should route every registry entry consistently', () => {
+    assert.deepStrictEqual(TOOLS.map((tool) => tool.name), TOOL_REGISTRY.map((tool) => tool.name));
+    assert.strictEqual(new Set(TOOLS.map((tool) => tool.name)).size, TOOLS.length, 'tool names should be unique');
+    for (const tool of TOOL_REGISTRY) {
+      assert.strictEqual(tool.route === 'rest', tool.name.startsWith('rest_'), `${tool.name} has route ${tool.route}`);
+      if (tool.pluginType) assert.strictEqual(tool.route, 'plugin', `${tool.name} renames its plugin message off the plugin route`);
+    }
+  });
+
+  it('should flag the tools that change variables', () => {
+    const flagged = TOOL_REGISTRY.filter((tool) => tool.changesVariables);
+    assert.deepStrictEqual(sorted(flagged.map((tool) => tool.name)), [
+      'apply_plan', 'create_variable', 'create_variable_collection', 'delete_variable', 'import_design_tokens',
+      'redo_operations', 'set_variable_value', 'undo_operations',
+    ]);
+    // The server only reports variable changes for calls on the plain plugin route.
+    for (const tool of flagged) assert.strictEqual(tool.route, 'plugin', `${tool.name} has route ${tool.route}`);
+    assert.ok(!('changesVariables' in toMcpTool(flagged[0])), 'the flag stays server-side');
+  });
+
+  it('should only advertise an outputSchema where a tool declares one', () => {
+    for (const tool of TOOL_REGISTRY) {
+      if (tool.outputSchema) {
+        assert.strictEqual(tool.outputSchema.type, 'object', `${tool.name} should declare an object outputSchema`);
+      } else {
+        assert.ok(!('outputSchema' in toMcpTool(tool)), `${tool.name} advertises an outputSchema it does not declare`);
+      }
+    }
+    assert.strictEqual(findTool('export_node').outputSchema, undefined);
+  });
+
+  it('should match the plugin handlers one to one', () => {
+    const handled = pluginCaseLabels(readRepoFile(PLUGIN_SOURCE_PATH));
+    assert.strictEqual(new Set(handled).size, handled.length, 'duplicate case labels in handleMessage');
+    const expected = [...pluginTools().map(pluginMessageType), ...PLUGIN_INTERNAL_MESSAGE_TYPES];
+    assert.deepStrictEqual(sorted(handled), sorted(expected));
+  });
+
+  it('should keep the generated plugin catalog, color block and worker fallback in sync', () => {
+    const pluginSource = readRepoFile(PLUGIN_SOURCE_PATH);
+    assert.ok(renderPluginCatalog(pluginSource) === pluginSource, `${PLUGIN_SOURCE_PATH} is stale; run npm run generate:tools`);
+    assert.ok(
+      renderPluginColor(pluginSource, readRepoFile(COLOR_SOURCE_PATH)) === pluginSource,
+      `${PLUGIN_SOURCE_PATH} color block differs from ${COLOR_SOURCE_PATH}; run npm run generate:tools`
+    );
+    assert.ok(renderWorkerFallback() === readRepoFile(WORKER_FALLBACK_PATH), `${WORKER_FALLBACK_PATH} is stale; run npm run generate:tools`);
+  });
+
+  it('should serve the registry schemas from the built plugin', async () => {
+    const { tools } = await loadPlugin().call('get_tools');
+    assert.deepStrictEqual(tools, pluginTools().map(toMcpTool));
+  });
+});
@@ -0,0 +1,86 @@
+// Tool Surfaces - 由工具注册表生成插件 get_tools 清单与 Cloudflare worker 回退清单，并把 src/color.ts 生成进插件
+import { TOOL_REGISTRY, ToolDefinition, isPluginRoute, toMcpTool } from './tools.js';
+
+export const PLUGIN_SOURCE_PATH = 'figma-plugin/code.ts';
+export const WORKER_FALLBACK_PATH = 'deploy/cloudflare/fallback-tools.ts';
+export const COLOR_SOURCE_PATH = 'src/color.ts';
+
+// Relay, UI and transport messages the plugin's handleMessage accepts besides tools.
+export const PLUGIN_INTERNAL_MESSAGE_TYPES = [
+  'progress_update', 'progress_complete', 'log', 'get_tools', 'cancel', 'get_page_info', 'read_export_chunk',
+];
+
+const CATALOG_START = '// <generated:tool-catalog>';
+const CATALOG_END = '// </generated:tool-catalog>';
+const GENERATED_NOTE = '// Generated from src/tools.ts by `npm run generate:tools`; do not edit by hand.';
+const COLOR_START = '// <generated:color>';
+const COLOR_END = '// </generated:color>';
+const COLOR_NOTE = '// Generated from src/color.ts by `npm run generate:tools`; do not edit by hand.';
+
+// Tools the plugin executes (whatever the server does around the call).
+export function pluginTools(): ToolDefinition[] {
+  return TOOL_REGISTRY.filter((tool) => isPluginRoute(tool.route));
+}
+
+// Tools a worker session can serve: its own session tools plus everything it forwards to the plugin.
+export function workerTools(): ToolDefinition[] {
+  return TOOL_REGISTRY.filter((tool) => tool.route === 'session' || isPluginRoute(tool.route));
+}
+
+function toolLines(tools: ToolDefinition[]): string[] {
+  return tools.map((tool) => `  ${JSON.stringify(toMcpTool(tool))},`);
+}
+
+export function renderWorkerFallback(): string {
+  const tools = workerTools();
+  const exportTools = tools.filter((tool) => tool.route === 'export').map((tool) => `'${tool.name}'`);
+  const structuredTools = tools.filter((tool) => tool.outputSchema).map((tool) => `'${tool.name}'`);
+  return [
+    GENERATED_NOTE,
+    "import { Tool } from '@modelcontextprotocol/sdk/types.js';",
+    '',
+    'export const FULL_TOOLS_FALLBACK: Tool[] = [',
+    ...toolLines(tools),
+    '];',
+    '',
+    '// MCP tool name -> plugin message type, where they differ.',
+    'export const PLUGIN_MESSAGE_TYPES: Record<string, string> = {',
+    ...tools.filter((tool) => tool.pluginType).map((tool) => `  ${tool.name}: '${tool.pluginType}',`),
+    '};',
+    '',
+    `export const EXPORT_TOOLS = new Set([${exportTools.join(', ')}]);`,
+    '',
+    '// Tools that declare an outputSchema; only their results carry structuredContent.',
+    `export const STRUCTURED_TOOLS = new Set([${structuredTools.join(', ')}]);`,
+    '',
+  ].join('\n');
+}
+
+// Replaces a marked block in the plugin source; everything outside the markers is kept as is.
+function replaceMarkedBlock(source: string, startMarker: string, endMarker: string, lines: string[]): string {
+  const start = source.indexOf(startMarker);
+  const end = source.indexOf(endMarker);
+  if (start < 0 || end < start) {
+    throw new Error(`${PLUGIN_SOURCE_PATH} is missing the ${startMarker} ... ${endMarker} markers`);
+  }
+  return source.slice(0, start) + [startMarker, ...lines, ''].join('\n') + source.slice(end);
+}
+
+export function renderPluginCatalog(source: string): string {
+  return replaceMarkedBlock(source, CATALOG_START, CATALOG_END, [
+    GENERATED_NOTE,
+    'const PLUGIN_TOOL_CATALOG: PluginToolDescriptor[] = [',
+    ...toolLines(pluginTools()),
+    '];',
+  ]);
+}
+
+// The plugin has no module system, so src/color.ts is inlined without exports; RGB comes from the Figma typings.
+export function renderPluginColor(source: string, colorSource: string): string {
+  const body = colorSource
+    .replace(/^\/\/ Color - [^\n]*\n\n/, '')
+    .replace(/^\/\/ Channels are[^\n]*\nexport interface RGB \{[^}]*\}\n/m, "// Channels are 0-1 throughout; RGB is Figma's own paint color type here.\n")
+    .replace(/^export /gm, '')
+    .trimEnd();
+  return replaceMarkedBlock(source, COLOR_START, COLOR_END, [COLOR_NOTE, '', body]);
+}
@@ -0,0 +1,2392 @@
+// Tool Definitions - MCP 工具清单
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ANALYZE_RESULT_SCHEMA,
+  BATCH_OUTPUT_SCHEMA,
+  CANCEL_RESULT_SCHEMA,
+  COMPONENT_ANALYSIS_SCHEMA,
+  CONNECTION_STATUS_SCHEMA,
+  CONNECT_RESULT_SCHEMA,
+  NODE_INFO_SCHEMA,
+  SELECTION_SCHEMA,
+} from './output-schemas.js';
+
+const ATOMIC_PROPERTY = {
+  type: 'boolean',
+  default: false,
+  description: 'Stop at the first failing operation and roll back every change made by this call. Refused up front if the operation journal cannot capture the call',
+};
+
+const OUTPUT_DIR_PROPERTY = {
+  type: 'string',
+  description: 'Directory on the MCP server host to write exported files to (created if missing); file paths are added to the result. Must be inside the server export root (--export-root, default <tmpdir>/figma-mcp-exports); relative paths resolve against it',
+};
+
+export type ToolCategory =
+  | 'system' | 'discovery' | 'batch' | 'component' | 'prototype' | 'style' | 'intelligence' | 'utility'
+  | 'page' | 'node' | 'layout' | 'variable' | 'export' | 'code' | 'library' | 'rest';
+
+// Where a call is handled:
+// - session: by whichever host holds the MCP session (local server or Cloudflare worker)
+// - server: by the local MCP server only
+// - rest: by the Figma REST API bridge
+// - plugin / batch / export: forwarded to the plugin (batch with progress and cancellation, export with bytes pulled back as content blocks)
+export type ToolRoute = 'session' | 'server' | 'rest' | 'plugin' | 'batch' | 'export';
+
+export interface ToolDefinition extends Tool {
+  category: ToolCategory;
+  route: ToolRoute;
+  // Message type handled by the plugin, when it differs from the MCP tool name.
+  pluginType?: string;
+  // Creates, edits or deletes variables or collections (undo, redo and apply_plan may replay such edits);
+  // the server then notifies figma://variables subscribers.
+  changesVariables?: boolean;
+}
+
+type ToolEntry = Tool & Partial<Pick<ToolDefinition, 'route' | 'pluginType' | 'changesVariables'>>;
+
+function defineTools(category: ToolCategory, route: ToolRoute, tools: ToolEntry[]): ToolDefinition[] {
+  return tools.map((tool) => ({
+    ...tool,
+    category,
+    route: tool.route ?? route,
+  }));
+}
+
+// Single source of truth for every tool: the server's tool list and routing, the plugin's get_tools catalog and the
+// Cloudflare worker fallback are all derived from it (see src/tool-surfaces.ts and `npm run generate:tools`).
+const TOOL_DEFINITIONS: ToolDefinition[] = [
+  // ===== System Tools =====
+  ...defineTools('system', 'session', [
+    {
+      name: 'connect_to_relay',
+      description: 'Connect to Figma via Relay Server. Prerequisite: user must open the Figma plugin first and provide a real Channel Code. NEVER guess/fabricate channelCode. If missing, ask user to provide: connect_to_relay {"relayUrl":"ws://127.0.0.1:8888","channelCode":"<CHANNEL_FROM_FIGMA_PLUGIN>"}. Use wss:// for remote production relay endpoints.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          relayUrl: {
+            type: 'string',
+            description: 'Optional. Relay WebSocket URL (e.g., ws://127.0.0.1:8080). If omitted, server default is used.',
+          },
+          channelCode: {
+            type: 'string',
+            description: 'Required. Real Channel Code displayed in Figma plugin (e.g., ABC123). Do not invent values.',
+          },
+        },
+        required: ['channelCode'],
+      },
+      outputSchema: CONNECT_RESULT_SCHEMA,
+    },
+    {
+      name: 'get_connection_status',
+      description: 'Check MCP<->Figma connection state before any design tool call. Supports optional debug event controls to reduce noisy payloads.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          includeDebugEvents: {
+            type: 'boolean',
+            default: false,
+            description: 'Whether to include relay debugEvents in response.',
+          },
+          debugLimit: {
+            type: 'number',
+            default: 20,
+            minimum: 1,
+            maximum: 200,
+            description: 'Max number of newest debug events to include when includeDebugEvents=true.',
+          },
+        },
+      },
+      outputSchema: CONNECTION_STATUS_SCHEMA,
+    },
+  ]),
+  // ===== Smart Discovery Tools =====
+  ...defineTools('discovery', 'plugin', [
+    {
+      name: 'smart_select',
+      route: 'batch',
+      description: 'AI-powered semantic node retrieval using natural language query (fuzzy, not exact-match filtering). Supports current page, whole document, or explicit pageIds/pageNames. For deterministic exact filtering, prefer scan_by_pattern.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Natural language query, e.g., "all buttons", "login form elements", "red cards in header". Color words (red, orange, brown, yellow, green, cyan/teal, blue, purple, pink, black, white, gray, or 红色/蓝色/…) match by perceptual hue family; a hex such as "#3366ff" matches fills within ΔE2000 10',
+          },
+          scope: {
+            type: 'string',
+            enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
+            default: 'document',
+            description: 'Search scope when pageIds/pageNames are not provided.',
+          },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to search. Takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to search (case-insensitive). Takes precedence over scope.' },
+          limit: {
+            type: 'number',
+            default: 100,
+            description: 'Maximum results to return',
+          },
+        },
+        required: ['query'],
+      },
+    },
+    {
+      name: 'find_similar',
+      route: 'batch',
+      description: 'Find nodes visually or structurally similar to a target node (type, size, CIEDE2000 fill color distance, corner radius, auto layout). Supports current page, whole document, or explicit pageIds/pageNames.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          targetId: {
+            type: 'string',
+            description: 'ID of the reference node',
+          },
+          threshold: {
+            type: 'number',
+            default: 0.85,
+            minimum: 0,
+            maximum: 1,
+            description: 'Similarity threshold (0-1)',
+          },
+          scope: {
+            type: 'string',
+            enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
+            default: 'document',
+            description: 'Search scope when pageIds/pageNames are not provided.',
+          },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to search. Takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to search (case-insensitive). Takes precedence over scope.' },
+        },
+        required: ['targetId'],
+      },
+    },
+    {
+      name: 'scan_by_pattern',
+      description: 'Scan nodes by pattern (name/type/size/color/layout). Supports current page, whole document, or explicit pageIds/pageNames. Returns paginated-like payload with `nodes` and truncation metadata.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pattern: {
+            type: 'object',
+            properties: {
+              nameRegex: { type: 'string' },
+              types: { type: 'array', items: { type: 'string' } },
+              minWidth: { type: 'number' },
+              maxWidth: { type: 'number' },
+              minHeight: { type: 'number' },
+              maxHeight: { type: 'number' },
+              fillColor: { type: 'object' },
+              hasAutoLayout: { type: 'boolean' },
+            },
+          },
+          limit: {
+            type: 'number',
+            default: 200,
+            minimum: 1,
+            maximum: 5000,
+            description: 'Maximum matched nodes to return. Use to prevent oversized responses on large documents.',
+          },
+          scope: {
+            type: 'string',
+            enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
+            default: 'document',
+            description: 'Search scope when pageIds/pageNames are not provided.',
+          },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to scan. Takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to scan (case-insensitive). Takes precedence over scope.' },
+        },
+        required: ['pattern'],
+      },
+    },
+    {
+      name: 'auto_discover_components',
+      description: 'Automatically analyze nodes and discover opportunities for component creation. Supports current page, whole document, or explicit pageIds/pageNames.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: {
+            type: 'string',
+            enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'],
+            default: 'page',
+            description: 'Analysis scope when pageIds/pageNames are not provided.',
+          },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. Takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). Takes precedence over scope.' },
+          minSimilarity: { type: 'number', default: 0.9 },
+          minOccurrences: { type: 'number', default: 3 },
+        },
+      },
+    },
+  ]),
+
+  // ===== Batch Operation Tools =====
+  ...defineTools('batch', 'batch', [
+    {
+      name: 'batch_create',
+      description: 'Batch create multiple nodes efficiently. Handles 1000+ operations without timeout. `operation.type` accepts alias formats: snake_case, camelCase, kebab-case, and uppercase.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: {
+                  type: 'string',
+                  description: 'Create type alias. Supported families: rectangle/frame/text/component/ellipse/line/polygon/star/vector. Examples: `create_frame`, `createFrame`, `frame`.',
+                },
+                params: {
+                  type: 'object',
+                  description: 'Node properties. Paint arrays (`fills`/`strokes`) support either hex strings (e.g. `#4A90E2`) or full Figma paint objects.',
+                },
+              },
+            },
+          },
+          chunkSize: { type: 'number', default: 50 },
+          continueOnError: { type: 'boolean', default: true },
+          atomic: ATOMIC_PROPERTY,
+        },
+        required: ['operations'],
+      },
+      outputSchema: BATCH_OUTPUT_SCHEMA,
+    },
+    {
+      name: 'batch_modify',
+      description: 'Batch modify multiple nodes in one operation.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                nodeId: { type: 'string' },
+                changes: { type: 'object' },
+              },
+            },
+          },
+          chunkSize: { type: 'number', default: 50 },
+          atomic: ATOMIC_PROPERTY,
+        },
+        required: ['operations'],
+      },
+      outputSchema: BATCH_OUTPUT_SCHEMA,
+    },
+    {
+      name: 'batch_clone',
+      description: 'Clone a template node multiple times with optional position offset. For large counts, IDs are optional and can be truncated to keep payloads small.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          templateId: { type: 'string' },
+          count: { type: 'number' },
+          offsetX: { type: 'number', default: 200 },
+          offsetY: { type: 'number', default: 0 },
+          gridColumns: { type: 'number', default: 5 },
+          includeIds: { type: 'boolean', default: false, description: 'Whether to include cloned node IDs in the response.' },
+          maxReturnedIds: { type: 'number', default: 100, minimum: 0, maximum: 5000, description: 'Maximum number of IDs returned when includeIds=true.' },
+        },
+        required: ['templateId', 'count'],
+      },
+    },
+    {
+      name: 'batch_rename',
+      description: 'Batch rename nodes with pattern support.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          pattern: { type: 'string', description: 'Name pattern with {index} placeholder' },
+          startIndex: { type: 'number', default: 1 },
+          atomic: ATOMIC_PROPERTY,
+        },
+        required: ['nodeIds', 'pattern'],
+      },
+    },
+    {
+      name: 'batch_delete',
+      description: 'Batch delete multiple nodes safely.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          confirm: { type: 'boolean', default: false },
+        },
+        required: ['nodeIds'],
+      },
+    },
+  ]),
+
+  // ===== Component System Tools =====
+  ...defineTools('component', 'plugin', [
+    {
+      name: 'create_component_from_nodes',
+      description: 'Convert multiple nodes into a component. Can organize similar nodes automatically.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          organize: { type: 'boolean', default: true, description: 'Organize components on a dedicated page' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'create_variant_set',
+      description: 'Create a component set with variants from multiple components.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentIds: { type: 'array', items: { type: 'string' } },
+          propertyName: { type: 'string' },
+          propertyValues: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['componentIds', 'propertyName', 'propertyValues'],
+      },
+    },
+    {
+      name: 'auto_create_variants',
+      description: 'Intelligently analyze a component and auto-generate variants based on property differences.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentId: { type: 'string' },
+          detectProperties: { type: 'array', items: { type: 'string' }, default: ['fills', 'text', 'visibility'] },
+        },
+        required: ['componentId'],
+      },
+    },
+    {
+      name: 'merge_to_component',
+      description: 'Intelligently merge similar nodes into a component, creating instances to replace originals.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          smartMatch: { type: 'boolean', default: true, description: 'Auto-group similar nodes' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'detach_instance',
+      description: 'Detach component instances and optionally delete the main component.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instanceIds: { type: 'array', items: { type: 'string' } },
+          deleteMainComponent: { type: 'boolean', default: false },
+        },
+        required: ['instanceIds'],
+      },
+    },
+    {
+      name: 'swap_component',
+      description: 'Swap multiple instances to a different component.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instanceIds: { type: 'array', items: { type: 'string' } },
+          newComponentKey: { type: 'string' },
+          preserveOverrides: { type: 'boolean', default: true },
+        },
+        required: ['instanceIds', 'newComponentKey'],
+      },
+    },
+  ]),
+
+  // ===== Prototype System Tools =====
+  ...defineTools('prototype', 'plugin', [
+    {
+      name: 'create_interaction',
+      description: 'Create a prototype interaction between two nodes (strict mode). Source must support reactions (recommended FRAME/INSTANCE). Supported trigger types: ON_CLICK, ON_HOVER, ON_PRESS, AFTER_TIMEOUT, MOUSE_UP, MOUSE_DOWN, MOUSE_ENTER, MOUSE_LEAVE, ON_MEDIA_END. ON_DRAG/keyboard triggers are currently unsupported and are rejected explicitly. Supported action types: NODE, BACK, CLOSE, URL. For NODE actions, destinationId/navigation/transition must be valid. Unsupported types are rejected with explicit errors (no silent downgrade).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fromNodeId: { type: 'string' },
+          toNodeId: { type: 'string' },
+          trigger: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['ON_CLICK', 'ON_HOVER', 'ON_PRESS', 'AFTER_TIMEOUT', 'MOUSE_UP', 'MOUSE_DOWN', 'MOUSE_ENTER', 'MOUSE_LEAVE', 'ON_MEDIA_END'] },
+              delay: { type: 'number' },
+              timeout: { type: 'number' },
+            },
+          },
+          action: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['NODE', 'BACK', 'CLOSE', 'URL', 'OPEN_LINK'] },
+              navigation: { type: 'string', enum: ['NAVIGATE', 'OVERLAY', 'SWAP', 'SCROLL_TO', 'CHANGE_TO'] },
+              destinationId: { type: 'string' },
+              url: { type: 'string' },
+              animation: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['DISSOLVE', 'SMART_ANIMATE', 'MOVE_IN', 'MOVE_OUT', 'PUSH', 'SLIDE_IN', 'SLIDE_OUT'] },
+                  direction: { type: 'string', enum: ['LEFT', 'RIGHT', 'TOP', 'BOTTOM'] },
+                  matchLayers: { type: 'boolean' },
+                  duration: { type: 'number' },
+                  easing: { type: 'string', enum: ['EASE_IN', 'EASE_OUT', 'EASE_IN_AND_OUT', 'LINEAR'] },
+                },
+              },
+              transition: { type: 'object' },
+              preserveScrollPosition: { type: 'boolean' },
+              resetScrollPosition: { type: 'boolean' },
+              resetVideoPosition: { type: 'boolean' },
+              resetInteractiveComponents: { type: 'boolean' },
+            },
+          },
+        },
+        required: ['fromNodeId', 'toNodeId'],
+      },
+    },
+    {
+      name: 'batch_connect',
+      description: 'Batch create prototype connections.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          connections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                fromNodeId: { type: 'string' },
+                toNodeId: { type: 'string' },
+                trigger: { type: 'object' },
+                action: { type: 'object' },
+              },
+            },
+          },
+        },
+        required: ['connections'],
+      },
+    },
+    {
+      name: 'copy_prototype',
+      description: 'Copy prototype interactions from one node to others.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sourceNodeId: { type: 'string' },
+          targetNodeIds: { type: 'array', items: { type: 'string' } },
+          adjustTargets: { type: 'boolean', default: true, description: 'Auto-adjust destination based on target context' },
+        },
+        required: ['sourceNodeId', 'targetNodeIds'],
+      },
+    },
+    {
+      name: 'create_flow',
+      description: 'Create a prototype flow with a starting frame.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          startFrameId: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['startFrameId', 'name'],
+      },
+    },
+  ]),
+
+  // ===== Style System Tools =====
+  ...defineTools('style', 'plugin', [
+    {
+      name: 'create_color_style',
+      description: 'Create a color style from a node or direct values.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          color: { type: 'object', properties: { r: {}, g: {}, b: {}, a: {} } },
+          sourceNodeId: { type: 'string' },
+        },
+      },
+    },
+    {
+      name: 'create_text_style',
+      description: 'Create a text style from a text node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          sourceNodeId: { type: 'string' },
+        },
+        required: ['name', 'sourceNodeId'],
+      },
+    },
+    {
+      name: 'apply_style_to_nodes',
+      description: 'Apply a style to multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          styleId: { type: 'string' },
+          nodeIds: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['styleId', 'nodeIds'],
+      },
+    },
+    {
+      name: 'sync_styles_to_library',
+      description: 'Sync local styles to a team library.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          styleIds: { type: 'array', items: { type: 'string' } },
+          libraryFileKey: { type: 'string' },
+        },
+        required: ['styleIds'],
+      },
+    },
+  ]),
+
+  // ===== Intelligence Tools =====
+  ...defineTools('intelligence', 'plugin', [
+    {
+      name: 'analyze_duplicates',
+      route: 'batch',
+      description: 'Analyze duplicate/similar elements and return consolidation opportunities. Scope can target current page, whole document, or explicit pageIds/pageNames. Supports output caps for large files.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'document' },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. If provided, takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope.' },
+          threshold: { type: 'number', default: 0.9 },
+          minOccurrences: { type: 'number', default: 2 },
+          maxGroups: { type: 'number', default: 100, minimum: 1, maximum: 1000, description: 'Maximum duplicate groups returned.' },
+          maxNodesPerGroup: { type: 'number', default: 50, minimum: 1, maximum: 200, description: 'Maximum node references returned per duplicate group.' },
+          maxAnalyzedNodes: { type: 'number', default: 5000, minimum: 100, maximum: 50000, description: 'Hard limit for analyzed nodes to prevent timeouts on very large documents.' },
+        },
+      },
+      outputSchema: ANALYZE_RESULT_SCHEMA,
+    },
+    {
+      name: 'suggest_component_structure',
+      description: 'Analyze design and suggest optimal component structure. Scope can target current page, whole document, or explicit pageIds/pageNames.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'document' },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. If provided, takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope.' },
+          maxDepth: { type: 'number', default: 3 },
+        },
+      },
+    },
+    {
+      name: 'generate_naming_scheme',
+      description: 'Generate consistent naming scheme for nodes based on patterns.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          convention: { type: 'string', enum: ['semantic', 'functional', 'atomic'], default: 'semantic' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'check_consistency',
+      description: 'Check design consistency (spacing, colors, typography). Scope can target current page, whole document, or explicit pageIds/pageNames.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'document' },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to analyze. If provided, takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to analyze (case-insensitive). If provided, takes precedence over scope.' },
+          checks: { type: 'array', items: { type: 'string' }, default: ['colors', 'typography', 'spacing'] },
+        },
+      },
+    },
+    {
+      name: 'extract_palette',
+      description: 'Extract the color palette in use: visible solid fills (and strokes) are clustered in CIELAB by CIEDE2000 distance. Each palette color reports its most used hex, a name and hue family, usage count and share, the near-duplicate hexes merged into it, OKLCH and HSL values, and the node ids using it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'page' },
+          pageIds: { type: 'array', items: { type: 'string' } },
+          pageNames: { type: 'array', items: { type: 'string' } },
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Nodes (and their subtrees) to scan (default: scope)' },
+          maxColors: { type: 'number', default: 12, description: 'Merge the closest clusters until at most this many colors remain' },
+          maxDeltaE: { type: 'number', default: 6, description: 'Colors within this ΔE2000 of a cluster join it (1 ≈ just noticeable)' },
+          includeStrokes: { type: 'boolean', default: true },
+          maxNodeIdsPerColor: { type: 'number', default: 50 },
+        },
+      },
+    },
+    {
+      name: 'fix_consistency',
+      description: 'Fix consistency issues instead of only reporting them: snap near-duplicate solid colors to the closest local paint style or color variable (CIEDE2000 ΔE), snap unstyled font sizes to the nearest step of the text style scale, and round auto layout spacing to the grid. Changes are journaled for undo_operations; use dryRun to preview.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Nodes (and their subtrees) to fix (default: scope)' },
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'page' },
+          pageIds: { type: 'array', items: { type: 'string' } },
+          pageNames: { type: 'array', items: { type: 'string' } },
+          checks: { type: 'array', items: { type: 'string', enum: ['colors', 'typography', 'spacing'] }, default: ['colors', 'typography', 'spacing'] },
+          maxDeltaE: { type: 'number', default: 5, description: 'Largest ΔE2000 at which a color snaps to a token (1 ≈ just noticeable)' },
+          fontScale: { type: 'array', items: { type: 'number' }, description: 'Font size steps (default: sizes of local text styles)' },
+          maxFontSizeDelta: { type: 'number', default: 4, description: 'Only snap font sizes within this many px of a step' },
+          grid: { type: 'number', default: 4 },
+        },
+      },
+    },
+    {
+      name: 'lint_design',
+      description: 'Rule-based design linter. Rules: unstyled-fill, detached-text-style, off-grid-spacing, off-scale-radius, hidden-layer, empty-frame, default-name, instance-overrides. Each finding carries a node id and, where possible, an autofix (apply_fill_style, apply_text_style, set_properties, rename, delete, reset_overrides); fix: true applies them. Hidden layers inside components or bound to a visibility property are not reported.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'page' },
+          pageIds: { type: 'array', items: { type: 'string' } },
+          pageNames: { type: 'array', items: { type: 'string' } },
+          config: {
+            type: 'object',
+            description: 'Lint config (object or JSON string): { rules: { "<rule>": false | true | { severity, ...options } } }. Options: unstyled-fill.allowedColors (hex), off-grid-spacing.grid (default 4) and allowedValues, off-scale-radius.scale (default [0,2,4,6,8,12,16,24,32]), instance-overrides.allowedFields (default characters, text, visible, name, componentProperties). Rules not listed stay enabled.',
+          },
+          maxFindings: { type: 'number', default: 500 },
+          fix: { type: 'boolean', default: false, description: 'Apply the autofixes of the findings' },
+          fixRules: { type: 'array', items: { type: 'string' }, description: 'Only apply autofixes for these rules (with fix). Default: all enabled rules except the destructive delete (hidden-layer, empty-frame) and reset_overrides (instance-overrides) fixes, which run only when their rule is listed here.' },
+        },
+      },
+    },
+    {
+      name: 'audit_accessibility',
+      description: 'Audit accessibility: WCAG 2.x contrast between each text fill and its effective background (ancestors and sibling layers behind it, blended), touch targets under the minimum on button-like nodes, text below a minimum size, and images without a descriptive name. Returns issues with severity, node id and a suggested fix; optionally selects the offending nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'page' },
+          pageIds: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page IDs to audit. If provided, takes precedence over scope.' },
+          pageNames: { type: 'array', items: { type: 'string' }, description: 'Optional explicit page names to audit (case-insensitive). If provided, takes precedence over scope.' },
+          checks: {
+            type: 'array',
+            items: { type: 'string', enum: ['contrast', 'touch_targets', 'text_size', 'image_descriptions'] },
+            default: ['contrast', 'touch_targets', 'text_size', 'image_descriptions'],
+          },
+          level: { type: 'string', enum: ['AA', 'AAA'], default: 'AA', description: 'WCAG contrast level (AA: 4.5/3 for large text, AAA: 7/4.5)' },
+          minTouchTarget: { type: 'number', default: 44 },
+          minFontSize: { type: 'number', default: 12 },
+          maxIssues: { type: 'number', default: 500 },
+          selectOffenders: { type: 'boolean', default: false, description: 'Select the offending nodes on canvas (first offender page)' },
+          focus: { type: 'boolean', default: true, description: 'Zoom to the selection (with selectOffenders)' },
+        },
+      },
+    },
+    {
+      name: 'fix_contrast',
+      description: 'Fix text that fails WCAG contrast (same measurement as audit_accessibility). For each failing text node the nearest passing color is chosen, preferring local color variables and solid paint styles over a raw hex; a chosen variable is bound to the fill and a chosen style is applied. Use dryRun to get the plan first.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Text nodes or containers to fix (default: scope)' },
+          scope: { type: 'string', enum: ['page', 'current_page', 'currentPage', 'current-page', 'selected_nodes', 'selected-nodes', 'selectedNodes', 'selection', 'document'], default: 'page' },
+          pageIds: { type: 'array', items: { type: 'string' } },
+          pageNames: { type: 'array', items: { type: 'string' } },
+          level: { type: 'string', enum: ['AA', 'AAA'], default: 'AA' },
+          preferTokens: { type: 'boolean', default: true, description: 'Use a passing color variable or paint style when one is close enough' },
+          maxTokenDistance: { type: 'number', default: 0.5, description: 'Max RGB distance (0-1.73) between the original color and a token; farther tokens fall back to raw hex' },
+        },
+      },
+    },
+    {
+      name: 'select_nodes',
+      description: 'Select nodes by IDs on canvas. Selection is applied on the active page; cross-page IDs are reported in skippedCrossPageIds. Can optionally append to current selection and focus viewport.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          append: { type: 'boolean', default: false },
+          focus: { type: 'boolean', default: true },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'set_focus',
+      description: 'Set viewport focus by node(s) or by canvas coordinates.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          zoom: { type: 'number' },
+        },
+      },
+    },
+    {
+      name: 'move_nodes',
+      description: 'Move multiple nodes by delta offsets. Operates by node ID globally (can move nodes on different pages in one call).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          deltaX: { type: 'number', default: 0 },
+          deltaY: { type: 'number', default: 0 },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'set_node_position',
+      description: 'Set absolute x/y position for a single node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          x: { type: 'number' },
+          y: { type: 'number' },
+        },
+        required: ['nodeId', 'x', 'y'],
+      },
+    },
+    {
+      name: 'arrange_nodes',
+      route: 'batch',
+      description: 'Auto-arrange nodes into row/column/grid with optional collision avoidance, geometric quality checks, and optional before/after visual snapshots. Returns strict diagnostics via missingIds + missingDetails (reasons: not_found/not_positionable/missing_bounds/cross_page_filtered).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Optional. If omitted, uses current selection.' },
+          layout: { type: 'string', enum: ['row', 'column', 'grid'], default: 'row' },
+          columns: { type: 'number', description: 'Used when layout=grid. Auto-calculated if omitted.' },
+          groupBy: {
+            type: 'string',
+            enum: ['none', 'type', 'typeAndComponent'],
+            default: 'none',
+            description: 'When set to type/typeAndComponent, nodes are grouped by layer type and optionally component name before arranging.'
+          },
+          spacingX: { type: 'number', default: 120 },
+          spacingY: { type: 'number', default: 120 },
+          startX: { type: 'number', description: 'Optional fixed start X. Defaults to min x of selected nodes.' },
+          startY: { type: 'number', description: 'Optional fixed start Y. Defaults to min y of selected nodes.' },
+          withinContainerId: { type: 'string', description: 'Optional container/frame to keep nodes inside and parent under.' },
+          placementPolicy: { type: 'string', enum: ['preserve_lane', 'min_move', 'strict_no_overlap'], default: 'min_move', description: 'Collision resolution strategy; min_move keeps nodes closer to original area.' },
+          avoidOverlaps: { type: 'boolean', default: true, description: 'When true, shifts candidates to avoid overlaps with non-target nodes.' },
+          verifyVisual: { type: 'boolean', default: false, description: 'When true, capture before/after snapshots and include quality metrics.' },
+          snapshotMode: { type: 'string', enum: ['selection', 'region', 'page'], default: 'selection', description: 'Capture mode used when verifyVisual=true.' },
+          snapshotScale: { type: 'number', default: 1, description: 'Export scale for snapshots.' },
+          focus: { type: 'boolean', default: true, description: 'Focus viewport to arranged nodes after operation.' },
+        },
+      },
+    },
+    {
+      name: 'containerize_nodes',
+      description: 'Reparent nodes into a target container while preserving their visual position as much as possible.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          containerId: { type: 'string' },
+        },
+        required: ['nodeIds', 'containerId'],
+      },
+    },
+    {
+      name: 'validate_structure',
+      description: 'Validate container membership, bounds containment, and overlap for a set of nodes. Useful after layout operations.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Optional. If omitted, uses current selection.' },
+          containerId: { type: 'string', description: 'Optional container to validate parent/inside status.' },
+        },
+      },
+    },
+    {
+      name: 'capture_view',
+      route: 'export',
+      description: 'Capture a visual snapshot as PNG for selected nodes, a region, or current page. Returns metadata plus the full PNG as an image content block.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: ['selection', 'region', 'page'], default: 'selection' },
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Optional for mode=selection. Defaults to current selection.' },
+          x: { type: 'number', description: 'Required for mode=region.' },
+          y: { type: 'number', description: 'Required for mode=region.' },
+          width: { type: 'number', description: 'Required for mode=region.' },
+          height: { type: 'number', description: 'Required for mode=region.' },
+          scale: { type: 'number', default: 1 },
+          includeBase64: { type: 'boolean', default: true, description: 'Return the captured PNG as an image content block; false returns metadata only.' },
+          outputDir: OUTPUT_DIR_PROPERTY,
+        },
+      },
+    },
+  ]),
+
+  // ===== Utility Tools =====
+  ...defineTools('utility', 'plugin', [
+    {
+      name: 'get_document_info',
+      description: 'Get document/page structure with configurable output caps to avoid oversized payloads on large files.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          includeChildren: { type: 'boolean', default: true },
+          maxDepth: { type: 'number', default: 10 },
+          maxPages: { type: 'number', default: 100, minimum: 1, maximum: 500, description: 'Maximum pages returned.' },
+          maxNodesPerPage: { type: 'number', default: 1200, minimum: 100, maximum: 10000, description: 'Maximum descendant nodes returned per page when includeChildren=true.' },
+          maxChildrenPerNode: { type: 'number', default: 200, minimum: 20, maximum: 1000, description: 'Maximum direct children returned for each node in tree output.' },
+        },
+      },
+    },
+    {
+      name: 'get_node_info',
+      description: 'Get detailed info about a node including children.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          includeChildren: { type: 'boolean', default: true },
+        },
+        required: ['nodeId'],
+      },
+      outputSchema: NODE_INFO_SCHEMA,
+    },
+    {
+      name: 'get_selection',
+      description: 'Get the current selection on the active page, including node metadata for each selected node',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          includeChildren: { type: 'boolean', default: false },
+        },
+      },
+      outputSchema: SELECTION_SCHEMA,
+    },
+    {
+      name: 'set_multiple_text_contents',
+      description: 'Update multiple text nodes at once.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          updates: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                nodeId: { type: 'string' },
+                text: { type: 'string' },
+              },
+            },
+          },
+          atomic: ATOMIC_PROPERTY,
+        },
+        required: ['updates'],
+      },
+    },
+    {
+      name: 'undo_operations',
+      changesVariables: true,
+      description: 'Revert operations recorded in the plugin operation journal. Every mutating tool result carries an operationId; pass it to revert exactly that operation, or omit it to revert the most recent `steps` operations. Reports anything that could not be restored.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operationId: { type: 'string', description: 'operationId returned by a mutating tool' },
+          steps: { type: 'number', default: 1, description: 'Number of recent operations to revert when operationId is omitted (max 20)' },
+          force: { type: 'boolean', default: false, description: 'Revert even if the affected nodes changed after the operation' },
+        },
+      },
+    },
+    {
+      name: 'redo_operations',
+      changesVariables: true,
+      description: 'Re-apply operations previously reverted with undo_operations, using the same operation journal.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operationId: { type: 'string', description: 'operationId of an undone operation' },
+          steps: { type: 'number', default: 1, description: 'Number of most recently undone operations to re-apply when operationId is omitted (max 20)' },
+          force: { type: 'boolean', default: false, description: 'Re-apply even if the affected nodes changed after the undo' },
+        },
+      },
+    },
+    {
+      name: 'list_operation_journal',
+      description: 'List recent journaled operations (newest first) with their operationId, tool, status and change counts.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', default: 20, description: 'Maximum entries to return (max 50)' },
+          includeDetails: { type: 'boolean', default: false, description: 'Include affected node ids per entry' },
+        },
+      },
+    },
+    {
+      name: 'apply_plan',
+      changesVariables: true,
+      description: 'Execute a change plan returned by a dryRun call exactly as planned. Fails without changing anything if any planned target changed since the dry run, or if the tool would now make different changes than planned (new or edited nodes in its scope). Plans with a partial preview also fail if anything on the affected pages changed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          planId: { type: 'string', description: 'planId from a dryRun result' },
+        },
+        required: ['planId'],
+      },
+    },
+    {
+      name: 'apply_style_preset',
+      description: 'Apply designer-oriented visual presets (gradient button, glass panel, glow, shadow, blur) to multiple nodes with parameter overrides.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          preset: {
+            type: 'string',
+            enum: [
+              'button_gradient_primary',
+              'button_gradient_vivid',
+              'card_soft_shadow',
+              'panel_glass',
+              'hero_glow',
+              'backdrop_blur_soft',
+            ],
+          },
+          options: { type: 'object' },
+        },
+        required: ['nodeIds', 'preset'],
+      },
+    },
+  ]),
+
+  // ===== NEW: Frame to Components Tools =====
+  ...defineTools('component', 'plugin', [
+    {
+      name: 'frame_to_components',
+      route: 'batch',
+      description: 'Intelligently split a Frame\'s children into components. Analyzes children, groups similar ones, and converts them to components.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          frameId: { type: 'string', description: 'ID of the Frame to analyze' },
+          strategy: { 
+            type: 'string', 
+            enum: ['smart', 'by_type', 'by_name', 'all_children'],
+            default: 'smart',
+            description: 'Grouping strategy'
+          },
+          groupSimilar: { type: 'boolean', default: true },
+          createVariants: { type: 'boolean', default: false },
+          organizeOnPage: { type: 'boolean', default: true },
+          minSize: { 
+            type: 'object', 
+            properties: { width: { type: 'number' }, height: { type: 'number' } },
+            default: { width: 50, height: 30 }
+          },
+          excludeTypes: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['frameId'],
+      },
+    },
+    {
+      name: 'analyze_frame_structure',
+      description: 'Analyze a Frame\'s structure and suggest component opportunities.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          frameId: { type: 'string' },
+          detectDuplicates: { type: 'boolean', default: true },
+          minSimilarity: { type: 'number', default: 0.85 },
+        },
+        required: ['frameId'],
+      },
+      outputSchema: COMPONENT_ANALYSIS_SCHEMA,
+    },
+  ]),
+
+  // ===== NEW: Cross-Page Operations Tools =====
+  ...defineTools('page', 'batch', [
+    {
+      name: 'cross_page_copy',
+      description: 'Copy nodes from one page to another.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          sourcePageId: { type: 'string' },
+          targetPageId: { type: 'string' },
+          maintainPosition: { type: 'boolean', default: true },
+        },
+        required: ['nodeIds', 'sourcePageId', 'targetPageId'],
+      },
+    },
+    {
+      name: 'cross_page_move',
+      description: 'Move nodes from one page to another.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          sourcePageId: { type: 'string' },
+          targetPageId: { type: 'string' },
+          maintainPosition: { type: 'boolean', default: true },
+        },
+        required: ['nodeIds', 'sourcePageId', 'targetPageId'],
+      },
+    },
+    {
+      name: 'batch_edit_across_pages',
+      description: 'Apply the same edits to nodes across multiple pages.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                pageId: { type: 'string' },
+                nodeId: { type: 'string' },
+                changes: { type: 'object' },
+              },
+            },
+          },
+          atomic: ATOMIC_PROPERTY,
+        },
+        required: ['operations'],
+      },
+      outputSchema: BATCH_OUTPUT_SCHEMA,
+    },
+  ]),
+
+  // ===== NEW: Component Set Management =====
+  ...defineTools('component', 'plugin', [
+    {
+      name: 'explode_component_set',
+      description: 'Explode a component set into separate components.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentSetId: { type: 'string' },
+          convertInstancesToMain: { type: 'boolean', default: false },
+          organizeOnPage: { type: 'boolean', default: true },
+        },
+        required: ['componentSetId'],
+      },
+    },
+    {
+      name: 'detach_and_organize',
+      description: 'Detach instances and organize the detached nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instanceIds: { type: 'array', items: { type: 'string' } },
+          deleteMainComponent: { type: 'boolean', default: false },
+          organizeBy: { type: 'string', enum: ['type', 'name', 'size', 'page_location'], default: 'type' },
+          createBackup: { type: 'boolean', default: true },
+        },
+        required: ['instanceIds'],
+      },
+    },
+    {
+      name: 'convert_instances_to_components',
+      description: 'Convert existing instances to new independent components.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instanceIds: { type: 'array', items: { type: 'string' } },
+          namingPattern: { type: 'string', default: '{original}_Component' },
+          organizeOnPage: { type: 'boolean', default: true },
+        },
+        required: ['instanceIds'],
+      },
+    },
+  ]),
+
+  // ===== NEW: Advanced Component Operations =====
+  ...defineTools('component', 'plugin', [
+    {
+      name: 'split_component_by_variants',
+      description: 'Split a component with variants back into separate components.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentSetId: { type: 'string' },
+          keepComponentSet: { type: 'boolean', default: false },
+          updateInstances: { type: 'boolean', default: true },
+        },
+        required: ['componentSetId'],
+      },
+    },
+    {
+      name: 'merge_components_to_set',
+      description: 'Merge multiple standalone components into a variant set.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentIds: { type: 'array', items: { type: 'string' } },
+          variantProperty: { type: 'string', default: 'Type' },
+          autoDetectValues: { type: 'boolean', default: true },
+        },
+        required: ['componentIds'],
+      },
+    },
+  ]),
+
+  // ===== Basic Node Creation =====
+  ...defineTools('node', 'plugin', [
+    {
+      name: 'create_ellipse',
+      description: 'Create an ellipse or circle.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          name: { type: 'string' },
+          fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_line',
+      description: 'Create a line.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          strokeWeight: { type: 'number' },
+          strokes: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_polygon',
+      description: 'Create a regular polygon.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          pointCount: { type: 'number', default: 5 },
+          fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_star',
+      description: 'Create a star shape.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          pointCount: { type: 'number', default: 5 },
+          innerRadius: { type: 'number', default: 0.5 },
+          fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_vector',
+      description: 'Create a vector path. Supports vector path aliases (`vectorPaths`/`vectorPath`/`path`/`svgPath`/`d`) with object or SVG-string inputs.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          vectorPaths: { type: ['array', 'object', 'string'] as any, description: 'Can be a VectorPath object, array of VectorPath objects, or SVG path string(s).' } as any,
+          vectorPath: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
+          path: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
+          svgPath: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
+          d: { type: ['object', 'string'] as any, description: 'Alias of vectorPaths.' } as any,
+          fills: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
+          strokes: { type: 'array', description: 'Paint array. Supports hex strings and paint objects.' },
+          strokeWeight: { type: 'number' },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'import_svg',
+      description: 'Import SVG markup as editable vector layers (figma.createNodeFromSvg). The result is a frame sized to the SVG; optionally rescale it, flatten its layers into one vector, or convert it into a component.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          svg: { type: 'string', description: 'Full SVG document markup' },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          scale: { type: 'number', default: 1, description: 'Uniform scale factor (strokes and effects scale too)' },
+          flatten: { type: 'boolean', default: false, description: 'Merge all layers into a single vector' },
+          asComponent: { type: 'boolean', default: false, description: 'Convert the imported frame into a component' },
+          description: { type: 'string', description: 'Component description (with asComponent)' },
+        },
+        required: ['svg'],
+      },
+    },
+    {
+      name: 'import_html_layout',
+      route: 'batch',
+      description: 'Recreate a web page layout from a serialized DOM snapshot, offline. Each element becomes a frame (block and flex containers get auto layout with padding, gap and alignment; other containers keep absolute positions), text elements become text nodes with their fonts loaded, and background colors and images become fills. Images are taken from the snapshot\'s embedded base64 data; URLs are only fetched with fetchImages.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          layout: {
+            type: 'object',
+            description: 'Root layout node, or { root, images }. A node is { tag?, name?, box: { x, y, width, height } (page coordinates), styles?: computed CSS in camelCase (display, flexDirection, gap, padding*, justifyContent, alignItems, backgroundColor, backgroundImage, color, font*, lineHeight, borderRadius, border*, opacity, overflow, position), text?: string (leaf text run), image?: URL, children? }',
+          },
+          images: { type: 'object', description: 'Map of image URL to base64 or data: URI bytes (merged with layout.images)' },
+          fetchImages: { type: 'boolean', default: false, description: 'Fetch images missing from the snapshot over the network (needs manifest networkAccess)' },
+          parentId: { type: 'string' },
+          name: { type: 'string', description: 'Name of the root frame (default: root tag or name)' },
+          x: { type: 'number', default: 0 },
+          y: { type: 'number', default: 0 },
+          maxNodes: { type: 'number', default: 2000 },
+        },
+        required: ['layout'],
+      },
+    },
+    {
+      name: 'create_group',
+      description: 'Group multiple nodes together.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'create_section',
+      description: 'Create a section container.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          name: { type: 'string' },
+          fills: { type: 'array' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_slice',
+      description: 'Create a slice for export.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          name: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_connector',
+      description: 'Create a connector line between nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          startNodeId: { type: 'string' },
+          endNodeId: { type: 'string' },
+          startMagnet: { type: 'string', enum: ['TOP', 'BOTTOM', 'LEFT', 'RIGHT', 'AUTO'] },
+          endMagnet: { type: 'string', enum: ['TOP', 'BOTTOM', 'LEFT', 'RIGHT', 'AUTO'] },
+          strokeWeight: { type: 'number' },
+          strokes: { type: 'array' },
+        },
+        required: ['startNodeId', 'endNodeId'],
+      },
+    },
+    {
+      name: 'create_sticky',
+      description: 'Create a sticky note (FigJam).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          text: { type: 'string' },
+          color: { type: 'string', enum: ['YELLOW', 'GREEN', 'BLUE', 'ORANGE', 'PINK', 'PURPLE', 'GRAY'] },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y'],
+      },
+    },
+    {
+      name: 'create_shape_with_text',
+      description: 'Create a shape with text (FigJam).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          shapeType: { type: 'string', enum: ['SQUARE', 'ELLIPSE', 'ROUNDED_RECTANGLE', 'DIAMOND', 'TRIANGLE_UP', 'TRIANGLE_DOWN', 'PARALLELOGRAM_RIGHT', 'PARALLELOGRAM_LEFT'] },
+          text: { type: 'string' },
+          fills: { type: 'array' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y', 'width', 'height'],
+      },
+    },
+    {
+      name: 'create_table',
+      description: 'Create a table.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          rowCount: { type: 'number', default: 3 },
+          columnCount: { type: 'number', default: 3 },
+          cellWidth: { type: 'number', default: 100 },
+          cellHeight: { type: 'number', default: 40 },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['x', 'y'],
+      },
+    },
+  ]),
+
+  // ===== Boolean Operations =====
+  ...defineTools('node', 'plugin', [
+    {
+      name: 'union_nodes',
+      description: 'Perform union boolean operation on multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'subtract_nodes',
+      description: 'Perform subtract boolean operation on multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'intersect_nodes',
+      description: 'Perform intersect boolean operation on multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'exclude_nodes',
+      description: 'Perform exclude boolean operation on multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          parentId: { type: 'string' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'flatten_nodes',
+      description: 'Flatten multiple nodes into a single vector network.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          parentId: { type: 'string' },
+        },
+        required: ['nodeIds'],
+      },
+    },
+  ]),
+
+  // ===== Node Properties =====
+  ...defineTools('node', 'plugin', [
+    {
+      name: 'set_constraints',
+      description: 'Set constraints for a node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          horizontal: { type: 'string', enum: ['MIN', 'MAX', 'STRETCH', 'SCALE', 'CENTER'] },
+          vertical: { type: 'string', enum: ['MIN', 'MAX', 'STRETCH', 'SCALE', 'CENTER'] },
+        },
+        required: ['nodeId', 'horizontal', 'vertical'],
+      },
+    },
+    {
+      name: 'set_layout_grid',
+      description: 'Set layout grids for a frame.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          layoutGrids: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                pattern: { type: 'string', enum: ['COLUMNS', 'ROWS', 'GRID'] },
+                sectionSize: { type: 'number' },
+                visible: { type: 'boolean' },
+                color: { type: 'object' },
+                alignment: { type: 'string', enum: ['MIN', 'MAX', 'STRETCH', 'CENTER'] },
+                gutterSize: { type: 'number' },
+                offset: { type: 'number' },
+                count: { type: 'number' },
+              },
+            },
+          },
+        },
+        required: ['nodeId', 'layoutGrids'],
+      },
+    },
+    {
+      name: 'set_effects',
+      description: 'Set effects (shadows, blurs) for a node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          effects: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['INNER_SHADOW', 'DROP_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR'] },
+                color: { type: 'object' },
+                offset: { type: 'object' },
+                radius: { type: 'number' },
+                spread: { type: 'number' },
+                visible: { type: 'boolean' },
+                blendMode: { type: 'string' },
+              },
+            },
+          },
+        },
+        required: ['nodeId', 'effects'],
+      },
+    },
+    {
+      name: 'set_export_settings',
+      description: 'Set export settings for a node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          exportSettings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                suffix: { type: 'string' },
+                format: { type: 'string', enum: ['PNG', 'SVG', 'PDF', 'JPG'] },
+                constraint: { type: 'object' },
+              },
+            },
+          },
+        },
+        required: ['nodeId', 'exportSettings'],
+      },
+    },
+    {
+      name: 'set_blend_mode',
+      description: 'Set blend mode for a node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          blendMode: { type: 'string', enum: ['PASS_THROUGH', 'NORMAL', 'DARKEN', 'MULTIPLY', 'LINEAR_BURN', 'COLOR_BURN', 'LIGHTEN', 'SCREEN', 'LINEAR_DODGE', 'COLOR_DODGE', 'OVERLAY', 'SOFT_LIGHT', 'HARD_LIGHT', 'DIFFERENCE', 'EXCLUSION', 'HUE', 'SATURATION', 'COLOR', 'LUMINOSITY'] },
+        },
+        required: ['nodeId', 'blendMode'],
+      },
+    },
+    {
+      name: 'set_mask',
+      description: 'Set or remove mask on a node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          isMask: { type: 'boolean' },
+          maskType: { type: 'string', enum: ['ALPHA', 'VECTOR', 'LUMINANCE'] },
+        },
+        required: ['nodeId', 'isMask'],
+      },
+    },
+  ]),
+
+  // ===== Auto Layout Enhancement =====
+  ...defineTools('layout', 'plugin', [
+    {
+      name: 'set_auto_layout',
+      description: 'Comprehensive auto layout configuration.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          layoutMode: { type: 'string', enum: ['NONE', 'HORIZONTAL', 'VERTICAL'] },
+          primaryAxisAlignItems: { type: 'string', enum: ['MIN', 'MAX', 'CENTER', 'SPACE_BETWEEN'] },
+          counterAxisAlignItems: { type: 'string', enum: ['MIN', 'MAX', 'CENTER', 'BASELINE'] },
+          paddingTop: { type: 'number' },
+          paddingRight: { type: 'number' },
+          paddingBottom: { type: 'number' },
+          paddingLeft: { type: 'number' },
+          itemSpacing: { type: 'number' },
+          counterAxisSpacing: { type: 'number' },
+          layoutWrap: { type: 'string', enum: ['NO_WRAP', 'WRAP'] },
+          width: { type: 'string', enum: ['FIXED', 'HUG', 'FILL'] },
+          height: { type: 'string', enum: ['FIXED', 'HUG', 'FILL'] },
+        },
+        required: ['nodeId', 'layoutMode'],
+      },
+    },
+    {
+      name: 'remove_auto_layout',
+      description: 'Remove auto layout from a frame.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          keepPosition: { type: 'boolean', default: true },
+        },
+        required: ['nodeId'],
+      },
+    },
+    {
+      name: 'align_nodes',
+      description: 'Align multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          alignment: { type: 'string', enum: ['TOP_LEFT', 'TOP_CENTER', 'TOP_RIGHT', 'MIDDLE_LEFT', 'MIDDLE_CENTER', 'MIDDLE_RIGHT', 'BOTTOM_LEFT', 'BOTTOM_CENTER', 'BOTTOM_RIGHT'] },
+        },
+        required: ['nodeIds', 'alignment'],
+      },
+    },
+    {
+      name: 'distribute_nodes',
+      description: 'Evenly distribute nodes horizontally or vertically.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          direction: { type: 'string', enum: ['HORIZONTAL', 'VERTICAL'] },
+          spacing: { type: 'number' },
+        },
+        required: ['nodeIds', 'direction'],
+      },
+    },
+  ]),
+
+  // ===== Style System Complete =====
+  ...defineTools('style', 'plugin', [
+    {
+      name: 'create_effect_style',
+      description: 'Create an effect style.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          effects: { type: 'array' },
+          sourceNodeId: { type: 'string' },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'create_grid_style',
+      description: 'Create a layout grid style.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          layoutGrids: { type: 'array' },
+          sourceNodeId: { type: 'string' },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'update_paint_style',
+      description: 'Update an existing paint style.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          styleId: { type: 'string' },
+          name: { type: 'string' },
+          paints: { type: 'array' },
+        },
+        required: ['styleId'],
+      },
+    },
+    {
+      name: 'update_text_style',
+      description: 'Update an existing text style.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          styleId: { type: 'string' },
+          name: { type: 'string' },
+          fontName: { type: 'object' },
+          fontSize: { type: 'number' },
+          lineHeight: { type: 'object' },
+          letterSpacing: { type: 'object' },
+        },
+        required: ['styleId'],
+      },
+    },
+    {
+      name: 'delete_style',
+      description: 'Delete a style.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          styleId: { type: 'string' },
+          detachNodes: { type: 'boolean', default: true },
+        },
+        required: ['styleId'],
+      },
+    },
+    {
+      name: 'get_all_styles',
+      description: 'Get all styles in the document.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['PAINT', 'TEXT', 'EFFECT', 'GRID'] },
+        },
+      },
+    },
+  ]),
+
+  // ===== Variables System =====
+  ...defineTools('variable', 'plugin', [
+    {
+      name: 'create_variable',
+      changesVariables: true,
+      description: 'Create a variable.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['COLOR', 'FLOAT', 'STRING', 'BOOLEAN'] },
+          value: {},
+          collectionId: { type: 'string' },
+        },
+        required: ['name', 'type', 'collectionId'],
+      },
+    },
+    {
+      name: 'create_variable_collection',
+      changesVariables: true,
+      description: 'Create a variable collection.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          modes: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'set_variable_value',
+      changesVariables: true,
+      description: 'Set a variable value for a specific mode.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          variableId: { type: 'string' },
+          modeId: { type: 'string' },
+          value: {},
+        },
+        required: ['variableId', 'modeId', 'value'],
+      },
+    },
+    {
+      name: 'bind_variable_to_node',
+      description: 'Bind a variable to a node property.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          variableId: { type: 'string' },
+          property: { type: 'string', enum: ['FILLS', 'STROKES', 'EFFECTS', 'OPACITY', 'WIDTH', 'HEIGHT', 'VISIBLE', 'TEXT'] },
+        },
+        required: ['nodeId', 'variableId', 'property'],
+      },
+    },
+    {
+      name: 'unbind_variable',
+      description: 'Unbind a variable from a node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          property: { type: 'string' },
+        },
+        required: ['nodeId', 'property'],
+      },
+    },
+    {
+      name: 'get_all_variables',
+      description: 'Get all variables and collections.',
+      inputSchema: {
+        type: 'object',
+      },
+    },
+    {
+      name: 'export_design_tokens',
+      description: 'Export variable collections (all modes, with aliases) and paint/text/effect/grid styles as design tokens. Returns generated files: W3C DTCG JSON (default, lossless: per-mode values and Figma ids under $extensions["com.figma"]), Style Dictionary JSON, CSS custom properties, SCSS, or a Tailwind theme extension plus its CSS variables.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: {
+            type: 'string',
+            enum: ['dtcg', 'style-dictionary', 'css', 'scss', 'tailwind'],
+            default: 'dtcg',
+          },
+          collections: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Variable collection names or ids to export (default: all local collections)',
+          },
+          includeVariables: { type: 'boolean', default: true },
+          includeStyles: { type: 'boolean', default: true },
+        },
+      },
+    },
+    {
+      name: 'import_design_tokens',
+      changesVariables: true,
+      description: 'Import DTCG or Style Dictionary tokens into variables and styles. Matches collections, variables and styles by name, creates missing ones, updates changed values per mode, resolves {aliases} into variable aliases and returns a change summary with before/after values. Use dryRun to preview the diff.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tokens: {
+            type: ['object', 'string'],
+            description: 'Token tree as an object or JSON string (e.g. the tokens.json written by export_design_tokens)',
+          },
+          format: {
+            type: 'string',
+            enum: ['auto', 'dtcg', 'style-dictionary'],
+            default: 'auto',
+            description: 'auto treats trees with $value as DTCG, otherwise Style Dictionary',
+          },
+          collection: {
+            type: 'string',
+            description: 'Put every variable token in this collection (default: first path segment or $extensions["com.figma"].collection)',
+          },
+          mode: {
+            type: 'string',
+            description: 'Mode that receives plain token values (default: the collection default mode; created if missing)',
+          },
+          deleteMissing: {
+            type: 'boolean',
+            default: false,
+            description: 'Delete variables and styles absent from the tokens, limited to the collections and style types being imported',
+          },
+        },
+        required: ['tokens'],
+      },
+    },
+    {
+      name: 'delete_variable',
+      changesVariables: true,
+      description: 'Delete a variable.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          variableId: { type: 'string' },
+          unbindNodes: { type: 'boolean', default: true },
+        },
+        required: ['variableId'],
+      },
+    },
+  ]),
+
+  // ===== Page Management =====
+  ...defineTools('page', 'plugin', [
+    {
+      name: 'create_page',
+      description: 'Create a new page.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          index: { type: 'number' },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'delete_page',
+      description: 'Delete a page. If the target is current page, the plugin switches to another page first. Cannot delete the last remaining page.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: { type: 'string' },
+          confirm: { type: 'boolean', default: false },
+        },
+        required: ['pageId'],
+      },
+    },
+    {
+      name: 'rename_page',
+      description: 'Rename a page.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: { type: 'string' },
+          newName: { type: 'string' },
+        },
+        required: ['pageId', 'newName'],
+      },
+    },
+    {
+      name: 'reorder_pages',
+      description: 'Reorder pages.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageIds: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['pageIds'],
+      },
+    },
+    {
+      name: 'duplicate_page',
+      description: 'Duplicate a page with all its content.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pageId: { type: 'string' },
+          newName: { type: 'string' },
+        },
+        required: ['pageId'],
+      },
+    },
+  ]),
+
+  // ===== Media & Export =====
+  ...defineTools('export', 'plugin', [
+    {
+      name: 'create_image_fill',
+      description: 'Create an image fill from URL or bytes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          hash: { type: 'string' },
+          nodeId: { type: 'string', description: 'Node to apply image fill to' },
+        },
+      },
+    },
+    {
+      name: 'export_node',
+      route: 'export',
+      description: 'Export a node as image/SVG/PDF. PNG/JPG are returned as image content blocks, SVG/PDF as embedded resources.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string' },
+          format: { type: 'string', enum: ['PNG', 'SVG', 'PDF', 'JPG'] },
+          scale: { type: 'number', default: 1 },
+          suffix: { type: 'string' },
+          outputDir: OUTPUT_DIR_PROPERTY,
+        },
+        required: ['nodeId', 'format'],
+      },
+    },
+    {
+      name: 'export_nodes_batch',
+      route: 'export',
+      description: 'Export multiple nodes at once. Each export is returned as an image content block (PNG/JPG) or embedded resource (SVG/PDF).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          exports: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                nodeId: { type: 'string' },
+                format: { type: 'string' },
+                scale: { type: 'number' },
+                suffix: { type: 'string' },
+              },
+            },
+          },
+          outputDir: OUTPUT_DIR_PROPERTY,
+        },
+        required: ['exports'],
+      },
+    },
+  ]),
+
+  // ===== Code Generation =====
+  ...defineTools('code', 'plugin', [
+    {
+      name: 'generate_code',
+      description: 'Generate code from a frame or other node. html-css walks the node tree and maps auto layout to flexbox, constraints to absolute positioning, fills/strokes/effects to CSS, text styles to typography and bound variables to var(--token, fallback) custom properties (names match export_design_tokens CSS). Returns a self-contained snippet plus the assets (vectors, image fills) to export with export_node.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string', description: 'Node to generate (default: first selected node)' },
+          target: { type: 'string', enum: ['html-css'], default: 'html-css' },
+          assetDir: { type: 'string', default: 'assets', description: 'Path prefix for asset URLs in the generated code' },
+          classPrefix: { type: 'string', description: 'Prefix for generated class names' },
+          maxDepth: { type: 'number', default: 20 },
+          maxNodes: { type: 'number', default: 1000 },
+        },
+      },
+    },
+    {
+      name: 'generate_react_component',
+      description: 'Generate React/TSX for a component, component set or instance, styled with Tailwind or CSS modules. Variant properties become a typed props interface with one branch per variant; TEXT and BOOLEAN component properties become props, INSTANCE_SWAP properties become ReactNode slots, and nested instances become imports of other generated components (one file each). Uses the same layout and style mapping as generate_code.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeId: { type: 'string', description: 'COMPONENT, COMPONENT_SET or INSTANCE (default: first selected node)' },
+          styling: { type: 'string', enum: ['tailwind', 'css-modules'], default: 'tailwind' },
+          componentName: { type: 'string', description: 'Override the generated component name' },
+          includeDependencies: { type: 'boolean', default: true, description: 'Also generate files for nested component instances' },
+          maxComponents: { type: 'number', default: 20 },
+          assetDir: { type: 'string', default: 'assets' },
+          maxDepth: { type: 'number', default: 20 },
+          maxNodes: { type: 'number', default: 2000 },
+        },
+      },
+    },
+  ]),
+
+  // ===== Component Properties =====
+  ...defineTools('component', 'plugin', [
+    {
+      name: 'add_component_property',
+      description: 'Add a property to a component.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentId: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['BOOLEAN', 'TEXT', 'INSTANCE_SWAP', 'VARIANT'] },
+          defaultValue: {},
+        },
+        required: ['componentId', 'name', 'type'],
+      },
+    },
+    {
+      name: 'set_component_property',
+      description: 'Set a component property value on an instance.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instanceId: { type: 'string' },
+          propertyName: { type: 'string' },
+          value: {},
+        },
+        required: ['instanceId', 'propertyName', 'value'],
+      },
+    },
+    {
+      name: 'remove_component_property',
+      description: 'Remove a property from a component.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentId: { type: 'string' },
+          propertyName: { type: 'string' },
+        },
+        required: ['componentId', 'propertyName'],
+      },
+    },
+  ]),
+
+  // ===== Transform Operations =====
+  ...defineTools('node', 'plugin', [
+    {
+      name: 'scale_nodes',
+      description: 'Scale multiple nodes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          scaleX: { type: 'number' },
+          scaleY: { type: 'number' },
+          center: { type: 'object' },
+        },
+        required: ['nodeIds', 'scaleX', 'scaleY'],
+      },
+    },
+    {
+      name: 'flip_horizontal',
+      description: 'Flip nodes horizontally.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['nodeIds'],
+      },
+    },
+    {
+      name: 'flip_vertical',
+      description: 'Flip nodes vertically.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          nodeIds: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['nodeIds'],
+      },
+    },
+  ]),
+
+  // ===== Advanced Import/Export =====
+  ...defineTools('library', 'plugin', [
+    {
+      name: 'import_component_from_file',
+      pluginType: 'load_component_from_file',
+      description: 'Import a component from another Figma file.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          componentKey: { type: 'string' },
+        },
+        required: ['fileKey', 'componentKey'],
+      },
+    },
+    {
+      name: 'import_style_from_file',
+      pluginType: 'load_style_from_file',
+      description: 'Import a style from another Figma file.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          styleKey: { type: 'string' },
+        },
+        required: ['fileKey', 'styleKey'],
+      },
+    },
+  ]),
+
+  // ===== REST API Bridge (Cross-Project Operations) =====
+  ...defineTools('rest', 'rest', [
+    {
+      name: 'rest_get_file',
+      description: 'Get file data via REST API (for cross-project operations). Requires Figma access token.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          accessToken: { type: 'string' },
+          version: { type: 'string' },
+          depth: { type: 'number' },
+        },
+        required: ['fileKey', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_get_file_nodes',
+      description: 'Get specific nodes from a file via REST API.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          accessToken: { type: 'string' },
+        },
+        required: ['fileKey', 'nodeIds', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_get_team_components',
+      description: 'Get team component library via REST API.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          teamId: { type: 'string' },
+          accessToken: { type: 'string' },
+        },
+        required: ['teamId', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_get_file_components',
+      description: 'Get components from a file via REST API.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          accessToken: { type: 'string' },
+        },
+        required: ['fileKey', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_get_team_styles',
+      description: 'Get team styles via REST API.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          teamId: { type: 'string' },
+          accessToken: { type: 'string' },
+        },
+        required: ['teamId', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_export_nodes',
+      description: 'Export nodes as images via REST API.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          nodeIds: { type: 'array', items: { type: 'string' } },
+          format: { type: 'string', enum: ['png', 'jpg', 'svg', 'pdf'] },
+          scale: { type: 'number' },
+          accessToken: { type: 'string' },
+        },
+        required: ['fileKey', 'nodeIds', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_batch_export',
+      description: 'Batch export nodes from multiple files via REST API.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          exports: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                fileKey: { type: 'string' },
+                nodeId: { type: 'string' },
+                format: { type: 'string' },
+                scale: { type: 'number' },
+              },
+            },
+          },
+          accessToken: { type: 'string' },
+        },
+        required: ['exports', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_download_image',
+      description: 'Download image from URL (for exported assets).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+        },
+        required: ['url'],
+      },
+    },
+    {
+      name: 'rest_copy_component_to_local',
+      description: 'Copy component from another file via REST API (export SVG).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          componentKey: { type: 'string' },
+          accessToken: { type: 'string' },
+        },
+        required: ['componentKey', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_compare_components',
+      description: 'Compare components between two files.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sourceFileKey: { type: 'string' },
+          targetFileKey: { type: 'string' },
+          accessToken: { type: 'string' },
+        },
+        required: ['sourceFileKey', 'targetFileKey', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_sync_component_library',
+      description: 'Copy team library components into the file open in the connected plugin: each component is exported as SVG via REST and recreated as a local component with import_svg.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          teamId: { type: 'string' },
+          targetFileKey: { type: 'string', description: 'File the plugin has open; checked when the plugin can read its file key, otherwise each detail reports targetVerified: false with a warning' },
+          names: { type: 'array', items: { type: 'string' }, description: 'Only sync components with these names (default: all)' },
+          parentId: { type: 'string', description: 'Frame or page to place the components in (default: current page)' },
+          accessToken: { type: 'string' },
+        },
+        required: ['teamId', 'targetFileKey', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_extract_palette',
+      description: 'Extract the color palette of any file via REST (no plugin needed): visible solid fills and strokes are clustered by CIEDE2000 distance, like extract_palette.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          fileKey: { type: 'string' },
+          nodeIds: { type: 'array', items: { type: 'string' }, description: 'Only scan these nodes and their subtrees (default: whole file)' },
+          maxColors: { type: 'number', default: 12 },
+          maxDeltaE: { type: 'number', default: 6 },
+          includeStrokes: { type: 'boolean', default: true },
+          accessToken: { type: 'string' },
+        },
+        required: ['fileKey', 'accessToken'],
+      },
+    },
+    {
+      name: 'rest_get_rate_limit',
+      description: 'Check REST API rate limit status.',
+      inputSchema: {
+        type: 'object',
+      },
+    },
+  ]),
+
+  // ===== System & Performance =====
+  ...defineTools('system', 'server', [
+    {
+      name: 'get_performance_report',
+      description: 'Get performance report for all operations.',
+      inputSchema: {
+        type: 'object',
+      },
+    },
+    {
+      name: 'cancel_operation',
+      description: 'Cancel a running batch operation by ID (see get_active_operations). The plugin stops cooperatively and the original call returns a partial result with cancelled=true.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operationId: { type: 'string' },
+        },
+        required: ['operationId'],
+      },
+      outputSchema: CANCEL_RESULT_SCHEMA,
+    },
+    {
+      name: 'get_active_operations',
+      description: 'Get list of currently active operations.',
+      inputSchema: {
+        type: 'object',
+      },
+    },
+  ]),
+];
+
+// Tools that never modify the document (server-side, read-only and REST bridge tools) do not take dryRun.
+const NON_MUTATING_TOOLS = new Set([
+  'connect_to_relay', 'get_connection_status', 'get_performance_report', 'cancel_operation', 'get_active_operations',
+  'smart_select', 'find_similar', 'scan_by_pattern', 'auto_discover_components', 'analyze_duplicates',
+  'suggest_component_structure', 'check_consistency', 'extract_palette', 'audit_accessibility', 'analyze_frame_structure', 'validate_structure',
+  'select_nodes', 'set_focus', 'capture_view', 'get_document_info', 'get_node_info', 'get_selection',
+  'get_all_styles', 'get_all_variables', 'export_design_tokens', 'export_node', 'export_nodes_batch',
+  'generate_code', 'generate_react_component', 'undo_operations', 'redo_operations', 'list_operation_journal', 'apply_plan',
+]);
+
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  default: false,
+  description: 'Validate inputs and return a change plan (create/modify/delete/move with before/after values) without modifying the document. Execute it with apply_plan.',
+};
+
+const DEFINITIONS_BY_NAME = new Map(TOOL_DEFINITIONS.map((tool) => [tool.name, tool]));
+
+export function isPluginRoute(route: ToolRoute): boolean {
+  return route === 'plugin' || route === 'batch' || route === 'export';
+}
+
+export function supportsDryRun(name: string): boolean {
+  const tool = DEFINITIONS_BY_NAME.get(name);
+  return !!tool && isPluginRoute(tool.route) && !NON_MUTATING_TOOLS.has(name);
+}
+
+// Registry entries as advertised: mutating tools gain the dryRun property.
+export const TOOL_REGISTRY: ToolDefinition[] = TOOL_DEFINITIONS.map((tool) => supportsDryRun(tool.name)
+  ? { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, dryRun: DRY_RUN_PROPERTY } } }
+  : tool);
+
+const REGISTRY_BY_NAME = new Map(TOOL_REGISTRY.map((tool) => [tool.name, tool]));
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return REGISTRY_BY_NAME.get(name);
+}
+
+export function pluginMessageType(tool: ToolDefinition): string {
+  return tool.pluginType ?? tool.name;
+}
+
+// The MCP view of a registry entry, without routing metadata.
+export function toMcpTool({ name, description, inputSchema, outputSchema }: ToolDefinition): Tool {
+  // Tools without a declared result contract advertise no outputSchema at all.
+  return outputSchema ? { name, description, inputSchema, outputSchema } : { name, description, inputSchema };
+}
+
+export const TOOLS: Tool[] = TOOL_REGISTRY.map(toMcpTool);
@@ -29,7 +29,7 @@ export interface Rectangle {
   height: number;
 }
 
-// Enhanced Node Info
+// Enhanced Node Info (get_node_info, get_selection); schema: NODE_INFO_SCHEMA in output-schemas.ts
 export interface NodeInfo {
   id: string;
   name: string;
@@ -48,9 +48,9 @@ export interface NodeInfo {
   strokeWeight?: number;
   strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
   cornerRadius?: number | number[];
-  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'GRID';
   primaryAxisAlignItems?: 'MIN' | 'MAX' | 'CENTER' | 'SPACE_BETWEEN';
-  counterAxisAlignItems?: 'MIN' | 'MAX' | 'CENTER';
+  counterAxisAlignItems?: 'MIN' | 'MAX' | 'CENTER' | 'BASELINE';
   paddingTop?: number;
   paddingRight?: number;
   paddingBottom?: number;
@@ -160,17 +160,29 @@ export interface BatchConnectParams {
   }>;
 }
 
+export interface NodeRef {
+  id: string;
+  name: string;
+}
+
+// analyze_duplicates; schema: ANALYZE_RESULT_SCHEMA in output-schemas.ts
 export interface AnalyzeResult {
   duplicates: Array<{
-    groupId: string;
-    nodes: string[];
     similarity: number;
+    count: number;
+    nodes: NodeRef[];
+    nodesTruncated: boolean;
+    suggestedAction: 'Create Component' | 'Review';
   }>;
-  suggestions: Array<{
-    type: 'component' | 'variant' | 'style';
-    targetNodes: string[];
-    description: string;
-  }>;
+  totalAnalyzed: number;
+  analyzedNodesTruncated?: boolean;
+  maxAnalyzedNodes?: number;
+  potentialSavings: number;
+  returnedGroups: number;
+  totalGroups: number;
+  truncatedGroups?: boolean;
+  maxGroups?: number;
+  maxNodesPerGroup?: number;
 }
 
 // Cross-Page Operations
@@ -223,29 +235,40 @@ export interface PluginResponse {
   };
 }
 
-// Component Analysis Result
+// Unsolicited plugin -> server notification (no request id)
+export interface PluginEvent {
+  type: 'plugin_event';
+  event: string;
+  payload?: any;
+}
+
+// Component Analysis Result (analyze_frame_structure); schema: COMPONENT_ANALYSIS_SCHEMA in output-schemas.ts
 export interface ComponentAnalysisResult {
   frameId: string;
   frameName: string;
   totalChildren: number;
+  childTypes: Record<string, number>;
+  sizeDistribution: {
+    small: number;
+    medium: number;
+    large: number;
+  };
   componentCandidates: Array<{
-    nodeId: string;
+    id: string;
     name: string;
     type: NodeType;
-    bounds: Rectangle;
-    similarityGroup?: number;
-    suggestedName: string;
+    width: number;
+    height: number;
   }>;
-  similarGroups: Array<{
-    groupId: number;
-    nodes: string[];
-    similarity: number;
-    suggestedComponentName: string;
+  duplicateGroups: Array<{
+    count: number;
+    nodes: NodeRef[];
+    suggestedName: string;
   }>;
-  createdComponents?: Array<{
-    componentId: string;
-    name: string;
-    sourceNodes: string[];
-    instanceIds: string[];
+  recommendations: Array<{
+    type: 'merge_duplicates' | 'create_components';
+    priority: 'high' | 'medium' | 'low';
+    description: string;
+    affectedNodes?: number;
   }>;
 }